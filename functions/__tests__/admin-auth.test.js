@@ -0,0 +1,155 @@
+// Admin authentication tests - run against the Firebase Auth emulator:
+//   cd functions && npm test
+// (firebase emulators:exec sets FIREBASE_AUTH_EMULATOR_HOST; without it, as with npm run test:unit,
+// the emulator tests are skipped)
+const { describe, test, before, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeFirebaseAdmin } = require('../firebase-admin');
+const {
+  hasRole,
+  getBearerToken,
+  setAdminRole,
+  verifyAdminRequest
+} = require('../admin-auth');
+const admin = require('../admin');
+const reports = require('../reports');
+const activities = require('../activities');
+const locations = require('../locations');
+
+const EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-pamekids';
+const PASSWORD = 'correct-horse-battery';
+
+describe('roles', () => {
+  test('higher roles include lower ones', () => {
+    assert.equal(hasRole('owner', 'editor'), true);
+    assert.equal(hasRole('moderator', 'editor'), true);
+    assert.equal(hasRole('editor', 'moderator'), false);
+    assert.equal(hasRole('admin', 'editor'), false);
+    assert.equal(hasRole(undefined, 'editor'), false);
+  });
+
+  test('reads the bearer token in either header case', () => {
+    assert.equal(getBearerToken({ authorization: 'Bearer abc' }), 'abc');
+    assert.equal(getBearerToken({ Authorization: 'Bearer abc' }), 'abc');
+    assert.equal(getBearerToken({ authorization: 'abc' }), '');
+    assert.equal(getBearerToken(undefined), '');
+  });
+});
+
+describe('with the Auth emulator', { skip: !EMULATOR_HOST && 'FIREBASE_AUTH_EMULATOR_HOST is not set' }, () => {
+  let auth;
+
+  // Sign in through the emulator's REST API, like the client SDK does
+  const signIn = async (email) => {
+    const response = await fetch(
+      `http://${EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=fake-api-key`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password: PASSWORD, returnSecureToken: true })
+      }
+    );
+    const data = await response.json();
+    assert.ok(data.idToken, `sign in failed for ${email}`);
+    return data.idToken;
+  };
+
+  // Create a user with an optional role and return a fresh ID token for them
+  const createAdmin = async (email, role) => {
+    await auth.createUser({ email, password: PASSWORD });
+    if (role) {
+      await setAdminRole(email, role);
+    }
+    return signIn(email);
+  };
+
+  const requestWith = (idToken, extra = {}) => ({
+    httpMethod: 'GET',
+    headers: idToken ? { authorization: `Bearer ${idToken}` } : {},
+    ...extra
+  });
+
+  before(() => {
+    auth = initializeFirebaseAdmin().auth();
+  });
+
+  beforeEach(async () => {
+    await fetch(`http://${EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/accounts`, { method: 'DELETE' });
+  });
+
+  test('rejects missing, invalid and role-less tokens', async () => {
+    await assert.rejects(verifyAdminRequest(requestWith(null)), { statusCode: 401 });
+    await assert.rejects(verifyAdminRequest(requestWith('not-a-token')), { statusCode: 401 });
+
+    const visitorToken = await createAdmin('visitor@example.com', null);
+    await assert.rejects(verifyAdminRequest(requestWith(visitorToken)), { statusCode: 403 });
+  });
+
+  test('checks the role claim against the minimum role', async () => {
+    const editorToken = await createAdmin('editor@example.com', 'editor');
+    const ownerToken = await createAdmin('owner@example.com', 'owner');
+
+    const editor = await verifyAdminRequest(requestWith(editorToken), 'editor');
+    assert.equal(editor.role, 'editor');
+    assert.equal(editor.email, 'editor@example.com');
+    await assert.rejects(verifyAdminRequest(requestWith(editorToken), 'moderator'), { statusCode: 403 });
+
+    const owner = await verifyAdminRequest(requestWith(ownerToken), 'moderator');
+    assert.equal(owner.role, 'owner');
+  });
+
+  test('protects admin listings in other functions', async () => {
+    const editorToken = await createAdmin('editor@example.com', 'editor');
+
+    assert.equal((await reports.handler(requestWith(null), {})).statusCode, 401);
+    assert.equal((await reports.handler(requestWith(editorToken), {})).statusCode, 403);
+
+    // Triage changes are for moderators as well
+    const triage = (token) => requestWith(token, { httpMethod: 'PUT', path: '/api/reports/abc', body: JSON.stringify({ status: 'resolved' }) });
+    assert.equal((await reports.handler(triage(null), {})).statusCode, 401);
+    assert.equal((await reports.handler(triage(editorToken), {})).statusCode, 403);
+
+    const review = requestWith(editorToken, { httpMethod: 'PUT', path: '/api/activities/abc', body: JSON.stringify({ action: 'reject', reason: 'Closed' }) });
+    assert.equal((await activities.handler(review, {})).statusCode, 403);
+
+    // Location writes need an editor before anything is validated
+    const createLocation = requestWith(null, { httpMethod: 'POST', body: JSON.stringify({ name: 'Park' }) });
+    assert.equal((await locations.handler(createLocation, {})).statusCode, 401);
+  });
+
+  test('lets owners manage roles', async () => {
+    const ownerToken = await createAdmin('owner@example.com', 'owner');
+    const editorToken = await createAdmin('editor@example.com', 'editor');
+    await createAdmin('new@example.com', null);
+
+    // Only owners can use the role management function
+    assert.equal((await admin.handler(requestWith(editorToken), {})).statusCode, 403);
+
+    const listResponse = await admin.handler(requestWith(ownerToken), {});
+    assert.equal(listResponse.statusCode, 200);
+    const { admins } = JSON.parse(listResponse.body);
+    assert.deepEqual(admins.map(user => user.email).sort(), ['editor@example.com', 'owner@example.com']);
+
+    const promote = await admin.handler(
+      requestWith(ownerToken, { httpMethod: 'POST', body: JSON.stringify({ email: 'New@example.com', role: 'moderator' }) }),
+      {}
+    );
+    assert.equal(promote.statusCode, 200);
+    assert.equal((await auth.getUserByEmail('new@example.com')).customClaims.role, 'moderator');
+
+    // The new role applies from the next sign in
+    const moderator = await verifyAdminRequest(requestWith(await signIn('new@example.com')), 'moderator');
+    assert.equal(moderator.role, 'moderator');
+  });
+
+  test('rejects bad role changes', async () => {
+    const ownerToken = await createAdmin('owner@example.com', 'owner');
+    const post = (body) => admin.handler(requestWith(ownerToken, { httpMethod: 'POST', body: JSON.stringify(body) }), {});
+
+    assert.equal((await post({ email: 'owner@example.com', role: null })).statusCode, 400);
+    assert.equal((await post({ email: 'owner@example.com', role: 'superuser' })).statusCode, 400);
+    assert.equal((await post({ email: 'nobody@example.com', role: 'editor' })).statusCode, 404);
+    assert.equal((await auth.getUserByEmail('owner@example.com')).customClaims.role, 'owner');
+  });
+});
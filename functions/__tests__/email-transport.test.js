@@ -0,0 +1,92 @@
+// Email transport tests - a tiny local SMTP server stands in for the real relay
+const { describe, test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('net');
+const { buildMimeMessage, createTransport, sendEmail } = require('../email-transport');
+const { renderEmail } = require('../email-templates');
+
+// Accepts one connection at a time and records the commands and message data it receives
+function startSmtpServer() {
+  const received = [];
+  const server = net.createServer(socket => {
+    const session = { commands: [], data: '' };
+    received.push(session);
+    let inData = false;
+    let buffer = '';
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 OK queued\r\n');
+      }
+
+      let newline;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        session.commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+        else if (line.startsWith('AUTH')) socket.write('235 Authenticated\r\n');
+        else if (line === 'DATA') { inData = true; socket.write('354 Go ahead\r\n'); }
+        else if (line === 'QUIT') { socket.write('221 Bye\r\n'); socket.end(); }
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, received, port: server.address().port }));
+  });
+}
+
+describe('smtp transport', () => {
+  let smtp;
+  after(() => smtp && smtp.server.close());
+
+  test('delivers a rendered email to a local SMTP server', async () => {
+    smtp = await startSmtpServer();
+    const transport = createTransport('smtp', { host: '127.0.0.1', port: smtp.port, user: 'mailer', pass: 'secret' });
+    const email = renderEmail('suggestion-rejected', { name: 'Παιδική χαρά', reason: 'Already listed' });
+
+    const result = await sendEmail(transport, { to: 'parent@example.com', ...email });
+
+    assert.deepEqual(result.accepted, ['parent@example.com']);
+    const [session] = smtp.received;
+    assert.ok(session.commands.includes('MAIL FROM:<hello@pamekids.com>'));
+    assert.ok(session.commands.includes('RCPT TO:<parent@example.com>'));
+    assert.ok(session.commands.includes(`AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`));
+    assert.match(session.data, /Subject: =\?UTF-8\?B\?/);
+    assert.match(session.data, /multipart\/alternative/);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  test('adds extra headers and base64 encodes the body', () => {
+    const message = buildMimeMessage({
+      from: 'PameKids <hello@pamekids.com>',
+      to: 'parent@example.com',
+      subject: 'Hello',
+      text: 'Καλημέρα',
+      headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+    });
+    assert.match(message, /^Subject: Hello$/m);
+    assert.match(message, /^List-Unsubscribe-Post: List-Unsubscribe=One-Click$/m);
+    assert.ok(message.includes(Buffer.from('Καλημέρα').toString('base64')));
+  });
+});
+
+describe('memory transport', () => {
+  test('keeps what it was asked to send', async () => {
+    const transport = createTransport('memory');
+    await sendEmail(transport, { to: 'parent@example.com', subject: 'Hi', text: 'Hello' });
+    assert.equal(transport.sent.length, 1);
+    assert.equal(transport.sent[0].from, 'PameKids <hello@pamekids.com>');
+    assert.throws(() => createTransport('pigeon'), /Unknown email transport/);
+  });
+});
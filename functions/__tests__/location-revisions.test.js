@@ -0,0 +1,82 @@
+// Location revision tests - run with: cd functions && npm test
+const fs = require('fs');
+const path = require('path');
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { REVISION_SOURCES, diffLocations, getRestoreValues, toRestoredDocument } = require('../location-revisions');
+
+test('lists the same revision sources as src/types/revision.ts', () => {
+  const types = fs.readFileSync(path.join(__dirname, '../../src/types/revision.ts'), 'utf8');
+  const union = /export type RevisionSource = ([^;]*);/.exec(types);
+  assert.ok(union, 'RevisionSource not found in revision.ts');
+  assert.deepEqual(REVISION_SOURCES, [...union[1].matchAll(/'([^']*)'/g)].map(match => match[1]));
+});
+
+describe('diffLocations', () => {
+  test('lists changed fields with old and new values', () => {
+    const changes = diffLocations(
+      { name: 'Park', ageRange: { min: 2, max: 10 }, priceRange: 'Free', updated_at: 1 },
+      { name: 'Park', ageRange: { max: 12, min: 2 }, proTips: '• Shade', updated_at: 2 }
+    );
+    assert.deepEqual(changes, [
+      { field: 'ageRange', from: { min: 2, max: 10 }, to: { max: 12, min: 2 } },
+      { field: 'priceRange', from: 'Free', to: null },
+      { field: 'proTips', from: null, to: '• Shade' }
+    ]);
+  });
+
+  test('diffs place data and contact details key by key', () => {
+    const photoUrls = ['https://example.com/1.jpg'];
+    const changes = diffLocations(
+      { placeData: { rating: 4.1, photoUrls, last_fetched: 1 }, contact: { phone: '210' } },
+      { placeData: { rating: 4.3, photoUrls, last_fetched: 2 }, contact: { phone: '210', email: 'a@b.gr' } }
+    );
+    assert.deepEqual(changes, [
+      { field: 'contact.email', from: null, to: 'a@b.gr' },
+      { field: 'placeData.rating', from: 4.1, to: 4.3 }
+    ]);
+  });
+
+  test('treats key order in maps as unchanged', () => {
+    assert.deepEqual(diffLocations(
+      { openingHours: { Monday: 'Closed', Tuesday: '9-5' } },
+      { openingHours: { Tuesday: '9-5', Monday: 'Closed' } }
+    ), []);
+  });
+});
+
+describe('getRestoreValues', () => {
+  // Newest first, as read from Firestore
+  const revisions = [
+    { id: 'r4', source: 'admin', changes: [{ field: 'name', from: 'Park B', to: 'Park C' }] },
+    { id: 'r3', source: 'places-update', changes: [{ field: 'placeData.rating', from: 4.1, to: 4.3 }] },
+    { id: 'r2', source: 'admin', changes: [
+      { field: 'name', from: 'Park A', to: 'Park B' },
+      { field: 'proTips', from: null, to: '• Shade' }
+    ] },
+    { id: 'r1', source: 'admin', changes: [{ field: 'name', from: null, to: 'Park A' }] }
+  ];
+
+  test('undoes every newer admin change, oldest value winning', () => {
+    assert.deepEqual(getRestoreValues(revisions, 'r1'), { name: 'Park A', proTips: null });
+    assert.deepEqual(getRestoreValues(revisions, 'r2'), { name: 'Park B' });
+  });
+
+  test('has nothing to do for the latest revision and rejects unknown ones', () => {
+    assert.deepEqual(getRestoreValues(revisions, 'r4'), {});
+    assert.equal(getRestoreValues(revisions, 'missing'), null);
+  });
+
+  test('brings a deleted location back whole, nested fields included', () => {
+    const deleted = [
+      { id: 'r5', source: 'delete', changes: diffLocations(
+        { name: 'Park B', proTips: '• Shade', placeData: { rating: 4.3 }, updated_at: 2 },
+        {}
+      ) },
+      ...revisions.slice(1)
+    ];
+    const values = getRestoreValues(deleted, 'r2');
+    assert.deepEqual(toRestoredDocument(values), { name: 'Park B', proTips: '• Shade', placeData: { rating: 4.3 } });
+    assert.deepEqual(toRestoredDocument(getRestoreValues(deleted, 'r1')), { name: 'Park A', placeData: { rating: 4.3 } });
+  });
+});
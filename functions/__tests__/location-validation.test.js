@@ -0,0 +1,151 @@
+// Location validation tests - run with: cd functions && npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { ACTIVITY_TYPES, PRICE_RANGES, validateLocation, validateSuggestedEdit } = require('../location-validation');
+const locations = require('../locations');
+
+const validLocation = () => ({
+  id: 'ChIJ-test-place',
+  name: '  Allou Fun Park ',
+  coordinates: { lat: 37.9838, lng: 23.7275 },
+  types: ['theme-park', 'entertainment'],
+  primaryType: 'theme-park',
+  description: 'Rides for all ages',
+  address: 'Kifisou & Petrou Ralli, Athens',
+  ageRange: { min: 2, max: 14 },
+  priceRange: '€€',
+  openingHours: { Monday: 'Closed', Saturday: '10:00-22:00' },
+  schedule: {
+    weekly: { Monday: [], Saturday: [{ open: '10:00', close: '22:00' }] },
+    exceptions: [{ date: '2026-12-25', label: 'Christmas', intervals: [] }]
+  },
+  contact: { phone: '+30 210 000 0000', email: 'info@example.com', website: 'https://example.com' }
+});
+
+describe('validateLocation', () => {
+  test('accepts a complete location and drops the ID', () => {
+    const { value, fieldErrors } = validateLocation(validLocation());
+    assert.deepEqual(fieldErrors, {});
+    assert.equal(value.name, 'Allou Fun Park');
+    assert.equal(value.id, undefined);
+  });
+
+  test('requires the core fields for new locations but not for updates', () => {
+    const { fieldErrors } = validateLocation({ name: 'Park' });
+    assert.ok(fieldErrors.coordinates);
+    assert.ok(fieldErrors.types);
+    assert.ok(fieldErrors.ageRange);
+
+    assert.deepEqual(validateLocation({ featured: true, featuredPosition: 3 }, { partial: true }).fieldErrors, {});
+  });
+
+  test('rejects unknown activity types and fields', () => {
+    const { fieldErrors } = validateLocation({
+      ...validLocation(),
+      types: ['park', 'trampolines'],
+      primaryType: 'trampolines',
+      rating: 5
+    });
+    assert.match(fieldErrors.types, /trampolines/);
+    assert.match(fieldErrors.primaryType, /trampolines/);
+    assert.match(fieldErrors.rating, /Unknown field/);
+  });
+
+  test('only takes the price ranges the form offers', () => {
+    const check = (priceRange) => validateLocation({ priceRange }, { partial: true }).fieldErrors;
+    assert.deepEqual(check('€€'), {});
+    assert.deepEqual(check(''), {});
+    assert.match(check('Call us for prices!').priceRange, /Free, €, €€, €€€/);
+    assert.ok(check(3).priceRange);
+  });
+
+  test('keeps the primary type among the types when both are sent', () => {
+    const check = (update) => validateLocation(update, { partial: true }).fieldErrors;
+    assert.deepEqual(check({ types: ['park', 'playground'], primaryType: 'playground' }), {});
+    assert.match(check({ types: ['park'], primaryType: 'playground' }).primaryType, /one of the activity types/);
+    assert.deepEqual(check({ primaryType: 'playground' }), {});
+  });
+
+  test('keeps age ranges within 0-18 with min before max', () => {
+    const check = (ageRange) => validateLocation({ ageRange }, { partial: true }).fieldErrors;
+    assert.deepEqual(check({ min: 0, max: 18 }), {});
+    assert.ok(check({ min: -1, max: 10 })['ageRange.min']);
+    assert.ok(check({ min: 2, max: 19 })['ageRange.max']);
+    assert.ok(check({ min: 2.5, max: 10 })['ageRange.min']);
+    assert.match(check({ min: 12, max: 4 })['ageRange.max'], /lower than the minimum/);
+  });
+
+  test('reports nested field errors by path', () => {
+    const { fieldErrors } = validateLocation({
+      coordinates: { lat: 120, lng: 23.7 },
+      contact: { email: 'not-an-email', website: 'javascript:alert(1)' },
+      schedule: { weekly: { Monday: [{ open: '9am', close: '17:00' }] } }
+    }, { partial: true });
+    assert.deepEqual(Object.keys(fieldErrors).sort(), ['contact.email', 'contact.website', 'coordinates.lat', 'schedule']);
+  });
+
+  test('accepts Greek description and pro tips only', () => {
+    const check = (translations) => validateLocation({ translations }, { partial: true });
+    const { value, fieldErrors } = check({ el: { description: ' Λούνα παρκ ', proTips: '' } });
+    assert.deepEqual(fieldErrors, {});
+    assert.deepEqual(value.translations, { el: { description: 'Λούνα παρκ', proTips: '' } });
+
+    assert.ok(check({ fr: { description: 'Parc' } }).fieldErrors['translations.fr']);
+    assert.ok(check({ el: { name: 'Πάρκο' } }).fieldErrors['translations.el.name']);
+    assert.ok(check('Λούνα παρκ').fieldErrors.translations);
+  });
+
+  test('lists the same activity types as src/utils/metadata.ts', () => {
+    const metadata = fs.readFileSync(path.join(__dirname, '../../src/utils/metadata.ts'), 'utf8');
+    const block = /export const ACTIVITY_CATEGORIES[^=]*= \{([\s\S]*?)\n\};/.exec(metadata);
+    assert.ok(block, 'ACTIVITY_CATEGORIES not found in metadata.ts');
+    const keys = [...block[1].matchAll(/^\s*'([a-z-]+)':/gm)].map(match => match[1]);
+    assert.deepEqual([...ACTIVITY_TYPES].sort(), keys.sort());
+  });
+
+  test('lists the same price ranges as src/utils/location-import.ts', () => {
+    const locationImport = fs.readFileSync(path.join(__dirname, '../../src/utils/location-import.ts'), 'utf8');
+    const list = /export const PRICE_RANGES = \[([^\]]*)\]/.exec(locationImport);
+    assert.ok(list, 'PRICE_RANGES not found in location-import.ts');
+    assert.deepEqual(PRICE_RANGES, [...list[1].matchAll(/'([^']*)'/g)].map(match => match[1]));
+  });
+});
+
+describe('validateSuggestedEdit', () => {
+  test('returns the proposed values and ignores the client\'s "from"', () => {
+    const { value, fieldErrors } = validateSuggestedEdit({
+      ageRange: { from: { min: 0, max: 99 }, to: { min: 3, max: 12 } },
+      proTips: { from: null, to: ' • Bring a towel ' }
+    });
+    assert.deepEqual(fieldErrors, {});
+    assert.deepEqual(value, { ageRange: { min: 3, max: 12 }, proTips: '• Bring a towel' });
+  });
+
+  test('only allows the fields a visitor may change', () => {
+    const { fieldErrors } = validateSuggestedEdit({
+      name: { from: 'Old', to: 'New' },
+      priceRange: { from: 'Free' }
+    });
+    assert.equal(fieldErrors.name, 'name cannot be changed from a report');
+    assert.equal(fieldErrors.priceRange, 'Missing the new value for priceRange');
+    assert.ok(validateSuggestedEdit({}).fieldErrors.suggestedEdit);
+  });
+
+  test('checks the proposed values like a location update', () => {
+    const { fieldErrors } = validateSuggestedEdit({
+      ageRange: { from: null, to: { min: 12, max: 3 } },
+      openingHours: { from: null, to: { Someday: '10:00-12:00' } }
+    });
+    assert.equal(fieldErrors['ageRange.max'], 'Maximum age cannot be lower than the minimum age');
+    assert.equal(fieldErrors.openingHours, 'Opening hours for "Someday" are not valid');
+  });
+});
+
+describe('locations function', () => {
+  test('only accepts write methods', async () => {
+    const response = await locations.handler({ httpMethod: 'GET', path: '/api/locations', headers: {} }, {});
+    assert.equal(response.statusCode, 405);
+  });
+});
@@ -0,0 +1,153 @@
+// Newsletter digest tests - run with: cd functions && npm test
+const { describe, test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const digest = require('../newsletter-digest');
+const { renderEmail } = require('../email-templates');
+const { getPostalCodeCentroid } = require('../postal-code-centroids');
+
+const NOW = new Date('2026-06-10T09:00:00Z');
+const daysAgo = (days) => ({ seconds: Math.floor(NOW.getTime() / 1000) - days * 24 * 60 * 60 });
+
+const location = (id, overrides = {}) => ({
+  id,
+  name: `Place ${id}`,
+  address: 'Athens',
+  description: 'A place for kids',
+  types: ['playground'],
+  ageRange: { min: 0, max: 12 },
+  coordinates: { lat: 37.9760, lng: 23.7270 },
+  created_at: daysAgo(200),
+  ...overrides
+});
+
+const subscriber = {
+  email: 'parent@example.com',
+  firstName: 'Maria',
+  ageRanges: ['3-5 years'],
+  interests: [],
+  postalCode: '151 24'
+};
+
+before(() => {
+  process.env.NEWSLETTER_TOKEN_SECRET = 'test-secret';
+});
+
+describe('postal code centroids', () => {
+  test('match on the first three digits, with or without a space', () => {
+    assert.equal(getPostalCodeCentroid('151 24').area, 'Marousi');
+    assert.equal(getPostalCodeCentroid('15124').area, 'Marousi');
+    assert.equal(getPostalCodeCentroid('999 99'), null);
+    assert.equal(getPostalCodeCentroid(''), null);
+  });
+});
+
+describe('buildDigest', () => {
+  test('parses newsletter age ranges', () => {
+    assert.deepEqual(digest.parseAgeRange('3-5 years'), { min: 3, max: 5 });
+    assert.deepEqual(digest.parseAgeRange('13+ years'), { min: 13, max: 18 });
+    assert.equal(digest.parseAgeRange('any'), null);
+  });
+
+  test('includes new and featured places for the ages, nearest first', () => {
+    const result = digest.buildDigest(subscriber, {
+      locations: [
+        location('old'),
+        location('new-centre', { created_at: daysAgo(3) }),
+        location('featured-marousi', { featured: true, coordinates: { lat: 38.05, lng: 23.80 } }),
+        location('teens', { created_at: daysAgo(3), ageRange: { min: 13, max: 18 } })
+      ]
+    }, NOW);
+
+    assert.equal(result.origin.area, 'Marousi');
+    assert.deepEqual(result.locations.map(l => l.id), ['featured-marousi', 'new-centre']);
+    assert.equal(result.locations[1].isNew, true);
+    assert.ok(result.locations[0].distanceKm < result.locations[1].distanceKm);
+  });
+
+  test('filters by interests when the subscriber picked some', () => {
+    const result = digest.buildDigest({ ...subscriber, interests: ['music'] }, {
+      locations: [
+        location('playground', { featured: true }),
+        location('music', { featured: true, types: ['music'] })
+      ]
+    }, NOW);
+    assert.deepEqual(result.locations.map(l => l.id), ['music']);
+  });
+
+  test('without a known postal code, lists new places before featured ones', () => {
+    const result = digest.buildDigest({ ...subscriber, postalCode: '' }, {
+      locations: [
+        location('featured-2', { featured: true, featuredPosition: 2 }),
+        location('featured-0', { featured: true, featuredPosition: 0 }),
+        location('new', { created_at: daysAgo(1) })
+      ]
+    }, NOW);
+    assert.equal(result.origin, null);
+    assert.deepEqual(result.locations.map(l => l.id), ['new', 'featured-0', 'featured-2']);
+  });
+
+  test('includes recent blog posts and upcoming camps for the ages', () => {
+    const result = digest.buildDigest(subscriber, {
+      locations: [location('venue', { types: ['summer-camp'] })],
+      blogPosts: [
+        { id: 'p1', slug: 'old', title: 'Old', summary: '', publishDate: '2026-01-01T00:00:00Z' },
+        { id: 'p2', slug: 'recent', title: 'Recent', summary: 'Hi', publishDate: '2026-06-01T00:00:00Z' }
+      ],
+      events: [
+        { id: 'e1', locationId: 'venue', title: 'Summer camp', types: [], startDate: '2026-06-22', endDate: '2026-07-10', ageRange: { min: 4, max: 10 } },
+        { id: 'e2', locationId: 'venue', title: 'Teen camp', types: ['camp'], startDate: '2026-06-22', endDate: '2026-07-10', ageRange: { min: 13, max: 17 } },
+        { id: 'e3', locationId: 'venue', title: 'Show', types: ['theater'], startDate: '2026-06-20', endDate: '2026-06-20', ageRange: { min: 3, max: 8 } },
+        { id: 'e4', locationId: 'venue', title: 'Easter camp', types: ['easter-camp'], startDate: '2026-04-06', endDate: '2026-04-17', ageRange: { min: 4, max: 10 } }
+      ]
+    }, NOW);
+
+    assert.deepEqual(result.blogPosts.map(p => p.slug), ['recent']);
+    assert.deepEqual(result.camps.map(c => c.id), ['e1']);
+    assert.equal(result.camps[0].venue, 'Place venue');
+  });
+});
+
+describe('digest email', () => {
+  test('renders every section with manage and unsubscribe links', () => {
+    const built = digest.buildDigest(subscriber, {
+      locations: [location('new', { name: 'Park <Fun>', created_at: daysAgo(1) })],
+      events: [{ id: 'e1', locationId: 'new', title: 'Day camp', types: ['day-camp'], startDate: '2026-06-15', endDate: '2026-06-15', ageRange: { min: 3, max: 6 } }]
+    }, NOW);
+    const data = digest.toDigestEmailData(subscriber, 'subscriber-1', built, NOW);
+    const email = renderEmail('newsletter-digest', data);
+
+    assert.equal(email.subject, 'Your PameKids picks for June 2026');
+    assert.match(email.text, /Hi Maria,/);
+    assert.match(email.text, /NEW AND FEATURED NEAR MAROUSI/);
+    assert.match(email.text, /Day camp\n15 Jun · Park <Fun>/);
+    assert.doesNotMatch(email.text, /FROM THE BLOG/);
+    assert.match(email.html, /Park &lt;Fun&gt;/);
+    assert.ok(email.text.includes(data.unsubscribeUrl));
+    assert.match(data.unsubscribeUrl, /\/api\/newsletter\/unsubscribe\?token=/);
+    assert.match(data.manageUrl, /\/newsletter\/preferences\?token=/);
+  });
+
+  test('leaves the subscriber token out of previews and test sends', () => {
+    const built = digest.buildDigest(subscriber, { locations: [location('new', { created_at: daysAgo(1) })] }, NOW);
+    const data = digest.toDigestEmailData(subscriber, 'subscriber-1', built, NOW, { sample: true });
+    const email = renderEmail('newsletter-digest', data);
+
+    assert.doesNotMatch(email.text, /token=/);
+    assert.doesNotMatch(email.html, /token=/);
+    assert.doesNotMatch(email.html, /\/api\/newsletter\/unsubscribe/);
+  });
+
+  test('adds one-click List-Unsubscribe headers', () => {
+    assert.deepEqual(digest.getListUnsubscribeHeaders('https://example.com/u?token=x'), {
+      'List-Unsubscribe': '<https://example.com/u?token=x>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    });
+  });
+});
+
+describe('newsletter digest function', () => {
+  test('only answers POST on its actions', async () => {
+    const response = await digest.handler({ httpMethod: 'GET', path: '/.netlify/functions/newsletter-digest/preview', headers: {} });
+    assert.equal(response.statusCode, 405);
+  });
+});
@@ -0,0 +1,202 @@
+// Newsletter tests - run with: cd functions && npm test
+const { describe, test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { createToken, verifyToken } = require('../newsletter-tokens');
+const newsletter = require('../newsletter');
+
+before(() => {
+  process.env.NEWSLETTER_TOKEN_SECRET = 'test-secret';
+});
+
+describe('newsletter tokens', () => {
+  test('round-trip for the purpose they were made for', () => {
+    const token = createToken('subscriber-1', 'manage');
+    assert.equal(verifyToken(token, 'manage'), 'subscriber-1');
+    assert.equal(verifyToken(token, 'confirm'), null);
+  });
+
+  test('reject edited or foreign tokens', () => {
+    const [payload, signature] = createToken('subscriber-1', 'manage').split('.');
+    const otherPayload = Buffer.from(JSON.stringify({ sub: 'subscriber-2', purpose: 'manage' })).toString('base64url');
+    assert.equal(verifyToken(`${otherPayload}.${signature}`, 'manage'), null);
+    assert.equal(verifyToken(`${payload}.x${signature}`, 'manage'), null);
+    assert.equal(verifyToken('not-a-token', 'manage'), null);
+    assert.equal(verifyToken(undefined, 'manage'), null);
+  });
+
+  test('confirmation links expire after a week', () => {
+    const issued = Date.UTC(2026, 9, 1);
+    const token = createToken('subscriber-1', 'confirm', issued);
+    assert.equal(verifyToken(token, 'confirm', issued + 6 * 24 * 60 * 60 * 1000), 'subscriber-1');
+    assert.equal(verifyToken(token, 'confirm', issued + 8 * 24 * 60 * 60 * 1000), null);
+  });
+});
+
+describe('validatePreferences', () => {
+  test('accepts known age ranges and activity types', () => {
+    const { value, fieldErrors } = newsletter.validatePreferences({
+      ageRanges: ['3-5 years', '3-5 years'],
+      interests: ['music', 'playground'],
+      firstName: ' Maria '
+    });
+    assert.deepEqual(fieldErrors, {});
+    assert.deepEqual(value, { ageRanges: ['3-5 years'], interests: ['music', 'playground'], firstName: 'Maria', postalCode: '' });
+  });
+
+  test('rejects unknown values and only checks sent fields on updates', () => {
+    const { fieldErrors } = newsletter.validatePreferences({ ageRanges: ['forever'], interests: ['knitting'] });
+    assert.equal(fieldErrors.ageRanges, 'Unknown age range');
+    assert.equal(fieldErrors.interests, 'Unknown interest');
+    assert.deepEqual(newsletter.validatePreferences({ interests: [] }, { partial: true }), { value: { interests: [] }, fieldErrors: {} });
+  });
+});
+
+describe('checkImportRows', () => {
+  test('sorts rows into new, duplicate and invalid', () => {
+    const existing = new Map([
+      ['confirmed@example.com', { status: 'confirmed' }],
+      ['gone@example.com', { status: 'unsubscribed' }],
+      ['legacy@example.com', {}]
+    ]);
+    const { results, toAdd } = newsletter.checkImportRows([
+      { email: ' New@Example.com ', firstName: 'Eleni', ageRanges: ['0-2 years'] },
+      { email: 'not-an-email' },
+      { email: 'confirmed@example.com' },
+      { email: 'gone@example.com' },
+      { email: 'legacy@example.com' },
+      { email: 'new@example.com' },
+      { email: 'ages@example.com', ageRanges: ['forever'] },
+      { email: 'plain@example.com' }
+    ], existing);
+
+    assert.deepEqual(results.map(result => result.outcome), [
+      'new', 'invalid', 'duplicate', 'duplicate', 'duplicate', 'duplicate', 'invalid', 'new'
+    ]);
+    assert.equal(results[3].message, 'Unsubscribed - not added again');
+    assert.equal(results[4].message, 'Already subscribed');
+    assert.equal(results[5].message, 'Same email as row 1 of the import');
+    assert.equal(results[6].message, 'Unknown age range');
+    assert.deepEqual(toAdd, [
+      { email: 'new@example.com', firstName: 'Eleni', ageRanges: ['0-2 years'], interests: [], postalCode: '' },
+      { email: 'plain@example.com', firstName: '', ageRanges: [], interests: [], postalCode: '' }
+    ]);
+  });
+});
+
+// Enough of a Firestore collection for findSubscribersByEmail
+const fakeSubscribers = (subscribers) => ({
+  where: (field, op, values) => ({
+    get: async () => ({
+      docs: subscribers
+        .filter(subscriber => values.includes(subscriber[field]))
+        .map(subscriber => ({ id: subscriber.id, data: () => subscriber }))
+    })
+  })
+});
+
+describe('findSubscribersByEmail', () => {
+  test('finds addresses stored as typed before emails were lowercased', async () => {
+    const found = await newsletter.findSubscribersByEmail(fakeSubscribers([
+      { id: 'legacy', email: 'User@Example.com' },
+      { id: 'both', email: 'Both@Example.com' },
+      { id: 'lowercased', email: 'both@example.com' }
+    ]), ['User@Example.com', 'Both@Example.com']);
+
+    assert.deepEqual([...found.keys()].sort(), ['both@example.com', 'user@example.com']);
+    assert.equal(found.get('user@example.com').id, 'legacy');
+    assert.equal(found.get('both@example.com').id, 'lowercased');
+  });
+});
+
+describe('findImportedSubscribers', () => {
+  test('reports an address stored with capitals as a duplicate', async () => {
+    const subscribersRef = fakeSubscribers([{ id: 'legacy', email: 'User@Example.com', status: 'confirmed' }]);
+    const rows = [{ email: 'User@Example.com' }, { email: 'new@example.com' }];
+
+    const existing = await newsletter.findImportedSubscribers(subscribersRef, rows);
+    const { results, toAdd } = newsletter.checkImportRows(rows, existing);
+
+    assert.deepEqual(results.map(result => result.outcome), ['duplicate', 'new']);
+    assert.equal(results[0].message, 'Already subscribed');
+    assert.deepEqual(toAdd.map(row => row.email), ['new@example.com']);
+  });
+
+  test('reports it whatever case it is imported in once emails are lowercased', async () => {
+    const stored = [{ id: 'legacy', email: 'User@Example.com', status: 'confirmed' }];
+    newsletter.planEmailLowercasing(stored).updates.forEach(update => {
+      stored.find(subscriber => subscriber.id === update.id).email = update.email;
+    });
+    const rows = [{ email: 'USER@example.com' }];
+
+    const existing = await newsletter.findImportedSubscribers(fakeSubscribers(stored), rows);
+    const { results } = newsletter.checkImportRows(rows, existing);
+
+    assert.equal(results[0].outcome, 'duplicate');
+  });
+});
+
+describe('planEmailLowercasing', () => {
+  test('lowercases stored emails and leaves clashing subscribers to merge by hand', () => {
+    const { updates, conflicts } = newsletter.planEmailLowercasing([
+      { id: 'a', email: 'User@Example.com' },
+      { id: 'b', email: 'done@example.com' },
+      { id: 'c', email: 'Twice@Example.com' },
+      { id: 'd', email: 'twice@example.com' }
+    ]);
+
+    assert.deepEqual(updates, [{ id: 'a', email: 'user@example.com' }]);
+    assert.deepEqual(conflicts, [['c', 'd']]);
+  });
+});
+
+describe('newsletter function', () => {
+  test('sends invalid confirmation links to the preferences page', async () => {
+    const response = await newsletter.handler({
+      httpMethod: 'GET',
+      path: '/.netlify/functions/newsletter/confirm',
+      queryStringParameters: { token: 'forged' }
+    });
+    assert.equal(response.statusCode, 302);
+    assert.equal(response.headers.Location, '/newsletter/preferences?error=invalid-link');
+  });
+
+  test('never unsubscribes on GET', async () => {
+    const response = await newsletter.handler({
+      httpMethod: 'GET',
+      path: '/.netlify/functions/newsletter/unsubscribe',
+      queryStringParameters: { token: 'abc' }
+    });
+    assert.equal(response.statusCode, 302);
+    assert.equal(response.headers.Location, '/newsletter/preferences?token=abc&action=unsubscribe');
+  });
+
+  test('rejects preference changes without a valid link', async () => {
+    const response = await newsletter.handler({
+      httpMethod: 'PUT',
+      path: '/.netlify/functions/newsletter/preferences',
+      queryStringParameters: { token: createToken('subscriber-1', 'confirm') },
+      body: JSON.stringify({ interests: [] })
+    });
+    assert.equal(response.statusCode, 400);
+  });
+
+  test('checks sign-ups before touching the database', async () => {
+    const response = await newsletter.handler({
+      httpMethod: 'POST',
+      path: '/.netlify/functions/newsletter',
+      body: JSON.stringify({ email: 'parent@example.com', ageRanges: ['forever'] })
+    });
+    assert.equal(response.statusCode, 400);
+    assert.equal(JSON.parse(response.body).fieldErrors.ageRanges, 'Unknown age range');
+  });
+
+  test('only lets moderators import', { skip: !process.env.FIREBASE_AUTH_EMULATOR_HOST && 'FIREBASE_AUTH_EMULATOR_HOST is not set' }, async () => {
+    const response = await newsletter.handler({
+      httpMethod: 'POST',
+      path: '/.netlify/functions/newsletter/import',
+      headers: {},
+      body: JSON.stringify({ subscribers: [{ email: 'parent@example.com' }], dryRun: true })
+    });
+    assert.equal(response.statusCode, 401);
+  });
+});
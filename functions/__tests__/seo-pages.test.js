@@ -0,0 +1,210 @@
+// Sitemap and prerendering tests - run with: cd functions && npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { slugify, pickPlaceSlug, getPlaceSlugs, getNameSlugs } = require('../place-slugs');
+const {
+  buildSitemap,
+  getLocationPageMeta,
+  getBlogPostPageMeta,
+  getLandingPageMeta,
+  renderPrerenderedPage
+} = require('../seo-pages');
+const LANDING_PAGES = require('../landing-pages.json');
+
+// Minified like the built index.html
+const TEMPLATE = '<!doctype html><html lang="en"><head><meta charset="utf-8"/>' +
+  '<title>PameKids - Children\'s Activities in Athens</title>' +
+  '<meta name="description" content="Find the best children\'s activities"/>' +
+  '<meta property="og:title" content="PameKids"/><meta property="og:image" content="https://www.pamekids.com/og-image.jpg"/>' +
+  '<script defer="defer" src="/static/js/main.js"></script></head>' +
+  '<body><noscript>You need to enable JavaScript to run this app.</noscript><div id="root"></div></body></html>';
+
+const location = {
+  id: 'ChIJ_abc123',
+  name: 'Allou! Fun Park',
+  description: 'Rides & games for <all> ages',
+  address: 'Kifisou 1, Athens',
+  types: ['theme-park', 'entertainment'],
+  coordinates: { lat: 37.98, lng: 23.67 },
+  contact: { phone: '+30 210 000 0000' },
+  priceRange: '€€',
+  schedule: { weekly: { Monday: [], Saturday: [{ open: '10:00', close: '24:00' }] } },
+  placeData: { rating: 4.4, userRatingsTotal: 1200, storedPhotoUrls: ['https://storage.example.com/allou.jpg'] },
+  updated_at: { seconds: Date.parse('2026-05-02T10:00:00Z') / 1000 }
+};
+
+// Just enough of Firestore for the slug lookups in pickPlaceSlug
+const fakeDb = (locations) => ({
+  collection: () => ({
+    where: (field, op, value) => ({
+      get: async () => ({ docs: locations.filter(location => location[field] === value) })
+    })
+  })
+});
+
+describe('place slugs', () => {
+  test('come from the name, with Greek transliterated', () => {
+    assert.equal(slugify('Allou! Fun Park'), 'allou-fun-park');
+    assert.equal(slugify('  Café -- Kids & Co.  '), 'cafe-kids-co');
+    assert.equal(slugify('Πάρκο Τρίτση'), 'parko-tritsi');
+    assert.equal(slugify('Μουσείο Φυσικής Ιστορίας'), 'mouseio-fysikis-istorias');
+  });
+
+  test('get the end of the place ID when another location has the name', async () => {
+    const db = fakeDb([{ id: 'ChIJ_aaa111', slug: 'lollipop' }]);
+
+    assert.equal(await pickPlaceSlug(db, 'ChIJ_ccc333', 'Allou Fun Park'), 'allou-fun-park');
+    assert.equal(await pickPlaceSlug(db, 'ChIJ_bbb222', 'Lollipop'), 'lollipop-bbb222');
+    assert.equal(await pickPlaceSlug(db, 'ChIJ_ddd444', '!!!'), 'place');
+  });
+
+  test('keep a restored location at its old slug while it is free', async () => {
+    const db = fakeDb([{ id: 'ChIJ_bbb222', slug: 'lollipop' }]);
+
+    assert.equal(await pickPlaceSlug(db, 'ChIJ_ccc333', 'Allou Fun Park', 'allou-fun-park'), 'allou-fun-park');
+    assert.equal(await pickPlaceSlug(db, 'ChIJ_aaa111', 'Lollipop', 'lollipop'), 'lollipop-aaa111');
+  });
+
+  test('are read from the locations, with the place ID for one without a slug', () => {
+    assert.deepEqual(getPlaceSlugs([
+      { id: 'ChIJ_aaa111', name: 'Lollipop', slug: 'lollipop' },
+      { id: 'ChIJ_bbb222', name: 'Lollipop', slug: 'lollipop-bbb222' },
+      { id: 'ChIJ_ccc333', name: 'Allou Fun Park' }
+    ]), {
+      'ChIJ_aaa111': 'lollipop',
+      'ChIJ_bbb222': 'lollipop-bbb222',
+      'ChIJ_ccc333': 'ChIJ_ccc333'
+    });
+  });
+
+  test('of locations stored before slugs were match the URLs their pages had', () => {
+    assert.deepEqual(getNameSlugs([
+      { id: 'ChIJ_aaa111', name: 'Lollipop' },
+      { id: 'ChIJ_bbb222', name: 'Lollipop' },
+      { id: 'ChIJ_ccc333', name: 'Allou Fun Park' },
+      { id: 'ChIJ_ddd444', name: '!!!' }
+    ]), {
+      'ChIJ_aaa111': 'lollipop-aaa111',
+      'ChIJ_bbb222': 'lollipop-bbb222',
+      'ChIJ_ccc333': 'allou-fun-park',
+      'ChIJ_ddd444': 'place'
+    });
+  });
+});
+
+describe('sitemap', () => {
+  test('lists the static pages, landing pages, blog posts and places with their last update', () => {
+    const xml = buildSitemap({
+      locations: [location, { id: 'ChIJ_new', name: 'No Dates' }],
+      placeSlugs: { 'ChIJ_abc123': 'allou-fun-park', 'ChIJ_new': 'no-dates' },
+      blogPosts: [
+        { id: 'p1', slug: 'easter-camps', publishDate: '2026-03-01T00:00:00Z', updated_at: '2026-04-15T08:00:00Z' },
+        { id: 'p2', slug: 'summer-guide', publishDate: '2026-06-01T00:00:00Z' },
+        { id: 'draft' }
+      ]
+    });
+
+    assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<urlset /);
+    assert.match(xml, /<loc>https:\/\/www\.pamekids\.com\/<\/loc>/);
+    assert.match(xml, /<loc>https:\/\/www\.pamekids\.com\/blog\/easter-camps<\/loc>\n    <lastmod>2026-04-15<\/lastmod>/);
+    assert.match(xml, /<loc>https:\/\/www\.pamekids\.com\/blog\/summer-guide<\/loc>\n    <lastmod>2026-06-01<\/lastmod>/);
+    assert.match(xml, /<loc>https:\/\/www\.pamekids\.com\/places\/allou-fun-park<\/loc>\n    <lastmod>2026-05-02<\/lastmod>/);
+    assert.match(xml, /<loc>https:\/\/www\.pamekids\.com\/places\/no-dates<\/loc>\n    <changefreq>/);
+    assert.ok(xml.includes('<loc>https://www.pamekids.com/activities/swimming</loc>'));
+    assert.ok(xml.includes('<loc>https://www.pamekids.com/areas/glyfada?lang=el</loc>'));
+    assert.equal((xml.match(/<url>/g) || []).length, 18 + LANDING_PAGES.length * 2);
+  });
+
+  test('lists each page in English and Greek with hreflang alternates', () => {
+    const xml = buildSitemap({ blogPosts: [{ id: 'p1', slug: 'easter-camps' }] });
+    const alternates = '    <xhtml:link rel="alternate" hreflang="en" href="https://www.pamekids.com/blog/easter-camps"/>\n' +
+      '    <xhtml:link rel="alternate" hreflang="el" href="https://www.pamekids.com/blog/easter-camps?lang=el"/>\n' +
+      '    <xhtml:link rel="alternate" hreflang="x-default" href="https://www.pamekids.com/blog/easter-camps"/>';
+
+    assert.match(xml, /<urlset xmlns="http:\/\/www\.sitemaps\.org\/schemas\/sitemap\/0\.9" xmlns:xhtml="http:\/\/www\.w3\.org\/1999\/xhtml">/);
+    assert.ok(xml.includes('<loc>https://www.pamekids.com/blog/easter-camps</loc>'));
+    assert.ok(xml.includes('<loc>https://www.pamekids.com/blog/easter-camps?lang=el</loc>'));
+    assert.equal(xml.split(alternates).length - 1, 2);
+  });
+});
+
+describe('page metadata', () => {
+  test('describes a location as a LocalBusiness or TouristAttraction', () => {
+    const meta = getLocationPageMeta(location, 'allou-fun-park');
+
+    assert.equal(meta.title, 'Allou! Fun Park | PameKids');
+    assert.equal(meta.url, 'https://www.pamekids.com/places/allou-fun-park');
+    assert.equal(meta.image, 'https://storage.example.com/allou.jpg');
+    assert.equal(meta.schema['@type'], 'TouristAttraction');
+    assert.deepEqual(meta.schema.openingHoursSpecification, [{
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: 'https://schema.org/Saturday',
+      opens: '10:00',
+      closes: '23:59'
+    }]);
+    assert.deepEqual(meta.schema.aggregateRating, { '@type': 'AggregateRating', ratingValue: 4.4, reviewCount: 1200 });
+
+    const cafe = getLocationPageMeta({ ...location, types: ['cafe'], placeData: {} }, 'cafe');
+    assert.equal(cafe.schema['@type'], 'LocalBusiness');
+    assert.equal(cafe.image, 'https://www.pamekids.com/og-image.jpg');
+    assert.equal(cafe.schema.image, undefined);
+  });
+
+  test('describes a blog post as a BlogPosting', () => {
+    const meta = getBlogPostPageMeta({
+      id: 'p1',
+      slug: 'easter-camps',
+      title: 'Easter Camps',
+      summary: 'Where to go',
+      author: { name: 'Eleni' },
+      publishDate: '2026-03-01T00:00:00Z',
+      tags: ['camps', 'easter']
+    });
+
+    assert.equal(meta.title, 'Easter Camps | PameKids Blog');
+    assert.equal(meta.type, 'article');
+    assert.equal(meta.schema.datePublished, '2026-03-01T00:00:00.000Z');
+    assert.equal(meta.schema.dateModified, '2026-03-01T00:00:00.000Z');
+    assert.equal(meta.schema.keywords, 'camps, easter');
+  });
+});
+
+describe('landing page metadata', () => {
+  test('uses the landing page titles in the language asked for', () => {
+    const meta = getLandingPageMeta('/areas/glyfada');
+    assert.equal(meta.title, "Kids' Activities in Glyfada | PameKids");
+    assert.equal(meta.heading, 'Glyfada');
+    assert.equal(meta.url, 'https://www.pamekids.com/areas/glyfada');
+    assert.equal(meta.schema['@type'], 'CollectionPage');
+
+    const greek = getLandingPageMeta('/Areas/Glyfada', 'el');
+    assert.equal(greek.title, 'Δραστηριότητες για Παιδιά - Γλυφάδα | PameKids');
+    assert.equal(greek.url, 'https://www.pamekids.com/areas/glyfada?lang=el');
+
+    assert.equal(getLandingPageMeta('/activities/free-activities', 'de').title, 'Free Things to Do with Kids in Athens | PameKids');
+    assert.equal(getLandingPageMeta('/activities/trampolines'), null);
+  });
+});
+
+describe('prerendered page', () => {
+  test('replaces the default tags and keeps the app scripts', () => {
+    const html = renderPrerenderedPage(TEMPLATE, getLocationPageMeta(location, 'allou-fun-park'));
+
+    assert.equal((html.match(/<title>/g) || []).length, 1);
+    assert.match(html, /<title>Allou! Fun Park \| PameKids<\/title>/);
+    assert.doesNotMatch(html, /<meta property="og:title" content="PameKids"\/>/);
+    assert.match(html, /<meta property="og:image" content="https:\/\/storage\.example\.com\/allou\.jpg" data-react-helmet="true">/);
+    assert.match(html, /<link rel="canonical" href="https:\/\/www\.pamekids\.com\/places\/allou-fun-park"/);
+    assert.match(html, /<script defer="defer" src="\/static\/js\/main\.js"><\/script>/);
+    assert.match(html, /<div id="root"><main><h1>Allou! Fun Park<\/h1><p>Rides &amp; games for &lt;all&gt; ages<\/p><\/main><\/div>/);
+
+    const jsonLd = /<script type="application\/ld\+json">(.*?)<\/script>/.exec(html)[1];
+    assert.doesNotMatch(jsonLd, /<all>/);
+    assert.equal(JSON.parse(jsonLd).description, 'Rides & games for <all> ages');
+  });
+
+  test('leaves "$" in the content alone', () => {
+    const html = renderPrerenderedPage(TEMPLATE, getLocationPageMeta({ ...location, description: 'Costs $& more' }, 'x'));
+    assert.match(html, /<p>Costs \$&amp; more<\/p>/);
+  });
+});
@@ -1,4 +1,8 @@
 const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
+const { recordRevision } = require('./location-revisions');
+
+const MAX_REASON_LENGTH = 1000;
 
 exports.handler = async (event, context) => {
   console.log('Activities function invoked with method:', event.httpMethod);
@@ -8,16 +12,24 @@ exports.handler = async (event, context) => {
     if (event.httpMethod === 'POST') {
       return await handleSubmission(event);
     } else if (event.httpMethod === 'GET') {
-      // Check if this is an admin request with token
-      const params = new URLSearchParams(event.queryStringParameters || {});
-      if (params.get('adminToken') === process.env.ADMIN_TOKEN) {
-        return await handleGetAllSubmissions();
+      // Listing is admin only - check the caller's Firebase ID token
+      try {
+        await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
       }
       
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized' })
-      };
+      return await handleGetAllSubmissions();
+    } else if (event.httpMethod === 'PUT') {
+      // Approving and rejecting are admin only too
+      let caller;
+      try {
+        caller = await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
+      }
+
+      return await handleReview(event, caller);
     }
     
     return {
@@ -149,4 +161,131 @@ async function handleGetAllSubmissions() {
       })
     };
   }
-}
\ No newline at end of file
+}
+
+// Approve or reject a pending suggestion (admin only)
+// PUT /api/activities/:id with
+//  { action: 'approve', locationId } - after the location was imported; links the two records
+//  { action: 'reject', reason }      - queues an email with the reason if the submitter left one
+async function handleReview(event, caller) {
+  const id = (event.path || '').split('/').pop();
+  if (!id || id === 'activities') {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Suggestion ID is required' })
+    };
+  }
+
+  let data;
+  try {
+    data = JSON.parse(event.body || '{}');
+  } catch (parseError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Request body must be valid JSON' })
+    };
+  }
+
+  const locationId = typeof data.locationId === 'string' ? data.locationId.trim() : '';
+  const reason = typeof data.reason === 'string' ? data.reason.trim() : '';
+
+  if (data.action === 'approve' && !locationId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'The imported location ID is required to approve a suggestion' })
+    };
+  }
+  if (data.action === 'reject' && (!reason || reason.length > MAX_REASON_LENGTH)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: `A rejection reason of up to ${MAX_REASON_LENGTH} characters is required` })
+    };
+  }
+  if (data.action !== 'approve' && data.action !== 'reject') {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Action must be "approve" or "reject"' })
+    };
+  }
+
+  try {
+    const db = getFirestore();
+    const suggestionRef = db.collection('activity-suggestions').doc(id);
+    const reviewedBy = caller.email || caller.uid;
+    const reviewedAt = new Date().toISOString();
+
+    const result = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(suggestionRef);
+      if (!snapshot.exists) {
+        return { statusCode: 404, error: 'Suggestion not found' };
+      }
+
+      const suggestion = snapshot.data();
+      if (suggestion.status && suggestion.status !== 'pending') {
+        return { statusCode: 409, error: `This suggestion was already ${suggestion.status}` };
+      }
+
+      if (data.action === 'approve') {
+        const locationRef = db.collection('locations').doc(locationId);
+        const location = await transaction.get(locationRef);
+        if (!location.exists) {
+          return { statusCode: 404, error: 'The imported location was not found' };
+        }
+
+        const updates = { status: 'approved', locationId, reviewedBy, reviewedAt };
+        transaction.update(suggestionRef, updates);
+        // Link back so the location records where it came from
+        transaction.update(locationRef, { suggestionId: id });
+        return { suggestion: { id, ...suggestion, ...updates }, location: location.data() };
+      }
+
+      const updates = {
+        status: 'rejected',
+        rejectionReason: reason,
+        reviewedBy,
+        reviewedAt,
+        notificationQueued: Boolean(suggestion.email)
+      };
+      transaction.update(suggestionRef, updates);
+
+      // Let the submitter know - the email transport sends whatever is queued here
+      if (suggestion.email) {
+        transaction.set(db.collection('email-queue').doc(), {
+          to: suggestion.email,
+          template: 'suggestion-rejected',
+          data: { name: suggestion.name, reason },
+          status: 'queued',
+          created_at: reviewedAt
+        });
+      }
+      return { suggestion: { id, ...suggestion, ...updates } };
+    });
+
+    if (result.error) {
+      return {
+        statusCode: result.statusCode,
+        body: JSON.stringify({ error: result.error })
+      };
+    }
+
+    if (result.location) {
+      // In the location's history like any other change, so it can be seen and undone
+      await recordRevision(db.collection('locations').doc(locationId), result.location, { ...result.location, suggestionId: id }, {
+        author: reviewedBy,
+        source: 'suggestion'
+      });
+    }
+
+    console.log(`Activity suggestion ${id} ${result.suggestion.status} by ${reviewedBy}`);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, suggestion: result.suggestion })
+    };
+  } catch (error) {
+    console.error('Error reviewing activity suggestion:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Failed to update suggestion' })
+    };
+  }
+}
@@ -0,0 +1,151 @@
+// functions/admin-auth.js
+// Admin authentication shared by every function that needs it.
+// Admins sign in with Firebase Auth on the client and send their ID token as
+// "Authorization: Bearer <token>". Their role lives in a custom claim:
+//  - editor: locations, events, blog posts and photo updates
+//  - moderator: everything an editor can do, plus reports, suggestions and subscribers
+//  - owner: everything, plus managing other admins and one-off migrations
+const { initializeFirebaseAdmin } = require('./firebase-admin');
+
+// Lowest to highest - each role includes the ones before it
+const ADMIN_ROLES = ['editor', 'moderator', 'owner'];
+
+class AdminAuthError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'AdminAuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+function isAdminRole(role) {
+  return ADMIN_ROLES.includes(role);
+}
+
+// Check whether a role is at least the minimum required
+function hasRole(role, minimumRole) {
+  return isAdminRole(role) && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minimumRole);
+}
+
+function getAuth() {
+  return initializeFirebaseAdmin().auth();
+}
+
+// Read the ID token from the Authorization header (header names can arrive in any case)
+function getBearerToken(headers = {}) {
+  const authHeader = headers.authorization || headers.Authorization || '';
+  return authHeader.startsWith('Bearer ') ? authHeader.substring(7).trim() : '';
+}
+
+/**
+ * Verify a Firebase ID token and check the caller's role
+ * @param {string} idToken - Token from the client
+ * @param {string} minimumRole - Lowest role allowed through
+ * @param {object} auth - Firebase Auth instance (ES module functions pass their own)
+ * @returns {Promise<{uid: string, email: string|null, role: string}>}
+ */
+async function verifyAdminToken(idToken, minimumRole = 'editor', auth = getAuth()) {
+  if (!idToken) {
+    throw new AdminAuthError('Admin authentication required - no token provided', 401);
+  }
+
+  let decoded;
+  try {
+    // checkRevoked so removing someone's role takes effect straight away
+    decoded = await auth.verifyIdToken(idToken, true);
+  } catch (error) {
+    console.warn('Invalid admin ID token:', error.code || error.message);
+    throw new AdminAuthError('Invalid or expired session - please log in again', 401);
+  }
+
+  if (!hasRole(decoded.role, minimumRole)) {
+    console.warn(`Admin ${decoded.uid} with role "${decoded.role || 'none'}" needs "${minimumRole}"`);
+    throw new AdminAuthError(`Forbidden: ${minimumRole} access required`, 403);
+  }
+
+  return { uid: decoded.uid, email: decoded.email || null, role: decoded.role };
+}
+
+// Verify the ID token sent with a Netlify function request
+async function verifyAdminRequest(event, minimumRole = 'editor') {
+  return verifyAdminToken(getBearerToken(event.headers), minimumRole);
+}
+
+// Build the response for a failed check - anything unexpected becomes a 500
+function authErrorResponse(error, headers = {}) {
+  const statusCode = error instanceof AdminAuthError ? error.statusCode : 500;
+  return {
+    statusCode,
+    headers,
+    body: JSON.stringify({ error: statusCode === 500 ? 'Failed to verify admin access' : error.message })
+  };
+}
+
+/**
+ * Give a user an admin role, or take it away
+ * @param {string} email - The user's Firebase Auth email
+ * @param {string|null} role - New role, or null to remove admin access
+ */
+async function setAdminRole(email, role, auth = getAuth()) {
+  if (role !== null && !isAdminRole(role)) {
+    throw new AdminAuthError(`Unknown role "${role}". Use one of: ${ADMIN_ROLES.join(', ')}`, 400);
+  }
+
+  let user;
+  try {
+    user = await auth.getUserByEmail(email);
+  } catch (error) {
+    if (error.code === 'auth/user-not-found') {
+      throw new AdminAuthError(`No account found for ${email} - create it in Firebase Auth first`, 404);
+    }
+    throw error;
+  }
+
+  // Keep any unrelated claims the user already has
+  const claims = { ...(user.customClaims || {}) };
+  if (role) {
+    claims.role = role;
+  } else {
+    delete claims.role;
+  }
+  await auth.setCustomUserClaims(user.uid, claims);
+
+  // Sign them out everywhere so the new role applies on their next request
+  await auth.revokeRefreshTokens(user.uid);
+
+  return { uid: user.uid, email: user.email, role };
+}
+
+// List every user that has an admin role
+async function listAdmins(auth = getAuth()) {
+  const admins = [];
+  let pageToken;
+
+  do {
+    const result = await auth.listUsers(1000, pageToken);
+    result.users
+      .filter(user => isAdminRole(user.customClaims?.role))
+      .forEach(user => admins.push({
+        uid: user.uid,
+        email: user.email || null,
+        role: user.customClaims.role,
+        lastSignIn: user.metadata.lastSignInTime || null
+      }));
+    pageToken = result.pageToken;
+  } while (pageToken);
+
+  return admins;
+}
+
+module.exports = {
+  ADMIN_ROLES,
+  AdminAuthError,
+  isAdminRole,
+  hasRole,
+  getBearerToken,
+  verifyAdminToken,
+  verifyAdminRequest,
+  authErrorResponse,
+  setAdminRole,
+  listAdmins
+};
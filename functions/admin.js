@@ -1,44 +1,77 @@
-// Simple admin authentication function
+// Admin role management
+// Admins sign in with Firebase Auth on the client; this function lets owners
+// see who has access and give or take away roles (stored as custom claims).
+//  GET  - list admins
+//  POST - { email, role } sets a role, { email, role: null } removes access
+const {
+  ADMIN_ROLES,
+  AdminAuthError,
+  authErrorResponse,
+  listAdmins,
+  setAdminRole,
+  verifyAdminRequest
+} = require('./admin-auth');
 
 exports.handler = async (event, context) => {
-  // Only allow POST requests for login
-  if (event.httpMethod !== 'POST') {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
     return {
       statusCode: 405,
       body: JSON.stringify({ error: 'Method not allowed' })
     };
   }
 
+  let caller;
   try {
+    caller = await verifyAdminRequest(event, 'owner');
+  } catch (authError) {
+    return authErrorResponse(authError);
+  }
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const admins = await listAdmins();
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ admins, roles: ADMIN_ROLES })
+      };
+    }
+
     // Parse request body
-    const data = JSON.parse(event.body);
-    
-    // Check if password matches environment variable
-    if (!data.password || data.password !== process.env.ADMIN_PASSWORD) {
+    const data = JSON.parse(event.body || '{}');
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+    const role = data.role || null;
+
+    if (!email) {
       return {
-        statusCode: 401,
-        body: JSON.stringify({
-          success: false,
-          message: 'Invalid password'
-        })
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Email is required' })
       };
     }
-    
-    // Return success with admin token (from environment variable)
+
+    // Stop owners locking themselves out - another owner has to do it
+    if (caller.email && caller.email.toLowerCase() === email && role !== 'owner') {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'You cannot change your own role' })
+      };
+    }
+
+    const result = await setAdminRole(email, role);
+    console.log(`Admin role for ${email} set to ${role || 'none'} by ${caller.email || caller.uid}`);
+
     return {
       statusCode: 200,
-      body: JSON.stringify({
-        success: true,
-        token: process.env.ADMIN_TOKEN,
-        message: 'Login successful'
-      })
+      body: JSON.stringify({ success: true, admin: result })
     };
   } catch (error) {
-    console.error('Error in admin login:', error);
-    
+    if (error instanceof AdminAuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Error in admin role management:', error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ error: 'Failed to process login' })
+      body: JSON.stringify({ error: 'Failed to update admin roles' })
     };
   }
-};
\ No newline at end of file
+};
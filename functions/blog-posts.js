@@ -1,5 +1,6 @@
 // functions/blog-posts.js
 const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
 
 /**
  * Blog Posts API Handler
@@ -25,19 +26,11 @@ exports.handler = async (event, context) => {
   }
 
   try {
-    // Get admin token from query params or Authorization header
-    const queryToken = event.queryStringParameters?.adminToken;
-    const authHeader = event.headers?.authorization;
-    const headerToken = authHeader ? authHeader.replace('Bearer ', '') : null;
-    const adminToken = queryToken || headerToken;
-
-    // Verify admin token
-    if (!adminToken || adminToken !== process.env.ADMIN_TOKEN) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ error: 'Unauthorized: Admin privileges required' })
-      };
+    // Verify the admin's Firebase ID token
+    try {
+      await verifyAdminRequest(event, 'editor');
+    } catch (authError) {
+      return authErrorResponse(authError, headers);
     }
 
     // Connect to Firestore
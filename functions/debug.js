@@ -2,15 +2,14 @@ const fs = require('fs');
 const path = require('path');
 const os = require('os');
 const setupModule = require('./setup');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
 
 exports.handler = async (event, context) => {
-  // Only allow with admin token for security
-  const params = new URLSearchParams(event.queryStringParameters || {});
-  if (params.get('adminToken') !== process.env.ADMIN_TOKEN) {
-    return {
-      statusCode: 401,
-      body: JSON.stringify({ error: 'Unauthorized' })
-    };
+  // Only owners can see environment details
+  try {
+    await verifyAdminRequest(event, 'owner');
+  } catch (authError) {
+    return authErrorResponse(authError);
   }
 
   try {
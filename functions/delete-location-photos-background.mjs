@@ -7,10 +7,12 @@
  */
 
 import { initializeApp, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
 import { getStorage as getAdminStorage } from 'firebase-admin/storage';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import adminAuth from './admin-auth.js';
 
 // Firebase initialization for ES modules
 let firebaseApp;
@@ -146,25 +148,9 @@ function getStorageInstance() {
   }
 }
 
-// Verify admin authentication
+// Verify the admin's Firebase ID token - role rules are shared with the other functions
 async function verifyAdminAuth(token) {
-  if (!token) {
-    throw new Error('Admin authentication required - no token provided');
-  }
-  
-  // Validate against the environment variable
-  if (!process.env.ADMIN_TOKEN) {
-    console.error('ADMIN_TOKEN environment variable is not set');
-    throw new Error('Server configuration error: Admin token is not configured');
-  }
-  
-  if (token !== process.env.ADMIN_TOKEN) {
-    console.warn('Invalid admin token provided');
-    throw new Error('Invalid admin token - authentication failed');
-  }
-  
-  console.log('Admin authentication successful');
-  return true;
+  return adminAuth.verifyAdminToken(token, 'editor', getAuth(initializeFirebaseAdmin()));
 }
 
 /**
@@ -281,8 +267,8 @@ export default async (req, context) => {
       await verifyAdminAuth(token);
     } catch (authError) {
       console.error('Authentication failed:', authError.message);
-      return new Response(JSON.stringify({ error: 'Authentication failed' }), {
-        status: 401,
+      return new Response(JSON.stringify({ error: authError.message }), {
+        status: authError.statusCode || 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
@@ -0,0 +1,98 @@
+// functions/email-queue.js
+// Sends the emails other functions queue in the email-queue collection, through the
+// transport picked by EMAIL_TRANSPORT (see email-transport.js). Runs on a schedule
+// to pick up anything queued, and retries failed sends a few times.
+//
+// Queue documents: { to, template, data, headers?, status: 'queued' | 'sent' | 'failed',
+//                    attempts?, error?, created_at, sent_at? }
+const { getFirestore } = require('./firebase-admin');
+const { renderEmail } = require('./email-templates');
+const { createTransport, sendEmail } = require('./email-transport');
+
+const EMAIL_QUEUE_COLLECTION = 'email-queue';
+const MAX_ATTEMPTS = 3;
+const BATCH_SIZE = 50;
+
+/**
+ * Render and send one queued email, then record the outcome on its document
+ * @returns {Promise<boolean>} Whether it was sent
+ */
+async function deliverQueuedEmail(docRef, email, transport) {
+  try {
+    const rendered = renderEmail(email.template, email.data);
+    await sendEmail(transport, { to: email.to, headers: email.headers, ...rendered });
+    await docRef.update({ status: 'sent', sent_at: new Date().toISOString(), error: null });
+    return true;
+  } catch (error) {
+    const attempts = (email.attempts || 0) + 1;
+    console.error(`Failed to send ${email.template} email ${docRef.id} (attempt ${attempts}):`, error);
+    await docRef.update({
+      status: attempts >= MAX_ATTEMPTS ? 'failed' : 'queued',
+      attempts,
+      error: error.message
+    });
+    return false;
+  }
+}
+
+/**
+ * Queue an email, and send it straight away when a transport is given -
+ * confirmation emails shouldn't wait for the next scheduled run
+ * @param {FirebaseFirestore.Firestore} db
+ * @param {object} email - { to, template, data, headers? }
+ * @param {object} [transport]
+ */
+async function queueEmail(db, email, transport) {
+  const queued = {
+    ...email,
+    status: 'queued',
+    created_at: new Date().toISOString()
+  };
+  const docRef = await db.collection(EMAIL_QUEUE_COLLECTION).add(queued);
+
+  if (transport) {
+    await deliverQueuedEmail(docRef, queued, transport);
+  }
+  return docRef.id;
+}
+
+/**
+ * Send everything still queued
+ * @returns {Promise<{sent: number, failed: number}>}
+ */
+async function processEmailQueue(db, transport) {
+  const snapshot = await db.collection(EMAIL_QUEUE_COLLECTION)
+    .where('status', '==', 'queued')
+    .limit(BATCH_SIZE)
+    .get();
+
+  const results = { sent: 0, failed: 0 };
+  // One at a time - SMTP relays throttle parallel connections
+  for (const doc of snapshot.docs) {
+    const sent = await deliverQueuedEmail(doc.ref, doc.data(), transport);
+    results[sent ? 'sent' : 'failed'] += 1;
+  }
+  return results;
+}
+
+exports.handler = async (event, context) => {
+  try {
+    const results = await processEmailQueue(getFirestore(), createTransport());
+    console.log(`Email queue processed: ${results.sent} sent, ${results.failed} failed`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, results })
+    };
+  } catch (error) {
+    console.error('Error processing email queue:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Failed to process email queue', message: error.message })
+    };
+  }
+};
+
+exports.deliverQueuedEmail = deliverQueuedEmail;
+exports.processEmailQueue = processEmailQueue;
+exports.queueEmail = queueEmail;
@@ -0,0 +1,154 @@
+// functions/email-templates.js
+// Subjects and bodies for the emails queued in the email-queue collection.
+// Every template returns a plain text and an HTML version.
+
+const SITE_URL = process.env.URL || 'https://www.pamekids.com';
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Shared HTML shell - inline styles only, since mail clients drop <style> blocks
+const layout = (body) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:#1f2937;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    ${body}
+    <p style="margin-top:32px;font-size:12px;color:#6b7280;">PameKids - children's activities in Athens<br><a href="${SITE_URL}" style="color:#6b7280;">${SITE_URL.replace(/^https?:\/\//, '')}</a></p>
+  </div>
+</body>
+</html>`;
+
+const button = (url, label) =>
+  `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#4285F4;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a></p>`;
+
+const greeting = (firstName) => (firstName ? `Hi ${firstName},` : 'Hi,');
+
+// One digest section - items are { title, url, lines[] }, sections without items are left out
+const digestSectionText = (heading, items) => (items.length === 0 ? [] : [
+  heading.toUpperCase(),
+  '',
+  ...items.flatMap(item => [item.title, ...item.lines.filter(Boolean), item.url, ''])
+]);
+
+const digestSectionHtml = (heading, items) => (items.length === 0 ? '' : `
+    <h2 style="font-size:18px;margin:24px 0 8px;color:#4285F4;">${escapeHtml(heading)}</h2>
+    ${items.map(item => `<div style="margin-bottom:16px;">
+      <p style="margin:0;"><a href="${escapeHtml(item.url)}" style="font-weight:bold;color:#1f2937;">${escapeHtml(item.title)}</a></p>
+      ${item.lines.filter(Boolean).map(line => `<p style="margin:4px 0 0;font-size:14px;color:#4b5563;">${escapeHtml(line)}</p>`).join('\n      ')}
+    </div>`).join('\n    ')}`);
+
+const getDigestSections = ({ area, locations = [], camps = [], blogPosts = [] }) => [
+  {
+    heading: area ? `New and featured near ${area}` : 'New and featured places',
+    items: locations.map(location => ({
+      title: location.name,
+      url: location.url,
+      lines: [location.label, location.description, location.address]
+    }))
+  },
+  {
+    heading: 'Upcoming camps',
+    items: camps.map(camp => ({
+      title: camp.title,
+      url: camp.url,
+      lines: [[camp.dates, camp.venue, camp.price].filter(Boolean).join(' · ')]
+    }))
+  },
+  {
+    heading: 'From the blog',
+    items: blogPosts.map(post => ({ title: post.title, url: post.url, lines: [post.summary] }))
+  }
+];
+
+const TEMPLATES = {
+  // Double opt-in - data: { firstName, confirmUrl }
+  'newsletter-confirm': ({ firstName, confirmUrl }) => ({
+    subject: 'Please confirm your PameKids newsletter subscription',
+    text: [
+      greeting(firstName),
+      '',
+      'Thanks for signing up for the PameKids newsletter. Please confirm your email address by opening this link:',
+      confirmUrl,
+      '',
+      'The link works for 7 days. If you did not sign up, you can ignore this email and you will not hear from us again.'
+    ].join('\n'),
+    html: layout(`
+    <p>${escapeHtml(greeting(firstName))}</p>
+    <p>Thanks for signing up for the PameKids newsletter. Please confirm your email address:</p>
+    ${button(confirmUrl, 'Confirm my subscription')}
+    <p style="font-size:14px;color:#6b7280;">The link works for 7 days. If you did not sign up, you can ignore this email and you will not hear from us again.</p>`)
+  }),
+
+  // Personalised digest - data from toDigestEmailData in newsletter-digest.js
+  'newsletter-digest': (data) => {
+    const sections = getDigestSections(data);
+    const isEmpty = sections.every(section => section.items.length === 0);
+    const intro = isEmpty
+      ? 'We have nothing new for your family this time - we will be in touch when there is.'
+      : 'Here is what is new on PameKids for your family.';
+
+    return {
+      subject: `Your PameKids picks for ${data.period}`,
+      text: [
+        greeting(data.firstName),
+        '',
+        intro,
+        '',
+        ...sections.flatMap(section => digestSectionText(section.heading, section.items)),
+        '--',
+        `Change what we send you: ${data.manageUrl}`,
+        `Unsubscribe: ${data.unsubscribeUrl}`
+      ].join('\n'),
+      html: layout(`
+    <p>${escapeHtml(greeting(data.firstName))}</p>
+    <p>${escapeHtml(intro)}</p>
+    ${sections.map(section => digestSectionHtml(section.heading, section.items)).join('')}
+    <p style="margin-top:32px;font-size:12px;color:#6b7280;">You get this email because you subscribed to the PameKids newsletter.
+      <a href="${escapeHtml(data.manageUrl)}" style="color:#6b7280;">Change what we send you</a> or
+      <a href="${escapeHtml(data.unsubscribeUrl)}" style="color:#6b7280;">unsubscribe</a>.</p>`)
+    };
+  },
+
+  // Activity suggestion turned down by a moderator - data: { name, reason }
+  'suggestion-rejected': ({ name, reason }) => ({
+    subject: `About your suggestion: ${name}`,
+    text: [
+      'Hi,',
+      '',
+      `Thank you for suggesting "${name}" for PameKids. We looked at it and decided not to add it this time:`,
+      '',
+      reason,
+      '',
+      'We appreciate you helping other families find great activities - please keep the suggestions coming.'
+    ].join('\n'),
+    html: layout(`
+    <p>Hi,</p>
+    <p>Thank you for suggesting <strong>${escapeHtml(name)}</strong> for PameKids. We looked at it and decided not to add it this time:</p>
+    <blockquote style="margin:16px 0;padding:8px 16px;border-left:4px solid #e5e7eb;color:#374151;">${escapeHtml(reason)}</blockquote>
+    <p>We appreciate you helping other families find great activities - please keep the suggestions coming.</p>`)
+  })
+};
+
+/**
+ * Render a queued email
+ * @param {string} template - Key of TEMPLATES
+ * @param {object} data - Values the template needs
+ * @returns {{subject: string, text: string, html: string}}
+ */
+function renderEmail(template, data = {}) {
+  const render = TEMPLATES[template];
+  if (!render) {
+    throw new Error(`Unknown email template "${template}"`);
+  }
+  return render(data);
+}
+
+module.exports = {
+  SITE_URL,
+  escapeHtml,
+  layout,
+  renderEmail
+};
@@ -0,0 +1,213 @@
+// functions/email-transport.js
+// Pluggable email sending. EMAIL_TRANSPORT picks how messages go out:
+//  log (default) - print them to the function log, for local development
+//  smtp          - SMTP_HOST / SMTP_PORT, with SMTP_USER / SMTP_PASS for AUTH PLAIN and
+//                  SMTP_SECURE=true for implicit TLS (port 465). A local stand-in such as
+//                  MailHog (port 1025) works without credentials.
+//  memory        - keep messages in memory, for tests
+// registerTransport adds more, e.g. a provider's HTTP API.
+const crypto = require('crypto');
+const net = require('net');
+const tls = require('tls');
+
+const DEFAULT_FROM = 'PameKids <hello@pamekids.com>';
+const SMTP_TIMEOUT_MS = 15000;
+
+const transportFactories = {};
+
+/**
+ * Make a transport available under a name
+ * @param {string} name - Value of EMAIL_TRANSPORT that selects it
+ * @param {function(object): {send: function(object): Promise<object>}} factory - Gets the
+ *   options passed to createTransport and returns an object with an async send(message)
+ */
+function registerTransport(name, factory) {
+  transportFactories[name] = factory;
+}
+
+/**
+ * Create a transport by name
+ * @param {string} [name] - Defaults to EMAIL_TRANSPORT, then "log"
+ * @param {object} [options] - Passed to the transport's factory
+ */
+function createTransport(name = process.env.EMAIL_TRANSPORT || 'log', options = {}) {
+  const factory = transportFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown email transport "${name}"`);
+  }
+  return factory(options);
+}
+
+// RFC 2047 encoded-word, so Greek names survive in headers
+const encodeHeader = (value) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Base64 body wrapped at 76 characters per line
+const encodeBody = (value) => Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// Address part of "Name <address>"
+const getAddress = (value) => {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+};
+
+/**
+ * Build the raw MIME message for a mail
+ * @param {object} message - { from, to, subject, text, html?, headers? }
+ * @returns {string} CRLF-separated message, ready for SMTP DATA
+ */
+function buildMimeMessage(message) {
+  const domain = getAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${value}`)
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text || '')
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `pamekids-${crypto.randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+/**
+ * Send one message over SMTP
+ * Speaks just enough of the protocol for a relay: EHLO, optional AUTH PLAIN, MAIL, RCPT, DATA
+ */
+function sendSmtp({ host, port, secure, user, pass }, message) {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+
+    const commands = [
+      { send: null, expect: 220 },
+      { send: `EHLO ${getAddress(message.from).split('@')[1] || 'localhost'}`, expect: 250 },
+      ...(user ? [{ send: `AUTH PLAIN ${Buffer.from(`\0${user}\0${pass || ''}`).toString('base64')}`, expect: 235 }] : []),
+      { send: `MAIL FROM:<${getAddress(message.from)}>`, expect: 250 },
+      { send: `RCPT TO:<${getAddress(message.to)}>`, expect: 250 },
+      { send: 'DATA', expect: 354 },
+      // Dot-stuff lines starting with "." so they don't end the message early
+      { send: `${buildMimeMessage(message).replace(/^\./gm, '..')}\r\n.`, expect: 250 },
+      { send: 'QUIT', expect: 221 }
+    ];
+
+    let step = 0;
+    let buffer = '';
+    let finished = false;
+
+    const finish = (error) => {
+      if (finished) return;
+      finished = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ accepted: [getAddress(message.to)] });
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      // A reply is complete when its last line has a space after the code ("250 OK", not "250-SIZE")
+      const lines = buffer.split('\r\n');
+      const complete = lines.slice(0, -1);
+      if (!complete.some(line => /^\d{3} /.test(line))) return;
+      buffer = '';
+
+      const lastLine = complete.filter(line => /^\d{3} /.test(line)).pop();
+      const code = parseInt(lastLine.slice(0, 3), 10);
+      const { expect } = commands[step];
+      // RCPT may also answer 251 (user not local, will forward)
+      if (code !== expect && !(expect === 250 && code === 251)) {
+        finish(new Error(`SMTP server answered "${lastLine}"`));
+        return;
+      }
+
+      step += 1;
+      if (step === commands.length) {
+        finish();
+        return;
+      }
+      socket.write(`${commands[step].send}\r\n`);
+    });
+
+    socket.on('timeout', () => finish(new Error('SMTP server timed out')));
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(step === commands.length - 1 ? null : new Error('SMTP connection closed early')));
+  });
+}
+
+registerTransport('log', () => ({
+  async send(message) {
+    console.log(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    return { accepted: [getAddress(message.to)] };
+  }
+}));
+
+registerTransport('memory', () => {
+  const sent = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+      return { accepted: [getAddress(message.to)] };
+    }
+  };
+});
+
+registerTransport('smtp', (options) => {
+  const config = {
+    host: options.host || process.env.SMTP_HOST || 'localhost',
+    port: Number(options.port || process.env.SMTP_PORT || 1025),
+    secure: options.secure ?? process.env.SMTP_SECURE === 'true',
+    user: options.user || process.env.SMTP_USER,
+    pass: options.pass || process.env.SMTP_PASS
+  };
+  return {
+    send: (message) => sendSmtp(config, message)
+  };
+});
+
+/**
+ * Send an email with the default From address filled in
+ * @param {object} transport - From createTransport
+ * @param {object} message - { to, subject, text, html?, headers?, from? }
+ */
+async function sendEmail(transport, message) {
+  return transport.send({ from: process.env.EMAIL_FROM || DEFAULT_FROM, ...message });
+}
+
+module.exports = {
+  buildMimeMessage,
+  createTransport,
+  registerTransport,
+  sendEmail
+};
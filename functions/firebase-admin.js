@@ -11,10 +11,15 @@ function initializeFirebaseAdmin() {
     return firebaseApp;
   }
 
+  // Reuse the default app if another module (e.g. scheduled-places-update) already created it
+  if (admin.apps.length > 0) {
+    firebaseApp = admin.app();
+    return firebaseApp;
+  }
+
   try {
     // Debug logging - print current working directory to help troubleshoot
     console.log('Current working directory:', process.cwd());
-    console.log('ADMIN_TOKEN available:', !!process.env.ADMIN_TOKEN);
     console.log('NODE_ENV:', process.env.NODE_ENV);
     
     // Get the storage bucket name from environment variable
@@ -31,6 +36,16 @@ function initializeFirebaseAdmin() {
     // Try to parse service account from environment variable
     const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT;
     
+    // Running against the Firebase emulators (tests / local dev) - no credentials needed
+    if (!serviceAccountJson && process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+      firebaseApp = admin.initializeApp({
+        projectId: process.env.GCLOUD_PROJECT || 'demo-pamekids',
+        storageBucket: storageBucketName
+      });
+      console.log('Firebase Admin initialized for the emulators at', process.env.FIREBASE_AUTH_EMULATOR_HOST);
+      return firebaseApp;
+    }
+
     if (serviceAccountJson) {
       try {
         // Initialize with parsed service account from environment variable
@@ -10,30 +10,9 @@ const {
   fetchPlaceDetails,
   updateLocationPlaceData
 } = require('./scheduled-places-update');
+const { AdminAuthError, verifyAdminRequest } = require('./admin-auth');
 // We don't need to import the image storage utilities directly since they're used by updateLocationPlaceData
 
-// Verify admin authentication
-async function verifyAdminAuth(token) {
-  if (!token) {
-    throw new Error('Admin authentication required - no token provided');
-  }
-  
-  // This is a simplified check - we're just validating against an environment variable
-  // In a production system, you might want more robust authentication
-  if (!process.env.ADMIN_TOKEN) {
-    console.error('ADMIN_TOKEN environment variable is not set');
-    throw new Error('Server configuration error: Admin token is not configured');
-  }
-  
-  if (token !== process.env.ADMIN_TOKEN) {
-    console.warn('Invalid admin token provided');
-    throw new Error('Invalid admin token - authentication failed');
-  }
-  
-  console.log('Admin authentication successful');
-  return true;
-}
-
 // Main handler function for the Netlify serverless function
 exports.handler = async (event, context) => {
   // Only allow POST requests
@@ -51,15 +30,11 @@ exports.handler = async (event, context) => {
   console.log('- GOOGLE_MAPS_API_KEY available:', !!process.env.GOOGLE_MAPS_API_KEY);
   console.log('- REACT_APP_GOOGLE_MAPS_API_KEY available:', !!process.env.REACT_APP_GOOGLE_MAPS_API_KEY);
   console.log('- FIREBASE_SERVICE_ACCOUNT available:', !!process.env.FIREBASE_SERVICE_ACCOUNT);
-  console.log('- ADMIN_TOKEN available:', !!process.env.ADMIN_TOKEN);
   
   try {
-    // Extract admin token from Authorization header
-    const authHeader = event.headers.authorization || '';
-    const token = authHeader.startsWith('Bearer ') ? authHeader.substring(7) : '';
-    
-    // Verify admin authentication
-    await verifyAdminAuth(token);
+    // Verify the admin's Firebase ID token
+    const caller = await verifyAdminRequest(event, 'editor');
+    const author = `${caller.email || caller.uid} (Places update)`;
     
     // Initialize Firebase
     const db = getFirestore();
@@ -105,7 +80,7 @@ exports.handler = async (event, context) => {
           }
           
           // Update only specific fields in Firestore
-          const success = await updateLocationPlaceData(db, location.id, placeDetails);
+          const success = await updateLocationPlaceData(db, location.id, placeDetails, author);
           
           if (success) {
             results.success++;
@@ -163,7 +138,7 @@ exports.handler = async (event, context) => {
   } catch (error) {
     console.error('Error in force-places-update:', error);
     return {
-      statusCode: error.message.includes('authentication') ? 401 : 500,
+      statusCode: error instanceof AdminAuthError ? error.statusCode : 500,
       body: JSON.stringify({
         error: 'Failed to run photo update',
         message: error.message
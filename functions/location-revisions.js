@@ -0,0 +1,163 @@
+// functions/location-revisions.js
+// Change history for locations, stored in locations/{id}/revisions. Every write by
+// the locations function, the Places updates and suggestion approvals records which
+// fields changed, with their old and new values, so the dashboard can show diffs and restore old versions.
+// Deleting a location records every field going to null and lists the location in
+// deleted-locations, so its history stays reachable and the delete can be undone.
+const admin = require('firebase-admin');
+
+const REVISIONS_COLLECTION = 'revisions';
+const DELETED_LOCATIONS_COLLECTION = 'deleted-locations';
+
+// Where a revision came from
+const REVISION_SOURCES = ['admin', 'places-update', 'restore', 'delete', 'suggestion'];
+
+// Bookkeeping fields that change on every write - not worth a history entry
+const IGNORED_FIELDS = ['created_at', 'updated_at', 'placeData_updated_at', 'placeData.last_fetched'];
+
+// Maps whose keys are diffed one by one, so a rating refresh doesn't copy every photo URL
+const NESTED_FIELDS = ['placeData', 'contact'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// JSON with sorted keys, so maps read back from Firestore in a different order compare equal
+function stableStringify(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * List the fields that differ between two versions of a location document
+ * @param {object} before - Document data before the write ({} for a new location)
+ * @param {object} after - Document data after the write
+ * @returns {Array<{field: string, from: *, to: *}>} One entry per changed field, with
+ *   "placeData.rating" style paths for nested fields. Missing values are stored as null.
+ */
+function diffLocations(before = {}, after = {}) {
+  const changes = [];
+
+  const compare = (field, from, to) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    if (stableStringify(from) !== stableStringify(to)) {
+      changes.push({ field, from: from === undefined ? null : from, to: to === undefined ? null : to });
+    }
+  };
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  [...fields].sort().forEach(field => {
+    const from = before[field];
+    const to = after[field];
+
+    if (NESTED_FIELDS.includes(field) && (isPlainObject(from) || isPlainObject(to))) {
+      const fromMap = isPlainObject(from) ? from : {};
+      const toMap = isPlainObject(to) ? to : {};
+      const keys = new Set([...Object.keys(fromMap), ...Object.keys(toMap)]);
+      [...keys].sort().forEach(key => compare(`${field}.${key}`, fromMap[key], toMap[key]));
+      return;
+    }
+
+    compare(field, from, to);
+  });
+
+  return changes;
+}
+
+/**
+ * Work out the writes that bring a location back to how it was right after a revision,
+ * by undoing every newer revision. Places updates are not undone - photos and ratings
+ * come from Google and the next scheduled update would bring them back anyway.
+ * @param {Array<object>} revisions - The location's revisions, newest first
+ * @param {string} revisionId - The revision to go back to
+ * @returns {object|null} Field path to value, where null means the field was not set;
+ *   null if the revision is not in the list
+ */
+function getRestoreValues(revisions, revisionId) {
+  const index = revisions.findIndex(revision => revision.id === revisionId);
+  if (index === -1) return null;
+
+  const values = {};
+  // Walk from the newest revision back, so the oldest undo for each field wins
+  revisions.slice(0, index).forEach(revision => {
+    if (revision.source === 'places-update') return;
+    (revision.changes || []).forEach(change => {
+      values[change.field] = change.from;
+    });
+  });
+
+  return values;
+}
+
+/**
+ * Save a revision for a write to a location, if anything changed
+ * @param {FirebaseFirestore.DocumentReference} docRef - The location document
+ * @param {object} before - Document data before the write
+ * @param {object} after - Document data after the write
+ * @param {object} details
+ * @param {string} details.author - Admin email, or a description of the automated job
+ * @param {string} details.source - One of REVISION_SOURCES
+ * @param {string} [details.restoredFrom] - For restores, the revision that was restored
+ * @returns {Promise<string|null>} The new revision's ID, or null when nothing changed
+ */
+async function recordRevision(docRef, before, after, { author, source, restoredFrom }) {
+  const changes = diffLocations(before, after);
+  if (changes.length === 0) return null;
+
+  const revision = {
+    author,
+    source,
+    at: new Date().toISOString(),
+    changes
+  };
+  if (restoredFrom) {
+    revision.restoredFrom = restoredFrom;
+  }
+
+  const revisionRef = await docRef.collection(REVISIONS_COLLECTION).add(revision);
+  return revisionRef.id;
+}
+
+/**
+ * Turn restore values into a Firestore update - unset fields are deleted
+ */
+function toRestoreUpdate(values) {
+  const { FieldValue } = admin.firestore;
+  const update = {};
+  Object.entries(values).forEach(([field, value]) => {
+    update[field] = value === null ? FieldValue.delete() : value;
+  });
+  return update;
+}
+
+/**
+ * Turn restore values into a whole document, for bringing back a deleted location -
+ * unset fields are left out and "placeData.rating" style paths become nested maps
+ */
+function toRestoredDocument(values) {
+  const document = {};
+  Object.entries(values).forEach(([field, value]) => {
+    if (value === null) return;
+    const [parent, key] = field.split('.');
+    if (key !== undefined && NESTED_FIELDS.includes(parent)) {
+      document[parent] = { ...document[parent], [key]: value };
+    } else {
+      document[field] = value;
+    }
+  });
+  return document;
+}
+
+module.exports = {
+  DELETED_LOCATIONS_COLLECTION,
+  REVISIONS_COLLECTION,
+  REVISION_SOURCES,
+  diffLocations,
+  getRestoreValues,
+  recordRevision,
+  toRestoreUpdate,
+  toRestoredDocument
+};
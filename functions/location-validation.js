@@ -0,0 +1,422 @@
+// functions/location-validation.js
+// Server-side validation for location writes coming from the admin dashboard.
+// Mirrors the Location type in src/types/location.ts and returns errors keyed by
+// field path (e.g. "ageRange.min", "contact.email") so LocationForm can show
+// each message next to the matching input.
+
+// Keys of ACTIVITY_CATEGORIES in src/utils/metadata.ts - functions can't import
+// the TypeScript source, so __tests__/location-validation.test.js checks they match
+const ACTIVITY_TYPES = [
+  'music', 'language', 'arts', 'drama', 'history', 'stem', 'animals', 'education', 'cooking',
+  'sports', 'martial-arts', 'soccer', 'basketball', 'tennis', 'horseback-riding', 'dance',
+  'gymnastics', 'yoga', 'swim',
+  'outdoor-play', 'playground', 'sports-field', 'park',
+  'indoor-play', 'play-space', 'indoor-playground', 'activity-center',
+  'entertainment', 'movies', 'theme-park', 'event-space', 'theater',
+  'camp', 'summer-camp', 'easter-camp', 'day-camp',
+  'nature', 'beach', 'hike', 'garden',
+  'restaurant', 'cafe', 'food-court',
+  'hotel', 'resort', 'villa'
+];
+
+// PRICE_RANGES in src/utils/location-import.ts - what the location form and bulk edit offer.
+// An empty price range means it isn't known.
+const PRICE_RANGES = ['Free', '€', '€€', '€€€'];
+
+const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Ages the site covers - the age filter on the map uses the same bounds
+const AGE_LIMITS = { min: 0, max: 18 };
+
+// Featured slots on the home page are numbered 0-8
+const MAX_FEATURED_POSITION = 8;
+
+// Fields an admin can write - anything else in the payload is rejected
+const LOCATION_FIELDS = [
+  'name', 'coordinates', 'types', 'primaryType', 'description', 'address', 'ageRange',
+  'priceRange', 'openingHours', 'schedule', 'contact', 'placeData', 'images',
+  'featured', 'featuredPosition', 'proTips', 'translations'
+];
+
+// Languages other than English that a location's text can be written in, and the
+// fields of translations.<language> - see src/utils/i18n.ts
+const TRANSLATION_LANGUAGES = ['el'];
+const TRANSLATED_FIELDS = ['description', 'proTips'];
+
+// Fields every new location needs
+const REQUIRED_FIELDS = [
+  'name', 'coordinates', 'types', 'description', 'address', 'ageRange', 'openingHours', 'contact'
+];
+
+// Set by the server or the document ID, so they are dropped rather than rejected -
+// suggestionId is only set by approving the suggestion in the activities function
+const IGNORED_FIELDS = ['id', 'slug', 'created_at', 'updated_at', 'placeData_updated_at', 'suggestionId'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// "HH:MM" 24h time - "24:00" is allowed as the end of a full day
+const isValidTime = (time) => {
+  const match = typeof time === 'string' && /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return false;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours <= 24 && minutes <= 59 && !(hours === 24 && minutes !== 0);
+};
+
+const isValidUrl = (value) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+};
+
+// Returns an error message for a list of opening intervals, or null if they are fine
+const checkIntervals = (intervals) => {
+  if (!Array.isArray(intervals)) {
+    return 'must be a list of opening times';
+  }
+  const invalid = intervals.find(interval =>
+    !isPlainObject(interval) || !isValidTime(interval.open) || !isValidTime(interval.close)
+  );
+  return invalid ? 'has an opening time that is not in HH:MM format' : null;
+};
+
+// Returns an error message for a day -> intervals map, or null if it is fine
+const checkWeeklyHours = (weekly) => {
+  if (!isPlainObject(weekly)) {
+    return 'weekly hours are missing';
+  }
+  for (const [day, intervals] of Object.entries(weekly)) {
+    if (!DAYS_OF_WEEK.includes(day)) {
+      return `"${day}" is not a day of the week`;
+    }
+    const intervalError = checkIntervals(intervals);
+    if (intervalError) {
+      return `${day} ${intervalError}`;
+    }
+  }
+  return null;
+};
+
+const checkSchedule = (schedule) => {
+  if (!isPlainObject(schedule)) {
+    return 'Opening hours are not in the expected format';
+  }
+
+  const weeklyError = checkWeeklyHours(schedule.weekly);
+  if (weeklyError) {
+    return `Opening hours: ${weeklyError}`;
+  }
+
+  if (schedule.seasons !== undefined) {
+    if (!Array.isArray(schedule.seasons)) {
+      return 'Seasonal hours must be a list';
+    }
+    for (const season of schedule.seasons) {
+      const name = isPlainObject(season) && typeof season.name === 'string' ? season.name.trim() : '';
+      if (!name) {
+        return 'Every season needs a name';
+      }
+      if (!MONTH_DAY_PATTERN.test(season.startDate) || !MONTH_DAY_PATTERN.test(season.endDate)) {
+        return `Season "${name}" needs start and end dates in MM-DD format`;
+      }
+      const hoursError = checkWeeklyHours(season.hours);
+      if (hoursError) {
+        return `Season "${name}": ${hoursError}`;
+      }
+    }
+  }
+
+  if (schedule.exceptions !== undefined) {
+    if (!Array.isArray(schedule.exceptions)) {
+      return 'Special dates must be a list';
+    }
+    for (const exception of schedule.exceptions) {
+      if (!isPlainObject(exception) || !DATE_PATTERN.test(exception.date)) {
+        return 'Every special date needs a date in YYYY-MM-DD format';
+      }
+      if (exception.label !== undefined && typeof exception.label !== 'string') {
+        return `The label for ${exception.date} must be text`;
+      }
+      const intervalError = checkIntervals(exception.intervals);
+      if (intervalError) {
+        return `${exception.date} ${intervalError}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+const isAge = (value) => Number.isInteger(value) && value >= AGE_LIMITS.min && value <= AGE_LIMITS.max;
+
+/**
+ * Validate a location payload before it is written to Firestore
+ * @param {object} data - Location fields from the request body
+ * @param {object} options
+ * @param {boolean} options.partial - Update: only check the fields that were sent
+ * @returns {{value: object, fieldErrors: Record<string, string>}} The fields to write
+ *   (trimmed, without ignored fields) and any errors keyed by field path
+ */
+function validateLocation(data, { partial = false } = {}) {
+  const fieldErrors = {};
+  const value = {};
+
+  if (!isPlainObject(data)) {
+    return { value, fieldErrors: { _form: 'Location data must be an object' } };
+  }
+
+  const has = (field) => data[field] !== undefined;
+
+  Object.keys(data).forEach(field => {
+    if (!LOCATION_FIELDS.includes(field) && !IGNORED_FIELDS.includes(field)) {
+      fieldErrors[field] = `Unknown field "${field}"`;
+    }
+  });
+
+  if (!partial) {
+    REQUIRED_FIELDS.forEach(field => {
+      if (!has(field)) {
+        fieldErrors[field] = `${field} is required`;
+      }
+    });
+  }
+
+  if (has('name')) {
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) {
+      fieldErrors.name = 'Name is required';
+    } else {
+      value.name = name;
+    }
+  }
+
+  if (has('coordinates')) {
+    const { lat, lng } = isPlainObject(data.coordinates) ? data.coordinates : {};
+    if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      fieldErrors['coordinates.lat'] = 'Latitude must be a number between -90 and 90';
+    }
+    if (typeof lng !== 'number' || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+      fieldErrors['coordinates.lng'] = 'Longitude must be a number between -180 and 180';
+    }
+    value.coordinates = { lat, lng };
+  }
+
+  if (has('types')) {
+    if (!Array.isArray(data.types) || data.types.length === 0) {
+      fieldErrors.types = 'Choose at least one activity type';
+    } else {
+      const unknown = data.types.filter(type => !ACTIVITY_TYPES.includes(type));
+      if (unknown.length > 0) {
+        fieldErrors.types = `Unknown activity type${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+      }
+      value.types = [...new Set(data.types)];
+    }
+  }
+
+  if (has('primaryType')) {
+    if (!ACTIVITY_TYPES.includes(data.primaryType)) {
+      fieldErrors.primaryType = `Unknown activity type: ${data.primaryType}`;
+    }
+    // Checked here too when both are sent, e.g. by the bulk "remove type" action
+    if (!fieldErrors.primaryType && value.types && !value.types.includes(data.primaryType)) {
+      fieldErrors.primaryType = 'The primary type must be one of the activity types';
+    }
+    value.primaryType = data.primaryType;
+  }
+
+  if (has('priceRange')) {
+    if (data.priceRange !== '' && !PRICE_RANGES.includes(data.priceRange)) {
+      fieldErrors.priceRange = `Price range must be one of ${PRICE_RANGES.join(', ')}`;
+    } else {
+      value.priceRange = data.priceRange;
+    }
+  }
+
+  ['description', 'address', 'proTips'].forEach(field => {
+    if (!has(field)) return;
+    if (typeof data[field] !== 'string') {
+      fieldErrors[field] = `${field} must be text`;
+    } else {
+      value[field] = data[field].trim();
+    }
+  });
+
+  if (has('translations')) {
+    if (!isPlainObject(data.translations)) {
+      fieldErrors.translations = 'Translations must be grouped by language';
+    } else {
+      value.translations = {};
+      Object.entries(data.translations).forEach(([language, translation]) => {
+        if (!TRANSLATION_LANGUAGES.includes(language) || !isPlainObject(translation)) {
+          fieldErrors[`translations.${language}`] = `Unknown translation language "${language}"`;
+          return;
+        }
+        value.translations[language] = {};
+        Object.entries(translation).forEach(([field, text]) => {
+          if (!TRANSLATED_FIELDS.includes(field) || typeof text !== 'string') {
+            fieldErrors[`translations.${language}.${field}`] = `${field} can't be translated here`;
+          } else {
+            value.translations[language][field] = text.trim();
+          }
+        });
+      });
+    }
+  }
+
+  if (has('ageRange')) {
+    const { min, max } = isPlainObject(data.ageRange) ? data.ageRange : {};
+    const ageMessage = `must be a whole number from ${AGE_LIMITS.min} to ${AGE_LIMITS.max}`;
+    if (!isAge(min)) {
+      fieldErrors['ageRange.min'] = `Minimum age ${ageMessage}`;
+    }
+    if (!isAge(max)) {
+      fieldErrors['ageRange.max'] = `Maximum age ${ageMessage}`;
+    }
+    if (isAge(min) && isAge(max) && min > max) {
+      fieldErrors['ageRange.max'] = 'Maximum age cannot be lower than the minimum age';
+    }
+    value.ageRange = { min, max };
+  }
+
+  if (has('openingHours')) {
+    const openingHours = data.openingHours;
+    if (!isPlainObject(openingHours)) {
+      fieldErrors.openingHours = 'Opening hours must be a list of days';
+    } else {
+      const badDay = Object.entries(openingHours).find(([day, text]) =>
+        !DAYS_OF_WEEK.includes(day) || typeof text !== 'string'
+      );
+      if (badDay) {
+        fieldErrors.openingHours = `Opening hours for "${badDay[0]}" are not valid`;
+      }
+    }
+    value.openingHours = openingHours;
+  }
+
+  if (has('schedule')) {
+    const scheduleError = checkSchedule(data.schedule);
+    if (scheduleError) {
+      fieldErrors.schedule = scheduleError;
+    }
+    value.schedule = data.schedule;
+  }
+
+  if (has('contact')) {
+    if (!isPlainObject(data.contact)) {
+      fieldErrors.contact = 'Contact details must be an object';
+    } else {
+      const contact = {};
+      ['phone', 'email', 'website'].forEach(field => {
+        const fieldValue = data.contact[field];
+        if (fieldValue === undefined) return;
+        if (typeof fieldValue !== 'string') {
+          fieldErrors[`contact.${field}`] = `${field} must be text`;
+          return;
+        }
+        contact[field] = fieldValue.trim();
+      });
+      if (contact.email && !EMAIL_PATTERN.test(contact.email)) {
+        fieldErrors['contact.email'] = 'Enter a valid email address';
+      }
+      if (contact.website && !isValidUrl(contact.website)) {
+        fieldErrors['contact.website'] = 'Website must be a full http:// or https:// address';
+      }
+      value.contact = contact;
+    }
+  }
+
+  if (has('placeData')) {
+    if (!isPlainObject(data.placeData)) {
+      fieldErrors.placeData = 'Google Places data must be an object';
+    } else if (partial) {
+      value.placeData = data.placeData;
+    } else {
+      // Firestore rejects undefined, and JSON drops it - new locations get empty strings instead
+      value.placeData = { phone: '', website: '', address: '', ...data.placeData };
+    }
+  }
+
+  if (has('images')) {
+    if (!Array.isArray(data.images) || data.images.some(image => typeof image !== 'string')) {
+      fieldErrors.images = 'Images must be a list of URLs';
+    }
+    value.images = data.images;
+  }
+
+  if (has('featured')) {
+    if (typeof data.featured !== 'boolean') {
+      fieldErrors.featured = 'featured must be true or false';
+    }
+    value.featured = data.featured;
+  }
+
+  if (has('featuredPosition')) {
+    const position = data.featuredPosition;
+    if (position !== null && !(Number.isInteger(position) && position >= 0 && position <= MAX_FEATURED_POSITION)) {
+      fieldErrors.featuredPosition = `Featured position must be from 0 to ${MAX_FEATURED_POSITION}`;
+    }
+    value.featuredPosition = position;
+  }
+
+  return { value, fieldErrors };
+}
+
+// Fields a visitor can propose new values for with an issue report - keep in sync
+// with SUGGESTED_EDIT_FIELDS in src/utils/suggested-edits.ts
+const SUGGESTED_EDIT_FIELDS = ['openingHours', 'ageRange', 'priceRange', 'proTips'];
+const MAX_SUGGESTED_TEXT_LENGTH = 2000;
+
+/**
+ * Validate the structured changes a visitor sends with an issue report
+ * @param {object} edit - { field: { from, to } } as built by buildSuggestedEdit on the client
+ * @returns {{value: object, fieldErrors: Record<string, string>}} The proposed value per field.
+ *   The client's "from" values are ignored - the caller reads them from the stored location.
+ */
+function validateSuggestedEdit(edit) {
+  if (!isPlainObject(edit) || Object.keys(edit).length === 0) {
+    return { value: {}, fieldErrors: { suggestedEdit: 'Suggested changes must list at least one field' } };
+  }
+
+  const fieldErrors = {};
+  const proposed = {};
+
+  Object.entries(edit).forEach(([field, change]) => {
+    if (!SUGGESTED_EDIT_FIELDS.includes(field)) {
+      fieldErrors[field] = `${field} cannot be changed from a report`;
+    } else if (!isPlainObject(change) || change.to === undefined || change.to === null) {
+      fieldErrors[field] = `Missing the new value for ${field}`;
+    } else {
+      proposed[field] = change.to;
+    }
+  });
+
+  const { value, fieldErrors: valueErrors } = validateLocation(proposed, { partial: true });
+
+  if (typeof value.proTips === 'string' && value.proTips.length > MAX_SUGGESTED_TEXT_LENGTH) {
+    valueErrors.proTips = `proTips can be at most ${MAX_SUGGESTED_TEXT_LENGTH} characters`;
+  }
+  if (!valueErrors.openingHours && value.openingHours &&
+      Object.values(value.openingHours).some(text => text.length > 100)) {
+    valueErrors.openingHours = 'Opening hours for each day can be at most 100 characters';
+  }
+
+  return { value, fieldErrors: { ...fieldErrors, ...valueErrors } };
+}
+
+module.exports = {
+  ACTIVITY_TYPES,
+  AGE_LIMITS,
+  DAYS_OF_WEEK,
+  PRICE_RANGES,
+  SUGGESTED_EDIT_FIELDS,
+  validateLocation,
+  validateSuggestedEdit
+};
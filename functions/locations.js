@@ -0,0 +1,317 @@
+// functions/locations.js
+const admin = require('firebase-admin');
+const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
+const { DAYS_OF_WEEK, validateLocation } = require('./location-validation');
+const {
+  DELETED_LOCATIONS_COLLECTION,
+  REVISIONS_COLLECTION,
+  getRestoreValues,
+  recordRevision,
+  toRestoreUpdate,
+  toRestoredDocument
+} = require('./location-revisions');
+const { pickPlaceSlug } = require('./place-slugs');
+
+// Read the location ID from /api/locations/:id
+function getLocationId(path = '') {
+  const match = /\/locations\/([^/]+)\/?$/.exec(path);
+  return match ? decodeURIComponent(match[1]).trim() : '';
+}
+
+// Read the location ID from /api/locations/:id/restore
+function getRestoreLocationId(path = '') {
+  const match = /\/locations\/([^/]+)\/restore\/?$/.exec(path);
+  return match ? decodeURIComponent(match[1]).trim() : '';
+}
+
+// Hours are edited as a whole, so explicitly clear removed days, seasons and
+// exceptions - a merge write would otherwise keep their old values
+function withClearedHours(value) {
+  const { FieldValue } = admin.firestore;
+  const data = { ...value };
+
+  if (value.openingHours) {
+    data.openingHours = { ...value.openingHours };
+    DAYS_OF_WEEK.forEach(day => {
+      if (!(day in data.openingHours)) {
+        data.openingHours[day] = FieldValue.delete();
+      }
+    });
+  }
+
+  if (value.schedule) {
+    const weekly = { ...value.schedule.weekly };
+    DAYS_OF_WEEK.forEach(day => {
+      if (!(day in weekly)) {
+        weekly[day] = FieldValue.delete();
+      }
+    });
+    data.schedule = {
+      weekly,
+      seasons: value.schedule.seasons?.length ? value.schedule.seasons : FieldValue.delete(),
+      exceptions: value.schedule.exceptions?.length ? value.schedule.exceptions : FieldValue.delete()
+    };
+  }
+
+  return data;
+}
+
+/**
+ * Locations API Handler
+ * Validated create, update and delete for locations - reads stay on the client
+ *  POST   /api/locations      - create, using the Google Place ID in the body as the document ID
+ *  PUT    /api/locations/:id  - update the fields that were sent
+ *  DELETE /api/locations/:id  - delete (photos are removed by delete-location-photos-background)
+ *  POST   /api/locations/:id/restore - { revisionId }: go back to how the location was after that revision,
+ *                                      bringing a deleted location back
+ * Invalid payloads get a 400 with { error, fieldErrors } keyed by field path.
+ * Every change is recorded in locations/{id}/revisions (see location-revisions.js).
+ */
+exports.handler = async (event, context) => {
+  // Set headers for CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, PUT, DELETE, OPTIONS'
+  };
+
+  // Handle preflight OPTIONS request
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 204,
+      headers
+    };
+  }
+
+  if (!['POST', 'PUT', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method Not Allowed' })
+    };
+  }
+
+  let caller;
+  try {
+    // Verify the admin's Firebase ID token
+    caller = await verifyAdminRequest(event, 'editor');
+  } catch (authError) {
+    return authErrorResponse(authError, headers);
+  }
+
+  try {
+    const db = getFirestore();
+    const locationsCollection = db.collection('locations');
+    const { FieldValue } = admin.firestore;
+
+    let data = {};
+    if (event.httpMethod !== 'DELETE') {
+      try {
+        data = JSON.parse(event.body || '{}');
+      } catch (parseError) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Request body must be valid JSON' })
+        };
+      }
+    }
+
+    const author = caller.email || caller.uid;
+
+    // POST /:id/restore: Roll a location back to an earlier revision
+    const restoreId = event.httpMethod === 'POST' ? getRestoreLocationId(event.path) : '';
+    if (restoreId) {
+      return await handleRestore(db, locationsCollection.doc(restoreId), data.revisionId, author, headers);
+    }
+
+    // POST: Create a new location
+    if (event.httpMethod === 'POST') {
+      const placeId = typeof data.id === 'string' ? data.id.trim() : '';
+      const { value, fieldErrors } = validateLocation(data);
+      if (!placeId) {
+        fieldErrors.id = 'A valid Google Place ID is required for adding locations';
+      }
+
+      if (Object.keys(fieldErrors).length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Please fix the highlighted fields', fieldErrors })
+        };
+      }
+
+      const docRef = locationsCollection.doc(placeId);
+      if ((await docRef.get()).exists) {
+        return {
+          statusCode: 409,
+          headers,
+          body: JSON.stringify({ error: `A location with Place ID ${placeId} already exists` })
+        };
+      }
+
+      // The place page URL is set once here and kept from then on
+      const created = { ...value, slug: await pickPlaceSlug(db, placeId, value.name) };
+      await docRef.set({
+        ...created,
+        created_at: FieldValue.serverTimestamp(),
+        updated_at: FieldValue.serverTimestamp()
+      });
+      await recordRevision(docRef, {}, created, { author, source: 'admin' });
+      // Adding a deleted place again takes it off the deleted list - its old history carries on
+      await db.collection(DELETED_LOCATIONS_COLLECTION).doc(placeId).delete();
+      console.log(`Location ${placeId} created by ${author}`);
+
+      return {
+        statusCode: 201,
+        headers,
+        body: JSON.stringify({ message: 'Location created successfully', id: placeId })
+      };
+    }
+
+    const id = getLocationId(event.path);
+    if (!id) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'Location ID is required' })
+      };
+    }
+
+    const docRef = locationsCollection.doc(id);
+    const snapshot = await docRef.get();
+    if (!snapshot.exists) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: 'Location not found' })
+      };
+    }
+
+    // PUT: Update an existing location
+    if (event.httpMethod === 'PUT') {
+      const { value, fieldErrors } = validateLocation(data, { partial: true });
+      if (Object.keys(fieldErrors).length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Please fix the highlighted fields', fieldErrors })
+        };
+      }
+
+      await docRef.set({
+        ...withClearedHours(value),
+        updated_at: FieldValue.serverTimestamp()
+      }, { merge: true });
+
+      // Diff against the stored result - merge writes keep fields that weren't sent
+      const updated = await docRef.get();
+      await recordRevision(docRef, snapshot.data(), updated.data(), { author, source: 'admin' });
+      console.log(`Location ${id} updated by ${author}`);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ message: 'Location updated successfully', id })
+      };
+    }
+
+    // DELETE: Delete a location - a last revision keeps every field, so the delete can be undone,
+    // and the deleted list keeps the location's history reachable from the dashboard
+    const revisionId = await recordRevision(docRef, snapshot.data(), {}, { author, source: 'delete' });
+    await db.collection(DELETED_LOCATIONS_COLLECTION).doc(id).set({
+      name: snapshot.get('name') || id,
+      deletedAt: new Date().toISOString(),
+      deletedBy: author,
+      revisionId
+    });
+    await docRef.delete();
+    console.log(`Location ${id} deleted by ${author}`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ message: 'Location deleted successfully', id })
+    };
+  } catch (error) {
+    console.error('Error handling locations function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: error.message
+      })
+    };
+  }
+};
+
+// Undo every change made after the chosen revision, recording the restore as a revision of its own.
+// A deleted location is written back whole from its history.
+async function handleRestore(db, docRef, revisionId, author, headers) {
+  if (typeof revisionId !== 'string' || !revisionId) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'revisionId is required' })
+    };
+  }
+
+  const snapshot = await docRef.get();
+  const revisionsSnapshot = await docRef.collection(REVISIONS_COLLECTION).orderBy('at', 'desc').get();
+  const revisions = revisionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  const values = getRestoreValues(revisions, revisionId);
+  if (!values) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify({ error: 'Revision not found' })
+    };
+  }
+
+  if (Object.keys(values).length === 0) {
+    return snapshot.exists ? {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ message: 'The location already matches this revision', id: docRef.id })
+    } : {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Choose a version from before the location was deleted' })
+    };
+  }
+
+  const { FieldValue } = admin.firestore;
+  if (snapshot.exists) {
+    await docRef.update({
+      ...toRestoreUpdate(values),
+      updated_at: FieldValue.serverTimestamp()
+    });
+  } else {
+    const document = toRestoredDocument(values);
+    // Back at its old URL, unless a place added since the delete has taken it
+    document.slug = await pickPlaceSlug(db, docRef.id, document.name, document.slug);
+    await docRef.set({
+      ...document,
+      created_at: FieldValue.serverTimestamp(),
+      updated_at: FieldValue.serverTimestamp()
+    });
+    await db.collection(DELETED_LOCATIONS_COLLECTION).doc(docRef.id).delete();
+  }
+
+  const restored = await docRef.get();
+  const newRevisionId = await recordRevision(docRef, snapshot.exists ? snapshot.data() : {}, restored.data(), {
+    author,
+    source: 'restore',
+    restoredFrom: revisionId
+  });
+  console.log(`Location ${docRef.id} restored to revision ${revisionId} by ${author}`);
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ message: 'Location restored', id: docRef.id, revisionId: newRevisionId })
+  };
+}
@@ -9,30 +9,10 @@
 
 const { initializeFirebaseAdmin, getFirestore } = require('./firebase-admin');
 const { processAndStoreLocationPhotos } = require('./image-storage-utils');
+const { AdminAuthError, verifyAdminRequest } = require('./admin-auth');
 const admin = require('firebase-admin');
 const fetch = require('node-fetch');
 
-// Verify admin authentication
-async function verifyAdminAuth(token) {
-  if (!token) {
-    throw new Error('Admin authentication required - no token provided');
-  }
-  
-  // Validate against the environment variable
-  if (!process.env.ADMIN_TOKEN) {
-    console.error('ADMIN_TOKEN environment variable is not set');
-    throw new Error('Server configuration error: Admin token is not configured');
-  }
-  
-  if (token !== process.env.ADMIN_TOKEN) {
-    console.warn('Invalid admin token provided');
-    throw new Error('Invalid admin token - authentication failed');
-  }
-  
-  console.log('Admin authentication successful');
-  return true;
-}
-
 // Track stats for the migration
 const getEmptyStats = () => ({
   totalLocations: 0,
@@ -320,12 +300,8 @@ exports.handler = async (event, context) => {
   }
   
   try {
-    // Extract admin token from Authorization header
-    const authHeader = event.headers.authorization || '';
-    const token = authHeader.startsWith('Bearer ') ? authHeader.substring(7) : '';
-    
-    // Verify admin authentication
-    await verifyAdminAuth(token);
+    // Verify the admin's Firebase ID token
+    await verifyAdminRequest(event, 'editor');
     
     // Initialize stats
     const stats = getEmptyStats();
@@ -445,7 +421,7 @@ exports.handler = async (event, context) => {
   } catch (error) {
     console.error('Error in photo migration:', error);
     return {
-      statusCode: error.message.includes('authentication') ? 401 : 500,
+      statusCode: error instanceof AdminAuthError ? error.statusCode : 500,
       body: JSON.stringify({
         error: 'Failed to run photo migration',
         message: error.message
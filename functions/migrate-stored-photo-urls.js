@@ -8,11 +8,11 @@
  */
 
 const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
 
 exports.handler = async function(event, context) {
   // Log request info for debugging
   console.log("Function invoked with method:", event.httpMethod);
-  console.log("Headers:", JSON.stringify(event.headers));
   
   // Only allow POST requests
   if (event.httpMethod !== 'POST') {
@@ -23,22 +23,11 @@ exports.handler = async function(event, context) {
   }
   
   try {
-    // Verify admin authentication from request headers
-    const authHeader = event.headers.authorization || '';
-    const token = authHeader.split('Bearer ')[1];
-    
-    // TESTING ONLY: Hardcoded token fallback (REMOVE THIS FOR PRODUCTION)
-    const ADMIN_TOKEN = process.env.ADMIN_TOKEN || 'PaMe-PaMe-2025-jU7v6Sx';
-    
-    if (!token || token !== ADMIN_TOKEN) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({
-          error: 'Unauthorized. Admin authentication required.',
-          receivedToken: token ? token.substring(0, 3) + '...' : 'none',
-          tokenMatch: token === ADMIN_TOKEN
-        })
-      };
+    // One-off migration - owners only
+    try {
+      await verifyAdminRequest(event, 'owner');
+    } catch (authError) {
+      return authErrorResponse(authError);
     }
     
     console.log('Starting migration of storedPhotoUrls for locations...');
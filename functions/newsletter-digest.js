@@ -0,0 +1,391 @@
+// functions/newsletter-digest.js
+// Builds the personalised newsletter digest for one subscriber: new and featured locations
+// for their children's ages and their interests (nearest first when we know their postal
+// code), recent blog posts and upcoming camps.
+//  POST /api/newsletter-digest/preview    { subscriberId }       - render a subscriber's digest (moderators)
+//  POST /api/newsletter-digest/test-send  { subscriberId, to? }  - email it to an admin (moderators)
+// Previews and test sends link to the preferences page without a token, so whoever gets a
+// test can't manage or unsubscribe the real subscriber.
+const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
+const { SITE_URL, renderEmail } = require('./email-templates');
+const { createTransport, sendEmail } = require('./email-transport');
+const { createToken } = require('./newsletter-tokens');
+const { getPostalCodeCentroid } = require('./postal-code-centroids');
+
+const NEW_LOCATION_DAYS = 30;
+const RECENT_POST_DAYS = 30;
+const CAMP_LOOKAHEAD_DAYS = 60;
+const MAX_LOCATIONS = 6;
+const MAX_POSTS = 3;
+const MAX_CAMPS = 5;
+const MAX_DESCRIPTION_LENGTH = 160;
+
+// Activity types that make an event a camp - keep in sync with ACTIVITY_CATEGORIES in src/utils/metadata.ts
+const CAMP_TYPES = ['camp', 'summer-camp', 'easter-camp', 'day-camp'];
+// Oldest age the "13+ years" range covers, matching the location age limit
+const MAX_AGE = 18;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Turn a newsletter age range into years
+ * @param {string} range - e.g. "3-5 years" or "13+ years"
+ * @returns {{min: number, max: number}|null}
+ */
+function parseAgeRange(range) {
+  const match = /^(\d+)\s*(?:-\s*(\d+)|(\+))/.exec(String(range || ''));
+  if (!match) return null;
+  return { min: Number(match[1]), max: match[3] ? MAX_AGE : Number(match[2]) };
+}
+
+// A place or event suits the subscriber when its ages overlap any of their children's ranges.
+// Subscribers without age ranges see everything.
+const matchesAgeRanges = (ageRange, subscriberRanges) => {
+  const ranges = (subscriberRanges || []).map(parseAgeRange).filter(Boolean);
+  if (ranges.length === 0 || !ageRange) return true;
+  return ranges.some(range => ageRange.min <= range.max && ageRange.max >= range.min);
+};
+
+// No interests ticked means "all kinds of activities"
+const matchesInterests = (types, interests) =>
+  !interests || interests.length === 0 || (types || []).some(type => interests.includes(type));
+
+// Haversine distance - same as getDistanceKm in src/utils/geo.ts
+const getDistanceKm = (from, to) => {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const formatDistance = (distanceKm) =>
+  distanceKm < 10 ? `${distanceKm.toFixed(1)} km` : `${Math.round(distanceKm)} km`;
+
+// Firestore Timestamps, { seconds } objects and ISO strings all show up in created_at
+const toMillis = (value) => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  const seconds = value.seconds ?? value._seconds;
+  return typeof seconds === 'number' ? seconds * 1000 : null;
+};
+
+// YYYY-MM-DD in Athens, like the event dates
+const getAthensDateKey = (date) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/Athens' }).format(date);
+
+const shiftDateKey = (dateKey, days) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+const formatDateKey = (dateKey) => {
+  const [, month, day] = dateKey.split('-').map(Number);
+  return `${day} ${SHORT_MONTHS[month - 1]}`;
+};
+
+const truncate = (text, length) => {
+  const value = String(text || '').trim();
+  return value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+};
+
+/**
+ * Pick the content for one subscriber's digest
+ * @param {object} subscriber - newsletter-subscribers document
+ * @param {object} sources - { locations, blogPosts, events } with their document IDs as id
+ * @param {Date} [now]
+ * @returns {{origin: object|null, locations: object[], blogPosts: object[], camps: object[]}}
+ */
+function buildDigest(subscriber, { locations = [], blogPosts = [], events = [] }, now = new Date()) {
+  const origin = getPostalCodeCentroid(subscriber.postalCode);
+  const newSince = now.getTime() - NEW_LOCATION_DAYS * DAY_MS;
+
+  const digestLocations = locations
+    .map(location => {
+      const createdAt = toMillis(location.created_at);
+      return {
+        location,
+        isNew: createdAt !== null && createdAt >= newSince,
+        isFeatured: location.featured === true,
+        distanceKm: origin && location.coordinates ? getDistanceKm(origin, location.coordinates) : null
+      };
+    })
+    .filter(entry => (entry.isNew || entry.isFeatured) &&
+      matchesAgeRanges(entry.location.ageRange, subscriber.ageRanges) &&
+      matchesInterests(entry.location.types, subscriber.interests))
+    // Nearest first; without a postal code, new places first, then the featured order
+    .sort((a, b) => {
+      if (a.distanceKm !== null && b.distanceKm !== null) return a.distanceKm - b.distanceKm;
+      if (a.isNew !== b.isNew) return a.isNew ? -1 : 1;
+      return (a.location.featuredPosition ?? MAX_LOCATIONS) - (b.location.featuredPosition ?? MAX_LOCATIONS);
+    })
+    .slice(0, MAX_LOCATIONS)
+    .map(({ location, isNew, isFeatured, distanceKm }) => ({
+      id: location.id,
+      name: location.name,
+      address: location.address || '',
+      description: truncate(location.description, MAX_DESCRIPTION_LENGTH),
+      ageRange: location.ageRange || null,
+      isNew,
+      isFeatured,
+      distanceKm
+    }));
+
+  const postsSince = now.getTime() - RECENT_POST_DAYS * DAY_MS;
+  const digestPosts = blogPosts
+    .filter(post => {
+      const publishedAt = toMillis(post.publishDate);
+      return publishedAt !== null && publishedAt >= postsSince && publishedAt <= now.getTime();
+    })
+    .sort((a, b) => toMillis(b.publishDate) - toMillis(a.publishDate))
+    .slice(0, MAX_POSTS)
+    .map(post => ({
+      id: post.id,
+      slug: post.slug,
+      title: post.title,
+      summary: truncate(post.summary, MAX_DESCRIPTION_LENGTH)
+    }));
+
+  const today = getAthensDateKey(now);
+  const lookahead = shiftDateKey(today, CAMP_LOOKAHEAD_DAYS);
+  const locationsById = new Map(locations.map(location => [location.id, location]));
+  const digestCamps = events
+    .map(event => ({ event, venue: locationsById.get(event.locationId) }))
+    .filter(({ event, venue }) => {
+      // Events without types take their venue's, as on the map
+      const types = event.types && event.types.length > 0 ? event.types : (venue?.types || []);
+      return types.some(type => CAMP_TYPES.includes(type)) &&
+        event.endDate >= today && event.startDate <= lookahead &&
+        matchesAgeRanges(event.ageRange, subscriber.ageRanges);
+    })
+    .sort((a, b) => a.event.startDate.localeCompare(b.event.startDate) || a.event.title.localeCompare(b.event.title))
+    .slice(0, MAX_CAMPS)
+    .map(({ event, venue }) => ({
+      id: event.id,
+      title: event.title,
+      locationId: event.locationId,
+      venue: venue?.name || '',
+      startDate: event.startDate,
+      endDate: event.endDate,
+      price: event.price || '',
+      bookingUrl: event.bookingUrl || ''
+    }));
+
+  return { origin, locations: digestLocations, blogPosts: digestPosts, camps: digestCamps };
+}
+
+/**
+ * Links that let a subscriber manage their subscription from a digest
+ * @param {string} subscriberId
+ */
+function getSubscriptionLinks(subscriberId) {
+  const token = encodeURIComponent(createToken(subscriberId, 'manage'));
+  return {
+    manageUrl: `${SITE_URL}/newsletter/preferences?token=${token}`,
+    unsubscribeUrl: `${SITE_URL}/api/newsletter/unsubscribe?token=${token}`
+  };
+}
+
+// Stand-ins for the subscription links in previews and test sends, which go to admins
+const SAMPLE_SUBSCRIPTION_LINKS = {
+  manageUrl: `${SITE_URL}/newsletter/preferences`,
+  unsubscribeUrl: `${SITE_URL}/newsletter/preferences`
+};
+
+/**
+ * Headers that give mail clients an unsubscribe button (RFC 2369 and RFC 8058 one-click)
+ * @param {string} unsubscribeUrl - Accepts POST for one-click unsubscribe
+ */
+function getListUnsubscribeHeaders(unsubscribeUrl) {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  };
+}
+
+/**
+ * Turn a digest into the data of the newsletter-digest email template
+ * @param {object} subscriber
+ * @param {string} subscriberId
+ * @param {object} digest - From buildDigest
+ * @param {Date} [now]
+ * @param {object} [options]
+ * @param {boolean} [options.sample] - For previews and test sends: no subscriber token in the links
+ */
+function toDigestEmailData(subscriber, subscriberId, digest, now = new Date(), { sample = false } = {}) {
+  const mapUrl = (locationId) => `${SITE_URL}/map?locationId=${encodeURIComponent(locationId)}`;
+
+  return {
+    firstName: subscriber.firstName || '',
+    period: new Intl.DateTimeFormat('en-GB', { month: 'long', year: 'numeric', timeZone: 'Europe/Athens' }).format(now),
+    area: digest.origin ? digest.origin.area : '',
+    locations: digest.locations.map(location => ({
+      name: location.name,
+      url: mapUrl(location.id),
+      address: location.address,
+      description: location.description,
+      label: [
+        location.isNew ? 'New' : '',
+        location.ageRange ? `Ages ${location.ageRange.min}-${location.ageRange.max}` : '',
+        location.distanceKm !== null ? formatDistance(location.distanceKm) : ''
+      ].filter(Boolean).join(' · ')
+    })),
+    blogPosts: digest.blogPosts.map(post => ({
+      title: post.title,
+      summary: post.summary,
+      url: `${SITE_URL}/blog/${encodeURIComponent(post.slug)}`
+    })),
+    camps: digest.camps.map(camp => ({
+      title: camp.title,
+      venue: camp.venue,
+      dates: camp.startDate === camp.endDate
+        ? formatDateKey(camp.startDate)
+        : `${formatDateKey(camp.startDate)} – ${formatDateKey(camp.endDate)}`,
+      price: camp.price,
+      url: camp.bookingUrl || mapUrl(camp.locationId)
+    })),
+    ...(sample ? SAMPLE_SUBSCRIPTION_LINKS : getSubscriptionLinks(subscriberId))
+  };
+}
+
+exports.parseAgeRange = parseAgeRange;
+exports.buildDigest = buildDigest;
+exports.toDigestEmailData = toDigestEmailData;
+exports.getListUnsubscribeHeaders = getListUnsubscribeHeaders;
+
+// Read the sub-route from /api/newsletter-digest/:action
+const getAction = (path = '') => {
+  const match = /\/newsletter-digest\/([^/]+)\/?$/.exec(path);
+  return match ? match[1] : '';
+};
+
+exports.handler = async (event, context) => {
+  console.log('Newsletter digest function invoked with method:', event.httpMethod);
+
+  try {
+    const action = getAction(event.path);
+    if (event.httpMethod !== 'POST' || !['preview', 'test-send'].includes(action)) {
+      return {
+        statusCode: action ? 405 : 404,
+        body: JSON.stringify({ error: action ? 'Method not allowed' : 'Not found' })
+      };
+    }
+
+    let caller;
+    try {
+      caller = await verifyAdminRequest(event, 'moderator');
+    } catch (authError) {
+      return authErrorResponse(authError);
+    }
+
+    let data;
+    try {
+      data = JSON.parse(event.body || '{}');
+    } catch (parseError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Request body must be valid JSON' })
+      };
+    }
+
+    if (typeof data.subscriberId !== 'string' || !data.subscriberId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'subscriberId is required' })
+      };
+    }
+
+    const to = action === 'test-send' ? (data.to || caller.email || '').trim() : '';
+    if (action === 'test-send' && !EMAIL_PATTERN.test(to)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Please enter a valid email address to send the test to' })
+      };
+    }
+
+    const rendered = await renderDigestForSubscriber(getFirestore(), data.subscriberId);
+    if (!rendered) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ error: 'Subscriber not found' })
+      };
+    }
+
+    if (action === 'preview') {
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, preview: rendered.preview })
+      };
+    }
+
+    // Test sends go straight out rather than through the queue, so the admin sees failures.
+    // No List-Unsubscribe headers - the test isn't sent to the subscriber
+    await sendEmail(createTransport(), {
+      to,
+      ...rendered.email,
+      subject: `[Test] ${rendered.email.subject}`
+    });
+    console.log(`Test digest for subscriber ${data.subscriberId} sent to ${to} by ${caller.email || caller.uid}`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, message: `Test digest sent to ${to}` })
+    };
+  } catch (error) {
+    console.error('Error in newsletter digest function:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Failed to build the digest',
+        message: error.message,
+        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      })
+    };
+  }
+};
+
+// Load everything a digest draws from and render it for one subscriber, with sample
+// subscription links - only admins see it
+async function renderDigestForSubscriber(db, subscriberId) {
+  const subscriberSnapshot = await db.collection('newsletter-subscribers').doc(subscriberId).get();
+  if (!subscriberSnapshot.exists) return null;
+  const subscriber = subscriberSnapshot.data();
+
+  const [locationsSnapshot, postsSnapshot, eventsSnapshot] = await Promise.all([
+    db.collection('locations').get(),
+    db.collection('blog-posts').get(),
+    db.collection('events').get()
+  ]);
+  const withIds = (snapshot) => snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+  const digest = buildDigest(subscriber, {
+    locations: withIds(locationsSnapshot),
+    blogPosts: withIds(postsSnapshot),
+    events: withIds(eventsSnapshot)
+  });
+  const data = toDigestEmailData(subscriber, subscriberId, digest, new Date(), { sample: true });
+  const email = renderEmail('newsletter-digest', data);
+
+  return {
+    email,
+    preview: {
+      email: subscriber.email,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      counts: {
+        locations: digest.locations.length,
+        blogPosts: digest.blogPosts.length,
+        camps: digest.camps.length
+      },
+      area: data.area
+    }
+  };
+}
@@ -0,0 +1,76 @@
+// functions/newsletter-tokens.js
+// Signed links for newsletter emails. A token is "<payload>.<signature>" in base64url,
+// where the payload names the subscriber and what the link is for, and the signature
+// is an HMAC-SHA256 with NEWSLETTER_TOKEN_SECRET - so links can't be guessed or edited.
+const crypto = require('crypto');
+
+// confirm: double opt-in link, expires. manage: unsubscribe and preferences, never expires
+// so the unsubscribe link in an old email keeps working.
+const TOKEN_PURPOSES = ['confirm', 'manage'];
+const CONFIRM_TOKEN_DAYS = 7;
+
+const getSecret = () => {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_TOKEN_SECRET is not set');
+  }
+  return secret;
+};
+
+const sign = (payload) => crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+/**
+ * Create a signed token for a subscriber
+ * @param {string} subscriberId - newsletter-subscribers document ID
+ * @param {string} purpose - One of TOKEN_PURPOSES
+ * @param {number} [now] - Current time in ms, for tests
+ * @returns {string}
+ */
+function createToken(subscriberId, purpose, now = Date.now()) {
+  if (!TOKEN_PURPOSES.includes(purpose)) {
+    throw new Error(`Unknown token purpose "${purpose}"`);
+  }
+
+  const claims = { sub: subscriberId, purpose };
+  if (purpose === 'confirm') {
+    claims.exp = now + CONFIRM_TOKEN_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a token's signature, purpose and expiry
+ * @param {string} token
+ * @param {string} purpose - The purpose the caller needs
+ * @param {number} [now] - Current time in ms, for tests
+ * @returns {string|null} The subscriber ID, or null if the token is not valid
+ */
+function verifyToken(token, purpose, now = Date.now()) {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (claims.purpose !== purpose || typeof claims.sub !== 'string' || !claims.sub) return null;
+    if (claims.exp !== undefined && claims.exp < now) return null;
+    return claims.sub;
+  } catch (parseError) {
+    return null;
+  }
+}
+
+module.exports = {
+  CONFIRM_TOKEN_DAYS,
+  createToken,
+  verifyToken
+};
@@ -1,24 +1,265 @@
 // functions/newsletter.js
+// Newsletter sign-up with double opt-in. Subscribers start as "pending" and get an email
+// with a signed confirmation link; confirmed subscribers manage their subscription
+// through a signed "manage" link (see newsletter-tokens.js).
+//  POST /api/newsletter                     - sign up, sends the confirmation email
+//  GET  /api/newsletter                     - list subscribers (moderators)
+//  GET  /api/newsletter/confirm?token=      - confirm, then redirect to the preferences page
+//  GET  /api/newsletter/unsubscribe?token=  - redirect to the preferences page to confirm
+//  POST /api/newsletter/unsubscribe?token=  - one-click unsubscribe (List-Unsubscribe-Post)
+//  GET  /api/newsletter/preferences?token=  - read a subscriber's preferences
+//  PUT  /api/newsletter/preferences?token=  - change them, or unsubscribe / resubscribe
+//  POST /api/newsletter/import              - import subscribers from another tool (moderators)
 const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
+const { ACTIVITY_TYPES } = require('./location-validation');
+const { createToken, verifyToken } = require('./newsletter-tokens');
+const { SITE_URL } = require('./email-templates');
+const { queueEmail } = require('./email-queue');
+const { createTransport } = require('./email-transport');
+
+// Keep in sync with NEWSLETTER_AGE_RANGES in src/utils/newsletter.ts
+const NEWSLETTER_AGE_RANGES = ['0-2 years', '3-5 years', '6-8 years', '9-12 years', '13+ years'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TEXT_LENGTH = 100;
+const MAX_IMPORT_ROWS = 2000;
+// Firestore "in" queries take at most 30 values
+const EMAIL_LOOKUP_CHUNK = 30;
+
+const PREFERENCES_PAGE = '/newsletter/preferences';
+
+// Subscribers from before double opt-in have no status - they signed up under the old form
+const getStatus = (subscriber) => subscriber.status || 'confirmed';
+
+// Read the sub-route from /api/newsletter/:action
+const getAction = (path = '') => {
+  const match = /\/newsletter\/([^/]+)\/?$/.exec(path);
+  return match ? match[1] : '';
+};
+
+const redirect = (location) => ({
+  statusCode: 302,
+  headers: { Location: location, 'Cache-Control': 'no-store' },
+  body: ''
+});
+
+const invalidLinkResponse = () => ({
+  statusCode: 400,
+  body: JSON.stringify({ error: 'This link is not valid. Please use the link from your latest email.' })
+});
+
+/**
+ * Check the preference fields of a sign-up or preferences update
+ * @param {object} data - Request body
+ * @param {object} options
+ * @param {boolean} options.partial - Preferences update: only check the fields that were sent
+ * @returns {{value: object, fieldErrors: Record<string, string>}}
+ */
+function validatePreferences(data, { partial = false } = {}) {
+  const value = {};
+  const fieldErrors = {};
+  const has = (field) => !partial || data[field] !== undefined;
+
+  if (has('ageRanges')) {
+    if (!Array.isArray(data.ageRanges) || data.ageRanges.length === 0) {
+      fieldErrors.ageRanges = 'Please select at least one age range';
+    } else if (data.ageRanges.some(range => !NEWSLETTER_AGE_RANGES.includes(range))) {
+      fieldErrors.ageRanges = 'Unknown age range';
+    } else {
+      value.ageRanges = [...new Set(data.ageRanges)];
+    }
+  }
+
+  if (data.interests !== undefined) {
+    if (!Array.isArray(data.interests) || data.interests.some(interest => !ACTIVITY_TYPES.includes(interest))) {
+      fieldErrors.interests = 'Unknown interest';
+    } else {
+      value.interests = [...new Set(data.interests)];
+    }
+  } else if (!partial) {
+    value.interests = [];
+  }
+
+  ['firstName', 'postalCode'].forEach(field => {
+    if (data[field] === undefined) {
+      if (!partial) value[field] = '';
+      return;
+    }
+    if (typeof data[field] !== 'string' || data[field].length > MAX_TEXT_LENGTH) {
+      fieldErrors[field] = `${field} must be text of at most ${MAX_TEXT_LENGTH} characters`;
+    } else {
+      value[field] = data[field].trim();
+    }
+  });
+
+  return { value, fieldErrors };
+}
+
+/**
+ * Find the subscribers that already use any of these email addresses
+ * Addresses are stored lowercased, but sign-ups from before that were stored as typed -
+ * so each address is also looked up as given until scripts/lowercase-subscriber-emails.js
+ * has been run.
+ * @param {FirebaseFirestore.CollectionReference} subscribersRef
+ * @param {string[]} emails - Trimmed addresses, as typed
+ * @returns {Promise<Map<string, FirebaseFirestore.QueryDocumentSnapshot>>} Keyed by lowercased email
+ */
+async function findSubscribersByEmail(subscribersRef, emails) {
+  const unique = [...new Set(emails.flatMap(email => [email.toLowerCase(), email]))];
+  const chunks = [];
+  for (let i = 0; i < unique.length; i += EMAIL_LOOKUP_CHUNK) {
+    chunks.push(unique.slice(i, i + EMAIL_LOOKUP_CHUNK));
+  }
+
+  const snapshots = await Promise.all(chunks.map(chunk => subscribersRef.where('email', 'in', chunk).get()));
+  const found = new Map();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(doc => {
+    const email = doc.data().email.toLowerCase();
+    // An address stored both ways keeps the lowercased subscriber
+    if (!found.has(email) || doc.data().email === email) found.set(email, doc);
+  }));
+  return found;
+}
+
+/**
+ * Work out which subscribers need their stored email lowercased
+ * Used by scripts/lowercase-subscriber-emails.js for subscribers who signed up before
+ * addresses were lowercased.
+ * @param {Array<{id: string, email: string}>} subscribers - Every subscriber
+ * @returns {{updates: Array<{id: string, email: string}>, conflicts: string[][]}} The addresses to
+ *   lowercase, and the IDs of subscribers that would end up with the same address - those
+ *   are left for someone to merge by hand
+ */
+function planEmailLowercasing(subscribers) {
+  const byEmail = new Map();
+  subscribers.forEach(subscriber => {
+    const email = String(subscriber.email || '').trim().toLowerCase();
+    byEmail.set(email, [...(byEmail.get(email) || []), subscriber]);
+  });
+
+  const updates = [];
+  const conflicts = [];
+  byEmail.forEach((group, email) => {
+    if (group.length > 1) {
+      conflicts.push(group.map(subscriber => subscriber.id));
+    } else if (group[0].email !== email) {
+      updates.push({ id: group[0].id, email });
+    }
+  });
+  return { updates, conflicts };
+}
+
+// Why an address that is already on the list can't be added again
+const DUPLICATE_MESSAGES = {
+  confirmed: 'Already subscribed',
+  pending: 'Already signed up - waiting for them to confirm',
+  unsubscribed: 'Unsubscribed - not added again'
+};
+
+/**
+ * Check imported subscribers and sort them into new, duplicate and invalid rows
+ * @param {object[]} rows - { email, firstName?, ageRanges?, interests?, postalCode? }
+ * @param {Map<string, object>} existing - Subscriber data already stored, keyed by email
+ * @returns {{results: object[], toAdd: object[]}} A result per row, in order, and the subscribers to add
+ */
+function checkImportRows(rows, existing) {
+  const seen = new Map();
+  const toAdd = [];
+
+  const results = rows.map((row, index) => {
+    const email = typeof row.email === 'string' ? row.email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email)) {
+      return { index, email, outcome: 'invalid', message: 'Not a valid email address' };
+    }
+
+    // Other tools rarely know the children's ages, so imports may leave them empty
+    const { value, fieldErrors } = validatePreferences(row, { partial: true });
+    if (Object.keys(fieldErrors).length > 0) {
+      return { index, email, outcome: 'invalid', message: Object.values(fieldErrors).join('; '), fieldErrors };
+    }
+
+    if (seen.has(email)) {
+      return { index, email, outcome: 'duplicate', message: `Same email as row ${seen.get(email) + 1} of the import` };
+    }
+    seen.set(email, index);
+
+    if (existing.has(email)) {
+      return { index, email, outcome: 'duplicate', message: DUPLICATE_MESSAGES[getStatus(existing.get(email))] };
+    }
+
+    toAdd.push({ email, firstName: '', ageRanges: [], interests: [], postalCode: '', ...value });
+    return { index, email, outcome: 'new' };
+  });
+
+  return { results, toAdd };
+}
+
+/**
+ * Subscribers already stored with any of the addresses being imported
+ * @param {FirebaseFirestore.CollectionReference} subscribersRef
+ * @param {object[]} rows - The rows of the import
+ * @returns {Promise<Map<string, object>>} Subscriber data keyed by lowercased email, for checkImportRows
+ */
+async function findImportedSubscribers(subscribersRef, rows) {
+  // Addresses as typed in the import too, to find subscribers stored before emails were lowercased
+  const emails = rows
+    .map(row => (typeof row.email === 'string' ? row.email.trim() : ''))
+    .filter(email => EMAIL_PATTERN.test(email));
+  const found = await findSubscribersByEmail(subscribersRef, emails);
+  return new Map([...found].map(([email, doc]) => [email, doc.data()]));
+}
+
+exports.validatePreferences = validatePreferences;
+exports.checkImportRows = checkImportRows;
+exports.findSubscribersByEmail = findSubscribersByEmail;
+exports.findImportedSubscribers = findImportedSubscribers;
+exports.planEmailLowercasing = planEmailLowercasing;
 
 exports.handler = async (event, context) => {
   console.log('Newsletter function invoked with method:', event.httpMethod);
   
   try {
-    // Handle different HTTP methods
+    const action = getAction(event.path);
+    const token = event.queryStringParameters?.token;
+
+    if (action === 'confirm' && event.httpMethod === 'GET') {
+      return await handleConfirm(token);
+    } else if (action === 'unsubscribe' && event.httpMethod === 'GET') {
+      // Links in emails only open the page - mail scanners follow links, so a GET never unsubscribes
+      return redirect(`${PREFERENCES_PAGE}?token=${encodeURIComponent(token || '')}&action=unsubscribe`);
+    } else if (action === 'unsubscribe' && event.httpMethod === 'POST') {
+      return await handleUnsubscribe(token);
+    } else if (action === 'preferences' && event.httpMethod === 'GET') {
+      return await handleGetPreferences(token);
+    } else if (action === 'preferences' && event.httpMethod === 'PUT') {
+      return await handleUpdatePreferences(token, event);
+    } else if (action === 'import' && event.httpMethod === 'POST') {
+      let caller;
+      try {
+        caller = await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
+      }
+
+      return await handleImport(event, caller);
+    } else if (action) {
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ error: 'Method not allowed' })
+      };
+    }
+
     if (event.httpMethod === 'POST') {
       return await handleSubscription(event);
     } else if (event.httpMethod === 'GET') {
-      // Check if this is an admin request with token
-      const params = new URLSearchParams(event.queryStringParameters || {});
-      if (params.get('adminToken') === process.env.ADMIN_TOKEN) {
-        return await handleGetAllSubscriptions();
+      // Listing is admin only - check the caller's Firebase ID token
+      try {
+        await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
       }
       
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized' })
-      };
+      return await handleGetAllSubscriptions();
     }
     
     return {
@@ -38,50 +279,82 @@ exports.handler = async (event, context) => {
   }
 };
 
-// Handle new subscription
+// Handle new subscription - stored as pending until the email link is opened
 async function handleSubscription(event) {
   try {
     // Parse request body
     const data = JSON.parse(event.body);
+    const typedEmail = typeof data.email === 'string' ? data.email.trim() : '';
+    const email = typedEmail.toLowerCase();
     
     // Validate required fields
-    if (!data.email || !data.ageRanges || data.ageRanges.length === 0) {
+    if (!email || !data.ageRanges || data.ageRanges.length === 0) {
       return {
         statusCode: 400,
         body: JSON.stringify({ error: 'Email and age ranges are required' })
       };
     }
-    
-    // Initialize Firestore with error handling
-    const db = getFirestore();
-    const subscribersRef = db.collection('newsletter-subscribers');
-    
-    // Check for duplicate email
-    const snapshot = await subscribersRef.where('email', '==', data.email).get();
-    if (!snapshot.empty) {
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: 'Please enter a valid email address' })
+      };
+    }
+
+    const { value, fieldErrors } = validatePreferences(data);
+    if (Object.keys(fieldErrors).length > 0) {
       return {
         statusCode: 400,
-        body: JSON.stringify({ error: 'Email already subscribed' })
+        body: JSON.stringify({ error: 'Please check your preferences', fieldErrors })
       };
     }
     
-    // Add new subscriber
-    const newSubscriber = {
-      email: data.email,
-      firstName: data.firstName || '',
-      ageRanges: data.ageRanges,
-      postalCode: data.postalCode || '',
-      subscribedAt: new Date().toISOString()
-    };
+    // Initialize Firestore with error handling
+    const db = getFirestore();
+    const subscribersRef = db.collection('newsletter-subscribers');
+    const now = new Date().toISOString();
     
-    const docRef = await subscribersRef.add(newSubscriber);
+    // Check for duplicate email - pending and unsubscribed addresses can sign up again
+    const existing = (await findSubscribersByEmail(subscribersRef, [typedEmail])).get(email);
+    let subscriberId;
+    if (existing) {
+      if (getStatus(existing.data()) === 'confirmed') {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ error: 'Email already subscribed' })
+        };
+      }
+
+      subscriberId = existing.id;
+      await existing.ref.update({ email, ...value, status: 'pending', confirmationSentAt: now });
+    } else {
+      // Add new subscriber
+      const docRef = await subscribersRef.add({
+        email,
+        ...value,
+        status: 'pending',
+        subscribedAt: now,
+        confirmationSentAt: now
+      });
+      subscriberId = docRef.id;
+    }
+
+    await queueEmail(db, {
+      to: email,
+      template: 'newsletter-confirm',
+      data: {
+        firstName: value.firstName,
+        confirmUrl: `${SITE_URL}/api/newsletter/confirm?token=${createToken(subscriberId, 'confirm')}`
+      }
+    }, createTransport());
     
     return {
       statusCode: 201,
       body: JSON.stringify({
         success: true,
-        message: 'Successfully subscribed to newsletter',
-        id: docRef.id
+        message: 'Please check your inbox and confirm your subscription',
+        id: subscriberId
       })
     };
   } catch (error) {
@@ -160,4 +433,194 @@ async function handleGetAllSubscriptions() {
       })
     };
   }
-}
\ No newline at end of file
+}
+// Double opt-in: mark the subscriber confirmed and open their preferences page
+async function handleConfirm(token) {
+  const subscriberId = verifyToken(token, 'confirm');
+  if (!subscriberId) {
+    return redirect(`${PREFERENCES_PAGE}?error=invalid-link`);
+  }
+
+  const docRef = getFirestore().collection('newsletter-subscribers').doc(subscriberId);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    return redirect(`${PREFERENCES_PAGE}?error=invalid-link`);
+  }
+
+  // An old confirmation link must not undo an unsubscribe
+  if (getStatus(snapshot.data()) === 'pending') {
+    await docRef.update({ status: 'confirmed', confirmedAt: new Date().toISOString() });
+    console.log(`Newsletter subscriber ${subscriberId} confirmed`);
+  }
+
+  return redirect(`${PREFERENCES_PAGE}?token=${encodeURIComponent(createToken(subscriberId, 'manage'))}&confirmed=1`);
+}
+
+// Load the subscriber a manage token belongs to
+async function getSubscriberForToken(token) {
+  const subscriberId = verifyToken(token, 'manage');
+  if (!subscriberId) return null;
+
+  const docRef = getFirestore().collection('newsletter-subscribers').doc(subscriberId);
+  const snapshot = await docRef.get();
+  return snapshot.exists ? { docRef, subscriber: snapshot.data() } : null;
+}
+
+const toPreferences = (subscriber) => ({
+  email: subscriber.email,
+  firstName: subscriber.firstName || '',
+  ageRanges: subscriber.ageRanges || [],
+  interests: subscriber.interests || [],
+  postalCode: subscriber.postalCode || '',
+  status: getStatus(subscriber)
+});
+
+// One-click unsubscribe from a mail client or the preferences page
+async function handleUnsubscribe(token) {
+  const found = await getSubscriberForToken(token);
+  if (!found) {
+    return invalidLinkResponse();
+  }
+
+  if (getStatus(found.subscriber) !== 'unsubscribed') {
+    await found.docRef.update({ status: 'unsubscribed', unsubscribedAt: new Date().toISOString() });
+    console.log(`Newsletter subscriber ${found.docRef.id} unsubscribed`);
+  }
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ success: true, message: 'You have been unsubscribed' })
+  };
+}
+
+async function handleGetPreferences(token) {
+  const found = await getSubscriberForToken(token);
+  if (!found) {
+    return invalidLinkResponse();
+  }
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ success: true, preferences: toPreferences(found.subscriber) })
+  };
+}
+
+// PUT { ageRanges?, interests?, firstName?, postalCode?, subscribed? }
+async function handleUpdatePreferences(token, event) {
+  const found = await getSubscriberForToken(token);
+  if (!found) {
+    return invalidLinkResponse();
+  }
+
+  let data;
+  try {
+    data = JSON.parse(event.body || '{}');
+  } catch (parseError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Request body must be valid JSON' })
+    };
+  }
+
+  const { value, fieldErrors } = validatePreferences(data, { partial: true });
+  if (data.subscribed !== undefined && typeof data.subscribed !== 'boolean') {
+    fieldErrors.subscribed = 'subscribed must be true or false';
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Please check your preferences', fieldErrors })
+    };
+  }
+
+  const now = new Date().toISOString();
+  const updates = { ...value, preferencesUpdatedAt: now };
+  const status = getStatus(found.subscriber);
+  // The manage link was emailed to them, so it is proof enough to resubscribe
+  if (data.subscribed === true && status !== 'confirmed') {
+    updates.status = 'confirmed';
+    updates.confirmedAt = now;
+  } else if (data.subscribed === false && status !== 'unsubscribed') {
+    updates.status = 'unsubscribed';
+    updates.unsubscribedAt = now;
+  }
+
+  await found.docRef.update(updates);
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ success: true, preferences: toPreferences({ ...found.subscriber, ...updates }) })
+  };
+}
+
+// POST { subscribers: [...], dryRun } - with dryRun nothing is written, so the admin can
+// check the report of duplicates and invalid rows before importing for real
+async function handleImport(event, caller) {
+  let data;
+  try {
+    data = JSON.parse(event.body || '{}');
+  } catch (parseError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Request body must be valid JSON' })
+    };
+  }
+
+  const rows = data.subscribers;
+  if (!Array.isArray(rows) || rows.length === 0 || rows.some(row => !row || typeof row !== 'object')) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'subscribers must be a list of subscribers' })
+    };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: `Please import at most ${MAX_IMPORT_ROWS} subscribers at a time` })
+    };
+  }
+
+  const db = getFirestore();
+  const subscribersRef = db.collection('newsletter-subscribers');
+  const existing = await findImportedSubscribers(subscribersRef, rows);
+
+  const { results, toAdd } = checkImportRows(rows, existing);
+  const dryRun = data.dryRun !== false;
+
+  if (!dryRun && toAdd.length > 0) {
+    // They already opted in with the tool we are importing from, so they start confirmed
+    const now = new Date().toISOString();
+    for (let i = 0; i < toAdd.length; i += 500) {
+      const batch = db.batch();
+      toAdd.slice(i, i + 500).forEach(subscriber => {
+        batch.set(subscribersRef.doc(), {
+          ...subscriber,
+          status: 'confirmed',
+          subscribedAt: now,
+          confirmedAt: now,
+          source: 'import',
+          importedBy: caller.email || caller.uid
+        });
+      });
+      await batch.commit();
+    }
+    console.log(`Imported ${toAdd.length} newsletter subscribers (by ${caller.email || caller.uid})`);
+  }
+
+  const count = (outcome) => results.filter(result => result.outcome === outcome).length;
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: true,
+      dryRun,
+      results,
+      summary: {
+        total: results.length,
+        new: count('new'),
+        duplicate: count('duplicate'),
+        invalid: count('invalid'),
+        imported: dryRun ? 0 : toAdd.length
+      }
+    })
+  };
+}
@@ -0,0 +1,95 @@
+// functions/place-slugs.js
+// Slugs for the /places/:slug pages. The locations function picks a slug when a location
+// is added and stores it on the document, where the app, the sitemap and the prerendered
+// pages read it. It never changes after that - not on a rename, and not when another place
+// with the same name is added or deleted - so shared links keep working.
+
+// Greek letters to Latin, letter by letter apart from "ου"
+const GREEK_TO_LATIN = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+  'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+  'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o'
+};
+
+const slugify = (text) => String(text || '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/\u03bf\u03c5/g, 'ou')
+  .replace(/[\u03b1-\u03c9]/g, letter => GREEK_TO_LATIN[letter] || '')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+// The end of the place ID, to tell apart places with the same name
+const getIdSuffix = (id) => id.replace(/[^a-zA-Z0-9]/g, '').slice(-6).toLowerCase();
+
+// Slug from the name alone, before checking whether another location has it
+const getBaseSlug = (name) => slugify(name) || 'place';
+
+/**
+ * Pick the slug to store on a location - its name, with the end of the place ID added
+ * when another location already has that slug
+ * @param {FirebaseFirestore.Firestore} db
+ * @param {string} id - the location's place ID
+ * @param {string} name - the location's name
+ * @param {string} [current] - a slug the location had before, kept when it's still free
+ * @returns {Promise<string>}
+ */
+async function pickPlaceSlug(db, id, name, current) {
+  const isFree = async (slug) => {
+    const snapshot = await db.collection('locations').where('slug', '==', slug).get();
+    return snapshot.docs.every(doc => doc.id === id);
+  };
+
+  if (current && await isFree(current)) return current;
+
+  const slug = getBaseSlug(name);
+  return (await isFree(slug)) ? slug : `${slug}-${getIdSuffix(id)}`;
+}
+
+// The stored slug, or the place ID for a location without one - both open the place page
+const getPlaceSlug = (location) => location.slug || location.id;
+
+/**
+ * Slug of every location
+ * @param {Array<{id: string, slug?: string}>} locations
+ * @returns {Object<string, string>} slugs keyed by location ID
+ */
+function getPlaceSlugs(locations) {
+  const slugs = {};
+  locations.forEach(location => {
+    slugs[location.id] = getPlaceSlug(location);
+  });
+  return slugs;
+}
+
+/**
+ * Slugs for locations stored before slugs were - the ones their pages already had, where
+ * names shared by more than one location got the end of the place ID. Only used by
+ * scripts/set-place-slugs.js.
+ * @param {Array<{id: string, name?: string}>} locations - all locations
+ * @returns {Object<string, string>} slugs keyed by location ID
+ */
+function getNameSlugs(locations) {
+  const baseSlugs = locations.map(location => getBaseSlug(location.name));
+
+  const counts = {};
+  baseSlugs.forEach(slug => {
+    counts[slug] = (counts[slug] || 0) + 1;
+  });
+
+  const slugs = {};
+  locations.forEach((location, index) => {
+    const slug = baseSlugs[index];
+    slugs[location.id] = counts[slug] > 1 ? `${slug}-${getIdSuffix(location.id)}` : slug;
+  });
+  return slugs;
+}
+
+module.exports = {
+  slugify,
+  pickPlaceSlug,
+  getPlaceSlug,
+  getPlaceSlugs,
+  getNameSlugs
+};
@@ -0,0 +1,84 @@
+// functions/postal-code-centroids.js
+// Approximate centre of each Attica postal area, keyed by the first three digits of the
+// Greek postal code (e.g. "151 24" -> "151"). Good enough to sort places "nearest first"
+// for a subscriber who gave us a postal code, not for directions.
+
+const POSTAL_CODE_CENTROIDS = {
+  // Athens
+  '104': { lat: 37.9860, lng: 23.7260, area: 'Omonia' },
+  '105': { lat: 37.9760, lng: 23.7270, area: 'Plaka' },
+  '106': { lat: 37.9770, lng: 23.7400, area: 'Kolonaki' },
+  '111': { lat: 38.0080, lng: 23.7330, area: 'Patisia' },
+  '112': { lat: 37.9990, lng: 23.7380, area: 'Kypseli' },
+  '113': { lat: 37.9960, lng: 23.7480, area: 'Kypseli' },
+  '114': { lat: 37.9900, lng: 23.7550, area: 'Gyzi' },
+  '115': { lat: 37.9870, lng: 23.7650, area: 'Ampelokipoi' },
+  '116': { lat: 37.9680, lng: 23.7480, area: 'Pagrati' },
+  '117': { lat: 37.9620, lng: 23.7280, area: 'Koukaki' },
+  '118': { lat: 37.9720, lng: 23.7120, area: 'Petralona' },
+  // West
+  '121': { lat: 38.0130, lng: 23.6910, area: 'Peristeri' },
+  '122': { lat: 37.9920, lng: 23.6780, area: 'Egaleo' },
+  '123': { lat: 37.9900, lng: 23.6600, area: 'Agia Varvara' },
+  '124': { lat: 38.0100, lng: 23.6500, area: 'Chaidari' },
+  '131': { lat: 38.0300, lng: 23.7000, area: 'Ilion' },
+  '132': { lat: 38.0410, lng: 23.6840, area: 'Petroupoli' },
+  '133': { lat: 38.0770, lng: 23.6900, area: 'Ano Liosia' },
+  '134': { lat: 38.0270, lng: 23.7180, area: 'Agioi Anargyroi' },
+  '136': { lat: 38.0830, lng: 23.7350, area: 'Acharnes' },
+  // North
+  '141': { lat: 38.0450, lng: 23.7450, area: 'Nea Ionia' },
+  '142': { lat: 38.0360, lng: 23.7560, area: 'Nea Ionia' },
+  '143': { lat: 38.0350, lng: 23.7380, area: 'Nea Filadelfeia' },
+  '144': { lat: 38.0600, lng: 23.7600, area: 'Metamorfosi' },
+  '145': { lat: 38.0740, lng: 23.8110, area: 'Kifisia' },
+  '146': { lat: 38.0930, lng: 23.8170, area: 'Nea Erythraia' },
+  '151': { lat: 38.0500, lng: 23.8100, area: 'Marousi' },
+  '152': { lat: 38.0210, lng: 23.8000, area: 'Chalandri' },
+  '153': { lat: 38.0110, lng: 23.8200, area: 'Agia Paraskevi' },
+  '154': { lat: 38.0040, lng: 23.7750, area: 'Psychiko' },
+  '155': { lat: 38.0030, lng: 23.7970, area: 'Cholargos' },
+  '156': { lat: 37.9980, lng: 23.8130, area: 'Papagou' },
+  '157': { lat: 37.9770, lng: 23.7700, area: 'Zografou' },
+  // South
+  '161': { lat: 37.9660, lng: 23.7650, area: 'Kaisariani' },
+  '162': { lat: 37.9580, lng: 23.7550, area: 'Vyronas' },
+  '163': { lat: 37.9300, lng: 23.7570, area: 'Ilioupoli' },
+  '164': { lat: 37.9050, lng: 23.7500, area: 'Argyroupoli' },
+  '165': { lat: 37.8650, lng: 23.7550, area: 'Glyfada' },
+  '166': { lat: 37.8450, lng: 23.7750, area: 'Voula' },
+  '167': { lat: 37.8900, lng: 23.7400, area: 'Elliniko' },
+  '171': { lat: 37.9450, lng: 23.7140, area: 'Nea Smyrni' },
+  '172': { lat: 37.9460, lng: 23.7360, area: 'Dafni' },
+  '173': { lat: 37.9350, lng: 23.7300, area: 'Agios Dimitrios' },
+  '174': { lat: 37.9100, lng: 23.7200, area: 'Alimos' },
+  '175': { lat: 37.9280, lng: 23.7000, area: 'Palaio Faliro' },
+  '176': { lat: 37.9550, lng: 23.7020, area: 'Kallithea' },
+  '177': { lat: 37.9620, lng: 23.6950, area: 'Tavros' },
+  // Piraeus
+  '183': { lat: 37.9530, lng: 23.6800, area: 'Moschato' },
+  '184': { lat: 37.9660, lng: 23.6470, area: 'Nikaia' },
+  '185': { lat: 37.9420, lng: 23.6460, area: 'Piraeus' },
+  '186': { lat: 37.9480, lng: 23.6350, area: 'Piraeus' },
+  '187': { lat: 37.9630, lng: 23.6200, area: 'Keratsini' },
+  '188': { lat: 37.9630, lng: 23.5730, area: 'Perama' },
+  '189': { lat: 37.9600, lng: 23.4900, area: 'Salamina' },
+  // East Attica
+  '190': { lat: 38.0600, lng: 23.8900, area: 'Pallini' }
+};
+
+/**
+ * Look up the centre of a subscriber's postal area
+ * @param {string} postalCode - Free text from the sign-up form, e.g. "151 24" or "15124"
+ * @returns {{lat: number, lng: number, area: string}|null} null when it isn't an Attica postal code we know
+ */
+function getPostalCodeCentroid(postalCode) {
+  const digits = String(postalCode || '').replace(/\D/g, '');
+  if (digits.length !== 5) return null;
+  return POSTAL_CODE_CENTROIDS[digits.slice(0, 3)] || null;
+}
+
+module.exports = {
+  POSTAL_CODE_CENTROIDS,
+  getPostalCodeCentroid
+};
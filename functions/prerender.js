@@ -0,0 +1,98 @@
+// functions/prerender.js
+// Serves /places/:slug, /blog/:slug, /activities/:slug and /areas/:slug with the page's
+// title, Open Graph tags and JSON-LD
+// already in the HTML, for crawlers and link previews that don't run JavaScript.
+// The app then starts as usual from the same index.html.
+const fetch = require('node-fetch');
+const { getFirestore } = require('./firebase-admin');
+const { getPlaceSlug } = require('./place-slugs');
+const { getLocationPageMeta, getBlogPostPageMeta, getLandingPageMeta, renderPrerenderedPage } = require('./seo-pages');
+
+let templateCache = null;
+
+// The built index.html of this deploy, so the page loads the matching scripts
+async function getTemplate() {
+  if (templateCache) return templateCache;
+
+  const siteUrl = process.env.DEPLOY_URL || process.env.URL || 'https://www.pamekids.com';
+  const response = await fetch(`${siteUrl}/index.html`);
+  if (!response.ok) {
+    throw new Error(`Could not load index.html: ${response.status}`);
+  }
+  templateCache = await response.text();
+  return templateCache;
+}
+
+// The location with this slug - a place ID works too, like in the app
+async function getLocationBySlug(db, slug) {
+  const snapshot = await db.collection('locations').where('slug', '==', slug.toLowerCase()).limit(1).get();
+  if (!snapshot.empty) return snapshot.docs[0];
+
+  const doc = await db.collection('locations').doc(slug).get();
+  return doc.exists ? doc : null;
+}
+
+// Page metadata for the requested path, or null when there's no such page
+async function getPageMeta(section, slug, language) {
+  // Landing pages come with the functions, so they don't need Firestore
+  if (section === 'activities' || section === 'areas') {
+    return getLandingPageMeta(`/${section}/${slug}`, language);
+  }
+
+  const db = getFirestore();
+  if (section === 'places') {
+    const doc = await getLocationBySlug(db, slug);
+    if (!doc) return null;
+
+    const location = { id: doc.id, ...doc.data() };
+    return getLocationPageMeta(location, getPlaceSlug(location));
+  }
+
+  const snapshot = await db.collection('blog-posts').where('slug', '==', slug).limit(1).get();
+  if (snapshot.empty) return null;
+  const doc = snapshot.docs[0];
+  return getBlogPostPageMeta({ id: doc.id, ...doc.data() });
+}
+
+exports.handler = async (event, context) => {
+  const match = /\/(places|blog|activities|areas)\/([^/]+)\/?$/.exec(event.path || '');
+  let template;
+
+  try {
+    template = await getTemplate();
+  } catch (error) {
+    console.error('Error loading index.html for prerendering:', error);
+    return {
+      statusCode: 502,
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'Page unavailable'
+    };
+  }
+
+  const htmlResponse = (statusCode, body) => ({
+    statusCode,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300'
+    },
+    body
+  });
+
+  if (!match) {
+    return htmlResponse(200, template);
+  }
+
+  try {
+    const language = event.queryStringParameters?.lang;
+    const meta = await getPageMeta(match[1], decodeURIComponent(match[2]), language);
+
+    // Unknown slugs still get the app, which sends the visitor on to the map or blog
+    return meta
+      ? htmlResponse(200, renderPrerenderedPage(template, meta))
+      : htmlResponse(404, template);
+  } catch (error) {
+    // The page works without the metadata, so a Firestore error shouldn't break it
+    console.error(`Error prerendering ${event.path}:`, error);
+    return htmlResponse(200, template);
+  }
+};
@@ -5,6 +5,7 @@
 const { initializeFirebaseAdmin, getFirestore, fetchPlaceDetails } = require('./scheduled-places-update');
 const admin = require('firebase-admin');
 const { processAndStoreLocationPhotos } = require('./image-storage-utils');
+const { getBearerToken, verifyAdminToken } = require('./admin-auth');
 
 // In-memory rate limiting for non-admin requests (resets on function cold start)
 const ipRateLimits = {};
@@ -13,14 +14,14 @@ const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour in milliseconds
 
 // Verify authentication for requests
 async function verifyAccess(token, clientIp) {
-  // If admin token is provided and valid, grant full admin privileges
+  // If an admin's Firebase ID token is provided and valid, skip the rate limit
   if (token) {
-    const adminToken = process.env.ADMIN_TOKEN;
-    if (adminToken && token === adminToken) {
+    try {
+      await verifyAdminToken(token, 'editor');
       console.log('Admin authentication successful');
       return { isAdmin: true };
-    } else {
-      console.warn('Invalid admin token provided');
+    } catch (error) {
+      console.warn('Admin token rejected, falling back to public access:', error.message);
     }
   }
   
@@ -159,11 +160,10 @@ exports.handler = async (event, context) => {
   }
   
   // Parse request body
-  let locationId, adminToken;
+  let locationId;
   try {
     const payload = JSON.parse(event.body);
     locationId = payload.locationId;
-    adminToken = payload.adminToken; // Optional - for admin access
     
     if (!locationId) {
       throw new Error('Missing required parameter: locationId');
@@ -187,7 +187,8 @@ exports.handler = async (event, context) => {
                     'unknown';
     
     // Validate authentication and apply rate limiting
-    const authResult = await verifyAccess(adminToken, clientIp);
+    // Admins send their ID token in the Authorization header (optional)
+    const authResult = await verifyAccess(getBearerToken(event.headers), clientIp);
     
     // Log the request
     console.log(`Image refresh requested for location ${locationId} (${authResult.isAdmin ? 'admin' : 'public'})`);
@@ -1,4 +1,23 @@
 const { getFirestore } = require('./firebase-admin');
+const { authErrorResponse, verifyAdminRequest } = require('./admin-auth');
+const { validateSuggestedEdit } = require('./location-validation');
+
+const REPORT_STATUSES = ['new', 'in-progress', 'resolved', 'rejected'];
+
+// Allowed next statuses - keep in sync with src/utils/report-triage.ts
+const REPORT_STATUS_TRANSITIONS = {
+  'new': ['in-progress', 'resolved', 'rejected'],
+  'in-progress': ['new', 'resolved', 'rejected'],
+  'resolved': ['in-progress'],
+  'rejected': ['in-progress']
+};
+
+// Report types that may carry a suggested edit of the location
+const SUGGESTED_EDIT_ISSUE_TYPES = ['pro-tips', 'incorrect-info'];
+const SUGGESTED_EDIT_DECISIONS = ['accepted', 'rejected'];
+
+const MAX_NOTE_LENGTH = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 exports.handler = async (event, context) => {
   console.log('Reports function invoked with method:', event.httpMethod);
@@ -8,16 +27,24 @@ exports.handler = async (event, context) => {
     if (event.httpMethod === 'POST') {
       return await handleSubmission(event);
     } else if (event.httpMethod === 'GET') {
-      // Check if this is an admin request with token
-      const params = new URLSearchParams(event.queryStringParameters || {});
-      if (params.get('adminToken') === process.env.ADMIN_TOKEN) {
-        return await handleGetAllReports();
+      // Listing is admin only - check the caller's Firebase ID token
+      try {
+        await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
       }
       
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized' })
-      };
+      return await handleGetAllReports();
+    } else if (event.httpMethod === 'PUT') {
+      // Triage (status, assignment, notes) is admin only too
+      let caller;
+      try {
+        caller = await verifyAdminRequest(event, 'moderator');
+      } catch (authError) {
+        return authErrorResponse(authError);
+      }
+
+      return await handleTriageUpdate(event, caller);
     }
     
     return {
@@ -43,8 +70,10 @@ async function handleSubmission(event) {
     // Parse request body
     const data = JSON.parse(event.body);
     
-    // Validate required fields
-    if (!data.locationId || !data.locationName || !data.issueType || !data.description) {
+    const hasSuggestedEdit = data.suggestedEdit !== undefined && data.suggestedEdit !== null;
+
+    // Validate required fields - a suggested edit can stand in for the description
+    if (!data.locationId || !data.locationName || !data.issueType || (!data.description && !hasSuggestedEdit)) {
       return {
         statusCode: 400,
         body: JSON.stringify({ error: 'Location ID, name, issue type, and description are required' })
@@ -59,11 +88,44 @@ async function handleSubmission(event) {
       locationId: data.locationId,
       locationName: data.locationName,
       issueType: data.issueType,
-      description: data.description,
+      description: data.description || '',
       email: data.email || '',
       timestamp: new Date().toISOString(),
       status: 'new'
     };
+
+    if (hasSuggestedEdit) {
+      if (!SUGGESTED_EDIT_ISSUE_TYPES.includes(data.issueType)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ error: 'Only pro tips and location detail updates can suggest changes' })
+        };
+      }
+
+      const { value, fieldErrors } = validateSuggestedEdit(data.suggestedEdit);
+      if (Object.keys(fieldErrors).length > 0) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ error: 'Please check the suggested changes', fieldErrors })
+        };
+      }
+
+      // Record "from" as the stored location has it, not what the visitor's page showed
+      const locationSnapshot = await db.collection('locations').doc(data.locationId).get();
+      if (!locationSnapshot.exists) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ error: 'Location not found' })
+        };
+      }
+
+      const location = locationSnapshot.data();
+      newReport.suggestedEdit = {};
+      Object.entries(value).forEach(([field, to]) => {
+        newReport.suggestedEdit[field] = { from: location[field] ?? null, to };
+      });
+      newReport.suggestedEditStatus = 'pending';
+    }
     
     const docRef = await reportsRef.add(newReport);
     
@@ -149,4 +211,134 @@ async function handleGetAllReports() {
       })
     };
   }
-}
\ No newline at end of file
+}
+
+// Update a report's status, assignee or internal notes (admin only)
+// PUT /api/reports/:id with { status?, assignedTo?, note?, suggestedEdit? } - every
+// change is appended to the report's history so there is a trail of who did what.
+// suggestedEdit records the decision on the visitor's proposed changes; the dashboard
+// patches the location itself through /api/locations before marking it accepted.
+async function handleTriageUpdate(event, caller) {
+  const id = (event.path || '').split('/').pop();
+  if (!id || id === 'reports') {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Report ID is required' })
+    };
+  }
+
+  let data;
+  try {
+    data = JSON.parse(event.body || '{}');
+  } catch (parseError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Request body must be valid JSON' })
+    };
+  }
+
+  if (data.status !== undefined && !REPORT_STATUSES.includes(data.status)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: `Unknown status "${data.status}"` })
+    };
+  }
+
+  const assignedTo = typeof data.assignedTo === 'string' ? data.assignedTo.trim().toLowerCase() || null : data.assignedTo;
+  if (assignedTo !== undefined && assignedTo !== null && !EMAIL_PATTERN.test(assignedTo)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Reports can only be assigned to an admin email address' })
+    };
+  }
+
+  if (data.suggestedEdit !== undefined && !SUGGESTED_EDIT_DECISIONS.includes(data.suggestedEdit)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Suggested changes can only be accepted or rejected' })
+    };
+  }
+
+  const note = typeof data.note === 'string' ? data.note.trim() : '';
+  if (note.length > MAX_NOTE_LENGTH) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: `Notes can be at most ${MAX_NOTE_LENGTH} characters` })
+    };
+  }
+
+  try {
+    const db = getFirestore();
+    const reportRef = db.collection('location-reports').doc(id);
+    const by = caller.email || caller.uid;
+    const at = new Date().toISOString();
+
+    // Read and write in a transaction so two admins can't make conflicting status changes
+    const result = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reportRef);
+      if (!snapshot.exists) {
+        return { statusCode: 404, error: 'Report not found' };
+      }
+
+      const report = snapshot.data();
+      const currentStatus = report.status || 'new';
+      const currentAssignee = report.assignedTo || null;
+      const updates = {};
+      const entries = [];
+
+      if (data.status !== undefined && data.status !== currentStatus) {
+        if (!REPORT_STATUS_TRANSITIONS[currentStatus]?.includes(data.status)) {
+          return { statusCode: 409, error: `A ${currentStatus} report cannot be marked ${data.status}` };
+        }
+        updates.status = data.status;
+        entries.push({ type: 'status', from: currentStatus, to: data.status, by, at });
+      }
+
+      if (data.suggestedEdit !== undefined) {
+        if (!report.suggestedEdit || report.suggestedEditStatus !== 'pending') {
+          return { statusCode: 409, error: 'This report has no pending suggested changes' };
+        }
+        updates.suggestedEditStatus = data.suggestedEdit;
+        entries.push({ type: 'suggested-edit', to: data.suggestedEdit, by, at });
+      }
+
+      if (assignedTo !== undefined && assignedTo !== currentAssignee) {
+        updates.assignedTo = assignedTo;
+        entries.push({ type: 'assignment', from: currentAssignee, to: assignedTo, by, at });
+      }
+
+      if (note) {
+        entries.push({ type: 'note', text: note, by, at });
+      }
+
+      if (entries.length === 0) {
+        return { report: { id, ...report } };
+      }
+
+      updates.history = [...(report.history || []), ...entries];
+      updates.updated_at = at;
+      transaction.update(reportRef, updates);
+
+      return { report: { id, ...report, ...updates } };
+    });
+
+    if (result.error) {
+      return {
+        statusCode: result.statusCode,
+        body: JSON.stringify({ error: result.error })
+      };
+    }
+
+    console.log(`Report ${id} updated by ${by}`);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, report: result.report })
+    };
+  } catch (error) {
+    console.error('Error updating issue report:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: 'Failed to update report' })
+    };
+  }
+}
@@ -5,6 +5,7 @@
 const admin = require('firebase-admin');
 const fetch = require('node-fetch');
 const { processAndStoreLocationPhotos } = require('./image-storage-utils');
+const { recordRevision } = require('./location-revisions');
 
 // Firebase Admin initialization
 let firebaseApp;
@@ -14,6 +15,12 @@ function initializeFirebaseAdmin() {
     return firebaseApp;
   }
 
+  // Reuse the default app if another module (e.g. firebase-admin.js) already created it
+  if (admin.apps.length > 0) {
+    firebaseApp = admin.app();
+    return firebaseApp;
+  }
+
   try {
     // Try to parse service account from environment variable
     const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT;
@@ -115,7 +122,8 @@ async function fetchPlaceDetails(placeId) {
 
 // Function to update only specific fields (photos, rating, userRatingsTotal) in Firestore
 // Also downloads and stores images permanently in Firebase Storage
-async function updateLocationPlaceData(db, locationId, placeDetails) {
+// author is who to credit in the location's revision history
+async function updateLocationPlaceData(db, locationId, placeDetails, author = 'Scheduled Places update') {
   try {
     if (!placeDetails) {
       console.log(`No place details to update for ${locationId}`);
@@ -187,7 +195,18 @@ async function updateLocationPlaceData(db, locationId, placeDetails) {
     updateData['placeData_updated_at'] = admin.firestore.FieldValue.serverTimestamp();
     
     // Perform update ONLY on the specified fields
-    await db.collection('locations').doc(locationId).update(updateData);
+    const docRef = db.collection('locations').doc(locationId);
+    const before = await docRef.get();
+    await docRef.update(updateData);
+
+    // Record what changed in the location's history
+    try {
+      const after = await docRef.get();
+      await recordRevision(docRef, before.data(), after.data(), { author, source: 'places-update' });
+    } catch (revisionError) {
+      console.error(`Error recording revision for ${locationId}:`, revisionError);
+      // The place data is already saved, so don't report the update as failed
+    }
     
     console.log(`Updated place data for ${locationId} with fields: ${Object.keys(updateData).join(', ')}`);
     return true;
@@ -208,7 +227,6 @@ exports.handler = async (event, context) => {
   console.log('- GOOGLE_MAPS_API_KEY available:', !!process.env.GOOGLE_MAPS_API_KEY);
   console.log('- REACT_APP_GOOGLE_MAPS_API_KEY available:', !!process.env.REACT_APP_GOOGLE_MAPS_API_KEY);
   console.log('- FIREBASE_SERVICE_ACCOUNT available:', !!process.env.FIREBASE_SERVICE_ACCOUNT);
-  console.log('- ADMIN_TOKEN available:', !!process.env.ADMIN_TOKEN);
   
   try {
     // Initialize Firebase
@@ -324,6 +342,7 @@ exports.handler = async (event, context) => {
 
 // Export helper functions so they can be reused by other functions
 module.exports = {
+  handler: exports.handler,
   initializeFirebaseAdmin,
   getFirestore,
   fetchAllLocations,
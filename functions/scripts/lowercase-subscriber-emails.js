@@ -0,0 +1,36 @@
+// Lowercase the stored email of every newsletter subscriber that still has capitals in it.
+// Needed once for subscribers who signed up before addresses were lowercased - sign-up and
+// import only find an address stored exactly as it is typed, or lowercased.
+// Subscribers that would end up with the same address are listed and left alone, to be merged by hand.
+// Uses the same credentials as the functions (FIREBASE_SERVICE_ACCOUNT or firebase-service-account.json).
+//
+// Usage: node functions/scripts/lowercase-subscriber-emails.js [--dry-run]
+require('dotenv').config();
+const { getFirestore } = require('../firebase-admin');
+const { planEmailLowercasing } = require('../newsletter');
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const db = getFirestore();
+
+  const snapshot = await db.collection('newsletter-subscribers').select('email').get();
+  const subscribers = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  const { updates, conflicts } = planEmailLowercasing(subscribers);
+
+  for (const update of updates) {
+    console.log(`${update.id}: ${update.email}`);
+    if (!dryRun) {
+      await db.collection('newsletter-subscribers').doc(update.id).update({ email: update.email });
+    }
+  }
+
+  conflicts.forEach(ids => console.warn(`Same address, merge by hand: ${ids.join(', ')}`));
+  console.log(`${updates.length} of ${subscribers.length} subscribers ${dryRun ? 'need' : 'were given'} a lowercased email`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Failed to lowercase subscriber emails:', error.message);
+    process.exit(1);
+  });
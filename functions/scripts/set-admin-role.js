@@ -0,0 +1,26 @@
+// Give someone an admin role from the command line.
+// Needed once to create the first owner - after that owners manage roles from the dashboard.
+// Uses the same credentials as the functions (FIREBASE_SERVICE_ACCOUNT or firebase-service-account.json).
+//
+// Usage: node functions/scripts/set-admin-role.js <email> <editor|moderator|owner|none>
+require('dotenv').config();
+const { ADMIN_ROLES, setAdminRole } = require('../admin-auth');
+
+async function main() {
+  const [email, roleArg] = process.argv.slice(2);
+
+  if (!email || !roleArg || (roleArg !== 'none' && !ADMIN_ROLES.includes(roleArg))) {
+    console.error(`Usage: node functions/scripts/set-admin-role.js <email> <${ADMIN_ROLES.join('|')}|none>`);
+    process.exit(1);
+  }
+
+  const result = await setAdminRole(email.trim().toLowerCase(), roleArg === 'none' ? null : roleArg);
+  console.log(`${result.email} (${result.uid}) is now: ${result.role || 'not an admin'}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Failed to set admin role:', error.message);
+    process.exit(1);
+  });
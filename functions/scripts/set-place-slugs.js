@@ -0,0 +1,35 @@
+// Store a place page slug on every location that doesn't have one yet.
+// Needed once for locations added before slugs were stored - each gets the slug its page
+// already had, so existing links keep working. Locations added since get theirs on create.
+// Uses the same credentials as the functions (FIREBASE_SERVICE_ACCOUNT or firebase-service-account.json).
+//
+// Usage: node functions/scripts/set-place-slugs.js [--dry-run]
+require('dotenv').config();
+const { getFirestore } = require('../firebase-admin');
+const { getNameSlugs } = require('../place-slugs');
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const db = getFirestore();
+
+  const snapshot = await db.collection('locations').select('name', 'slug').get();
+  const locations = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  const slugs = getNameSlugs(locations);
+  const missing = locations.filter(location => !location.slug);
+
+  for (const location of missing) {
+    console.log(`${location.id}: ${slugs[location.id]}`);
+    if (!dryRun) {
+      await db.collection('locations').doc(location.id).update({ slug: slugs[location.id] });
+    }
+  }
+
+  console.log(`${missing.length} of ${locations.length} locations ${dryRun ? 'need' : 'were given'} a slug`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Failed to set place slugs:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,339 @@
+// functions/seo-pages.js
+// Builds the sitemap and the prerendered <head> of the blog post, place and landing pages, so
+// search engines and link previews get the right title, Open Graph tags and JSON-LD
+// without running the app. Used by the sitemap and prerender functions.
+const { escapeHtml } = require('./email-templates');
+// Activity and area landing pages with their SEO text - generated from src/utils/landing-pages.ts
+const LANDING_PAGES = require('./landing-pages.json');
+
+// Same as APP_URL in src/utils/metadata.ts, so canonical URLs match what the app sets
+const APP_URL = 'https://www.pamekids.com';
+const APP_NAME = 'PameKids';
+const DEFAULT_IMAGE = `${APP_URL}/og-image.jpg`;
+// Same as LANGUAGES in src/utils/i18n.ts - English pages have no ?lang parameter
+const LANGUAGES = ['en', 'el'];
+const DEFAULT_LANGUAGE = 'en';
+const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Activity types that are sights rather than businesses - same list as getLocationSchema
+const TOURIST_ATTRACTION_TYPES = ['park', 'playground', 'outdoor-play', 'nature', 'beach', 'hike', 'garden', 'theme-park', 'history'];
+
+// Pages that aren't built from Firestore documents
+const STATIC_PAGES = [
+  { path: '/', changefreq: 'daily', priority: '1.0' },
+  { path: '/map', changefreq: 'daily', priority: '0.9' },
+  { path: '/blog', changefreq: 'daily', priority: '0.8' },
+  { path: '/privacy', changefreq: 'yearly', priority: '0.3' },
+  { path: '/terms', changefreq: 'yearly', priority: '0.3' }
+];
+
+// Firestore Timestamps, { seconds } objects and ISO strings all show up in updated_at
+const toMillis = (value) => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  const seconds = value.seconds ?? value._seconds;
+  return typeof seconds === 'number' ? seconds * 1000 : null;
+};
+
+// YYYY-MM-DD of the first date that's set, for <lastmod>
+const getLastmod = (...values) => {
+  const millis = values.map(toMillis).find(value => value !== null);
+  return millis === undefined ? null : new Date(millis).toISOString().slice(0, 10);
+};
+
+const escapeXml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Mirrors getLanguageUrl in src/utils/i18n.ts for the query-free URLs in the sitemap
+const getLanguageUrl = (url, language) =>
+  (language === DEFAULT_LANGUAGE ? url : `${url}?lang=${language}`);
+
+/**
+ * Build sitemap.xml
+ * Every page is listed once per language, each with hreflang links to all of them.
+ * @param {object} content
+ * @param {Array<object>} content.locations - location documents with their id
+ * @param {Object<string, string>} content.placeSlugs - from getPlaceSlugs
+ * @param {Array<object>} content.blogPosts - blog post documents with their id
+ * @returns {string} the XML
+ */
+function buildSitemap({ locations = [], placeSlugs = {}, blogPosts = [] }) {
+  const entries = STATIC_PAGES.map(page => ({ loc: `${APP_URL}${page.path}`, ...page }));
+
+  blogPosts
+    .filter(post => post.slug)
+    .forEach(post => {
+      entries.push({
+        loc: `${APP_URL}/blog/${encodeURIComponent(post.slug)}`,
+        lastmod: getLastmod(post.updated_at, post.updatedDate, post.publishDate),
+        changefreq: 'monthly',
+        priority: '0.7'
+      });
+    });
+
+  LANDING_PAGES.forEach(page => {
+    entries.push({ loc: `${APP_URL}${page.path}`, changefreq: 'weekly', priority: '0.7' });
+  });
+
+  locations
+    .filter(location => placeSlugs[location.id])
+    .forEach(location => {
+      entries.push({
+        loc: `${APP_URL}/places/${placeSlugs[location.id]}`,
+        lastmod: getLastmod(location.updated_at, location.placeData_updated_at, location.created_at),
+        changefreq: 'weekly',
+        priority: '0.6'
+      });
+    });
+
+  const urls = entries.flatMap(entry => {
+    const alternates = [
+      ...LANGUAGES.map(language =>
+        `    <xhtml:link rel="alternate" hreflang="${language}" href="${escapeXml(getLanguageUrl(entry.loc, language))}"/>`
+      ),
+      `    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(entry.loc)}"/>`
+    ];
+
+    return LANGUAGES.map(language => [
+      '  <url>',
+      `    <loc>${escapeXml(getLanguageUrl(entry.loc, language))}</loc>`,
+      entry.lastmod ? `    <lastmod>${entry.lastmod}</lastmod>` : null,
+      `    <changefreq>${entry.changefreq}</changefreq>`,
+      `    <priority>${entry.priority}</priority>`,
+      ...alternates,
+      '  </url>'
+    ].filter(Boolean).join('\n'));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Page metadata for a location - mirrors the place branch of the SEO component and
+ * getLocationSchema in src/utils/schema.ts
+ * @param {object} location - location document with its id
+ * @param {string} slug - the location's place slug
+ * @returns {{heading, title, description, url, image, imageAlt, type, schema}}
+ */
+function getLocationPageMeta(location, slug) {
+  const url = `${APP_URL}/places/${slug}`;
+  const types = location.types || [];
+  const primaryType = location.primaryType || types[0];
+  const image = location.placeData?.storedPhotoUrls?.[0] || location.images?.[0];
+  const contact = location.contact || {};
+
+  // Only structured hours - the app also parses the older opening hours text, but
+  // locations saved since the schedule editor all have one
+  const weekly = location.schedule?.weekly || {};
+  const openingHoursSpecification = DAYS_OF_WEEK.flatMap(day =>
+    (weekly[day] || []).map(interval => ({
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: `https://schema.org/${day}`,
+      opens: interval.open,
+      closes: interval.close === '24:00' ? '23:59' : interval.close
+    }))
+  );
+
+  const schema = {
+    '@context': 'https://schema.org',
+    '@type': TOURIST_ATTRACTION_TYPES.includes(primaryType) ? 'TouristAttraction' : 'LocalBusiness',
+    '@id': url,
+    url,
+    name: location.name,
+    description: location.description,
+    ...(image && { image }),
+    address: {
+      '@type': 'PostalAddress',
+      streetAddress: location.address,
+      addressCountry: 'GR'
+    },
+    ...(location.coordinates && {
+      geo: {
+        '@type': 'GeoCoordinates',
+        latitude: location.coordinates.lat,
+        longitude: location.coordinates.lng
+      }
+    }),
+    ...(openingHoursSpecification.length > 0 && { openingHoursSpecification }),
+    ...(contact.phone && { telephone: contact.phone }),
+    ...(contact.website && { sameAs: contact.website }),
+    ...(location.priceRange && { priceRange: location.priceRange }),
+    ...(location.placeData?.rating && location.placeData.userRatingsTotal && {
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: location.placeData.rating,
+        reviewCount: location.placeData.userRatingsTotal
+      }
+    })
+  };
+
+  return {
+    heading: location.name,
+    title: `${location.name} | ${APP_NAME}`,
+    description: location.description || '',
+    url,
+    image: image || DEFAULT_IMAGE,
+    imageAlt: location.name,
+    type: 'website',
+    schema
+  };
+}
+
+/**
+ * Page metadata for a blog post - mirrors the blogPost branch of the SEO component and
+ * getBlogPostSchema in src/utils/schema.ts
+ * @param {object} post - blog post document with its id
+ * @returns {{heading, title, description, url, image, imageAlt, type, schema}}
+ */
+function getBlogPostPageMeta(post) {
+  const url = `${APP_URL}/blog/${post.slug}`;
+  const toIsoString = (value) => {
+    const millis = toMillis(value);
+    return millis === null ? undefined : new Date(millis).toISOString();
+  };
+  const publishDate = toIsoString(post.publishDate);
+  const modifiedDate = toIsoString(post.updatedDate) || publishDate;
+  const image = post.mainImage?.url || DEFAULT_IMAGE;
+
+  const schema = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    mainEntityOfPage: {
+      '@type': 'WebPage',
+      '@id': url
+    },
+    headline: post.title,
+    description: post.summary,
+    image,
+    author: {
+      '@type': 'Person',
+      name: post.author?.name || APP_NAME
+    },
+    publisher: {
+      '@type': 'Organization',
+      name: APP_NAME,
+      logo: {
+        '@type': 'ImageObject',
+        url: `${APP_URL}/logo512.png`
+      }
+    },
+    ...(publishDate && { datePublished: publishDate, dateModified: modifiedDate }),
+    keywords: post.tags?.join(', ') || '',
+    articleSection: post.categories?.join(', ') || ''
+  };
+
+  return {
+    heading: post.title,
+    title: `${post.title} | PameKids Blog`,
+    description: post.summary || '',
+    url,
+    image,
+    imageAlt: post.mainImage?.alt || post.title,
+    type: 'article',
+    schema
+  };
+}
+
+/**
+ * Page metadata for an activity or area landing page - the same text as getLandingPageSeo
+ * in src/utils/landing-pages.ts
+ * @param {string} path - e.g. "/activities/swimming"
+ * @param {string} language - the ?lang of the request
+ * @returns {{heading, title, description, url, image, imageAlt, type, schema}|null} null for an unknown page
+ */
+function getLandingPageMeta(path, language) {
+  const page = LANDING_PAGES.find(landingPage => landingPage.path === path.toLowerCase());
+  if (!page) return null;
+
+  const pageLanguage = LANGUAGES.includes(language) ? language : DEFAULT_LANGUAGE;
+  const { heading, title, description } = page.seo[pageLanguage];
+  const url = getLanguageUrl(`${APP_URL}${page.path}`, pageLanguage);
+
+  return {
+    heading,
+    title,
+    description,
+    url,
+    image: DEFAULT_IMAGE,
+    imageAlt: heading,
+    type: 'website',
+    schema: {
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      '@id': url,
+      url,
+      name: title,
+      description,
+      inLanguage: pageLanguage
+    }
+  };
+}
+
+// Tags the app's SEO component sets - removed from the template so they aren't doubled
+const REPLACED_TAG_PATTERNS = [
+  /<title>[\s\S]*?<\/title>/gi,
+  /<meta\s+(?:name|property)="(?:description|og:[^"]*|twitter:[^"]*)"[^>]*>/gi,
+  /<link\s+rel="canonical"[^>]*>/gi,
+  /<script\s+type="application\/ld\+json">[\s\S]*?<\/script>/gi
+];
+
+/**
+ * Put a page's metadata into the app's index.html
+ * The tags carry data-react-helmet so Helmet replaces them once the app runs, and the
+ * heading and description go in #root, which React clears when it renders.
+ * @param {string} template - the built index.html
+ * @param {object} meta - from getLocationPageMeta, getBlogPostPageMeta or getLandingPageMeta
+ * @returns {string} the page HTML
+ */
+function renderPrerenderedPage(template, meta) {
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" data-react-helmet="true">`,
+    `<link rel="canonical" href="${escapeHtml(meta.url)}" data-react-helmet="true">`,
+    `<meta property="og:type" content="${meta.type}" data-react-helmet="true">`,
+    `<meta property="og:url" content="${escapeHtml(meta.url)}" data-react-helmet="true">`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" data-react-helmet="true">`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" data-react-helmet="true">`,
+    `<meta property="og:image" content="${escapeHtml(meta.image)}" data-react-helmet="true">`,
+    `<meta property="og:image:alt" content="${escapeHtml(meta.imageAlt)}" data-react-helmet="true">`,
+    `<meta property="og:site_name" content="${APP_NAME}" data-react-helmet="true">`,
+    `<meta name="twitter:card" content="summary_large_image" data-react-helmet="true">`,
+    `<meta name="twitter:title" content="${escapeHtml(meta.title)}" data-react-helmet="true">`,
+    `<meta name="twitter:description" content="${escapeHtml(meta.description)}" data-react-helmet="true">`,
+    `<meta name="twitter:image" content="${escapeHtml(meta.image)}" data-react-helmet="true">`,
+    // "<" escaped so text in the data can't close the script tag
+    `<script type="application/ld+json">${JSON.stringify(meta.schema).replace(/</g, '\\u003c')}</script>`
+  ].join('');
+
+  const content = `<main><h1>${escapeHtml(meta.heading)}</h1><p>${escapeHtml(meta.description)}</p></main>`;
+
+  // Replacer functions, so a "$" in the content isn't read as a replacement pattern
+  return REPLACED_TAG_PATTERNS
+    .reduce((html, pattern) => html.replace(pattern, ''), template)
+    .replace('</head>', () => `${tags}</head>`)
+    .replace('<div id="root"></div>', () => `<div id="root">${content}</div>`);
+}
+
+module.exports = {
+  APP_URL,
+  getLastmod,
+  buildSitemap,
+  getLocationPageMeta,
+  getBlogPostPageMeta,
+  getLandingPageMeta,
+  renderPrerenderedPage
+};
@@ -0,0 +1,44 @@
+// functions/sitemap.js
+// GET /sitemap.xml - the home, map, blog and legal pages plus every blog post and place page,
+// built from Firestore with each document's updated_at as <lastmod>, in English and Greek
+const { getFirestore } = require('./firebase-admin');
+const { getPlaceSlugs } = require('./place-slugs');
+const { buildSitemap } = require('./seo-pages');
+
+exports.handler = async (event, context) => {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'HEAD') {
+    return {
+      statusCode: 405,
+      headers: { Allow: 'GET, HEAD' },
+      body: 'Method not allowed'
+    };
+  }
+
+  try {
+    const db = getFirestore();
+    const [locationsSnapshot, blogPostsSnapshot] = await Promise.all([
+      db.collection('locations').select('name', 'slug', 'updated_at', 'placeData_updated_at', 'created_at').get(),
+      db.collection('blog-posts').select('slug', 'updated_at', 'updatedDate', 'publishDate').get()
+    ]);
+
+    const locations = locationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    const blogPosts = blogPostsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        // Crawlers fetch it rarely, and an hour-old sitemap is fine
+        'Cache-Control': 'public, max-age=3600'
+      },
+      body: buildSitemap({ locations, placeSlugs: getPlaceSlugs(locations), blogPosts })
+    };
+  } catch (error) {
+    console.error('Error building sitemap:', error);
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'Error building sitemap'
+    };
+  }
+};
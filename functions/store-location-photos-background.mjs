@@ -4,12 +4,14 @@
  */
 
 import { initializeApp, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
 import fetch from 'node-fetch';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import adminAuth from './admin-auth.js';
 
 // Firebase initialization for ES modules
 let firebaseApp;
@@ -163,25 +165,9 @@ function getStorageInstance() {
   }
 }
 
-// Verify admin authentication
+// Verify the admin's Firebase ID token - role rules are shared with the other functions
 async function verifyAdminAuth(token) {
-  if (!token) {
-    throw new Error('Admin authentication required - no token provided');
-  }
-  
-  // Validate against the environment variable
-  if (!process.env.ADMIN_TOKEN) {
-    console.error('ADMIN_TOKEN environment variable is not set');
-    throw new Error('Server configuration error: Admin token is not configured');
-  }
-  
-  if (token !== process.env.ADMIN_TOKEN) {
-    console.warn('Invalid admin token provided');
-    throw new Error('Invalid admin token - authentication failed');
-  }
-  
-  console.log('Admin authentication successful');
-  return true;
+  return adminAuth.verifyAdminToken(token, 'editor', getAuth(initializeFirebaseAdmin()));
 }
 
 /**
@@ -322,8 +308,10 @@ function generatePhotoUrls(photoReferences, apiKey) {
 
 /**
  * Process a single location's photos
+ * Locations that already have stored photos are skipped unless force is set,
+ * which re-fetches the photos from Google and replaces the stored copies
  */
-async function processLocation(locationId) {
+async function processLocation(locationId, { force = false } = {}) {
   try {
     if (!locationId) {
       throw new Error('Location ID is required');
@@ -344,7 +332,7 @@ async function processLocation(locationId) {
     console.log(`Processing photos for location: ${name} (${locationId})`);
     
     // Skip if the location already has stored photos
-    if (location.placeData?.storedPhotoUrls && location.placeData.storedPhotoUrls.length > 0) {
+    if (!force && location.placeData?.storedPhotoUrls && location.placeData.storedPhotoUrls.length > 0) {
       console.log(`Location ${name} (${locationId}) already has stored photos. Skipping.`);
       return {
         success: true,
@@ -461,11 +449,13 @@ export default async (req, context) => {
   try {
     // Parse request data - handle multiple formats
     let locationId;
+    let force = false;
     
     try {
       // Try to parse as JSON
       const payload = await req.json();
       locationId = payload.locationId;
+      force = payload.force === true;
       console.log('Request body parsed as JSON:', payload);
     } catch (e) {
       console.log('Could not parse request body as JSON:', e.message);
@@ -477,6 +467,7 @@ export default async (req, context) => {
             ? JSON.parse(context.body)
             : context.body;
           locationId = contextBody.locationId;
+          force = contextBody.force === true;
           console.log('Using context body:', contextBody);
         } catch (contextError) {
           console.error('Error parsing context body:', contextError);
@@ -501,8 +492,8 @@ export default async (req, context) => {
       await verifyAdminAuth(token);
     } catch (authError) {
       console.error('Authentication failed:', authError.message);
-      return new Response(JSON.stringify({ error: 'Authentication failed' }), {
-        status: 401,
+      return new Response(JSON.stringify({ error: authError.message }), {
+        status: authError.statusCode || 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
@@ -516,7 +507,7 @@ export default async (req, context) => {
     // Use waitUntil to handle the background processing
     if (context.waitUntil) {
       context.waitUntil(
-        processLocation(locationId)
+        processLocation(locationId, { force })
           .then(result => {
             console.log(`Background processing completed for ${locationId}:`, result);
           })
@@ -527,7 +518,7 @@ export default async (req, context) => {
     } else {
       // Fallback for environments without waitUntil (like local dev)
       console.warn('waitUntil is not available - processing may be interrupted');
-      processLocation(locationId)
+      processLocation(locationId, { force })
         .then(result => {
           console.log(`Background processing completed for ${locationId}:`, result);
         })
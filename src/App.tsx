@@ -12,26 +12,32 @@ import { AppStateProvider } from './contexts/AppStateContext';
 import UserLocationProvider from './contexts/UserLocationContext';
 import ConsentProvider, { useConsent } from './contexts/ConsentContext';
 import { LocationsProvider } from './contexts/LocationsContext';
+import { EventsProvider } from './contexts/EventsContext';
+import { FavoritesProvider } from './contexts/FavoritesContext';
+import { DayPlannerProvider, useDayPlanner } from './contexts/DayPlannerContext';
+import AdminAuthProvider from './contexts/AdminAuthContext';
+import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import SEO from './components/SEO';
 import HomePage from './components/Home/HomePage';
 import PrivacyPolicy from './components/Pages/PrivacyPolicy';
 import TermsOfService from './components/Pages/TermsOfService';
+import PlacePage from './components/Pages/PlacePage';
+import LandingPage from './components/Pages/LandingPage';
 import BlogIndexPage from './components/Blog/BlogIndexPage';
 import BlogPostPage from './components/Blog/BlogPostPage';
 
 import MapComponent from './components/Map/Map';
 import MapBlockingOverlay from './components/Map/MapBlockingOverlay';
 import SuggestActivityModal from './components/SuggestActivity/SuggestActivityModal';
-import { NewsletterModal } from './components/Newsletter';
+import { NewsletterModal, NewsletterPreferencesPage } from './components/Newsletter';
 import ReportIssueModal from './components/ReportIssue/ReportIssueModal';
+import { DayPlannerModal } from './components/DayPlanner';
 import WelcomeModal from './components/WelcomeModal/WelcomeModal';
 import AdminLogin from './components/Admin/AdminLogin';
 import Dashboard from './components/Admin/Dashboard';
 import AnalyticsDebugger from './components/Analytics/AnalyticsDebugger';
 import Header from './components/Layout/Header';
 import Footer from './components/Layout/Footer';
-// Import activity categories from centralized metadata
-import { ACTIVITY_CATEGORIES as activityConfig } from './utils/metadata';
 import { injectSchemaOrgData } from './utils/schema';
 import { updateAnalyticsConsent } from './utils/analytics';
 
@@ -119,6 +125,8 @@ const WelcomeModalWrapper: React.FC = () => {
 // Main application layout
 const MainApp = () => {
   const { setModalOpen } = useTouch();
+  const { isPlannerOpen, closePlanner } = useDayPlanner();
+  const { activityCategories } = useLanguage();
   const [isSuggestModalOpen, setIsSuggestModalOpen] = useState(false);
   const [isNewsletterModalOpen, setIsNewsletterModalOpen] = useState(false);
   const [isReportIssueModalOpen, setIsReportIssueModalOpen] = useState(false);
@@ -195,7 +203,7 @@ const MainApp = () => {
       <SuggestActivityModal
         isOpen={isSuggestModalOpen}
         onClose={() => setIsSuggestModalOpen(false)}
-        activityTypes={activityConfig}
+        activityTypes={activityCategories}
       />
       
       <NewsletterModal
@@ -217,6 +225,11 @@ const MainApp = () => {
         defaultIssueType={reportIssueData.defaultIssueType}
       />
       
+      <DayPlannerModal
+        isOpen={isPlannerOpen}
+        onClose={closePlanner}
+      />
+      
       {/* Analytics Debugger - only visible in development or with debug URL param */}
       {(process.env.NODE_ENV === 'development' || window.location.search.includes('debug=analytics')) && (
         <AnalyticsDebugger />
@@ -275,6 +288,9 @@ function App() {
       <MobileProvider>
         <UserLocationProvider>
           <LocationsProvider>
+            <EventsProvider>
+            <FavoritesProvider>
+            <DayPlannerProvider>
             <AppStateProvider>
               <TouchProvider>
               <Router
@@ -283,42 +299,52 @@ function App() {
                 v7_relativeSplatPath: true
               }}
             >
-            {/* Welcome and GDPR Consent Modal - Now visible on all routes */}
-            <WelcomeModalWrapper />
+            {/* Reads and sets ?lang, so it has to be inside the Router */}
+            <LanguageProvider>
+              {/* Welcome and GDPR Consent Modal - Now visible on all routes */}
+              <WelcomeModalWrapper />
             
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/home" element={<Navigate to="/" replace />} />
-              <Route path="/map" element={<MainApp />} />
-              <Route path="/privacy" element={<PrivacyPolicy />} />
-              <Route path="/terms" element={<TermsOfService />} />
-              <Route path="/blog" element={<BlogIndexPage />} />
-              <Route path="/blog/:slug" element={<BlogPostPage />} />
-              <Route
-                path="/admin"
-                element={
-                  <>
-                    <SEO pageType="admin" />
-                    <AdminLogin />
-                    <Footer />
-                  </>
-                }
-              />
-              <Route
-                path="/admin/dashboard"
-                element={
-                  <>
-                    <SEO pageType="admin" />
-                    <Dashboard />
-                    <Footer />
-                  </>
-                }
-              />
-              <Route path="*" element={<Navigate to="/" replace />} />
-            </Routes>
+              <Routes>
+                <Route path="/" element={<HomePage />} />
+                <Route path="/home" element={<Navigate to="/" replace />} />
+                <Route path="/map" element={<MainApp />} />
+                <Route path="/places/:slug" element={<PlacePage />} />
+                <Route path="/activities/:slug" element={<LandingPage kind="activity" />} />
+                <Route path="/areas/:slug" element={<LandingPage kind="area" />} />
+                <Route path="/privacy" element={<PrivacyPolicy />} />
+                <Route path="/terms" element={<TermsOfService />} />
+                <Route path="/blog" element={<BlogIndexPage />} />
+                <Route path="/blog/:slug" element={<BlogPostPage />} />
+                <Route path="/newsletter/preferences" element={<NewsletterPreferencesPage />} />
+                <Route
+                  path="/admin"
+                  element={
+                    <AdminAuthProvider>
+                      <SEO pageType="admin" />
+                      <AdminLogin />
+                      <Footer />
+                    </AdminAuthProvider>
+                  }
+                />
+                <Route
+                  path="/admin/dashboard"
+                  element={
+                    <AdminAuthProvider>
+                      <SEO pageType="admin" />
+                      <Dashboard />
+                      <Footer />
+                    </AdminAuthProvider>
+                  }
+                />
+                <Route path="*" element={<Navigate to="/" replace />} />
+              </Routes>
+            </LanguageProvider>
           </Router>
           </TouchProvider>
           </AppStateProvider>
+          </DayPlannerProvider>
+          </FavoritesProvider>
+          </EventsProvider>
         </LocationsProvider>
       </UserLocationProvider>
     </MobileProvider>
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { ActivitySuggestion, SuggestionStatus } from '../../types/suggestion';
+import { rejectActivitySuggestion } from '../../utils/firebase-service';
+import { ExportColumn } from '../../utils/data-export';
+import ExportButtons from './ExportButtons';
+
+interface ActivitySuggestionsListProps {
+  suggestions: ActivitySuggestion[];
+  formatDate: (timestamp: any) => string;
+  onImport: (suggestion: ActivitySuggestion) => void;
+  onSuggestionUpdated: (suggestion: ActivitySuggestion) => void;
+}
+
+const SUGGESTION_STATUSES: SuggestionStatus[] = ['pending', 'approved', 'rejected'];
+
+const SUGGESTION_EXPORT_COLUMNS: ExportColumn<ActivitySuggestion>[] = [
+  { header: 'ID', value: suggestion => suggestion.id },
+  { header: 'Submitted', value: suggestion => suggestion.timestamp },
+  { header: 'Status', value: suggestion => suggestion.status },
+  { header: 'Name', value: suggestion => suggestion.name },
+  { header: 'Type', value: suggestion => suggestion.type },
+  { header: 'Google Maps link', value: suggestion => suggestion.googleMapsLink },
+  { header: 'Description', value: suggestion => suggestion.description },
+  { header: 'Submitter email', value: suggestion => suggestion.email },
+  { header: 'Imported as', value: suggestion => suggestion.locationId },
+  { header: 'Rejection reason', value: suggestion => suggestion.rejectionReason },
+  { header: 'Reviewed by', value: suggestion => suggestion.reviewedBy },
+  { header: 'Reviewed', value: suggestion => suggestion.reviewedAt }
+];
+
+// Visitor suggestions - import them as locations or reject them with a reason
+const ActivitySuggestionsList: React.FC<ActivitySuggestionsListProps> = ({
+  suggestions,
+  formatDate,
+  onImport,
+  onSuggestionUpdated
+}) => {
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SuggestionStatus | 'all'>('all');
+
+  const filteredSuggestions = useMemo(
+    () => (statusFilter === 'all' ? suggestions : suggestions.filter(suggestion => suggestion.status === statusFilter)),
+    [suggestions, statusFilter]
+  );
+
+  const startRejecting = (id: string) => {
+    setRejectingId(id);
+    setRejectionReason('');
+    setError(null);
+  };
+
+  const handleReject = async (suggestion: ActivitySuggestion) => {
+    if (!rejectionReason.trim()) {
+      setError('Please give a reason for rejecting this suggestion');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await rejectActivitySuggestion(suggestion.id, rejectionReason.trim());
+      onSuggestionUpdated(updated);
+      setRejectingId(null);
+      setSuccessMessage(updated.notificationQueued
+        ? `Rejected "${suggestion.name}" - ${suggestion.email} will be emailed the reason`
+        : `Rejected "${suggestion.name}"`);
+
+      // Clear success message after 5 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 5000);
+    } catch (err: any) {
+      setError(`Failed to reject suggestion: ${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (suggestions.length === 0) {
+    return <p className="text-gray-500 text-center py-4">No activity suggestions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label htmlFor="suggestion-status-filter" className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <select
+            id="suggestion-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SuggestionStatus | 'all')}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="all">All statuses</option>
+            {SUGGESTION_STATUSES.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <p className="text-sm text-gray-500">
+            Showing {filteredSuggestions.length} of {suggestions.length} suggestions
+          </p>
+          <ExportButtons rows={filteredSuggestions} columns={SUGGESTION_EXPORT_COLUMNS} filename="activity-suggestions" />
+        </div>
+      </div>
+
+      {filteredSuggestions.length === 0 && (
+        <p className="text-gray-500 text-center py-4">No suggestions match this filter.</p>
+      )}
+
+      {filteredSuggestions.map(activity => (
+        <div key={activity.id} className="border rounded-lg p-4">
+          <div className="flex justify-between items-start mb-2">
+            <h3 className="font-medium text-lg">{activity.name}</h3>
+            <span className={`px-2 py-1 text-xs rounded-full ${
+              activity.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+              activity.status === 'approved' ? 'bg-green-100 text-green-800' :
+              'bg-red-100 text-red-800'
+            }`}>
+              {activity.status}
+            </span>
+          </div>
+          <p className="text-sm mb-2"><strong>Type:</strong> {activity.type}</p>
+          <p className="text-sm mb-2">
+            <strong>Google Maps:</strong>{' '}
+            <a
+              href={activity.googleMapsLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline"
+            >
+              View location
+            </a>
+          </p>
+          {activity.description && (
+            <p className="text-sm mb-2"><strong>Description:</strong> {activity.description}</p>
+          )}
+          {activity.email && (
+            <p className="text-sm mb-2"><strong>Contact:</strong> {activity.email}</p>
+          )}
+          {activity.status === 'approved' && activity.locationId && (
+            <p className="text-sm mb-2"><strong>Imported as:</strong> {activity.locationId}</p>
+          )}
+          {activity.status === 'rejected' && activity.rejectionReason && (
+            <p className="text-sm mb-2">
+              <strong>Rejection reason:</strong> {activity.rejectionReason}
+              {activity.notificationQueued && <span className="text-gray-500"> (submitter notified)</span>}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Submitted on {formatDate(activity.timestamp)}
+            {activity.reviewedBy && ` - reviewed by ${activity.reviewedBy}`}
+          </p>
+
+          {activity.status === 'pending' && rejectingId !== activity.id && (
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => onImport(activity)}
+                className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+              >
+                Approve &amp; import
+              </button>
+              <button
+                onClick={() => startRejecting(activity.id)}
+                className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+              >
+                Reject
+              </button>
+            </div>
+          )}
+
+          {rejectingId === activity.id && (
+            <div className="mt-3 space-y-2">
+              <label htmlFor={`reject-reason-${activity.id}`} className="block text-sm font-medium text-gray-700">
+                Reason for rejecting
+                {activity.email && <span className="font-normal text-gray-500"> - this is emailed to {activity.email}</span>}
+              </label>
+              <textarea
+                id={`reject-reason-${activity.id}`}
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={2}
+                placeholder="e.g. It is already listed, or it is not aimed at children"
+                className="block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                disabled={isSaving}
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleReject(activity)}
+                  disabled={isSaving || !rejectionReason.trim()}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Rejecting...' : 'Reject suggestion'}
+                </button>
+                <button
+                  onClick={() => setRejectingId(null)}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ActivitySuggestionsList;
@@ -1,81 +1,37 @@
-import React, { useState } from 'react';
-import { addLocation, getLocations } from '../../utils/firebase-service';
-import { fetchPlaceDetails } from '../../utils/places-api';
+import React, { useEffect, useState } from 'react';
+import {
+  addLocation,
+  approveActivitySuggestion,
+  getLocations,
+  storeLocationPhotosInBackground,
+  FieldValidationError
+} from '../../utils/firebase-service';
+import { extractPlaceIdFromUrl, fetchPlaceDetails, findPlaceIdByQuery } from '../../utils/places-api';
+import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
 import { generatePlaceDescription } from '../../utils/description-generator';
+import { buildLocationFromPlace } from '../../utils/location-import';
 import PlaceSearch from './PlaceSearch';
 import LocationForm, { LocationFormData } from './LocationForm';
 import { ActivityType } from '../../types/location';
-
-// Interface for Google Place photo to fix TS type errors
-interface GooglePlacePhoto {
-  photo_reference: string;
-  height?: number;
-  width?: number;
-  html_attributions?: string[];
-}
-
-// Map Google place types to our ActivityType
-const activityTypeMapping: Record<string, ActivityType> = {
-  // Entertainment venues
-  'amusement_park': 'entertainment',
-  'movie_theater': 'movies',
-  'bowling_alley': 'entertainment',
-  'casino': 'entertainment',
-  'theme_park': 'theme-park',
-  
-  // Educational places
-  'aquarium': 'education',
-  'museum': 'education',
-  'library': 'education',
-  'school': 'education',
-  'university': 'education',
-  'science_museum': 'stem',
-  'history_museum': 'history',
-  
-  // Arts and culture
-  'art_gallery': 'arts',
-  'theater': 'drama',
-  'dance_studio': 'dance',
-  
-  // Outdoor activities
-  'zoo': 'outdoor-play',
-  'park': 'outdoor-play',
-  'playground': 'outdoor-play',
-  'campground': 'camp',
-  'beach': 'beach',
-  'hiking_area': 'hike',
-  
-  // Sports facilities
-  'stadium': 'sports',
-  'gym': 'sports',
-  'sports_complex': 'sports',
-  'tennis_court': 'tennis',
-  'basketball_court': 'basketball',
-  'soccer_field': 'soccer',
-  'swimming_pool': 'swim',
-  'martial_arts_school': 'martial-arts',
-  'horse_riding': 'horseback-riding',
-  
-  // Food establishments
-  'restaurant': 'restaurant',
-  'cafe': 'cafe',
-  
-  // Event venues
-  'event_venue': 'event-space',
-  
-  // Other relevant places
-  'language_school': 'language',
-  'yoga_studio': 'yoga'
-};
+import { ActivitySuggestion } from '../../types/suggestion';
 
 interface AddLocationFormProps {
   onLocationAdded?: () => void;
+  suggestion?: ActivitySuggestion | null; // Set by "Approve & import" on an activity suggestion
+  onSuggestionImported?: (suggestion: ActivitySuggestion) => void;
+  onCancelSuggestion?: () => void;
 }
 
-const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) => {
+const AddLocationForm: React.FC<AddLocationFormProps> = ({
+  onLocationAdded,
+  suggestion,
+  onSuggestionImported,
+  onCancelSuggestion
+}) => {
   const [placeId, setPlaceId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<LocationFormData | null>(null);
   const [generatingDescription, setGeneratingDescription] = useState(false);
   const [isProcessingImages, setIsProcessingImages] = useState(false);
@@ -85,7 +41,7 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
     photoCount?: number;
   } | null>(null);
 
-  const fetchPlace = async (id?: string) => {
+  const fetchPlace = async (id?: string, suggestedType?: string) => {
     // Use the provided id or fall back to the state value
     const placeIdToFetch = id || placeId;
     
@@ -96,6 +52,7 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
 
     setIsLoading(true);
     setError(null);
+    setFieldErrors({});
 
     try {
       // Get the Google Maps API instance
@@ -140,130 +97,10 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
         throw new Error('Could not fetch place details');
       }
 
-      // Determine the primary activity type
-      let primaryType: ActivityType = 'entertainment'; // Default
-      
-      if (placeData.types && placeData.types.length > 0) {
-        for (const type of placeData.types) {
-          if (activityTypeMapping[type]) {
-            primaryType = activityTypeMapping[type];
-            break;
-          }
-        }
-      }
-      
-      // Handle both function and direct property patterns for coordinates
-      const getLocationCoordinates = () => {
-        const location = placeData.geometry?.location;
-        if (!location) return { lat: 0, lng: 0 };
-        
-        // First check if location has lat/lng functions (common in Google Maps API)
-        if (typeof location.lat === 'function' && typeof location.lng === 'function') {
-          return {
-            lat: location.lat(),
-            lng: location.lng()
-          };
-        }
-        
-        // Then check if lat/lng are direct properties
-        if (typeof location.lat === 'number' && typeof location.lng === 'number') {
-          return {
-            lat: location.lat,
-            lng: location.lng
-          };
-        }
-        
-        // Finally, see if we can access lat/lng from other properties
-        if (location.latitude !== undefined && location.longitude !== undefined) {
-          return {
-            lat: Number(location.latitude),
-            lng: Number(location.longitude)
-          };
-        }
-        
-        // Fallback to zeros
-        console.warn('Could not determine location coordinates, using default zeros');
-        return { lat: 0, lng: 0 };
-      };
-
-      const coordinates = getLocationCoordinates();
-      
-      // Process opening hours from Google Places API
-      const processOpeningHours = (): Record<string, string> => {
-        const openingHours: Record<string, string> = {};
-        
-        if (placeData.opening_hours && placeData.opening_hours.weekday_text) {
-          const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-          
-          placeData.opening_hours.weekday_text.forEach((text: string) => {
-            for (const day of weekdays) {
-              if (text.startsWith(day)) {
-                openingHours[day] = text.substring(day.length + 2); // +2 to skip ": "
-                break;
-              }
-            }
-          });
-        }
-        
-        return openingHours;
-      };
-      
-      // Process and generate photo URLs
-      const processPhotos = (): string[] => {
-        if (!placeData.photos || !placeData.photos.length) {
-          return [];
-        }
-        
-        const apiKey = process.env.REACT_APP_GOOGLE_MAPS_API_KEY;
-        if (!apiKey) {
-          console.warn('Google Maps API key missing, cannot generate photo URLs');
-          return [];
-        }
-        
-        // Take up to 10 photos and generate URLs
-        return placeData.photos.slice(0, 10).map((photo: GooglePlacePhoto) => {
-          const reference = photo.photo_reference;
-          return `https://maps.googleapis.com/maps/api/place/photo?maxwidth=800&photoreference=${reference}&key=${apiKey}`;
-        });
-      };
-      
-      // Create placeData with all available info from Google
-      const googlePlaceData = {
-        rating: placeData.rating,
-        userRatingsTotal: placeData.user_ratings_total,
-        photoUrls: processPhotos(),
-        phone: placeData.formatted_phone_number,
-        website: placeData.website,
-        address: placeData.formatted_address,
-        hours: processOpeningHours(),
-        last_fetched: new Date().toISOString()
-      };
-      
-      // Prepare the initial form data with type-safe handling of placeData
-      const initialFormData: LocationFormData = {
-        id: placeIdToFetch,
-        name: placeData.name,
-        coordinates: coordinates,
-        types: [primaryType],
-        primaryType: primaryType,
-        address: placeData.formatted_address || '',
-        ageRange: {
-          min: primaryType === 'education' ? 3 : 0,
-          max: 16
-        },
-        description: `${placeData.name} is a great place for kids in Athens. Suitable for various age groups.`,
-        openingHours: processOpeningHours(),
-        priceRange: placeData.price_level ? '€'.repeat(placeData.price_level) : '€',
-        contact: {
-          phone: placeData.formatted_phone_number || '',
-          email: '',
-          website: placeData.website || ''
-        },
-        proTips: '' // Initialize with empty string for proTips
-      };
-      
-      // Add the placeData separately to ensure type safety
-      (initialFormData as any).placeData = googlePlaceData;
+      // A suggested type from a visitor beats our guess from the Google types
+      const initialFormData: LocationFormData = buildLocationFromPlace(placeIdToFetch, placeData, {
+        types: suggestedType && suggestedType in ACTIVITY_CATEGORIES ? [suggestedType as ActivityType] : undefined
+      });
 
       // Set form data
       setFormData(initialFormData);
@@ -300,6 +137,32 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
     }
   };
 
+  // Importing an activity suggestion - find its place and prefill the form
+  useEffect(() => {
+    if (!suggestion) return;
+
+    const importSuggestion = async () => {
+      setFormData(null);
+      setError(null);
+
+      // Share links usually only carry the place name, so fall back to a search
+      let suggestedPlaceId = extractPlaceIdFromUrl(suggestion.googleMapsLink);
+      if (!suggestedPlaceId && window.google?.maps) {
+        suggestedPlaceId = await findPlaceIdByQuery(suggestion.name, window.google.maps);
+      }
+
+      if (!suggestedPlaceId) {
+        setError(`Couldn't find "${suggestion.name}" from the suggested Google Maps link. Search for it below instead.`);
+        return;
+      }
+
+      fetchPlace(suggestedPlaceId, suggestion.type);
+    };
+
+    importSuggestion();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [suggestion]);
+
   const handleFormChange = (updatedData: LocationFormData) => {
     setFormData(updatedData);
   };
@@ -312,6 +175,7 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
 
     setIsLoading(true);
     setError(null);
+    setFieldErrors({});
     setImageProcessingStatus(null);
 
     try {
@@ -329,6 +193,21 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
     // Force a refresh of the locations data to update the admin UI
     await getLocations(true);
     
+    // Approve the suggestion this location came from and link the two records
+    if (suggestion) {
+      try {
+        const approved = await approveActivitySuggestion(suggestion.id, locationId);
+        if (onSuggestionImported) {
+          onSuggestionImported(approved);
+        }
+      } catch (approveError) {
+        console.error('Error approving activity suggestion:', approveError);
+        setError(`The location was saved, but the suggestion could not be marked approved: ${
+          approveError instanceof Error ? approveError.message : 'Unknown error'
+        }`);
+      }
+    }
+    
     // Don't show success message yet - will show after image processing
       
       // Process images if the location has placeData with photoUrls
@@ -340,28 +219,8 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
             type: 'info'
           });
           
-          // Get admin token
-          const adminToken = localStorage.getItem('adminToken');
-          if (!adminToken) {
-            throw new Error('Admin token not found. Please log in again.');
-          }
-          
-          // Call the background function to process images - fire and forget
-          fetch('/api/store-location-photos-background', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${adminToken}`
-            },
-            body: JSON.stringify({
-              locationId
-            })
-          }).then(response => {
-            console.log('Background image processing initiated:', response.status);
-          }).catch(error => {
-            console.warn('Error initiating background image processing:', error);
-            // Non-blocking, so we don't throw the error
-          });
+          // Start the background function to process images - it keeps running after this returns
+          await storeLocationPhotosInBackground(locationId);
           
           // Set status for user feedback
           setImageProcessingStatus({
@@ -393,6 +252,9 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
       }
     } catch (err) {
       console.error('Error saving location:', err);
+      if (err instanceof FieldValidationError) {
+        setFieldErrors(err.fieldErrors);
+      }
       setError(err instanceof Error ? err.message : 'Failed to save location');
     } finally {
       setIsLoading(false);
@@ -407,6 +269,29 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
           Search for a location or enter a Google Place ID to add it to the database.
         </p>
         
+        {suggestion && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md flex justify-between items-start gap-4">
+            <div className="text-sm text-blue-800">
+              <p className="font-medium">Importing suggestion: {suggestion.name}</p>
+              <p>
+                Suggested type: {suggestion.type}
+                {suggestion.email && ` - from ${suggestion.email}`}
+              </p>
+              {suggestion.description && <p className="mt-1 italic">"{suggestion.description}"</p>}
+              <p className="mt-1 text-xs">Saving the location marks the suggestion approved.</p>
+            </div>
+            {onCancelSuggestion && (
+              <button
+                onClick={onCancelSuggestion}
+                className="text-sm text-blue-700 hover:underline whitespace-nowrap"
+                disabled={isLoading}
+              >
+                Cancel import
+              </button>
+            )}
+          </div>
+        )}
+        
         <div className="space-y-4">
           {/* Place Search */}
           <div>
@@ -478,6 +363,7 @@ const AddLocationForm: React.FC<AddLocationFormProps> = ({ onLocationAdded }) =>
             formData={formData}
             onChange={handleFormChange}
             isProcessing={isLoading || generatingDescription}
+            fieldErrors={fieldErrors}
           />
           
           <div className="flex justify-end mt-4">
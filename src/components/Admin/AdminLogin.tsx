@@ -1,17 +1,27 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useAdminAuth } from '../../contexts/AdminAuthContext';
 
 const AdminLogin: React.FC = () => {
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const { role, isLoading: isCheckingSession, signIn } = useAdminAuth();
+
+  // Already signed in as an admin - skip the form
+  useEffect(() => {
+    if (!isCheckingSession && role) {
+      navigate('/admin/dashboard');
+    }
+  }, [isCheckingSession, role, navigate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!password.trim()) {
-      setError('Password is required');
+    if (!email.trim() || !password) {
+      setError('Email and password are required');
       return;
     }
 
@@ -19,28 +29,9 @@ const AdminLogin: React.FC = () => {
     setError('');
 
     try {
-      const response = await fetch('/api/admin', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ password }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Invalid password');
-      }
-
-      if (data.success && data.token) {
-        // Store token in localStorage
-        localStorage.setItem('adminToken', data.token);
-        // Redirect to admin dashboard
-        navigate('/admin/dashboard');
-      } else {
-        setError(data.message || 'Login failed');
-      }
+      // Firebase Auth keeps the session - the role comes from the account's custom claims
+      await signIn(email.trim(), password);
+      navigate('/admin/dashboard');
     } catch (error) {
       console.error('Login error:', error);
       setError(error instanceof Error ? error.message : 'Login failed');
@@ -61,6 +52,21 @@ const AdminLogin: React.FC = () => {
         )}
         
         <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label htmlFor="email" className="block text-gray-700 font-medium mb-2">
+              Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="username"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="you@example.com"
+            />
+          </div>
+
           <div className="mb-4">
             <label htmlFor="password" className="block text-gray-700 font-medium mb-2">
               Password
@@ -70,8 +76,9 @@ const AdminLogin: React.FC = () => {
               id="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Enter admin password"
+              placeholder="Enter your password"
             />
           </div>
           
@@ -87,7 +94,7 @@ const AdminLogin: React.FC = () => {
         </form>
         
         <p className="mt-4 text-sm text-gray-600 text-center">
-          This area is for site administrators only.
+          This area is for site administrators only. Ask an owner if you need an account.
         </p>
       </div>
     </div>
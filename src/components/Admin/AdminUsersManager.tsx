@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { ADMIN_ROLES, AdminRole, getAdminIdToken } from '../../utils/admin-auth';
+
+interface AdminUser {
+  uid: string;
+  email: string | null;
+  role: AdminRole;
+  lastSignIn: string | null;
+}
+
+interface AdminUsersManagerProps {
+  currentEmail: string | null;
+}
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  editor: 'Locations, events, blog posts and photos',
+  moderator: 'Editor access plus reports, suggestions and subscribers',
+  owner: 'Everything, including managing admins'
+};
+
+// Call the admin function with the owner's ID token
+const callAdminApi = async (init?: RequestInit) => {
+  const token = await getAdminIdToken('owner');
+  const response = await fetch('/api/admin', {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    }
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
+
+// Owner-only list of admin accounts and their roles
+const AdminUsersManager: React.FC<AdminUsersManagerProps> = ({ currentEmail }) => {
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState<AdminRole>('editor');
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callAdminApi();
+      setAdmins(data.admins || []);
+    } catch (err: any) {
+      setError(`Failed to load admins: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const setRole = async (email: string, role: AdminRole | null) => {
+    if (role === null && !window.confirm(`Remove admin access for ${email}?`)) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await callAdminApi({ method: 'POST', body: JSON.stringify({ email, role }) });
+      setSuccessMessage(role ? `${email} is now ${role === 'editor' ? 'an' : 'a'} ${role}` : `Removed admin access for ${email}`);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+
+      await fetchAdmins();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim()) return;
+    await setRole(newEmail.trim(), newRole);
+    setNewEmail('');
+  };
+
+  const isSelf = (email: string | null) => !!email && !!currentEmail && email.toLowerCase() === currentEmail.toLowerCase();
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Add or change an admin */}
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[220px]">
+          <label htmlFor="admin-email" className="block text-sm font-medium text-gray-700">
+            Email
+          </label>
+          <input
+            type="email"
+            id="admin-email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            placeholder="The account must already exist in Firebase Auth"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="admin-role" className="block text-sm font-medium text-gray-700">
+            Role
+          </label>
+          <select
+            id="admin-role"
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as AdminRole)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {ADMIN_ROLES.map(role => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving || !newEmail.trim()}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Give Access
+        </button>
+      </form>
+
+      <ul className="text-sm text-gray-500 space-y-1">
+        {ADMIN_ROLES.map(role => (
+          <li key={role}>
+            <span className="font-medium text-gray-700 capitalize">{role}:</span> {ROLE_DESCRIPTIONS[role]}
+          </li>
+        ))}
+      </ul>
+
+      {/* Current admins */}
+      {isLoading ? (
+        <p className="text-gray-500">Loading admins...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sign In</th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {admins.map(admin => (
+                <tr key={admin.uid} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {admin.email || admin.uid}
+                    {isSelf(admin.email) && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={admin.role}
+                      disabled={isSaving || isSelf(admin.email) || !admin.email}
+                      onChange={(e) => admin.email && setRole(admin.email, e.target.value as AdminRole)}
+                      className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {ADMIN_ROLES.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {admin.lastSignIn ? new Date(admin.lastSignIn).toLocaleString() : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm font-medium">
+                    <button
+                      onClick={() => admin.email && setRole(admin.email, null)}
+                      disabled={isSaving || isSelf(admin.email) || !admin.email}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-30"
+                      title="Remove admin access"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminUsersManager;
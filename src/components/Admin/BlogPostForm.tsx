@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { BlogPost, Author, BlogImage } from '../../types/blog';
+import { BlogPost, Author, BlogImage, BlogPostTranslation } from '../../types/blog';
 import { createBlogPost, updateBlogPost } from '../../utils/firebase-service';
 
 interface BlogPostFormProps {
@@ -30,6 +30,7 @@ const BlogPostForm: React.FC<BlogPostFormProps> = ({
   const [mainImage, setMainImage] = useState<BlogImage | null>(null);
   const [categories, setCategories] = useState<string[]>([]);
   const [tags, setTags] = useState<string[]>([]);
+  const [greek, setGreek] = useState<BlogPostTranslation>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [newCategory, setNewCategory] = useState('');
@@ -49,6 +50,7 @@ const BlogPostForm: React.FC<BlogPostFormProps> = ({
       setMainImage(editPost.mainImage || null);
       setCategories(editPost.categories || []);
       setTags(editPost.tags || []);
+      setGreek(editPost.translations?.el || {});
     }
   }, [editPost]);
 
@@ -124,6 +126,11 @@ const BlogPostForm: React.FC<BlogPostFormProps> = ({
     }));
   };
 
+  // Greek fields are optional - the English text is shown where one is empty
+  const handleGreekChange = (field: keyof BlogPostTranslation, value: string) => {
+    setGreek(current => ({ ...current, [field]: value }));
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -166,7 +173,8 @@ const BlogPostForm: React.FC<BlogPostFormProps> = ({
         author,
         mainImage: mainImage as BlogImage,
         categories,
-        tags
+        tags,
+        translations: { ...editPost?.translations, el: greek }
       };
       
       if (editPost) {
@@ -460,6 +468,76 @@ const BlogPostForm: React.FC<BlogPostFormProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Greek translation */}
+      <div className="border-t pt-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Greek Translation</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Shown to readers browsing in Greek. Leave a field empty to show the English text instead.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          <div className="space-y-6">
+            <div>
+              <label htmlFor="titleEl" className="block text-sm font-medium text-gray-700">
+                Title (Greek)
+              </label>
+              <input
+                type="text"
+                id="titleEl"
+                lang="el"
+                value={greek.title || ''}
+                onChange={(e) => handleGreekChange('title', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="subtitleEl" className="block text-sm font-medium text-gray-700">
+                Subtitle (Greek)
+              </label>
+              <input
+                type="text"
+                id="subtitleEl"
+                lang="el"
+                value={greek.subtitle || ''}
+                onChange={(e) => handleGreekChange('subtitle', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="summaryEl" className="block text-sm font-medium text-gray-700">
+                Summary (Greek)
+              </label>
+              <textarea
+                id="summaryEl"
+                lang="el"
+                value={greek.summary || ''}
+                onChange={(e) => handleGreekChange('summary', e.target.value)}
+                rows={3}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="contentEl" className="block text-sm font-medium text-gray-700">
+              Content (Greek)
+            </label>
+            <textarea
+              id="contentEl"
+              lang="el"
+              value={greek.content || ''}
+              onChange={(e) => handleGreekChange('content', e.target.value)}
+              rows={12}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      </div>
       
       {/* Form actions */}
       <div className="flex justify-end space-x-3 pt-5">
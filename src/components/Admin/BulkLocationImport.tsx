@@ -0,0 +1,434 @@
+import React, { useRef, useState } from 'react';
+import { addLocation, storeLocationPhotosInBackground, FieldValidationError } from '../../utils/firebase-service';
+import { fetchPlaceDetailsFromGoogleApi, findPlaceIdByQuery } from '../../utils/places-api';
+import { generatePlaceDescription } from '../../utils/description-generator';
+import {
+  LocationImportRow,
+  buildLocationFromPlace,
+  getPlaceNameFromUrl,
+  parseLocationCsv,
+  parseLocationList
+} from '../../utils/location-import';
+import { useLocations } from '../../contexts/LocationsContext';
+import LocationForm, { LocationFormData } from './LocationForm';
+
+interface BulkLocationImportProps {
+  onLocationsAdded?: () => void;
+}
+
+type ImportItemStatus = 'queued' | 'fetching' | 'ready' | 'duplicate' | 'failed' | 'skipped' | 'saving' | 'added';
+
+interface ImportItem {
+  key: number;
+  row: LocationImportRow;
+  status: ImportItemStatus;
+  message?: string;
+  location?: LocationFormData;
+  fieldErrors?: Record<string, string>;
+}
+
+const STATUS_BADGES: Record<ImportItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  fetching: { label: 'Fetching...', className: 'bg-blue-100 text-blue-800' },
+  ready: { label: 'Ready for review', className: 'bg-yellow-100 text-yellow-800' },
+  duplicate: { label: 'Already added', className: 'bg-gray-100 text-gray-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+  saving: { label: 'Saving...', className: 'bg-blue-100 text-blue-800' },
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' }
+};
+
+// Each row costs a Places lookup and a description generation, so keep batches small
+const MAX_ROWS_PER_BATCH = 100;
+
+// Onboard many places at once - paste Place IDs and Maps URLs or upload a CSV, then
+// review each fetched place before it is added
+const BulkLocationImport: React.FC<BulkLocationImportProps> = ({ onLocationsAdded }) => {
+  const { allLocations, refreshLocations } = useLocations();
+  const [listText, setListText] = useState('');
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [editingKey, setEditingKey] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ action: string; done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const nextKey = useRef(1);
+  const stopRequested = useRef(false);
+
+  const isWorking = progress !== null;
+
+  const updateItem = (key: number, update: Partial<ImportItem>) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...update } : item)));
+  };
+
+  const resolvePlaceId = async (row: LocationImportRow): Promise<string | null> => {
+    if (row.placeId) return row.placeId;
+
+    // Share links and CSV rows without an ID only give us a name to search for
+    const query = row.name || (row.mapsUrl ? getPlaceNameFromUrl(row.mapsUrl) : null);
+    return query ? findPlaceIdByQuery(query, window.google.maps) : null;
+  };
+
+  // Look up each new row one at a time, so the Places quota and the description
+  // function aren't hit in parallel
+  const fetchRows = async (rows: LocationImportRow[]) => {
+    setError(null);
+    if (rows.length === 0) {
+      setError('Nothing to import - add at least one Place ID, Maps URL or name');
+      return;
+    }
+    if (rows.length > MAX_ROWS_PER_BATCH) {
+      setError(`Please import at most ${MAX_ROWS_PER_BATCH} places at a time (got ${rows.length})`);
+      return;
+    }
+    if (!window.google || !window.google.maps) {
+      setError('Google Maps API not loaded');
+      return;
+    }
+
+    const newItems: ImportItem[] = rows.map(row => ({
+      key: nextKey.current++,
+      row,
+      status: row.error ? 'failed' : 'queued',
+      message: row.error
+    }));
+    setItems(prev => [...prev, ...newItems]);
+
+    // Places already in the database or already waiting in the queue
+    const knownIds = new Set([
+      ...allLocations.map(location => location.id),
+      ...items.filter(item => item.location && item.status !== 'skipped').map(item => item.location!.id)
+    ]);
+
+    const toFetch = newItems.filter(item => item.status === 'queued');
+    stopRequested.current = false;
+
+    for (let index = 0; index < toFetch.length; index++) {
+      if (stopRequested.current) break;
+
+      const { key, row } = toFetch[index];
+      setProgress({ action: 'Fetching', done: index, total: toFetch.length });
+      updateItem(key, { status: 'fetching' });
+
+      try {
+        const placeId = await resolvePlaceId(row);
+        if (!placeId) {
+          updateItem(key, { status: 'failed', message: `No Google place found for "${row.label}"` });
+          continue;
+        }
+        if (knownIds.has(placeId)) {
+          updateItem(key, { status: 'duplicate', message: `Place ID ${placeId} is already in the database or the queue` });
+          continue;
+        }
+        knownIds.add(placeId);
+
+        const place = await fetchPlaceDetailsFromGoogleApi(placeId, window.google.maps);
+        const location: LocationFormData = buildLocationFromPlace(placeId, place, row.overrides);
+
+        try {
+          location.description = await generatePlaceDescription(place);
+        } catch (descError) {
+          // Keep the default description - it can be edited during review
+          console.error('Error generating AI description:', descError);
+        }
+
+        updateItem(key, { status: 'ready', location, message: undefined });
+      } catch (err) {
+        console.error(`Error fetching place for row ${row.rowNumber}:`, err);
+        updateItem(key, { status: 'failed', message: err instanceof Error ? err.message : 'Failed to fetch place data' });
+      }
+    }
+
+    // Rows left behind by "Stop" can be fetched again from a new paste or upload
+    setItems(prev => prev.map(item => (
+      item.status === 'queued' ? { ...item, status: 'skipped', message: 'Stopped before fetching' } : item
+    )));
+    setProgress(null);
+  };
+
+  const handleFetchList = async () => {
+    await fetchRows(parseLocationList(listText));
+    setListText('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parseLocationCsv(await file.text());
+    if (parsed.error) {
+      setError(`${file.name}: ${parsed.error}`);
+      return;
+    }
+    await fetchRows(parsed.rows);
+  };
+
+  // Returns true when the location was added
+  const saveItem = async (item: ImportItem): Promise<boolean> => {
+    if (!item.location) return false;
+
+    updateItem(item.key, { status: 'saving', message: undefined, fieldErrors: undefined });
+    try {
+      await addLocation(item.location);
+      updateItem(item.key, { status: 'added' });
+    } catch (err) {
+      console.error(`Error saving ${item.location.name}:`, err);
+      updateItem(item.key, {
+        status: 'ready',
+        message: err instanceof Error ? err.message : 'Failed to save location',
+        fieldErrors: err instanceof FieldValidationError ? err.fieldErrors : undefined
+      });
+      return false;
+    }
+
+    if (item.location.placeData?.photoUrls?.length) {
+      storeLocationPhotosInBackground(item.location.id).catch(photoError => {
+        console.error('Error initiating image processing:', photoError);
+      });
+    }
+    return true;
+  };
+
+  const acceptItems = async (toSave: ImportItem[]) => {
+    setError(null);
+    setEditingKey(null);
+    stopRequested.current = false;
+
+    let added = 0;
+    for (let index = 0; index < toSave.length; index++) {
+      if (stopRequested.current) break;
+      setProgress({ action: 'Adding', done: index, total: toSave.length });
+      if (await saveItem(toSave[index])) added++;
+    }
+    setProgress(null);
+
+    if (added > 0) {
+      await refreshLocations();
+      if (onLocationsAdded) {
+        onLocationsAdded();
+      }
+      setSuccessMessage(`Added ${added} ${added === 1 ? 'location' : 'locations'}. Photos are stored in the background.`);
+
+      // Clear success message after 5 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 5000);
+    }
+    if (added < toSave.length) {
+      setError(`${toSave.length - added} of ${toSave.length} locations were not added - see the queue for details`);
+    }
+  };
+
+  const readyItems = items.filter(item => item.status === 'ready');
+  const hasFinishedItems = items.some(item => ['added', 'skipped', 'duplicate', 'failed'].includes(item.status));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium mb-2">Bulk Import</h3>
+        <p className="text-sm text-gray-500">
+          Add a batch of places, e.g. when onboarding a new neighbourhood. Each place is fetched from Google and gets a
+          generated description, then waits below for review - nothing is added until you accept it.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="bulk-import-list" className="block text-sm font-medium mb-2">
+            Paste Place IDs or Google Maps URLs, one per line
+          </label>
+          <textarea
+            id="bulk-import-list"
+            value={listText}
+            onChange={(e) => setListText(e.target.value)}
+            rows={6}
+            placeholder={'ChIJN1t_tDeuEmsRUsoyG83frY4\nhttps://www.google.com/maps/place/...'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isWorking}
+          />
+          <button
+            onClick={handleFetchList}
+            disabled={isWorking || !listText.trim()}
+            className="mt-2 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:bg-indigo-300"
+          >
+            Fetch places
+          </button>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Or upload a CSV</h4>
+          <p className="text-sm text-gray-600 mb-2">
+            Columns: <code>name</code>, <code>place id</code>, <code>maps url</code>, <code>types</code> (separated by ";"),{' '}
+            <code>age range</code> (e.g. "3-12") and <code>price</code> (Free, €, €€ or €€€). Each row needs a place ID,
+            Maps URL or name; types, ages and price replace the values guessed from Google.
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isWorking}
+            className="block text-sm"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-700">
+            <span>{progress.action} {Math.min(progress.done + 1, progress.total)} of {progress.total}...</span>
+            <button
+              onClick={() => { stopRequested.current = true; }}
+              className="text-red-600 hover:text-red-800"
+            >
+              Stop
+            </button>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-indigo-600 h-2 rounded-full transition-all"
+              style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              {readyItems.length} of {items.length} places ready for review
+            </p>
+            <div className="flex items-center gap-3">
+              {hasFinishedItems && (
+                <button
+                  onClick={() => setItems(prev => prev.filter(item => ['ready', 'queued', 'fetching', 'saving'].includes(item.status)))}
+                  disabled={isWorking}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Clear finished
+                </button>
+              )}
+              <button
+                onClick={() => acceptItems(readyItems)}
+                disabled={isWorking || readyItems.length === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300"
+              >
+                Accept all ready ({readyItems.length})
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Place</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Types</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ages</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {items.map(item => (
+                  <React.Fragment key={item.key}>
+                    <tr>
+                      <td className="px-4 py-2 whitespace-nowrap">{item.row.rowNumber}</td>
+                      <td className="px-4 py-2">
+                        <div className="font-medium">{item.location?.name || item.row.label}</div>
+                        {item.location?.address && <div className="text-xs text-gray-500">{item.location.address}</div>}
+                        {item.message && (
+                          <div className={`text-xs ${item.status === 'failed' || item.status === 'ready' ? 'text-red-600' : 'text-gray-500'}`}>
+                            {item.message}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{item.location?.types.join(', ') || '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {item.location ? `${item.location.ageRange.min}-${item.location.ageRange.max}` : '-'}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{item.location?.priceRange || '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs rounded-full ${STATUS_BADGES[item.status].className}`}>
+                          {STATUS_BADGES[item.status].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap space-x-3">
+                        {item.status === 'ready' && (
+                          <>
+                            <button
+                              onClick={() => setEditingKey(editingKey === item.key ? null : item.key)}
+                              disabled={isWorking}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              {editingKey === item.key ? 'Close' : 'Edit'}
+                            </button>
+                            <button
+                              onClick={() => acceptItems([item])}
+                              disabled={isWorking}
+                              className="text-green-600 hover:text-green-800"
+                            >
+                              Accept
+                            </button>
+                            <button
+                              onClick={() => {
+                                updateItem(item.key, { status: 'skipped', message: undefined });
+                                if (editingKey === item.key) setEditingKey(null);
+                              }}
+                              disabled={isWorking}
+                              className="text-gray-600 hover:text-gray-800"
+                            >
+                              Skip
+                            </button>
+                          </>
+                        )}
+                        {item.status === 'skipped' && item.location && (
+                          <button
+                            onClick={() => updateItem(item.key, { status: 'ready' })}
+                            disabled={isWorking}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Undo skip
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {editingKey === item.key && item.location && (
+                      <tr>
+                        <td colSpan={7} className="p-4 bg-gray-50">
+                          <LocationForm
+                            formData={item.location}
+                            onChange={(location) => updateItem(item.key, { location })}
+                            isProcessing={isWorking}
+                            fieldErrors={item.fieldErrors}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkLocationImport;
@@ -7,6 +7,7 @@ import {
   estimateCacheSize
 } from '../../utils/cache-manager';
 import { forcePhotoUpdatesForAllLocations, getUpdateStatus } from '../../utils/firebase-service';
+import { getAdminIdToken } from '../../utils/admin-auth';
 
 const CacheManager: React.FC = () => {
   const [cacheInfo, setCacheInfo] = useState({
@@ -381,11 +382,8 @@ const CacheManager: React.FC = () => {
           type: 'info'
         });
         
-        // Get admin token from localStorage
-        const token = localStorage.getItem('adminToken');
-        if (!token) {
-          throw new Error('Admin token not found. Please log in again.');
-        }
+        // Get the admin's Firebase ID token
+        const token = await getAdminIdToken();
         
         // Call the migrate-new-photos serverless function
         const response = await fetch('/api/migrate-new-photos', {
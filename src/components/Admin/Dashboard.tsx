@@ -4,43 +4,32 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import LocationsList from './LocationsList';
 import AddLocationForm from './AddLocationForm';
+import BulkLocationImport from './BulkLocationImport';
+import DataHealth from './DataHealth';
+import DeletedLocations from './DeletedLocations';
 import FeaturedLocationsManager from './FeaturedLocationsManager';
 
 import CacheManager from './CacheManager';
 import { BlogPost } from '../../types/blog';
 import BlogPostsList from './BlogPostsList';
 import BlogPostForm from './BlogPostForm';
-
-interface Subscription {
-  id: string;
-  email: string;
-  firstName: string;
-  ageRanges: string[];
-  postalCode: string;
-  subscribedAt: string;
-}
-
-interface ActivitySuggestion {
-  id: string;
-  name: string;
-  type: string;
-  googleMapsLink: string;
-  description: string;
-  email: string;
-  timestamp: string;
-  status: 'pending' | 'approved' | 'rejected';
-}
-
-interface Report {
-  id: string;
-  locationId: string;
-  locationName: string;
-  issueType: string;
-  description: string;
-  email: string;
-  timestamp: string;
-  status: 'new' | 'in-progress' | 'resolved' | 'rejected';
-}
+import LandingPageIntros from './LandingPageIntros';
+import { Event } from '../../types/event';
+import { useEvents } from '../../contexts/EventsContext';
+import { useLocations } from '../../contexts/LocationsContext';
+import EventsList from './EventsList';
+import EventForm from './EventForm';
+import AdminUsersManager from './AdminUsersManager';
+import ReportsTriage from './ReportsTriage';
+import ActivitySuggestionsList from './ActivitySuggestionsList';
+import SubscribersList from './SubscribersList';
+import { ActivitySuggestion } from '../../types/suggestion';
+import { Report } from '../../types/report';
+import { NewsletterSubscriber } from '../../types/newsletter';
+import { isOpenReport } from '../../utils/report-triage';
+import { useAdminAuth } from '../../contexts/AdminAuthContext';
+import { getAdminIdToken } from '../../utils/admin-auth';
+import { getNewsletterSubscribers } from '../../utils/firebase-service';
 
 const formatTimestamp = (timestamp: any): string => {
   if (!timestamp) return 'N/A';
@@ -72,24 +61,32 @@ const formatTimestamp = (timestamp: any): string => {
 };
 
 const Dashboard: React.FC = () => {
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [subscriptions, setSubscriptions] = useState<NewsletterSubscriber[]>([]);
   const [activities, setActivities] = useState<ActivitySuggestion[]>([]);
   const [reports, setReports] = useState<Report[]>([]);
   const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
   const [editingPost, setEditingPost] = useState<BlogPost | null>(null);
   const [blogPostsRefreshKey, setBlogPostsRefreshKey] = useState(0);
+  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const { allEvents, refreshEvents } = useEvents();
+  const { allLocations, refreshLocations } = useLocations();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [locationsRefreshKey, setLocationsRefreshKey] = useState(0);
+  const [activeTab, setActiveTab] = useState('locations');
+  const [locationsTab, setLocationsTab] = useState('list');
+  const [importingSuggestion, setImportingSuggestion] = useState<ActivitySuggestion | null>(null);
   const navigate = useNavigate();
+  const { user, role, isLoading: isAuthLoading, signOut, hasRole } = useAdminAuth();
+  // Reports, suggestions and subscribers are for moderators and owners
+  const canModerate = hasRole('moderator');
 
   // Check if admin is logged in
   useEffect(() => {
-    const token = localStorage.getItem('adminToken');
-    if (!token) {
+    if (!isAuthLoading && !role) {
       navigate('/admin');
     }
-  }, [navigate]);
+  }, [isAuthLoading, role, navigate]);
 
   // Fetch all data on component mount
   useEffect(() => {
@@ -97,19 +94,16 @@ const Dashboard: React.FC = () => {
       setIsLoading(true);
       setError('');
       
-      const token = localStorage.getItem('adminToken');
-      if (!token) {
-        navigate('/admin');
-        return;
-      }
-      
       try {
+        const token = await getAdminIdToken();
         let errorMessages: string[] = [];
   
         // Function to handle fetch with error handling
         const fetchEndpoint = async (endpoint: string) => {
           try {
-            const response = await fetch(`/api/${endpoint}?adminToken=${token}`);
+            const response = await fetch(`/api/${endpoint}`, {
+              headers: { 'Authorization': `Bearer ${token}` }
+            });
             if (!response.ok) {
               const errorData = await response.json().catch(() => ({}));
               throw new Error(`${endpoint} API error: ${errorData.error || response.statusText}`);
@@ -125,9 +119,9 @@ const Dashboard: React.FC = () => {
   
         // Fetch data from all endpoints
         const [subscriptionsData, activitiesData, reportsData, blogPostsData] = await Promise.all([
-          fetchEndpoint('newsletter'),
-          fetchEndpoint('activities'),
-          fetchEndpoint('reports'),
+          canModerate ? fetchEndpoint('newsletter') : null,
+          canModerate ? fetchEndpoint('activities') : null,
+          canModerate ? fetchEndpoint('reports') : null,
           fetchEndpoint('blog-posts')
         ]);
         
@@ -182,11 +176,23 @@ const Dashboard: React.FC = () => {
       }
     };
     
-    fetchData();
-  }, [navigate]);
+    // Wait until the session is restored and we know the role
+    if (role) {
+      fetchData();
+    }
+  }, [role, canModerate]);
 
   const formatDate = formatTimestamp;
   
+  // Reload subscribers after an import
+  const refreshSubscriptions = async () => {
+    try {
+      setSubscriptions(await getNewsletterSubscribers() as NewsletterSubscriber[]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to reload subscribers');
+    }
+  };
+
   // Function to refresh blog posts
   const refreshBlogPosts = () => {
     setBlogPostsRefreshKey(prev => prev + 1);
@@ -198,10 +204,10 @@ const Dashboard: React.FC = () => {
     if (!isLoading) {
       const fetchBlogPosts = async () => {
         try {
-          const token = localStorage.getItem('adminToken');
-          if (!token) return;
-          
-          const response = await fetch(`/api/blog-posts?adminToken=${token}`);
+          const token = await getAdminIdToken();
+          const response = await fetch('/api/blog-posts', {
+            headers: { 'Authorization': `Bearer ${token}` }
+          });
           if (!response.ok) {
             throw new Error('Failed to fetch blog posts');
           }
@@ -223,8 +229,8 @@ const Dashboard: React.FC = () => {
     }
   }, [blogPostsRefreshKey, isLoading]);
   
-  const handleLogout = () => {
-    localStorage.removeItem('adminToken');
+  const handleLogout = async () => {
+    await signOut();
     navigate('/admin');
   };
 
@@ -246,7 +252,12 @@ const Dashboard: React.FC = () => {
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">PameKids Admin</h1>
-          <div>
+          <div className="flex items-center gap-4">
+            {user && (
+              <span className="text-sm text-gray-600">
+                {user.email} <span className="capitalize text-gray-400">({role})</span>
+              </span>
+            )}
             <button
               onClick={handleLogout}
               className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
@@ -264,23 +275,41 @@ const Dashboard: React.FC = () => {
           </div>
         )}
 
-        <Tabs defaultValue="locations" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="mb-6">
             <TabsTrigger value="locations" className="px-4 py-2">
               Locations
             </TabsTrigger>
-            <TabsTrigger value="activities" className="px-4 py-2">
-              Activity Suggestions ({activities.length})
-            </TabsTrigger>
-            <TabsTrigger value="reports" className="px-4 py-2">
-              Issue Reports ({reports.length})
-            </TabsTrigger>
-            <TabsTrigger value="subscriptions" className="px-4 py-2">
-              Newsletter Subscribers ({subscriptions.length})
+            {/* Separate conditions - TabsList only passes the selection to its direct children */}
+            {canModerate && (
+              <TabsTrigger value="activities" className="px-4 py-2">
+                Activity Suggestions ({activities.filter(activity => activity.status === 'pending').length} pending)
+              </TabsTrigger>
+            )}
+            {canModerate && (
+              <TabsTrigger value="reports" className="px-4 py-2">
+                Issue Reports ({reports.filter(isOpenReport).length} open)
+              </TabsTrigger>
+            )}
+            {canModerate && (
+              <TabsTrigger value="subscriptions" className="px-4 py-2">
+                Newsletter Subscribers ({subscriptions.length})
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="events" className="px-4 py-2">
+              Events
             </TabsTrigger>
             <TabsTrigger value="blogposts" className="px-4 py-2">
               Blog Posts ({blogPosts.length})
             </TabsTrigger>
+            <TabsTrigger value="landingpages" className="px-4 py-2">
+              Landing Pages
+            </TabsTrigger>
+            {hasRole('owner') && (
+              <TabsTrigger value="admins" className="px-4 py-2">
+                Admins
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="locations">
@@ -292,7 +321,7 @@ const Dashboard: React.FC = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Tabs defaultValue="list" className="w-full">
+                <Tabs value={locationsTab} onValueChange={setLocationsTab} className="w-full">
                   <TabsList className="mb-4">
                     <TabsTrigger value="list" className="px-4 py-1">
                       Location List
@@ -300,9 +329,18 @@ const Dashboard: React.FC = () => {
                     <TabsTrigger value="add" className="px-4 py-1">
                       Add Location
                     </TabsTrigger>
+                    <TabsTrigger value="bulk-import" className="px-4 py-1">
+                      Bulk Import
+                    </TabsTrigger>
                     <TabsTrigger value="featured" className="px-4 py-1">
                       Featured Locations
                     </TabsTrigger>
+                    <TabsTrigger value="data-health" className="px-4 py-1">
+                      Data Health
+                    </TabsTrigger>
+                    <TabsTrigger value="deleted" className="px-4 py-1">
+                      Deleted
+                    </TabsTrigger>
                     <TabsTrigger value="cache" className="px-4 py-1">
                       Cache Management
                     </TabsTrigger>
@@ -315,13 +353,37 @@ const Dashboard: React.FC = () => {
                   <TabsContent value="add">
                     <AddLocationForm
                       onLocationAdded={() => setLocationsRefreshKey(prev => prev + 1)}
+                      suggestion={importingSuggestion}
+                      onSuggestionImported={(approved) => {
+                        setActivities(prev => prev.map(activity => (activity.id === approved.id ? approved : activity)));
+                        setImportingSuggestion(null);
+                      }}
+                      onCancelSuggestion={() => {
+                        setImportingSuggestion(null);
+                        setActiveTab('activities');
+                      }}
                     />
                   </TabsContent>
                   
+                  <TabsContent value="bulk-import">
+                    <BulkLocationImport onLocationsAdded={() => setLocationsRefreshKey(prev => prev + 1)} />
+                  </TabsContent>
+                  
                   <TabsContent value="featured">
                     <FeaturedLocationsManager />
                   </TabsContent>
                   
+                  <TabsContent value="data-health">
+                    <DataHealth key={locationsRefreshKey} />
+                  </TabsContent>
+                  
+                  <TabsContent value="deleted">
+                    <DeletedLocations
+                      key={locationsRefreshKey}
+                      onRestored={() => setLocationsRefreshKey(prev => prev + 1)}
+                    />
+                  </TabsContent>
+                  
                   <TabsContent value="cache">
                     <CacheManager />
                   </TabsContent>
@@ -335,51 +397,23 @@ const Dashboard: React.FC = () => {
               <CardHeader>
                 <CardTitle>Activity Suggestions</CardTitle>
                 <CardDescription>
-                  Review and manage user-submitted activity suggestions.
+                  Import user-submitted activity suggestions as locations, or reject them with a reason.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {activities.length === 0 ? (
-                  <p className="text-gray-500 text-center py-4">No activity suggestions yet.</p>
-                ) : (
-                  <div className="space-y-4">
-                    {activities.map(activity => (
-                      <div key={activity.id} className="border rounded-lg p-4">
-                        <div className="flex justify-between items-start mb-2">
-                          <h3 className="font-medium text-lg">{activity.name}</h3>
-                          <span className={`px-2 py-1 text-xs rounded-full ${
-                            activity.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                            activity.status === 'approved' ? 'bg-green-100 text-green-800' :
-                            'bg-red-100 text-red-800'
-                          }`}>
-                            {activity.status}
-                          </span>
-                        </div>
-                        <p className="text-sm mb-2"><strong>Type:</strong> {activity.type}</p>
-                        <p className="text-sm mb-2">
-                          <strong>Google Maps:</strong>{' '}
-                          <a
-                            href={activity.googleMapsLink}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 hover:underline"
-                          >
-                            View location
-                          </a>
-                        </p>
-                        {activity.description && (
-                          <p className="text-sm mb-2"><strong>Description:</strong> {activity.description}</p>
-                        )}
-                        {activity.email && (
-                          <p className="text-sm mb-2"><strong>Contact:</strong> {activity.email}</p>
-                        )}
-                        <p className="text-xs text-gray-500">
-                          Submitted on {formatDate(activity.timestamp)}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <ActivitySuggestionsList
+                  suggestions={activities}
+                  formatDate={formatDate}
+                  onImport={(suggestion) => {
+                    // Prefill the Add Location form with the suggested place
+                    setImportingSuggestion(suggestion);
+                    setLocationsTab('add');
+                    setActiveTab('locations');
+                  }}
+                  onSuggestionUpdated={(updated) => {
+                    setActivities(prev => prev.map(activity => (activity.id === updated.id ? updated : activity)));
+                  }}
+                />
               </CardContent>
             </Card>
           </TabsContent>
@@ -389,39 +423,24 @@ const Dashboard: React.FC = () => {
               <CardHeader>
                 <CardTitle>Issue Reports</CardTitle>
                 <CardDescription>
-                  Review and manage reported issues with existing locations.
+                  Work through reported issues with existing locations. Every change is recorded in the report's activity.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {reports.length === 0 ? (
-                  <p className="text-gray-500 text-center py-4">No issue reports yet.</p>
-                ) : (
-                  <div className="space-y-4">
-                    {reports.map(report => (
-                      <div key={report.id} className="border rounded-lg p-4">
-                        <div className="flex justify-between items-start mb-2">
-                          <h3 className="font-medium text-lg">{report.locationName}</h3>
-                          <span className={`px-2 py-1 text-xs rounded-full ${
-                            report.status === 'new' ? 'bg-yellow-100 text-yellow-800' :
-                            report.status === 'in-progress' ? 'bg-blue-100 text-blue-800' :
-                            report.status === 'resolved' ? 'bg-green-100 text-green-800' :
-                            'bg-red-100 text-red-800'
-                          }`}>
-                            {report.status}
-                          </span>
-                        </div>
-                        <p className="text-sm mb-2"><strong>Issue Type:</strong> {report.issueType}</p>
-                        <p className="text-sm mb-2"><strong>Description:</strong> {report.description}</p>
-                        {report.email && (
-                          <p className="text-sm mb-2"><strong>Contact:</strong> {report.email}</p>
-                        )}
-                        <p className="text-xs text-gray-500">
-                          Reported on {formatDate(report.timestamp)}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <ReportsTriage
+                  reports={reports}
+                  locations={allLocations}
+                  currentEmail={user?.email || null}
+                  formatDate={formatDate}
+                  onReportUpdated={(updated) => {
+                    setReports(prev => prev.map(report => (report.id === updated.id ? updated : report)));
+                  }}
+                  onLocationSaved={() => {
+                    setLocationsRefreshKey(prev => prev + 1);
+                    // Suggested edits on other reports are compared with the live details
+                    refreshLocations();
+                  }}
+                />
               </CardContent>
             </Card>
           </TabsContent>
@@ -431,50 +450,84 @@ const Dashboard: React.FC = () => {
               <CardHeader>
                 <CardTitle>Newsletter Subscribers</CardTitle>
                 <CardDescription>
-                  View all newsletter subscribers.
+                  View all newsletter subscribers. Only confirmed subscribers receive newsletters - pending ones have not opened their confirmation email yet.
+                  Export the filtered list, import subscribers from a CSV, or preview a subscriber's personalised digest.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {subscriptions.length === 0 ? (
-                  <p className="text-gray-500 text-center py-4">No subscribers yet.</p>
-                ) : (
-                  <div className="overflow-x-auto">
-                    <table className="min-w-full divide-y divide-gray-200">
-                      <thead className="bg-gray-50">
-                        <tr>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Email
-                          </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Name
-                          </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Age Ranges
-                          </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Location
-                          </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Date
-                          </th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-gray-200">
-                        {subscriptions.map(sub => (
-                          <tr key={sub.id}>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.email}</td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.firstName || '-'}</td>
-                            <td className="px-6 py-4 text-sm">
-                              {sub.ageRanges.join(', ')}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.postalCode || '-'}</td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">{formatDate(sub.subscribedAt)}</td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
+                <SubscribersList
+                  subscribers={subscriptions}
+                  currentEmail={user?.email || null}
+                  formatDate={formatDate}
+                  onImported={refreshSubscriptions}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="events">
+            <Card>
+              <CardHeader>
+                <CardTitle>Events</CardTitle>
+                <CardDescription>
+                  Manage camps, shows and workshops held at locations. Upcoming events appear on the map and location pages.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="list" className="w-full">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="list" className="px-4 py-1">
+                      All Events
+                    </TabsTrigger>
+                    <TabsTrigger value="add" className="px-4 py-1">
+                      {editingEvent ? `Edit: ${editingEvent.title}` : 'Add New Event'}
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="list">
+                    <EventsList
+                      events={allEvents}
+                      locations={allLocations}
+                      onRefresh={refreshEvents}
+                      onEditEvent={(event) => {
+                        setEditingEvent(event);
+                        // Switch to the edit tab
+                        const editTab = document.querySelector('[data-state="inactive"][value="add"]') as HTMLElement;
+                        if (editTab) {
+                          editTab.click();
+                        }
+                      }}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="add">
+                    <EventForm
+                      editEvent={editingEvent}
+                      locations={allLocations}
+                      onSuccess={(event, isEdit) => {
+                        setEditingEvent(null);
+                        refreshEvents();
+
+                        alert(`Event ${isEdit ? 'updated' : 'created'} successfully!`);
+
+                        // Switch back to the list tab
+                        const listTab = document.querySelector('[data-state="inactive"][value="list"]') as HTMLElement;
+                        if (listTab) {
+                          listTab.click();
+                        }
+                      }}
+                      onCancel={() => {
+                        setEditingEvent(null);
+
+                        // Switch back to the list tab
+                        const listTab = document.querySelector('[data-state="inactive"][value="list"]') as HTMLElement;
+                        if (listTab) {
+                          listTab.click();
+                        }
+                      }}
+                    />
+                  </TabsContent>
+                </Tabs>
               </CardContent>
             </Card>
           </TabsContent>
@@ -545,6 +598,36 @@ const Dashboard: React.FC = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="landingpages">
+            <Card>
+              <CardHeader>
+                <CardTitle>Landing Pages</CardTitle>
+                <CardDescription>
+                  Write the intro of each activity and area page. The locations and related blog posts on them are picked automatically.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LandingPageIntros />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {hasRole('owner') && (
+            <TabsContent value="admins">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Admins</CardTitle>
+                  <CardDescription>
+                    Give people access to this dashboard. They sign in with their own Firebase Auth account.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AdminUsersManager currentEmail={user?.email || null} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
 
         </Tabs>
       </main>
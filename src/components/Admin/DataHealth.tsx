@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { getRawLocations } from '../../utils/firebase-service';
+import {
+  DATA_HEALTH_ISSUE_LABELS,
+  DataHealthIssueKind,
+  RawLocation,
+  auditLocations
+} from '../../utils/data-health';
+import LocationEditor from './LocationEditor';
+
+const ISSUE_KINDS = Object.keys(DATA_HEALTH_ISSUE_LABELS) as DataHealthIssueKind[];
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+// Audit of the location catalogue - lists gaps and likely duplicates, each with a link
+// to the location editor to fix it
+const DataHealth: React.FC = () => {
+  const [locations, setLocations] = useState<RawLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [kindFilter, setKindFilter] = useState<DataHealthIssueKind | 'all'>('all');
+  const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchLocations = async () => {
+      try {
+        setIsLoading(true);
+        const rawLocations = await getRawLocations();
+        if (isMounted) {
+          setLocations(rawLocations);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error loading locations for the data health audit:', err);
+        if (isMounted) {
+          setError('Failed to load locations. Please try again.');
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    fetchLocations();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  const issues = useMemo(() => auditLocations(locations), [locations]);
+
+  const countsByKind = useMemo(() => {
+    const counts = {} as Record<DataHealthIssueKind, number>;
+    ISSUE_KINDS.forEach(kind => {
+      counts[kind] = 0;
+    });
+    issues.forEach(issue => {
+      counts[issue.kind]++;
+    });
+    return counts;
+  }, [issues]);
+
+  const filteredIssues = kindFilter === 'all' ? issues : issues.filter(issue => issue.kind === kindFilter);
+  const affectedLocations = new Set(issues.map(issue => issue.locationId)).size;
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-10">
+        <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p>Checking locations...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 text-red-600 p-4 rounded-md my-4">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {editingLocationId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-modal-backdrop">
+          <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-4xl z-modal-container">
+            <LocationEditor
+              locationId={editingLocationId}
+              onClose={() => setEditingLocationId(null)}
+              onSaved={() => setRefreshKey(prev => prev + 1)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Data Health</h3>
+          <p className="text-sm text-gray-500">
+            {issues.length === 0
+              ? `All ${locations.length} locations look complete.`
+              : `${issues.length} issues across ${affectedLocations} of ${locations.length} locations.`}
+          </p>
+        </div>
+        <button
+          onClick={() => setRefreshKey(prev => prev + 1)}
+          className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <RefreshCw size={14} className="mr-1" />
+          Check again
+        </button>
+      </div>
+
+      {/* Summary - each count filters the list */}
+      <div className="flex flex-wrap gap-2">
+        {ISSUE_KINDS.filter(kind => countsByKind[kind] > 0).map(kind => (
+          <button
+            key={kind}
+            onClick={() => setKindFilter(kindFilter === kind ? 'all' : kind)}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              kindFilter === kind
+                ? 'bg-blue-100 text-blue-800 border-blue-300'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {DATA_HEALTH_ISSUE_LABELS[kind]}: {countsByKind[kind]}
+          </button>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="max-w-xs">
+          <label htmlFor="data-health-kind" className="block text-sm font-medium text-gray-700">
+            Issue
+          </label>
+          <select
+            id="data-health-kind"
+            value={kindFilter}
+            onChange={(e) => setKindFilter(e.target.value as DataHealthIssueKind | 'all')}
+            className={selectClassName}
+          >
+            <option value="all">All issues</option>
+            {ISSUE_KINDS.map(kind => (
+              <option key={kind} value={kind}>{DATA_HEALTH_ISSUE_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {filteredIssues.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issue</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fix</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredIssues.map((issue, index) => (
+                <tr key={`${issue.locationId}-${issue.kind}-${issue.relatedLocationId || index}`}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{issue.locationName}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">{DATA_HEALTH_ISSUE_LABELS[issue.kind]}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{issue.message}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => setEditingLocationId(issue.locationId)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      Edit
+                    </button>
+                    {issue.relatedLocationId && (
+                      <button
+                        onClick={() => setEditingLocationId(issue.relatedLocationId!)}
+                        className="ml-3 text-indigo-600 hover:text-indigo-900"
+                      >
+                        Edit other
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataHealth;
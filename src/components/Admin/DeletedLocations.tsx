@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { DeletedLocation } from '../../types/revision';
+import { getDeletedLocations } from '../../utils/firebase-service';
+import LocationHistory from './LocationHistory';
+
+interface DeletedLocationsProps {
+  onRestored: () => void;
+}
+
+// Deleted locations with their change history - restoring any version before the
+// delete brings the location back
+const DeletedLocations: React.FC<DeletedLocationsProps> = ({ onRestored }) => {
+  const [deletedLocations, setDeletedLocations] = useState<DeletedLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [historyLocationId, setHistoryLocationId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchDeletedLocations = async () => {
+      try {
+        setIsLoading(true);
+        const deleted = await getDeletedLocations();
+        if (isMounted) {
+          setDeletedLocations(deleted);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error loading deleted locations:', err);
+        if (isMounted) {
+          setError('Failed to load deleted locations. Please try again.');
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    fetchDeletedLocations();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  const handleRestored = () => {
+    setHistoryLocationId(null);
+    setRefreshKey(prev => prev + 1);
+    onRestored();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-10">
+        <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p>Loading deleted locations...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 text-red-600 p-4 rounded-md my-4">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {historyLocationId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-modal-backdrop">
+          <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-4xl z-modal-container max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium">
+                History of {deletedLocations.find(location => location.id === historyLocationId)?.name}
+              </h3>
+              <button
+                onClick={() => setHistoryLocationId(null)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+            <LocationHistory locationId={historyLocationId} onRestored={handleRestored} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Deleted Locations</h3>
+          <p className="text-sm text-gray-500">
+            Open a location's history and restore a version from before it was deleted to bring it back.
+            Its photos were removed with it and need refreshing afterwards.
+          </p>
+        </div>
+        <button
+          onClick={() => setRefreshKey(prev => prev + 1)}
+          className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <RefreshCw size={14} className="mr-1" />
+          Refresh
+        </button>
+      </div>
+
+      {deletedLocations.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No locations have been deleted.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">History</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {deletedLocations.map(location => (
+                <tr key={location.id}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{location.name}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{new Date(location.deletedAt).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{location.deletedBy}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => setHistoryLocationId(location.id)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      History
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeletedLocations;
@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import { Event, EventFrequency } from '../../types/event';
+import { ActivityType, DayOfWeek, Location } from '../../types/location';
+import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
+import { DAYS_OF_WEEK } from '../../utils/opening-hours';
+import { createEvent, updateEvent } from '../../utils/firebase-service';
+import SearchableDropdown from './SearchableDropdown';
+
+interface EventFormProps {
+  editEvent?: Event | null;
+  locations: Location[];
+  onSuccess: (event: Event, isEdit: boolean) => void;
+  onCancel: () => void;
+}
+
+const activityTypes: { value: ActivityType; label: string }[] = Object.entries(ACTIVITY_CATEGORIES).map(
+  ([value, data]) => ({
+    value: value as ActivityType,
+    label: data.name
+  })
+);
+
+const FREQUENCY_OPTIONS: { value: EventFrequency; label: string }[] = [
+  { value: 'once', label: 'Once (single day or continuous run)' },
+  { value: 'daily', label: 'Every day between the dates' },
+  { value: 'weekly', label: 'Weekly on selected days' }
+];
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const EventForm: React.FC<EventFormProps> = ({
+  editEvent,
+  locations,
+  onSuccess,
+  onCancel
+}) => {
+  // Form state
+  const [locationId, setLocationId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [types, setTypes] = useState<ActivityType[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [frequency, setFrequency] = useState<EventFrequency>('once');
+  const [days, setDays] = useState<DayOfWeek[]>([]);
+  const [ageMin, setAgeMin] = useState(0);
+  const [ageMax, setAgeMax] = useState(16);
+  const [price, setPrice] = useState('');
+  const [bookingUrl, setBookingUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Set form values when editing an existing event
+  useEffect(() => {
+    if (editEvent) {
+      setLocationId(editEvent.locationId);
+      setTitle(editEvent.title || '');
+      setDescription(editEvent.description || '');
+      setTypes(editEvent.types || []);
+      setStartDate(editEvent.startDate || '');
+      setEndDate(editEvent.endDate || '');
+      setStartTime(editEvent.startTime || '');
+      setEndTime(editEvent.endTime || '');
+      setFrequency(editEvent.recurrence?.frequency || 'once');
+      setDays(editEvent.recurrence?.days || []);
+      setAgeMin(editEvent.ageRange?.min ?? 0);
+      setAgeMax(editEvent.ageRange?.max ?? 16);
+      setPrice(editEvent.price || '');
+      setBookingUrl(editEvent.bookingUrl || '');
+    }
+  }, [editEvent]);
+
+  const toggleType = (type: ActivityType, checked: boolean) => {
+    setTypes(current => (checked ? [...current, type] : current.filter(t => t !== type)));
+  };
+
+  const toggleDay = (day: DayOfWeek, checked: boolean) => {
+    // Keep the days in week order so the schedule reads naturally
+    setDays(current => DAYS_OF_WEEK.filter(d => (d === day ? checked : current.includes(d))));
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validate form
+    if (!locationId) {
+      setError('Please choose the location hosting this event');
+      return;
+    }
+
+    if (!title.trim()) {
+      setError('Title is required');
+      return;
+    }
+
+    if (!startDate) {
+      setError('Start date is required');
+      return;
+    }
+
+    // A missing end date means a one-day event
+    const lastDate = endDate || startDate;
+    if (lastDate < startDate) {
+      setError('End date cannot be before the start date');
+      return;
+    }
+
+    if (frequency === 'weekly' && days.length === 0) {
+      setError('Choose at least one day for a weekly event');
+      return;
+    }
+
+    if (startTime && endTime && endTime <= startTime) {
+      setError('End time must be after the start time');
+      return;
+    }
+
+    if (ageMin > ageMax) {
+      setError('Minimum age cannot be greater than maximum age');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      // Prepare event data - empty optional fields are dropped by the service
+      const eventData: Omit<Event, 'id' | 'created_at' | 'updated_at'> = {
+        locationId,
+        title: title.trim(),
+        description: description.trim(),
+        types,
+        startDate,
+        endDate: lastDate,
+        startTime,
+        endTime,
+        recurrence: frequency === 'weekly' ? { frequency, days } : { frequency },
+        ageRange: { min: ageMin, max: ageMax },
+        price: price.trim(),
+        bookingUrl: bookingUrl.trim()
+      };
+
+      if (editEvent) {
+        await updateEvent(editEvent.id, eventData);
+        onSuccess({ ...eventData, id: editEvent.id }, true);
+      } else {
+        const result = await createEvent(eventData);
+        onSuccess({ ...eventData, id: result.id }, false);
+      }
+    } catch (err: any) {
+      setError(`Failed to save event: ${err.message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {/* Left column */}
+        <div className="space-y-6">
+          {/* Location */}
+          <SearchableDropdown
+            items={locations}
+            value={locationId}
+            onChange={(value) => setLocationId(value || '')}
+            label="Location *"
+            placeholder="Search locations..."
+          />
+
+          {/* Title */}
+          <div>
+            <label htmlFor="event-title" className="block text-sm font-medium text-gray-700">
+              Title *
+            </label>
+            <input
+              type="text"
+              id="event-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          {/* Description */}
+          <div>
+            <label htmlFor="event-description" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              id="event-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Price and booking */}
+          <div>
+            <label htmlFor="event-price" className="block text-sm font-medium text-gray-700">
+              Price
+            </label>
+            <input
+              type="text"
+              id="event-price"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="e.g. €15 per child, Free"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="event-booking-url" className="block text-sm font-medium text-gray-700">
+              Booking Link
+            </label>
+            <input
+              type="url"
+              id="event-booking-url"
+              value={bookingUrl}
+              onChange={(e) => setBookingUrl(e.target.value)}
+              placeholder="https://"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {/* Right column */}
+        <div className="space-y-6">
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="event-start-date" className="block text-sm font-medium text-gray-700">
+                Start Date *
+              </label>
+              <input
+                type="date"
+                id="event-start-date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="event-end-date" className="block text-sm font-medium text-gray-700">
+                End Date
+              </label>
+              <input
+                type="date"
+                id="event-end-date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {/* Times */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="event-start-time" className="block text-sm font-medium text-gray-700">
+                Start Time
+              </label>
+              <input
+                type="time"
+                id="event-start-time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="event-end-time" className="block text-sm font-medium text-gray-700">
+                End Time
+              </label>
+              <input
+                type="time"
+                id="event-end-time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="-mt-4 text-sm text-gray-500">
+            Leave times empty for all-day events
+          </p>
+
+          {/* Recurrence */}
+          <div>
+            <label htmlFor="event-frequency" className="block text-sm font-medium text-gray-700">
+              Repeats
+            </label>
+            <select
+              id="event-frequency"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as EventFrequency)}
+              className={inputClassName}
+            >
+              {FREQUENCY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            {frequency === 'weekly' && (
+              <div className="mt-2 flex flex-wrap gap-3">
+                {DAYS_OF_WEEK.map(day => (
+                  <label key={day} className="flex items-center space-x-1">
+                    <input
+                      type="checkbox"
+                      checked={days.includes(day)}
+                      onChange={(e) => toggleDay(day, e.target.checked)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="text-sm">{day.slice(0, 3)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Age range */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="event-age-min" className="block text-sm font-medium text-gray-700">
+                Minimum Age
+              </label>
+              <input
+                type="number"
+                id="event-age-min"
+                min={0}
+                max={18}
+                value={ageMin}
+                onChange={(e) => setAgeMin(parseInt(e.target.value) || 0)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="event-age-max" className="block text-sm font-medium text-gray-700">
+                Maximum Age
+              </label>
+              <input
+                type="number"
+                id="event-age-max"
+                min={0}
+                max={18}
+                value={ageMax}
+                onChange={(e) => setAgeMax(parseInt(e.target.value) || 0)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Activity types */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Activity Types
+        </label>
+        <div className="mt-1 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+          {activityTypes.map(type => (
+            <label key={type.value} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={types.includes(type.value)}
+                onChange={(e) => toggleType(type.value, e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span className="text-sm">{type.label}</span>
+            </label>
+          ))}
+        </div>
+        <p className="mt-1 text-sm text-gray-500">
+          Leave empty to use the location's activity types
+        </p>
+      </div>
+
+      {/* Form actions */}
+      <div className="flex justify-end space-x-3 pt-5">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Saving...' : editEvent ? 'Update Event' : 'Create Event'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default EventForm;
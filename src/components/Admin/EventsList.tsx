@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Calendar, Edit, Trash2 } from 'lucide-react';
+import { Event } from '../../types/event';
+import { Location } from '../../types/location';
+import { deleteEvent } from '../../utils/firebase-service';
+import { formatEventSchedule, getNextEventDate } from '../../utils/events';
+
+interface EventsListProps {
+  events: Event[];
+  locations: Location[];
+  onRefresh: () => void;
+  onEditEvent: (event: Event) => void;
+}
+
+const EventsList: React.FC<EventsListProps> = ({ events, locations, onRefresh, onEditEvent }) => {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const getLocationName = (locationId: string) => {
+    return locations.find(location => location.id === locationId)?.name || 'Unknown location';
+  };
+
+  // Soonest first, finished events at the bottom
+  const sortedEvents = [...events].sort((a, b) => {
+    const nextA = getNextEventDate(a);
+    const nextB = getNextEventDate(b);
+    if (nextA && nextB) return nextA.localeCompare(nextB);
+    if (nextA) return -1;
+    if (nextB) return 1;
+    return b.endDate.localeCompare(a.endDate);
+  });
+
+  // Handle event deletion with confirmation
+  const handleDeleteEvent = async (event: Event) => {
+    const confirmDelete = window.confirm(
+      `Are you sure you want to delete "${event.title}"? This action cannot be undone.`
+    );
+
+    if (!confirmDelete) return;
+
+    try {
+      setIsDeleting(true);
+      setError(null);
+
+      await deleteEvent(event.id);
+
+      setSuccessMessage(`Successfully deleted "${event.title}"`);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+
+      onRefresh();
+    } catch (err: any) {
+      setError(`Failed to delete event: ${err.message}`);
+
+      // Clear error message after 5 seconds
+      setTimeout(() => {
+        setError(null);
+      }, 5000);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Get status label based on the event's dates
+  const getStatusLabel = (event: Event) => {
+    if (!getNextEventDate(event)) {
+      return <span className="px-2 py-1 bg-gray-200 text-gray-800 rounded-full text-xs">Finished</span>;
+    }
+    return <span className="px-2 py-1 bg-green-200 text-green-800 rounded-full text-xs">Upcoming</span>;
+  };
+
+  return (
+    <div>
+      {/* Error and success messages */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-4 p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {isDeleting && (
+        <div className="mb-4 p-3 bg-blue-100 text-blue-800 rounded-md">
+          Processing...
+        </div>
+      )}
+
+      {sortedEvents.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500 mb-4">No events found.</p>
+          <button
+            onClick={() => onRefresh()}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Event
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Schedule
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ages
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedEvents.map(event => (
+                <tr key={event.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900 truncate max-w-xs">{event.title}</div>
+                    <div className="text-xs text-gray-500 truncate max-w-xs">{getLocationName(event.locationId)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {getStatusLabel(event)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex items-center">
+                      <Calendar size={14} className="mr-1" />
+                      {formatEventSchedule(event)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {event.ageRange.min}-{event.ageRange.max}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm font-medium">
+                    <div className="flex justify-center space-x-2">
+                      <button
+                        onClick={() => onEditEvent(event)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                        title="Edit event"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteEvent(event)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete event"
+                        disabled={isDeleting}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventsList;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { ExportColumn, ExportFormat, downloadExport } from '../../utils/data-export';
+
+interface ExportButtonsProps<T> {
+  rows: T[]; // Already filtered - exports match what the list shows
+  columns: ExportColumn<T>[];
+  filename: string;
+}
+
+// CSV and JSON download buttons for an admin list
+const ExportButtons = <T,>({ rows, columns, filename }: ExportButtonsProps<T>) => {
+  const handleExport = (format: ExportFormat) => downloadExport(rows, columns, filename, format);
+
+  return (
+    <div className="flex items-center gap-2">
+      {(['csv', 'json'] as const).map(format => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={rows.length === 0}
+          className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download size={14} className="mr-1" />
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { useLocations } from '../../contexts/LocationsContext';
+import { getLandingPageIntros, saveLandingPageIntro } from '../../utils/firebase-service';
+import {
+  ACTIVITY_LANDING_PAGES,
+  AREA_LANDING_PAGES,
+  LandingPage,
+  getDefaultIntro,
+  getLandingPageLocations
+} from '../../utils/landing-pages';
+
+// Editor for the intro paragraph of each /activities and /areas landing page.
+// Pages without an intro show a generated one-liner, given here as the placeholder.
+const LandingPageIntros: React.FC = () => {
+  const { allLocations } = useLocations();
+  const [intros, setIntros] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState(ACTIVITY_LANDING_PAGES[0].id);
+  const [draft, setDraft] = useState('');
+  const [filter, setFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const allPages = useMemo(() => [...ACTIVITY_LANDING_PAGES, ...AREA_LANDING_PAGES], []);
+  const selectedPage = allPages.find(page => page.id === selectedId) || allPages[0];
+
+  const locationCount = useMemo(
+    () => getLandingPageLocations(selectedPage, allLocations).length,
+    [selectedPage, allLocations]
+  );
+
+  useEffect(() => {
+    const fetchIntros = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setIntros(await getLandingPageIntros());
+      } catch (err) {
+        console.error('Error fetching landing page intros:', err);
+        setError('Failed to load the landing page intros. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchIntros();
+  }, []);
+
+  // Start from the saved intro whenever another page is picked
+  useEffect(() => {
+    setDraft(intros[selectedId] || '');
+  }, [selectedId, intros]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSuccessMessage(null);
+
+      await saveLandingPageIntro(selectedId, draft);
+      setIntros(current => ({ ...current, [selectedId]: draft.trim() }));
+      setSuccessMessage(`Saved the intro of ${selectedPage.name}.`);
+    } catch (err) {
+      console.error('Error saving landing page intro:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the intro. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPageList = (title: string, pages: LandingPage[]) => {
+    const visiblePages = pages.filter(page => page.name.toLowerCase().includes(filter.toLowerCase()));
+    if (visiblePages.length === 0) return null;
+
+    return (
+      <div className="mb-4">
+        <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">{title}</h3>
+        <ul>
+          {visiblePages.map(page => (
+            <li key={page.id}>
+              <button
+                onClick={() => {
+                  setSelectedId(page.id);
+                  setSuccessMessage(null);
+                }}
+                className={`w-full text-left px-2 py-1 rounded text-sm flex justify-between items-center ${
+                  page.id === selectedId ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-100'
+                }`}
+              >
+                <span>{page.name}</span>
+                {!intros[page.id] && <span className="text-xs text-gray-400">default</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+        <span>Loading landing pages...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 text-green-600 p-4 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="border rounded-lg p-3 max-h-[32rem] overflow-y-auto">
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Find a page..."
+            className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          {renderPageList('Activities', ACTIVITY_LANDING_PAGES)}
+          {renderPageList('Areas', AREA_LANDING_PAGES)}
+        </div>
+
+        <div className="md:col-span-2 space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold">{selectedPage.name}</h3>
+              <p className="text-sm text-gray-500">
+                {locationCount === 1 ? '1 location' : `${locationCount} locations`} on this page
+              </p>
+            </div>
+            <a
+              href={selectedPage.path}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              {selectedPage.path}
+              <ExternalLink size={14} />
+            </a>
+          </div>
+
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={8}
+            placeholder={getDefaultIntro(selectedPage, locationCount)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <p className="text-xs text-gray-500">
+            Shown at the top of the page. Leave it empty to use the placeholder text above.
+          </p>
+
+          <button
+            onClick={handleSave}
+            disabled={isSaving || draft.trim() === (intros[selectedId] || '')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Intro'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LandingPageIntros;
@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ActivityType, Location } from '../../types/location';
+import { storeLocationPhotosInBackground, updateLocation } from '../../utils/firebase-service';
+import { fetchPlaceDetailsFromGoogleApi } from '../../utils/places-api';
+import { requestPlaceDescription } from '../../utils/description-generator';
+import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
+import { PRICE_RANGES } from '../../utils/location-import';
+import { BulkEditAction, BulkEditPlanItem, describeBulkEditAction, getRegeneratedDescriptionUpdate, planBulkEdit } from '../../utils/location-bulk-edit';
+
+interface LocationBulkEditProps {
+  selected: Location[];
+  allLocations: Location[];
+  onClose: () => void;
+  onApplied: () => void; // Called on close after a run that changed at least one location
+}
+
+type ActionChoice =
+  | 'add-type'
+  | 'remove-type'
+  | 'set-price'
+  | 'shift-age'
+  | 'feature'
+  | 'unfeature'
+  | 'regenerate-description'
+  | 'refresh-photos';
+
+const ACTION_CHOICES: { value: ActionChoice; label: string }[] = [
+  { value: 'add-type', label: 'Add activity type' },
+  { value: 'remove-type', label: 'Remove activity type' },
+  { value: 'set-price', label: 'Set price range' },
+  { value: 'shift-age', label: 'Shift age range' },
+  { value: 'feature', label: 'Mark as featured' },
+  { value: 'unfeature', label: 'Remove from featured' },
+  { value: 'regenerate-description', label: 'Regenerate descriptions' },
+  { value: 'refresh-photos', label: 'Refresh photos from Google' }
+];
+
+const AGE_SHIFTS = [-3, -2, -1, 1, 2, 3];
+
+type BulkEditOutcome = 'updated' | 'started' | 'skipped' | 'failed';
+
+interface BulkEditResult {
+  location: Location;
+  outcome: BulkEditOutcome;
+  message: string;
+}
+
+const OUTCOME_BADGES: Record<BulkEditOutcome, { label: string; className: string }> = {
+  updated: { label: 'Updated', className: 'bg-green-100 text-green-800' },
+  started: { label: 'Started', className: 'bg-blue-100 text-blue-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+};
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+// Apply one change to the selected locations - shows what will change before anything
+// is written, then saves one location at a time and reports the result for each
+const LocationBulkEdit: React.FC<LocationBulkEditProps> = ({ selected, allLocations, onClose, onApplied }) => {
+  const [choice, setChoice] = useState<ActionChoice>('add-type');
+  const [activityType, setActivityType] = useState<ActivityType>(Object.keys(ACTIVITY_CATEGORIES)[0]);
+  const [priceRange, setPriceRange] = useState(PRICE_RANGES[0]);
+  const [ageShift, setAgeShift] = useState(1);
+  const [plan, setPlan] = useState<{ action: BulkEditAction; items: BulkEditPlanItem[] } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BulkEditResult[] | null>(null);
+
+  const buildAction = (): BulkEditAction => {
+    switch (choice) {
+      case 'add-type':
+      case 'remove-type':
+        return { kind: choice, type: activityType };
+      case 'set-price':
+        return { kind: 'set-price', priceRange };
+      case 'shift-age':
+        return { kind: 'shift-age', years: ageShift };
+      case 'feature':
+      case 'unfeature':
+        return { kind: 'set-featured', featured: choice === 'feature' };
+      default:
+        return { kind: choice };
+    }
+  };
+
+  const applyItem = async (action: BulkEditAction, item: BulkEditPlanItem): Promise<BulkEditResult> => {
+    const { location } = item;
+
+    if (item.update) {
+      await updateLocation(location.id, item.update);
+      return { location, outcome: 'updated', message: item.summary };
+    }
+
+    if (action.kind === 'regenerate-description') {
+      if (!window.google || !window.google.maps) {
+        throw new Error('Google Maps API not loaded');
+      }
+      // Reviews from Google make for a better description than our stored data
+      const place = await fetchPlaceDetailsFromGoogleApi(location.id, window.google.maps);
+      const description = await requestPlaceDescription(place);
+      const update = getRegeneratedDescriptionUpdate(location, description);
+      await updateLocation(location.id, update);
+      return {
+        location,
+        outcome: 'updated',
+        message: update.translations ? 'New description saved - the Greek description was cleared' : 'New description saved'
+      };
+    }
+
+    await storeLocationPhotosInBackground(location.id, true);
+    return { location, outcome: 'started', message: 'Photos are being refreshed in the background' };
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    const toApply = plan.items.filter(item => !item.skipReason);
+    const runResults: BulkEditResult[] = plan.items
+      .filter(item => item.skipReason)
+      .map(item => ({ location: item.location, outcome: 'skipped', message: item.skipReason! }));
+
+    for (let index = 0; index < toApply.length; index++) {
+      setProgress({ done: index, total: toApply.length });
+      try {
+        runResults.push(await applyItem(plan.action, toApply[index]));
+      } catch (err) {
+        console.error(`Bulk edit failed for ${toApply[index].location.id}:`, err);
+        runResults.push({
+          location: toApply[index].location,
+          outcome: 'failed',
+          message: err instanceof Error ? err.message : 'Unknown error'
+        });
+      }
+    }
+
+    setProgress(null);
+    // Keep the list order in the report
+    setResults(plan.items.map(item => runResults.find(result => result.location.id === item.location.id)!));
+  };
+
+  // The list reloads after changes, so wait until the report has been read
+  const handleClose = () => {
+    if (results && results.some(result => result.outcome === 'updated' || result.outcome === 'started')) {
+      onApplied();
+    }
+    onClose();
+  };
+
+  const changing = plan ? plan.items.filter(item => !item.skipReason).length : 0;
+
+  const countOutcome = (outcome: BulkEditOutcome) => (results || []).filter(result => result.outcome === outcome).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-modal-backdrop">
+      <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-3xl max-h-[90vh] flex flex-col z-modal-container">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">Bulk edit {selected.length} locations</h2>
+          <button onClick={handleClose} disabled={progress !== null} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          {!plan && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="bulk-edit-action" className="block text-sm font-medium text-gray-700">
+                  Action
+                </label>
+                <select
+                  id="bulk-edit-action"
+                  value={choice}
+                  onChange={(e) => setChoice(e.target.value as ActionChoice)}
+                  className={selectClassName}
+                >
+                  {ACTION_CHOICES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {(choice === 'add-type' || choice === 'remove-type') && (
+                <div>
+                  <label htmlFor="bulk-edit-type" className="block text-sm font-medium text-gray-700">
+                    Activity Type
+                  </label>
+                  <select
+                    id="bulk-edit-type"
+                    value={activityType}
+                    onChange={(e) => setActivityType(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {Object.entries(ACTIVITY_CATEGORIES).map(([value, category]) => (
+                      <option key={value} value={value}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {choice === 'set-price' && (
+                <div>
+                  <label htmlFor="bulk-edit-price" className="block text-sm font-medium text-gray-700">
+                    Price Range
+                  </label>
+                  <select
+                    id="bulk-edit-price"
+                    value={priceRange}
+                    onChange={(e) => setPriceRange(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {PRICE_RANGES.map(price => (
+                      <option key={price} value={price}>{price}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {choice === 'shift-age' && (
+                <div>
+                  <label htmlFor="bulk-edit-age" className="block text-sm font-medium text-gray-700">
+                    Shift By
+                  </label>
+                  <select
+                    id="bulk-edit-age"
+                    value={ageShift}
+                    onChange={(e) => setAgeShift(parseInt(e.target.value, 10))}
+                    className={selectClassName}
+                  >
+                    {AGE_SHIFTS.map(years => (
+                      <option key={years} value={years}>
+                        {years > 0 ? `+${years}` : years} {Math.abs(years) === 1 ? 'year' : 'years'}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">Both ends of the range move; ages stay within 0-18.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {plan && !results && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <strong>{describeBulkEditAction(plan.action)}</strong>: {changing} of {plan.items.length} locations will
+                change. Nothing has been saved yet.
+              </p>
+              <div className="overflow-x-auto border rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {plan.items.map(item => (
+                      <tr key={item.location.id}>
+                        <td className="px-4 py-2">{item.location.name}</td>
+                        <td className={`px-4 py-2 ${item.skipReason ? 'text-gray-500' : ''}`}>
+                          {item.skipReason ? `No change - ${item.skipReason}` : item.summary}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                Saving {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-indigo-600 h-2 rounded-full transition-all"
+                  style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {results && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {countOutcome('updated')} updated, {countOutcome('started')} started in the background,{' '}
+                {countOutcome('skipped')} skipped, {countOutcome('failed')} failed.
+              </p>
+              <div className="overflow-x-auto border rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {results.map(result => (
+                      <tr key={result.location.id}>
+                        <td className="px-4 py-2">{result.location.name}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className={`px-2 py-1 text-xs rounded-full ${OUTCOME_BADGES[result.outcome].className}`}>
+                            {OUTCOME_BADGES[result.outcome].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">{result.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t">
+          {!plan && (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  const action = buildAction();
+                  setPlan({ action, items: planBulkEdit(selected, action, allLocations) });
+                }}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Review changes
+              </button>
+            </>
+          )}
+          {plan && !results && (
+            <>
+              <button
+                onClick={() => setPlan(null)}
+                disabled={progress !== null}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={progress !== null || changing === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300"
+              >
+                {progress ? 'Saving...' : `Apply to ${changing} ${changing === 1 ? 'location' : 'locations'}`}
+              </button>
+            </>
+          )}
+          {results && (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationBulkEdit;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { getLocationById, updateLocation, getLocations } from '../../utils/firebase-service';
+import { getLocationById, updateLocation, getLocations, FieldValidationError } from '../../utils/firebase-service';
 import LocationForm, { LocationFormData } from './LocationForm';
+import { getLocationSchedule } from '../../utils/opening-hours';
+import LocationHistory from './LocationHistory';
 
 interface LocationEditorProps {
   locationId: string;
@@ -13,6 +15,10 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [showHistory, setShowHistory] = useState(false);
+  // Bumped after a restore so the form reloads the restored values
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     const fetchLocation = async () => {
@@ -42,12 +48,14 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
           ageRange: locationData.ageRange,
           priceRange: locationData.priceRange || '',
           openingHours: locationData.openingHours || {},
+          schedule: getLocationSchedule(locationData),
           contact: {
             phone: locationData.contact?.phone || '',
             email: locationData.contact?.email || '',
             website: locationData.contact?.website || ''
           },
-          proTips: locationData.proTips || ''
+          proTips: locationData.proTips || '',
+          translations: locationData.translations
         };
         
         setLocation(formData);
@@ -61,7 +69,13 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
     };
 
     fetchLocation();
-  }, [locationId]);
+  }, [locationId, reloadKey]);
+
+  const handleRestored = () => {
+    setFieldErrors({});
+    setReloadKey(prev => prev + 1);
+    onSaved();
+  };
 
   const handleFormChange = (updatedData: LocationFormData) => {
     setLocation(updatedData);
@@ -73,6 +87,7 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
     try {
       setIsSaving(true);
       setError(null);
+      setFieldErrors({});
       
       // Deep clean function to handle complex nested objects
       const deepCleanUndefined = (obj: any): any => {
@@ -115,13 +130,19 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
       onClose();
     } catch (err) {
       console.error('Error saving location:', err);
+      // Keep the form open so the messages can be shown next to the fields
+      if (err instanceof FieldValidationError) {
+        setFieldErrors(err.fieldErrors);
+        return;
+      }
       setError(err instanceof Error ? err.message : 'Failed to save location');
     } finally {
       setIsSaving(false);
     }
   };
 
-  if (isLoading) {
+  // Only the first load replaces the editor - reloads after a restore happen behind the history panel
+  if (isLoading && !location) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
@@ -162,13 +183,26 @@ const LocationEditor: React.FC<LocationEditorProps> = ({ locationId, onClose, on
 
   return (
     <div className="p-4 max-h-[80vh] overflow-y-auto">
-      <h2 className="text-xl font-bold mb-4">Edit Location: {location.name}</h2>
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <h2 className="text-xl font-bold">Edit Location: {location.name}</h2>
+        <button
+          onClick={() => setShowHistory(prev => !prev)}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+        >
+          {showHistory ? 'Back to editing' : 'History'}
+        </button>
+      </div>
       
-      <LocationForm
-        formData={location}
-        onChange={handleFormChange}
-        isProcessing={isSaving}
-      />
+      {showHistory ? (
+        <LocationHistory locationId={location.id} onRestored={handleRestored} />
+      ) : (
+        <LocationForm
+          formData={location}
+          onChange={handleFormChange}
+          isProcessing={isSaving}
+          fieldErrors={fieldErrors}
+        />
+      )}
       
       <div className="flex justify-end mt-6 space-x-3">
         <button
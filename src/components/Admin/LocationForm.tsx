@@ -1,6 +1,8 @@
 import React from 'react';
-import { ActivityType } from '../../types/location';
+import { ActivityType, LocationTranslation, OpeningSchedule } from '../../types/location';
 import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
+import { parseOpeningHoursText, scheduleToOpeningHoursText } from '../../utils/opening-hours';
+import OpeningHoursEditor from './OpeningHoursEditor';
 
 // Activity type options for dropdowns - using centralized metadata as source of truth
 const activityTypes: { value: ActivityType; label: string }[] = Object.entries(ACTIVITY_CATEGORIES).map(
@@ -10,6 +12,18 @@ const activityTypes: { value: ActivityType; label: string }[] = Object.entries(A
   })
 );
 
+// Fields with their own error message below the input - other errors are listed at the top
+const INLINE_ERROR_FIELDS = [
+  'name', 'primaryType', 'types', 'address', 'ageRange', 'ageRange.min', 'ageRange.max',
+  'description', 'proTips', 'priceRange', 'contact.phone', 'contact.email', 'contact.website',
+  'openingHours', 'schedule', 'translations.el.description', 'translations.el.proTips'
+];
+
+// Validation message shown under a field
+const FieldError: React.FC<{ message?: string }> = ({ message }) => (
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+);
+
 // Form field interface
 export interface LocationFormData {
   id: string;
@@ -27,6 +41,7 @@ export interface LocationFormData {
   };
   description: string;
   proTips?: string;
+  translations?: { el?: LocationTranslation };
   priceRange?: string;
   contact: {
     phone?: string;
@@ -34,6 +49,7 @@ export interface LocationFormData {
     website?: string;
   };
   openingHours: Record<string, string>;
+  schedule?: OpeningSchedule;
   placeData?: any; // Using any to avoid strict typing issues across components
 }
 
@@ -42,13 +58,16 @@ interface LocationFormProps {
   formData: LocationFormData;
   onChange: (data: LocationFormData) => void;
   isProcessing: boolean;
+  fieldErrors?: Record<string, string>; // From the locations function, keyed by field path
 }
 
 const LocationForm: React.FC<LocationFormProps> = ({
   formData,
   onChange,
-  isProcessing
+  isProcessing,
+  fieldErrors = {}
 }) => {
+  const otherErrors = Object.entries(fieldErrors).filter(([field]) => !INLINE_ERROR_FIELDS.includes(field));
   
   // Helper function to handle form field changes
   const handleChange = (
@@ -80,6 +99,22 @@ const LocationForm: React.FC<LocationFormProps> = ({
     }
   };
 
+  // Handle the Greek description and pro tips
+  const handleGreekChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+
+    onChange({
+      ...formData,
+      translations: {
+        ...formData.translations,
+        el: {
+          ...formData.translations?.el,
+          [name]: value
+        }
+      }
+    });
+  };
+
   // Handle age range changes
   const handleAgeRangeChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -133,22 +168,30 @@ const LocationForm: React.FC<LocationFormProps> = ({
     });
   };
 
-  // Days of the week for opening hours
-  const daysOfWeek = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  // Structured schedule, derived from the text hours for locations saved before schedules existed
+  const schedule = formData.schedule || parseOpeningHoursText(formData.openingHours);
 
-  // Handle opening hours changes
-  const handleOpeningHoursChange = (day: string, value: string) => {
+  // Handle opening hours changes - keep the display text in sync with the schedule
+  const handleScheduleChange = (updatedSchedule: OpeningSchedule) => {
     onChange({
       ...formData,
-      openingHours: {
-        ...formData.openingHours,
-        [day]: value
-      }
+      schedule: updatedSchedule,
+      openingHours: scheduleToOpeningHoursText(updatedSchedule)
     });
   };
 
   return (
     <div className="space-y-4">
+      {otherErrors.length > 0 && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          <ul className="list-disc list-inside text-sm">
+            {otherErrors.map(([field, message]) => (
+              <li key={field}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Google Places Data Summary - Read-only confirmation */}
       {formData.placeData && (
         <div className="bg-blue-50 p-4 rounded-md border border-blue-200">
@@ -239,6 +282,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
             disabled={isProcessing}
           />
+          <FieldError message={fieldErrors.name} />
         </div>
         
         <div>
@@ -257,6 +301,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               </option>
             ))}
           </select>
+          <FieldError message={fieldErrors.primaryType} />
         </div>
       </div>
       
@@ -279,6 +324,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
             </label>
           ))}
         </div>
+        <FieldError message={fieldErrors.types} />
       </div>
       
       {/* Address */}
@@ -294,6 +340,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
           disabled={isProcessing}
         />
+        <FieldError message={fieldErrors.address} />
       </div>
       
       {/* Age Range */}
@@ -313,6 +360,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               <option key={i} value={i}>{i} years</option>
             ))}
           </select>
+          <FieldError message={fieldErrors['ageRange.min']} />
         </div>
         
         <div>
@@ -330,6 +378,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               <option key={age} value={age}>{age} years</option>
             ))}
           </select>
+          <FieldError message={fieldErrors['ageRange.max'] || fieldErrors.ageRange} />
         </div>
       </div>
       
@@ -346,6 +395,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
           disabled={isProcessing}
         />
+        <FieldError message={fieldErrors.description} />
       </div>
 
       {/* Pro Tips */}
@@ -362,10 +412,49 @@ const LocationForm: React.FC<LocationFormProps> = ({
           placeholder="Add insider tips from people who've visited this location..."
           disabled={isProcessing}
         />
+        <FieldError message={fieldErrors.proTips} />
         <p className="mt-1 text-sm text-gray-500">
           Provide practical, insider tips that aren't in the main description. Separate multiple tips with bullet points.
         </p>
       </div>
+
+      {/* Greek Translation */}
+      <div className="border-t pt-4 space-y-4">
+        <p className="text-sm text-gray-500">
+          Shown to visitors browsing in Greek. Leave these empty to show the English text instead.
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Description (Greek)
+          </label>
+          <textarea
+            name="description"
+            value={formData.translations?.el?.description || ''}
+            onChange={handleGreekChange}
+            rows={4}
+            lang="el"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isProcessing}
+          />
+          <FieldError message={fieldErrors['translations.el.description']} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Pro Tips (Greek)
+          </label>
+          <textarea
+            name="proTips"
+            value={formData.translations?.el?.proTips || ''}
+            onChange={handleGreekChange}
+            rows={3}
+            lang="el"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isProcessing}
+          />
+          <FieldError message={fieldErrors['translations.el.proTips']} />
+        </div>
+      </div>
       
       {/* Price Range */}
       <div>
@@ -385,6 +474,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
           <option value="€€">€€ (Moderate)</option>
           <option value="€€€">€€€ (Premium)</option>
         </select>
+        <FieldError message={fieldErrors.priceRange} />
       </div>
       
       {/* Contact Information */}
@@ -403,6 +493,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
               disabled={isProcessing}
             />
+            <FieldError message={fieldErrors['contact.phone']} />
           </div>
           
           <div>
@@ -417,6 +508,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
               disabled={isProcessing}
             />
+            <FieldError message={fieldErrors['contact.email']} />
           </div>
           
           <div>
@@ -431,6 +523,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
               disabled={isProcessing}
             />
+            <FieldError message={fieldErrors['contact.website']} />
           </div>
         </div>
       </div>
@@ -438,23 +531,13 @@ const LocationForm: React.FC<LocationFormProps> = ({
       {/* Opening Hours */}
       <div>
         <h3 className="text-sm font-medium text-gray-700 mb-2">Opening Hours</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {daysOfWeek.map(day => (
-            <div key={day}>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                {day}
-              </label>
-              <input
-                type="text"
-                value={formData.openingHours[day] || ''}
-                onChange={(e) => handleOpeningHoursChange(day, e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                placeholder="e.g. 9:00 AM - 5:00 PM or Closed"
-                disabled={isProcessing}
-              />
-            </div>
-          ))}
-        </div>
+        <p className="text-xs text-gray-500 mb-3">All times are Athens local time.</p>
+        <OpeningHoursEditor
+          schedule={schedule}
+          onChange={handleScheduleChange}
+          disabled={isProcessing}
+        />
+        <FieldError message={fieldErrors.schedule || fieldErrors.openingHours} />
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { LocationRevision, RevisionSource } from '../../types/revision';
+import { getLocationRevisions, restoreLocationRevision } from '../../utils/firebase-service';
+
+interface LocationHistoryProps {
+  locationId: string;
+  onRestored: () => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  'admin': 'Edited',
+  'places-update': 'Google Places update',
+  'restore': 'Restored',
+  'delete': 'Deleted',
+  'suggestion': 'Suggestion approved'
+};
+
+// Old and new values are stored as they are in Firestore - show text as is, everything else as JSON
+const formatRevisionValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'Not set';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+// Change history for a location, newest first, with a diff per revision and restore buttons
+const LocationHistory: React.FC<LocationHistoryProps> = ({ locationId, onRestored }) => {
+  const [revisions, setRevisions] = useState<LocationRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRevisions(await getLocationRevisions(locationId));
+      setError(null);
+    } catch (err: any) {
+      setError(`Failed to load history: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRestore = async (revision: LocationRevision) => {
+    const confirmRestore = window.confirm(
+      `Restore this location to how it was on ${new Date(revision.at).toLocaleString()}? Unsaved changes in the form will be lost.`
+    );
+    if (!confirmRestore) return;
+
+    try {
+      setRestoringId(revision.id);
+      setError(null);
+      await restoreLocationRevision(locationId, revision.id);
+      setSuccessMessage('Location restored');
+      onRestored();
+      await fetchRevisions();
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } catch (err: any) {
+      setError(`Failed to restore: ${err.message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading && revisions.length === 0) {
+    return <p className="text-gray-500 py-4">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {revisions.length === 0 && !error && (
+        <p className="text-gray-500 text-center py-4">No changes have been recorded for this location yet.</p>
+      )}
+
+      {revisions.map((revision, index) => (
+        <div key={revision.id} className="border rounded-lg p-4">
+          <div className="flex justify-between items-start gap-2 mb-2">
+            <div>
+              <p className="font-medium">
+                {SOURCE_LABELS[revision.source] || revision.source} by {revision.author}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(revision.at).toLocaleString()}
+                {index === 0 && (revision.source === 'delete' ? ' - location deleted' : ' - current version')}
+              </p>
+            </div>
+            {index > 0 && (
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {restoringId === revision.id ? 'Restoring...' : 'Restore this version'}
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border rounded-md">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 font-medium w-40">Field</th>
+                  <th className="px-3 py-2 font-medium">Before</th>
+                  <th className="px-3 py-2 font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(revision.changes || []).map(change => (
+                  <tr key={change.field} className="border-t align-top">
+                    <td className="px-3 py-2 font-medium text-gray-700 break-all">{change.field}</td>
+                    <td className="px-3 py-2 bg-red-50 text-red-900">
+                      <pre className="whitespace-pre-wrap break-words font-sans text-xs">{formatRevisionValue(change.from)}</pre>
+                    </td>
+                    <td className="px-3 py-2 bg-green-50 text-green-900">
+                      <pre className="whitespace-pre-wrap break-words font-sans text-xs">{formatRevisionValue(change.to)}</pre>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LocationHistory;
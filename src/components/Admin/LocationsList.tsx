@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { getLocations, deleteLocation } from '../../utils/firebase-service';
 import { Location } from '../../types/location';
 import LocationEditor from './LocationEditor';
+import LocationBulkEdit from './LocationBulkEdit';
 import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
 
 // Define supported sort options
@@ -15,6 +16,10 @@ const LocationsList: React.FC = () => {
   const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   
+  // Bulk edit state - selections survive filter changes, so several filters can be combined
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkEditing, setIsBulkEditing] = useState(false);
+  
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [activityTypeFilter, setActivityTypeFilter] = useState<string>('all');
@@ -187,6 +192,43 @@ const LocationsList: React.FC = () => {
   const handleLocationSaved = () => {
     setRefreshKey(prev => prev + 1); // Refresh the list
   };
+
+  const toggleSelected = (locationId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(locationId)) {
+        next.delete(locationId);
+      } else {
+        next.add(locationId);
+      }
+      return next;
+    });
+  };
+
+  const allShownSelected = locationsWithValidKeys.length > 0 &&
+    locationsWithValidKeys.every(location => selectedIds.has(location.id));
+
+  // Select or clear every location the filters show
+  const toggleAllShown = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      locationsWithValidKeys.forEach(location => {
+        if (allShownSelected) {
+          next.delete(location.id);
+        } else {
+          next.add(location.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const selectedLocations = locations.filter(location => selectedIds.has(location.id));
+
+  const handleBulkEditApplied = () => {
+    setSelectedIds(new Set());
+    setRefreshKey(prev => prev + 1); // Refresh the list
+  };
   
   // Activity type options for filter dropdown - using central metadata.ts as source of truth
   const activityTypeOptions = [
@@ -229,6 +271,15 @@ const LocationsList: React.FC = () => {
         </div>
       )}
 
+      {isBulkEditing && (
+        <LocationBulkEdit
+          selected={selectedLocations}
+          allLocations={locations}
+          onClose={() => setIsBulkEditing(false)}
+          onApplied={handleBulkEditApplied}
+        />
+      )}
+
       {/* Search and Filter Controls */}
       <div className="mb-6 bg-white p-4 rounded-lg shadow-sm">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -378,6 +429,23 @@ const LocationsList: React.FC = () => {
 
       {/* Locations List */}
       <div className="overflow-x-auto">
+        {selectedLocations.length > 0 && (
+          <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-md flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-blue-800 font-medium">{selectedLocations.length} selected</span>
+            <button
+              onClick={() => setIsBulkEditing(true)}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Bulk edit
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="text-blue-700 hover:underline"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
         {locations.length > 0 && (
           <p className="text-sm text-gray-500 mb-2">
             Showing {locationsWithValidKeys.length} of {locations.length} locations
@@ -388,6 +456,15 @@ const LocationsList: React.FC = () => {
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              <th className="px-4 py-3 text-left">
+                <input
+                  type="checkbox"
+                  checked={allShownSelected}
+                  onChange={toggleAllShown}
+                  aria-label="Select all shown locations"
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                />
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Primary Type</th>
@@ -399,7 +476,7 @@ const LocationsList: React.FC = () => {
           <tbody className="bg-white divide-y divide-gray-200">
             {locationsWithValidKeys.length === 0 ? (
               <tr key="empty-row">
-                <td colSpan={6} className="px-4 py-4 text-center text-gray-500">
+                <td colSpan={7} className="px-4 py-4 text-center text-gray-500">
                   {locations.length === 0 ?
                     "No locations found. Add a location to get started." :
                     "No locations match your search criteria. Try adjusting your filters."}
@@ -408,6 +485,15 @@ const LocationsList: React.FC = () => {
             ) : (
               locationsWithValidKeys.map(location => (
                 <tr key={location.id || `fallback-${Math.random()}`}>
+                  <td className="px-4 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(location.id)}
+                      onChange={() => toggleSelected(location.id)}
+                      aria-label={`Select ${location.name}`}
+                      className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                    />
+                  </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
                     <button
                       className="text-indigo-600 hover:text-indigo-900 mr-3"
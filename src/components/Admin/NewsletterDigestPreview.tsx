@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { NewsletterDigestPreview as DigestPreview } from '../../types/newsletter';
+import { previewNewsletterDigest, sendTestNewsletterDigest } from '../../utils/firebase-service';
+
+interface NewsletterDigestPreviewProps {
+  subscriberId: string;
+  defaultTestEmail: string;
+  onClose: () => void;
+}
+
+// A subscriber's personalised digest as they would get it, with a test-send to an admin's inbox
+const NewsletterDigestPreview: React.FC<NewsletterDigestPreviewProps> = ({ subscriberId, defaultTestEmail, onClose }) => {
+  const [preview, setPreview] = useState<DigestPreview | null>(null);
+  const [view, setView] = useState<'html' | 'text'>('html');
+  const [testEmail, setTestEmail] = useState(defaultTestEmail);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPreview = async () => {
+      try {
+        setIsLoading(true);
+        setPreview(await previewNewsletterDigest(subscriberId));
+        setError(null);
+      } catch (err: any) {
+        setError(`Failed to build the digest: ${err.message}`);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPreview();
+  }, [subscriberId]);
+
+  const handleTestSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSending(true);
+      setError(null);
+      setSuccessMessage(await sendTestNewsletterDigest(subscriberId, testEmail.trim() || undefined));
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } catch (err: any) {
+      setError(`Failed to send the test: ${err.message}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-modal-backdrop">
+      <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-3xl max-h-[90vh] flex flex-col z-modal-container">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="text-lg font-semibold">Digest preview</h2>
+            {preview && <p className="text-sm text-gray-500">For {preview.email}</p>}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Close preview">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 text-red-800 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {successMessage && (
+            <div className="p-3 bg-green-100 text-green-800 rounded-md">
+              {successMessage}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-gray-500 py-4">Building digest...</p>
+          ) : preview && (
+            <>
+              <div className="text-sm space-y-1">
+                <p><span className="font-medium">Subject:</span> {preview.subject}</p>
+                <p className="text-gray-600">
+                  {preview.counts.locations} places, {preview.counts.camps} camps, {preview.counts.blogPosts} blog posts
+                  {preview.area ? ` · sorted from ${preview.area}` : ' · no known postal code, so places are not sorted by distance'}
+                </p>
+              </div>
+
+              <div className="flex gap-2">
+                {(['html', 'text'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 text-sm rounded-md ${view === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    {option === 'html' ? 'HTML' : 'Plain text'}
+                  </button>
+                ))}
+              </div>
+
+              {view === 'html' ? (
+                <iframe
+                  title="Digest HTML preview"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-96 border rounded-lg"
+                />
+              ) : (
+                <pre className="w-full h-96 overflow-auto border rounded-lg p-4 text-sm whitespace-pre-wrap">{preview.text}</pre>
+              )}
+
+              <form onSubmit={handleTestSend} className="flex flex-wrap items-end gap-2 border-t pt-4">
+                <div className="flex-1 min-w-[200px]">
+                  <label htmlFor="digestTestEmail" className="block text-sm font-medium text-gray-700 mb-1">
+                    Send a test to
+                  </label>
+                  <input
+                    type="email"
+                    id="digestTestEmail"
+                    value={testEmail}
+                    onChange={(e) => setTestEmail(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSending}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400"
+                >
+                  {isSending ? 'Sending...' : 'Send test'}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewsletterDigestPreview;
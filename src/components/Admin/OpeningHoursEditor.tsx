@@ -0,0 +1,309 @@
+import React from 'react';
+import {
+  DayOfWeek,
+  HoursException,
+  OpeningSchedule,
+  SeasonalHours,
+  TimeInterval,
+  WeeklyHours
+} from '../../types/location';
+import { DAYS_OF_WEEK } from '../../utils/opening-hours';
+
+type DayMode = 'unknown' | 'closed' | '24h' | 'hours';
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// Work out which editing mode matches a day's stored intervals
+const getDayMode = (intervals: TimeInterval[] | undefined): DayMode => {
+  if (!intervals) return 'unknown';
+  if (intervals.length === 0) return 'closed';
+  if (intervals.length === 1 && intervals[0].open === '00:00' && intervals[0].close === '24:00') return '24h';
+  return 'hours';
+};
+
+const getIntervalsForMode = (mode: DayMode): TimeInterval[] | undefined => {
+  switch (mode) {
+    case 'closed':
+      return [];
+    case '24h':
+      return [{ open: '00:00', close: '24:00' }];
+    case 'hours':
+      return [{ open: '09:00', close: '17:00' }];
+    default:
+      return undefined;
+  }
+};
+
+interface IntervalListEditorProps {
+  intervals: TimeInterval[];
+  onChange: (intervals: TimeInterval[]) => void;
+  disabled: boolean;
+}
+
+// Editable list of open/close pairs - a close time before the open time runs past midnight
+const IntervalListEditor: React.FC<IntervalListEditorProps> = ({ intervals, onChange, disabled }) => {
+  const updateInterval = (index: number, field: keyof TimeInterval, value: string) => {
+    onChange(intervals.map((interval, i) => (i === index ? { ...interval, [field]: value } : interval)));
+  };
+
+  return (
+    <div className="space-y-1">
+      {intervals.map((interval, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <input
+            type="time"
+            value={interval.open}
+            onChange={(e) => updateInterval(index, 'open', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="time"
+            value={interval.close === '24:00' ? '00:00' : interval.close}
+            onChange={(e) => updateInterval(index, 'close', e.target.value === '00:00' ? '24:00' : e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          />
+          {interval.close !== '24:00' && interval.close <= interval.open && (
+            <span className="text-xs text-purple-600">next day</span>
+          )}
+          {intervals.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(intervals.filter((_, i) => i !== index))}
+              className="text-xs text-red-600 hover:text-red-800"
+              disabled={disabled}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...intervals, { open: '17:00', close: '21:00' }])}
+        className="text-xs text-indigo-600 hover:text-indigo-800"
+        disabled={disabled}
+      >
+        + Add interval
+      </button>
+    </div>
+  );
+};
+
+interface WeeklyHoursEditorProps {
+  hours: WeeklyHours;
+  onChange: (hours: WeeklyHours) => void;
+  disabled: boolean;
+}
+
+const WeeklyHoursEditor: React.FC<WeeklyHoursEditorProps> = ({ hours, onChange, disabled }) => {
+  const setDayIntervals = (day: DayOfWeek, intervals: TimeInterval[] | undefined) => {
+    const updated: WeeklyHours = { ...hours };
+    if (intervals === undefined) {
+      delete updated[day];
+    } else {
+      updated[day] = intervals;
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      {DAYS_OF_WEEK.map(day => {
+        const intervals = hours[day];
+        const mode = getDayMode(intervals);
+
+        return (
+          <div key={day} className="grid grid-cols-1 md:grid-cols-[120px_140px_1fr] gap-2 items-start">
+            <span className="text-sm font-medium text-gray-700 pt-1">{day}</span>
+            <select
+              value={mode}
+              onChange={(e) => setDayIntervals(day, getIntervalsForMode(e.target.value as DayMode))}
+              className={`${inputClassName} text-sm`}
+              disabled={disabled}
+            >
+              <option value="unknown">Not known</option>
+              <option value="closed">Closed</option>
+              <option value="24h">Open 24 hours</option>
+              <option value="hours">Set hours</option>
+            </select>
+            {mode === 'hours' && intervals && (
+              <IntervalListEditor
+                intervals={intervals}
+                onChange={(updated) => setDayIntervals(day, updated)}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface OpeningHoursEditorProps {
+  schedule: OpeningSchedule;
+  onChange: (schedule: OpeningSchedule) => void;
+  disabled: boolean;
+}
+
+const OpeningHoursEditor: React.FC<OpeningHoursEditorProps> = ({ schedule, onChange, disabled }) => {
+  const seasons = schedule.seasons || [];
+  const exceptions = schedule.exceptions || [];
+
+  const updateSeason = (index: number, season: SeasonalHours) => {
+    onChange({ ...schedule, seasons: seasons.map((s, i) => (i === index ? season : s)) });
+  };
+
+  const updateException = (index: number, exception: HoursException) => {
+    onChange({ ...schedule, exceptions: exceptions.map((e, i) => (i === index ? exception : e)) });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Regular weekly hours */}
+      <WeeklyHoursEditor
+        hours={schedule.weekly}
+        onChange={(weekly) => onChange({ ...schedule, weekly })}
+        disabled={disabled}
+      />
+
+      {/* Seasonal hours */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-1">Seasonal Hours</h4>
+        <p className="text-xs text-gray-500 mb-2">
+          Replace the regular hours between two dates each year (MM-DD). Days left as "Not known" fall back to the regular week.
+        </p>
+        <div className="space-y-4">
+          {seasons.map((season, index) => (
+            <div key={index} className="p-3 border border-gray-200 rounded-md space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  type="text"
+                  value={season.name}
+                  onChange={(e) => updateSeason(index, { ...season, name: e.target.value })}
+                  placeholder="e.g. Summer"
+                  className={inputClassName}
+                  disabled={disabled}
+                />
+                <input
+                  type="text"
+                  value={season.startDate}
+                  onChange={(e) => updateSeason(index, { ...season, startDate: e.target.value })}
+                  placeholder="06-01"
+                  pattern="\d{2}-\d{2}"
+                  className={`${inputClassName} w-20`}
+                  disabled={disabled}
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="text"
+                  value={season.endDate}
+                  onChange={(e) => updateSeason(index, { ...season, endDate: e.target.value })}
+                  placeholder="09-15"
+                  pattern="\d{2}-\d{2}"
+                  className={`${inputClassName} w-20`}
+                  disabled={disabled}
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...schedule, seasons: seasons.filter((_, i) => i !== index) })}
+                  className="text-xs text-red-600 hover:text-red-800 ml-auto"
+                  disabled={disabled}
+                >
+                  Remove season
+                </button>
+              </div>
+              <WeeklyHoursEditor
+                hours={season.hours}
+                onChange={(hours) => updateSeason(index, { ...season, hours })}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({
+            ...schedule,
+            seasons: [...seasons, { name: '', startDate: '06-01', endDate: '09-15', hours: {} }]
+          })}
+          className="mt-2 text-sm text-indigo-600 hover:text-indigo-800"
+          disabled={disabled}
+        >
+          + Add seasonal hours
+        </button>
+      </div>
+
+      {/* Holiday exceptions */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-1">Holidays &amp; Exceptions</h4>
+        <p className="text-xs text-gray-500 mb-2">One-off hours for a specific date, e.g. closed on Easter Sunday.</p>
+        <div className="space-y-2">
+          {exceptions.map((exception, index) => (
+            <div key={index} className="flex flex-wrap items-start gap-2 text-sm">
+              <input
+                type="date"
+                value={exception.date}
+                onChange={(e) => updateException(index, { ...exception, date: e.target.value })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                value={exception.label || ''}
+                onChange={(e) => updateException(index, { ...exception, label: e.target.value })}
+                placeholder="e.g. Easter Sunday"
+                className={inputClassName}
+                disabled={disabled}
+              />
+              <label className="flex items-center gap-1 pt-1">
+                <input
+                  type="checkbox"
+                  checked={exception.intervals.length === 0}
+                  onChange={(e) => updateException(index, {
+                    ...exception,
+                    intervals: e.target.checked ? [] : [{ open: '10:00', close: '14:00' }]
+                  })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  disabled={disabled}
+                />
+                Closed
+              </label>
+              {exception.intervals.length > 0 && (
+                <IntervalListEditor
+                  intervals={exception.intervals}
+                  onChange={(intervals) => updateException(index, { ...exception, intervals })}
+                  disabled={disabled}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange({ ...schedule, exceptions: exceptions.filter((_, i) => i !== index) })}
+                className="text-xs text-red-600 hover:text-red-800 pt-1"
+                disabled={disabled}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({
+            ...schedule,
+            exceptions: [...exceptions, { date: '', label: '', intervals: [] }]
+          })}
+          className="mt-2 text-sm text-indigo-600 hover:text-indigo-800"
+          disabled={disabled}
+        >
+          + Add exception
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OpeningHoursEditor;
@@ -0,0 +1,382 @@
+import React, { useMemo, useState } from 'react';
+import { Location } from '../../types/location';
+import {
+  IssueType,
+  Report,
+  ReportHistoryEntry,
+  ReportStatus,
+  ReportTriageUpdate,
+  SuggestedEditStatus
+} from '../../types/report';
+import {
+  ISSUE_TYPE_LABELS,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_TRANSITIONS,
+  ReportFilters,
+  canTransition,
+  getReportQueue
+} from '../../utils/report-triage';
+import { getSuggestedEditPatch, hasLocationChangedSince } from '../../utils/suggested-edits';
+import { FieldValidationError, updateLocation, updateReport } from '../../utils/firebase-service';
+import { ExportColumn } from '../../utils/data-export';
+import LocationEditor from './LocationEditor';
+import ExportButtons from './ExportButtons';
+import SuggestedEditDiff from './SuggestedEditDiff';
+
+interface ReportsTriageProps {
+  reports: Report[];
+  locations: Location[];
+  currentEmail: string | null;
+  formatDate: (timestamp: any) => string;
+  onReportUpdated: (report: Report) => void;
+  onLocationSaved: () => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<ReportStatus, string> = {
+  'new': 'bg-yellow-100 text-yellow-800',
+  'in-progress': 'bg-blue-100 text-blue-800',
+  'resolved': 'bg-green-100 text-green-800',
+  'rejected': 'bg-red-100 text-red-800'
+};
+
+const SUGGESTED_EDIT_BADGES: Record<SuggestedEditStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting for review', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' }
+};
+
+// Button text for moving a report to each status
+const getStatusActionLabel = (from: ReportStatus, to: ReportStatus): string => {
+  if (to === 'in-progress') return from === 'new' ? 'Start working' : 'Reopen';
+  if (to === 'new') return 'Move back to new';
+  return to === 'resolved' ? 'Resolve' : 'Reject';
+};
+
+// One line of the audit trail in plain words
+const describeHistoryEntry = (entry: ReportHistoryEntry): string => {
+  switch (entry.type) {
+    case 'status':
+      return `${REPORT_STATUS_LABELS[entry.from]} → ${REPORT_STATUS_LABELS[entry.to]}`;
+    case 'assignment':
+      return entry.to ? `Assigned to ${entry.to}` : `Unassigned from ${entry.from}`;
+    case 'note':
+      return entry.text;
+    case 'suggested-edit':
+      return `Suggested changes ${entry.to}`;
+  }
+};
+
+const REPORT_EXPORT_COLUMNS: ExportColumn<Report>[] = [
+  { header: 'ID', value: report => report.id },
+  { header: 'Received', value: report => report.timestamp },
+  { header: 'Status', value: report => REPORT_STATUS_LABELS[report.status] },
+  { header: 'Issue type', value: report => ISSUE_TYPE_LABELS[report.issueType] },
+  { header: 'Location ID', value: report => report.locationId },
+  { header: 'Location', value: report => report.locationName },
+  { header: 'Description', value: report => report.description },
+  { header: 'Reporter email', value: report => report.email },
+  { header: 'Assigned to', value: report => report.assignedTo },
+  { header: 'Suggested changes', value: report => report.suggestedEditStatus },
+  { header: 'Last updated', value: report => report.updated_at }
+];
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+// Issue report queue - change status, assign, add internal notes and fix the location
+const ReportsTriage: React.FC<ReportsTriageProps> = ({
+  reports,
+  locations,
+  currentEmail,
+  formatDate,
+  onReportUpdated,
+  onLocationSaved
+}) => {
+  const [filters, setFilters] = useState<ReportFilters>({ status: 'open', issueType: 'all' });
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const queue = useMemo(() => getReportQueue(reports, filters), [reports, filters]);
+
+  const saveTriage = async (report: Report, update: ReportTriageUpdate, message: string) => {
+    try {
+      setSavingId(report.id);
+      setError(null);
+      const updated = await updateReport(report.id, update);
+      onReportUpdated(updated);
+      if (update.note) {
+        setNoteDrafts(prev => ({ ...prev, [report.id]: '' }));
+      }
+      setSuccessMessage(message);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } catch (err: any) {
+      setError(`Failed to update report: ${err.message}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Patch the location with the visitor's changes, then record the decision on the report
+  const acceptSuggestedEdit = async (report: Report, location: Location) => {
+    if (!report.suggestedEdit) return;
+
+    try {
+      setSavingId(report.id);
+      setError(null);
+      await updateLocation(location.id, getSuggestedEditPatch(location, report.suggestedEdit));
+      onLocationSaved();
+    } catch (err: any) {
+      const details = err instanceof FieldValidationError ? Object.values(err.fieldErrors).join('. ') : err.message;
+      setError(`Failed to update ${location.name}: ${details}`);
+      setSavingId(null);
+      return;
+    }
+
+    await saveTriage(
+      report,
+      {
+        suggestedEdit: 'accepted',
+        ...(canTransition(report.status, 'resolved') ? { status: 'resolved' as ReportStatus } : {})
+      },
+      `Suggested changes applied to ${location.name}`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Location Editor Modal */}
+      {editingLocationId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-modal-backdrop">
+          <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-4xl z-modal-container">
+            <LocationEditor
+              locationId={editingLocationId}
+              onClose={() => setEditingLocationId(null)}
+              onSaved={onLocationSaved}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="report-status-filter" className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <select
+            id="report-status-filter"
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as ReportFilters['status'] }))}
+            className={selectClassName}
+          >
+            <option value="open">Open (new and in progress)</option>
+            <option value="all">All statuses</option>
+            {REPORT_STATUSES.map(status => (
+              <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="report-type-filter" className="block text-sm font-medium text-gray-700">
+            Issue Type
+          </label>
+          <select
+            id="report-type-filter"
+            value={filters.issueType}
+            onChange={(e) => setFilters(prev => ({ ...prev, issueType: e.target.value as ReportFilters['issueType'] }))}
+            className={selectClassName}
+          >
+            <option value="all">All issue types</option>
+            {(Object.keys(ISSUE_TYPE_LABELS) as IssueType[]).map(type => (
+              <option key={type} value={type}>{ISSUE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between md:justify-end gap-3">
+          <p className="text-sm text-gray-500">
+            Showing {queue.length} of {reports.length} reports
+          </p>
+          <ExportButtons rows={queue} columns={REPORT_EXPORT_COLUMNS} filename="issue-reports" />
+        </div>
+      </div>
+
+      {queue.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          {reports.length === 0 ? 'No issue reports yet.' : 'No reports match these filters.'}
+        </p>
+      ) : (
+        queue.map(report => {
+          const isSaving = savingId === report.id;
+          const noteDraft = noteDrafts[report.id] || '';
+          const history = report.history || [];
+          const location = locations.find(loc => loc.id === report.locationId);
+          const editStatus = report.suggestedEditStatus || 'pending';
+          const isEditPending = Boolean(report.suggestedEdit) && editStatus === 'pending';
+
+          return (
+            <div key={report.id} className="border rounded-lg p-4">
+              <div className="flex justify-between items-start mb-2">
+                <h3 className="font-medium text-lg">{report.locationName}</h3>
+                <span className={`px-2 py-1 text-xs rounded-full ${STATUS_BADGE_CLASSES[report.status] || STATUS_BADGE_CLASSES.new}`}>
+                  {REPORT_STATUS_LABELS[report.status] || report.status}
+                </span>
+              </div>
+              <p className="text-sm mb-2"><strong>Issue Type:</strong> {ISSUE_TYPE_LABELS[report.issueType] || report.issueType}</p>
+              <p className="text-sm mb-2"><strong>Description:</strong> {report.description}</p>
+              {report.email && (
+                <p className="text-sm mb-2"><strong>Contact:</strong> {report.email}</p>
+              )}
+              <p className="text-sm mb-2">
+                <strong>Assigned to:</strong>{' '}
+                {report.assignedTo || <span className="text-gray-500">Nobody</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                Reported on {formatDate(report.timestamp)}
+              </p>
+
+              {/* Suggested changes */}
+              {report.suggestedEdit && (
+                <div className="mt-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h4 className="text-sm font-medium">Suggested changes</h4>
+                    <span className={`px-2 py-1 text-xs rounded-full ${SUGGESTED_EDIT_BADGES[editStatus].className}`}>
+                      {SUGGESTED_EDIT_BADGES[editStatus].label}
+                    </span>
+                  </div>
+                  <SuggestedEditDiff edit={report.suggestedEdit} location={isEditPending ? location : undefined} />
+                  {isEditPending && !location && (
+                    <p className="text-sm text-red-700">This location no longer exists, so the changes cannot be applied.</p>
+                  )}
+                  {isEditPending && location && hasLocationChangedSince(location, report.suggestedEdit) && (
+                    <p className="text-sm text-yellow-800">
+                      The location has been edited since this was reported - check the current details before accepting.
+                    </p>
+                  )}
+                  {isEditPending && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => location && acceptSuggestedEdit(report, location)}
+                        disabled={isSaving || !location}
+                        className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Accept &amp; apply
+                      </button>
+                      <button
+                        onClick={() => saveTriage(report, { suggestedEdit: 'rejected' }, 'Suggested changes rejected')}
+                        disabled={isSaving}
+                        className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Reject changes
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex flex-wrap gap-2 mt-3">
+                {(REPORT_STATUS_TRANSITIONS[report.status] || []).map(nextStatus => (
+                  <button
+                    key={nextStatus}
+                    onClick={() => saveTriage(
+                      report,
+                      { status: nextStatus },
+                      `${report.locationName} marked ${REPORT_STATUS_LABELS[nextStatus].toLowerCase()}`
+                    )}
+                    disabled={isSaving}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {getStatusActionLabel(report.status, nextStatus)}
+                  </button>
+                ))}
+                {currentEmail && report.assignedTo !== currentEmail.toLowerCase() && (
+                  <button
+                    onClick={() => saveTriage(report, { assignedTo: currentEmail }, `${report.locationName} assigned to you`)}
+                    disabled={isSaving}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Assign to me
+                  </button>
+                )}
+                {report.assignedTo && (
+                  <button
+                    onClick={() => saveTriage(report, { assignedTo: null }, `${report.locationName} unassigned`)}
+                    disabled={isSaving}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Unassign
+                  </button>
+                )}
+                <button
+                  onClick={() => setEditingLocationId(report.locationId)}
+                  disabled={!report.locationId}
+                  className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Open in editor
+                </button>
+              </div>
+
+              {/* Internal note */}
+              <div className="mt-3 flex gap-2">
+                <textarea
+                  value={noteDraft}
+                  onChange={(e) => setNoteDrafts(prev => ({ ...prev, [report.id]: e.target.value }))}
+                  rows={2}
+                  placeholder="Internal note - only admins see this"
+                  className="flex-1 rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  disabled={isSaving}
+                />
+                <button
+                  onClick={() => saveTriage(report, { note: noteDraft }, 'Note added')}
+                  disabled={isSaving || !noteDraft.trim()}
+                  className="self-start px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Add note
+                </button>
+              </div>
+
+              {/* Audit trail */}
+              {history.length > 0 && (
+                <details className="mt-3">
+                  <summary className="text-sm text-gray-600 cursor-pointer">
+                    Activity ({history.length})
+                  </summary>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {history.map((entry, index) => (
+                      <li key={index} className="flex gap-2">
+                        <span className="text-gray-500 whitespace-nowrap">{formatDate(entry.at)}</span>
+                        <span className="text-gray-500">{entry.by}:</span>
+                        <span className={entry.type === 'note' ? 'italic' : ''}>{describeHistoryEntry(entry)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ReportsTriage;
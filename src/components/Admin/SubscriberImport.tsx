@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { SubscriberImportOutcome, SubscriberImportReport, SubscriberImportRow } from '../../types/newsletter';
+import { importNewsletterSubscribers } from '../../utils/firebase-service';
+import { parseSubscriberCsv } from '../../utils/subscriber-import';
+
+interface SubscriberImportProps {
+  onImported: () => void;
+}
+
+const OUTCOME_BADGES: Record<SubscriberImportOutcome, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Duplicate', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' }
+};
+
+// Import subscribers from another mailing tool's CSV - a dry run lists duplicates and
+// invalid rows first, and only new, valid rows are added
+const SubscriberImport: React.FC<SubscriberImportProps> = ({ onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SubscriberImportRow[]>([]);
+  const [rowNumbers, setRowNumbers] = useState<number[]>([]);
+  const [report, setReport] = useState<SubscriberImportReport | null>(null);
+  const [showNewRows, setShowNewRows] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName('');
+    setRows([]);
+    setRowNumbers([]);
+    setReport(null);
+    setShowNewRows(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setError(null);
+    setFileName(file.name);
+
+    const parsed = parseSubscriberCsv(await file.text());
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setRows(parsed.rows);
+      setRowNumbers(parsed.rowNumbers);
+      setReport(await importNewsletterSubscribers(parsed.rows, true));
+    } catch (err: any) {
+      setError(`Failed to check the file: ${err.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const result = await importNewsletterSubscribers(rows, false);
+      setSuccessMessage(`Imported ${result.summary.imported} subscribers from ${fileName}`);
+      reset();
+      onImported();
+
+      // Clear success message after 5 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 5000);
+    } catch (err: any) {
+      setError(`Failed to import: ${err.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const listedResults = report
+    ? report.results.filter(result => showNewRows || result.outcome !== 'new')
+    : [];
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-medium">Import subscribers from CSV</h3>
+        <p className="text-sm text-gray-600">
+          The file needs an <code>email</code> column. <code>name</code>, <code>age ranges</code>, <code>interests</code> and{' '}
+          <code>postal code</code> are optional - separate several values with ";". Imported subscribers are added as
+          confirmed, so only import people who opted in with your previous tool. Addresses already on the list, including
+          unsubscribed ones, are skipped.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange}
+        disabled={isWorking}
+        className="block text-sm"
+      />
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-100 text-green-800 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      {isWorking && !report && <p className="text-gray-500">Checking {fileName}...</p>}
+
+      {report && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            <strong>{fileName}</strong>: {report.summary.total} rows - {report.summary.new} new,{' '}
+            {report.summary.duplicate} duplicates, {report.summary.invalid} invalid. Nothing has been saved yet.
+          </p>
+
+          {listedResults.length > 0 && (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto border rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {listedResults.map(result => (
+                    <tr key={result.index}>
+                      <td className="px-4 py-2 whitespace-nowrap">{rowNumbers[result.index]}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">{result.email || rows[result.index]?.email || '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs rounded-full ${OUTCOME_BADGES[result.outcome].className}`}>
+                          {OUTCOME_BADGES[result.outcome].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">{result.message || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={handleImport}
+              disabled={isWorking || report.summary.new === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {isWorking ? 'Importing...' : `Import ${report.summary.new} new subscribers`}
+            </button>
+            <button
+              onClick={reset}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            {report.summary.new > 0 && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showNewRows}
+                  onChange={(e) => setShowNewRows(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300"
+                />
+                Show new rows too
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscriberImport;
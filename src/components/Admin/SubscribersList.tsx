@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { NewsletterSubscriber, SubscriberStatus } from '../../types/newsletter';
+import { NEWSLETTER_AGE_RANGES } from '../../utils/newsletter';
+import { ExportColumn } from '../../utils/data-export';
+import ExportButtons from './ExportButtons';
+import NewsletterDigestPreview from './NewsletterDigestPreview';
+import SubscriberImport from './SubscriberImport';
+
+interface SubscribersListProps {
+  subscribers: NewsletterSubscriber[];
+  currentEmail: string | null;
+  formatDate: (timestamp: any) => string;
+  onImported: () => void;
+}
+
+const SUBSCRIBER_STATUSES: SubscriberStatus[] = ['pending', 'confirmed', 'unsubscribed'];
+
+const SUBSCRIBER_STATUS_BADGES: Record<SubscriberStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  unsubscribed: 'bg-gray-100 text-gray-700'
+};
+
+// Sign-ups from before double opt-in have no status
+const getStatus = (subscriber: NewsletterSubscriber): SubscriberStatus => subscriber.status || 'confirmed';
+
+// Column names match what SubscriberImport reads, so an export can be imported again
+const SUBSCRIBER_EXPORT_COLUMNS: ExportColumn<NewsletterSubscriber>[] = [
+  { header: 'Email', value: subscriber => subscriber.email },
+  { header: 'Status', value: getStatus },
+  { header: 'Name', value: subscriber => subscriber.firstName },
+  { header: 'Age ranges', value: subscriber => subscriber.ageRanges },
+  { header: 'Interests', value: subscriber => subscriber.interests },
+  { header: 'Postal code', value: subscriber => subscriber.postalCode },
+  { header: 'Subscribed', value: subscriber => subscriber.subscribedAt },
+  { header: 'Source', value: subscriber => subscriber.source || 'sign-up' }
+];
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+// Newsletter subscribers - filter, export, import from CSV and preview each subscriber's digest
+const SubscribersList: React.FC<SubscribersListProps> = ({ subscribers, currentEmail, formatDate, onImported }) => {
+  const [statusFilter, setStatusFilter] = useState<SubscriberStatus | 'all'>('all');
+  const [ageRangeFilter, setAgeRangeFilter] = useState('all');
+  const [isImporting, setIsImporting] = useState(false);
+  const [previewSubscriberId, setPreviewSubscriberId] = useState<string | null>(null);
+
+  const filteredSubscribers = useMemo(() => subscribers.filter(subscriber =>
+    (statusFilter === 'all' || getStatus(subscriber) === statusFilter) &&
+    (ageRangeFilter === 'all' || (subscriber.ageRanges || []).includes(ageRangeFilter))
+  ), [subscribers, statusFilter, ageRangeFilter]);
+
+  return (
+    <div className="space-y-4">
+      {previewSubscriberId && (
+        <NewsletterDigestPreview
+          subscriberId={previewSubscriberId}
+          defaultTestEmail={currentEmail || ''}
+          onClose={() => setPreviewSubscriberId(null)}
+        />
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="subscriber-status-filter" className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <select
+            id="subscriber-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SubscriberStatus | 'all')}
+            className={selectClassName}
+          >
+            <option value="all">All statuses</option>
+            {SUBSCRIBER_STATUSES.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="subscriber-age-filter" className="block text-sm font-medium text-gray-700">
+            Age Range
+          </label>
+          <select
+            id="subscriber-age-filter"
+            value={ageRangeFilter}
+            onChange={(e) => setAgeRangeFilter(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="all">All age ranges</option>
+            {NEWSLETTER_AGE_RANGES.map(range => (
+              <option key={range} value={range}>{range}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between md:justify-end gap-3">
+          <p className="text-sm text-gray-500">
+            Showing {filteredSubscribers.length} of {subscribers.length} subscribers
+          </p>
+          <ExportButtons rows={filteredSubscribers} columns={SUBSCRIBER_EXPORT_COLUMNS} filename="newsletter-subscribers" />
+          <button
+            type="button"
+            onClick={() => setIsImporting(!isImporting)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {isImporting ? 'Close import' : 'Import CSV'}
+          </button>
+        </div>
+      </div>
+
+      {isImporting && <SubscriberImport onImported={onImported} />}
+
+      {filteredSubscribers.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          {subscribers.length === 0 ? 'No subscribers yet.' : 'No subscribers match these filters.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Age Ranges
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Digest
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredSubscribers.map(sub => (
+                <tr key={sub.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.email}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 py-1 text-xs rounded-full ${SUBSCRIBER_STATUS_BADGES[getStatus(sub)]}`}>
+                      {getStatus(sub)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.firstName || '-'}</td>
+                  <td className="px-6 py-4 text-sm">
+                    {(sub.ageRanges || []).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{sub.postalCode || '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{formatDate(sub.subscribedAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => setPreviewSubscriberId(sub.id)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Preview
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscribersList;
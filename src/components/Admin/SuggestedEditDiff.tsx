@@ -0,0 +1,57 @@
+import React from 'react';
+import { Location } from '../../types/location';
+import { SuggestedEdit } from '../../types/report';
+import {
+  SUGGESTED_EDIT_FIELDS,
+  SUGGESTED_EDIT_LABELS,
+  formatSuggestedEditValue
+} from '../../utils/suggested-edits';
+
+interface SuggestedEditDiffProps {
+  edit: SuggestedEdit;
+  // The live location - compared against while the edit is pending, otherwise the stored "from" is shown
+  location?: Location;
+}
+
+// Side-by-side view of a visitor's proposed changes against the location's details
+const SuggestedEditDiff: React.FC<SuggestedEditDiffProps> = ({ edit, location }) => {
+  const fields = SUGGESTED_EDIT_FIELDS.filter(field => edit[field] !== undefined);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border rounded-md">
+        <thead className="bg-gray-50 text-left text-gray-600">
+          <tr>
+            <th className="px-3 py-2 font-medium w-32">Field</th>
+            <th className="px-3 py-2 font-medium">{location ? 'Current' : 'Before'}</th>
+            <th className="px-3 py-2 font-medium">Suggested</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => {
+            const change = edit[field]!;
+            const current = location ? location[field] : change.from;
+
+            return (
+              <tr key={field} className="border-t align-top">
+                <td className="px-3 py-2 font-medium text-gray-700">{SUGGESTED_EDIT_LABELS[field]}</td>
+                <td className="px-3 py-2 bg-red-50 text-red-900">
+                  {formatSuggestedEditValue(field, current).map((line, index) => (
+                    <div key={index}>{line}</div>
+                  ))}
+                </td>
+                <td className="px-3 py-2 bg-green-50 text-green-900">
+                  {formatSuggestedEditValue(field, change.to).map((line, index) => (
+                    <div key={index}>{line}</div>
+                  ))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SuggestedEditDiff;
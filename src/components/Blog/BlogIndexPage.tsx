@@ -7,8 +7,11 @@ import { BlogPost } from '../../types/blog';
 import Header from '../Layout/Header';
 import Footer from '../Layout/Footer';
 import SEO from '../SEO';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGE_CONFIG, getLocalizedField } from '../../utils/i18n';
 
 const BlogIndexPage: React.FC = () => {
+  const { t } = useLanguage();
   const [posts, setPosts] = useState<BlogPost[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -91,9 +94,9 @@ const BlogIndexPage: React.FC = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Page Title */}
           <div className="text-center mb-12">
-            <h1 className="text-3xl md:text-4xl font-bold text-blue-500 mb-2">PameKids Blog</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-blue-500 mb-2">{t('blog.title')}</h1>
             <p className="text-gray-600 max-w-2xl mx-auto">
-              Discover articles, guides and reviews about children's activities in Athens and beyond.
+              {t('blog.intro')}
             </p>
           </div>
           
@@ -109,7 +112,7 @@ const BlogIndexPage: React.FC = () => {
                       : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
                   }`}
                 >
-                  All Posts
+                  {t('blog.allPosts')}
                 </button>
                 
                 {allCategories.map(category => (
@@ -157,14 +160,14 @@ const BlogIndexPage: React.FC = () => {
             // No posts found
             <div className="text-center py-12">
               <p className="text-gray-500 text-lg">
-                No blog posts found for this category. Please check back later.
+                {t('blog.noPosts')}
               </p>
               {selectedCategory && (
                 <button
                   onClick={() => setSelectedCategory(null)}
                   className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
                 >
-                  View All Posts
+                  {t('blog.viewAll')}
                 </button>
               )}
             </div>
@@ -183,6 +186,8 @@ const BlogPostCard: React.FC<{ post: BlogPost }> = ({ post }) => {
   const showCategoryBadges = false; // Set to true to re-enable
   // TEMPORARY: Disable author information
   const showAuthorInfo = false; // Set to true to re-enable
+  const { language, t } = useLanguage();
+  const title = getLocalizedField(post, 'title', language);
   
   // Generate fallback image based on post title
   const getFallbackImage = (title: string) => {
@@ -195,12 +200,12 @@ const BlogPostCard: React.FC<{ post: BlogPost }> = ({ post }) => {
     return { backgroundColor, initialLetter };
   };
   
-  const { backgroundColor, initialLetter } = getFallbackImage(post.title);
+  const { backgroundColor, initialLetter } = getFallbackImage(title);
   
   // Format the publish date
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(LANGUAGE_CONFIG[language].dateLocale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric'
@@ -217,7 +222,7 @@ const BlogPostCard: React.FC<{ post: BlogPost }> = ({ post }) => {
         {post.mainImage?.url ? (
           <img
             src={post.mainImage.url}
-            alt={post.mainImage.alt || post.title}
+            alt={post.mainImage.alt || title}
             className="w-full h-full object-cover"
             loading="lazy"
           />
@@ -252,18 +257,18 @@ const BlogPostCard: React.FC<{ post: BlogPost }> = ({ post }) => {
       
       {/* Post content */}
       <div className="p-6 flex-1 flex flex-col">
-        <h2 className="text-xl font-bold text-gray-800 mb-2 line-clamp-2">{post.title}</h2>
+        <h2 className="text-xl font-bold text-gray-800 mb-2 line-clamp-2">{title}</h2>
         
         <div className="flex items-center text-sm text-gray-500 mb-4">
           <Calendar size={14} className="mr-1" />
           <span>{formatDate(post.publishDate)}</span>
           
           {post.readingTime && (
-            <span className="ml-4">{post.readingTime} min read</span>
+            <span className="ml-4">{t('blog.readingTime', { minutes: post.readingTime })}</span>
           )}
         </div>
         
-        <p className="text-gray-600 mb-4 line-clamp-3">{post.summary}</p>
+        <p className="text-gray-600 mb-4 line-clamp-3">{getLocalizedField(post, 'summary', language)}</p>
         
         <div className="mt-auto flex items-center">
           {/* Author info */}
@@ -288,7 +293,7 @@ const BlogPostCard: React.FC<{ post: BlogPost }> = ({ post }) => {
             <div></div> /* Empty div to maintain layout */
           )}
           
-          <span className={`${showAuthorInfo ? 'ml-auto' : ''} text-blue-500 font-medium`}>Read More →</span>
+          <span className={`${showAuthorInfo ? 'ml-auto' : ''} text-blue-500 font-medium`}>{t('blog.readMore')}</span>
         </div>
       </div>
     </Link>
@@ -1,4 +1,5 @@
 import React, { ReactNode } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface BlogPostBodyProps {
   children?: ReactNode;
@@ -47,6 +48,8 @@ export const BlogSubheading: React.FC<{
   children: ReactNode;
   level: 2 | 3 | 4;
 }> = ({ id, children, level }) => {
+  const { t } = useLanguage();
+
   // Dynamically render the appropriate heading level
   if (level === 2) {
     return (
@@ -56,7 +59,7 @@ export const BlogSubheading: React.FC<{
           <a
             href={`#${id}`}
             className="absolute opacity-0 group-hover:opacity-100 -ml-6 pr-2 text-blue-400"
-            aria-label="Anchor link"
+            aria-label={t('blog.anchorLink')}
           >
             #
           </a>
@@ -71,7 +74,7 @@ export const BlogSubheading: React.FC<{
           <a
             href={`#${id}`}
             className="absolute opacity-0 group-hover:opacity-100 -ml-6 pr-2 text-blue-400"
-            aria-label="Anchor link"
+            aria-label={t('blog.anchorLink')}
           >
             #
           </a>
@@ -86,7 +89,7 @@ export const BlogSubheading: React.FC<{
           <a
             href={`#${id}`}
             className="absolute opacity-0 group-hover:opacity-100 -ml-6 pr-2 text-blue-400"
-            aria-label="Anchor link"
+            aria-label={t('blog.anchorLink')}
           >
             #
           </a>
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Clock, Calendar, Tag } from 'lucide-react';
 import { Author } from '../../types/blog';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGE_CONFIG } from '../../utils/i18n';
 
 interface BlogPostHeaderProps {
   title: string;
@@ -31,10 +33,11 @@ const BlogPostHeader: React.FC<BlogPostHeaderProps> = ({
   const showTagsAndCategories = false; // Set to true to re-enable
   // TEMPORARY: Disable author information
   const showAuthorInfo = false; // Set to true to re-enable
+  const { language, t } = useLanguage();
   // Format date for display
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(LANGUAGE_CONFIG[language].dateLocale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric'
@@ -92,14 +95,14 @@ const BlogPostHeader: React.FC<BlogPostHeaderProps> = ({
           {readingTime && (
             <div className="flex items-center">
               <Clock size={16} className="mr-1" />
-              <span>{readingTime} min read</span>
+              <span>{t('blog.readingTime', { minutes: readingTime })}</span>
             </div>
           )}
           
           {updatedDate && publishDate !== updatedDate && (
             <div className="flex items-center">
               <span className="text-sm italic">
-                Updated: {formatDate(updatedDate)}
+                {t('blog.updated', { date: formatDate(updatedDate) })}
               </span>
             </div>
           )}
@@ -4,6 +4,8 @@ import { ChevronLeft } from 'lucide-react';
 import { getBlogPostBySlug as getSampleBlogPostBySlug, getRelatedBlogPosts as getSampleRelatedBlogPosts } from '../../data/sampleBlogPosts';
 import { getBlogPostBySlug, getBlogPosts } from '../../utils/firebase-service';
 import { BlogPost } from '../../types/blog';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getLanguageUrl, getLocalizedField } from '../../utils/i18n';
 import {
   BlogPostLayout,
   BlogPostHeader,
@@ -16,6 +18,7 @@ import {
 
 const BlogPostPage: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
+  const { language, t } = useLanguage();
   const [post, setPost] = useState<BlogPost | null>(null);
   const [relatedPosts, setRelatedPosts] = useState<BlogPost[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -131,8 +134,8 @@ const BlogPostPage: React.FC = () => {
   if (isLoading || !post) {
     return (
       <BlogPostLayout
-        title="Loading Blog Post..."
-        description="Loading blog post content."
+        title={t('blog.loadingTitle')}
+        description={t('blog.loadingDescription')}
       >
         <div className="animate-pulse">
           <div className="h-8 bg-gray-200 rounded w-3/4 mb-4"></div>
@@ -152,13 +155,17 @@ const BlogPostPage: React.FC = () => {
     );
   }
 
+  const title = getLocalizedField(post, 'title', language);
+  const summary = getLocalizedField(post, 'summary', language);
+  const postUrl = `https://www.pamekids.com/blog/${post.slug}`;
+
   return (
     <BlogPostLayout
-      title={post.title}
-      description={post.summary}
+      title={title}
+      description={summary}
       imageUrl={post.mainImage?.url}
       imageAlt={post.mainImage?.alt}
-      canonicalUrl={`https://www.pamekids.com/blog/${post.slug}`}
+      canonicalUrl={getLanguageUrl(postUrl, language)}
       post={post} // Pass the full post object for enhanced SEO
     >
       {/* Back to blog link */}
@@ -168,14 +175,14 @@ const BlogPostPage: React.FC = () => {
           className="inline-flex items-center text-blue-500 hover:text-blue-700"
         >
           <ChevronLeft size={18} />
-          <span>Back to all articles</span>
+          <span>{t('blog.backToAll')}</span>
         </Link>
       </div>
       
       {/* Post header with metadata */}
       <BlogPostHeader
-        title={post.title}
-        subtitle={post.subtitle}
+        title={title}
+        subtitle={getLocalizedField(post, 'subtitle', language)}
         author={post.author}
         publishDate={post.publishDate}
         updatedDate={post.updatedDate}
@@ -191,20 +198,20 @@ const BlogPostPage: React.FC = () => {
       {showImageCarousel && post.images && post.images.length > 0 && (
         <ImageSlider
           images={post.images}
-          blogTitle={post.title}
+          blogTitle={title}
           blogId={post.id}
         />
       )}
       
       {/* Post content */}
-      <BlogPostBody content={post.content} />
+      <BlogPostBody content={getLocalizedField(post, 'content', language)} />
       
       {/* Social sharing buttons */}
       <div className="mt-8 mb-12 border-t border-gray-200 pt-6">
         <ShareButtons
-          title={post.title}
-          url={`https://www.pamekids.com/blog/${post.slug}`}
-          summary={post.summary}
+          title={title}
+          url={getLanguageUrl(postUrl, language)}
+          summary={summary}
           hashtags={post.tags}
         />
       </div>
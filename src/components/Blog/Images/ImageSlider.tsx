@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { BlogImage } from '../../../types/blog';
 import { trackPhotoInteraction } from '../../../utils/analytics';
+import { useLanguage } from '../../../contexts/LanguageContext';
 
 interface ImageSliderProps {
   images: BlogImage[];
@@ -21,6 +22,7 @@ const ImageSlider: React.FC<ImageSliderProps> = ({
   const [currentIndex, setCurrentIndex] = useState(0);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const sliderRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
 
   // Track when the component mounts and images are viewed
   useEffect(() => {
@@ -121,7 +123,7 @@ const ImageSlider: React.FC<ImageSliderProps> = ({
             <button
               onClick={goToPrevious}
               className="absolute left-2 top-1/2 transform -translate-y-1/2 bg-white/80 rounded-full p-2 hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-              aria-label="Previous image"
+              aria-label={t('photos.previousImage')}
             >
               <ChevronLeft size={20} />
             </button>
@@ -129,7 +131,7 @@ const ImageSlider: React.FC<ImageSliderProps> = ({
             <button
               onClick={goToNext}
               className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-white/80 rounded-full p-2 hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-              aria-label="Next image"
+              aria-label={t('photos.nextImage')}
             >
               <ChevronRight size={20} />
             </button>
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { BlogImage } from '../../../types/blog';
+import { useLanguage } from '../../../contexts/LanguageContext';
 
 interface MainImageProps {
   image: BlogImage;
@@ -11,12 +12,13 @@ interface MainImageProps {
  */
 const MainImage: React.FC<MainImageProps> = ({ image }) => {
   const [imageError, setImageError] = useState(false);
+  const { t } = useLanguage();
 
   // If image fails to load
   if (imageError) {
     return (
       <div className="w-full h-60 bg-gray-200 flex items-center justify-center rounded-lg mb-8">
-        <p className="text-gray-500">Image not available</p>
+        <p className="text-gray-500">{t('photos.unavailable')}</p>
       </div>
     );
   }
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { BlogImage } from '../../../types/blog';
+import { useLanguage } from '../../../contexts/LanguageContext';
 
 interface NestedImageProps {
   image: BlogImage;
@@ -17,6 +18,7 @@ const NestedImage: React.FC<NestedImageProps> = ({
   width = 'medium'
 }) => {
   const [imageError, setImageError] = useState(false);
+  const { t } = useLanguage();
 
   // Width classes based on the width prop
   const widthClasses = {
@@ -37,7 +39,7 @@ const NestedImage: React.FC<NestedImageProps> = ({
   if (imageError) {
     return (
       <div className={`bg-gray-200 h-40 rounded flex items-center justify-center mb-6 ${alignClasses[align]} ${widthClasses[width]}`}>
-        <p className="text-gray-500 text-sm">Image not available</p>
+        <p className="text-gray-500 text-sm">{t('photos.unavailable')}</p>
       </div>
     );
   }
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { BlogPost } from '../../types/blog';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGE_CONFIG, getLocalizedField } from '../../utils/i18n';
 
 interface RelatedContentSectionProps {
   posts: Partial<BlogPost>[];
@@ -13,8 +15,10 @@ interface RelatedContentSectionProps {
  */
 const RelatedContentSection: React.FC<RelatedContentSectionProps> = ({
   posts,
-  title = "Related Articles"
+  title
 }) => {
+  const { t } = useLanguage();
+
   // If no posts, don't render anything
   if (!posts || posts.length === 0) {
     return null;
@@ -22,7 +26,7 @@ const RelatedContentSection: React.FC<RelatedContentSectionProps> = ({
 
   return (
     <section className="mt-12 mb-8">
-      <h2 className="text-2xl font-bold text-blue-500 mb-6">{title}</h2>
+      <h2 className="text-2xl font-bold text-blue-500 mb-6">{title || t('blog.related')}</h2>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {posts.map((post) => (
@@ -35,6 +39,10 @@ const RelatedContentSection: React.FC<RelatedContentSectionProps> = ({
 
 // Card component for each related post
 const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
+  const { language, t } = useLanguage();
+  const title = getLocalizedField(post, 'title', language);
+  const summary = getLocalizedField(post, 'summary', language);
+
   // Generate fallback image based on post title
   const getFallbackImage = (title: string) => {
     // Choose a color based on the first character of the title
@@ -46,7 +54,7 @@ const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
     return { backgroundColor, initialLetter };
   };
   
-  const { backgroundColor, initialLetter } = getFallbackImage(post.title || 'Blog');
+  const { backgroundColor, initialLetter } = getFallbackImage(title || 'Blog');
   
   return (
     <Link
@@ -58,7 +66,7 @@ const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
         {post.mainImage?.url ? (
           <img
             src={post.mainImage.url}
-            alt={post.mainImage.alt || post.title || 'Blog post'}
+            alt={post.mainImage.alt || title || 'Blog post'}
             className="w-full h-full object-cover"
             loading="lazy"
           />
@@ -79,11 +87,11 @@ const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
       
       {/* Post content */}
       <div className="p-4 flex-1 flex flex-col">
-        <h3 className="text-lg font-bold text-gray-800 mb-2 line-clamp-2">{post.title}</h3>
+        <h3 className="text-lg font-bold text-gray-800 mb-2 line-clamp-2">{title}</h3>
         
         {post.publishDate && (
           <p className="text-sm text-gray-600 mb-2">
-            {new Date(post.publishDate).toLocaleDateString('en-US', {
+            {new Date(post.publishDate).toLocaleDateString(LANGUAGE_CONFIG[language].dateLocale, {
               year: 'numeric',
               month: 'long',
               day: 'numeric'
@@ -92,13 +100,13 @@ const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
             {post.readingTime && (
               <>
                 <span className="ml-2">·</span>
-                <span className="ml-2">{post.readingTime} min read</span>
+                <span className="ml-2">{t('blog.readingTime', { minutes: post.readingTime })}</span>
               </>
             )}
           </p>
         )}
         
-        {post.summary && (
+        {summary && (
           <p className="text-sm text-gray-700 mb-4 line-clamp-3 overflow-hidden" style={{
             display: '-webkit-box',
             WebkitLineClamp: '3',
@@ -106,12 +114,12 @@ const RelatedPostCard: React.FC<{ post: Partial<BlogPost> }> = ({ post }) => {
             lineHeight: '1.5em',
             height: '4.5em'
           }}>
-            {post.summary}
+            {summary}
           </p>
         )}
         
         <span className="text-blue-600 hover:text-blue-800 text-sm font-medium mt-auto">
-          Read More →
+          {t('blog.readMore')}
         </span>
       </div>
     </Link>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Facebook, Twitter, Linkedin, Mail, Copy } from 'lucide-react';
 import { trackCustomEvent } from '../../utils/analytics';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface ShareButtonsProps {
   title: string;
@@ -21,6 +22,8 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
   hashtags = [],
   className = ''
 }) => {
+  const { t } = useLanguage();
+
   // Track sharing events
   const trackShare = (platform: string) => {
     trackCustomEvent(
@@ -65,7 +68,7 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
 
   return (
     <div className={`flex flex-wrap items-center gap-2 ${className}`}>
-      <span className="text-sm font-medium text-gray-700 mr-1">Share:</span>
+      <span className="text-sm font-medium text-gray-700 mr-1">{t('share.label')}</span>
       
       {/* Facebook */}
       <a
@@ -73,7 +76,7 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
         target="_blank"
         rel="noopener noreferrer"
         className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-600 text-white hover:bg-blue-700 transition-colors"
-        aria-label="Share on Facebook"
+        aria-label={t('share.on', { platform: 'Facebook' })}
         onClick={() => trackShare('facebook')}
       >
         <Facebook size={16} />
@@ -85,7 +88,7 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
         target="_blank"
         rel="noopener noreferrer"
         className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-400 text-white hover:bg-blue-500 transition-colors"
-        aria-label="Share on Twitter"
+        aria-label={t('share.on', { platform: 'Twitter' })}
         onClick={() => trackShare('twitter')}
       >
         <Twitter size={16} />
@@ -97,7 +100,7 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
         target="_blank"
         rel="noopener noreferrer"
         className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-800 text-white hover:bg-blue-900 transition-colors"
-        aria-label="Share on LinkedIn"
+        aria-label={t('share.on', { platform: 'LinkedIn' })}
         onClick={() => trackShare('linkedin')}
       >
         <Linkedin size={16} />
@@ -107,7 +110,7 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
       <a
         href={shareUrls.email}
         className="w-8 h-8 flex items-center justify-center rounded-full bg-gray-600 text-white hover:bg-gray-700 transition-colors"
-        aria-label="Share via Email"
+        aria-label={t('share.email')}
         onClick={() => trackShare('email')}
       >
         <Mail size={16} />
@@ -117,8 +120,8 @@ const ShareButtons: React.FC<ShareButtonsProps> = ({
       <button
         onClick={copyToClipboard}
         className="w-8 h-8 flex items-center justify-center rounded-full bg-orange-500 text-white hover:bg-orange-600 transition-colors"
-        aria-label="Copy link"
-        title="Copy link to clipboard"
+        aria-label={t('share.copyLink')}
+        title={t('share.copyLinkTitle')}
       >
         <Copy size={16} />
       </button>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CalendarCheck, CalendarPlus } from 'lucide-react';
+import { Location } from '../../types/location';
+import { useDayPlanner } from '../../contexts/DayPlannerContext';
+import { trackCustomEvent } from '../../utils/analytics';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface AddToPlanButtonProps {
+  location: Location;
+  size?: number; // Icon size in pixels
+  className?: string;
+}
+
+const AddToPlanButton: React.FC<AddToPlanButtonProps> = ({
+  location,
+  size = 20,
+  className = ''
+}) => {
+  const { t } = useLanguage();
+  const { isInPlan, addStop, openPlanner } = useDayPlanner();
+  const inPlan = isInPlan(location.id);
+
+  // First tap adds the stop, a second tap opens the planner to arrange the day
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+
+    if (inPlan) {
+      openPlanner();
+      return;
+    }
+
+    addStop(location);
+    trackCustomEvent('add_to_day_plan', 'day_planner', location.name, { location_id: location.id });
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      onTouchStart={(e) => e.stopPropagation()}
+      aria-label={inPlan ? t('planner.inPlanOpen') : t('planner.addNamed', { name: location.name })}
+      title={inPlan ? t('planner.inPlan') : t('planner.add')}
+      className={`p-1.5 rounded-full hover:bg-gray-100 transition-colors ${className}`}
+      style={{ touchAction: 'manipulation' }}
+    >
+      {inPlan
+        ? <CalendarCheck size={size} className="text-blue-600" />
+        : <CalendarPlus size={size} className="text-gray-500" />}
+    </button>
+  );
+};
+
+export default AddToPlanButton;
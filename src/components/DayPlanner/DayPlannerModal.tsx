@@ -0,0 +1,260 @@
+import React, { useMemo } from 'react';
+import { ArrowDown, ArrowUp, Download, Route, X } from 'lucide-react';
+import ModalWrapper from '../common/ModalWrapper';
+import { useDayPlanner } from '../../contexts/DayPlannerContext';
+import { useLocations } from '../../contexts/LocationsContext';
+import { trackCustomEvent, trackExternalLink } from '../../utils/analytics';
+import { ItineraryStop, buildItinerary, buildItineraryIcs } from '../../utils/day-planner';
+import { MAX_DIRECTIONS_WAYPOINTS, getDirectionsUrl } from '../../utils/directions';
+import { getAthensDateParts, minutesToTime } from '../../utils/opening-hours';
+import { TravelMode } from '../../utils/travel-time';
+import { Language, TranslationKey, translate } from '../../utils/i18n';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface DayPlannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TRAVEL_MODE_OPTIONS: { value: TravelMode; labelKey: TranslationKey }[] = [
+  { value: 'walking', labelKey: 'planner.mode.walking' },
+  { value: 'driving', labelKey: 'planner.mode.driving' },
+  { value: 'transit', labelKey: 'planner.mode.transit' }
+];
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120, 180, 240]; // minutes
+
+// Itinerary times are always shown in Athens time, like opening hours
+const formatTime = (date: Date): string => minutesToTime(getAthensDateParts(date).minutes);
+
+const formatDuration = (minutes: number, language: Language): string => {
+  if (minutes < 60) return translate(language, 'planner.duration.minutes', { minutes });
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0
+    ? translate(language, 'planner.duration.hoursMinutes', { hours, minutes: rest })
+    : translate(language, 'planner.duration.hours', { hours });
+};
+
+const HoursBadge: React.FC<{ stop: ItineraryStop }> = ({ stop }) => {
+  const { t } = useLanguage();
+
+  switch (stop.hoursStatus) {
+    case 'open':
+      return <span className="px-2 py-0.5 text-xs rounded-full bg-green-50 text-green-700">{t('planner.hours.open')}</span>;
+    case 'closes-early':
+      return (
+        <span className="px-2 py-0.5 text-xs rounded-full bg-amber-50 text-amber-700">
+          {stop.closesAt ? t('planner.hours.closesAt', { time: formatTime(stop.closesAt) }) : t('planner.hours.closesSoon')}
+        </span>
+      );
+    case 'closed':
+      return <span className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700">{t('planner.hours.closed')}</span>;
+    default:
+      return <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{t('planner.hours.unknown')}</span>;
+  }
+};
+
+const DayPlannerModal: React.FC<DayPlannerModalProps> = ({ isOpen, onClose }) => {
+  const {
+    plan,
+    removeStop,
+    moveStop,
+    setStopDuration,
+    setPlanDate,
+    setStartTime,
+    setTravelMode,
+    clearPlan
+  } = useDayPlanner();
+  const { allLocations } = useLocations();
+  const { language, t } = useLanguage();
+
+  const itinerary = useMemo(() => buildItinerary(plan, allLocations), [plan, allLocations]);
+  const durationsById = useMemo(
+    () => new Map(plan.stops.map(stop => [stop.locationId, stop.durationMinutes])),
+    [plan.stops]
+  );
+  const hasProblems = itinerary.some(stop => stop.hoursStatus === 'closed' || stop.hoursStatus === 'closes-early');
+
+  const directionsUrl = getDirectionsUrl(
+    itinerary.map(stop => stop.location.coordinates),
+    { travelMode: plan.travelMode }
+  );
+
+  const handleDownloadIcs = () => {
+    const blob = new Blob([buildItineraryIcs(itinerary)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pamekids-day-plan-${plan.date}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    trackCustomEvent('export_day_plan', 'day_planner', 'ics', { stop_count: itinerary.length });
+  };
+
+  return (
+    <ModalWrapper
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('planner.title')}
+      className="max-w-lg"
+    >
+      {/* Day settings */}
+      <div className="grid grid-cols-3 gap-2 mb-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">{t('planner.date')}</span>
+          <input
+            type="date"
+            value={plan.date}
+            onChange={(e) => e.target.value && setPlanDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">{t('planner.start')}</span>
+          <input
+            type="time"
+            value={plan.startTime}
+            onChange={(e) => e.target.value && setStartTime(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">{t('planner.travelMode')}</span>
+          <select
+            value={plan.travelMode}
+            onChange={(e) => setTravelMode(e.target.value as TravelMode)}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {TRAVEL_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {itinerary.length === 0 ? (
+        <p className="text-sm text-gray-600 py-6 text-center">
+          {t('planner.empty')}
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {itinerary.map((stop, index) => (
+            <li key={stop.location.id}>
+              {/* Travel from the previous stop */}
+              {stop.travelMinutes > 0 && (
+                <p className="text-xs text-gray-500 pl-8 pb-2">
+                  ~{t(`travel.minutes.${plan.travelMode}` as TranslationKey, { minutes: stop.travelMinutes })}
+                </p>
+              )}
+
+              <div className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center">
+                  {index + 1}
+                </span>
+
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{stop.location.name}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-600">
+                    <span>{formatTime(stop.arrival)}–{formatTime(stop.departure)}</span>
+                    <HoursBadge stop={stop} />
+                  </div>
+                  <select
+                    value={durationsById.get(stop.location.id)}
+                    onChange={(e) => setStopDuration(stop.location.id, parseInt(e.target.value, 10))}
+                    aria-label={t('planner.timeAt', { name: stop.location.name })}
+                    className="mt-2 px-2 py-0.5 text-xs border border-gray-300 rounded-md bg-white"
+                  >
+                    {DURATION_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{t('planner.stay', { duration: formatDuration(minutes, language) })}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Reorder and remove */}
+                <div className="flex flex-col items-center">
+                  <button
+                    onClick={() => moveStop(stop.location.id, -1)}
+                    disabled={index === 0}
+                    aria-label={t('planner.moveEarlier')}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveStop(stop.location.id, 1)}
+                    disabled={index === itinerary.length - 1}
+                    aria-label={t('planner.moveLater')}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                </div>
+                <button
+                  onClick={() => removeStop(stop.location.id)}
+                  aria-label={t('planner.remove', { name: stop.location.name })}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {itinerary.length > 0 && (
+        <>
+          {hasProblems && (
+            <p className="mt-3 text-xs text-amber-700">
+              {t('planner.problems')}
+            </p>
+          )}
+          <p className="mt-3 text-xs text-gray-500">
+            {t('reach.estimate')}
+            {itinerary.length > MAX_DIRECTIONS_WAYPOINTS + 1 && ` ${t('planner.routeLimit', { count: MAX_DIRECTIONS_WAYPOINTS })}`}
+          </p>
+
+          {/* Export */}
+          <div className="flex flex-col sm:flex-row gap-2 mt-4">
+            <a
+              href={directionsUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => trackExternalLink(
+                'directions',
+                'Day plan',
+                directionsUrl,
+                undefined,
+                'detail'
+              )}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 flex items-center justify-center gap-2"
+            >
+              <Route size={16} />
+              {t('planner.openRoute')}
+            </a>
+            <button
+              onClick={handleDownloadIcs}
+              className="flex-1 px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 flex items-center justify-center gap-2"
+            >
+              <Download size={16} />
+              {t('planner.addToCalendar')}
+            </button>
+          </div>
+          <button
+            onClick={clearPlan}
+            className="w-full mt-2 py-1.5 text-sm text-center text-red-600 hover:bg-red-50 rounded"
+          >
+            {t('planner.clear')}
+          </button>
+        </>
+      )}
+    </ModalWrapper>
+  );
+};
+
+export default DayPlannerModal;
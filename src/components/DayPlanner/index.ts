@@ -0,0 +1,2 @@
+export { default as AddToPlanButton } from './AddToPlanButton';
+export { default as DayPlannerModal } from './DayPlannerModal';
@@ -0,0 +1,186 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Heart, Plus } from 'lucide-react';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { trackCustomEvent } from '../../utils/analytics';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface SaveButtonProps {
+  locationId: string;
+  locationName: string;
+  size?: number; // Heart icon size in pixels
+  className?: string;
+}
+
+const POPOVER_WIDTH = 224;
+
+const SaveButton: React.FC<SaveButtonProps> = ({
+  locationId,
+  locationName,
+  size = 20,
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const { lists, isSaved, createList, toggleLocationInList, saveToDefaultList, removeFromAllLists } = useFavorites();
+  const { t } = useLanguage();
+
+  const saved = isSaved(locationId);
+
+  // Tap the heart to save straight away, then offer the lists to file it under
+  const handleHeartClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+
+    if (!saved) {
+      saveToDefaultList(locationId);
+      trackCustomEvent('save_location', 'favorites', locationName, { location_id: locationId });
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleToggleList = (listId: string) => {
+    toggleLocationInList(listId, locationId);
+  };
+
+  const handleCreateList = (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const name = newListName.trim();
+    if (!name) return;
+
+    createList(name, [locationId]);
+    trackCustomEvent('create_list', 'favorites', name, { location_id: locationId });
+    setNewListName('');
+  };
+
+  const handleRemove = () => {
+    removeFromAllLists(locationId);
+    trackCustomEvent('unsave_location', 'favorites', locationName, { location_id: locationId });
+    setIsOpen(false);
+  };
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (buttonRef.current && !buttonRef.current.contains(event.target as Node) &&
+          popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Get popover position - below the heart, kept inside the viewport
+  const getPopoverPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 };
+
+    const rect = buttonRef.current.getBoundingClientRect();
+    return {
+      top: rect.bottom + 5,
+      left: Math.max(8, Math.min(rect.right - POPOVER_WIDTH, window.innerWidth - POPOVER_WIDTH - 8))
+    };
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={handleHeartClick}
+        onTouchStart={(e) => e.stopPropagation()}
+        aria-label={saved ? t('favorites.editLists', { name: locationName }) : t('favorites.save', { name: locationName })}
+        aria-pressed={saved}
+        className={`p-1.5 rounded-full hover:bg-gray-100 transition-colors ${className}`}
+        style={{ touchAction: 'manipulation' }}
+      >
+        <Heart
+          size={size}
+          className={saved ? 'text-red-500 fill-red-500' : 'text-gray-500'}
+        />
+      </button>
+
+      {/* List picker - rendered with portal so it isn't clipped by tiles or the drawer */}
+      {isOpen && document.body && createPortal(
+        <div
+          ref={popoverRef}
+          className="fixed bg-white rounded-lg shadow-lg py-1 border border-gray-200 text-sm"
+          style={{
+            ...getPopoverPosition(),
+            width: POPOVER_WIDTH,
+            zIndex: 9999,
+            maxHeight: '60vh',
+            overflowY: 'auto'
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+          onTouchMove={(e) => e.stopPropagation()}
+          onTouchEnd={(e) => e.stopPropagation()}
+        >
+          <div className="px-3 py-2 font-medium text-gray-900 border-b border-gray-100">{t('favorites.saveToList')}</div>
+
+          {/* Existing lists */}
+          <div className="py-1">
+            {lists.map(list => (
+              <label key={list.id} className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={list.locationIds.includes(locationId)}
+                  onChange={() => handleToggleList(list.id)}
+                />
+                <span className="flex-1 truncate">{list.name}</span>
+                <span className="text-xs text-gray-400">{list.locationIds.length}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* New list */}
+          <form onSubmit={handleCreateList} className="flex items-center gap-1 px-3 py-2 border-t border-gray-100">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder={t('favorites.newListPlaceholder')}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            <button
+              type="submit"
+              disabled={!newListName.trim()}
+              aria-label={t('favorites.createList')}
+              className="p-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Plus size={16} />
+            </button>
+          </form>
+
+          {/* Remove / close */}
+          <div className="flex border-t border-gray-100 mt-1 pt-1 px-2 gap-1">
+            {saved && (
+              <button
+                onClick={handleRemove}
+                className="flex-1 py-1.5 text-center text-red-600 hover:bg-red-50 rounded"
+              >
+                {t('favorites.remove')}
+              </button>
+            )}
+            <button
+              onClick={() => setIsOpen(false)}
+              className="flex-1 py-1.5 text-center text-gray-500 hover:bg-gray-50 rounded"
+            >
+              {t('common.done')}
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default SaveButton;
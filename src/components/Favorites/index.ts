@@ -0,0 +1 @@
+export { default as SaveButton } from './SaveButton';
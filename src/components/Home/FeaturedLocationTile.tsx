@@ -2,19 +2,26 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { Location, ActivityType } from '../../types/location';
 import { trackMarkerClick } from '../../utils/analytics';
+import { formatDistance } from '../../utils/geo';
+import { getLocalizedField } from '../../utils/i18n';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { SaveButton } from '../Favorites';
 import { Star } from 'lucide-react';
 
 interface FeaturedLocationTileProps {
   location: Location;
   activityConfig: Record<ActivityType, { name: string; color: string }>;
   onSelect?: () => void;
+  distanceKm?: number; // Distance from the user, shown when known
 }
 
 const FeaturedLocationTile: React.FC<FeaturedLocationTileProps> = ({
   location,
   activityConfig,
-  onSelect
+  onSelect,
+  distanceKm
 }) => {
+  const { language, t } = useLanguage();
   const [imageError, setImageError] = useState(false);
   
   // Reset error state when location changes
@@ -106,6 +113,11 @@ const FeaturedLocationTile: React.FC<FeaturedLocationTileProps> = ({
             </div>
           </div>
         )}
+        
+        {/* Save button overlay - top right */}
+        <div className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full">
+          <SaveButton locationId={location.id} locationName={location.name} size={18} />
+        </div>
       </div>
       
       {/* Content section */}
@@ -131,13 +143,19 @@ const FeaturedLocationTile: React.FC<FeaturedLocationTileProps> = ({
         
         {/* Age range and price instead of address */}
         <p className="text-sm text-gray-600 mb-2">
-          Ages {location.ageRange.min}-{location.ageRange.max}
+          {t('location.ages', { min: location.ageRange.min, max: location.ageRange.max })}
           {location.priceRange && (
             <>
               {" • "}
               {location.priceRange}
             </>
           )}
+          {distanceKm !== undefined && (
+            <>
+              {" • "}
+              {formatDistance(distanceKm)}
+            </>
+          )}
         </p>
         
         {/* Description - limited to exactly 3 lines with consistent height */}
@@ -147,7 +165,7 @@ const FeaturedLocationTile: React.FC<FeaturedLocationTileProps> = ({
           WebkitBoxOrient: 'vertical',
           lineHeight: '1.5em',
           height: '4.5em' // Exactly 3 lines (1.5em * 3)
-        }}>{location.description}</p>
+        }}>{getLocalizedField(location, 'description', language)}</p>
         
         {/* View details link - can be internal link or button */}
         {onSelect ? (
@@ -155,11 +173,11 @@ const FeaturedLocationTile: React.FC<FeaturedLocationTileProps> = ({
             onClick={handleClick}
             className="text-blue-600 hover:text-blue-800 text-sm font-medium"
           >
-            View Details →
+            {t('location.viewDetails')}
           </button>
         ) : (
           <Link to={`/?locationId=${location.id}`} className="text-blue-600 hover:text-blue-800 text-sm font-medium">
-            View Details →
+            {t('location.viewDetails')}
           </Link>
         )}
       </div>
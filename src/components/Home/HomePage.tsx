@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useMobile } from '../../contexts/MobileContext';
 import { useUserLocation } from '../../contexts/UserLocationContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Language } from '../../utils/i18n';
 import SEO from '../SEO'; // Import SEO component
 import { Tent, BookOpen, Trees, Home, Trophy, Popcorn, Leaf, UtensilsCrossed, Hotel, Sparkles, ChevronLeft, ChevronRight } from 'lucide-react';
 // Import modal components from existing app
@@ -9,44 +11,52 @@ import { NewsletterModal } from '../Newsletter';
 import SuggestActivityModal from '../SuggestActivity/SuggestActivityModal';
 import Header from '../Layout/Header';
 import Footer from '../Layout/Footer';
-// Import metadata for activity types
-import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
 // Import firebase services and types
 import { getLocations } from '../../utils/firebase-service';
 import { Location } from '../../types/location';
+import { Coordinates, getDistanceKm, sortByDistance } from '../../utils/geo';
+import { AREA_LANDING_PAGES, getLandingPage, getLandingPageName } from '../../utils/landing-pages';
 // Import the new FeaturedLocationTile component
 import FeaturedLocationTile from './FeaturedLocationTile';
 
-// Main categories with icons for the homepage
+// Main categories with icons for the homepage - names come from their /activities landing page
 const mainCategories = [
- { id: 'camps', name: 'Camps', icon: Tent, color: '#F9D056' },
- { id: 'learning', name: 'Learning', icon: BookOpen, color: '#8BC34A' },
- { id: 'outdoor-play', name: 'Outdoor Play', icon: Trees, color: '#4F6490' },
- { id: 'indoor-play', name: 'Indoor Play', icon: Home, color: '#E893B2' },
- { id: 'sports', name: 'Sports', icon: Trophy, color: '#6BAAD4' },
- { id: 'entertainment', name: 'Entertainment', icon: Popcorn, color: '#8BC34A' },
- { id: 'nature', name: 'Nature', icon: Leaf, color: '#4F6490' },
- { id: 'food', name: 'Food', icon: UtensilsCrossed, color: '#6BAAD4' },
- { id: 'accommodation', name: 'Accommodation', icon: Hotel, color: '#F9D056' },
- { id: 'free-activities', name: 'Free Activities', icon: Sparkles, color: '#E893B2' }
+ { id: 'camps', icon: Tent, color: '#F9D056' },
+ { id: 'learning', icon: BookOpen, color: '#8BC34A' },
+ { id: 'outdoor-play', icon: Trees, color: '#4F6490' },
+ { id: 'indoor-play', icon: Home, color: '#E893B2' },
+ { id: 'sports', icon: Trophy, color: '#6BAAD4' },
+ { id: 'entertainment', icon: Popcorn, color: '#8BC34A' },
+ { id: 'nature', icon: Leaf, color: '#4F6490' },
+ { id: 'food', icon: UtensilsCrossed, color: '#6BAAD4' },
+ { id: 'accommodation', icon: Hotel, color: '#F9D056' },
+ { id: 'free-activities', icon: Sparkles, color: '#E893B2' }
 ];
 
+const getCategoryName = (id: string, language: Language): string => {
+ const page = getLandingPage('activity', id);
+ return page ? getLandingPageName(page, language) : id;
+};
+
 // Carousel component for location tiles
 const LocationCarousel = ({
  locations,
  activityConfig,
  onSelect,
  isLoading,
- error
+ error,
+ distanceFrom
 }: {
  locations: Location[],
  activityConfig: any,
  onSelect: (id: string) => void,
  isLoading: boolean,
- error: string | null
+ error: string | null,
+ distanceFrom?: Coordinates | null // Show each tile's distance from this point when set
 }) => {
  const carouselRef = useRef<HTMLDivElement>(null);
  const { isMobile } = useMobile();
+ const { t } = useLanguage();
  const [showLeftArrow, setShowLeftArrow] = useState(false);
  const [showRightArrow, setShowRightArrow] = useState(true);
 
@@ -128,7 +138,7 @@ const LocationCarousel = ({
          onClick={() => window.location.reload()}
          className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
        >
-         Retry
+         {t('common.retry')}
        </button>
      </div>
    );
@@ -138,7 +148,7 @@ const LocationCarousel = ({
  if (locations.length === 0) {
    return (
      <div className="p-6 text-center text-gray-500">
-       <p>No locations available at this time.</p>
+       <p>{t('home.noLocations')}</p>
      </div>
    );
  }
@@ -150,7 +160,7 @@ const LocationCarousel = ({
        <button
          onClick={() => scroll('left')}
          className="absolute left-0 top-1/2 -translate-y-1/2 z-carousel-controls bg-white rounded-full p-2 shadow-md hover:bg-gray-100 transition-all focus:outline-none focus:ring-2 focus:ring-blue-500"
-         aria-label="Scroll left"
+         aria-label={t('common.scrollLeft')}
        >
          <ChevronLeft size={24} />
        </button>
@@ -161,7 +171,7 @@ const LocationCarousel = ({
        <button
          onClick={() => scroll('right')}
          className="absolute right-0 top-1/2 -translate-y-1/2 z-carousel-controls bg-white rounded-full p-2 shadow-md hover:bg-gray-100 transition-all focus:outline-none focus:ring-2 focus:ring-blue-500"
-         aria-label="Scroll right"
+         aria-label={t('common.scrollRight')}
        >
          <ChevronRight size={24} />
        </button>
@@ -182,6 +192,7 @@ const LocationCarousel = ({
              location={location}
              activityConfig={activityConfig}
              onSelect={() => onSelect(location.id)}
+             distanceKm={distanceFrom ? getDistanceKm(distanceFrom, location.coordinates) : undefined}
            />
          </div>
        ))}
@@ -194,7 +205,8 @@ const LocationCarousel = ({
 const HomePage: React.FC = () => {
  const { isMobile } = useMobile();
  const navigate = useNavigate();
- const { userLocation, locationLoaded } = useUserLocation();
+ const { userLocation, locationLoaded, permissionStatus } = useUserLocation();
+ const { language, t, activityCategories } = useLanguage();
  const [newsLetterOpen, setNewsLetterOpen] = useState(false);
  const [suggestActivityOpen, setSuggestActivityOpen] = useState(false);
  // Search term is now handled by the SearchBar component
@@ -202,21 +214,7 @@ const HomePage: React.FC = () => {
  const [freeActivities, setFreeActivities] = useState<Location[]>([]);
  const [isLoading, setIsLoading] = useState(true);
  const [isFreeActivitiesLoading, setIsFreeActivitiesLoading] = useState(true);
- const [error, setError] = useState<string | null>(null);
-
- // Helper function to calculate distance between two coordinates (in km)
- const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-   const R = 6371; // Radius of the earth in km
-   const dLat = (lat2 - lat1) * Math.PI / 180;
-   const dLon = (lon2 - lon1) * Math.PI / 180;
-   const a =
-     Math.sin(dLat/2) * Math.sin(dLat/2) +
-     Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-     Math.sin(dLon/2) * Math.sin(dLon/2);
-   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-   const distance = R * c; // Distance in km
-   return distance;
- };
+ const [hasError, setHasError] = useState(false);
 
  // Fetch locations from Firestore
  useEffect(() => {
@@ -266,50 +264,23 @@ const HomePage: React.FC = () => {
        const freeLocations = locationsData
          .filter(loc => loc.priceRange?.toLowerCase().includes('free'));
        
-       // Calculate distance for each free location from user's position
-       const freeLocationsWithDistance = freeLocations.map(location => {
-         const distance = calculateDistance(
-           userLocation.lat,
-           userLocation.lng,
-           location.coordinates.lat,
-           location.coordinates.lng
-         );
-         return { location, distance };
-       });
-       
-       // Sort by distance (closest first)
-       freeLocationsWithDistance.sort((a, b) => a.distance - b.distance);
-       
-       // Take the 9 closest free locations (or fewer if not enough exist)
-       const closestFreeLocations = freeLocationsWithDistance
-         .slice(0, 9)
-         .map(item => item.location);
+       // Take the 9 closest free locations to the user (or fewer if not enough exist)
+       const origin = { lat: userLocation.lat, lng: userLocation.lng };
+       const closestFreeLocations = sortByDistance(freeLocations, origin, loc => loc.coordinates)
+         .slice(0, 9);
        
        console.log(`Found ${freeLocations.length} free locations, using closest ${closestFreeLocations.length}`);
        
        // If we don't have enough free activities, add some regular activities
        if (closestFreeLocations.length < 9) {
-         // Get all non-free locations with distance
-         const nonFreeLocationsWithDistance = locationsData
+         // Get all non-free locations with images, closest to the user first
+         const nonFreeLocations = locationsData
            .filter(loc => !freeLocations.some(freeItem => freeItem.id === loc.id)) // Exclude all free locations
-           .filter(loc => loc.placeData?.storedPhotoUrls?.length) // Only locations with images
-           .map(location => {
-             const distance = calculateDistance(
-               userLocation.lat,
-               userLocation.lng,
-               location.coordinates.lat,
-               location.coordinates.lng
-             );
-             return { location, distance };
-           });
-         
-         // Sort non-free locations by distance
-         nonFreeLocationsWithDistance.sort((a, b) => a.distance - b.distance);
+           .filter(loc => loc.placeData?.storedPhotoUrls?.length); // Only locations with images
          
          // Take just enough to fill our list to 9 items
-         const additionalActivities = nonFreeLocationsWithDistance
-           .slice(0, 9 - closestFreeLocations.length)
-           .map(item => item.location);
+         const additionalActivities = sortByDistance(nonFreeLocations, origin, loc => loc.coordinates)
+           .slice(0, 9 - closestFreeLocations.length);
          
          setFreeActivities([...closestFreeLocations, ...additionalActivities]);
        } else {
@@ -319,7 +290,7 @@ const HomePage: React.FC = () => {
        setIsLoading(false);
      } catch (err) {
        console.error('Error fetching locations:', err);
-       setError('Failed to load activities. Please try again later.');
+       setHasError(true);
        setIsLoading(false);
      }
    };
@@ -356,7 +327,7 @@ const HomePage: React.FC = () => {
      <section className={`bg-blue-50 ${isMobile ? 'pt-4 pb-4' : 'py-8 md:py-12'}`}>
        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
          <h1 className="text-3xl md:text-5xl font-bold text-blue-500 mb-8">
-           Discover the best kids' activities in Greece
+           {t('home.heading')}
          </h1>
          {/* Mobile-optimized scrollable grid for main category buttons */}
          <div
@@ -376,7 +347,7 @@ const HomePage: React.FC = () => {
              >
              <div className="flex flex-col items-center">
                <Link
-                 to={`/map?filter=${category.id}${category.id === 'free-activities' ? '&price=Free' : ''}`}
+                 to={`/activities/${category.id}`}
                  className={`flex items-center justify-center transition-transform hover:scale-105 ${isMobile ? 'w-20 h-20' : 'w-28 h-28'}`}
                  style={{
                    backgroundColor: category.color,
@@ -392,7 +363,9 @@ const HomePage: React.FC = () => {
                    })}
                  </div>
                </Link>
-               <span className={`font-bold text-blue-800 text-center mt-2 ${isMobile ? 'text-sm' : 'text-base'}`}>{category.name}</span>
+               <span className={`font-bold text-blue-800 text-center mt-2 ${isMobile ? 'text-sm' : 'text-base'}`}>
+                 {getCategoryName(category.id, language)}
+               </span>
              </div>
              </div>
            ))}
@@ -416,7 +389,7 @@ const HomePage: React.FC = () => {
              to="/map"
              className="bg-white hover:bg-blue-50 text-blue-600 font-medium py-3 px-8 rounded-lg border-2 border-blue-200 transition duration-200 shadow-sm hover:shadow-md"
            >
-             View All Activities
+             {t('home.viewAll')}
            </Link>
          </div>
        </div>
@@ -425,14 +398,14 @@ const HomePage: React.FC = () => {
      {/* Featured Content section */}
      <section className="pt-8 pb-4 bg-gray-50">
        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-         <h2 className="text-3xl md:text-2xl font-bold text-blue-500 mb-6">Featured Activities</h2>
+         <h2 className="text-3xl md:text-2xl font-bold text-blue-500 mb-6">{t('home.featured')}</h2>
          
          <LocationCarousel
            locations={featuredLocations}
-           activityConfig={ACTIVITY_CATEGORIES}
+           activityConfig={activityCategories}
            onSelect={handleLocationSelect}
            isLoading={isLoading}
-           error={error}
+           error={hasError ? t('home.loadError') : null}
          />
        </div>
      </section>
@@ -440,17 +413,38 @@ const HomePage: React.FC = () => {
      {/* Free Activities section */}
      <section className="pt-4 pb-12 bg-gray-50">
        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-         <h2 className="text-3xl md:text-2xl font-bold text-blue-500 mb-6">Free Activities Near You</h2>
+         <h2 className="text-3xl md:text-2xl font-bold text-blue-500 mb-6">{t('home.freeNearYou')}</h2>
          
          <LocationCarousel
            locations={freeActivities}
-           activityConfig={ACTIVITY_CATEGORIES}
+           activityConfig={activityCategories}
            onSelect={handleLocationSelect}
            isLoading={isFreeActivitiesLoading}
-           error={error}
+           error={hasError ? t('home.loadError') : null}
+           // Only show distances once we know where the user actually is
+           distanceFrom={permissionStatus === 'granted' ? userLocation : null}
          />
        </div>
      </section>
+
+     {/* Neighbourhood landing pages */}
+     <section className="pt-4 pb-12 bg-gray-50">
+       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+         <h2 className="text-3xl md:text-2xl font-bold text-blue-500 mb-6">{t('home.exploreByArea')}</h2>
+
+         <div className="flex flex-wrap gap-2">
+           {AREA_LANDING_PAGES.map(area => (
+             <Link
+               key={area.id}
+               to={area.path}
+               className="px-4 py-2 bg-white text-blue-700 font-medium rounded-full border border-blue-100 shadow-sm hover:bg-blue-50"
+             >
+               {getLandingPageName(area, language)}
+             </Link>
+           ))}
+         </div>
+       </div>
+     </section>
      
      {/* Footer section */}
      <Footer />
@@ -464,7 +458,7 @@ const HomePage: React.FC = () => {
      <SuggestActivityModal
        isOpen={suggestActivityOpen}
        onClose={() => setSuggestActivityOpen(false)}
-       activityTypes={ACTIVITY_CATEGORIES}
+       activityTypes={activityCategories}
      />
    </div>
  );
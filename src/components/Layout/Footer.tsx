@@ -1,7 +1,10 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 const Footer: React.FC = () => {
+  const { t } = useLanguage();
+
   return (
     <footer className="bg-gray-800 text-white py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -11,14 +14,14 @@ const Footer: React.FC = () => {
               <span className="font-logo text-3xl font-bold text-blue-400">Pame</span>
               <span className="font-logo text-2xl font-semibold text-orange-400">Kids</span>
             </div>
-            <p className="text-gray-400 text-sm mt-1">© 2025 PameKids. All rights reserved.</p>
+            <p className="text-gray-400 text-sm mt-1">{t('footer.copyright')}</p>
           </div>
           
           <div className="flex gap-6">
-            <Link to="/blog" className="text-gray-300 hover:text-white">Blog</Link>
-            <Link to="mailto:info@pamekids.com" className="text-gray-300 hover:text-white">Contact</Link>
-            <Link to="/privacy" className="text-gray-300 hover:text-white">Privacy</Link>
-            <Link to="/terms" className="text-gray-300 hover:text-white">Terms</Link>
+            <Link to="/blog" className="text-gray-300 hover:text-white">{t('footer.blog')}</Link>
+            <Link to="mailto:info@pamekids.com" className="text-gray-300 hover:text-white">{t('footer.contact')}</Link>
+            <Link to="/privacy" className="text-gray-300 hover:text-white">{t('footer.privacy')}</Link>
+            <Link to="/terms" className="text-gray-300 hover:text-white">{t('footer.terms')}</Link>
           </div>
         </div>
       </div>
@@ -4,9 +4,10 @@ import { useMobile } from '../../contexts/MobileContext';
 import { useLocations } from '../../contexts/LocationsContext';
 import SearchBar from '../Search/SearchBar';
 import { Location, ActivityType } from '../../types/location';
-import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
+import { useLanguage } from '../../contexts/LanguageContext';
 import { NewsletterButton } from '../Newsletter';
 import SuggestActivityButton from '../SuggestActivity/SuggestActivityButton';
+import LanguageSwitcher from './LanguageSwitcher';
 
 interface HeaderProps {
   onNewsletterClick?: () => void;
@@ -27,6 +28,7 @@ const Header: React.FC<HeaderProps> = ({
 }) => {
   const { isMobile } = useMobile();
   const { allLocations } = useLocations(); // Get locations from context
+  const { t, activityCategories } = useLanguage();
   const searchRef = useRef<HTMLDivElement>(null);
   const buttonsRef = useRef<HTMLDivElement>(null);
   const [logoPosition, setLogoPosition] = useState<number | null>(null);
@@ -91,13 +93,13 @@ const Header: React.FC<HeaderProps> = ({
             <div className="search-button-wrapper">
               <SearchBar
                 locations={allLocations}
-                activityConfig={ACTIVITY_CATEGORIES}
+                activityConfig={activityCategories}
                 onLocationSelect={onLocationSelect}
                 activeFilters={activeFilters}
                 selectedAge={selectedAge}
                 expandedByDefault={false}
                 headerMode={true}
-                placeholder="Search activities..."
+                placeholder={t('header.searchPlaceholder')}
               />
             </div>
           </div>
@@ -120,6 +122,9 @@ const Header: React.FC<HeaderProps> = ({
             ref={buttonsRef}
             className={`absolute ${isMobile ? 'right-0 -mr-1' : 'right-4 sm:right-6 lg:right-8'} flex items-center ${isMobile ? 'space-x-1' : 'space-x-4'}`}
           >
+            <div className={isMobile ? 'scale-75 origin-right' : ''}>
+              <LanguageSwitcher />
+            </div>
             <div className={isMobile ? 'scale-75 origin-right' : ''}>
               <NewsletterButton onClick={onNewsletterClick} />
             </div>
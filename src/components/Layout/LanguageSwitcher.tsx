@@ -0,0 +1,30 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGES, LANGUAGE_CONFIG } from '../../utils/i18n';
+import { trackCustomEvent } from '../../utils/analytics';
+
+// Toggle between English and Greek - shows the language it switches to
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useLanguage();
+  const nextLanguage = LANGUAGES.find(option => option !== language) || language;
+
+  const handleClick = () => {
+    setLanguage(nextLanguage);
+    trackCustomEvent('language_switch', 'Settings', nextLanguage, { from_language: language });
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className="flex items-center justify-center px-3 py-2 border border-blue-500 text-blue-600 rounded-full hover:bg-blue-50 transition-colors h-[40px]"
+      aria-label={t('header.switchLanguage', { language: LANGUAGE_CONFIG[nextLanguage].name })}
+      lang={nextLanguage}
+    >
+      <Globe size={18} />
+      <span className="ml-1 text-sm font-medium">{LANGUAGE_CONFIG[nextLanguage].shortName}</span>
+    </button>
+  );
+};
+
+export default LanguageSwitcher;
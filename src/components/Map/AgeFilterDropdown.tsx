@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { useTouch } from '../../contexts/TouchContext';
 import { useMobile } from '../../contexts/MobileContext';
 import { ChevronDown } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface AgeFilterDropdownProps {
   selectedAge: number | null;
@@ -13,6 +14,7 @@ const AgeFilterDropdown: React.FC<AgeFilterDropdownProps> = ({
   selectedAge,
   onSelectAge
 }) => {
+  const { t } = useLanguage();
   const [isExpanded, setIsExpanded] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -129,7 +131,7 @@ const AgeFilterDropdown: React.FC<AgeFilterDropdownProps> = ({
         className="snap-start flex items-center justify-between gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
       >
         <span className="whitespace-nowrap pr-1">
-          {selectedAge !== null ? `Age ${selectedAge}` : 'Age'}
+          {selectedAge !== null ? t('age.selected', { age: selectedAge }) : t('age.label')}
         </span>
         
         {/* Chevron with subtle separator */}
@@ -177,7 +179,7 @@ const AgeFilterDropdown: React.FC<AgeFilterDropdownProps> = ({
               selectedAge === null ? 'bg-blue-50 text-blue-600' : ''
             }`}
           >
-            <span className="mr-2">Any Age</span>
+            <span className="mr-2">{t('age.any')}</span>
             {selectedAge === null && (
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -201,7 +203,7 @@ const AgeFilterDropdown: React.FC<AgeFilterDropdownProps> = ({
                   selectedAge === age ? 'bg-blue-50 text-blue-600' : ''
                 }`}
               >
-                <span className="mr-2">Age {age}</span>
+                <span className="mr-2">{t('age.selected', { age })}</span>
                 {selectedAge === age && (
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
@@ -229,7 +231,7 @@ const AgeFilterDropdown: React.FC<AgeFilterDropdownProps> = ({
               }}
               className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
             >
-              Close
+              {t('common.close')}
             </button>
           </div>
         </div>,
@@ -1,14 +1,21 @@
 import React, { useEffect, useState, useCallback, memo, useMemo, useRef } from 'react';
-import ImageCarousel from './ImageCarousel';
+import { Link } from 'react-router-dom';
 import { Location, ActivityType } from '../../types/location';
-import { addUtmParams, trackExternalLink, trackCustomEvent } from '../../utils/analytics';
-import { X, Phone, Globe, MapPin, ChevronLeft } from 'lucide-react';
+import { X, ChevronLeft, ExternalLink } from 'lucide-react';
 import { fetchPlaceDetails } from '../../utils/places-api';
 import RatingDisplay from './RatingDisplay';
 import LocationTile from './LocationTile';
+import LocationDetails from './LocationDetails';
+import LocationActionButtons from './LocationActionButtons';
 import { useMobile } from '../../contexts/MobileContext';
 import { useTouch } from '../../contexts/TouchContext';
 import { useAppState } from '../../contexts/AppStateContext';
+import { useUserLocation } from '../../contexts/UserLocationContext';
+import { getDistanceKm, sortByDistance } from '../../utils/geo';
+import { SaveButton } from '../Favorites';
+import { AddToPlanButton } from '../DayPlanner';
+import { getPlacePath, getPlaceSlug } from '../../utils/place-pages';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface DrawerProps {
   location: Location | null;
@@ -43,6 +50,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
   
   // Use context hooks for mobile detection
   const { isMobile } = useMobile();
+  const { t } = useLanguage();
   
   // Use TouchContext hook with all needed properties - moved before any conditional returns
   const { drawerState, setDrawerState, handleTouchStart, handleTouchMove, handleTouchEnd, isPartialDrawer, setContentScrollPosition, isModalOpen } = useTouch();
@@ -50,6 +58,13 @@ const Drawer: React.FC<DrawerProps> = memo(({
   // Use AppStateContext to coordinate with the app initialization sequence
   const { isFullyInitialized, initState, shouldOpenDrawer } = useAppState();
   
+  // Distances are only meaningful once the user has shared their location
+  const { userLocation, permissionStatus } = useUserLocation();
+  const distanceOrigin = permissionStatus === 'granted' ? userLocation : null;
+  
+  // Each location also has its own page, linked from the header
+  const placeSlug = location ? getPlaceSlug(location) : undefined;
+  
   // Debug log to verify context hooks are available (only in development)
   // Use a static check to ensure we only log once per component instance
   const hasLoggedRef = useRef(false);
@@ -370,134 +385,6 @@ const Drawer: React.FC<DrawerProps> = memo(({
     }
   };
 
-  // Function to get directions URL
-  const getDirectionsUrl = () => {
-    return location ? `https://www.google.com/maps/dir/?api=1&destination=${location.coordinates.lat},${location.coordinates.lng}` : '';
-  };
-
-  // Memoize ActionButtons to prevent unnecessary re-renders
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const ActionButtons = useMemo(() => {
-    if (!location) return () => null;
-    
-    return () => (
-      <div className="flex flex-col md:flex-col gap-3 w-full">
-        {/* On mobile: All buttons in a single row, on desktop: original layout */}
-        <div className="flex gap-2 md:hidden w-full">
-          <a
-            href={getDirectionsUrl()}
-            target="_blank"
-            rel="noopener noreferrer"
-            onClick={() => trackExternalLink(
-              'directions',
-              location.name,
-              getDirectionsUrl(),
-              location.id,
-              'detail'
-            )}
-            className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 text-center flex items-center justify-center gap-1"
-          >
-            <MapPin size={16} />
-            Directions
-          </a>
-          
-          {location.contact.website && (
-            <a
-              href={addUtmParams(location.contact.website)}
-              target="_blank"
-              rel="noopener noreferrer"
-              onClick={() => trackExternalLink(
-                'website',
-                location.name,
-                location.contact.website!,
-                location.id,
-                'detail'
-              )}
-              className="flex-1 px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 text-center flex items-center justify-center gap-1"
-            >
-              <Globe size={16} />
-              Website
-            </a>
-          )}
-          
-          {location.contact.phone && (
-            <a
-              href={`tel:${location.contact.phone}`}
-              onClick={() => trackExternalLink(
-                'phone',
-                location.name,
-                `tel:${location.contact.phone}`,
-                location.id,
-                'detail'
-              )}
-              className="flex-1 px-3 py-2 text-sm font-medium text-green-600 bg-green-50 rounded-lg hover:bg-green-100 text-center flex items-center justify-center gap-1"
-            >
-              <Phone size={16} />
-              Call
-            </a>
-          )}
-        </div>
-        
-        {/* Desktop layout - keep original layout */}
-        <a
-          href={getDirectionsUrl()}
-          target="_blank"
-          rel="noopener noreferrer"
-          onClick={() => trackExternalLink(
-            'directions',
-            location.name,
-            getDirectionsUrl(),
-            location.id,
-            'detail'
-          )}
-          className="hidden md:flex w-full px-6 py-3 text-base font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 text-center items-center justify-center gap-2"
-        >
-          <MapPin size={20} />
-          Get Directions
-        </a>
-        
-        <div className="hidden md:flex gap-3">
-          {location.contact.website && (
-            <a
-              href={addUtmParams(location.contact.website)}
-              target="_blank"
-              rel="noopener noreferrer"
-              onClick={() => trackExternalLink(
-                'website',
-                location.name,
-                location.contact.website!,
-                location.id,
-                'detail'
-              )}
-              className="flex-1 px-6 py-3 text-base font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 text-center flex items-center justify-center gap-2"
-            >
-              <Globe size={20} />
-              Website
-            </a>
-          )}
-          
-          {location.contact.phone && (
-            <a
-              href={`tel:${location.contact.phone}`}
-              onClick={() => trackExternalLink(
-                'phone',
-                location.name,
-                `tel:${location.contact.phone}`,
-                location.id,
-                'detail'
-              )}
-              className="flex-1 px-6 py-3 text-base font-medium text-green-600 bg-green-50 rounded-lg hover:bg-green-100 text-center flex items-center justify-center gap-2"
-            >
-              <Phone size={20} />
-              Call
-            </a>
-          )}
-        </div>
-      </div>
-    );
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [location]);
-
   // Make sure placeData object is valid
   const ensurePhotoData = (data: Location['placeData'] | undefined) => {
     if (!data) return undefined;
@@ -559,7 +446,13 @@ const Drawer: React.FC<DrawerProps> = memo(({
 
   // Wrap displayedLocations in its own useMemo to avoid dependency changes on every render
   // We no longer limit to 15 since drawerLocations is already limited
-  const displayedLocations = useMemo(() => filteredLocations || [], [filteredLocations]);
+  // When we know where the user is, list the closest locations to them first
+  const displayedLocations = useMemo(() => {
+    const locationsToDisplay = filteredLocations || [];
+    return distanceOrigin
+      ? sortByDistance(locationsToDisplay, distanceOrigin, loc => loc.coordinates)
+      : locationsToDisplay;
+  }, [filteredLocations, distanceOrigin]);
   
   // Add diagnostic logging for location data
   React.useEffect(() => {
@@ -616,7 +509,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
     return (
       <div className="hidden md:block fixed z-drawer-container bg-white shadow-lg w-[533px] left-0 top-[calc(4rem+3.25rem)] rounded-r-lg bottom-0 overflow-hidden">
         <div className="p-6 border-b">
-          <h2 className="text-2xl font-bold text-gray-900">Nearby Activities</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{t('drawer.nearby')}</h2>
         </div>
         
         <div className="overflow-y-auto h-[calc(100vh-4rem-3.25rem-76px)]">
@@ -625,13 +518,13 @@ const Drawer: React.FC<DrawerProps> = memo(({
               {initState === 'locations-processed' || initState === 'drawer-initialized' || initState === 'fully-ready' ? (
                 // User can see and interact with drawer, but no locations are in viewport
                 <>
-                  <p>No locations in current view</p>
-                  <p className="text-sm mt-2">Try zooming out or panning the map</p>
+                  <p>{t('drawer.noneInView')}</p>
+                  <p className="text-sm mt-2">{t('drawer.zoomOut')}</p>
                 </>
               ) : initState === 'map-ready' ? (
                 // Map is ready but locations aren't fully processed yet
                 <>
-                  <p>Processing locations...</p>
+                  <p>{t('drawer.processing')}</p>
                   <div className="mt-4 flex justify-center">
                     <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                   </div>
@@ -639,7 +532,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
               ) : (
                 // Initial loading state
                 <>
-                  <p>Loading locations...</p>
+                  <p>{t('map.loadingLocations')}</p>
                   <div className="mt-4 flex justify-center">
                     <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                   </div>
@@ -654,6 +547,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
                   location={loc}
                   activityConfig={activityConfig}
                   onSelect={() => onLocationSelect && onLocationSelect(loc)}
+                  distanceKm={distanceOrigin ? getDistanceKm(distanceOrigin, loc.coordinates) : undefined}
                 />
               ))}
             </div>
@@ -823,7 +717,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
                               handleBackToList();   // Call the handler directly
                             }}
                             className="p-1.5 -ml-1.5 mr-2 rounded-full hover:bg-gray-100 transition-colors relative z-10"
-                            aria-label="Back to list"
+                            aria-label={t('drawer.backToList')}
                             onTouchStart={(e) => {
                               // Stop propagation to prevent map gestures
                               e.stopPropagation();
@@ -848,6 +742,18 @@ const Drawer: React.FC<DrawerProps> = memo(({
                           </>
                         )}
                         <h2 className="text-xl md:text-2xl font-bold text-gray-900">{location.name}</h2>
+                        <SaveButton locationId={location.id} locationName={location.name} className="ml-1 flex-shrink-0" />
+                        <AddToPlanButton location={location} className="flex-shrink-0" />
+                        {placeSlug && (
+                          <Link
+                            to={getPlacePath(placeSlug)}
+                            aria-label={`Open the ${location.name} page`}
+                            title={t('drawer.openFullPage')}
+                            className="p-1.5 rounded-full hover:bg-gray-100 transition-colors flex-shrink-0"
+                          >
+                            <ExternalLink size={20} className="text-gray-500" />
+                          </Link>
+                        )}
                       </div>
                       
                       {/* Rating display */}
@@ -889,7 +795,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
 
                   {/* Action Buttons - Show at top on mobile with single row layout */}
                   <div className="md:hidden mt-1">
-                    <ActionButtons />
+                    <LocationActionButtons location={location} />
                   </div>
                 </div>
               </div>
@@ -923,7 +829,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
                                   handleBackToList();   // Call the handler directly
                                 }}
                                 className="p-1.5 -ml-1.5 mr-2 rounded-full hover:bg-gray-100 transition-colors relative z-10"
-                                aria-label="Back to list"
+                                aria-label={t('drawer.backToList')}
                                 onTouchStart={(e) => {
                                   // Stop propagation to prevent map gestures
                                   e.stopPropagation();
@@ -944,6 +850,18 @@ const Drawer: React.FC<DrawerProps> = memo(({
                               </button>
                             )}
                             <h2 className="text-xl font-bold text-gray-900">{location.name}</h2>
+                            <SaveButton locationId={location.id} locationName={location.name} className="ml-1 flex-shrink-0" />
+                            <AddToPlanButton location={location} className="flex-shrink-0" />
+                            {placeSlug && (
+                              <Link
+                                to={getPlacePath(placeSlug)}
+                                aria-label={`Open the ${location.name} page`}
+                                title={t('drawer.openFullPage')}
+                                className="p-1.5 rounded-full hover:bg-gray-100 transition-colors flex-shrink-0"
+                              >
+                                <ExternalLink size={20} className="text-gray-500" />
+                              </Link>
+                            )}
                           </div>
                           
                           {/* Rating display */}
@@ -978,206 +896,23 @@ const Drawer: React.FC<DrawerProps> = memo(({
 
                       {/* Action Buttons */}
                       <div className="mt-1">
-                        <ActionButtons />
+                        <LocationActionButtons location={location} />
                       </div>
                     </div>
                   </div>
                 )}
-                {/* Image Carousel */}
-                {isLoadingPhotos ? (
-                  <div className="aspect-video w-full bg-gray-100 rounded-lg flex items-center justify-center">
-                    <div className="animate-pulse flex flex-col items-center">
-                      <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-                      <span className="mt-2 text-gray-500">Loading photos...</span>
-                    </div>
-                  </div>
-                ) : (
-                  <ImageCarousel
-                    photos={mergedPlaceData?.photos}
-                    photoUrls={mergedPlaceData?.photoUrls}
-                    storedPhotoUrls={mergedPlaceData?.storedPhotoUrls}
-                    businessName={location.name}
-                    placeId={location.id}
-                  />
-                )}
-
-                {/* Description */}
-                <div className="drawer-content-section">
-                  <p className="text-lg text-gray-600 touchable-text">{location.description}</p>
-                </div>
-
-                {/* Pro Tips - Always shown to encourage submissions */}
-                <div className="drawer-content-section bg-blue-50/50 p-4 rounded-lg border border-blue-100">
-                  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center touchable-text">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2 text-blue-600">
-                      <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>
-                    </svg>
-                    Pro Tips
-                  </h3>
-                  
-                  {location.proTips ? (
-                    <div className="text-gray-700 touchable-text whitespace-pre-line">
-                      {location.proTips}
-                    </div>
-                  ) : (
-                    <div className="text-gray-700 touchable-text">
-                      <p className="italic">No pro tips yet for this location. Be the first to share your insider knowledge!</p>
-                    </div>
-                  )}
-                  
-                  <div className="mt-3 flex justify-center">
-                    <button
-                      onClick={() => {
-                        // Track this interaction with the new trackCustomEvent function
-                        trackCustomEvent(
-                          'pro_tip_click',
-                          'Content Interaction',
-                          location.name,
-                          {
-                            business_name: location.name,
-                            location_id: location.id,
-                            interaction_type: location.proTips ? 'add_pro_tip' : 'first_pro_tip'
-                          }
-                        );
-                        
-                        // Use the global function to open the modal with pro-tips
-                        (window as any).openReportIssueModal(location.id, location.name, 'pro-tips');
-                      }}
-                      className={`text-sm ${location.proTips ? 'text-blue-600 hover:text-blue-800' : 'bg-blue-600 text-white hover:bg-blue-700 px-4 py-2 rounded-lg'} flex items-center gap-1`}
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus">
-                        <path d="M5 12h14"></path>
-                        <path d="M12 5v14"></path>
-                      </svg>
-                      {location.proTips ? 'Submit a Pro Tip' : 'Be the first to share a Pro Tip!'}
-                    </button>
-                  </div>
-                </div>
-
-                {/* Action Buttons - Show in content on desktop */}
-                <div className="hidden md:block">
-                  <ActionButtons />
-                </div>
-
-                <div className="space-y-3 drawer-content-section">
-                  <div className="flex items-center text-lg">
-                    <span className="font-medium touchable-text">Ages:</span>
-                    <span className="ml-3 text-gray-600 touchable-text">
-                      {location.ageRange.min}-{location.ageRange.max} years
-                    </span>
-                  </div>
-
-                  {location.priceRange && (
-                    <div className="flex items-center text-lg">
-                      <span className="font-medium touchable-text">Price:</span>
-                      <span className="ml-3 text-gray-600 touchable-text">{location.priceRange}</span>
+                <LocationDetails
+                  location={location}
+                  placeData={mergedPlaceData}
+                  isLoadingPhotos={isLoadingPhotos}
+                  actions={(
+                    // Action Buttons - Show in content on desktop
+                    <div className="hidden md:block">
+                      <LocationActionButtons location={location} />
                     </div>
                   )}
-                </div>
-
-                <div className="drawer-content-section">
-                  <h3 className="text-xl font-medium text-gray-900 mb-3 touchable-text">Opening Hours</h3>
-                  <div className="space-y-2">
-                    {Object.entries(location.openingHours).map(([day, hours]) => (
-                      <div key={day} className="text-base grid grid-cols-2">
-                        <span className="text-gray-600 touchable-text">{day}</span>
-                        <span className="text-gray-900 touchable-text">{hours}</span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="pb-6 drawer-content-section">
-                  <h3 className="text-xl font-medium text-gray-900 mb-3 touchable-text">Contact Information</h3>
-                  <div className="space-y-2 text-base text-gray-600">
-                    {location.contact.phone && (
-                      <p className="touchable-text">
-                        Phone:{" "}
-                        <a
-                          href={`tel:${location.contact.phone}`}
-                          onClick={() => trackExternalLink(
-                            'phone',
-                            location.name,
-                            `tel:${location.contact.phone}`,
-                            location.id,
-                            'detail'
-                          )}
-                          className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
-                        >
-                          {location.contact.phone}
-                        </a>
-                      </p>
-                    )}
-                    {location.contact.email && location.contact.email !== 'email' && (
-                      <p className="touchable-text">
-                        Email:{" "}
-                        <a
-                          href={`mailto:${location.contact.email}`}
-                          onClick={() => trackExternalLink(
-                            'email',
-                            location.name,
-                            `mailto:${location.contact.email}`,
-                            location.id,
-                            'detail'
-                          )}
-                          className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
-                        >
-                          {location.contact.email}
-                        </a>
-                      </p>
-                    )}
-                    {location.contact.website && location.contact.website !== 'website' && (
-                      <p className="touchable-text">
-                        Website:{" "}
-                        <a
-                          href={addUtmParams(location.contact.website)}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          onClick={() => trackExternalLink(
-                            'website',
-                            location.name,
-                            location.contact.website!,
-                            location.id,
-                            'detail'
-                          )}
-                          className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
-                        >
-                          {location.contact.website.replace(/^https?:\/\/(www\.)?/, '').split('/')[0]}
-                        </a>
-                      </p>
-                    )}
-                    <p className="touchable-text">Address: {location.address}</p>
-                  </div>
-                </div>
-                
-                {/* Report Issue Link */}
-                <div className="mt-4 flex justify-center pb-6">
-                  <button
-                    onClick={() => {
-                      // Track this interaction
-                      trackCustomEvent(
-                        'report_issue_click',
-                        'Content Interaction',
-                        location.name,
-                        {
-                          business_name: location.name,
-                          location_id: location.id,
-                          interaction_type: 'incorrect-info'
-                        }
-                      );
-                    
-                      // Use the global function to open the modal with incorrect-info
-                      (window as any).openReportIssueModal(location.id, location.name, 'incorrect-info');
-                    }}
-                    className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-flag">
-                      <path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z"></path>
-                      <line x1="4" x2="4" y1="22" y2="15"></line>
-                    </svg>
-                    Submit an Update or Report an Issue
-                  </button>
-                </div>
+                  onReportIssue={(issueType) => (window as any).openReportIssueModal(location.id, location.name, issueType)}
+                />
               </div>
             </div>
           </>
@@ -1204,7 +939,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
               }}
             >
               <div className="flex items-center justify-between p-4">
-                <h2 className="text-xl font-bold text-gray-900">Nearby Activities</h2>
+                <h2 className="text-xl font-bold text-gray-900">{t('drawer.nearby')}</h2>
                 {/* Close button only shown on desktop */}
                 {!isMobile && (
                   <button
@@ -1231,13 +966,13 @@ const Drawer: React.FC<DrawerProps> = memo(({
                   {initState === 'locations-processed' || initState === 'drawer-initialized' || initState === 'fully-ready' ? (
                     // User can see and interact with drawer, but no locations are in viewport
                     <>
-                      <p>No locations in current view</p>
-                      <p className="text-sm mt-2">Try zooming out or panning the map</p>
+                      <p>{t('drawer.noneInView')}</p>
+                      <p className="text-sm mt-2">{t('drawer.zoomOut')}</p>
                     </>
                   ) : initState === 'map-ready' ? (
                     // Map is ready but locations aren't fully processed yet
                     <>
-                      <p className="mb-2">Processing locations...</p>
+                      <p className="mb-2">{t('drawer.processing')}</p>
                       <div className="flex justify-center mt-4">
                         <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                       </div>
@@ -1245,7 +980,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
                   ) : (
                     // Initial loading state
                     <>
-                      <p className="mb-2">Loading locations...</p>
+                      <p className="mb-2">{t('map.loadingLocations')}</p>
                       <div className="flex justify-center mt-4">
                         <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                       </div>
@@ -1260,6 +995,7 @@ const Drawer: React.FC<DrawerProps> = memo(({
                       location={loc}
                       activityConfig={activityConfig}
                       onSelect={() => onLocationSelect && onLocationSelect(loc)}
+                      distanceKm={distanceOrigin ? getDistanceKm(distanceOrigin, loc.coordinates) : undefined}
                     />
                   ))}
                 </div>
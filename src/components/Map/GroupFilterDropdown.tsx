@@ -1,9 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { ActivityType } from '../../types/location';
-import { ACTIVITY_CATEGORIES } from '../../utils/metadata';
 import { useTouch } from '../../contexts/TouchContext';
 import { useMobile } from '../../contexts/MobileContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface GroupFilterDropdownProps {
   groupKey: string;
@@ -26,6 +26,7 @@ const GroupFilterDropdown: React.FC<GroupFilterDropdownProps> = ({
   onToggleGroup,
   onToggleFilter
 }) => {
+  const { t, activityCategories } = useLanguage();
   const [isExpanded, setIsExpanded] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -225,7 +226,7 @@ const GroupFilterDropdown: React.FC<GroupFilterDropdownProps> = ({
                 onClick={(e) => handleTypeClick(e, type)}
                 className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-50 flex items-center justify-between"
               >
-                <span className="mr-2">{ACTIVITY_CATEGORIES[type as ActivityType]?.name || type}</span>
+                <span className="mr-2">{activityCategories[type as ActivityType]?.name || type}</span>
                 {activeFilters.includes(type as ActivityType) && (
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
@@ -253,7 +254,7 @@ const GroupFilterDropdown: React.FC<GroupFilterDropdownProps> = ({
               }}
               className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
             >
-              Close
+              {t('common.close')}
             </button>
           </div>
         </div>,
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ChevronLeft, ChevronRight, Image as ImageIcon, ExternalLink } from 'lucide-react';
 import { addUtmParams, trackExternalLink, trackPhotoInteraction } from '../../utils/analytics';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface ImageCarouselProps {
   photos?: google.maps.places.PlacePhoto[] | undefined;
@@ -21,6 +22,7 @@ const STATIC_FALLBACK_IMAGES = [
 const MAX_PHOTOS = 10;
 
 const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, storedPhotoUrls, businessName, placeId }) => {
+  const { t } = useLanguage();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [displayedUrls, setDisplayedUrls] = useState<string[]>([]);
@@ -301,7 +303,7 @@ const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, stored
       <div className="aspect-video w-full bg-gray-100 rounded-lg flex items-center justify-center">
         <div className="flex flex-col items-center text-gray-400">
           <ImageIcon size={40} strokeWidth={1.5} />
-          <span className="mt-2">No photos available</span>
+          <span className="mt-2">{t('photos.none')}</span>
         </div>
       </div>
     );
@@ -328,7 +330,7 @@ const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, stored
         <div className="absolute inset-0 flex items-center justify-center z-carousel-loading bg-black/10">
           <div className="flex flex-col items-center bg-white/80 p-4 rounded-lg">
             <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-            <span className="mt-2 text-gray-700 font-medium">Loading photo...</span>
+            <span className="mt-2 text-gray-700 font-medium">{t('photos.loading')}</span>
           </div>
         </div>
       )}
@@ -345,7 +347,7 @@ const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, stored
       {/* Fallback message (only show when using fallbacks) */}
       {useFallback && !isViewMoreSlide && (
         <div className="absolute top-0 left-0 right-0 bg-black/60 text-white text-xs p-1 text-center z-carousel-fallback-message">
-          Using placeholder images
+          {t('photos.placeholder')}
         </div>
       )}
       
@@ -359,11 +361,11 @@ const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, stored
             <div className="bg-white/20 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
               <ExternalLink size={32} className="text-white" />
             </div>
-            <h3 className="text-xl font-bold mb-2">More photos...</h3>
+            <h3 className="text-xl font-bold mb-2">{t('photos.more')}</h3>
             <button
               className="px-6 py-3 bg-white text-blue-700 rounded-lg font-medium hover:bg-blue-50 flex items-center gap-2 mx-auto"
             >
-              View on Google Maps <ExternalLink size={16} />
+              {t('photos.viewOnGoogle')} <ExternalLink size={16} />
             </button>
           </div>
         </div>
@@ -398,14 +400,14 @@ const ImageCarousel: React.FC<ImageCarouselProps> = ({ photos, photoUrls, stored
           <button
             onClick={prevPhoto}
             className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity z-carousel-controls"
-            aria-label="Previous photo"
+            aria-label={t('photos.previous')}
           >
             <ChevronLeft size={24} />
           </button>
           <button
             onClick={nextPhoto}
             className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity z-carousel-controls"
-            aria-label="Next photo"
+            aria-label={t('photos.next')}
           >
             <ChevronRight size={24} />
           </button>
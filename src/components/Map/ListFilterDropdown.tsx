@@ -0,0 +1,317 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useTouch } from '../../contexts/TouchContext';
+import { useMobile } from '../../contexts/MobileContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { ChevronDown, Heart, Link2, Trash2 } from 'lucide-react';
+import { trackCustomEvent } from '../../utils/analytics';
+import { ListSelection, SavedList, buildListShareUrl, getSelectionName } from '../../utils/saved-lists';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface ListFilterDropdownProps {
+  selectedList: ListSelection | null;
+  onSelectList: (selection: ListSelection | null) => void;
+}
+
+const ListFilterDropdown: React.FC<ListFilterDropdownProps> = ({
+  selectedList,
+  onSelectList
+}) => {
+  const { t } = useLanguage();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [copiedListId, setCopiedListId] = useState<string | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { setFilterDropdownOpen } = useTouch();
+  const { isMobile } = useMobile();
+  const { lists, createList, deleteList } = useFavorites();
+
+  const isActive = selectedList !== null;
+
+  const closeDropdown = () => {
+    setIsExpanded(false);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  // Handle clicking on the main button
+  const handleButtonClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const newExpandedState = !isExpanded;
+    setIsExpanded(newExpandedState);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(newExpandedState);
+    }
+  };
+
+  // Handle clicking on a list (or "All Places")
+  const handleListClick = (e: React.MouseEvent, selection: ListSelection | null) => {
+    e.stopPropagation();
+    onSelectList(selection);
+    setIsExpanded(false);
+
+    // Update filter dropdown state in TouchContext
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  const handleCopyLink = async (e: React.MouseEvent, list: SavedList) => {
+    e.stopPropagation();
+    const url = buildListShareUrl(list, window.location.origin);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedListId(list.id);
+      trackCustomEvent('share_list', 'favorites', list.name, { list_size: list.locationIds.length });
+    } catch (err) {
+      console.error('Failed to copy: ', err);
+    }
+  };
+
+  const handleDeleteList = (e: React.MouseEvent, list: SavedList) => {
+    e.stopPropagation();
+    if (!window.confirm(t('lists.confirmDelete', { name: list.name }))) return;
+
+    deleteList(list.id);
+    if (selectedList?.kind === 'saved' && selectedList.listId === list.id) {
+      onSelectList(null);
+    }
+  };
+
+  // Copy a list opened from a link into the user's own lists
+  const handleSaveSharedList = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (selectedList?.kind !== 'shared') return;
+
+    const savedList = createList(selectedList.list.name, selectedList.list.locationIds);
+    trackCustomEvent('save_shared_list', 'favorites', savedList.name, { list_size: savedList.locationIds.length });
+    onSelectList({ kind: 'saved', listId: savedList.id });
+  };
+
+  // Clear the "Link copied" confirmation after a moment
+  useEffect(() => {
+    if (!copiedListId) return;
+    const timer = setTimeout(() => setCopiedListId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [copiedListId]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (buttonRef.current && !buttonRef.current.contains(event.target as Node) &&
+          dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsExpanded(false);
+
+        // Only update filter dropdown state on mobile
+        if (isMobile) {
+          setFilterDropdownOpen(false);
+        }
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+
+      // Ensure that clicking outside a filter dropdown doesn't inadvertently trigger map or drawer interactions
+      const preventMapInteraction = (e: Event) => {
+        if (!buttonRef.current?.contains(e.target as Node) &&
+            !dropdownRef.current?.contains(e.target as Node)) {
+          e.stopPropagation();
+        }
+      };
+
+      // Add capture phase listener to intercept events before they reach the map
+      document.addEventListener('touchstart', preventMapInteraction, true);
+      document.addEventListener('touchmove', preventMapInteraction, true);
+
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+        document.removeEventListener('touchstart', preventMapInteraction, true);
+        document.removeEventListener('touchmove', preventMapInteraction, true);
+      };
+    } else {
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+      };
+    }
+  }, [isExpanded, isMobile, setFilterDropdownOpen]);
+
+  // Get dropdown position
+  const getDropdownPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 };
+
+    const rect = buttonRef.current.getBoundingClientRect();
+    return {
+      top: rect.bottom + window.scrollY + 5, // Added small gap
+      left: rect.left + window.scrollX
+    };
+  };
+
+  const checkIcon = (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-4 w-4 text-green-500 flex-shrink-0"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+    </svg>
+  );
+
+  return (
+    <div className="relative" onTouchStart={(e) => e.stopPropagation()}>
+      <button
+        ref={buttonRef}
+        onClick={handleButtonClick}
+        onTouchStart={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: isActive ? '#3B82F6' : 'rgb(243 244 246)',
+          color: isActive ? 'white' : 'rgb(55 65 81)',
+          borderWidth: '1.5px',
+          borderColor: isActive ? '#3B82F6' : 'transparent',
+          touchAction: 'manipulation', // Optimize for tap/click
+        }}
+        className="snap-start flex items-center justify-between gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
+      >
+        <span className="whitespace-nowrap pr-1 flex items-center gap-1">
+          <Heart size={14} className={isActive ? 'fill-white' : ''} />
+          {selectedList ? getSelectionName(selectedList, lists) : t('lists.label')}
+        </span>
+
+        {/* Chevron with subtle separator */}
+        <div
+          className="chevron-area flex items-center"
+          style={{
+            borderLeft: isActive ? '1px solid rgba(255,255,255,0.3)' : '1px solid rgba(0,0,0,0.1)',
+            paddingLeft: '4px',
+            marginLeft: '2px'
+          }}
+        >
+          <ChevronDown
+            size={16}
+            className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          />
+        </div>
+      </button>
+
+      {/* Dropdown menu - rendered with portal to ensure it's not clipped */}
+      {isExpanded && document.body && createPortal(
+        <div
+          ref={dropdownRef}
+          className="fixed bg-white rounded-lg shadow-lg py-1 min-w-max border border-gray-200"
+          style={{
+            ...getDropdownPosition(),
+            zIndex: 9999,
+            maxHeight: '60vh',
+            overflowY: 'auto',
+            minWidth: buttonRef.current ? buttonRef.current.offsetWidth : 100
+          }}
+          onTouchStart={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchMove={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchEnd={(e) => {
+            e.stopPropagation();
+          }}
+        >
+          {/* All places option */}
+          <button
+            onClick={(e) => handleListClick(e, null)}
+            className={`w-full px-3 py-2 text-left text-sm font-medium border-b border-gray-100 hover:bg-gray-50 flex items-center justify-between ${
+              !isActive ? 'bg-blue-50 text-blue-600' : ''
+            }`}
+          >
+            <span className="mr-2">{t('lists.all')}</span>
+            {!isActive && checkIcon}
+          </button>
+
+          {/* List opened from a shared link */}
+          {selectedList?.kind === 'shared' && (
+            <div className="px-3 py-2 border-b border-gray-100 bg-blue-50 text-sm max-w-xs">
+              <div className="flex items-center justify-between gap-2 text-blue-600">
+                <span className="truncate">Shared: {selectedList.list.name}</span>
+                {checkIcon}
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">{selectedList.list.locationIds.length} places</p>
+              <button
+                onClick={handleSaveSharedList}
+                className="mt-2 w-full py-1 rounded bg-blue-500 text-white text-xs font-medium hover:bg-blue-600"
+              >
+                {t('lists.saveShared')}
+              </button>
+            </div>
+          )}
+
+          {/* The user's own lists */}
+          <div className="mt-1">
+            {lists.length === 0 && (
+              <p className="px-3 py-2 text-xs text-gray-500 max-w-xs">
+                {t('lists.empty')}
+              </p>
+            )}
+            {lists.map(list => {
+              const isSelected = selectedList?.kind === 'saved' && selectedList.listId === list.id;
+
+              return (
+                <div
+                  key={list.id}
+                  className={`flex items-center text-sm hover:bg-gray-50 ${isSelected ? 'bg-blue-50 text-blue-600' : ''}`}
+                >
+                  <button
+                    onClick={(e) => handleListClick(e, { kind: 'saved', listId: list.id })}
+                    className="flex-1 px-3 py-1.5 text-left flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate max-w-[10rem]">{list.name}</span>
+                    <span className="flex items-center gap-1">
+                      <span className="text-xs text-gray-400">{list.locationIds.length}</span>
+                      {isSelected && checkIcon}
+                    </span>
+                  </button>
+                  <button
+                    onClick={(e) => handleCopyLink(e, list)}
+                    disabled={list.locationIds.length === 0}
+                    title={t('lists.copyLink')}
+                    aria-label={t('lists.copyLinkFor', { name: list.name })}
+                    className="p-1.5 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                  >
+                    {copiedListId === list.id ? <span className="text-xs text-green-600">{t('lists.copied')}</span> : <Link2 size={14} />}
+                  </button>
+                  <button
+                    onClick={(e) => handleDeleteList(e, list)}
+                    title={t('lists.delete')}
+                    aria-label={t('lists.deleteNamed', { name: list.name })}
+                    className="p-1.5 mr-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Close button */}
+          <div className="border-t border-gray-100 mt-1 pt-1 px-2">
+            <button
+              onClick={closeDropdown}
+              className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
+            >
+              {t('common.close')}
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default ListFilterDropdown;
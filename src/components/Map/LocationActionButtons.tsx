@@ -0,0 +1,137 @@
+import React from 'react';
+import { Phone, Globe, MapPin } from 'lucide-react';
+import { Location } from '../../types/location';
+import { addUtmParams, trackExternalLink } from '../../utils/analytics';
+import { getDirectionsUrl } from '../../utils/directions';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface LocationActionButtonsProps {
+  location: Location;
+}
+
+// Directions, website and call buttons - one row on mobile, a large Directions button
+// above the others on desktop
+const LocationActionButtons: React.FC<LocationActionButtonsProps> = ({ location }) => {
+  const { t } = useLanguage();
+
+  // The day planner builds multi-stop routes with the same helper
+  const directionsUrl = getDirectionsUrl([location.coordinates]);
+
+  return (
+    <div className="flex flex-col md:flex-col gap-3 w-full">
+      {/* On mobile: All buttons in a single row, on desktop: original layout */}
+      <div className="flex gap-2 md:hidden w-full">
+        <a
+          href={directionsUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={() => trackExternalLink(
+            'directions',
+            location.name,
+            directionsUrl,
+            location.id,
+            'detail'
+          )}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 text-center flex items-center justify-center gap-1"
+        >
+          <MapPin size={16} />
+          {t('location.directions')}
+        </a>
+
+        {location.contact.website && (
+          <a
+            href={addUtmParams(location.contact.website)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => trackExternalLink(
+              'website',
+              location.name,
+              location.contact.website!,
+              location.id,
+              'detail'
+            )}
+            className="flex-1 px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 text-center flex items-center justify-center gap-1"
+          >
+            <Globe size={16} />
+            {t('location.websiteButton')}
+          </a>
+        )}
+
+        {location.contact.phone && (
+          <a
+            href={`tel:${location.contact.phone}`}
+            onClick={() => trackExternalLink(
+              'phone',
+              location.name,
+              `tel:${location.contact.phone}`,
+              location.id,
+              'detail'
+            )}
+            className="flex-1 px-3 py-2 text-sm font-medium text-green-600 bg-green-50 rounded-lg hover:bg-green-100 text-center flex items-center justify-center gap-1"
+          >
+            <Phone size={16} />
+            {t('location.call')}
+          </a>
+        )}
+      </div>
+
+      {/* Desktop layout - keep original layout */}
+      <a
+        href={directionsUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={() => trackExternalLink(
+          'directions',
+          location.name,
+          directionsUrl,
+          location.id,
+          'detail'
+        )}
+        className="hidden md:flex w-full px-6 py-3 text-base font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 text-center items-center justify-center gap-2"
+      >
+        <MapPin size={20} />
+        {t('location.getDirections')}
+      </a>
+
+      <div className="hidden md:flex gap-3">
+        {location.contact.website && (
+          <a
+            href={addUtmParams(location.contact.website)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => trackExternalLink(
+              'website',
+              location.name,
+              location.contact.website!,
+              location.id,
+              'detail'
+            )}
+            className="flex-1 px-6 py-3 text-base font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 text-center flex items-center justify-center gap-2"
+          >
+            <Globe size={20} />
+            {t('location.websiteButton')}
+          </a>
+        )}
+
+        {location.contact.phone && (
+          <a
+            href={`tel:${location.contact.phone}`}
+            onClick={() => trackExternalLink(
+              'phone',
+              location.name,
+              `tel:${location.contact.phone}`,
+              location.id,
+              'detail'
+            )}
+            className="flex-1 px-6 py-3 text-base font-medium text-green-600 bg-green-50 rounded-lg hover:bg-green-100 text-center flex items-center justify-center gap-2"
+          >
+            <Phone size={20} />
+            {t('location.call')}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocationActionButtons;
@@ -0,0 +1,259 @@
+import React, { useMemo } from 'react';
+import ImageCarousel from './ImageCarousel';
+import LocationEvents from './LocationEvents';
+import { Location } from '../../types/location';
+import { addUtmParams, trackExternalLink, trackCustomEvent } from '../../utils/analytics';
+import { formatDayHours, getLocationSchedule, getOpenStatusText, getUpcomingDayHours } from '../../utils/opening-hours';
+import { TranslationKey, getLocalizedField } from '../../utils/i18n';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+export type LocationIssueType = 'pro-tips' | 'incorrect-info';
+
+interface LocationDetailsProps {
+  location: Location;
+  placeData?: Location['placeData'];
+  isLoadingPhotos?: boolean;
+  actions?: React.ReactNode; // Shown between the pro tips and the age range
+  onReportIssue: (issueType: LocationIssueType) => void;
+}
+
+// The body of a location's details - photos, description, events, pro tips, ages, hours
+// and contact details. Shared by the map drawer and the place pages; the parent lays the
+// sections out with its own spacing.
+const LocationDetails: React.FC<LocationDetailsProps> = ({
+  location,
+  placeData,
+  isLoadingPhotos = false,
+  actions,
+  onReportIssue
+}) => {
+  const { language, t } = useLanguage();
+  const description = getLocalizedField(location, 'description', language);
+  const proTips = getLocalizedField(location, 'proTips', language);
+
+  // Resolve this week's hours (seasons and holidays applied) and the live open status
+  const { upcomingHours, openStatus } = useMemo(() => {
+    const schedule = getLocationSchedule(location);
+    return {
+      upcomingHours: getUpcomingDayHours(schedule, new Date(), 7, language),
+      openStatus: getOpenStatusText(schedule, new Date(), language)
+    };
+  }, [location, language]);
+
+  return (
+    <>
+      {/* Image Carousel */}
+      {isLoadingPhotos ? (
+        <div className="aspect-video w-full bg-gray-100 rounded-lg flex items-center justify-center">
+          <div className="animate-pulse flex flex-col items-center">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            <span className="mt-2 text-gray-500">{t('location.loadingPhotos')}</span>
+          </div>
+        </div>
+      ) : (
+        <ImageCarousel
+          photos={placeData?.photos}
+          photoUrls={placeData?.photoUrls}
+          storedPhotoUrls={placeData?.storedPhotoUrls}
+          businessName={location.name}
+          placeId={location.id}
+        />
+      )}
+
+      {/* Description */}
+      <div className="drawer-content-section">
+        <p className="text-lg text-gray-600 touchable-text">{description}</p>
+      </div>
+
+      {/* Upcoming events at this venue */}
+      <LocationEvents locationId={location.id} locationName={location.name} />
+
+      {/* Pro Tips - Always shown to encourage submissions */}
+      <div className="drawer-content-section bg-blue-50/50 p-4 rounded-lg border border-blue-100">
+        <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center touchable-text">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2 text-blue-600">
+            <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>
+          </svg>
+          {t('location.proTips')}
+        </h3>
+
+        {proTips ? (
+          <div className="text-gray-700 touchable-text whitespace-pre-line">
+            {proTips}
+          </div>
+        ) : (
+          <div className="text-gray-700 touchable-text">
+            <p className="italic">{t('location.noProTips')}</p>
+          </div>
+        )}
+
+        <div className="mt-3 flex justify-center">
+          <button
+            onClick={() => {
+              // Track this interaction with the new trackCustomEvent function
+              trackCustomEvent(
+                'pro_tip_click',
+                'Content Interaction',
+                location.name,
+                {
+                  business_name: location.name,
+                  location_id: location.id,
+                  interaction_type: location.proTips ? 'add_pro_tip' : 'first_pro_tip'
+                }
+              );
+
+              onReportIssue('pro-tips');
+            }}
+            className={`text-sm ${location.proTips ? 'text-blue-600 hover:text-blue-800' : 'bg-blue-600 text-white hover:bg-blue-700 px-4 py-2 rounded-lg'} flex items-center gap-1`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus">
+              <path d="M5 12h14"></path>
+              <path d="M12 5v14"></path>
+            </svg>
+            {location.proTips ? t('location.submitProTip') : t('location.firstProTip')}
+          </button>
+        </div>
+      </div>
+
+      {actions}
+
+      <div className="space-y-3 drawer-content-section">
+        <div className="flex items-center text-lg">
+          <span className="font-medium touchable-text">{t('location.agesLabel')}</span>
+          <span className="ml-3 text-gray-600 touchable-text">
+            {t('location.ageYears', { min: location.ageRange.min, max: location.ageRange.max })}
+          </span>
+        </div>
+
+        {location.priceRange && (
+          <div className="flex items-center text-lg">
+            <span className="font-medium touchable-text">{t('location.priceLabel')}</span>
+            <span className="ml-3 text-gray-600 touchable-text">{location.priceRange}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="drawer-content-section">
+        <h3 className="text-xl font-medium text-gray-900 mb-3 touchable-text">{t('location.openingHours')}</h3>
+        {openStatus && (
+          <p className={`mb-3 text-base font-medium touchable-text ${openStatus === t('hours.closedNow') ? 'text-red-600' : 'text-green-700'}`}>
+            {openStatus}
+          </p>
+        )}
+        {upcomingHours.some(dayHours => dayHours.intervals !== undefined) ? (
+          <div className="space-y-2">
+            {upcomingHours.map((dayHours, index) => (
+              <div
+                key={dayHours.date}
+                className={`text-base grid grid-cols-2 ${index === 0 ? 'font-medium' : ''}`}
+              >
+                <span className="text-gray-600 touchable-text">
+                  {t(`days.${dayHours.day}` as TranslationKey)}
+                  {dayHours.label && (
+                    <span className="block text-xs text-blue-600">{dayHours.label}</span>
+                  )}
+                </span>
+                <span className="text-gray-900 touchable-text">{formatDayHours(dayHours.intervals, language)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-base text-gray-500 touchable-text">{t('hours.notAvailable')}</p>
+        )}
+      </div>
+
+      <div className="pb-6 drawer-content-section">
+        <h3 className="text-xl font-medium text-gray-900 mb-3 touchable-text">{t('location.contactInfo')}</h3>
+        <div className="space-y-2 text-base text-gray-600">
+          {location.contact.phone && (
+            <p className="touchable-text">
+              {t('location.phone')}{" "}
+              <a
+                href={`tel:${location.contact.phone}`}
+                onClick={() => trackExternalLink(
+                  'phone',
+                  location.name,
+                  `tel:${location.contact.phone}`,
+                  location.id,
+                  'detail'
+                )}
+                className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
+              >
+                {location.contact.phone}
+              </a>
+            </p>
+          )}
+          {location.contact.email && location.contact.email !== 'email' && (
+            <p className="touchable-text">
+              {t('location.email')}{" "}
+              <a
+                href={`mailto:${location.contact.email}`}
+                onClick={() => trackExternalLink(
+                  'email',
+                  location.name,
+                  `mailto:${location.contact.email}`,
+                  location.id,
+                  'detail'
+                )}
+                className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
+              >
+                {location.contact.email}
+              </a>
+            </p>
+          )}
+          {location.contact.website && location.contact.website !== 'website' && (
+            <p className="touchable-text">
+              {t('location.website')}{" "}
+              <a
+                href={addUtmParams(location.contact.website)}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={() => trackExternalLink(
+                  'website',
+                  location.name,
+                  location.contact.website!,
+                  location.id,
+                  'detail'
+                )}
+                className="text-blue-600 hover:text-blue-800 hover:underline touchable-text"
+              >
+                {location.contact.website.replace(/^https?:\/\/(www\.)?/, '').split('/')[0]}
+              </a>
+            </p>
+          )}
+          <p className="touchable-text">{t('location.address')} {location.address}</p>
+        </div>
+      </div>
+
+      {/* Report Issue Link */}
+      <div className="mt-4 flex justify-center pb-6">
+        <button
+          onClick={() => {
+            // Track this interaction
+            trackCustomEvent(
+              'report_issue_click',
+              'Content Interaction',
+              location.name,
+              {
+                business_name: location.name,
+                location_id: location.id,
+                interaction_type: 'incorrect-info'
+              }
+            );
+
+            onReportIssue('incorrect-info');
+          }}
+          className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-flag">
+            <path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z"></path>
+            <line x1="4" x2="4" y1="22" y2="15"></line>
+          </svg>
+          {t('location.reportIssue')}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default LocationDetails;
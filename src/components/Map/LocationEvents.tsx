@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { CalendarDays, ExternalLink } from 'lucide-react';
+import { useEvents } from '../../contexts/EventsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { addUtmParams, trackExternalLink } from '../../utils/analytics';
+import { formatEventDate, formatEventSchedule, getNextEventDate, getUpcomingEvents } from '../../utils/events';
+
+interface LocationEventsProps {
+  locationId: string;
+  locationName: string;
+}
+
+// Upcoming camps, shows and workshops at a venue, shown on its Drawer page
+const LocationEvents: React.FC<LocationEventsProps> = ({ locationId, locationName }) => {
+  const { getLocationEvents } = useEvents();
+  const { language, t } = useLanguage();
+
+  const upcomingEvents = useMemo(
+    () => getUpcomingEvents(getLocationEvents(locationId)),
+    [getLocationEvents, locationId]
+  );
+
+  if (upcomingEvents.length === 0) return null;
+
+  return (
+    <div className="drawer-content-section">
+      <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2 touchable-text">
+        <CalendarDays size={20} className="text-blue-600" />
+        {t('events.upcoming')}
+      </h3>
+
+      <ul className="space-y-3">
+        {upcomingEvents.map(event => {
+          const nextDate = getNextEventDate(event);
+
+          return (
+            <li key={event.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium text-gray-900 touchable-text">{event.title}</p>
+                {nextDate && (
+                  <span className="flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-700">
+                    {t('events.next', { date: formatEventDate(nextDate, language) })}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 mt-1 touchable-text">{formatEventSchedule(event, language)}</p>
+              <p className="text-sm text-gray-600 touchable-text">
+                {t('location.ages', { min: event.ageRange.min, max: event.ageRange.max })}
+                {event.price && ` • ${event.price}`}
+              </p>
+              {event.description && (
+                <p className="text-sm text-gray-700 mt-2 whitespace-pre-line touchable-text">{event.description}</p>
+              )}
+              {event.bookingUrl && (
+                <a
+                  href={addUtmParams(event.bookingUrl)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => trackExternalLink(
+                    'website',
+                    locationName,
+                    event.bookingUrl!,
+                    locationId,
+                    'detail'
+                  )}
+                  className="mt-2 inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  {t('events.bookNow')}
+                  <ExternalLink size={14} />
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LocationEvents;
@@ -2,15 +2,21 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Location, ActivityType } from '../../types/location';
 import { fetchPlaceDetails } from '../../utils/places-api';
 import { trackMarkerClick } from '../../utils/analytics';
+import { formatDistance } from '../../utils/geo';
+import { SaveButton } from '../Favorites';
 import { Star } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getLocalizedField } from '../../utils/i18n';
 
 interface LocationTileProps {
   location: Location;
   activityConfig: Record<ActivityType, { name: string; color: string }>;
   onSelect: () => void;
+  distanceKm?: number; // Distance from the user, shown when known
 }
 
-const LocationTile: React.FC<LocationTileProps> = ({ location, activityConfig, onSelect }) => {
+const LocationTile: React.FC<LocationTileProps> = ({ location, activityConfig, onSelect, distanceKm }) => {
+  const { language, t } = useLanguage();
   const [placeData, setPlaceData] = useState<Location['placeData']>();
   // Track loading state for visual feedback
   const [isLoading, setIsLoading] = useState(false);
@@ -125,8 +131,16 @@ const LocationTile: React.FC<LocationTileProps> = ({ location, activityConfig, o
       <div className="flex items-start gap-2 md:gap-3">
         {/* Left content - Location info */}
         <div className="flex-1 min-w-0 pr-3 z-location-content">
-          {/* Name */}
-          <h3 className="text-base md:text-lg font-semibold text-gray-900 mb-0.5 md:mb-1 line-clamp-1">{location.name}</h3>
+          {/* Name and save button */}
+          <div className="flex items-start justify-between gap-1">
+            <h3 className="text-base md:text-lg font-semibold text-gray-900 mb-0.5 md:mb-1 line-clamp-1">{location.name}</h3>
+            <SaveButton
+              locationId={location.id}
+              locationName={location.name}
+              size={18}
+              className="-mt-1 -mr-1 flex-shrink-0"
+            />
+          </div>
           
           {/* Activity Types */}
           <div className="flex flex-wrap gap-1 mb-0.5 md:mb-1">
@@ -147,9 +161,16 @@ const LocationTile: React.FC<LocationTileProps> = ({ location, activityConfig, o
           <div className="flex items-center gap-2 mb-0.5 md:mb-1">
             {/* Age range */}
             <span className="inline-block text-xs text-gray-500 px-1.5 md:px-2 py-0.5 bg-gray-100 rounded-full">
-              Ages {location.ageRange.min}-{location.ageRange.max}
+              {t('location.ages', { min: location.ageRange.min, max: location.ageRange.max })}
             </span>
             
+            {/* Distance from the user */}
+            {distanceKm !== undefined && (
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {formatDistance(distanceKm)}
+              </span>
+            )}
+            
             {/* Full rating display - shown on all devices */}
             {mergedPlaceData?.rating && mergedPlaceData.userRatingsTotal && (
               <div className="flex items-center">
@@ -182,7 +203,7 @@ const LocationTile: React.FC<LocationTileProps> = ({ location, activityConfig, o
           </div>
           
           {/* Location description - truncated */}
-          <p className="text-xs md:text-sm text-gray-600 line-clamp-2 mb-0.5 md:mb-1">{location.description}</p>
+          <p className="text-xs md:text-sm text-gray-600 line-clamp-2 mb-0.5 md:mb-1">{getLocalizedField(location, 'description', language)}</p>
         </div>
         
         {/* Right side - Featured image (square with rounded corners) */}
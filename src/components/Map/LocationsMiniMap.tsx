@@ -0,0 +1,107 @@
+import React, { useCallback } from 'react';
+import { GoogleMap, LoadScriptNext, Marker, Polygon, Libraries } from '@react-google-maps/api';
+import { Location } from '../../types/location';
+import { ACTIVITY_CATEGORIES, CITY } from '../../utils/metadata';
+
+// Same libraries as the main map, so the two can share the loaded script
+const GOOGLE_MAPS_LIBRARIES: Libraries = ['places'];
+
+// Same pin shape as the main map's markers
+const MARKER_PATH = 'M-6,0 C-6,-6 6,-6 6,0 C6,6 0,12 0,12 C0,12 -6,6 -6,0 Z';
+
+interface LocationsMiniMapProps {
+  locations: Location[];
+  outline?: Array<[number, number]>; // [lat, lng] corners of an area to draw
+  outlineColor?: string;
+  onSelect: (location: Location) => void;
+}
+
+// A small map of a set of locations, zoomed to fit them (and the area
+// outline, when there is one). Used by the landing pages.
+const LocationsMiniMap: React.FC<LocationsMiniMapProps> = ({
+  locations,
+  outline,
+  outlineColor = '#3B82F6',
+  onSelect
+}) => {
+  const onMapLoad = useCallback((map: google.maps.Map) => {
+    const points = [
+      ...locations.map(location => location.coordinates),
+      ...(outline || []).map(([lat, lng]) => ({ lat, lng }))
+    ];
+
+    if (points.length === 0) {
+      map.setCenter({ lat: CITY.lat, lng: CITY.lng });
+      map.setZoom(11);
+      return;
+    }
+
+    const bounds = new google.maps.LatLngBounds();
+    points.forEach(point => bounds.extend(point));
+    map.fitBounds(bounds, 24);
+
+    // A single location would otherwise zoom in to street level
+    if (points.length === 1) {
+      map.setZoom(15);
+    }
+  }, [locations, outline]);
+
+  return (
+    <LoadScriptNext
+      googleMapsApiKey={process.env.REACT_APP_GOOGLE_MAPS_API_KEY || ''}
+      onError={(error) => console.error('Google Maps loading error:', error)}
+      libraries={GOOGLE_MAPS_LIBRARIES}
+    >
+      <GoogleMap
+        mapContainerClassName="w-full h-64 md:h-80 rounded-lg"
+        onLoad={onMapLoad}
+        options={{
+          styles: [
+            {
+              featureType: "poi",
+              elementType: "labels",
+              stylers: [{ visibility: "off" }]
+            }
+          ],
+          mapTypeControl: false,
+          streetViewControl: false,
+          fullscreenControl: false,
+          clickableIcons: false
+        }}
+      >
+        {outline && (
+          <Polygon
+            paths={outline.map(([lat, lng]) => ({ lat, lng }))}
+            options={{
+              fillColor: outlineColor,
+              fillOpacity: 0.08,
+              strokeColor: outlineColor,
+              strokeOpacity: 0.6,
+              strokeWeight: 2,
+              clickable: false
+            }}
+          />
+        )}
+
+        {locations.map(location => (
+          <Marker
+            key={location.id}
+            position={location.coordinates}
+            title={location.name}
+            onClick={() => onSelect(location)}
+            icon={{
+              path: MARKER_PATH,
+              fillColor: ACTIVITY_CATEGORIES[location.primaryType || location.types[0]]?.color || outlineColor,
+              fillOpacity: 1,
+              scale: 1.3,
+              strokeColor: '#FFFFFF',
+              strokeWeight: 2
+            }}
+          />
+        ))}
+      </GoogleMap>
+    </LoadScriptNext>
+  );
+};
+
+export default LocationsMiniMap;
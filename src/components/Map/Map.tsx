@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { GoogleMap, LoadScriptNext, Marker, Libraries } from '@react-google-maps/api';
-import { useLocation } from 'react-router-dom';
+import { GoogleMap, LoadScriptNext, Marker, Circle, Libraries } from '@react-google-maps/api';
+import { CalendarDays } from 'lucide-react';
 import Drawer from './Drawer';
 import { ActivityType, Location } from '../../types/location';
 import { trackMarkerClick } from '../../utils/analytics';
@@ -8,13 +8,32 @@ import { useMobile } from '../../contexts/MobileContext';
 import { useTouch } from '../../contexts/TouchContext';
 import { useAppState } from '../../contexts/AppStateContext';
 import { useUserLocation } from '../../contexts/UserLocationContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { useEvents } from '../../contexts/EventsContext';
+import { useDayPlanner } from '../../contexts/DayPlannerContext';
 import MapBlockingOverlay from './MapBlockingOverlay';
 import GroupFilterDropdown from './GroupFilterDropdown';
 import AgeFilterDropdown from './AgeFilterDropdown';
 import PriceFilterDropdown, { PriceOption } from './PriceFilterDropdown';
+import OpenAtFilterDropdown from './OpenAtFilterDropdown';
+import ReachFilterDropdown from './ReachFilterDropdown';
+import ListFilterDropdown from './ListFilterDropdown';
 import { getLocations } from '../../utils/firebase-service';
 import SEO from '../SEO'; // Import SEO component
-import { ACTIVITY_CATEGORIES, ACTIVITY_GROUPS } from '../../utils/metadata';
+import { ACTIVITY_CATEGORIES, ACTIVITY_GROUPS, CITY } from '../../utils/metadata';
+import {
+  OpenWindow,
+  getNextWindowRange,
+  isLocationOpenAt,
+  isLocationOpenThroughout,
+  parseOpenWindowParams
+} from '../../utils/opening-hours';
+import { getWeekendRange, isEventInRange } from '../../utils/events';
+import { LocationCluster, MapViewport, clusterLocations, getLocationsInBounds } from '../../utils/map-clustering';
+import { getBoundsAroundPoint, getClosestLocations, getDistanceKm } from '../../utils/geo';
+import { ReachFilter, getReachRadiusKm, isWithinReach } from '../../utils/travel-time';
+import { ListSelection, decodeListParam, getSelectionLocationIds } from '../../utils/saved-lists';
+import { useLanguage, useSearchWithoutLanguage } from '../../contexts/LanguageContext';
 
 // Using MobileContext instead of local mobile detection
 
@@ -31,9 +50,12 @@ interface MapProps {
 // Use activity categories from centralized metadata
 const activityConfig = ACTIVITY_CATEGORIES;
 
+// Athens city center - used to rank locations before the map has a center of its own
+const DEFAULT_MAP_CENTER = { lat: CITY.lat, lng: CITY.lng };
+
 const MapComponent: React.FC<MapProps> = () => {
-  // Get location for URL parameter access
-  const location = useLocation();
+  // URL parameters, without ?lang - switching language keeps the filters and selection
+  const pageSearch = useSearchWithoutLanguage();
   
   // Add state for locations, loading state, and error handling
   const [locations, setLocations] = useState<Location[]>([]);
@@ -41,8 +63,14 @@ const MapComponent: React.FC<MapProps> = () => {
   const [loadError, setLoadError] = useState<string | null>(null);
   // Use context hooks for mobile detection and UI state
   const { isMobile } = useMobile();
+  const { t, activityCategories, activityGroups } = useLanguage();
   // Get user location from context
-  const { userLocation: contextUserLocation, locationLoaded } = useUserLocation();
+  const { userLocation: contextUserLocation, locationLoaded, permissionStatus } = useUserLocation();
+  // Saved lists, used by the "My Lists" filter
+  const { lists: savedLists } = useFavorites();
+  const { allEvents } = useEvents();
+  // Day plan, shown as a floating button once it has stops
+  const { plan: dayPlan, openPlanner } = useDayPlanner();
   // Get drawer state and map blocking state from TouchContext
   const { drawerState, setDrawerState, isMapBlocked, setLocationClearCallback, setFilterDropdownOpen } = useTouch();
   
@@ -69,11 +97,30 @@ const MapComponent: React.FC<MapProps> = () => {
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
   const [hoveredLocation, setHoveredLocation] = useState<Location | null>(null);
   const [openNowFilter, setOpenNowFilter] = useState(false);
+  const [openWindow, setOpenWindow] = useState<OpenWindow | null>(null);
+  const [reachFilter, setReachFilter] = useState<ReachFilter | null>(null);
+  const [listSelection, setListSelection] = useState<ListSelection | null>(null);
+  const [weekendFilter, setWeekendFilter] = useState(false);
   const [activeFilters, setActiveFilters] = useState<ActivityType[]>([]);
   const [activeGroups, setActiveGroups] = useState<string[]>([]);
 
   const [selectedAge, setSelectedAge] = useState<number | null>(null);
   const [selectedPrice, setSelectedPrice] = useState<PriceOption>(null);
+  // Resolve the "Open at" window to concrete instants once, so every filter pass checks the same range
+  const openWindowRange = useMemo(() => (openWindow ? getNextWindowRange(openWindow) : null), [openWindow]);
+  // Ids in the selected list - follows edits, so un-saving a place takes it off the map
+  // (keyed on the ids themselves so editing other lists doesn't re-run every filter)
+  const listIdsKey = listSelection ? JSON.stringify(getSelectionLocationIds(listSelection, savedLists)) : null;
+  const listLocationIds = useMemo(
+    () => (listIdsKey !== null ? new Set<string>(JSON.parse(listIdsKey)) : null),
+    [listIdsKey]
+  );
+  // Venues with an event running this weekend
+  const weekendLocationIds = useMemo(() => {
+    if (!weekendFilter) return null;
+    const weekend = getWeekendRange();
+    return new Set(allEvents.filter(event => isEventInRange(event, weekend)).map(event => event.locationId));
+  }, [weekendFilter, allEvents]);
   const [maps, setMaps] = useState<typeof google.maps | null>(null);
   const [map, setMap] = useState<google.maps.Map | null>(null);
   // Use location from context instead of managing location state locally
@@ -81,6 +128,8 @@ const MapComponent: React.FC<MapProps> = () => {
   const [visibleLocations, setVisibleLocations] = useState<Location[]>([]);
   const [drawerLocations, setDrawerLocations] = useState<Location[]>([]);
   const [mapReadyState, setMapReadyState] = useState(false);
+  // Viewport snapshot used to build marker clusters - refreshed whenever the map goes idle
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
   // This ref was removed as we simplified the map initialization logic
 
 
@@ -124,60 +173,49 @@ const MapComponent: React.FC<MapProps> = () => {
       }
       
       // Filter by open now
-      if (openNowFilter) {
-        const now = new Date();
-        const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-        const hours = location.openingHours[day];
-
-        if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-          return false;
-        }
-        if (hours === 'Open 24 hours') {
-          return true;
-        }
-
-        try {
-          const timeParts = hours.split(/[–-]/).map(t => t.trim());
-          if (timeParts.length !== 2) return false;
-          const [start, end] = timeParts;
-          
-          const parseTime = (timeStr: string) => {
-            if (!timeStr) return 0;
-            const parts = timeStr.split(' ');
-            if (parts.length !== 2) return 0;
-            
-            const [time, period] = parts;
-            if (!time || !period) return 0;
-            
-            const [hours, minutes] = time.split(':').map(Number);
-            if (isNaN(hours)) return 0;
-            
-            let totalHours = hours;
-            if (period === 'PM' && hours !== 12) totalHours += 12;
-            if (period === 'AM' && hours === 12) totalHours = 0;
-            
-            return totalHours * 60 + (minutes || 0);
-          };
-
-          const startMinutes = parseTime(start);
-          const endMinutes = parseTime(end);
-          const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-          if (endMinutes < startMinutes) {
-            return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-          }
-
-          return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-        } catch (error) {
-          // Silent error in production
-          return false;
-        }
+      if (openNowFilter && !isLocationOpenAt(location, new Date())) {
+        return false;
+      }
+      
+      // Filter by open for the whole chosen window
+      if (openWindowRange && !isLocationOpenThroughout(location, openWindowRange)) {
+        return false;
+      }
+      
+      // Filter by distance or travel time from the chosen origin
+      if (reachFilter && !isWithinReach(location.coordinates, reachFilter)) {
+        return false;
+      }
+      
+      // Filter by saved or shared list
+      if (listLocationIds && !listLocationIds.has(location.id)) {
+        return false;
+      }
+      
+      // Filter by events this weekend
+      if (weekendLocationIds && !weekendLocationIds.has(location.id)) {
+        return false;
       }
       
       // If location passes all active filters, include it
       return true;
     });
-  }, [activeFilters, selectedAge, selectedPrice, openNowFilter]);
+  }, [activeFilters, selectedAge, selectedPrice, openNowFilter, openWindowRange, reachFilter, listLocationIds, weekendLocationIds]);
+
+  // Whether any filter is narrowing the map - the same check everywhere filters matter
+  const hasActiveFilters = useMemo(() => (
+    activeFilters.length > 0 ||
+    activeGroups.length > 0 ||
+    selectedAge !== null ||
+    selectedPrice !== null ||
+    openNowFilter ||
+    openWindowRange !== null ||
+    reachFilter !== null ||
+    listLocationIds !== null ||
+    weekendLocationIds !== null
+  ), [activeFilters, activeGroups, selectedAge, selectedPrice, openNowFilter, openWindowRange, reachFilter, listLocationIds, weekendLocationIds]);
+  // Counted for the mobile Clear Filters button, which warns when nothing matches
+  const matchingLocationCount = useMemo(() => filterLocations(locations).length, [filterLocations, locations]);
 
   // This function has been removed as we now use a simpler approach for map positioning
   
@@ -221,7 +259,7 @@ const MapComponent: React.FC<MapProps> = () => {
   // Process URL parameters for filtering
   useEffect(() => {
     // Get filter parameters
-    const queryParams = new URLSearchParams(location.search);
+    const queryParams = new URLSearchParams(pageSearch);
     
     // Clear existing filters first
     setActiveFilters([]);
@@ -229,6 +267,9 @@ const MapComponent: React.FC<MapProps> = () => {
     setSelectedPrice(null);
     setSelectedAge(null);
     setOpenNowFilter(false);
+    setOpenWindow(null);
+    setListSelection(null);
+    setWeekendFilter(false);
     
     // Process activity group filter
     const filterParam = queryParams.get('filter');
@@ -272,6 +313,32 @@ const MapComponent: React.FC<MapProps> = () => {
       setOpenNowFilter(true);
     }
     
+    // Process open at filter (e.g. ?day=sat&from=10:00&to=13:00)
+    const dayParam = queryParams.get('day');
+    const fromParam = queryParams.get('from');
+    const toParam = queryParams.get('to');
+    const openWindowParam = parseOpenWindowParams(dayParam, fromParam, toParam);
+    if (openWindowParam) {
+      console.log(`Applying open at filter from URL: ${openWindowParam.day} ${openWindowParam.from}-${openWindowParam.to}`);
+      setOpenWindow(openWindowParam);
+    }
+    
+    // Process shared list filter (e.g. ?list=id1,id2&listName=Rainy%20day)
+    const listParam = queryParams.get('list');
+    const sharedListIds = decodeListParam(listParam);
+    if (sharedListIds.length > 0) {
+      const listName = queryParams.get('listName')?.trim() || 'Shared list';
+      console.log(`Applying shared list filter from URL: ${listName} (${sharedListIds.length} places)`);
+      setListSelection({ kind: 'shared', list: { name: listName, locationIds: sharedListIds } });
+    }
+    
+    // Process weekend events filter (e.g. ?when=weekend)
+    const whenParam = queryParams.get('when');
+    if (whenParam === 'weekend') {
+      console.log('Applying weekend events filter from URL');
+      setWeekendFilter(true);
+    }
+    
     // Process locationId parameter (for direct linking to a location)
     const locationIdParam = queryParams.get('locationId');
     if (locationIdParam) {
@@ -287,6 +354,9 @@ const MapComponent: React.FC<MapProps> = () => {
       if (priceParam) appliedFilters.push(`price=${priceParam}`);
       if (ageParam) appliedFilters.push(`age=${ageParam}`);
       if (openNowParam) appliedFilters.push(`open=${openNowParam}`);
+      if (openWindowParam) appliedFilters.push(`day=${dayParam}&from=${fromParam}&to=${toParam}`);
+      if (sharedListIds.length > 0) appliedFilters.push(`list=${listParam}`);
+      if (whenParam === 'weekend') appliedFilters.push(`when=${whenParam}`);
       if (locationIdParam) appliedFilters.push(`locationId=${locationIdParam}`);
       
       if (appliedFilters.length > 0) {
@@ -295,7 +365,7 @@ const MapComponent: React.FC<MapProps> = () => {
         console.log('No URL filters applied');
       }
     }
-  }, [location.search]);
+  }, [pageSearch]);
   
 
 
@@ -305,7 +375,7 @@ const MapComponent: React.FC<MapProps> = () => {
     if (!map || !mapReadyState || locations.length === 0) return;
     
     // Log the filter change with clearer formatting
-    console.log(`🔍 FILTER CHANGE DETECTED - activeFilters: ${activeFilters.length}, age: ${selectedAge}, openNow: ${openNowFilter}, price: ${selectedPrice}`);
+    console.log(`🔍 FILTER CHANGE DETECTED - filters active: ${hasActiveFilters}`);
     
     // Reset the debounce timer to ensure validation runs after this update
     lastValidationTimeRef.current = 0;
@@ -336,28 +406,14 @@ const MapComponent: React.FC<MapProps> = () => {
         lng: mapCenter.lng()
       };
       
-      // Calculate distance for filtered locations from the current map center
-      const locationsWithDistance = filteredLocations.map(location => {
-        const distance = Math.sqrt(
-          Math.pow(location.coordinates.lat - mapCenterPosition.lat, 2) +
-          Math.pow(location.coordinates.lng - mapCenterPosition.lng, 2)
-        );
-        return { location, distance };
-      });
-      
-      // Sort by distance (closest first)
-      locationsWithDistance.sort((a, b) => a.distance - b.distance);
-      
       // If we have very few filtered locations (< 15), use all of them
       // This ensures we don't mix filtered and unfiltered locations
       if (filteredLocations.length < 15) {
         console.log(`🔍 Using ALL ${filteredLocations.length} filtered locations instead of limiting to 15`);
         closestLocations = filteredLocations;
       } else {
-        // We have plenty of filtered locations, take the closest 15
-        closestLocations = locationsWithDistance
-          .map(item => item.location)
-          .slice(0, 15);
+        // We have plenty of filtered locations, take the 15 closest to the current map center
+        closestLocations = getClosestLocations(filteredLocations, mapCenterPosition, 15);
       }
     } else {
       // No map center available, just use all filtered locations (up to 15)
@@ -386,7 +442,7 @@ const MapComponent: React.FC<MapProps> = () => {
       lastValidationTimeRef.current = 0;
     }, 100);
     
-  }, [activeFilters, selectedAge, openNowFilter, selectedPrice, map, mapReadyState, locations, filterLocations]);
+  }, [map, mapReadyState, locations, filterLocations, hasActiveFilters]);
   
   // Fetch locations from Firebase on component mount
   useEffect(() => {
@@ -405,90 +461,14 @@ const MapComponent: React.FC<MapProps> = () => {
           
           // IMPROVED APPROACH: Filter cached locations before selecting closest ones
           // Apply all active filters to entire locations dataset (same as non-cached logic)
-          const filteredLocations = parsedLocations.filter((location: Location) => {
-            // Filter by activity type
-            if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-              return false;
-            }
-            
-            // Filter by age
-            if (selectedAge !== null) {
-              if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-                return false;
-              }
-            }
-            
-            // Filter by price
-            if (selectedPrice !== null) {
-              // Handle the "Free" price option
-              if (selectedPrice === "Free" && location.priceRange !== "Free") {
-                return false;
-              }
-              // Handle the other price options (€, €€, €€€)
-              else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-                return false;
-              }
-            }
-            
-            // Filter by open now
-            if (openNowFilter) {
-              const now = new Date();
-              const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-              const hours = location.openingHours[day];
-              
-              if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-                return false;
-              }
-              if (hours === 'Open 24 hours') {
-                return true;
-              }
-              
-              try {
-                const timeParts = hours.split(/[–-]/).map(t => t.trim());
-                if (timeParts.length !== 2) return false;
-                const [start, end] = timeParts;
-                
-                const parseTime = (timeStr: string) => {
-                  if (!timeStr) return 0;
-                  const parts = timeStr.split(' ');
-                  if (parts.length !== 2) return 0;
-                  
-                  const [time, period] = parts;
-                  if (!time || !period) return 0;
-                  
-                  const [hours, minutes] = time.split(':').map(Number);
-                  if (isNaN(hours)) return 0;
-                  
-                  let totalHours = hours;
-                  if (period === 'PM' && hours !== 12) totalHours += 12;
-                  if (period === 'AM' && hours === 12) totalHours = 0;
-                  
-                  return totalHours * 60 + (minutes || 0);
-                };
-                
-                const startMinutes = parseTime(start);
-                const endMinutes = parseTime(end);
-                const currentMinutes = now.getHours() * 60 + now.getMinutes();
-                
-                if (endMinutes < startMinutes) {
-                  return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-                }
-                
-                return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-              } catch (error) {
-                return false;
-              }
-            }
-            
-            return true;
-          });
+          const filteredLocations = filterLocations(parsedLocations);
           
           console.log(`Filtered ${parsedLocations.length} cached locations down to ${filteredLocations.length} matching current filters`);
           
           // Immediately populate visibleLocations with filtered locations on desktop
           // DO NOT populate visibleLocations during initial load when there are active filters
           // This prevents overriding the filtered results that will be calculated in the filter change effect
-          if (activeFilters.length > 0 || selectedAge !== null || openNowFilter || selectedPrice !== null) {
+          if (hasActiveFilters) {
             console.log('🔍 LOCATION SOURCE 4: Back to list - updating both map markers and drawer content with filters (age, price, open now)');
             // Don't set visibleLocations here - let the filter change effect handle it
           } else {
@@ -515,45 +495,7 @@ const MapComponent: React.FC<MapProps> = () => {
             setLocations(freshLocations);
             
             // Apply filters to fresh data
-            const filteredLocations = freshLocations.filter((location: Location) => {
-              // Filter by activity type
-              if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-                return false;
-              }
-              
-              // Filter by age
-              if (selectedAge !== null) {
-                if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-                  return false;
-                }
-              }
-              
-              // Filter by price
-              if (selectedPrice !== null) {
-                // Handle the "Free" price option
-                if (selectedPrice === "Free" && location.priceRange !== "Free") {
-                  return false;
-                }
-                // Handle the other price options (€, €€, €€€)
-                else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-                  return false;
-                }
-              }
-              
-              // Filter by open now
-              if (openNowFilter) {
-                const now = new Date();
-                const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-                const hours = location.openingHours[day];
-                
-                if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-                  return false;
-                }
-                // Additional open now logic omitted for brevity
-              }
-              
-              return true;
-            });
+            const filteredLocations = filterLocations(freshLocations);
             
             // Update drawerLocations with filtered fresh data
             setDrawerLocations(filteredLocations.slice(0, 15));
@@ -563,20 +505,7 @@ const MapComponent: React.FC<MapProps> = () => {
               setVisibleLocations(filteredLocations.slice(0, 15));
             } else {
               // Update mobile locations too
-              const defaultCoords = { lat: 37.9838, lng: 23.7275 };
-              const locationsWithDistance = filteredLocations.map((location: Location) => {
-                const distance = Math.sqrt(
-                  Math.pow(location.coordinates.lat - defaultCoords.lat, 2) +
-                  Math.pow(location.coordinates.lng - defaultCoords.lng, 2)
-                );
-                return { location, distance };
-              });
-              locationsWithDistance.sort((a: {location: Location, distance: number}, b: {location: Location, distance: number}) =>
-                a.distance - b.distance
-              );
-              const closestLocations = locationsWithDistance
-                .map((item: {location: Location, distance: number}) => item.location)
-                .slice(0, 15);
+              const closestLocations = getClosestLocations(filteredLocations, DEFAULT_MAP_CENTER, 15);
               setVisibleLocations(closestLocations);
             }
           }).catch(console.error);
@@ -593,85 +522,7 @@ const MapComponent: React.FC<MapProps> = () => {
         
         // IMPROVED APPROACH: Filter locations before selecting closest ones
         // 1. Apply all active filters to entire locations dataset
-        // Note: filterLocations isn't available yet since it's defined by useCallback
-        // So we'll inline the filtering logic here
-        const filteredLocations = fetchedLocations.filter(location => {
-          // Filter by activity type
-          if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-            return false;
-          }
-          
-          // Filter by age
-          if (selectedAge !== null) {
-            if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-              return false;
-            }
-          }
-          
-          // Filter by price
-          if (selectedPrice !== null) {
-            // Handle the "Free" price option
-            if (selectedPrice === "Free" && location.priceRange !== "Free") {
-              return false;
-            }
-            // Handle the other price options (€, €€, €€€)
-            else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-              return false;
-            }
-          }
-          
-          // Filter by open now
-          if (openNowFilter) {
-            const now = new Date();
-            const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-            const hours = location.openingHours[day];
-            
-            if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-              return false;
-            }
-            if (hours === 'Open 24 hours') {
-              return true;
-            }
-            
-            try {
-              const timeParts = hours.split(/[–-]/).map(t => t.trim());
-              if (timeParts.length !== 2) return false;
-              const [start, end] = timeParts;
-              
-              const parseTime = (timeStr: string) => {
-                if (!timeStr) return 0;
-                const parts = timeStr.split(' ');
-                if (parts.length !== 2) return 0;
-                
-                const [time, period] = parts;
-                if (!time || !period) return 0;
-                
-                const [hours, minutes] = time.split(':').map(Number);
-                if (isNaN(hours)) return 0;
-                
-                let totalHours = hours;
-                if (period === 'PM' && hours !== 12) totalHours += 12;
-                if (period === 'AM' && hours === 12) totalHours = 0;
-                
-                return totalHours * 60 + (minutes || 0);
-              };
-              
-              const startMinutes = parseTime(start);
-              const endMinutes = parseTime(end);
-              const currentMinutes = now.getHours() * 60 + now.getMinutes();
-              
-              if (endMinutes < startMinutes) {
-                return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-              }
-              
-              return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-            } catch (error) {
-              return false;
-            }
-          }
-          
-          return true;
-        });
+        const filteredLocations = filterLocations(fetchedLocations);
         
         console.log(`Filtered ${fetchedLocations.length} locations down to ${filteredLocations.length} matching current filters`);
         
@@ -682,20 +533,7 @@ const MapComponent: React.FC<MapProps> = () => {
         } else {
           // For mobile, populate with closest FILTERED locations to default center
           console.log('Pre-populating filtered visibleLocations for mobile');
-          const defaultCoords = { lat: 37.9838, lng: 23.7275 };
-          const locationsWithDistance = filteredLocations.map((location: Location) => {
-            const distance = Math.sqrt(
-              Math.pow(location.coordinates.lat - defaultCoords.lat, 2) +
-              Math.pow(location.coordinates.lng - defaultCoords.lng, 2)
-            );
-            return { location, distance };
-          });
-          locationsWithDistance.sort((a: {location: Location, distance: number}, b: {location: Location, distance: number}) =>
-            a.distance - b.distance
-          );
-          const closestLocations = locationsWithDistance
-            .map((item: {location: Location, distance: number}) => item.location)
-            .slice(0, 15);
+          const closestLocations = getClosestLocations(filteredLocations, DEFAULT_MAP_CENTER, 15);
           setVisibleLocations(closestLocations);
         }
         
@@ -706,20 +544,7 @@ const MapComponent: React.FC<MapProps> = () => {
         if (visibleLocations.length === 0) {
           // For mobile, populate with closest FILTERED locations to default center
           console.log('Pre-populating filtered visibleLocations for mobile');
-          const defaultCoords = { lat: 37.9838, lng: 23.7275 };
-          const locationsWithDistance = filteredLocations.map((location: Location) => {
-            const distance = Math.sqrt(
-              Math.pow(location.coordinates.lat - defaultCoords.lat, 2) +
-              Math.pow(location.coordinates.lng - defaultCoords.lng, 2)
-            );
-            return { location, distance };
-          });
-          locationsWithDistance.sort((a: {location: Location, distance: number}, b: {location: Location, distance: number}) =>
-            a.distance - b.distance
-          );
-          const closestLocations = locationsWithDistance
-            .map((item: {location: Location, distance: number}) => item.location)
-            .slice(0, 15);
+          const closestLocations = getClosestLocations(filteredLocations, DEFAULT_MAP_CENTER, 15);
           setVisibleLocations(closestLocations);
           // Also initialize drawerLocations with the same content
           setDrawerLocations(closestLocations);
@@ -743,7 +568,7 @@ const MapComponent: React.FC<MapProps> = () => {
     };
 
     fetchLocations();
-  }, [isMobile, setVisibleLocations, setLocationsLoaded, setLocationsProcessed, setLocationsLoading, visibleLocations.length, activeFilters, selectedAge, selectedPrice, openNowFilter]);
+  }, [isMobile, setVisibleLocations, setLocationsLoaded, setLocationsProcessed, setLocationsLoading, visibleLocations.length, filterLocations, hasActiveFilters]);
 
   // Set map ready state based on location loaded status from context
   useEffect(() => {
@@ -824,7 +649,7 @@ const MapComponent: React.FC<MapProps> = () => {
     if (locations.length === 0) return;
     
     // Get locationId from URL parameters
-    const queryParams = new URLSearchParams(location.search);
+    const queryParams = new URLSearchParams(pageSearch);
     const locationIdParam = queryParams.get('locationId');
     
     if (locationIdParam) {
@@ -853,7 +678,7 @@ const MapComponent: React.FC<MapProps> = () => {
         console.log(`No location found with ID: ${locationIdParam}`);
       }
     }
-  }, [locations, location.search, map, mapReadyState, setSelectedLocation, setDrawerState, isMobile, centerMapOnLocation]);
+  }, [locations, pageSearch, map, mapReadyState, setSelectedLocation, setDrawerState, isMobile, centerMapOnLocation]);
 
   // Re-center when device type or user location changes while map is loaded
   useEffect(() => {
@@ -869,14 +694,11 @@ const MapComponent: React.FC<MapProps> = () => {
     // CRITICAL: Check if location has changed significantly enough to re-center
     // This prevents infinite loops when small floating-point differences occur
     const prevLoc = prevUserLocationRef.current;
-    const locDiff = Math.sqrt(
-      Math.pow(userLocation.lat - prevLoc.lat, 2) +
-      Math.pow(userLocation.lng - prevLoc.lng, 2)
-    );
+    const locDiffKm = getDistanceKm(prevLoc, userLocation);
     
-    // Only re-center if location has changed by more than a small threshold
+    // Only re-center if location has moved more than ~10 meters
     // or if this is the first time we're centering (prevLoc is 0,0)
-    if (locDiff < 0.0001 && prevLoc.lat !== 0) {
+    if (locDiffKm < 0.01 && prevLoc.lat !== 0) {
       console.log('🔄 Skipping map re-centering - location change too small');
       return;
     }
@@ -984,7 +806,7 @@ const MapComponent: React.FC<MapProps> = () => {
               color: ${activityConfig[type].color};
             "
           >
-            ${activityConfig[type].name}
+            ${activityCategories[type].name}
           </span>
         `).join('')}
       </div>
@@ -1062,7 +884,7 @@ const MapComponent: React.FC<MapProps> = () => {
         infoWindowRef.current.close();
       }
     };
-  }, [hoveredLocation, map, maps, selectedLocation, isMobile, getZIndexValue]);
+  }, [hoveredLocation, map, maps, selectedLocation, isMobile, getZIndexValue, activityCategories]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -1105,20 +927,8 @@ const MapComponent: React.FC<MapProps> = () => {
         lng: mapCenter.lng()
       };
       
-      // Calculate distance for filtered locations from the current map center
-      const locationsWithDistance = filteredLocations.map(location => {
-        const distance = Math.sqrt(
-          Math.pow(location.coordinates.lat - mapCenterPosition.lat, 2) +
-          Math.pow(location.coordinates.lng - mapCenterPosition.lng, 2)
-        );
-        return { location, distance };
-      });
-      
-      // Sort by distance and get closest locations
-      locationsWithDistance.sort((a, b) => a.distance - b.distance);
-      const closestLocations = locationsWithDistance
-        .map(item => item.location)
-        .slice(0, 15);
+      // Get up to 15 closest filtered locations to map center
+      const closestLocations = getClosestLocations(filteredLocations, mapCenterPosition, 15);
       
       // Update map markers
       setVisibleLocations(closestLocations);
@@ -1128,26 +938,63 @@ const MapComponent: React.FC<MapProps> = () => {
     }
   }, [map, locations, filterLocations, setVisibleLocations, setDrawerLocations]);
 
-  // Get marker icon based on location's primary type or first type in the array
-  const getMarkerIcon = useCallback((location: Location) => {
+  // Get the category a location is shown as on the map (used for marker and cluster colours)
+  const getDisplayType = useCallback((location: Location): ActivityType => {
     // First check if any of the location's types match the active filters
     const matchingType = location.types.find(type => activeFilters.includes(type));
     
     // If we have active filters and found a matching type, use that
     // Otherwise fall back to primary type or first type
-    const displayType = (activeFilters.length > 0 && matchingType)
+    return (activeFilters.length > 0 && matchingType)
       ? matchingType
       : (location.primaryType || location.types[0]);
+  }, [activeFilters]);
 
+  // Get marker icon based on location's primary type or first type in the array
+  const getMarkerIcon = useCallback((location: Location) => {
     return {
-      fillColor: activityConfig[displayType].color,
+      fillColor: activityConfig[getDisplayType(location)].color,
       fillOpacity: 1,
       path: 'M-6,0 C-6,-6 6,-6 6,0 C6,6 0,12 0,12 C0,12 -6,6 -6,0 Z',
       scale: 1.5,
       strokeColor: '#FFFFFF',
       strokeWeight: 2
     };
-  }, [activeFilters]);
+  }, [getDisplayType]);
+
+  // Cluster icons are category-coloured circles that grow with the number of locations
+  const getClusterIcon = useCallback((cluster: LocationCluster) => {
+    if (!maps) return undefined;
+
+    return {
+      path: maps.SymbolPath.CIRCLE,
+      scale: 14 + Math.min(10, Math.log2(cluster.locations.length) * 2),
+      fillColor: activityConfig[cluster.dominantType].color,
+      fillOpacity: 0.9,
+      strokeColor: '#FFFFFF',
+      strokeWeight: 3
+    };
+  }, [maps]);
+
+  // Zoom in on a cluster so its locations split apart
+  const handleClusterClick = useCallback((cluster: LocationCluster) => {
+    if (!map) return;
+
+    const { north, south, east, west } = cluster.bounds;
+    const currentZoom = map.getZoom() || 13;
+
+    // Locations at (nearly) the same spot can't be separated by fitting bounds, so just step in
+    if (north - south < 0.0001 && east - west < 0.0001) {
+      map.panTo(cluster.center);
+      map.setZoom(Math.min(currentZoom + 3, 20));
+    } else {
+      map.fitBounds({ north, south, east, west }, 60);
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`Zooming to cluster of ${cluster.locations.length} locations`);
+    }
+  }, [map]);
 
   const getUserLocationIcon = useCallback(() => {
     if (!maps) return undefined;
@@ -1207,6 +1054,10 @@ const MapComponent: React.FC<MapProps> = () => {
     setActiveGroups([]);
     setSelectedAge(null);
     setOpenNowFilter(false);
+    setOpenWindow(null);
+    setReachFilter(null);
+    setListSelection(null);
+    setWeekendFilter(false);
     setSelectedPrice(null);
   };
 
@@ -1229,6 +1080,62 @@ const MapComponent: React.FC<MapProps> = () => {
     }
   };
 
+  const handleOpenWindowSelect = (openWindowSelection: OpenWindow | null) => {
+    setOpenWindow(openWindowSelection);
+    // Update filter dropdown state in TouchContext
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  const handleReachFilterSelect = (filter: ReachFilter | null) => {
+    setReachFilter(filter);
+    // Update filter dropdown state in TouchContext
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  const handleListSelect = (selection: ListSelection | null) => {
+    setListSelection(selection);
+    // Update filter dropdown state in TouchContext
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  // Radius of the distance/travel-time area, drawn on the map as a circle
+  const reachRadiusKm = reachFilter ? getReachRadiusKm(reachFilter.limit) : null;
+
+  // Bring the whole area into view when the distance filter changes
+  useEffect(() => {
+    if (!map || !reachFilter) return;
+    map.fitBounds(getBoundsAroundPoint(reachFilter.origin, getReachRadiusKm(reachFilter.limit)), 40);
+  }, [map, reachFilter]);
+
+  // Bring every place in the selected list into view
+  useEffect(() => {
+    if (!map || !listLocationIds) return;
+
+    const listed = locations.filter(loc => listLocationIds.has(loc.id));
+    if (listed.length === 0) return;
+
+    if (listed.length === 1) {
+      map.panTo(listed[0].coordinates);
+      map.setZoom(15);
+      return;
+    }
+
+    const lats = listed.map(loc => loc.coordinates.lat);
+    const lngs = listed.map(loc => loc.coordinates.lng);
+    map.fitBounds({
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs)
+    }, 40);
+  }, [map, listLocationIds, locations]);
+
   // Reference to track if map has been initialized
   const mapInitializedRef = useRef(false);
   
@@ -1290,6 +1197,25 @@ const MapComponent: React.FC<MapProps> = () => {
       setHoveredLocation(null);
     });
 
+    // Snapshot the viewport once panning/zooming settles so marker clusters are rebuilt
+    map.addListener('idle', () => {
+      const bounds = map.getBounds();
+      const zoom = map.getZoom();
+      if (!bounds || zoom === undefined) return;
+
+      const northEast = bounds.getNorthEast();
+      const southWest = bounds.getSouthWest();
+      setViewport({
+        bounds: {
+          north: northEast.lat(),
+          south: southWest.lat(),
+          east: northEast.lng(),
+          west: southWest.lng()
+        },
+        zoom
+      });
+    });
+
     // Add listener for bounds_changed to update visible locations (map markers only)
     map.addListener('bounds_changed', () => {
       // Only skip updating visible locations during the initialization phase
@@ -1302,7 +1228,7 @@ const MapComponent: React.FC<MapProps> = () => {
       // CRITICAL CHANGE: The bounds_changed event now ONLY affects map markers (visibleLocations)
       // and no longer impacts the drawer content (drawerLocations)
       
-      let logMessage = activeFilters.length > 0 || selectedAge !== null || openNowFilter || selectedPrice !== null
+      let logMessage = hasActiveFilters
         ? '🔍 LOCATION SOURCE 6: bounds_changed applying current filters to MAP MARKERS ONLY'
         : '🔍 LOCATION SOURCE 6: bounds_changed updating map markers only (no active filters)';
         
@@ -1321,37 +1247,29 @@ const MapComponent: React.FC<MapProps> = () => {
       };
       
       // Always apply filters consistently
-      const filteredLocations = filterLocations(locations);
+      const matchingLocations = filterLocations(locations);
+      
+      // Prefer locations inside the current viewport, falling back to the nearest ones
+      // when the user has panned somewhere with no matching venues
+      const bounds = map.getBounds();
+      const locationsInView = bounds
+        ? getLocationsInBounds(matchingLocations, bounds.toJSON())
+        : [];
+      const filteredLocations = locationsInView.length > 0 ? locationsInView : matchingLocations;
       
       if (process.env.NODE_ENV === 'development') {
-        console.log(`Map bounds changed - ${filteredLocations.length} locations matching current view`);
+        console.log(`Map bounds changed - ${locationsInView.length} of ${matchingLocations.length} matching locations in current view`);
       }
       
       // Skip the update if we have active filters and no matching locations
       // This prevents bouncing between 0 and 15 locations
-      if ((activeFilters.length > 0 || selectedAge !== null || openNowFilter || selectedPrice !== null) &&
-          filteredLocations.length === 0) {
+      if (hasActiveFilters && filteredLocations.length === 0) {
         console.log('Skipping bounds_changed update - no locations match current filters');
         return;
       }
       
-      // Calculate distance for filtered locations from the current map center
-      const locationsWithDistance = filteredLocations.map(location => {
-        // Simple Euclidean distance (sufficient for sorting by relative distance)
-        const distance = Math.sqrt(
-          Math.pow(location.coordinates.lat - mapCenterPosition.lat, 2) +
-          Math.pow(location.coordinates.lng - mapCenterPosition.lng, 2)
-        );
-        return { location, distance };
-      });
-      
-      // Sort by distance (closest first)
-      locationsWithDistance.sort((a, b) => a.distance - b.distance);
-      
       // Get up to 15 closest filtered locations to map center
-      const closestLocations = locationsWithDistance
-        .map(item => item.location)
-        .slice(0, 15);
+      const closestLocations = getClosestLocations(filteredLocations, mapCenterPosition, 15);
       
       // To prevent update loops, only update if there's a meaningful change
       const currentLocIds = new Set(visibleLocations.map(loc => loc.id));
@@ -1377,7 +1295,7 @@ const MapComponent: React.FC<MapProps> = () => {
       // Using setTimeout to ensure the map is fully rendered
       map.setZoom(map.getZoom()!); // This triggers bounds_changed without changing the view
     }, 300);
-  }, [locations, isMobile, setSelectedLocation, setHoveredLocation, setVisibleLocations, userLocation, centerMapOnLocation, setDrawerState, setMapReady, drawerState, visibleLocations, filterLocations, activeFilters.length, openNowFilter, selectedAge, selectedPrice]);
+  }, [locations, isMobile, setSelectedLocation, setHoveredLocation, setVisibleLocations, userLocation, centerMapOnLocation, setDrawerState, setMapReady, drawerState, visibleLocations, filterLocations, hasActiveFilters]);
 
   // Handle drawer close action 
   const handleDrawerClose = useCallback(() => {
@@ -1439,22 +1357,8 @@ const MapComponent: React.FC<MapProps> = () => {
         lng: mapCenter.lng()
       };
       
-      // Calculate distance for filtered locations from the current map center
-      const locationsWithDistance = filteredLocations.map(location => {
-        const distance = Math.sqrt(
-          Math.pow(location.coordinates.lat - mapCenterPosition.lat, 2) +
-          Math.pow(location.coordinates.lng - mapCenterPosition.lng, 2)
-        );
-        return { location, distance };
-      });
-      
-      // Sort by distance (closest first)
-      locationsWithDistance.sort((a, b) => a.distance - b.distance);
-      
       // Get up to 15 closest filtered locations to map center
-      const closestLocations = locationsWithDistance
-        .map(item => item.location)
-        .slice(0, 15);
+      const closestLocations = getClosestLocations(filteredLocations, mapCenterPosition, 15);
       
       // Update map markers
       setVisibleLocations(closestLocations);
@@ -1492,69 +1396,17 @@ const MapComponent: React.FC<MapProps> = () => {
     
     if (visibleLocations.length > 0) {
       // Only validate when filters are active (no need otherwise)
-      if (activeFilters.length > 0 || selectedAge !== null || selectedPrice !== null || openNowFilter) {
+      if (hasActiveFilters) {
         // Check if all visible locations match filters
-        let hasInvalidLocation = false;
-        let invalidCount = 0;
+        const validLocationIds = new Set(filterLocations(visibleLocations).map(location => location.id));
+        const invalidCount = visibleLocations.length - validLocationIds.size;
+        const hasInvalidLocation = invalidCount > 0;
         
-        visibleLocations.forEach(location => {
-          let isValid = true;
-          
-          // Filter by activity type
-          if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-            if (process.env.NODE_ENV === 'development') {
-              console.log(`🔴 Map marker doesn't match activity filters: ${location.name}`);
-            }
-            isValid = false;
-            invalidCount++;
-          }
-          
-          // Filter by age
-          if (selectedAge !== null && isValid) {
-            if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-              if (process.env.NODE_ENV === 'development') {
-                console.log(`🔴 Map marker doesn't match age filter: ${location.name}`);
-              }
-              isValid = false;
-              invalidCount++;
-            }
-          }
-          
-          // Filter by price
-          if (selectedPrice !== null && isValid) {
-            if (selectedPrice === "Free" && location.priceRange !== "Free") {
-              if (process.env.NODE_ENV === 'development') {
-                console.log(`🔴 Map marker doesn't match Free price filter: ${location.name}`);
-              }
-              isValid = false;
-              invalidCount++;
-            } else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-              if (process.env.NODE_ENV === 'development') {
-                console.log(`🔴 Map marker doesn't match price filter (${selectedPrice}): ${location.name}`);
-              }
-              isValid = false;
-              invalidCount++;
-            }
-          }
-          
-          // Filter by open now
-          if (openNowFilter && isValid) {
-            const now = new Date();
-            const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-            const hours = location.openingHours[day];
-            if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-              if (process.env.NODE_ENV === 'development') {
-                console.log(`🔴 Map marker doesn't match open now filter: ${location.name}`);
-              }
-              isValid = false;
-              invalidCount++;
-            }
-          }
-          
-          if (!isValid) {
-            hasInvalidLocation = true;
-          }
-        });
+        if (process.env.NODE_ENV === 'development') {
+          visibleLocations
+            .filter(location => !validLocationIds.has(location.id))
+            .forEach(location => console.log(`🔴 Map marker doesn't match current filters: ${location.name}`));
+        }
         
         if (hasInvalidLocation) {
           console.log(`🔴 WARNING: ${invalidCount}/${visibleLocations.length} map markers don't match current filters - ENFORCING FILTERS`);
@@ -1595,20 +1447,8 @@ const MapComponent: React.FC<MapProps> = () => {
               lng: mapCenter.lng()
             };
             
-            // Calculate distance for filtered locations
-            const locationsWithDistance = properlyFilteredLocations.map(location => {
-              const distance = Math.sqrt(
-                Math.pow(location.coordinates.lat - mapCenterPosition.lat, 2) +
-                Math.pow(location.coordinates.lng - mapCenterPosition.lng, 2)
-              );
-              return { location, distance };
-            });
-            
-            // Sort by distance and take 15 closest (or fewer if that's all we have)
-            locationsWithDistance.sort((a, b) => a.distance - b.distance);
-            const closestLocations = locationsWithDistance
-              .map(item => item.location)
-              .slice(0, 15);
+            // Get up to 15 closest filtered locations to map center
+            const closestLocations = getClosestLocations(properlyFilteredLocations, mapCenterPosition, 15);
             
             // IMPORTANT: Only update visibleLocations (map markers), not drawerLocations
             setVisibleLocations(closestLocations);
@@ -1631,7 +1471,7 @@ const MapComponent: React.FC<MapProps> = () => {
         lastValidationResultRef.current = '';
       }
     }
-  }, [visibleLocations, activeFilters, selectedAge, openNowFilter, filterLocations, locations, map, setVisibleLocations, selectedPrice]);
+  }, [visibleLocations, hasActiveFilters, filterLocations, locations, map, setVisibleLocations]);
 
   // Handle location selection from tile or marker
   const handleLocationSelect = useCallback((location: Location, source: 'map_click' | 'list_item' | 'search_result' = 'map_click') => {
@@ -1689,7 +1529,7 @@ const MapComponent: React.FC<MapProps> = () => {
         <div className="absolute inset-0 bg-white bg-opacity-80 z-50 flex items-center justify-center">
           <div className="flex flex-col items-center">
             <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-            <p className="mt-4 text-gray-700">Loading locations...</p>
+            <p className="mt-4 text-gray-700">{t('map.loadingLocations')}</p>
           </div>
         </div>
       )}
@@ -1702,7 +1542,7 @@ const MapComponent: React.FC<MapProps> = () => {
             onClick={() => window.location.reload()}
             className="mt-2 text-sm text-blue-600 hover:underline"
           >
-            Retry
+            {t('common.retry')}
           </button>
         </div>
       )}
@@ -1768,7 +1608,7 @@ const MapComponent: React.FC<MapProps> = () => {
               <GroupFilterDropdown
                 key={groupKey}
                 groupKey={groupKey}
-                groupName={group.name}
+                groupName={activityGroups[groupKey].name}
                 groupColor={group.color}
                 groupTypes={group.types}
                 activeFilters={activeFilters}
@@ -1790,10 +1630,46 @@ const MapComponent: React.FC<MapProps> = () => {
               onSelectPrice={handlePriceSelect}
             />
 
+            {/* Distance / Travel Time Filter */}
+            <ReachFilterDropdown
+              selectedFilter={reachFilter}
+              onSelectFilter={handleReachFilterSelect}
+              userLocation={permissionStatus === 'granted' ? contextUserLocation : null}
+            />
+
+            {/* Saved / Shared Lists Filter */}
+            <ListFilterDropdown
+              selectedList={listSelection}
+              onSelectList={handleListSelect}
+            />
+
+            {/* Open At Filter */}
+            <OpenAtFilterDropdown
+              selectedWindow={openWindow}
+              onSelectWindow={handleOpenWindowSelect}
+            />
+
+            {/* This Weekend Filter - venues with events on Saturday or Sunday */}
+            <button
+              onClick={() => setWeekendFilter(prev => !prev)}
+              onTouchStart={(e) => e.stopPropagation()}
+              style={{
+                backgroundColor: weekendFilter ? '#3B82F6' : 'rgb(243 244 246)',
+                color: weekendFilter ? 'white' : 'rgb(55 65 81)',
+                borderWidth: '1.5px',
+                borderColor: weekendFilter ? '#3B82F6' : 'transparent',
+                touchAction: 'manipulation', // Optimize for tap/click
+              }}
+              className="snap-start flex items-center gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
+            >
+              <CalendarDays size={14} />
+              <span className="whitespace-nowrap">{t('map.thisWeekend')}</span>
+            </button>
+
             {/* Open Now Filter removed */}
 
             {/* Clear Filters - visible only on desktop when filters are active */}
-            {!isMobile && (activeFilters.length > 0 || activeGroups.length > 0 || selectedAge !== null || selectedPrice !== null || openNowFilter) && (
+            {!isMobile && hasActiveFilters && (
               <button
                 onClick={clearFilters}
                 onTouchStart={(e) => {
@@ -1807,48 +1683,34 @@ const MapComponent: React.FC<MapProps> = () => {
                   touchAction: 'manipulation' // Optimize for tap/click
                 }}
               >
-                Clear All
+                {t('map.clearAll')}
               </button>
             )}
           </div>
         </div>
       </div>
 
+      {/* Floating day plan button - visible once a stop has been added */}
+      {dayPlan.stops.length > 0 && (
+        <button
+          onClick={openPlanner}
+          className="fixed z-mobile-button shadow-sm border border-blue-200 rounded-full px-3 py-1.5 text-xs font-medium flex items-center gap-1 bg-white text-blue-600 hover:bg-blue-50"
+          style={{
+            top: '120px', // Below the filter bar, opposite the Clear All button
+            right: '8px'
+          }}
+        >
+          <CalendarDays size={14} />
+          Day plan · {dayPlan.stops.length}
+        </button>
+      )}
+
       {/* Mobile-only floating Clear All button */}
-      {isMobile && (activeFilters.length > 0 || activeGroups.length > 0 || selectedAge !== null || openNowFilter || selectedPrice !== null) && (
+      {isMobile && hasActiveFilters && (
         <button
           onClick={clearFilters}
           className={`fixed z-mobile-button shadow-sm border rounded-full px-3 py-1.5 text-xs flex items-center gap-1 ${
-            locations.filter(location => {
-              // Check against active filters
-              if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-                return false;
-              }
-              // Check against age filter
-              if (selectedAge !== null) {
-                if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-                  return false;
-                }
-              }
-              // Check against price filter
-              if (selectedPrice !== null) {
-                if (selectedPrice === "Free" && location.priceRange !== "Free") {
-                  return false;
-                } else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-                  return false;
-                }
-              }
-              // Check against open now filter
-              if (openNowFilter) {
-                const now = new Date();
-                const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-                const hours = location.openingHours[day];
-                if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-                  return false;
-                }
-              }
-              return true;
-            }).length === 0
+            matchingLocationCount === 0
               ? "bg-red-50 border-red-200 text-red-600 font-bold"
               : "bg-white bg-opacity-75 border-gray-200 text-red-600 font-medium"
           }`}
@@ -1868,36 +1730,7 @@ const MapComponent: React.FC<MapProps> = () => {
             <line x1="9" y1="9" x2="15" y2="15"></line>
           </svg>
           {/* Check if the filtered locations list is empty */}
-          {locations.filter(location => {
-            // Check against active filters
-            if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-              return false;
-            }
-            // Check against age filter
-            if (selectedAge !== null) {
-              if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-                return false;
-              }
-            }
-            // Check against price filter
-            if (selectedPrice !== null) {
-              if (selectedPrice === "Free" && location.priceRange !== "Free") {
-                return false;
-              } else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-                return false;
-              }
-            }
-            // Check against open now filter
-            if (openNowFilter) {
-              const now = new Date();
-              const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-              const hours = location.openingHours[day];
-              if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-                return false;
-              }
-            }
-            return true;
-          }).length === 0 ? "No Matching Locations - Clear Filters" : "Clear Filters"}
+          {matchingLocationCount === 0 ? "No Matching Locations - Clear Filters" : "Clear Filters"}
         </button>
       )}
       
@@ -1946,8 +1779,8 @@ const MapComponent: React.FC<MapProps> = () => {
               </div>
               
               <div className="space-y-2">
-                <p className="text-gray-700 font-medium">Finding your location...</p>
-                <p className="text-gray-500 text-sm">We're preparing your map experience</p>
+                <p className="text-gray-700 font-medium">{t('map.findingLocation')}</p>
+                <p className="text-gray-500 text-sm">{t('map.preparing')}</p>
               </div>
             </div>
           </div>
@@ -2003,126 +1836,111 @@ const MapComponent: React.FC<MapProps> = () => {
               isFractionalZoomEnabled: false // Disable fractional zoom on mobile to prevent zoom issues
             }}
           >
-            {/* Markers */}
+            {/* Markers - clustered from the current viewport */}
             {useMemo(() => {
-              // Memoize the filtered locations to avoid re-filtering on every render
-              const filteredLocations = locations.filter(location => {
-                if (activeFilters.length > 0 && !location.types.some(type => activeFilters.includes(type))) {
-                  return false;
-                }
-                if (selectedAge !== null) {
-                  if (selectedAge < location.ageRange.min || selectedAge > location.ageRange.max) {
-                    return false;
-                  }
-                }
-                if (selectedPrice !== null) {
-                  // Handle the "Free" price option
-                  if (selectedPrice === "Free" && location.priceRange !== "Free") {
-                    return false;
-                  }
-                  // Handle the other price options (€, €€, €€€)
-                  else if (selectedPrice !== "Free" && location.priceRange !== selectedPrice) {
-                    return false;
-                  }
-                }
-                if (openNowFilter) {
-                  const now = new Date();
-                  const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-                  const hours = location.openingHours[day];
+              if (!viewport) return null;
 
-                  if (!hours || hours === 'Closed' || hours === 'Hours not available') {
-                    return false;
-                  }
-                  if (hours === 'Open 24 hours') {
-                    return true;
-                  }
-
-                  try {
-                    const timeParts = hours.split(/[–-]/).map(t => t.trim());
-                    if (timeParts.length !== 2) return false;
-                    const [start, end] = timeParts;
-                    
-                    const parseTime = (timeStr: string) => {
-                      if (!timeStr) return 0;
-                      const parts = timeStr.split(' ');
-                      if (parts.length !== 2) return 0;
-                      
-                      const [time, period] = parts;
-                      if (!time || !period) return 0;
-                      
-                      const [hours, minutes] = time.split(':').map(Number);
-                      if (isNaN(hours)) return 0;
-                      
-                      let totalHours = hours;
-                      if (period === 'PM' && hours !== 12) totalHours += 12;
-                      if (period === 'AM' && hours === 12) totalHours = 0;
-                      
-                      return totalHours * 60 + (minutes || 0);
-                    };
-
-                    const startMinutes = parseTime(start);
-                    const endMinutes = parseTime(end);
-                    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-                    if (endMinutes < startMinutes) {
-                      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-                    }
+              const clusters = clusterLocations(filterLocations(locations), viewport, {
+                getDisplayType,
+                keepSeparate: location => location.id === selectedLocation?.id
+              });
 
-                    return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-                  } catch (error) {
-                    // Silent error in production
-                    return false;
-                  }
+              return clusters.map(cluster => {
+                if (cluster.locations.length > 1) {
+                  return (
+                    <Marker
+                      key={cluster.id}
+                      position={cluster.center}
+                      onClick={() => handleClusterClick(cluster)}
+                      title={`${cluster.locations.length} places`}
+                      label={{
+                        text: String(cluster.locations.length),
+                        color: '#FFFFFF',
+                        fontSize: '12px',
+                        fontWeight: 'bold'
+                      }}
+                      options={{
+                        zIndex: getZIndexValue('--z-marker-normal')
+                      }}
+                      icon={getClusterIcon(cluster)}
+                    />
+                  );
                 }
-                return true;
-              });
 
-              return filteredLocations.map(location => (
-                <Marker
-                  // Ensure we always have a valid, unique key - never empty string
-                  key={`location-marker-${location.id || Math.random().toString(36).substring(2, 9)}`}
-                  position={location.coordinates}
-                  onClick={() => {
-                    // Add a slight delay on mobile to allow map panning to complete first
-                    if (isMobile) {
-                      // On mobile, ensure the marker is centered first, then open drawer
-                      setTimeout(() => {
+                const location = cluster.locations[0];
+                return (
+                  <Marker
+                    // Ensure we always have a valid, unique key - never empty string
+                    key={`location-marker-${location.id || Math.random().toString(36).substring(2, 9)}`}
+                    position={location.coordinates}
+                    onClick={() => {
+                      // Add a slight delay on mobile to allow map panning to complete first
+                      if (isMobile) {
+                        // On mobile, ensure the marker is centered first, then open drawer
+                        setTimeout(() => {
+                          // Explicitly pass 'map_click' as the interaction source
+                          handleLocationSelect(location, 'map_click');
+                          // Set drawer state to partial by default
+                          setDrawerState('partial');
+                        }, 50);
+                      } else {
+                        // On desktop, open drawer immediately
                         // Explicitly pass 'map_click' as the interaction source
                         handleLocationSelect(location, 'map_click');
-                        // Set drawer state to partial by default
-                        setDrawerState('partial');
-                      }, 50);
-                    } else {
-                      // On desktop, open drawer immediately
-                      // Explicitly pass 'map_click' as the interaction source
-                      handleLocationSelect(location, 'map_click');
-                    }
-                  }}
-                  onMouseOver={() => {
-                    // Allow hovering over any location, even if drawer is open
-                    // Just don't show hover for the currently selected location
-                    if (selectedLocation?.id !== location.id) {
-                      setHoveredLocation(location);
-                    }
-                  }}
-                  onMouseOut={() => {
-                    if (hoveredLocation?.id === location.id) {
-                      setHoveredLocation(null);
-                    }
-                  }}
-                  options={{
-                    zIndex: selectedLocation?.id === location.id
-                      ? getZIndexValue('--z-marker-selected')
-                      : getZIndexValue('--z-marker-normal')
-                  }}
-                  icon={{
-                    ...getMarkerIcon(location),
-                    scale: selectedLocation?.id === location.id ? 2 : 1.5
-                  }}
-              />
-            ))}
+                      }
+                    }}
+                    onMouseOver={() => {
+                      // Allow hovering over any location, even if drawer is open
+                      // Just don't show hover for the currently selected location
+                      if (selectedLocation?.id !== location.id) {
+                        setHoveredLocation(location);
+                      }
+                    }}
+                    onMouseOut={() => {
+                      if (hoveredLocation?.id === location.id) {
+                        setHoveredLocation(null);
+                      }
+                    }}
+                    options={{
+                      zIndex: selectedLocation?.id === location.id
+                        ? getZIndexValue('--z-marker-selected')
+                        : getZIndexValue('--z-marker-normal')
+                    }}
+                    icon={{
+                      ...getMarkerIcon(location),
+                      scale: selectedLocation?.id === location.id ? 2 : 1.5
+                    }}
+                  />
+                );
+              });
+            }
             // Close the useMemo callback and dependencies array
-            , [locations, activeFilters, selectedAge, openNowFilter, selectedPrice, selectedLocation, hoveredLocation, getMarkerIcon, handleLocationSelect, isMobile, setDrawerState, setHoveredLocation, getZIndexValue])}
+            , [locations, viewport, filterLocations, getDisplayType, getClusterIcon, handleClusterClick, selectedLocation, hoveredLocation, getMarkerIcon, handleLocationSelect, isMobile, setDrawerState, setHoveredLocation, getZIndexValue])}
+
+            {/* Distance / travel-time area */}
+            {reachFilter && reachRadiusKm !== null && (
+              <Circle
+                center={reachFilter.origin}
+                radius={reachRadiusKm * 1000}
+                options={{
+                  fillColor: '#3B82F6',
+                  fillOpacity: 0.08,
+                  strokeColor: '#3B82F6',
+                  strokeOpacity: 0.6,
+                  strokeWeight: 2,
+                  clickable: false
+                }}
+              />
+            )}
+
+            {/* Pinned address used as the distance origin */}
+            {reachFilter && reachFilter.originType === 'address' && (
+              <Marker
+                position={reachFilter.origin}
+                title={reachFilter.originLabel}
+                options={{ clickable: false }}
+              />
+            )}
 
             {/* User location marker */}
             {maps && (
@@ -2133,7 +1951,7 @@ const MapComponent: React.FC<MapProps> = () => {
                 options={{
                   zIndex: getZIndexValue('--z-marker-normal') - 10 // Lower than location markers so it appears behind them
                 }}
-                title="Your current location" // Basic tooltip for non-touch devices
+                title={t('map.yourLocation')} // Basic tooltip for non-touch devices
                 onMouseOver={() => {
                   // Create and open an info window for the user's location
                   if (!map) return;
@@ -2182,7 +2000,7 @@ const MapComponent: React.FC<MapProps> = () => {
                         font-weight: 500;
                         color: #1f2937;
                         margin: 0;
-                      ">Your current location</p>
+                      ">${t('map.yourLocation')}</p>
                     </div>
                   `;
                   
@@ -2242,7 +2060,7 @@ const MapComponent: React.FC<MapProps> = () => {
             <Drawer
               location={selectedLocation}
               onClose={handleDrawerClose}
-              activityConfig={activityConfig}
+              activityConfig={activityCategories}
               visibleLocations={visibleLocations}
               drawerLocations={drawerLocations} /* New prop for drawer-specific locations */
               activeFilters={activeFilters}
@@ -2305,7 +2123,7 @@ const MapComponent: React.FC<MapProps> = () => {
             visibility: drawerState === 'closed' ? 'visible' : 'hidden', // Hide from screen readers when drawer is open
             transition: 'opacity 0.3s ease-out, visibility 0.3s ease-out' // Smooth transition
           }}
-          aria-label="Show locations"
+          aria-label={t('map.showLocations')}
           aria-hidden={drawerState !== 'closed'} // Hide from screen readers when drawer is open
         >
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-600">
@@ -2354,7 +2172,7 @@ const MapComponent: React.FC<MapProps> = () => {
               height: '40px',
               touchAction: 'none' // Prevent all touch actions
             }}
-            aria-label="Center on my location"
+            aria-label={t('map.centerOnMe')}
           >
             {/* Improved Google Maps-style "my location" bullseye icon */}
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="text-gray-600">
@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useTouch } from '../../contexts/TouchContext';
+import { useMobile } from '../../contexts/MobileContext';
+import { ChevronDown } from 'lucide-react';
+import { DayOfWeek } from '../../types/location';
+import { DAYS_OF_WEEK, OpenWindow, formatOpenWindow } from '../../utils/opening-hours';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { TranslationKey } from '../../utils/i18n';
+
+interface OpenAtFilterDropdownProps {
+  selectedWindow: OpenWindow | null;
+  onSelectWindow: (window: OpenWindow | null) => void;
+}
+
+// Default to a weekend morning outing when nothing has been picked yet
+const DEFAULT_WINDOW: OpenWindow = { day: 'Saturday', from: '10:00', to: '13:00' };
+
+const OpenAtFilterDropdown: React.FC<OpenAtFilterDropdownProps> = ({
+  selectedWindow,
+  onSelectWindow
+}) => {
+  const { language, t } = useLanguage();
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Draft values are only applied when the user presses Apply
+  const [draft, setDraft] = useState<OpenWindow>(selectedWindow || DEFAULT_WINDOW);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { setFilterDropdownOpen } = useTouch();
+  const { isMobile } = useMobile();
+
+  // Keep the draft in sync when the window changes from the URL or Clear All
+  useEffect(() => {
+    setDraft(selectedWindow || DEFAULT_WINDOW);
+  }, [selectedWindow]);
+
+  const closeDropdown = () => {
+    setIsExpanded(false);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  // Handle clicking on the main button
+  const handleButtonClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const newExpandedState = !isExpanded;
+    setIsExpanded(newExpandedState);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(newExpandedState);
+    }
+  };
+
+  const handleApply = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelectWindow(draft);
+    closeDropdown();
+  };
+
+  const handleAnyTime = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelectWindow(null);
+    closeDropdown();
+  };
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (buttonRef.current && !buttonRef.current.contains(event.target as Node) &&
+          dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsExpanded(false);
+
+        // Only update filter dropdown state on mobile
+        if (isMobile) {
+          setFilterDropdownOpen(false);
+        }
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+
+      // Ensure that clicking outside a filter dropdown doesn't inadvertently trigger map or drawer interactions
+      const preventMapInteraction = (e: Event) => {
+        if (!buttonRef.current?.contains(e.target as Node) &&
+            !dropdownRef.current?.contains(e.target as Node)) {
+          e.stopPropagation();
+        }
+      };
+
+      // Add capture phase listener to intercept events before they reach the map
+      document.addEventListener('touchstart', preventMapInteraction, true);
+      document.addEventListener('touchmove', preventMapInteraction, true);
+
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+        document.removeEventListener('touchstart', preventMapInteraction, true);
+        document.removeEventListener('touchmove', preventMapInteraction, true);
+      };
+    } else {
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+      };
+    }
+  }, [isExpanded, isMobile, setFilterDropdownOpen]);
+
+  // Get dropdown position
+  const getDropdownPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 };
+
+    const rect = buttonRef.current.getBoundingClientRect();
+    return {
+      top: rect.bottom + window.scrollY + 5, // Added small gap
+      left: rect.left + window.scrollX
+    };
+  };
+
+  const isActive = selectedWindow !== null;
+  const runsPastMidnight = draft.to <= draft.from;
+
+  return (
+    <div className="relative" onTouchStart={(e) => e.stopPropagation()}>
+      <button
+        ref={buttonRef}
+        onClick={handleButtonClick}
+        onTouchStart={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: isActive ? '#3B82F6' : 'rgb(243 244 246)',
+          color: isActive ? 'white' : 'rgb(55 65 81)',
+          borderWidth: '1.5px',
+          borderColor: isActive ? '#3B82F6' : 'transparent',
+          touchAction: 'manipulation', // Optimize for tap/click
+        }}
+        className="snap-start flex items-center justify-between gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
+      >
+        <span className="whitespace-nowrap pr-1">
+          {selectedWindow ? t('openAt.selected', { window: formatOpenWindow(selectedWindow, language) }) : t('openAt.label')}
+        </span>
+
+        {/* Chevron with subtle separator */}
+        <div
+          className="chevron-area flex items-center"
+          style={{
+            borderLeft: isActive ? '1px solid rgba(255,255,255,0.3)' : '1px solid rgba(0,0,0,0.1)',
+            paddingLeft: '4px',
+            marginLeft: '2px'
+          }}
+        >
+          <ChevronDown
+            size={16}
+            className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          />
+        </div>
+      </button>
+
+      {/* Dropdown menu - rendered with portal to ensure it's not clipped */}
+      {isExpanded && document.body && createPortal(
+        <div
+          ref={dropdownRef}
+          className="fixed bg-white rounded-lg shadow-lg py-1 min-w-max border border-gray-200"
+          style={{
+            ...getDropdownPosition(),
+            zIndex: 9999,
+            maxHeight: '60vh',
+            overflowY: 'auto',
+            minWidth: buttonRef.current ? buttonRef.current.offsetWidth : 100
+          }}
+          onTouchStart={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchMove={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchEnd={(e) => {
+            e.stopPropagation();
+          }}
+        >
+          {/* Any time option */}
+          <button
+            onClick={handleAnyTime}
+            className={`w-full px-3 py-2 text-left text-sm font-medium border-b border-gray-100 hover:bg-gray-50 flex items-center justify-between ${
+              !isActive ? 'bg-blue-50 text-blue-600' : ''
+            }`}
+          >
+            <span className="mr-2">{t('openAt.any')}</span>
+            {!isActive && (
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5 text-green-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+          </button>
+
+          {/* Day and time window */}
+          <div className="px-3 py-2 space-y-2 text-sm">
+            <select
+              value={draft.day}
+              onChange={(e) => setDraft({ ...draft, day: e.target.value as DayOfWeek })}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {DAYS_OF_WEEK.map(day => (
+                <option key={day} value={day}>{t(`days.${day}` as TranslationKey)}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={draft.from}
+                onChange={(e) => e.target.value && setDraft({ ...draft, from: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="time"
+                value={draft.to}
+                onChange={(e) => e.target.value && setDraft({ ...draft, to: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+              />
+            </div>
+            {runsPastMidnight && (
+              <p className="text-xs text-gray-500">{t('openAt.nextDay')}</p>
+            )}
+            <p className="text-xs text-gray-500">{t('openAt.wholeWindow')}</p>
+            <button
+              onClick={handleApply}
+              className="w-full py-1.5 rounded bg-blue-500 text-white font-medium hover:bg-blue-600"
+            >
+              {t('common.apply')}
+            </button>
+          </div>
+
+          {/* Close button */}
+          <div className="border-t border-gray-100 mt-1 pt-1 px-2">
+            <button
+              onClick={closeDropdown}
+              className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
+            >
+              {t('common.close')}
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default OpenAtFilterDropdown;
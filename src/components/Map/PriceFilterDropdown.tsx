@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { useTouch } from '../../contexts/TouchContext';
 import { useMobile } from '../../contexts/MobileContext';
 import { ChevronDown } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 // Define the price options
 export type PriceOption = 'Free' | '€' | '€€' | '€€€' | null;
@@ -16,6 +17,11 @@ const PriceFilterDropdown: React.FC<PriceFilterDropdownProps> = ({
   selectedPrice,
   onSelectPrice
 }) => {
+  const { t } = useLanguage();
+
+  // "Free" is stored in English - the euro signs read the same in both languages
+  const formatPrice = (price: PriceOption): string => (price === 'Free' ? t('price.free') : price || '');
+
   const [isExpanded, setIsExpanded] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -132,7 +138,7 @@ const PriceFilterDropdown: React.FC<PriceFilterDropdownProps> = ({
         className="snap-start flex items-center justify-between gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
       >
         <span className="whitespace-nowrap pr-1">
-          {selectedPrice !== null ? `Price: ${selectedPrice}` : 'Price'}
+          {selectedPrice !== null ? t('price.selected', { price: formatPrice(selectedPrice) }) : t('price.label')}
         </span>
         
         {/* Chevron with subtle separator */}
@@ -180,7 +186,7 @@ const PriceFilterDropdown: React.FC<PriceFilterDropdownProps> = ({
               selectedPrice === null ? 'bg-blue-50 text-blue-600' : ''
             }`}
           >
-            <span className="mr-2">Any Price</span>
+            <span className="mr-2">{t('price.any')}</span>
             {selectedPrice === null && (
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -204,7 +210,7 @@ const PriceFilterDropdown: React.FC<PriceFilterDropdownProps> = ({
                   selectedPrice === price ? 'bg-blue-50 text-blue-600' : ''
                 }`}
               >
-                <span className="mr-2">{price}</span>
+                <span className="mr-2">{formatPrice(price)}</span>
                 {selectedPrice === price && (
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
@@ -232,7 +238,7 @@ const PriceFilterDropdown: React.FC<PriceFilterDropdownProps> = ({
               }}
               className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
             >
-              Close
+              {t('common.close')}
             </button>
           </div>
         </div>,
@@ -1,6 +1,8 @@
 import React, { useMemo } from 'react';
 import { Star } from 'lucide-react';
 import { trackExternalLink, addUtmParams } from '../../utils/analytics';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGE_CONFIG } from '../../utils/i18n';
 
 interface RatingDisplayProps {
   rating: number;
@@ -11,6 +13,7 @@ interface RatingDisplayProps {
 }
 
 const RatingDisplay: React.FC<RatingDisplayProps> = React.memo(({ rating, totalRatings, placeId, businessName }) => {
+  const { language, t } = useLanguage();
   const { fullStars, hasHalfStar } = useMemo(() => ({
     fullStars: Math.floor(rating),
     hasHalfStar: rating % 1 >= 0.5
@@ -37,7 +40,7 @@ const RatingDisplay: React.FC<RatingDisplayProps> = React.memo(({ rating, totalR
     <button
       onClick={handleReviewClick}
       className="flex items-center gap-2 hover:opacity-80 transition-opacity"
-      title="Click to see reviews on Google"
+      title={t('rating.seeReviews')}
     >
       <div className="flex items-center">
         {[...Array(5)].map((_, i) => (
@@ -55,11 +58,11 @@ const RatingDisplay: React.FC<RatingDisplayProps> = React.memo(({ rating, totalR
         ))}
       </div>
       <div className="text-sm text-gray-600">
-        {rating.toFixed(1)} ({totalRatings.toLocaleString()} reviews)
+        {rating.toFixed(1)} ({t('rating.reviews', { count: totalRatings.toLocaleString(LANGUAGE_CONFIG[language].dateLocale) })})
       </div>
       <img
         src="https://gstatic.com/images/branding/googlelogo/2x/googlelogo_color_42x16dp.png"
-        alt="Powered by Google"
+        alt={t('rating.poweredByGoogle')}
         className="h-4 ml-1"
       />
     </button>
@@ -0,0 +1,380 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useTouch } from '../../contexts/TouchContext';
+import { useMobile } from '../../contexts/MobileContext';
+import { ChevronDown } from 'lucide-react';
+import { Coordinates } from '../../utils/geo';
+import { ReachFilter, ReachLimit, TravelMode, formatReachLimit } from '../../utils/travel-time';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { TranslationKey } from '../../utils/i18n';
+
+interface ReachFilterDropdownProps {
+  selectedFilter: ReachFilter | null;
+  onSelectFilter: (filter: ReachFilter | null) => void;
+  userLocation: Coordinates | null; // null until the user has shared their location
+}
+
+type LimitMode = 'distance' | TravelMode;
+type OriginSource = ReachFilter['originType'];
+
+const LIMIT_MODES: { value: LimitMode; labelKey: TranslationKey }[] = [
+  { value: 'distance', labelKey: 'reach.mode.distance' },
+  { value: 'walking', labelKey: 'reach.mode.walking' },
+  { value: 'driving', labelKey: 'reach.mode.driving' },
+  { value: 'transit', labelKey: 'reach.mode.transit' }
+];
+
+const DISTANCE_OPTIONS = [1, 2, 5, 10, 20]; // km
+const TIME_OPTIONS = [10, 15, 20, 30, 45, 60]; // minutes
+
+const buildLimit = (mode: LimitMode, value: number): ReachLimit => {
+  return mode === 'distance'
+    ? { kind: 'distance', km: value }
+    : { kind: 'time', mode, minutes: value };
+};
+
+// Look up a typed address with the Maps JS geocoder (loaded by the map itself)
+const geocodeAddress = async (address: string): Promise<Coordinates | null> => {
+  if (!window.google || !window.google.maps) return null;
+
+  const geocoder = new window.google.maps.Geocoder();
+  const { results } = await geocoder.geocode({ address, componentRestrictions: { country: 'GR' } });
+  if (!results || results.length === 0) return null;
+
+  const point = results[0].geometry.location;
+  return { lat: point.lat(), lng: point.lng() };
+};
+
+const ReachFilterDropdown: React.FC<ReachFilterDropdownProps> = ({
+  selectedFilter,
+  onSelectFilter,
+  userLocation
+}) => {
+  const { language, t } = useLanguage();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [limitMode, setLimitMode] = useState<LimitMode>('driving');
+  const [limitValue, setLimitValue] = useState(20);
+  const [originSource, setOriginSource] = useState<OriginSource>(userLocation ? 'user' : 'address');
+  const [address, setAddress] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { setFilterDropdownOpen } = useTouch();
+  const { isMobile } = useMobile();
+
+  // Default to "My location" as soon as the user shares it
+  useEffect(() => {
+    if (userLocation && !selectedFilter) {
+      setOriginSource('user');
+    }
+  }, [userLocation, selectedFilter]);
+
+  const closeDropdown = () => {
+    setIsExpanded(false);
+    setError(null);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(false);
+    }
+  };
+
+  // Handle clicking on the main button
+  const handleButtonClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const newExpandedState = !isExpanded;
+    setIsExpanded(newExpandedState);
+
+    // Only update filter dropdown state on mobile
+    if (isMobile) {
+      setFilterDropdownOpen(newExpandedState);
+    }
+  };
+
+  const handleModeChange = (mode: LimitMode) => {
+    // Keep a sensible value when switching between kilometres and minutes
+    if ((mode === 'distance') !== (limitMode === 'distance')) {
+      setLimitValue(mode === 'distance' ? 5 : 20);
+    }
+    setLimitMode(mode);
+  };
+
+  const handleApply = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setError(null);
+
+    const limit = buildLimit(limitMode, limitValue);
+
+    if (originSource === 'user') {
+      if (!userLocation) {
+        setError(t('reach.shareLocation'));
+        return;
+      }
+      onSelectFilter({ origin: userLocation, originType: 'user', originLabel: t('reach.myLocation'), limit });
+      closeDropdown();
+      return;
+    }
+
+    const trimmedAddress = address.trim();
+    if (!trimmedAddress) {
+      setError(t('reach.enterAddress'));
+      return;
+    }
+
+    // Reuse the pinned point if the address hasn't changed
+    if (selectedFilter && selectedFilter.originType === 'address' && selectedFilter.originLabel === trimmedAddress) {
+      onSelectFilter({ ...selectedFilter, limit });
+      closeDropdown();
+      return;
+    }
+
+    setIsLocating(true);
+    try {
+      const origin = await geocodeAddress(trimmedAddress);
+      if (!origin) {
+        setError(t('reach.addressNotFound'));
+        return;
+      }
+      onSelectFilter({ origin, originType: 'address', originLabel: trimmedAddress, limit });
+      closeDropdown();
+    } catch (err) {
+      console.error('Error geocoding pinned address:', err);
+      setError(t('reach.addressNotFound'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleAnyDistance = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelectFilter(null);
+    closeDropdown();
+  };
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (buttonRef.current && !buttonRef.current.contains(event.target as Node) &&
+          dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsExpanded(false);
+
+        // Only update filter dropdown state on mobile
+        if (isMobile) {
+          setFilterDropdownOpen(false);
+        }
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+
+      // Ensure that clicking outside a filter dropdown doesn't inadvertently trigger map or drawer interactions
+      const preventMapInteraction = (e: Event) => {
+        if (!buttonRef.current?.contains(e.target as Node) &&
+            !dropdownRef.current?.contains(e.target as Node)) {
+          e.stopPropagation();
+        }
+      };
+
+      // Add capture phase listener to intercept events before they reach the map
+      document.addEventListener('touchstart', preventMapInteraction, true);
+      document.addEventListener('touchmove', preventMapInteraction, true);
+
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+        document.removeEventListener('touchstart', preventMapInteraction, true);
+        document.removeEventListener('touchmove', preventMapInteraction, true);
+      };
+    } else {
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+      };
+    }
+  }, [isExpanded, isMobile, setFilterDropdownOpen]);
+
+  // Get dropdown position
+  const getDropdownPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 };
+
+    const rect = buttonRef.current.getBoundingClientRect();
+    return {
+      top: rect.bottom + window.scrollY + 5, // Added small gap
+      left: rect.left + window.scrollX
+    };
+  };
+
+  const isActive = selectedFilter !== null;
+  const valueOptions = limitMode === 'distance' ? DISTANCE_OPTIONS : TIME_OPTIONS;
+
+  return (
+    <div className="relative" onTouchStart={(e) => e.stopPropagation()}>
+      <button
+        ref={buttonRef}
+        onClick={handleButtonClick}
+        onTouchStart={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: isActive ? '#3B82F6' : 'rgb(243 244 246)',
+          color: isActive ? 'white' : 'rgb(55 65 81)',
+          borderWidth: '1.5px',
+          borderColor: isActive ? '#3B82F6' : 'transparent',
+          touchAction: 'manipulation', // Optimize for tap/click
+        }}
+        className="snap-start flex items-center justify-between gap-1 flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium transition-colors hover:opacity-90"
+      >
+        <span className="whitespace-nowrap pr-1">
+          {selectedFilter ? formatReachLimit(selectedFilter.limit, language) : t('reach.label')}
+        </span>
+
+        {/* Chevron with subtle separator */}
+        <div
+          className="chevron-area flex items-center"
+          style={{
+            borderLeft: isActive ? '1px solid rgba(255,255,255,0.3)' : '1px solid rgba(0,0,0,0.1)',
+            paddingLeft: '4px',
+            marginLeft: '2px'
+          }}
+        >
+          <ChevronDown
+            size={16}
+            className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          />
+        </div>
+      </button>
+
+      {/* Dropdown menu - rendered with portal to ensure it's not clipped */}
+      {isExpanded && document.body && createPortal(
+        <div
+          ref={dropdownRef}
+          className="fixed bg-white rounded-lg shadow-lg py-1 min-w-max border border-gray-200"
+          style={{
+            ...getDropdownPosition(),
+            zIndex: 9999,
+            maxHeight: '60vh',
+            overflowY: 'auto',
+            minWidth: buttonRef.current ? buttonRef.current.offsetWidth : 100
+          }}
+          onTouchStart={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchMove={(e) => {
+            e.stopPropagation();
+          }}
+          onTouchEnd={(e) => {
+            e.stopPropagation();
+          }}
+        >
+          {/* Any distance option */}
+          <button
+            onClick={handleAnyDistance}
+            className={`w-full px-3 py-2 text-left text-sm font-medium border-b border-gray-100 hover:bg-gray-50 flex items-center justify-between ${
+              !isActive ? 'bg-blue-50 text-blue-600' : ''
+            }`}
+          >
+            <span className="mr-2">{t('reach.any')}</span>
+            {!isActive && (
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5 text-green-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+          </button>
+
+          <div className="px-3 py-2 space-y-3 text-sm max-w-xs">
+            {/* Radius or travel mode */}
+            <div className="flex gap-1">
+              {LIMIT_MODES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => handleModeChange(option.value)}
+                  className={`flex-1 px-2 py-1 rounded-full text-xs font-medium ${
+                    limitMode === option.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t(option.labelKey)}
+                </button>
+              ))}
+            </div>
+
+            {/* Kilometres or minutes */}
+            <div className="flex flex-wrap gap-1">
+              {valueOptions.map(value => (
+                <button
+                  key={value}
+                  onClick={() => setLimitValue(value)}
+                  className={`px-2 py-1 rounded border text-xs ${
+                    limitValue === value ? 'border-blue-500 text-blue-600 bg-blue-50' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {limitMode === 'distance' ? `${value} km` : t('reach.minutes', { minutes: value })}
+                </button>
+              ))}
+            </div>
+
+            {/* Where to measure from */}
+            <div className="space-y-1">
+              <label className={`flex items-center gap-2 ${!userLocation ? 'text-gray-400' : ''}`}>
+                <input
+                  type="radio"
+                  checked={originSource === 'user'}
+                  onChange={() => setOriginSource('user')}
+                  disabled={!userLocation}
+                />
+                {t('reach.myLocation')}
+                {!userLocation && <span className="text-xs">{t('reach.notShared')}</span>}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={originSource === 'address'}
+                  onChange={() => setOriginSource('address')}
+                />
+                {t('reach.anAddress')}
+              </label>
+              {originSource === 'address' && (
+                <input
+                  type="text"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder={t('reach.addressPlaceholder')}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              )}
+            </div>
+
+            {limitMode !== 'distance' && (
+              <p className="text-xs text-gray-500">{t('reach.estimate')}</p>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <button
+              onClick={handleApply}
+              disabled={isLocating}
+              className="w-full py-1.5 rounded bg-blue-500 text-white font-medium hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isLocating ? t('reach.locating') : t('common.apply')}
+            </button>
+          </div>
+
+          {/* Close button */}
+          <div className="border-t border-gray-100 mt-1 pt-1 px-2">
+            <button
+              onClick={closeDropdown}
+              className="w-full py-1.5 text-sm text-center text-gray-500 hover:bg-gray-50 rounded"
+            >
+              {t('common.close')}
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default ReachFilterDropdown;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { CheckCircle } from 'lucide-react';
 import ModalWrapper from '../common/ModalWrapper';
+import { NEWSLETTER_AGE_RANGES, formatAgeRange } from '../../utils/newsletter';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface NewsletterModalProps {
   isOpen: boolean;
@@ -18,6 +20,7 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
   isOpen,
   onClose,
 }) => {
+  const { language, t } = useLanguage();
   const [formData, setFormData] = useState<FormData>({
     email: '',
     firstName: '',
@@ -74,13 +77,13 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
     const newErrors: Partial<Record<keyof FormData, string>> = {};
     
     if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('newsletter.errors.emailRequired');
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('newsletter.errors.emailInvalid');
     }
 
     if (formData.ageRanges.length === 0) {
-      newErrors.ageRanges = 'Please select at least one age range';
+      newErrors.ageRanges = t('newsletter.errors.ageRanges');
     }
 
     setErrors(newErrors);
@@ -113,15 +116,15 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
       if (!response.ok) {
         // Handle specific Firebase-related errors
         if (data.error && data.error.includes('already subscribed')) {
-          throw new Error('This email is already subscribed to our newsletter.');
+          throw new Error(t('newsletter.errors.alreadySubscribed'));
         } else {
-          throw new Error(data.error || 'Failed to subscribe to newsletter');
+          throw new Error(data.error || t('newsletter.errors.failed'));
         }
       }
   
       // Success handling - should work with Firebase response too
       setSubmitStatus('success');
-      setSubmitMessage('Thank you for subscribing to our newsletter! You\'ll start receiving updates soon.');
+      setSubmitMessage(t('newsletter.success'));
       
       // Reset form after submission
       setFormData({
@@ -131,16 +134,16 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
         postalCode: '',
       });
   
-      // Close modal after 3 seconds
+      // Close modal after 5 seconds, leaving time to read where to look next
       setTimeout(() => {
         onClose();
         setSubmitStatus('idle');
-      }, 3000);
+      }, 5000);
       
     } catch (error) {
       console.error('Error submitting newsletter signup:', error);
       setSubmitStatus('error');
-      setSubmitMessage(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+      setSubmitMessage(error instanceof Error ? error.message : t('common.unexpectedError'));
     } finally {
       setIsSubmitting(false);
     }
@@ -150,9 +153,9 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
     <ModalWrapper
       isOpen={isOpen}
       onClose={onClose}
-      title="Subscribe to discover more"
+      title={t('newsletter.title')}
     >
-      <p className="text-gray-600 mb-6">Sign up to discover more of the best kids activities, classes, and events in your area!</p>
+      <p className="text-gray-600 mb-6">{t('newsletter.intro')}</p>
 
       {submitStatus === 'success' ? (
         <div className="p-4 bg-green-50 text-green-800 rounded-lg mb-4 flex items-center z-modal-success-message">
@@ -169,7 +172,7 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
         <div className="space-y-4">
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-              Email Address *
+              {t('newsletter.email')}
             </label>
             <input
               type="email"
@@ -180,14 +183,14 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.email ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="your.email@example.com"
+              placeholder={t('newsletter.emailPlaceholder')}
             />
             {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
           </div>
 
           <div>
             <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-1">
-              Name (optional)
+              {t('newsletter.name')}
             </label>
             <input
               type="text"
@@ -196,13 +199,13 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
               value={formData.firstName}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
-              placeholder="Your name"
+              placeholder={t('newsletter.namePlaceholder')}
             />
           </div>
 
           <div>
             <label htmlFor="postalCode" className="block text-sm font-medium text-gray-700 mb-1">
-              Postal Code (optional)
+              {t('newsletter.postalCode')}
             </label>
             <input
               type="text"
@@ -211,19 +214,19 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
               value={formData.postalCode}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
-              placeholder="Enter your postal code"
+              placeholder={t('newsletter.postalCodePlaceholder')}
             />
             <p className="mt-1 text-xs text-gray-500">
-              Helps us send you location-specific activities
+              {t('newsletter.postalCodeHelp')}
             </p>
           </div>
 
           <div>
             <p className="block text-sm font-medium text-gray-700 mb-2">
-              Child Age Ranges *
+              {t('newsletter.ageRanges')}
             </p>
             <div className="space-y-2">
-              {['0-2 years', '3-5 years', '6-8 years', '9-12 years', '13+ years'].map((range) => (
+              {NEWSLETTER_AGE_RANGES.map((range) => (
                 <label key={range} className="flex items-center">
                   <input
                     type="checkbox"
@@ -233,7 +236,7 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
                     onChange={handleCheckboxChange}
                     className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
                   />
-                  <span className="ml-2 text-gray-700">{range}</span>
+                  <span className="ml-2 text-gray-700">{formatAgeRange(range, language)}</span>
                 </label>
               ))}
             </div>
@@ -250,12 +253,12 @@ const NewsletterModal: React.FC<NewsletterModalProps> = ({
                   : 'bg-blue-600 hover:bg-blue-700'
                 }`}
             >
-              {isSubmitting ? 'Submitting...' : 'Subscribe'}
+              {isSubmitting ? t('newsletter.submitting') : t('newsletter.subscribe')}
             </button>
           </div>
 
           <p className="text-xs text-gray-500 text-center mt-4">
-            We'll never share your email with anyone else. You can unsubscribe anytime.
+            {t('newsletter.privacyNote')}
           </p>
         </div>
       </form>
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import Header from '../Layout/Header';
+import Footer from '../Layout/Footer';
+import SEO from '../SEO';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { NewsletterPreferences } from '../../types/newsletter';
+import {
+  NEWSLETTER_AGE_RANGES,
+  formatAgeRange,
+  getNewsletterPreferences,
+  unsubscribeFromNewsletter,
+  updateNewsletterPreferences
+} from '../../utils/newsletter';
+
+type PreferencesForm = Pick<NewsletterPreferences, 'firstName' | 'ageRanges' | 'interests' | 'postalCode'>;
+
+const toForm = (preferences: NewsletterPreferences): PreferencesForm => ({
+  firstName: preferences.firstName,
+  ageRanges: preferences.ageRanges,
+  interests: preferences.interests,
+  postalCode: preferences.postalCode
+});
+
+// Toggle a value in a list of checkbox values
+const toggle = (values: string[], value: string, checked: boolean): string[] =>
+  checked ? [...values, value] : values.filter(v => v !== value);
+
+// Shows a translated sentence with the subscriber's address in bold where it has "{email}"
+const withEmail = (sentence: string, email: string): React.ReactNode => {
+  const [before, after = ''] = sentence.split('{email}');
+  return <>{before}<strong>{email}</strong>{after}</>;
+};
+
+/**
+ * Newsletter preferences - opened from the links in our emails, which carry a signed token.
+ * Subscribers change their age ranges and interests here, or unsubscribe.
+ */
+const NewsletterPreferencesPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { language, t, activityCategories, activityGroups } = useLanguage();
+  const token = searchParams.get('token') || '';
+  const justConfirmed = searchParams.get('confirmed') === '1';
+  const wantsToUnsubscribe = searchParams.get('action') === 'unsubscribe';
+  const hasInvalidLink = searchParams.get('error') === 'invalid-link' || !token;
+
+  const [preferences, setPreferences] = useState<NewsletterPreferences | null>(null);
+  const [form, setForm] = useState<PreferencesForm | null>(null);
+  const [isLoading, setIsLoading] = useState(!hasInvalidLink);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (hasInvalidLink) return;
+
+    const fetchPreferences = async () => {
+      try {
+        setIsLoading(true);
+        const loaded = await getNewsletterPreferences(token);
+        setPreferences(loaded);
+        setForm(toForm(loaded));
+        setError(null);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, [token, hasInvalidLink]);
+
+  const runAction = async (action: () => Promise<NewsletterPreferences>, message: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await action();
+      setPreferences(updated);
+      setForm(toForm(updated));
+      setSuccessMessage(message);
+
+      // Clear success message after 5 seconds
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 5000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    if (form.ageRanges.length === 0) {
+      setError(t('newsletter.errors.ageRanges'));
+      return;
+    }
+    runAction(() => updateNewsletterPreferences(token, form), t('prefs.saved'));
+  };
+
+  const handleUnsubscribe = () => runAction(async () => {
+    await unsubscribeFromNewsletter(token);
+    return { ...preferences!, status: 'unsubscribed' };
+  }, t('prefs.unsubscribedMessage'));
+
+  const handleResubscribe = () => runAction(
+    () => updateNewsletterPreferences(token, { subscribed: true }),
+    t('prefs.resubscribedMessage')
+  );
+
+  const isUnsubscribed = preferences?.status === 'unsubscribed';
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <SEO pageType="newsletterPreferences" />
+
+      <div className="fixed top-0 left-0 right-0 z-header w-full">
+        <Header />
+      </div>
+
+      {/* Add spacing to account for fixed header */}
+      <div className="h-16"></div>
+
+      <main className="flex-1 bg-white">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-3xl font-bold text-blue-500 mb-6">{t('prefs.title')}</h1>
+
+          {hasInvalidLink ? (
+            <div className="p-4 bg-red-50 text-red-800 rounded-lg">
+              <p>{t('prefs.invalidLink')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center py-8">
+              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              <p className="ml-2">{t('prefs.loading')}</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {justConfirmed && !isUnsubscribed && (
+                <div className="p-4 bg-green-50 text-green-800 rounded-lg flex items-center">
+                  <CheckCircle className="mr-2 flex-shrink-0" size={20} />
+                  <p>{t('prefs.confirmed')}</p>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-4 bg-red-50 text-red-800 rounded-lg">
+                  <p>{error}</p>
+                </div>
+              )}
+
+              {successMessage && (
+                <div className="p-4 bg-green-50 text-green-800 rounded-lg flex items-center">
+                  <CheckCircle className="mr-2 flex-shrink-0" size={20} />
+                  <p>{successMessage}</p>
+                </div>
+              )}
+
+              {preferences && isUnsubscribed && (
+                <div className="p-4 border rounded-lg">
+                  <p className="mb-3">
+                    {withEmail(t('prefs.isUnsubscribed'), preferences.email)}
+                  </p>
+                  <button
+                    onClick={handleResubscribe}
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
+                  >
+                    {t('prefs.subscribeAgain')}
+                  </button>
+                </div>
+              )}
+
+              {preferences && !isUnsubscribed && wantsToUnsubscribe && (
+                <div className="p-4 border border-red-200 rounded-lg">
+                  <p className="mb-3">{withEmail(t('prefs.confirmUnsubscribe'), preferences.email)}</p>
+                  <button
+                    onClick={handleUnsubscribe}
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {t('prefs.yesUnsubscribe')}
+                  </button>
+                </div>
+              )}
+
+              {preferences && form && !isUnsubscribed && (
+                <form onSubmit={handleSave} className="space-y-6">
+                  <p className="text-gray-600">
+                    {withEmail(t('prefs.sentTo'), preferences.email)}
+                  </p>
+
+                  <div>
+                    <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('newsletter.name')}
+                    </label>
+                    <input
+                      type="text"
+                      id="firstName"
+                      value={form.firstName}
+                      onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="postalCode" className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('newsletter.postalCode')}
+                    </label>
+                    <input
+                      type="text"
+                      id="postalCode"
+                      value={form.postalCode}
+                      onChange={(e) => setForm({ ...form, postalCode: e.target.value })}
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    />
+                  </div>
+
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">{t('newsletter.ageRanges')}</legend>
+                    <div className="grid grid-cols-2 gap-2">
+                      {NEWSLETTER_AGE_RANGES.map(range => (
+                        <label key={range} className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={form.ageRanges.includes(range)}
+                            onChange={(e) => setForm({ ...form, ageRanges: toggle(form.ageRanges, range, e.target.checked) })}
+                            className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                          />
+                          <span className="ml-2 text-gray-700">{formatAgeRange(range, language)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-1">{t('prefs.interests')}</legend>
+                    <p className="text-xs text-gray-500 mb-3">{t('prefs.interestsHelp')}</p>
+                    <div className="space-y-4">
+                      {Object.entries(activityGroups).map(([groupKey, group]) => (
+                        <div key={groupKey}>
+                          <p className="text-sm font-medium mb-1" style={{ color: group.color }}>{group.name}</p>
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {group.types.filter(type => activityCategories[type]).map(type => (
+                              <label key={type} className="flex items-center">
+                                <input
+                                  type="checkbox"
+                                  checked={form.interests.includes(type)}
+                                  onChange={(e) => setForm({ ...form, interests: toggle(form.interests, type, e.target.checked) })}
+                                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                                />
+                                <span className="ml-2 text-sm text-gray-700">{activityCategories[type].name}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </fieldset>
+
+                  <div className="flex flex-wrap gap-3 items-center">
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
+                    >
+                      {isSaving ? t('prefs.saving') : t('prefs.save')}
+                    </button>
+                    {!wantsToUnsubscribe && (
+                      <button
+                        type="button"
+                        onClick={handleUnsubscribe}
+                        disabled={isSaving}
+                        className="px-4 py-2 text-sm text-red-700 hover:underline disabled:opacity-50"
+                      >
+                        {t('prefs.unsubscribe')}
+                      </button>
+                    )}
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
+
+          <p className="mt-8">
+            <Link to="/" className="text-blue-500 hover:text-blue-700">
+              {t('common.returnHome')}
+            </Link>
+          </p>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default NewsletterPreferencesPage;
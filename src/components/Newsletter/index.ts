@@ -1,4 +1,5 @@
 import NewsletterButton from './NewsletterButton';
 import NewsletterModal from './NewsletterModal';
+import NewsletterPreferencesPage from './NewsletterPreferencesPage';
 
-export { NewsletterButton, NewsletterModal };
\ No newline at end of file
+export { NewsletterButton, NewsletterModal, NewsletterPreferencesPage };
\ No newline at end of file
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, Link, Navigate, useNavigate } from 'react-router-dom';
+import { ChevronLeft, MapPin } from 'lucide-react';
+import Header from '../Layout/Header';
+import Footer from '../Layout/Footer';
+import SEO from '../SEO';
+import FeaturedLocationTile from '../Home/FeaturedLocationTile';
+import LocationsMiniMap from '../Map/LocationsMiniMap';
+import RelatedContentSection from '../Blog/RelatedContentSection';
+import { useLocations } from '../../contexts/LocationsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { BlogPost } from '../../types/blog';
+import { Location } from '../../types/location';
+import { getBlogPosts, getLandingPageIntro } from '../../utils/firebase-service';
+import { getPlacePath, getPlaceSlug } from '../../utils/place-pages';
+import { DEFAULT_LANGUAGE } from '../../utils/i18n';
+import {
+  ACTIVITY_LANDING_PAGES,
+  AREA_LANDING_PAGES,
+  LandingPageKind,
+  getDefaultIntro,
+  getLandingPage,
+  getLandingPageName,
+  getLandingPageLocations,
+  getRelatedBlogPosts
+} from '../../utils/landing-pages';
+
+// Locations shown at first, and added by each "Show more"
+const PAGE_SIZE = 12;
+
+interface LandingPageProps {
+  kind: LandingPageKind;
+}
+
+// Generated page for an activity (/activities/:slug) or neighbourhood (/areas/:slug) -
+// the editor's intro, a map and list of the matching locations, and related blog posts
+const LandingPage: React.FC<LandingPageProps> = ({ kind }) => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { language, t, tPlural, activityCategories } = useLanguage();
+  const { allLocations, isLoading } = useLocations();
+  const [intro, setIntro] = useState('');
+  const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const page = slug ? getLandingPage(kind, slug) : undefined;
+
+  const locations = useMemo(
+    () => (page ? getLandingPageLocations(page, allLocations) : []),
+    [page, allLocations]
+  );
+
+  const relatedPosts = useMemo(
+    () => (page ? getRelatedBlogPosts(page, blogPosts) : []),
+    [page, blogPosts]
+  );
+
+  // Other pages to explore - every other area, or the activities sharing a type with this one
+  const otherPages = useMemo(() => {
+    if (!page) return [];
+    if (page.kind === 'area') {
+      return AREA_LANDING_PAGES.filter(other => other.id !== page.id);
+    }
+    return ACTIVITY_LANDING_PAGES.filter(other =>
+      other.id !== page.id && other.types?.some(type => page.types?.includes(type))
+    );
+  }, [page]);
+
+  // Load the intro and blog posts for this page
+  useEffect(() => {
+    if (!page) return;
+    let cancelled = false;
+
+    setIntro('');
+    setVisibleCount(PAGE_SIZE);
+
+    getLandingPageIntro(page.id)
+      .then(savedIntro => {
+        if (!cancelled) setIntro(savedIntro);
+      })
+      .catch(error => console.error('Error loading landing page intro:', error));
+
+    getBlogPosts()
+      .then(posts => {
+        if (!cancelled) setBlogPosts(posts);
+      })
+      .catch(error => console.error('Error loading blog posts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  // Unknown pages go to the map
+  if (!page) {
+    return <Navigate to="/map" replace />;
+  }
+
+  // Links with different casing go to the canonical URL
+  if (slug !== page.slug) {
+    return <Navigate to={page.path} replace />;
+  }
+
+  const openPlacePage = (location: Location) => {
+    navigate(getPlacePath(getPlaceSlug(location)));
+  };
+
+  const name = getLandingPageName(page, language);
+  const heading = page.kind === 'area'
+    ? t('landing.heading.area', { name })
+    : t('landing.heading.activity', { name });
+
+  // Editors write the intro in English, so Greek pages use the generated one
+  const savedIntro = language === DEFAULT_LANGUAGE ? intro : '';
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <SEO pageType={page.kind === 'area' ? 'areaLanding' : 'activityLanding'} landingPage={page} />
+
+      <div className="fixed top-0 left-0 right-0 z-header w-full">
+        <Header />
+      </div>
+
+      {/* Add spacing to account for fixed header */}
+      <div className="h-16"></div>
+
+      <main className="flex-1 bg-white">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+            <Link
+              to="/"
+              className="inline-flex items-center text-blue-500 hover:text-blue-700"
+            >
+              <ChevronLeft size={18} />
+              <span>{t('landing.home')}</span>
+            </Link>
+            <Link
+              to={page.mapUrl}
+              className="inline-flex items-center gap-1 text-blue-500 hover:text-blue-700"
+            >
+              <MapPin size={16} />
+              <span>{t('common.showOnMap')}</span>
+            </Link>
+          </div>
+
+          <h1 className="text-3xl md:text-4xl font-bold mb-4" style={{ color: page.color }}>
+            {heading}
+          </h1>
+
+          <p className="text-lg text-gray-600 mb-8 whitespace-pre-line max-w-3xl">
+            {savedIntro || (isLoading ? '' : getDefaultIntro(page, locations.length, language))}
+          </p>
+
+          {isLoading ? (
+            <div className="animate-pulse">
+              <div className="h-64 md:h-80 bg-gray-200 rounded-lg mb-8"></div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[0, 1, 2].map(index => (
+                  <div key={index} className="h-72 bg-gray-200 rounded-lg"></div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="mb-8">
+                <LocationsMiniMap
+                  locations={locations}
+                  outline={page.municipality?.polygon}
+                  outlineColor={page.color}
+                  onSelect={openPlacePage}
+                />
+              </div>
+
+              {locations.length === 0 ? (
+                <p className="text-gray-500 italic">
+                  {t('landing.empty')}{' '}
+                  <Link to="/map" className="text-blue-600 hover:text-blue-800 not-italic">
+                    {t('landing.exploreMap')}
+                  </Link>
+                </p>
+              ) : (
+                <>
+                  <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                    {tPlural('landing.placeCount', locations.length)}
+                  </h2>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {locations.slice(0, visibleCount).map(location => (
+                      <FeaturedLocationTile
+                        key={location.id}
+                        location={location}
+                        activityConfig={activityCategories}
+                        onSelect={() => openPlacePage(location)}
+                      />
+                    ))}
+                  </div>
+
+                  {visibleCount < locations.length && (
+                    <div className="mt-6 flex justify-center">
+                      <button
+                        onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                        className="px-6 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 font-medium"
+                      >
+                        {t('landing.showMore')}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          <RelatedContentSection posts={relatedPosts} title={t('landing.fromBlog')} />
+
+          {otherPages.length > 0 && (
+            <section className="mt-12 mb-8">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">
+                {page.kind === 'area' ? t('landing.moreAreas') : t('landing.relatedActivities')}
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {otherPages.map(other => (
+                  <Link
+                    key={other.id}
+                    to={other.path}
+                    className="px-3 py-1.5 text-sm font-medium rounded-full hover:opacity-80"
+                    style={{ backgroundColor: `${other.color}20`, color: other.color }}
+                  >
+                    {getLandingPageName(other, language)}
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default LandingPage;
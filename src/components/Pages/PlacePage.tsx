@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useParams, Link, Navigate } from 'react-router-dom';
+import { ChevronLeft, MapPin } from 'lucide-react';
+import Header from '../Layout/Header';
+import Footer from '../Layout/Footer';
+import SEO from '../SEO';
+import RatingDisplay from '../Map/RatingDisplay';
+import LocationDetails, { LocationIssueType } from '../Map/LocationDetails';
+import LocationActionButtons from '../Map/LocationActionButtons';
+import ReportIssueModal from '../ReportIssue/ReportIssueModal';
+import { SaveButton } from '../Favorites';
+import { AddToPlanButton, DayPlannerModal } from '../DayPlanner';
+import { useLocations } from '../../contexts/LocationsContext';
+import { useDayPlanner } from '../../contexts/DayPlannerContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { findLocationBySlug, getPlacePath, getPlaceSlug } from '../../utils/place-pages';
+
+// Full-page view of one location at /places/:slug - the same details as the map drawer,
+// on a page of its own that search engines can index
+const PlacePage: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { allLocations, isLoading } = useLocations();
+  const { isPlannerOpen, closePlanner } = useDayPlanner();
+  const { t, activityCategories } = useLanguage();
+  const [reportIssueType, setReportIssueType] = useState<LocationIssueType | null>(null);
+
+  const location = slug ? findLocationBySlug(allLocations, slug) : undefined;
+  const placeSlug = location ? getPlaceSlug(location) : undefined;
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <SEO title={`${t('common.loading')} | PameKids`} />
+        <div className="fixed top-0 left-0 right-0 z-header w-full">
+          <Header />
+        </div>
+        <div className="h-16"></div>
+        <main className="flex-1 bg-white">
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-2/3 mb-4"></div>
+            <div className="h-5 bg-gray-200 rounded w-1/3 mb-6"></div>
+            <div className="aspect-video bg-gray-200 rounded-lg mb-6"></div>
+            <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6 mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-4/5"></div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  // Unknown places go to the map
+  if (!location || !placeSlug) {
+    return <Navigate to="/map" replace />;
+  }
+
+  // Links by place ID or with different casing go to the canonical URL
+  if (slug !== placeSlug) {
+    return <Navigate to={getPlacePath(placeSlug)} replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <SEO pageType="place" location={location} placeSlug={placeSlug} />
+
+      <div className="fixed top-0 left-0 right-0 z-header w-full">
+        <Header />
+      </div>
+
+      {/* Add spacing to account for fixed header */}
+      <div className="h-16"></div>
+
+      <main className="flex-1 bg-white">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+            <Link
+              to="/map"
+              className="inline-flex items-center text-blue-500 hover:text-blue-700"
+            >
+              <ChevronLeft size={18} />
+              <span>{t('place.backToMap')}</span>
+            </Link>
+            <Link
+              to={`/map?locationId=${location.id}`}
+              className="inline-flex items-center gap-1 text-blue-500 hover:text-blue-700"
+            >
+              <MapPin size={16} />
+              <span>{t('common.showOnMap')}</span>
+            </Link>
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <div className="flex items-center">
+                <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{location.name}</h1>
+                <SaveButton locationId={location.id} locationName={location.name} className="ml-1 flex-shrink-0" />
+                <AddToPlanButton location={location} className="flex-shrink-0" />
+              </div>
+
+              {/* Rating display */}
+              {location.placeData?.rating && location.placeData.userRatingsTotal && (
+                <div className="mt-2">
+                  <RatingDisplay
+                    rating={location.placeData.rating}
+                    totalRatings={location.placeData.userRatingsTotal}
+                    placeId={location.id}
+                    businessName={location.name}
+                    activityTypes={location.types}
+                  />
+                </div>
+              )}
+
+              {/* Activity types */}
+              <div className="flex flex-wrap gap-2 mt-2">
+                {location.types.map(type => (
+                  <span
+                    key={type}
+                    className="inline-block px-3 py-1.5 text-sm font-medium rounded-full"
+                    style={{
+                      backgroundColor: activityCategories[type].color + '20',
+                      color: activityCategories[type].color
+                    }}
+                  >
+                    {activityCategories[type].name}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <LocationDetails
+              location={location}
+              placeData={location.placeData}
+              actions={<LocationActionButtons location={location} />}
+              onReportIssue={setReportIssueType}
+            />
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+
+      <ReportIssueModal
+        isOpen={reportIssueType !== null}
+        onClose={() => setReportIssueType(null)}
+        locationId={location.id}
+        locationName={location.name}
+        defaultIssueType={reportIssueType || 'incorrect-info'}
+      />
+
+      <DayPlannerModal
+        isOpen={isPlannerOpen}
+        onClose={closePlanner}
+      />
+    </div>
+  );
+};
+
+export default PlacePage;
@@ -3,8 +3,214 @@ import { Link } from 'react-router-dom';
 import Header from '../Layout/Header';
 import Footer from '../Layout/Footer';
 import SEO from '../SEO';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Language } from '../../utils/i18n';
+
+// Reopens the welcome modal, where visitors set their consent preferences
+const ConsentLink: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <button
+    onClick={() => {
+      if (typeof window !== 'undefined') {
+        const event = new CustomEvent('openWelcomeModal');
+        window.dispatchEvent(event);
+      }
+    }}
+    className="text-blue-500 hover:text-blue-700 underline cursor-pointer"
+  >
+    {children}
+  </button>
+);
+
+// The policy is legal text, so each language has its own full version rather than UI strings
+const POLICY_CONTENT: Record<Language, React.FC> = {
+  en: () => (
+    <div className="prose prose-blue max-w-none">
+      <p className="mb-4">
+        Last Updated: March 31, 2025
+      </p>
+      
+      <p className="mb-4">
+        At PameKids, we respect your privacy and are committed to protecting your personal data.
+        This Privacy Policy explains how we collect, use, and safeguard your information when you use our website.
+      </p>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Information We Collect</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">Location Data</h3>
+      <p className="mb-4">
+        We request access to your location to show you children's activities near you.
+        This helps us provide more relevant suggestions based on your proximity to activities.
+        You can always deny location permissions, and the app will still function with default location settings.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">Analytics</h3>
+      <p className="mb-4">
+        We use Google Analytics to collect anonymous information about how visitors use our website.
+        This includes information such as which pages you visit, how long you spend on the site,
+        and basic device information. This helps us improve our services and user experience.
+        You may opt out of analytics tracking through your consent preferences.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">User Submissions</h3>
+      <p className="mb-4">
+        When you submit information about activities or report issues via our forms,
+        we collect the information you provide, including any optional contact information like your email address.
+        This information is used solely to process your submission and, if needed, to contact you about your submission.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">Newsletter Subscription</h3>
+      <p className="mb-4">
+        If you sign up for our newsletter, we collect your email address to send you updates about
+        children's activities, new features, and other relevant information.
+        You can unsubscribe from these communications at any time.
+      </p>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">How We Use Your Information</h2>
+      <p className="mb-4">
+        We use the information we collect to:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Show you relevant children's activities near your location</li>
+        <li>Improve our website and services</li>
+        <li>Process your activity submissions and reports</li>
+        <li>Send you newsletters if you've subscribed</li>
+        <li>Respond to your inquiries</li>
+      </ul>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Data Sharing</h2>
+      <p className="mb-4">
+        We do not sell your personal information to third parties. We may share anonymous,
+        aggregated information with our partners to help improve our services.
+      </p>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Your Choices</h2>
+      <p className="mb-4">
+        You have the right to:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Opt out of providing your location data through your browser or device settings</li>
+        <li>Opt out of analytics tracking through our consent management tool</li>
+        <li>Unsubscribe from our newsletter at any time</li>
+        <li>Request that we delete any personal information you've provided</li>
+        <li>
+          Manage your consent preferences by{' '}
+          <ConsentLink>clicking here</ConsentLink>
+        </li>
+      </ul>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Contact Us</h2>
+      <p className="mb-4">
+        If you have any questions about this Privacy Policy, please contact us at:
+        <br />
+        <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
+          info@pamekids.com
+        </a>
+      </p>
+      
+      <p className="mt-8 mb-4">
+        <Link to="/" className="text-blue-500 hover:text-blue-700">
+          Return to Home
+        </Link>
+      </p>
+    </div>
+  ),
+  el: () => (
+    <div className="prose prose-blue max-w-none">
+      <p className="mb-4">
+        Τελευταία ενημέρωση: 31 Μαρτίου 2025
+      </p>
+
+      <p className="mb-4">
+        Στο PameKids σεβόμαστε την ιδιωτικότητά σας και δεσμευόμαστε να προστατεύουμε τα προσωπικά σας δεδομένα.
+        Αυτή η Πολιτική Απορρήτου εξηγεί πώς συλλέγουμε, χρησιμοποιούμε και προστατεύουμε τις πληροφορίες σας όταν χρησιμοποιείτε τον ιστότοπό μας.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Πληροφορίες που Συλλέγουμε</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">Δεδομένα Τοποθεσίας</h3>
+      <p className="mb-4">
+        Ζητάμε πρόσβαση στην τοποθεσία σας για να σας δείχνουμε δραστηριότητες για παιδιά κοντά σας.
+        Έτσι οι προτάσεις μας ταιριάζουν καλύτερα στην απόσταση από κάθε δραστηριότητα.
+        Μπορείτε πάντα να αρνηθείτε την πρόσβαση στην τοποθεσία και η εφαρμογή θα λειτουργεί με την προεπιλεγμένη τοποθεσία.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">Στατιστικά Χρήσης</h3>
+      <p className="mb-4">
+        Χρησιμοποιούμε το Google Analytics για να συλλέγουμε ανώνυμες πληροφορίες σχετικά με τον τρόπο που οι επισκέπτες χρησιμοποιούν τον ιστότοπό μας.
+        Αυτές περιλαμβάνουν τις σελίδες που επισκέπτεστε, τον χρόνο που περνάτε στον ιστότοπο
+        και βασικές πληροφορίες για τη συσκευή σας. Αυτό μας βοηθά να βελτιώνουμε τις υπηρεσίες μας και την εμπειρία σας.
+        Μπορείτε να εξαιρεθείτε από τα στατιστικά μέσα από τις ρυθμίσεις συναίνεσης.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">Υποβολές Χρηστών</h3>
+      <p className="mb-4">
+        Όταν προτείνετε δραστηριότητες ή αναφέρετε προβλήματα μέσω των φορμών μας,
+        συλλέγουμε τις πληροφορίες που μας δίνετε, μαζί με τυχόν προαιρετικά στοιχεία επικοινωνίας όπως το email σας.
+        Τις χρησιμοποιούμε μόνο για να επεξεργαστούμε την υποβολή σας και, αν χρειαστεί, για να επικοινωνήσουμε μαζί σας γι' αυτήν.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">Εγγραφή στο Newsletter</h3>
+      <p className="mb-4">
+        Αν εγγραφείτε στο newsletter μας, συλλέγουμε τη διεύθυνση email σας για να σας στέλνουμε νέα σχετικά με
+        δραστηριότητες για παιδιά, νέες λειτουργίες και άλλες χρήσιμες πληροφορίες.
+        Μπορείτε να διαγραφείτε από αυτές τις επικοινωνίες οποιαδήποτε στιγμή.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Πώς Χρησιμοποιούμε τις Πληροφορίες σας</h2>
+      <p className="mb-4">
+        Χρησιμοποιούμε τις πληροφορίες που συλλέγουμε για να:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Σας δείχνουμε σχετικές δραστηριότητες για παιδιά κοντά στην τοποθεσία σας</li>
+        <li>Βελτιώνουμε τον ιστότοπο και τις υπηρεσίες μας</li>
+        <li>Επεξεργαζόμαστε τις προτάσεις δραστηριοτήτων και τις αναφορές σας</li>
+        <li>Σας στέλνουμε newsletter, αν έχετε εγγραφεί</li>
+        <li>Απαντάμε στις ερωτήσεις σας</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Κοινοποίηση Δεδομένων</h2>
+      <p className="mb-4">
+        Δεν πουλάμε τα προσωπικά σας δεδομένα σε τρίτους. Μπορεί να μοιραζόμαστε ανώνυμες,
+        συγκεντρωτικές πληροφορίες με τους συνεργάτες μας για να βελτιώσουμε τις υπηρεσίες μας.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Οι Επιλογές σας</h2>
+      <p className="mb-4">
+        Έχετε το δικαίωμα να:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Μην παρέχετε δεδομένα τοποθεσίας, μέσα από τις ρυθμίσεις του browser ή της συσκευής σας</li>
+        <li>Εξαιρεθείτε από τα στατιστικά χρήσης μέσα από το εργαλείο διαχείρισης συναίνεσης</li>
+        <li>Διαγραφείτε από το newsletter μας οποιαδήποτε στιγμή</li>
+        <li>Ζητήσετε να διαγράψουμε όσα προσωπικά δεδομένα μας έχετε δώσει</li>
+        <li>
+          Να διαχειριστείτε τις ρυθμίσεις συναίνεσης{' '}
+          <ConsentLink>πατώντας εδώ</ConsentLink>
+        </li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Επικοινωνία</h2>
+      <p className="mb-4">
+        Για οποιαδήποτε ερώτηση σχετικά με αυτή την Πολιτική Απορρήτου, επικοινωνήστε μαζί μας στο:
+        <br />
+        <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
+          info@pamekids.com
+        </a>
+      </p>
+
+      <p className="mt-8 mb-4">
+        <Link to="/" className="text-blue-500 hover:text-blue-700">
+          Επιστροφή στην Αρχική
+        </Link>
+      </p>
+    </div>
+  )
+};
 
 const PrivacyPolicy: React.FC = () => {
+  const { language, t } = useLanguage();
+  const PolicyContent = POLICY_CONTENT[language];
+
   return (
     <div className="min-h-screen flex flex-col">
       <SEO pageType="privacy" />
@@ -18,107 +224,9 @@ const PrivacyPolicy: React.FC = () => {
       
       <main className="flex-1 bg-white">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-          <h1 className="text-3xl font-bold text-blue-500 mb-8">Privacy Policy</h1>
+          <h1 className="text-3xl font-bold text-blue-500 mb-8">{t('legal.privacyTitle')}</h1>
           
-          <div className="prose prose-blue max-w-none">
-            <p className="mb-4">
-              Last Updated: March 31, 2025
-            </p>
-            
-            <p className="mb-4">
-              At PameKids, we respect your privacy and are committed to protecting your personal data.
-              This Privacy Policy explains how we collect, use, and safeguard your information when you use our website.
-            </p>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Information We Collect</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">Location Data</h3>
-            <p className="mb-4">
-              We request access to your location to show you children's activities near you.
-              This helps us provide more relevant suggestions based on your proximity to activities.
-              You can always deny location permissions, and the app will still function with default location settings.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">Analytics</h3>
-            <p className="mb-4">
-              We use Google Analytics to collect anonymous information about how visitors use our website.
-              This includes information such as which pages you visit, how long you spend on the site,
-              and basic device information. This helps us improve our services and user experience.
-              You may opt out of analytics tracking through your consent preferences.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">User Submissions</h3>
-            <p className="mb-4">
-              When you submit information about activities or report issues via our forms,
-              we collect the information you provide, including any optional contact information like your email address.
-              This information is used solely to process your submission and, if needed, to contact you about your submission.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">Newsletter Subscription</h3>
-            <p className="mb-4">
-              If you sign up for our newsletter, we collect your email address to send you updates about
-              children's activities, new features, and other relevant information.
-              You can unsubscribe from these communications at any time.
-            </p>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">How We Use Your Information</h2>
-            <p className="mb-4">
-              We use the information we collect to:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>Show you relevant children's activities near your location</li>
-              <li>Improve our website and services</li>
-              <li>Process your activity submissions and reports</li>
-              <li>Send you newsletters if you've subscribed</li>
-              <li>Respond to your inquiries</li>
-            </ul>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Data Sharing</h2>
-            <p className="mb-4">
-              We do not sell your personal information to third parties. We may share anonymous,
-              aggregated information with our partners to help improve our services.
-            </p>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Your Choices</h2>
-            <p className="mb-4">
-              You have the right to:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>Opt out of providing your location data through your browser or device settings</li>
-              <li>Opt out of analytics tracking through our consent management tool</li>
-              <li>Unsubscribe from our newsletter at any time</li>
-              <li>Request that we delete any personal information you've provided</li>
-              <li>
-                Manage your consent preferences by{' '}
-                <button
-                  onClick={() => {
-                    if (typeof window !== 'undefined') {
-                      const event = new CustomEvent('openWelcomeModal');
-                      window.dispatchEvent(event);
-                    }
-                  }}
-                  className="text-blue-500 hover:text-blue-700 underline cursor-pointer"
-                >
-                  clicking here
-                </button>
-              </li>
-            </ul>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">Contact Us</h2>
-            <p className="mb-4">
-              If you have any questions about this Privacy Policy, please contact us at:
-              <br />
-              <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
-                info@pamekids.com
-              </a>
-            </p>
-            
-            <p className="mt-8 mb-4">
-              <Link to="/" className="text-blue-500 hover:text-blue-700">
-                Return to Home
-              </Link>
-            </p>
-          </div>
+          <PolicyContent />
         </div>
       </main>
       
@@ -3,8 +3,441 @@ import { Link } from 'react-router-dom';
 import Header from '../Layout/Header';
 import Footer from '../Layout/Footer';
 import SEO from '../SEO';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Language } from '../../utils/i18n';
+
+// The terms are legal text, so each language has its own full version rather than UI strings
+const TERMS_CONTENT: Record<Language, React.FC> = {
+  en: () => (
+    <div className="prose prose-blue max-w-none">
+      <p className="mb-4">
+        Last Updated: March 31, 2025
+      </p>
+      
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">1. Introduction</h2>
+      <p className="mb-4">
+        Welcome to PameKids ("we," "our," or "us"). PameKids is a platform that helps parents discover children's activities in Greece. 
+        By accessing or using our website, mobile application, or any other services provided by PameKids (collectively, the "Services"), 
+        you agree to be bound by these Terms of Service ("Terms").
+      </p>
+      <p className="mb-4">
+        These Terms constitute a legally binding agreement between you and PameKids. If you do not agree with these Terms, 
+        please do not access or use our Services.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">2. Service Description</h2>
+      <p className="mb-4">
+        PameKids provides a map-based interface displaying information about various children's activities including indoor play centers, 
+        outdoor activities, sports facilities, educational programs, and entertainment venues in Greece. Our platform allows users to:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Browse and search for activities based on location, category, age range, and price</li>
+        <li>View detailed information about each activity, including descriptions, hours, contact information, and photos</li>
+        <li>Submit suggestions for new activities</li>
+        <li>Report issues or updates regarding existing listings</li>
+        <li>Subscribe to our newsletter for updates on activities</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">3. User Eligibility</h2>
+      <p className="mb-4">
+        Our Services are intended for use by parents, guardians, and other adults seeking information about children's activities. 
+        By using our Services, you represent and warrant that you are at least 18 years old and have the legal capacity to enter into these Terms.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">4. User Account and Privacy</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.1 Location Data</h3>
+      <p className="mb-4">
+        Our Services may request access to your device's location information to provide location-based services. 
+        You can control this permission through your device settings. We collect and process location data in accordance with our Privacy Policy.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.2 Newsletter Subscription</h3>
+      <p className="mb-4">
+        If you choose to subscribe to our newsletter, you agree to receive periodic communications from us. 
+        You can unsubscribe at any time by following the unsubscribe instructions provided in the communication or by contacting us directly.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.3 Privacy Policy</h3>
+      <p className="mb-4">
+        Your use of our Services is also governed by our Privacy Policy, which describes our practices regarding the collection, 
+        use, and disclosure of your personal information. By using our Services, you also consent to the practices described in our Privacy Policy.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">5. User Conduct</h2>
+      <p className="mb-4">
+        When using our Services, you agree not to:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Use the Services for any illegal purpose or in violation of any local, state, national, or international law</li>
+        <li>Violate or infringe the rights of others, including their intellectual property, privacy, or contractual rights</li>
+        <li>Interfere with or disrupt the Services or servers or networks connected to the Services</li>
+        <li>Attempt to gain unauthorized access to any portion of the Services or any systems or networks connected to the Services</li>
+        <li>Use the Services to transmit any virus, worm, or other malicious code</li>
+        <li>Use the Services to collect or harvest any information about other users</li>
+        <li>Use the Services to send unsolicited communications, promotions, or advertisements</li>
+        <li>Impersonate any person or entity or falsely state or misrepresent your affiliation with a person or entity</li>
+        <li>Submit false, misleading, or inappropriate content to our platform</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">6. User Submissions</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">6.1 Activity Suggestions and Reports</h3>
+      <p className="mb-4">
+        When you submit activity suggestions or report issues through our platform, you:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Represent that the information you provide is accurate, complete, and up-to-date to the best of your knowledge</li>
+        <li>Grant us a non-exclusive, worldwide, royalty-free, perpetual, irrevocable right to use, reproduce, modify, adapt, publish, translate, and distribute the content you submit</li>
+        <li>Understand that we reserve the right to edit, remove, or decline to publish any submission at our sole discretion</li>
+      </ul>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">6.2 Pro Tips and User Feedback</h3>
+      <p className="mb-4">
+        When you submit "Pro Tips" or other feedback about locations:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>You agree not to submit content that is unlawful, defamatory, harassing, threatening, or otherwise objectionable</li>
+        <li>You understand that your submissions are not confidential and may be viewed by other users</li>
+        <li>You acknowledge that we may use your feedback to improve our Services</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">7. Intellectual Property Rights</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">7.1 Our Content</h3>
+      <p className="mb-4">
+        The Services, including all text, graphics, user interfaces, visual interfaces, photographs, trademarks, logos, videos, sounds, 
+        music, artwork, computer code, and other materials contained therein (collectively, "Content"), are owned, controlled, or licensed 
+        by or to PameKids and are protected by copyright, trademark, and other intellectual property laws. Except as expressly provided in 
+        these Terms, no part of the Services and no Content may be copied, reproduced, republished, uploaded, posted, publicly displayed, 
+        encoded, translated, transmitted, or distributed in any way to any other computer, server, website, or other medium for publication 
+        or distribution or for any commercial enterprise, without our express prior written consent.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">7.2 Limited License</h3>
+      <p className="mb-4">
+        Subject to your compliance with these Terms, we grant you a limited, non-exclusive, non-transferable, non-sublicensable license 
+        to access and use the Services for your personal, non-commercial use.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">8. Third-Party Services and Content</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">8.1 Third-Party Services</h3>
+      <p className="mb-4">
+        Our Services may integrate with or contain links to third-party websites, applications, or services (such as Google Maps). 
+        We do not control and are not responsible for the content or practices of these third parties. We provide these links solely 
+        for your convenience, and the inclusion of any link does not imply our endorsement of the linked site or service.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">8.2 Location Information</h3>
+      <p className="mb-4">
+        The information about activities and venues displayed on our platform is collected from various sources, including user submissions 
+        and public data. While we strive to ensure the accuracy of this information, we make no guarantees about its completeness, reliability, 
+        or currentness. You should always verify critical information (such as opening hours, prices, and contact details) directly with the 
+        venue before planning your visit.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">9. Disclaimers and Limitation of Liability</h2>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">9.1 Disclaimer of Warranties</h3>
+      <p className="mb-4">
+        THE SERVICES ARE PROVIDED "AS IS" AND "AS AVAILABLE" WITHOUT WARRANTIES OF ANY KIND, EITHER EXPRESS OR IMPLIED, INCLUDING, 
+        BUT NOT LIMITED TO, IMPLIED WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE, TITLE, AND NON-INFRINGEMENT. 
+        WE DO NOT GUARANTEE THAT THE SERVICES WILL BE UNINTERRUPTED, SECURE, OR ERROR-FREE, OR THAT ANY DEFECTS WILL BE CORRECTED.
+      </p>
+      
+      <h3 className="text-xl font-semibold mt-6 mb-2">9.2 Limitation of Liability</h3>
+      <p className="mb-4">
+        TO THE FULLEST EXTENT PERMITTED BY LAW, PAMEKIDS SHALL NOT BE LIABLE FOR ANY INDIRECT, INCIDENTAL, SPECIAL, CONSEQUENTIAL, 
+        OR PUNITIVE DAMAGES, OR ANY LOSS OF PROFITS OR REVENUES, WHETHER INCURRED DIRECTLY OR INDIRECTLY, OR ANY LOSS OF DATA, USE, 
+        GOODWILL, OR OTHER INTANGIBLE LOSSES, RESULTING FROM:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>YOUR ACCESS TO OR USE OF OR INABILITY TO ACCESS OR USE THE SERVICES</li>
+        <li>ANY CONDUCT OR CONTENT OF ANY THIRD PARTY ON THE SERVICES</li>
+        <li>ANY CONTENT OBTAINED FROM THE SERVICES</li>
+        <li>UNAUTHORIZED ACCESS, USE OR ALTERATION OF YOUR TRANSMISSIONS OR CONTENT</li>
+      </ul>
+      <p className="mb-4">
+        IN NO EVENT SHALL OUR TOTAL LIABILITY TO YOU FOR ALL CLAIMS RELATED TO THE SERVICES EXCEED THE AMOUNT PAID BY YOU TO PAMEKIDS, 
+        IF ANY, FOR ACCESS TO OR USE OF THE SERVICES DURING THE TWELVE (12) MONTHS PRIOR TO THE EVENT GIVING RISE TO THE LIABILITY.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">10. Indemnification</h2>
+      <p className="mb-4">
+        You agree to defend, indemnify, and hold harmless PameKids and its officers, directors, employees, and agents from and against 
+        any claims, liabilities, damages, losses, and expenses, including, without limitation, reasonable legal and accounting fees, 
+        arising out of or in any way connected with your access to or use of the Services, your violation of these Terms, or your 
+        violation of any rights of another.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">11. Changes to Terms</h2>
+      <p className="mb-4">
+        We reserve the right to modify these Terms at any time. If we make material changes to these Terms, we will provide notice 
+        through our Services or by other means. Your continued use of the Services after the changes take effect constitutes your 
+        acceptance of the revised Terms.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">12. Termination</h2>
+      <p className="mb-4">
+        We may terminate or suspend your access to all or part of the Services, without notice, for any conduct that we, in our sole 
+        discretion, believe violates these Terms or is harmful to other users of the Services or third parties, or for any other reason.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">13. Governing Law and Jurisdiction</h2>
+      <p className="mb-4">
+        These Terms shall be governed by and construed in accordance with the laws of Greece, without regard to its conflict of law provisions. 
+        You agree to submit to the personal and exclusive jurisdiction of the courts located in Athens, Greece for the resolution of any 
+        disputes arising out of or relating to these Terms or the Services.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">14. Severability</h2>
+      <p className="mb-4">
+        If any provision of these Terms is held to be invalid or unenforceable, the remaining provisions shall remain in full force and effect. 
+        The invalid or unenforceable provision shall be replaced by a valid and enforceable provision that comes closest to the intention 
+        underlying the invalid provision.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">15. Entire Agreement</h2>
+      <p className="mb-4">
+        These Terms, together with our Privacy Policy, constitute the entire agreement between you and PameKids regarding your use of the 
+        Services and supersede any prior agreements between you and PameKids relating to your use of the Services.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">16. Contact Information</h2>
+      <p className="mb-4">
+        If you have any questions about these Terms, please contact us at:
+        <br />
+        <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
+          info@pamekids.com
+        </a>
+      </p>
+      
+      <p className="mt-8 mb-4">
+        <Link to="/" className="text-blue-500 hover:text-blue-700">
+          Return to Home
+        </Link>
+      </p>
+    </div>
+  ),
+  el: () => (
+    <div className="prose prose-blue max-w-none">
+      <p className="mb-4">
+        Τελευταία ενημέρωση: 31 Μαρτίου 2025
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">1. Εισαγωγή</h2>
+      <p className="mb-4">
+        Καλώς ήρθατε στο PameKids («εμείς», «μας»). Το PameKids είναι μια πλατφόρμα που βοηθά τους γονείς να ανακαλύπτουν δραστηριότητες για παιδιά στην Ελλάδα.
+        Με την πρόσβαση ή τη χρήση του ιστότοπου, της εφαρμογής ή οποιασδήποτε άλλης υπηρεσίας του PameKids (συλλογικά οι «Υπηρεσίες»),
+        συμφωνείτε να δεσμεύεστε από τους παρόντες Όρους Χρήσης («Όροι»).
+      </p>
+      <p className="mb-4">
+        Οι Όροι αποτελούν νομικά δεσμευτική συμφωνία ανάμεσα σε εσάς και το PameKids. Αν δεν συμφωνείτε με τους Όρους,
+        παρακαλούμε να μην χρησιμοποιείτε τις Υπηρεσίες μας.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">2. Περιγραφή Υπηρεσιών</h2>
+      <p className="mb-4">
+        Το PameKids παρέχει έναν χάρτη με πληροφορίες για δραστηριότητες για παιδιά, όπως παιδότοπους,
+        υπαίθριες δραστηριότητες, αθλητικές εγκαταστάσεις, εκπαιδευτικά προγράμματα και χώρους ψυχαγωγίας στην Ελλάδα. Η πλατφόρμα σας επιτρέπει να:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Περιηγείστε και αναζητάτε δραστηριότητες με βάση την τοποθεσία, την κατηγορία, την ηλικία και την τιμή</li>
+        <li>Βλέπετε αναλυτικές πληροφορίες για κάθε δραστηριότητα, όπως περιγραφή, ωράριο, στοιχεία επικοινωνίας και φωτογραφίες</li>
+        <li>Προτείνετε νέες δραστηριότητες</li>
+        <li>Αναφέρετε προβλήματα ή ενημερώσεις για υπάρχουσες καταχωρίσεις</li>
+        <li>Εγγράφεστε στο newsletter μας για νέα σχετικά με δραστηριότητες</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">3. Προϋποθέσεις Χρήσης</h2>
+      <p className="mb-4">
+        Οι Υπηρεσίες μας απευθύνονται σε γονείς, κηδεμόνες και άλλους ενήλικες που αναζητούν πληροφορίες για δραστηριότητες για παιδιά.
+        Χρησιμοποιώντας τις Υπηρεσίες, δηλώνετε και εγγυάστε ότι είστε τουλάχιστον 18 ετών και έχετε τη νομική ικανότητα να αποδεχθείτε τους Όρους.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">4. Λογαριασμός Χρήστη και Απόρρητο</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.1 Δεδομένα Τοποθεσίας</h3>
+      <p className="mb-4">
+        Οι Υπηρεσίες μας μπορεί να ζητήσουν πρόσβαση στην τοποθεσία της συσκευής σας για να παρέχουν υπηρεσίες με βάση την τοποθεσία.
+        Μπορείτε να ελέγχετε αυτή την άδεια από τις ρυθμίσεις της συσκευής σας. Συλλέγουμε και επεξεργαζόμαστε δεδομένα τοποθεσίας σύμφωνα με την Πολιτική Απορρήτου μας.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.2 Εγγραφή στο Newsletter</h3>
+      <p className="mb-4">
+        Αν επιλέξετε να εγγραφείτε στο newsletter μας, συμφωνείτε να λαμβάνετε περιοδικά μηνύματα από εμάς.
+        Μπορείτε να διαγραφείτε οποιαδήποτε στιγμή ακολουθώντας τις οδηγίες διαγραφής στο μήνυμα ή επικοινωνώντας απευθείας μαζί μας.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">4.3 Πολιτική Απορρήτου</h3>
+      <p className="mb-4">
+        Η χρήση των Υπηρεσιών διέπεται επίσης από την Πολιτική Απορρήτου μας, η οποία περιγράφει πώς συλλέγουμε,
+        χρησιμοποιούμε και κοινοποιούμε τα προσωπικά σας δεδομένα. Χρησιμοποιώντας τις Υπηρεσίες, συναινείτε και στις πρακτικές της Πολιτικής Απορρήτου.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">5. Συμπεριφορά Χρηστών</h2>
+      <p className="mb-4">
+        Όταν χρησιμοποιείτε τις Υπηρεσίες μας, συμφωνείτε να μην:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Χρησιμοποιείτε τις Υπηρεσίες για παράνομο σκοπό ή κατά παράβαση οποιουδήποτε τοπικού, εθνικού ή διεθνούς νόμου</li>
+        <li>Παραβιάζετε τα δικαιώματα άλλων, όπως την πνευματική ιδιοκτησία, το απόρρητο ή συμβατικά δικαιώματα</li>
+        <li>Παρεμποδίζετε ή διαταράσσετε τις Υπηρεσίες ή τους διακομιστές και τα δίκτυα που συνδέονται με αυτές</li>
+        <li>Επιχειρείτε μη εξουσιοδοτημένη πρόσβαση σε οποιοδήποτε μέρος των Υπηρεσιών ή σε συστήματα και δίκτυα που συνδέονται με αυτές</li>
+        <li>Χρησιμοποιείτε τις Υπηρεσίες για να μεταδώσετε ιούς ή άλλο κακόβουλο κώδικα</li>
+        <li>Χρησιμοποιείτε τις Υπηρεσίες για να συλλέγετε πληροφορίες για άλλους χρήστες</li>
+        <li>Χρησιμοποιείτε τις Υπηρεσίες για να στέλνετε αυτόκλητα μηνύματα, προωθήσεις ή διαφημίσεις</li>
+        <li>Υποδύεστε οποιοδήποτε πρόσωπο ή φορέα ή δηλώνετε ψευδώς τη σχέση σας με αυτόν</li>
+        <li>Υποβάλλετε ψευδές, παραπλανητικό ή ακατάλληλο περιεχόμενο στην πλατφόρμα μας</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">6. Υποβολές Χρηστών</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">6.1 Προτάσεις Δραστηριοτήτων και Αναφορές</h3>
+      <p className="mb-4">
+        Όταν προτείνετε δραστηριότητες ή αναφέρετε προβλήματα μέσω της πλατφόρμας μας:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Δηλώνετε ότι οι πληροφορίες που δίνετε είναι, εξ όσων γνωρίζετε, ακριβείς, πλήρεις και επίκαιρες</li>
+        <li>Μας παραχωρείτε μη αποκλειστικό, παγκόσμιο, χωρίς αντάλλαγμα, διαρκές και αμετάκλητο δικαίωμα να χρησιμοποιούμε, αναπαράγουμε, τροποποιούμε, προσαρμόζουμε, δημοσιεύουμε, μεταφράζουμε και διανέμουμε το περιεχόμενο που υποβάλλετε</li>
+        <li>Κατανοείτε ότι διατηρούμε το δικαίωμα να επεξεργαστούμε, να αφαιρέσουμε ή να μην δημοσιεύσουμε οποιαδήποτε υποβολή κατά την απόλυτη κρίση μας</li>
+      </ul>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">6.2 Συμβουλές και Σχόλια Χρηστών</h3>
+      <p className="mb-4">
+        Όταν υποβάλλετε «Συμβουλές» ή άλλα σχόλια για τοποθεσίες:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>Συμφωνείτε να μην υποβάλλετε περιεχόμενο παράνομο, δυσφημιστικό, παρενοχλητικό, απειλητικό ή με άλλο τρόπο ακατάλληλο</li>
+        <li>Κατανοείτε ότι οι υποβολές σας δεν είναι εμπιστευτικές και μπορεί να τις δουν άλλοι χρήστες</li>
+        <li>Αποδέχεστε ότι μπορεί να χρησιμοποιήσουμε τα σχόλιά σας για να βελτιώσουμε τις Υπηρεσίες μας</li>
+      </ul>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">7. Δικαιώματα Πνευματικής Ιδιοκτησίας</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">7.1 Το Περιεχόμενό μας</h3>
+      <p className="mb-4">
+        Οι Υπηρεσίες, συμπεριλαμβανομένων όλων των κειμένων, γραφικών, διεπαφών χρήστη, φωτογραφιών, εμπορικών σημάτων, λογοτύπων, βίντεο, ήχων,
+        μουσικής, έργων τέχνης, κώδικα και άλλου υλικού που περιέχουν (συλλογικά το «Περιεχόμενο»), ανήκουν στο PameKids ή ελέγχονται ή
+        παραχωρούνται με άδεια σε αυτό και προστατεύονται από τους νόμους για την πνευματική ιδιοκτησία και τα εμπορικά σήματα. Εκτός αν ορίζεται ρητά στους
+        Όρους, κανένα μέρος των Υπηρεσιών ή του Περιεχομένου δεν επιτρέπεται να αντιγραφεί, αναπαραχθεί, αναδημοσιευθεί, μεταφορτωθεί, αναρτηθεί, προβληθεί δημόσια,
+        κωδικοποιηθεί, μεταφραστεί, μεταδοθεί ή διανεμηθεί με οποιονδήποτε τρόπο σε άλλο υπολογιστή, διακομιστή, ιστότοπο ή μέσο για δημοσίευση
+        ή διανομή ή για εμπορική χρήση, χωρίς τη ρητή προηγούμενη γραπτή συναίνεσή μας.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">7.2 Περιορισμένη Άδεια</h3>
+      <p className="mb-4">
+        Εφόσον τηρείτε τους Όρους, σας παραχωρούμε περιορισμένη, μη αποκλειστική, μη μεταβιβάσιμη άδεια, χωρίς δικαίωμα υποαδειοδότησης,
+        για πρόσβαση και χρήση των Υπηρεσιών για προσωπική, μη εμπορική χρήση.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">8. Υπηρεσίες και Περιεχόμενο Τρίτων</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">8.1 Υπηρεσίες Τρίτων</h3>
+      <p className="mb-4">
+        Οι Υπηρεσίες μας μπορεί να συνδέονται με ιστότοπους, εφαρμογές ή υπηρεσίες τρίτων (όπως το Google Maps) ή να περιέχουν συνδέσμους προς αυτές.
+        Δεν ελέγχουμε και δεν ευθυνόμαστε για το περιεχόμενο ή τις πρακτικές αυτών των τρίτων. Παρέχουμε τους συνδέσμους αποκλειστικά
+        για τη διευκόλυνσή σας και η ύπαρξή τους δεν σημαίνει ότι υποστηρίζουμε τον ιστότοπο ή την υπηρεσία.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">8.2 Πληροφορίες Τοποθεσιών</h3>
+      <p className="mb-4">
+        Οι πληροφορίες για δραστηριότητες και χώρους στην πλατφόρμα μας συλλέγονται από διάφορες πηγές, όπως υποβολές χρηστών
+        και δημόσια δεδομένα. Αν και προσπαθούμε να είναι ακριβείς, δεν εγγυόμαστε ότι είναι πλήρεις, αξιόπιστες
+        ή επίκαιρες. Επιβεβαιώνετε πάντα τις σημαντικές πληροφορίες (όπως ωράριο, τιμές και στοιχεία επικοινωνίας) απευθείας με τον
+        χώρο πριν από την επίσκεψή σας.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">9. Αποποίηση Ευθυνών και Περιορισμός Ευθύνης</h2>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">9.1 Αποποίηση Εγγυήσεων</h3>
+      <p className="mb-4">
+        ΟΙ ΥΠΗΡΕΣΙΕΣ ΠΑΡΕΧΟΝΤΑΙ «ΩΣ ΕΧΟΥΝ» ΚΑΙ «ΟΠΩΣ ΕΙΝΑΙ ΔΙΑΘΕΣΙΜΕΣ» ΧΩΡΙΣ ΚΑΜΙΑ ΕΓΓΥΗΣΗ, ΡΗΤΗ Ή ΣΙΩΠΗΡΗ, ΣΥΜΠΕΡΙΛΑΜΒΑΝΟΜΕΝΩΝ,
+        ΕΝΔΕΙΚΤΙΚΑ, ΤΩΝ ΣΙΩΠΗΡΩΝ ΕΓΓΥΗΣΕΩΝ ΕΜΠΟΡΕΥΣΙΜΟΤΗΤΑΣ, ΚΑΤΑΛΛΗΛΟΤΗΤΑΣ ΓΙΑ ΣΥΓΚΕΚΡΙΜΕΝΟ ΣΚΟΠΟ, ΤΙΤΛΟΥ ΚΑΙ ΜΗ ΠΑΡΑΒΙΑΣΗΣ.
+        ΔΕΝ ΕΓΓΥΟΜΑΣΤΕ ΟΤΙ ΟΙ ΥΠΗΡΕΣΙΕΣ ΘΑ ΛΕΙΤΟΥΡΓΟΥΝ ΧΩΡΙΣ ΔΙΑΚΟΠΕΣ, ΜΕ ΑΣΦΑΛΕΙΑ Ή ΧΩΡΙΣ ΣΦΑΛΜΑΤΑ, Ή ΟΤΙ ΤΥΧΟΝ ΕΛΑΤΤΩΜΑΤΑ ΘΑ ΔΙΟΡΘΩΘΟΥΝ.
+      </p>
+
+      <h3 className="text-xl font-semibold mt-6 mb-2">9.2 Περιορισμός Ευθύνης</h3>
+      <p className="mb-4">
+        ΣΤΟ ΜΕΓΙΣΤΟ ΒΑΘΜΟ ΠΟΥ ΕΠΙΤΡΕΠΕΙ Ο ΝΟΜΟΣ, ΤΟ PAMEKIDS ΔΕΝ ΕΥΘΥΝΕΤΑΙ ΓΙΑ ΟΠΟΙΑΔΗΠΟΤΕ ΕΜΜΕΣΗ, ΠΡΟΣΘΕΤΗ, ΕΙΔΙΚΗ, ΑΠΟΘΕΤΙΚΗ
+        Ή ΤΙΜΩΡΗΤΙΚΗ ΖΗΜΙΑ, Ή ΓΙΑ ΑΠΩΛΕΙΑ ΚΕΡΔΩΝ Ή ΕΣΟΔΩΝ, ΑΜΕΣΗ Ή ΕΜΜΕΣΗ, Ή ΓΙΑ ΑΠΩΛΕΙΑ ΔΕΔΟΜΕΝΩΝ, ΧΡΗΣΗΣ,
+        ΦΗΜΗΣ Ή ΑΛΛΗ ΑΫΛΗ ΖΗΜΙΑ, ΠΟΥ ΠΡΟΚΥΠΤΕΙ ΑΠΟ:
+      </p>
+      <ul className="list-disc pl-8 mb-4">
+        <li>ΤΗΝ ΠΡΟΣΒΑΣΗ Ή ΤΗ ΧΡΗΣΗ ΤΩΝ ΥΠΗΡΕΣΙΩΝ Ή ΤΗΝ ΑΔΥΝΑΜΙΑ ΠΡΟΣΒΑΣΗΣ Ή ΧΡΗΣΗΣ ΤΟΥΣ</li>
+        <li>ΟΠΟΙΑΔΗΠΟΤΕ ΣΥΜΠΕΡΙΦΟΡΑ Ή ΠΕΡΙΕΧΟΜΕΝΟ ΤΡΙΤΩΝ ΣΤΙΣ ΥΠΗΡΕΣΙΕΣ</li>
+        <li>ΟΠΟΙΟΔΗΠΟΤΕ ΠΕΡΙΕΧΟΜΕΝΟ ΛΑΜΒΑΝΕΤΑΙ ΑΠΟ ΤΙΣ ΥΠΗΡΕΣΙΕΣ</li>
+        <li>ΜΗ ΕΞΟΥΣΙΟΔΟΤΗΜΕΝΗ ΠΡΟΣΒΑΣΗ, ΧΡΗΣΗ Ή ΑΛΛΟΙΩΣΗ ΤΩΝ ΜΕΤΑΔΟΣΕΩΝ Ή ΤΟΥ ΠΕΡΙΕΧΟΜΕΝΟΥ ΣΑΣ</li>
+      </ul>
+      <p className="mb-4">
+        ΣΕ ΚΑΜΙΑ ΠΕΡΙΠΤΩΣΗ Η ΣΥΝΟΛΙΚΗ ΜΑΣ ΕΥΘΥΝΗ ΑΠΕΝΑΝΤΙ ΣΑΣ ΓΙΑ ΟΛΕΣ ΤΙΣ ΑΞΙΩΣΕΙΣ ΣΧΕΤΙΚΑ ΜΕ ΤΙΣ ΥΠΗΡΕΣΙΕΣ ΔΕΝ ΘΑ ΥΠΕΡΒΑΙΝΕΙ ΤΟ ΠΟΣΟ ΠΟΥ ΚΑΤΑΒΑΛΑΤΕ ΣΤΟ PAMEKIDS,
+        ΑΝ ΥΠΑΡΧΕΙ, ΓΙΑ ΠΡΟΣΒΑΣΗ Ή ΧΡΗΣΗ ΤΩΝ ΥΠΗΡΕΣΙΩΝ ΤΟΥΣ ΔΩΔΕΚΑ (12) ΜΗΝΕΣ ΠΡΙΝ ΑΠΟ ΤΟ ΓΕΓΟΝΟΣ ΠΟΥ ΓΕΝΝΗΣΕ ΤΗΝ ΕΥΘΥΝΗ.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">10. Αποζημίωση</h2>
+      <p className="mb-4">
+        Συμφωνείτε να υπερασπιστείτε, να αποζημιώσετε και να απαλλάξετε το PameKids και τα στελέχη, τους διευθυντές, τους υπαλλήλους και τους αντιπροσώπους του από
+        κάθε αξίωση, ευθύνη, ζημία, απώλεια και δαπάνη, συμπεριλαμβανομένων ενδεικτικά των εύλογων νομικών και λογιστικών εξόδων,
+        που προκύπτει από ή σχετίζεται με την πρόσβαση ή τη χρήση των Υπηρεσιών, την παραβίαση των Όρων ή την
+        παραβίαση δικαιωμάτων τρίτων.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">11. Αλλαγές στους Όρους</h2>
+      <p className="mb-4">
+        Διατηρούμε το δικαίωμα να τροποποιούμε τους Όρους οποιαδήποτε στιγμή. Αν κάνουμε ουσιαστικές αλλαγές, θα σας ενημερώσουμε
+        μέσω των Υπηρεσιών ή με άλλο τρόπο. Η συνέχιση της χρήσης των Υπηρεσιών μετά την έναρξη ισχύος των αλλαγών σημαίνει ότι
+        αποδέχεστε τους αναθεωρημένους Όρους.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">12. Τερματισμός</h2>
+      <p className="mb-4">
+        Μπορούμε να τερματίσουμε ή να αναστείλουμε την πρόσβασή σας σε όλες ή σε μέρος των Υπηρεσιών, χωρίς ειδοποίηση, για οποιαδήποτε συμπεριφορά που κατά την απόλυτη
+        κρίση μας παραβιάζει τους Όρους ή βλάπτει άλλους χρήστες των Υπηρεσιών ή τρίτους, ή για οποιονδήποτε άλλο λόγο.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">13. Εφαρμοστέο Δίκαιο και Δικαιοδοσία</h2>
+      <p className="mb-4">
+        Οι Όροι διέπονται και ερμηνεύονται σύμφωνα με το ελληνικό δίκαιο, χωρίς να λαμβάνονται υπόψη οι διατάξεις περί σύγκρουσης νόμων.
+        Συμφωνείτε να υπάγεστε στην αποκλειστική δικαιοδοσία των δικαστηρίων της Αθήνας για την επίλυση κάθε
+        διαφοράς που προκύπτει από ή σχετίζεται με τους Όρους ή τις Υπηρεσίες.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">14. Διαιρετότητα</h2>
+      <p className="mb-4">
+        Αν οποιαδήποτε διάταξη των Όρων κριθεί άκυρη ή μη εκτελεστή, οι υπόλοιπες διατάξεις παραμένουν σε πλήρη ισχύ.
+        Η άκυρη ή μη εκτελεστή διάταξη αντικαθίσταται από έγκυρη και εκτελεστή διάταξη που προσεγγίζει περισσότερο τον σκοπό
+        της αρχικής διάταξης.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">15. Πλήρης Συμφωνία</h2>
+      <p className="mb-4">
+        Οι Όροι, μαζί με την Πολιτική Απορρήτου μας, αποτελούν την πλήρη συμφωνία ανάμεσα σε εσάς και το PameKids σχετικά με τη χρήση των
+        Υπηρεσιών και αντικαθιστούν κάθε προηγούμενη συμφωνία ανάμεσα σε εσάς και το PameKids σχετικά με τη χρήση των Υπηρεσιών.
+      </p>
+
+      <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">16. Στοιχεία Επικοινωνίας</h2>
+      <p className="mb-4">
+        Για οποιαδήποτε ερώτηση σχετικά με τους Όρους, επικοινωνήστε μαζί μας στο:
+        <br />
+        <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
+          info@pamekids.com
+        </a>
+      </p>
+
+      <p className="mt-8 mb-4">
+        <Link to="/" className="text-blue-500 hover:text-blue-700">
+          Επιστροφή στην Αρχική
+        </Link>
+      </p>
+    </div>
+  )
+};
 
 const TermsOfService: React.FC = () => {
+  const { language, t } = useLanguage();
+  const TermsContent = TERMS_CONTENT[language];
+
   return (
     <div className="min-h-screen flex flex-col">
       <SEO pageType="terms" />
@@ -18,218 +451,9 @@ const TermsOfService: React.FC = () => {
       
       <main className="flex-1 bg-white">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-          <h1 className="text-3xl font-bold text-blue-500 mb-8">Terms of Service</h1>
+          <h1 className="text-3xl font-bold text-blue-500 mb-8">{t('legal.termsTitle')}</h1>
           
-          <div className="prose prose-blue max-w-none">
-            <p className="mb-4">
-              Last Updated: March 31, 2025
-            </p>
-            
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">1. Introduction</h2>
-            <p className="mb-4">
-              Welcome to PameKids ("we," "our," or "us"). PameKids is a platform that helps parents discover children's activities in Greece. 
-              By accessing or using our website, mobile application, or any other services provided by PameKids (collectively, the "Services"), 
-              you agree to be bound by these Terms of Service ("Terms").
-            </p>
-            <p className="mb-4">
-              These Terms constitute a legally binding agreement between you and PameKids. If you do not agree with these Terms, 
-              please do not access or use our Services.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">2. Service Description</h2>
-            <p className="mb-4">
-              PameKids provides a map-based interface displaying information about various children's activities including indoor play centers, 
-              outdoor activities, sports facilities, educational programs, and entertainment venues in Greece. Our platform allows users to:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>Browse and search for activities based on location, category, age range, and price</li>
-              <li>View detailed information about each activity, including descriptions, hours, contact information, and photos</li>
-              <li>Submit suggestions for new activities</li>
-              <li>Report issues or updates regarding existing listings</li>
-              <li>Subscribe to our newsletter for updates on activities</li>
-            </ul>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">3. User Eligibility</h2>
-            <p className="mb-4">
-              Our Services are intended for use by parents, guardians, and other adults seeking information about children's activities. 
-              By using our Services, you represent and warrant that you are at least 18 years old and have the legal capacity to enter into these Terms.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">4. User Account and Privacy</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">4.1 Location Data</h3>
-            <p className="mb-4">
-              Our Services may request access to your device's location information to provide location-based services. 
-              You can control this permission through your device settings. We collect and process location data in accordance with our Privacy Policy.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">4.2 Newsletter Subscription</h3>
-            <p className="mb-4">
-              If you choose to subscribe to our newsletter, you agree to receive periodic communications from us. 
-              You can unsubscribe at any time by following the unsubscribe instructions provided in the communication or by contacting us directly.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">4.3 Privacy Policy</h3>
-            <p className="mb-4">
-              Your use of our Services is also governed by our Privacy Policy, which describes our practices regarding the collection, 
-              use, and disclosure of your personal information. By using our Services, you also consent to the practices described in our Privacy Policy.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">5. User Conduct</h2>
-            <p className="mb-4">
-              When using our Services, you agree not to:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>Use the Services for any illegal purpose or in violation of any local, state, national, or international law</li>
-              <li>Violate or infringe the rights of others, including their intellectual property, privacy, or contractual rights</li>
-              <li>Interfere with or disrupt the Services or servers or networks connected to the Services</li>
-              <li>Attempt to gain unauthorized access to any portion of the Services or any systems or networks connected to the Services</li>
-              <li>Use the Services to transmit any virus, worm, or other malicious code</li>
-              <li>Use the Services to collect or harvest any information about other users</li>
-              <li>Use the Services to send unsolicited communications, promotions, or advertisements</li>
-              <li>Impersonate any person or entity or falsely state or misrepresent your affiliation with a person or entity</li>
-              <li>Submit false, misleading, or inappropriate content to our platform</li>
-            </ul>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">6. User Submissions</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">6.1 Activity Suggestions and Reports</h3>
-            <p className="mb-4">
-              When you submit activity suggestions or report issues through our platform, you:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>Represent that the information you provide is accurate, complete, and up-to-date to the best of your knowledge</li>
-              <li>Grant us a non-exclusive, worldwide, royalty-free, perpetual, irrevocable right to use, reproduce, modify, adapt, publish, translate, and distribute the content you submit</li>
-              <li>Understand that we reserve the right to edit, remove, or decline to publish any submission at our sole discretion</li>
-            </ul>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">6.2 Pro Tips and User Feedback</h3>
-            <p className="mb-4">
-              When you submit "Pro Tips" or other feedback about locations:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>You agree not to submit content that is unlawful, defamatory, harassing, threatening, or otherwise objectionable</li>
-              <li>You understand that your submissions are not confidential and may be viewed by other users</li>
-              <li>You acknowledge that we may use your feedback to improve our Services</li>
-            </ul>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">7. Intellectual Property Rights</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">7.1 Our Content</h3>
-            <p className="mb-4">
-              The Services, including all text, graphics, user interfaces, visual interfaces, photographs, trademarks, logos, videos, sounds, 
-              music, artwork, computer code, and other materials contained therein (collectively, "Content"), are owned, controlled, or licensed 
-              by or to PameKids and are protected by copyright, trademark, and other intellectual property laws. Except as expressly provided in 
-              these Terms, no part of the Services and no Content may be copied, reproduced, republished, uploaded, posted, publicly displayed, 
-              encoded, translated, transmitted, or distributed in any way to any other computer, server, website, or other medium for publication 
-              or distribution or for any commercial enterprise, without our express prior written consent.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">7.2 Limited License</h3>
-            <p className="mb-4">
-              Subject to your compliance with these Terms, we grant you a limited, non-exclusive, non-transferable, non-sublicensable license 
-              to access and use the Services for your personal, non-commercial use.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">8. Third-Party Services and Content</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">8.1 Third-Party Services</h3>
-            <p className="mb-4">
-              Our Services may integrate with or contain links to third-party websites, applications, or services (such as Google Maps). 
-              We do not control and are not responsible for the content or practices of these third parties. We provide these links solely 
-              for your convenience, and the inclusion of any link does not imply our endorsement of the linked site or service.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">8.2 Location Information</h3>
-            <p className="mb-4">
-              The information about activities and venues displayed on our platform is collected from various sources, including user submissions 
-              and public data. While we strive to ensure the accuracy of this information, we make no guarantees about its completeness, reliability, 
-              or currentness. You should always verify critical information (such as opening hours, prices, and contact details) directly with the 
-              venue before planning your visit.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">9. Disclaimers and Limitation of Liability</h2>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">9.1 Disclaimer of Warranties</h3>
-            <p className="mb-4">
-              THE SERVICES ARE PROVIDED "AS IS" AND "AS AVAILABLE" WITHOUT WARRANTIES OF ANY KIND, EITHER EXPRESS OR IMPLIED, INCLUDING, 
-              BUT NOT LIMITED TO, IMPLIED WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE, TITLE, AND NON-INFRINGEMENT. 
-              WE DO NOT GUARANTEE THAT THE SERVICES WILL BE UNINTERRUPTED, SECURE, OR ERROR-FREE, OR THAT ANY DEFECTS WILL BE CORRECTED.
-            </p>
-            
-            <h3 className="text-xl font-semibold mt-6 mb-2">9.2 Limitation of Liability</h3>
-            <p className="mb-4">
-              TO THE FULLEST EXTENT PERMITTED BY LAW, PAMEKIDS SHALL NOT BE LIABLE FOR ANY INDIRECT, INCIDENTAL, SPECIAL, CONSEQUENTIAL, 
-              OR PUNITIVE DAMAGES, OR ANY LOSS OF PROFITS OR REVENUES, WHETHER INCURRED DIRECTLY OR INDIRECTLY, OR ANY LOSS OF DATA, USE, 
-              GOODWILL, OR OTHER INTANGIBLE LOSSES, RESULTING FROM:
-            </p>
-            <ul className="list-disc pl-8 mb-4">
-              <li>YOUR ACCESS TO OR USE OF OR INABILITY TO ACCESS OR USE THE SERVICES</li>
-              <li>ANY CONDUCT OR CONTENT OF ANY THIRD PARTY ON THE SERVICES</li>
-              <li>ANY CONTENT OBTAINED FROM THE SERVICES</li>
-              <li>UNAUTHORIZED ACCESS, USE OR ALTERATION OF YOUR TRANSMISSIONS OR CONTENT</li>
-            </ul>
-            <p className="mb-4">
-              IN NO EVENT SHALL OUR TOTAL LIABILITY TO YOU FOR ALL CLAIMS RELATED TO THE SERVICES EXCEED THE AMOUNT PAID BY YOU TO PAMEKIDS, 
-              IF ANY, FOR ACCESS TO OR USE OF THE SERVICES DURING THE TWELVE (12) MONTHS PRIOR TO THE EVENT GIVING RISE TO THE LIABILITY.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">10. Indemnification</h2>
-            <p className="mb-4">
-              You agree to defend, indemnify, and hold harmless PameKids and its officers, directors, employees, and agents from and against 
-              any claims, liabilities, damages, losses, and expenses, including, without limitation, reasonable legal and accounting fees, 
-              arising out of or in any way connected with your access to or use of the Services, your violation of these Terms, or your 
-              violation of any rights of another.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">11. Changes to Terms</h2>
-            <p className="mb-4">
-              We reserve the right to modify these Terms at any time. If we make material changes to these Terms, we will provide notice 
-              through our Services or by other means. Your continued use of the Services after the changes take effect constitutes your 
-              acceptance of the revised Terms.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">12. Termination</h2>
-            <p className="mb-4">
-              We may terminate or suspend your access to all or part of the Services, without notice, for any conduct that we, in our sole 
-              discretion, believe violates these Terms or is harmful to other users of the Services or third parties, or for any other reason.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">13. Governing Law and Jurisdiction</h2>
-            <p className="mb-4">
-              These Terms shall be governed by and construed in accordance with the laws of Greece, without regard to its conflict of law provisions. 
-              You agree to submit to the personal and exclusive jurisdiction of the courts located in Athens, Greece for the resolution of any 
-              disputes arising out of or relating to these Terms or the Services.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">14. Severability</h2>
-            <p className="mb-4">
-              If any provision of these Terms is held to be invalid or unenforceable, the remaining provisions shall remain in full force and effect. 
-              The invalid or unenforceable provision shall be replaced by a valid and enforceable provision that comes closest to the intention 
-              underlying the invalid provision.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">15. Entire Agreement</h2>
-            <p className="mb-4">
-              These Terms, together with our Privacy Policy, constitute the entire agreement between you and PameKids regarding your use of the 
-              Services and supersede any prior agreements between you and PameKids relating to your use of the Services.
-            </p>
-
-            <h2 className="text-2xl font-semibold text-blue-500 mt-8 mb-4">16. Contact Information</h2>
-            <p className="mb-4">
-              If you have any questions about these Terms, please contact us at:
-              <br />
-              <a href="mailto:info@pamekids.com" className="text-blue-500 hover:text-blue-700">
-                info@pamekids.com
-              </a>
-            </p>
-            
-            <p className="mt-8 mb-4">
-              <Link to="/" className="text-blue-500 hover:text-blue-700">
-                Return to Home
-              </Link>
-            </p>
-          </div>
+          <TermsContent />
         </div>
       </main>
       
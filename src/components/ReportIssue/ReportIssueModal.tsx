@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { CheckCircle } from 'lucide-react';
 import ModalWrapper from '../common/ModalWrapper';
+import { useLocations } from '../../contexts/LocationsContext';
+import { SuggestedEditField } from '../../types/report';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DAYS_OF_WEEK } from '../../utils/opening-hours';
+import { TranslationKey } from '../../utils/i18n';
+import {
+  SuggestedEditValues,
+  appendProTip,
+  buildSuggestedEdit
+} from '../../utils/suggested-edits';
 
 interface ReportIssueModalProps {
   isOpen: boolean;
@@ -16,6 +26,13 @@ interface FormData {
   email: string;
 }
 
+type FormErrors = Partial<Record<keyof FormData | 'suggestedEdit', string>>;
+
+// Details a visitor can propose new values for with an "Update Location Details" report
+const DETAIL_EDIT_FIELDS: SuggestedEditField[] = ['openingHours', 'ageRange', 'priceRange'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200';
+
 const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
   isOpen,
   onClose,
@@ -28,7 +45,13 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
     description: '',
     email: ''
   });
-  const [errors, setErrors] = useState<Partial<Record<keyof FormData, string>>>({});
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [editFields, setEditFields] = useState<SuggestedEditField[]>([]);
+  const [proposed, setProposed] = useState<SuggestedEditValues>({});
+  const [addTipToListing, setAddTipToListing] = useState(true);
+  const { allLocations } = useLocations();
+  const { t } = useLanguage();
+  const location = allLocations.find(loc => loc.id === locationId);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [submitMessage, setSubmitMessage] = useState('');
@@ -42,6 +65,9 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
         email: ''
       });
       setErrors({});
+      setEditFields([]);
+      setProposed({});
+      setAddTipToListing(true);
       setSubmitStatus('idle');
       setSubmitMessage('');
     }
@@ -57,17 +83,80 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
     }
   };
 
+  const setProposedValue = <K extends SuggestedEditField>(field: K, value: SuggestedEditValues[K]) => {
+    setProposed(prev => ({ ...prev, [field]: value }));
+    if (errors.suggestedEdit) {
+      setErrors(prev => ({ ...prev, suggestedEdit: '' }));
+    }
+  };
+
+  // Opening a field starts from the listing's current value so only real changes end up in the diff
+  const toggleEditField = (field: SuggestedEditField) => {
+    if (!location) return;
+
+    if (editFields.includes(field)) {
+      setEditFields(prev => prev.filter(f => f !== field));
+      setProposed(prev => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    setEditFields(prev => [...prev, field]);
+    if (field === 'openingHours') {
+      const openingHours: Record<string, string> = {};
+      DAYS_OF_WEEK.forEach(day => {
+        openingHours[day] = location.openingHours?.[day] || '';
+      });
+      setProposedValue('openingHours', openingHours);
+    } else if (field === 'ageRange') {
+      setProposedValue('ageRange', { ...location.ageRange });
+    } else if (field === 'priceRange') {
+      setProposedValue('priceRange', location.priceRange || '');
+    }
+  };
+
+  // The structured changes sent with the report, as a diff against the listing
+  const getSuggestedEdit = () => {
+    if (!location) return {};
+
+    const values: SuggestedEditValues = {};
+    if (formData.issueType === 'incorrect-info') {
+      editFields.forEach(field => {
+        // "Not sure" about the price leaves it as it is
+        if (field === 'priceRange' && !proposed.priceRange) return;
+        Object.assign(values, { [field]: proposed[field] });
+      });
+    } else if (formData.issueType === 'pro-tips' && addTipToListing && formData.description.trim()) {
+      values.proTips = appendProTip(location.proTips, formData.description);
+    }
+
+    return buildSuggestedEdit(location, values);
+  };
+
   const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof FormData, string>> = {};
+    const newErrors: FormErrors = {};
+    const hasSuggestedEdit = Object.keys(getSuggestedEdit()).length > 0;
     
-    if (!formData.description.trim()) {
-      newErrors.description = 'Please describe the update or issue';
+    if (!formData.description.trim() && !hasSuggestedEdit) {
+      newErrors.description = t('report.errors.description');
     } else if (formData.description.length > 2000) {
-      newErrors.description = 'Description must be 2,000 characters or less';
+      newErrors.description = t('suggest.errors.descriptionLength');
     }
 
     if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('newsletter.errors.emailInvalid');
+    }
+
+    const ageRange = formData.issueType === 'incorrect-info' && editFields.includes('ageRange') ? proposed.ageRange : undefined;
+    if (ageRange) {
+      const isAge = (age: number) => Number.isInteger(age) && age >= 0 && age <= 18;
+      if (!isAge(ageRange.min) || !isAge(ageRange.max)) {
+        newErrors.suggestedEdit = t('report.errors.ages');
+      } else if (ageRange.min > ageRange.max) {
+        newErrors.suggestedEdit = t('report.errors.ageOrder');
+      }
     }
 
     setErrors(newErrors);
@@ -86,11 +175,13 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
     setSubmitMessage('');
   
     try {
-      // Prepare report data (same as before)
+      // Prepare report data, with any structured changes as a diff against the listing
+      const suggestedEdit = getSuggestedEdit();
       const reportData = {
         ...formData,
         locationId,
-        locationName
+        locationName,
+        ...(Object.keys(suggestedEdit).length > 0 ? { suggestedEdit } : {})
       };
   
       // Submit to Netlify function endpoint (now using Firebase)
@@ -107,12 +198,13 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
       // Check for errors with improved Firebase error handling
       if (!response.ok) {
         // Handle specific Firebase errors if any
-        throw new Error(data.error || 'Failed to submit report');
+        const details = data.fieldErrors ? `: ${Object.values(data.fieldErrors).join('. ')}` : '';
+        throw new Error(`${data.error || t('report.errors.failed')}${details}`);
       }
   
       // Success - this should work the same with Firebase
       setSubmitStatus('success');
-      setSubmitMessage('Thank you! Our team will review your submission soon!');
+      setSubmitMessage(t('suggest.success'));
       
       // Reset form after submission
       setFormData({
@@ -120,6 +212,8 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
         description: '',
         email: ''
       });
+      setEditFields([]);
+      setProposed({});
   
       // Close modal after 3 seconds
       setTimeout(() => {
@@ -130,7 +224,7 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
     } catch (error) {
       console.error('Error submitting report:', error);
       setSubmitStatus('error');
-      setSubmitMessage(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+      setSubmitMessage(error instanceof Error ? error.message : t('common.unexpectedError'));
     } finally {
       setIsSubmitting(false);
     }
@@ -140,10 +234,10 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
     <ModalWrapper
       isOpen={isOpen}
       onClose={onClose}
-      title="Submit Update / Report Issue"
+      title={t('report.title')}
     >
       <p className="text-gray-600 mb-4">
-        Help us improve the information for <strong>{locationName}</strong> by providing your feedback.
+        {t('report.introBefore')} <strong>{locationName}</strong> {t('report.introAfter')}
       </p>
 
       {submitStatus === 'success' ? (
@@ -171,7 +265,7 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
         <div className="space-y-4">
           <div>
             <label htmlFor="issueType" className="block text-sm font-medium text-gray-700 mb-1">
-              Submission Type *
+              {t('report.type')}
             </label>
             <select
               id="issueType"
@@ -180,17 +274,17 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
             >
-              <option value="pro-tips">Submit Pro Tip</option>
-              <option value="incorrect-info">Update Location Details</option>
-              <option value="closed-location">Location Closed/Moved</option>
-              <option value="inappropriate-content">Inappropriate Content</option>
-              <option value="other">Other</option>
+              <option value="pro-tips">{t('report.types.proTips')}</option>
+              <option value="incorrect-info">{t('report.types.incorrectInfo')}</option>
+              <option value="closed-location">{t('report.types.closed')}</option>
+              <option value="inappropriate-content">{t('report.types.inappropriate')}</option>
+              <option value="other">{t('report.types.other')}</option>
             </select>
           </div>
 
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
-              Description *
+              {t('report.description')} {formData.issueType === 'incorrect-info' && editFields.length > 0 ? t('report.optional') : '*'}
             </label>
             <textarea
               id="description"
@@ -202,17 +296,124 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.description ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="Please describe the update or issue in detail"
+              placeholder={t('report.descriptionPlaceholder')}
             ></textarea>
             <p className="mt-1 text-xs text-gray-500">
-              {formData.description.length}/2,000 characters
+              {t('suggest.characterCount', { count: formData.description.length })}
             </p>
             {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description}</p>}
           </div>
 
+          {/* Pro tips can go straight onto the listing once an admin accepts them */}
+          {location && formData.issueType === 'pro-tips' && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={addTipToListing}
+                onChange={(e) => setAddTipToListing(e.target.checked)}
+                className="mt-1"
+              />
+              <span>{t('report.addTip')}</span>
+            </label>
+          )}
+
+          {/* Structured changes - shown to the admin side by side with the current details */}
+          {location && formData.issueType === 'incorrect-info' && (
+            <div className="space-y-3">
+              <p className="block text-sm font-medium text-gray-700">{t('report.whatChanges')}</p>
+              <div className="flex flex-wrap gap-2">
+                {DETAIL_EDIT_FIELDS.map(field => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => toggleEditField(field)}
+                    aria-pressed={editFields.includes(field)}
+                    className={`px-3 py-1 text-sm rounded-full border ${
+                      editFields.includes(field)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {t(`report.fields.${field}` as TranslationKey)}
+                  </button>
+                ))}
+              </div>
+
+              {editFields.includes('openingHours') && proposed.openingHours && (
+                <fieldset className="space-y-2">
+                  <legend className="text-sm font-medium text-gray-700 mb-1">{t('report.fields.openingHours')}</legend>
+                  {DAYS_OF_WEEK.map(day => (
+                    <div key={day} className="flex items-center gap-2">
+                      <label htmlFor={`suggested-hours-${day}`} className="w-24 text-sm text-gray-600">{t(`days.${day}` as TranslationKey)}</label>
+                      <input
+                        id={`suggested-hours-${day}`}
+                        type="text"
+                        value={proposed.openingHours?.[day] || ''}
+                        onChange={(e) => setProposedValue('openingHours', { ...proposed.openingHours, [day]: e.target.value })}
+                        maxLength={100}
+                        placeholder={t('report.hoursPlaceholder')}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </fieldset>
+              )}
+
+              {editFields.includes('ageRange') && proposed.ageRange && (
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-700 mb-1">{t('report.fields.ageRange')}</legend>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      aria-label={t('report.minAge')}
+                      min={0}
+                      max={18}
+                      value={proposed.ageRange.min}
+                      onChange={(e) => setProposedValue('ageRange', { min: Number(e.target.value), max: proposed.ageRange?.max ?? 18 })}
+                      className={inputClassName}
+                    />
+                    <span className="text-gray-500">{t('report.to')}</span>
+                    <input
+                      type="number"
+                      aria-label={t('report.maxAge')}
+                      min={0}
+                      max={18}
+                      value={proposed.ageRange.max}
+                      onChange={(e) => setProposedValue('ageRange', { min: proposed.ageRange?.min ?? 0, max: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                    <span className="text-gray-500">{t('report.years')}</span>
+                  </div>
+                </fieldset>
+              )}
+
+              {editFields.includes('priceRange') && (
+                <div>
+                  <label htmlFor="suggested-price" className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('report.fields.priceRange')}
+                  </label>
+                  <select
+                    id="suggested-price"
+                    value={proposed.priceRange || ''}
+                    onChange={(e) => setProposedValue('priceRange', e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">{t('report.notSure')}</option>
+                    <option value="Free">{t('price.free')}</option>
+                    <option value="€">{t('report.priceBudget')}</option>
+                    <option value="€€">{t('report.priceModerate')}</option>
+                    <option value="€€€">{t('report.pricePremium')}</option>
+                  </select>
+                </div>
+              )}
+
+              {errors.suggestedEdit && <p className="mt-1 text-sm text-red-600">{errors.suggestedEdit}</p>}
+            </div>
+          )}
+
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-              Your Email (optional)
+              {t('suggest.email')}
             </label>
             <input
               type="email"
@@ -223,11 +424,11 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.email ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="your.email@example.com"
+              placeholder={t('newsletter.emailPlaceholder')}
             />
             {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
             <p className="mt-1 text-xs text-gray-500">
-              We'll only use this to contact you if we have questions about your report
+              {t('report.emailHelp')}
             </p>
           </div>
 
@@ -241,7 +442,7 @@ const ReportIssueModal: React.FC<ReportIssueModalProps> = ({
                   : 'bg-blue-600 hover:bg-blue-700'
                 }`}
             >
-              {isSubmitting ? 'Submitting...' : 'Submit Report'}
+              {isSubmitting ? t('newsletter.submitting') : t('report.submit')}
             </button>
           </div>
         </div>
@@ -7,13 +7,19 @@ import {
   TWITTER,
   LOGOS,
   BRAND,
-  PAGE_SEO
+  PAGE_SEO,
+  PAGE_SEO_EL
 } from '../../utils/metadata';
 import { injectSchemaOrgData } from '../../utils/schema';
 import { BlogPost } from '../../types/blog';
+import { Location } from '../../types/location';
+import { getPlaceImage, getPlacePath } from '../../utils/place-pages';
+import { LandingPage, getLandingPageSeo } from '../../utils/landing-pages';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { LANGUAGES, LANGUAGE_CONFIG, DEFAULT_LANGUAGE, getLanguageUrl, getLocalizedField } from '../../utils/i18n';
 
 // Define a type for page types to use in the SEO component
-export type PageType = 'home' | 'map' | 'blogIndex' | 'blogPost' | 'privacy' | 'terms' | 'admin' | 'custom';
+export type PageType = 'home' | 'map' | 'blogIndex' | 'blogPost' | 'place' | 'activityLanding' | 'areaLanding' | 'privacy' | 'terms' | 'newsletterPreferences' | 'admin' | 'custom';
 
 interface SEOProps {
   title?: string;
@@ -26,7 +32,10 @@ interface SEOProps {
   keywords?: string;
   pageType?: PageType; // New prop to specify which page type is being rendered
   blogPost?: BlogPost; // Optional blog post data for blog posts
-  schemaType?: 'application' | 'organization' | 'blog'; // Type of schema to inject
+  location?: Location; // Optional location data for place pages
+  placeSlug?: string; // Slug of the place page, required with location
+  landingPage?: LandingPage; // Page data for activity and area landing pages
+  schemaType?: 'application' | 'organization' | 'blog' | 'place'; // Type of schema to inject
 }
 
 /**
@@ -36,6 +45,11 @@ interface SEOProps {
  * 1. With pageType - <SEO pageType="home" /> - Uses predefined config from PAGE_SEO
  * 2. With custom values - <SEO title="Custom Title" description="Custom description" />
  * 3. For blog posts - <SEO pageType="blogPost" blogPost={post} />
+ * 4. For place pages - <SEO pageType="place" location={location} placeSlug={slug} />
+ * 5. For landing pages - <SEO pageType="areaLanding" landingPage={page} />
+ *
+ * Text comes from PAGE_SEO_EL and the translations of the post or location when the
+ * page is shown in Greek, and every indexable page links to its other languages.
  */
 const SEO: React.FC<SEOProps> = ({
   title,
@@ -48,32 +62,66 @@ const SEO: React.FC<SEOProps> = ({
   keywords,
   pageType = 'custom', // Default to custom if no page type is specified
   blogPost,
+  location,
+  placeSlug,
+  landingPage,
   schemaType = 'application'
 }) => {
+  const { language } = useLanguage();
+
+  // PAGE_SEO with the translated values on top
+  const getPageSeo = <K extends keyof typeof PAGE_SEO>(key: K): (typeof PAGE_SEO)[K] => ({
+    ...PAGE_SEO[key],
+    ...(language === 'el' ? PAGE_SEO_EL[key] : undefined)
+  });
+
   // Apply page-specific SEO settings based on pageType
   let pageConfig = {};
   
   if (pageType !== 'custom') {
     // Get the page-specific config
-    const config = PAGE_SEO[pageType];
+    const config = PAGE_SEO[pageType] ? getPageSeo(pageType) : undefined;
     
     if (config) {
       pageConfig = config;
       
       // For blog posts, we need special handling
       if (pageType === 'blogPost' && blogPost) {
+        const blogSeo = getPageSeo('blogPost');
         // Use blog post data for title, etc.
-        title = title || `${blogPost.title} | ${PAGE_SEO.blogPost.titleSuffix}`;
-        description = description || blogPost.summary;
+        title = title || `${getLocalizedField(blogPost, 'title', language)} | ${blogSeo.titleSuffix}`;
+        description = description || getLocalizedField(blogPost, 'summary', language);
         canonicalUrl = canonicalUrl || `${APP_URL}/blog/${blogPost.slug}`;
-        image = image || blogPost.mainImage?.url || PAGE_SEO.blogPost.fallbackImage;
-        imageAlt = imageAlt || blogPost.mainImage?.alt || PAGE_SEO.blogPost.fallbackImageAlt;
+        image = image || blogPost.mainImage?.url || blogSeo.fallbackImage;
+        imageAlt = imageAlt || blogPost.mainImage?.alt || blogSeo.fallbackImageAlt;
         type = 'article';
-        keywords = keywords || blogPost.tags?.join(', ') || PAGE_SEO.blogPost.keywords;
+        keywords = keywords || blogPost.tags?.join(', ') || blogSeo.keywords;
         
         // Update schema type for blog posts
         schemaType = 'blog';
       }
+      
+      // Place pages are built from the location's own name, description and photo
+      if (pageType === 'place' && location && placeSlug) {
+        const placeSeo = getPageSeo('place');
+        title = title || `${location.name} | ${placeSeo.titleSuffix}`;
+        description = description || getLocalizedField(location, 'description', language);
+        canonicalUrl = canonicalUrl || `${APP_URL}${getPlacePath(placeSlug)}`;
+        image = image || getPlaceImage(location) || placeSeo.fallbackImage;
+        imageAlt = imageAlt || location.name;
+        keywords = keywords || [location.name, placeSeo.keywords].join(', ');
+        
+        schemaType = 'place';
+      }
+      
+      // Landing pages fill the PAGE_SEO templates with the activity or area name
+      if ((pageType === 'activityLanding' || pageType === 'areaLanding') && landingPage) {
+        const landingSeo = getLandingPageSeo(landingPage, language);
+        title = title || landingSeo.title;
+        description = description || landingSeo.description;
+        canonicalUrl = canonicalUrl || landingSeo.canonicalUrl;
+        keywords = keywords || landingSeo.keywords;
+      }
     }
   }
   
@@ -90,9 +138,11 @@ const SEO: React.FC<SEOProps> = ({
     (pageConfig as any).keywords ||
     SEO_CONFIG.keywords;
     
-  const metaCanonicalUrl = canonicalUrl ||
+  // The same page in each language - the English URL has no ?lang
+  const pageUrl = canonicalUrl ||
     (pageConfig as any).canonicalUrl ||
     APP_URL;
+  const metaCanonicalUrl = getLanguageUrl(pageUrl, language);
   
   // Ensure metaImage is always an absolute URL (handle both relative and absolute paths)
   const metaImage = image
@@ -118,11 +168,14 @@ const SEO: React.FC<SEOProps> = ({
     if (blogPost && schemaType === 'blog') {
       // Inject blog post schema
       injectSchemaOrgData('blog', blogPost);
+    } else if (location && placeSlug && schemaType === 'place') {
+      // Inject the location's LocalBusiness or TouristAttraction schema
+      injectSchemaOrgData('place', { location, slug: placeSlug });
     } else {
       // Inject regular application or organization schema
       injectSchemaOrgData(schemaType);
     }
-  }, [blogPost, schemaType]);
+  }, [blogPost, location, placeSlug, schemaType]);
 
   return (
     <Helmet>
@@ -131,9 +184,18 @@ const SEO: React.FC<SEOProps> = ({
       <meta name="description" content={metaDescription} />
       <meta name="keywords" content={metaKeywords} />
       <meta name="author" content={SEO_CONFIG.author} />
-      <meta name="language" content={SEO_CONFIG.language} />
+      <html lang={language} />
+      <meta name="language" content={language} />
       <link rel="canonical" href={metaCanonicalUrl} />
       {metaNoIndex && <meta name="robots" content="noindex, nofollow" />}
+
+      {/* Alternate languages, so search engines show each visitor their own */}
+      {!metaNoIndex && LANGUAGES.map(alternate => (
+        <link rel="alternate" hrefLang={alternate} href={getLanguageUrl(pageUrl, alternate)} key={alternate} />
+      ))}
+      {!metaNoIndex && (
+        <link rel="alternate" hrefLang="x-default" href={getLanguageUrl(pageUrl, DEFAULT_LANGUAGE)} />
+      )}
       
       {/* Theme color and icons */}
       <meta name="theme-color" content={BRAND.primaryColor} />
@@ -160,7 +222,10 @@ const SEO: React.FC<SEOProps> = ({
       <meta property="og:image:height" content={OPEN_GRAPH.imageHeight} />
       <meta property="og:image:type" content="image/jpeg" />
       <meta property="og:site_name" content={OPEN_GRAPH.siteName} />
-      <meta property="og:locale" content={OPEN_GRAPH.locale} />
+      <meta property="og:locale" content={LANGUAGE_CONFIG[language].locale} />
+      {LANGUAGES.filter(alternate => alternate !== language).map(alternate => (
+        <meta property="og:locale:alternate" content={LANGUAGE_CONFIG[alternate].locale} key={alternate} />
+      ))}
 
       {/* Twitter */}
       <meta name="twitter:card" content={TWITTER.card} />
@@ -1,11 +1,14 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom';
 import { useNavigate } from 'react-router-dom';
 import { Search } from 'lucide-react';
 import { useMobile } from '../../contexts/MobileContext';
+import { useUserLocation } from '../../contexts/UserLocationContext';
 import { Location, ActivityType } from '../../types/location';
-import { performEnhancedSearch, SearchMatch } from '../../utils/search-utils';
+import { buildSearchIndex, performEnhancedSearch, SearchMatch } from '../../utils/search-utils';
 import { trackSearchQuery, trackSearchResultClick } from '../../utils/analytics';
+import { formatDistance } from '../../utils/geo';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface SearchBarProps {
   locations: Location[];
@@ -24,7 +27,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
   activityConfig,
   onLocationSelect,
   className = '',
-  placeholder = 'Search by name, activity, age...',
+  placeholder,
   activeFilters = [],
   selectedAge = null,
   expandedByDefault = false,
@@ -32,11 +35,17 @@ const SearchBar: React.FC<SearchBarProps> = ({
 }) => {
   const { isMobile } = useMobile();
   const navigate = useNavigate();
+  const { t } = useLanguage();
+  // Rank and label results by distance once the user has shared their location
+  const { userLocation, permissionStatus } = useUserLocation();
+  const searchOrigin = permissionStatus === 'granted' ? userLocation : null;
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<SearchMatch[]>([]);
   const [searchExpanded, setSearchExpanded] = useState(expandedByDefault || !isMobile);
   const searchRef = useRef<HTMLDivElement>(null);
   const lastTrackedSearchTermRef = useRef<string>("");
+  // Normalise the locations once rather than on every keystroke
+  const searchIndex = useMemo(() => buildSearchIndex(locations), [locations]);
 
   // Handle clicks outside the search component
   useEffect(() => {
@@ -68,7 +77,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
     // Short debounce for UI responsiveness
     const uiDebounceTimeout = setTimeout(() => {
       // Use our enhanced search function that understands activities and ages
-      const results = performEnhancedSearch(locations, searchTerm, activityConfig);
+      const results = performEnhancedSearch(searchIndex, searchTerm, activityConfig, searchOrigin);
       
       // Limit to first 10 results for better performance
       setSearchResults(results.slice(0, 10));
@@ -84,7 +93,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
         lastTrackedSearchTermRef.current = searchTerm;
         
         // Get fresh results for accurate count
-        const results = performEnhancedSearch(locations, searchTerm, activityConfig);
+        const results = performEnhancedSearch(searchIndex, searchTerm, activityConfig);
         
         // Track the search query with analytics
         trackSearchQuery(
@@ -100,7 +109,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
       clearTimeout(uiDebounceTimeout);
       clearTimeout(analyticsDebounceTimeout);
     };
-  }, [searchTerm, locations, activityConfig, activeFilters, selectedAge]);
+  }, [searchTerm, searchIndex, activityConfig, activeFilters, selectedAge, searchOrigin]);
 
   // Handle search result selection
   const handleResultSelect = (location: Location, index: number = 0) => {
@@ -109,7 +118,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
       // Force immediate tracking of the search term when a result is clicked
       if (searchTerm.trim().length >= 3 && searchTerm !== lastTrackedSearchTermRef.current) {
         // Get fresh results for accurate count
-        const results = performEnhancedSearch(locations, searchTerm, activityConfig);
+        const results = performEnhancedSearch(searchIndex, searchTerm, activityConfig);
         
         // Track the search immediately
         trackSearchQuery(
@@ -247,7 +256,10 @@ const SearchBar: React.FC<SearchBarProps> = ({
                 <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"></path>
                 <circle cx="12" cy="10" r="3"></circle>
               </svg>
-              {result.location.address}
+              <span className="truncate">{result.location.address}</span>
+              {result.distanceKm !== undefined && (
+                <span className="ml-2 flex-shrink-0 text-gray-500">{formatDistance(result.distanceKm)}</span>
+              )}
             </div>
             
             {/* Enhanced match information - show why this result matched */}
@@ -259,7 +271,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
                     <polyline points="22 4 12 14.01 9 11.01"></polyline>
                   </svg>
-                  Name match
+                  {t('search.nameMatch')}
                 </div>
               )}
               
@@ -272,7 +284,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <line x1="12" y1="6" x2="12" y2="2"></line>
                     <line x1="12" y1="22" x2="12" y2="18"></line>
                   </svg>
-                  Activity: {result.matchText}
+                  {t('search.activityMatch', { activity: result.matchText })}
                 </div>
               )}
               
@@ -284,7 +296,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <path d="M23 21v-2a4 4 0 0 0-3-3.87"></path>
                     <path d="M16 3.13a4 4 0 0 1 0 7.75"></path>
                   </svg>
-                  {result.matchText}
+                  {t('location.ages', { min: result.location.ageRange.min, max: result.location.ageRange.max })}
                 </div>
               )}
               
@@ -297,7 +309,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <line x1="16" y1="17" x2="8" y2="17"></line>
                     <polyline points="10 9 9 9 8 9"></polyline>
                   </svg>
-                  Matched description
+                  {t('search.descriptionMatch')}
                 </div>
               )}
               
@@ -307,7 +319,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"></path>
                     <circle cx="12" cy="10" r="3"></circle>
                   </svg>
-                  Matched address
+                  {t('search.addressMatch')}
                 </div>
               )}
               
@@ -318,7 +330,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
                     <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path>
                     <circle cx="9" cy="7" r="4"></circle>
                   </svg>
-                  Ages {result.location.ageRange.min}-{result.location.ageRange.max}
+                  {t('location.ages', { min: result.location.ageRange.min, max: result.location.ageRange.max })}
                 </div>
               )}
             </div>
@@ -355,7 +367,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
               setSearchExpanded(!searchExpanded);
             }}
             className={searchButtonClass}
-            aria-label={searchExpanded ? "Collapse search" : "Expand search"}
+            aria-label={searchExpanded ? t('search.collapse') : t('search.expand')}
           >
             <Search size={isMobile ? 16 : 18} className="text-white" strokeWidth={2.5} />
           </button>
@@ -364,7 +376,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
             <div className={`flex-1 transition-all ${isMobile ? 'ml-3 w-full' : 'ml-3 w-80'}`}>
               <input
                 type="text"
-                placeholder={placeholder}
+                placeholder={placeholder || t('search.placeholder')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className={`${isMobile ? 'w-full' : 'w-full'} px-4 py-2 rounded-3xl border border-[#d1d5db] focus:outline-none focus:ring-2 focus:ring-[#4679ea]`}
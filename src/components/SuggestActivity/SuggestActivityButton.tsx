@@ -1,19 +1,22 @@
 import React from 'react';
 import { PlusIcon } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface SuggestActivityButtonProps {
   onClick: () => void;
 }
 
 const SuggestActivityButton: React.FC<SuggestActivityButtonProps> = ({ onClick }) => {
+  const { t } = useLanguage();
+
   return (
     <button
       onClick={onClick}
       className="flex items-center justify-center px-3 py-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 transition-colors h-[40px]"
-      aria-label="Suggest an activity"
+      aria-label={t('suggest.button.label')}
     >
       <PlusIcon size={18} />
-      <span className="ml-2 hidden md:inline">Activity</span>
+      <span className="ml-2 hidden md:inline">{t('suggest.button.text')}</span>
     </button>
   );
 };
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { CheckCircle } from 'lucide-react';
 import { ActivityType } from '../../types/location';
 import ModalWrapper from '../common/ModalWrapper';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface SuggestActivityModalProps {
   isOpen: boolean;
@@ -22,6 +23,7 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
   onClose,
   activityTypes
 }) => {
+  const { t } = useLanguage();
   const [formData, setFormData] = useState<FormData>({
     name: '',
     type: 'indoor-play',
@@ -64,21 +66,21 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
     const newErrors: Partial<Record<keyof FormData, string>> = {};
     
     if (!formData.name.trim()) {
-      newErrors.name = 'Activity name is required';
+      newErrors.name = t('suggest.errors.name');
     }
 
     if (!formData.googleMapsLink.trim()) {
-      newErrors.googleMapsLink = 'Google Maps link is required';
+      newErrors.googleMapsLink = t('suggest.errors.linkRequired');
     } else if (!isValidUrl(formData.googleMapsLink)) {
-      newErrors.googleMapsLink = 'Please enter a valid URL';
+      newErrors.googleMapsLink = t('suggest.errors.linkInvalid');
     }
 
     if (formData.description.length > 2000) {
-      newErrors.description = 'Description must be 2,000 characters or less';
+      newErrors.description = t('suggest.errors.descriptionLength');
     }
 
     if (formData.email && !isValidEmail(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('newsletter.errors.emailInvalid');
     }
 
     setErrors(newErrors);
@@ -125,12 +127,12 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
   
       if (!response.ok) {
         // Improved error handling for Firebase
-        throw new Error(data.error || 'Failed to submit activity suggestion');
+        throw new Error(data.error || t('suggest.errors.failed'));
       }
   
       // Success - this should work the same with Firebase
       setSubmitStatus('success');
-      setSubmitMessage('Thank you! Our team will review your submission soon!');
+      setSubmitMessage(t('suggest.success'));
       
       // Reset form after submission
       setFormData({
@@ -150,7 +152,7 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
     } catch (error) {
       console.error('Error submitting activity suggestion:', error);
       setSubmitStatus('error');
-      setSubmitMessage(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+      setSubmitMessage(error instanceof Error ? error.message : t('common.unexpectedError'));
     } finally {
       setIsSubmitting(false);
     }
@@ -160,9 +162,9 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
     <ModalWrapper
       isOpen={isOpen}
       onClose={onClose}
-      title="Suggest an Activity"
+      title={t('suggest.title')}
     >
-      <p className="text-gray-600 mb-6">We want to learn about and add your favorite places and activities to PameKids!</p>
+      <p className="text-gray-600 mb-6">{t('suggest.intro')}</p>
 
       {submitStatus === 'success' ? (
         <div className="p-4 bg-green-50 text-green-800 rounded-lg mb-4 flex items-center z-modal-success-message">
@@ -179,7 +181,7 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
         <div className="space-y-4">
           <div>
             <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
-              Activity Name *
+              {t('suggest.name')}
             </label>
             <input
               type="text"
@@ -190,14 +192,14 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.name ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="e.g. City Park Playground"
+              placeholder={t('suggest.namePlaceholder')}
             />
             {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
           </div>
 
           <div>
             <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
-              Activity Type *
+              {t('suggest.type')}
             </label>
             <select
               id="type"
@@ -216,7 +218,7 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
 
           <div>
             <label htmlFor="googleMapsLink" className="block text-sm font-medium text-gray-700 mb-1">
-              Google Maps Link *
+              {t('suggest.link')}
             </label>
             <input
               type="url"
@@ -231,13 +233,13 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
             />
             {errors.googleMapsLink && <p className="mt-1 text-sm text-red-600">{errors.googleMapsLink}</p>}
             <p className="mt-1 text-xs text-gray-500">
-              Right-click on a location in Google Maps and select "Share" to get the link
+              {t('suggest.linkHelp')}
             </p>
           </div>
 
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
-              Tell us your Pro Tips and what you love about this place (optional)
+              {t('suggest.description')}
             </label>
             <textarea
               id="description"
@@ -249,17 +251,17 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.description ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="Brief description of the activity (max 2000 characters)"
+              placeholder={t('suggest.descriptionPlaceholder')}
             ></textarea>
             <p className="mt-1 text-xs text-gray-500">
-              {formData.description.length}/2,000 characters
+              {t('suggest.characterCount', { count: formData.description.length })}
             </p>
             {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description}</p>}
           </div>
 
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-              Your Email (optional)
+              {t('suggest.email')}
             </label>
             <input
               type="email"
@@ -270,11 +272,11 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
                 errors.email ? 'border-red-500 focus:ring-red-200' : 'border-gray-300 focus:ring-blue-200'
               }`}
-              placeholder="your.email@example.com"
+              placeholder={t('newsletter.emailPlaceholder')}
             />
             {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
             <p className="mt-1 text-xs text-gray-500">
-              We'll only use this to contact you if we have questions about your suggestion
+              {t('suggest.emailHelp')}
             </p>
           </div>
 
@@ -288,7 +290,7 @@ const SuggestActivityModal: React.FC<SuggestActivityModalProps> = ({
                   : 'bg-blue-600 hover:bg-blue-700'
                 }`}
             >
-              {isSubmitting ? 'Submitting...' : 'Submit Suggestion'}
+              {isSubmitting ? t('newsletter.submitting') : t('suggest.submit')}
             </button>
           </div>
         </div>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useConsent } from '../../contexts/ConsentContext';
 import { X, MapPin, BarChart2, Check, Settings } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface WelcomeModalProps {
   isOpen: boolean;
@@ -12,6 +13,7 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
     setHasShownWelcomeModal,
     updateAllConsent
   } = useConsent();
+  const { t } = useLanguage();
 
   // Local state for the consent form
   const [showCustomize, setShowCustomize] = useState(false);
@@ -49,14 +51,13 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
           <button
             onClick={onClose}
             className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
-            aria-label="Close"
+            aria-label={t('common.close')}
           >
             <X size={20} />
           </button>
-          <h2 className="text-2xl font-bold text-primary-800">Welcome to PameKids!</h2>
+          <h2 className="text-2xl font-bold text-primary-800">{t('welcome.title')}</h2>
           <p className="mt-1 text-gray-600">
-            We help parents discover amazing activities for children
-            in Greece, and we just need a couple things from you to get started.
+            {t('welcome.intro')}
           </p>
         </div>
 
@@ -69,9 +70,9 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                   <MapPin className="h-5 w-5 text-blue-500" />
                 </div>
                 <div className="ml-3">
-                  <h3 className="font-medium">Location Services</h3>
+                  <h3 className="font-medium">{t('welcome.locationTitle')}</h3>
                   <p className="text-sm text-gray-500">
-                    We use your location to show you nearby activities and provide accurate directions.
+                    {t('welcome.locationText')}
                   </p>
                 </div>
               </div>
@@ -81,9 +82,9 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                   <BarChart2 className="h-5 w-5 text-blue-500" />
                 </div>
                 <div className="ml-3">
-                  <h3 className="font-medium">Usage Analytics</h3>
+                  <h3 className="font-medium">{t('welcome.analyticsTitle')}</h3>
                   <p className="text-sm text-gray-500">
-                    We collect anonymous usage data to improve our app and make it more useful for families.
+                    {t('welcome.analyticsText')}
                   </p>
                 </div>
               </div>
@@ -96,26 +97,26 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                 className="w-full bg-blue-500 text-white rounded-lg px-4 py-2 font-medium hover:bg-blue-600 flex items-center justify-center"
               >
                 <Check size={18} className="mr-2" />
-                Accept All
+                {t('welcome.acceptAll')}
               </button>
               <button
                 onClick={() => setShowCustomize(true)}
                 className="w-full bg-white text-gray-500 border border-gray-300 rounded-lg px-4 py-2 font-medium hover:bg-gray-50 flex items-center justify-center"
               >
                 <Settings size={18} className="mr-2" />
-                Customize
+                {t('welcome.customize')}
               </button>
             </div>
             
             <p className="text-sm text-gray-500 mb-6">
-              By using PameKids, you agree to our <a href="/privacy" className="text-blue-500 hover:underline">Privacy Policy</a> and
-              <a href="/terms" className="text-blue-500 hover:underline"> Terms of Service</a>.
+              {t('welcome.agreeBefore')} <a href="/privacy" className="text-blue-500 hover:underline">{t('legal.privacyTitle')}</a> {t('welcome.agreeAnd')}
+              <a href="/terms" className="text-blue-500 hover:underline"> {t('legal.termsTitle')}</a>.
             </p>
 
           </div>
         ) : (
           <div className="p-6">
-            <h3 className="text-lg font-medium mb-4">Customize Privacy Settings</h3>
+            <h3 className="text-lg font-medium mb-4">{t('welcome.customizeTitle')}</h3>
 
             <div className="space-y-4 mb-6">
               <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -124,9 +125,9 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                     <BarChart2 className="h-5 w-5 text-blue-500" />
                   </div>
                   <div className="ml-3">
-                    <h4 className="font-medium">Analytics</h4>
+                    <h4 className="font-medium">{t('welcome.analytics')}</h4>
                     <p className="text-sm text-gray-500">
-                    Collect anonymous usage data to improve our app
+                    {t('welcome.analyticsShort')}
                     </p>
                   </div>
                 </div>
@@ -150,9 +151,9 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                     <MapPin className="h-5 w-5 text-blue-500" />
                   </div>
                   <div className="ml-3">
-                    <h4 className="font-medium">Location</h4>
+                    <h4 className="font-medium">{t('welcome.location')}</h4>
                     <p className="text-sm text-gray-500">
-                      Show nearby activities and provide accurate directions
+                      {t('welcome.locationShort')}
                     </p>
                   </div>
                 </div>
@@ -176,19 +177,19 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ isOpen, onClose }) => {
                 onClick={handleSavePreferences}
                 className="w-full bg-blue-500 text-white rounded-lg px-4 py-2 font-medium hover:bg-blue-600"
               >
-                Save Preferences
+                {t('welcome.save')}
               </button>
               <button
                 onClick={() => setShowCustomize(false)}
                 className="w-full bg-gray-100 text-gray-800 rounded-lg px-4 py-2 font-medium hover:bg-gray-200"
               >
-                Back
+                {t('welcome.back')}
               </button>
               <button
                 onClick={handleRejectAll}
                 className="w-full bg-white text-gray-500 rounded-lg px-4 py-2 font-medium hover:bg-gray-50"
               >
-                Reject All
+                {t('welcome.rejectAll')}
               </button>
             </div>
           </div>
@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { X } from 'lucide-react';
 import { useTouch } from '../../contexts/TouchContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface ModalWrapperProps {
   isOpen: boolean;
@@ -18,6 +19,7 @@ const ModalWrapper: React.FC<ModalWrapperProps> = ({
   className = ''
 }) => {
   const { setModalOpen } = useTouch();
+  const { t } = useLanguage();
 
   // Update TouchContext when modal opens/closes
   useEffect(() => {
@@ -144,7 +146,7 @@ const ModalWrapper: React.FC<ModalWrapperProps> = ({
         <button
           className="absolute right-4 top-4 p-2 rounded-full hover:bg-gray-100 z-modal-close"
           onClick={onClose}
-          aria-label="Close modal"
+          aria-label={t('common.closeModal')}
         >
           <X size={20} className="text-gray-500" />
         </button>
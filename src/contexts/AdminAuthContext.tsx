@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { User, onIdTokenChanged } from 'firebase/auth';
+import { getAdminAuth } from '../utils/firebase';
+import { AdminRole, getUserRole, hasAdminRole, signInAdmin, signOutAdmin } from '../utils/admin-auth';
+
+// Type definition for the context
+interface AdminAuthContextType {
+  user: User | null;
+  role: AdminRole | null;
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<AdminRole>;
+  signOut: () => Promise<void>;
+  hasRole: (minimumRole: AdminRole) => boolean;
+}
+
+// Create the context with a default value
+const AdminAuthContext = createContext<AdminAuthContextType>({
+  user: null,
+  role: null,
+  isLoading: true,
+  signIn: async () => {
+    throw new Error('AdminAuthProvider is missing');
+  },
+  signOut: async () => {},
+  hasRole: () => false
+});
+
+// Hook for using the context
+export const useAdminAuth = (): AdminAuthContextType => useContext(AdminAuthContext);
+
+// Provider component
+export const AdminAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Follow sign-in, sign-out and token refreshes so a changed role shows up without a reload
+  useEffect(() => {
+    const unsubscribe = onIdTokenChanged(getAdminAuth(), async (nextUser) => {
+      try {
+        setUser(nextUser);
+        setRole(nextUser ? await getUserRole(nextUser) : null);
+      } catch (error) {
+        console.error('Error reading admin role:', error);
+        setRole(null);
+      } finally {
+        setIsLoading(false);
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // Context value
+  const contextValue = {
+    user,
+    role,
+    isLoading,
+    signIn: signInAdmin,
+    signOut: signOutAdmin,
+    hasRole: (minimumRole: AdminRole) => hasAdminRole(role, minimumRole)
+  };
+
+  return (
+    <AdminAuthContext.Provider value={contextValue}>
+      {children}
+    </AdminAuthContext.Provider>
+  );
+};
+
+export default AdminAuthProvider;
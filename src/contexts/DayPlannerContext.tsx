@@ -0,0 +1,177 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Location } from '../types/location';
+import { DayPlan, getDefaultStopMinutes } from '../utils/day-planner';
+import { getAthensDateParts } from '../utils/opening-hours';
+import { TravelMode } from '../utils/travel-time';
+
+// Define the shape of our day planner context
+interface DayPlannerContextType {
+  plan: DayPlan;
+  isPlannerOpen: boolean;
+
+  isInPlan: (locationId: string) => boolean;
+
+  // Functions to edit the plan
+  addStop: (location: Location) => void;
+  removeStop: (locationId: string) => void;
+  moveStop: (locationId: string, offset: -1 | 1) => void;
+  setStopDuration: (locationId: string, durationMinutes: number) => void;
+  setPlanDate: (date: string) => void;
+  setStartTime: (startTime: string) => void;
+  setTravelMode: (travelMode: TravelMode) => void;
+  clearPlan: () => void;
+
+  // Functions to show/hide the planner
+  openPlanner: () => void;
+  closePlanner: () => void;
+}
+
+const STORAGE_KEY = 'pamekids_day_plan';
+
+const getToday = (): string => getAthensDateParts(new Date()).date;
+
+const createEmptyPlan = (): DayPlan => ({
+  date: getToday(),
+  startTime: '10:00',
+  travelMode: 'driving',
+  stops: []
+});
+
+// Restore the saved plan, moving a plan for a day that has passed to today
+const loadPlan = (): DayPlan => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return createEmptyPlan();
+
+    const parsed = JSON.parse(stored) as DayPlan;
+    if (!parsed || !Array.isArray(parsed.stops)) return createEmptyPlan();
+
+    const today = getToday();
+    return { ...createEmptyPlan(), ...parsed, date: parsed.date < today ? today : parsed.date };
+  } catch (error) {
+    console.error('Error reading day plan:', error);
+    return createEmptyPlan();
+  }
+};
+
+// Create the context with default values
+const DayPlannerContext = createContext<DayPlannerContextType>({
+  plan: createEmptyPlan(),
+  isPlannerOpen: false,
+
+  isInPlan: () => false,
+
+  addStop: () => {},
+  removeStop: () => {},
+  moveStop: () => {},
+  setStopDuration: () => {},
+  setPlanDate: () => {},
+  setStartTime: () => {},
+  setTravelMode: () => {},
+  clearPlan: () => {},
+
+  openPlanner: () => {},
+  closePlanner: () => {},
+});
+
+// Custom hook for easy context usage
+export const useDayPlanner = () => useContext(DayPlannerContext);
+
+// Provider component that will wrap the app
+export const DayPlannerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Initialize state from localStorage if available
+  const [plan, setPlan] = useState<DayPlan>(() => loadPlan());
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+
+  // Update localStorage when the plan changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(plan));
+    } catch (error) {
+      console.error('Error saving day plan:', error);
+    }
+  }, [plan]);
+
+  const isInPlan = useCallback((locationId: string) => {
+    return plan.stops.some(stop => stop.locationId === locationId);
+  }, [plan.stops]);
+
+  const addStop = useCallback((location: Location) => {
+    setPlan(prev => {
+      if (prev.stops.some(stop => stop.locationId === location.id)) return prev;
+      return {
+        ...prev,
+        stops: [...prev.stops, { locationId: location.id, durationMinutes: getDefaultStopMinutes(location) }]
+      };
+    });
+  }, []);
+
+  const removeStop = useCallback((locationId: string) => {
+    setPlan(prev => ({ ...prev, stops: prev.stops.filter(stop => stop.locationId !== locationId) }));
+  }, []);
+
+  const moveStop = useCallback((locationId: string, offset: -1 | 1) => {
+    setPlan(prev => {
+      const index = prev.stops.findIndex(stop => stop.locationId === locationId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.stops.length) return prev;
+
+      const stops = [...prev.stops];
+      [stops[index], stops[target]] = [stops[target], stops[index]];
+      return { ...prev, stops };
+    });
+  }, []);
+
+  const setStopDuration = useCallback((locationId: string, durationMinutes: number) => {
+    setPlan(prev => ({
+      ...prev,
+      stops: prev.stops.map(stop => (stop.locationId === locationId ? { ...stop, durationMinutes } : stop))
+    }));
+  }, []);
+
+  const setPlanDate = useCallback((date: string) => {
+    setPlan(prev => ({ ...prev, date }));
+  }, []);
+
+  const setStartTime = useCallback((startTime: string) => {
+    setPlan(prev => ({ ...prev, startTime }));
+  }, []);
+
+  const setTravelMode = useCallback((travelMode: TravelMode) => {
+    setPlan(prev => ({ ...prev, travelMode }));
+  }, []);
+
+  const clearPlan = useCallback(() => {
+    setPlan(prev => ({ ...createEmptyPlan(), startTime: prev.startTime, travelMode: prev.travelMode }));
+  }, []);
+
+  const openPlanner = useCallback(() => setIsPlannerOpen(true), []);
+  const closePlanner = useCallback(() => setIsPlannerOpen(false), []);
+
+  const contextValue = {
+    plan,
+    isPlannerOpen,
+
+    isInPlan,
+
+    addStop,
+    removeStop,
+    moveStop,
+    setStopDuration,
+    setPlanDate,
+    setStartTime,
+    setTravelMode,
+    clearPlan,
+
+    openPlanner,
+    closePlanner,
+  };
+
+  return (
+    <DayPlannerContext.Provider value={contextValue}>
+      {children}
+    </DayPlannerContext.Provider>
+  );
+};
+
+export default DayPlannerProvider;
@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { getEvents } from '../utils/firebase-service';
+import { Event } from '../types/event';
+
+// Type definition for the context
+interface EventsContextType {
+  allEvents: Event[];
+  isLoading: boolean;
+  error: string | null;
+  refreshEvents: () => Promise<void>;
+  getLocationEvents: (locationId: string) => Event[];
+}
+
+// Create the context with a default value
+const EventsContext = createContext<EventsContextType>({
+  allEvents: [],
+  isLoading: true,
+  error: null,
+  refreshEvents: async () => {},
+  getLocationEvents: () => []
+});
+
+// Hook for using the context
+export const useEvents = (): EventsContextType => {
+  const context = useContext(EventsContext);
+  if (!context) {
+    throw new Error('useEvents must be used within an EventsProvider');
+  }
+  return context;
+};
+
+// Provider component
+export const EventsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [allEvents, setAllEvents] = useState<Event[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Function to fetch events from Firebase
+  const fetchEvents = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const events = await getEvents();
+      setAllEvents(events);
+    } catch (err) {
+      // Events are an extra - the map still works without them
+      console.error('Error fetching events:', err);
+      setError('Failed to load events.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Refresh function that can be called to reload data
+  const refreshEvents = async () => {
+    await fetchEvents();
+  };
+
+  // Initial data loading
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  const getLocationEvents = useCallback((locationId: string) => {
+    return allEvents.filter(event => event.locationId === locationId);
+  }, [allEvents]);
+
+  // Context value
+  const contextValue = {
+    allEvents,
+    isLoading,
+    error,
+    refreshEvents,
+    getLocationEvents
+  };
+
+  return (
+    <EventsContext.Provider value={contextValue}>
+      {children}
+    </EventsContext.Provider>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_LIST_NAME,
+  SAVED_LISTS_STORAGE_KEY,
+  SavedList,
+  createListId,
+  loadSavedLists,
+  storeSavedLists
+} from '../utils/saved-lists';
+
+// Define the shape of our favourites context
+interface FavoritesContextType {
+  // Named lists of saved places, oldest first
+  lists: SavedList[];
+
+  // Lookups used by the heart buttons
+  isSaved: (locationId: string) => boolean;
+  getListsForLocation: (locationId: string) => SavedList[];
+
+  // Functions to manage lists
+  createList: (name: string, locationIds?: string[]) => SavedList;
+  renameList: (listId: string, name: string) => void;
+  deleteList: (listId: string) => void;
+  toggleLocationInList: (listId: string, locationId: string) => void;
+  // Saves to the default "Favourites" list (creating it if needed) - the one-tap heart action
+  saveToDefaultList: (locationId: string) => void;
+  removeFromAllLists: (locationId: string) => void;
+}
+
+// Create the context with default values
+const FavoritesContext = createContext<FavoritesContextType>({
+  lists: [],
+
+  isSaved: () => false,
+  getListsForLocation: () => [],
+
+  createList: (name: string) => ({ id: '', name, locationIds: [], createdAt: 0 }),
+  renameList: () => {},
+  deleteList: () => {},
+  toggleLocationInList: () => {},
+  saveToDefaultList: () => {},
+  removeFromAllLists: () => {},
+});
+
+// Custom hook for easy context usage
+export const useFavorites = () => useContext(FavoritesContext);
+
+// Provider component that will wrap the app
+export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Initialize state from localStorage if available
+  const [lists, setLists] = useState<SavedList[]>(() => loadSavedLists());
+
+  // Update localStorage when lists change
+  useEffect(() => {
+    storeSavedLists(lists);
+  }, [lists]);
+
+  // Keep lists in sync when they're edited in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === SAVED_LISTS_STORAGE_KEY) {
+        setLists(loadSavedLists());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const isSaved = useCallback((locationId: string) => {
+    return lists.some(list => list.locationIds.includes(locationId));
+  }, [lists]);
+
+  const getListsForLocation = useCallback((locationId: string) => {
+    return lists.filter(list => list.locationIds.includes(locationId));
+  }, [lists]);
+
+  const createList = useCallback((name: string, locationIds: string[] = []) => {
+    const newList: SavedList = {
+      id: createListId(),
+      name: name.trim() || DEFAULT_LIST_NAME,
+      locationIds: Array.from(new Set(locationIds)),
+      createdAt: Date.now()
+    };
+    setLists(prev => [...prev, newList]);
+    return newList;
+  }, []);
+
+  const renameList = useCallback((listId: string, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    setLists(prev => prev.map(list => (list.id === listId ? { ...list, name: trimmedName } : list)));
+  }, []);
+
+  const deleteList = useCallback((listId: string) => {
+    setLists(prev => prev.filter(list => list.id !== listId));
+  }, []);
+
+  const toggleLocationInList = useCallback((listId: string, locationId: string) => {
+    setLists(prev => prev.map(list => {
+      if (list.id !== listId) return list;
+
+      return {
+        ...list,
+        locationIds: list.locationIds.includes(locationId)
+          ? list.locationIds.filter(id => id !== locationId)
+          : [...list.locationIds, locationId]
+      };
+    }));
+  }, []);
+
+  const saveToDefaultList = useCallback((locationId: string) => {
+    setLists(prev => {
+      const defaultList = prev.find(list => list.name === DEFAULT_LIST_NAME) || prev[0];
+
+      if (!defaultList) {
+        return [{ id: createListId(), name: DEFAULT_LIST_NAME, locationIds: [locationId], createdAt: Date.now() }];
+      }
+      if (defaultList.locationIds.includes(locationId)) return prev;
+
+      return prev.map(list =>
+        list.id === defaultList.id ? { ...list, locationIds: [...list.locationIds, locationId] } : list
+      );
+    });
+  }, []);
+
+  const removeFromAllLists = useCallback((locationId: string) => {
+    setLists(prev => prev.map(list => ({
+      ...list,
+      locationIds: list.locationIds.filter(id => id !== locationId)
+    })));
+  }, []);
+
+  const contextValue = {
+    lists,
+
+    isSaved,
+    getListsForLocation,
+
+    createList,
+    renameList,
+    deleteList,
+    toggleLocationInList,
+    saveToDefaultList,
+    removeFromAllLists,
+  };
+
+  return (
+    <FavoritesContext.Provider value={contextValue}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
+
+export default FavoritesProvider;
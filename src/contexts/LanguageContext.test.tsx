@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+import { LanguageProvider, useLanguage, useSearchWithoutLanguage } from './LanguageContext';
+
+// Reads the filters from the URL the way the map does, counting how often it has to
+const FilterProbe: React.FC = () => {
+  const { setLanguage } = useLanguage();
+  const pageSearch = useSearchWithoutLanguage();
+  const { search } = useLocation();
+  const [filterRuns, setFilterRuns] = useState(0);
+
+  useEffect(() => {
+    setFilterRuns(runs => runs + 1);
+  }, [pageSearch]);
+
+  return (
+    <div>
+      <p data-testid="search">{search}</p>
+      <p data-testid="filter">{new URLSearchParams(pageSearch).get('filter')}</p>
+      <p data-testid="runs">{filterRuns}</p>
+      <button onClick={() => setLanguage('el')}>Ελληνικά</button>
+      <button onClick={() => setLanguage('en')}>English</button>
+    </div>
+  );
+};
+
+test('switching language keeps the map filters without reading them again', () => {
+  render(
+    <MemoryRouter initialEntries={['/map?filter=sports&listName=Rainy%20day']}>
+      <LanguageProvider>
+        <FilterProbe />
+      </LanguageProvider>
+    </MemoryRouter>
+  );
+  expect(screen.getByTestId('runs')).toHaveTextContent('1');
+
+  act(() => screen.getByText('Ελληνικά').click());
+  expect(screen.getByTestId('search').textContent).toContain('lang=el');
+  expect(screen.getByTestId('filter')).toHaveTextContent('sports');
+  expect(screen.getByTestId('runs')).toHaveTextContent('1');
+
+  act(() => screen.getByText('English').click());
+  expect(screen.getByTestId('search').textContent).not.toContain('lang=');
+  expect(screen.getByTestId('runs')).toHaveTextContent('1');
+});
@@ -0,0 +1,117 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { ActivityCategory, ActivityGroup } from '../utils/metadata';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_PARAM,
+  LANGUAGE_STORAGE_KEY,
+  Language,
+  TranslationKey,
+  detectLanguage,
+  getSearchWithoutLanguage,
+  getLocalizedActivityCategories,
+  getLocalizedActivityGroups,
+  isLanguage,
+  translate,
+  translatePlural
+} from '../utils/i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+
+  // Translate a UI string, filling in "{name}"-style placeholders
+  t: (key: TranslationKey, values?: Record<string, string | number>) => string;
+  // Pick the ".one" or ".other" form of a string for a count
+  tPlural: (key: string, count: number, values?: Record<string, string | number>) => string;
+
+  // ACTIVITY_CATEGORIES and ACTIVITY_GROUPS with names in the current language
+  activityCategories: Record<string, ActivityCategory>;
+  activityGroups: Record<string, ActivityGroup>;
+}
+
+const LanguageContext = createContext<LanguageContextType>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: (key, values) => translate(DEFAULT_LANGUAGE, key, values),
+  tPlural: (key, count, values) => translatePlural(DEFAULT_LANGUAGE, key, count, values),
+  activityCategories: getLocalizedActivityCategories(DEFAULT_LANGUAGE),
+  activityGroups: getLocalizedActivityGroups(DEFAULT_LANGUAGE)
+});
+
+// Custom hook for easy context usage
+export const useLanguage = () => useContext(LanguageContext);
+
+// The current query without ?lang - effects that read filters from the URL depend on
+// this, so switching language doesn't run them again
+export const useSearchWithoutLanguage = (): string => {
+  const { search } = useLocation();
+  return useMemo(() => getSearchWithoutLanguage(search), [search]);
+};
+
+const readStoredLanguage = (): string | null => {
+  try {
+    return localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Provider component - goes inside the Router, as it reads and sets ?lang
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const languageParam = searchParams.get(LANGUAGE_PARAM);
+
+  const [language, setLanguageState] = useState<Language>(() => detectLanguage({
+    param: languageParam,
+    stored: readStoredLanguage(),
+    browserLanguages: typeof navigator !== 'undefined' ? navigator.languages : []
+  }));
+
+  // Following a link with ?lang (e.g. an hreflang alternate) switches language
+  useEffect(() => {
+    if (isLanguage(languageParam)) {
+      setLanguageState(languageParam);
+    }
+  }, [languageParam]);
+
+  // Remember the choice and keep <html lang> in step for screen readers
+  useEffect(() => {
+    document.documentElement.lang = language;
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    } catch (error) {
+      console.error('Error saving language:', error);
+    }
+  }, [language]);
+
+  const setLanguage = useCallback((nextLanguage: Language) => {
+    setLanguageState(nextLanguage);
+
+    // Keep the URL pointing at the page in the chosen language
+    setSearchParams(params => {
+      const nextParams = new URLSearchParams(params);
+      if (nextLanguage === DEFAULT_LANGUAGE) {
+        nextParams.delete(LANGUAGE_PARAM);
+      } else {
+        nextParams.set(LANGUAGE_PARAM, nextLanguage);
+      }
+      return nextParams;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const contextValue = useMemo<LanguageContextType>(() => ({
+    language,
+    setLanguage,
+    t: (key, values) => translate(language, key, values),
+    tPlural: (key, count, values) => translatePlural(language, key, count, values),
+    activityCategories: getLocalizedActivityCategories(language),
+    activityGroups: getLocalizedActivityGroups(language)
+  }), [language, setLanguage]);
+
+  return (
+    <LanguageContext.Provider value={contextValue}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,180 @@
+/**
+ * Athens municipalities
+ * Simplified outlines of the municipalities with the most listings, used to place
+ * locations in a neighbourhood for the /areas landing pages. Each outline is a handful of
+ * [lat, lng] corners traced around the built-up area, not the official boundary, so a
+ * location right on a border can land in the neighbouring municipality. The list is
+ * checked in order and the first match wins where two outlines touch.
+ */
+
+export interface Municipality {
+  id: string; // URL slug, e.g. "glyfada"
+  name: string;
+  nameEl: string; // Greek name
+  polygon: Array<[number, number]>; // [lat, lng] corners
+}
+
+export const ATHENS_MUNICIPALITIES: Municipality[] = [
+  {
+    id: 'athens',
+    name: 'Athens',
+    nameEl: 'Αθήνα',
+    polygon: [
+      [38.025, 23.725], [38.020, 23.745], [38.000, 23.768], [37.985, 23.765],
+      [37.965, 23.755], [37.955, 23.740], [37.960, 23.715], [37.975, 23.700],
+      [37.995, 23.700], [38.010, 23.712]
+    ]
+  },
+  {
+    id: 'piraeus',
+    name: 'Piraeus',
+    nameEl: 'Πειραιάς',
+    polygon: [
+      [37.960, 23.625], [37.958, 23.655], [37.945, 23.668], [37.930, 23.660],
+      [37.932, 23.620], [37.945, 23.610]
+    ]
+  },
+  {
+    id: 'nea-smyrni',
+    name: 'Nea Smyrni',
+    nameEl: 'Νέα Σμύρνη',
+    polygon: [
+      [37.955, 23.713], [37.955, 23.728], [37.937, 23.728], [37.935, 23.712],
+      [37.942, 23.705]
+    ]
+  },
+  {
+    id: 'kallithea',
+    name: 'Kallithea',
+    nameEl: 'Καλλιθέα',
+    polygon: [
+      [37.965, 23.690], [37.960, 23.715], [37.955, 23.713], [37.942, 23.705],
+      [37.940, 23.690], [37.955, 23.683]
+    ]
+  },
+  {
+    id: 'palaio-faliro',
+    name: 'Palaio Faliro',
+    nameEl: 'Παλαιό Φάληρο',
+    polygon: [
+      [37.940, 23.690], [37.942, 23.705], [37.935, 23.712], [37.925, 23.715],
+      [37.915, 23.702], [37.920, 23.685], [37.932, 23.683]
+    ]
+  },
+  {
+    id: 'alimos',
+    name: 'Alimos',
+    nameEl: 'Άλιμος',
+    polygon: [
+      [37.925, 23.715], [37.922, 23.735], [37.905, 23.738], [37.895, 23.725],
+      [37.905, 23.705], [37.915, 23.702]
+    ]
+  },
+  {
+    id: 'elliniko-argyroupoli',
+    name: 'Elliniko-Argyroupoli',
+    nameEl: 'Ελληνικό-Αργυρούπολη',
+    polygon: [
+      [37.922, 23.735], [37.915, 23.770], [37.895, 23.775], [37.885, 23.745],
+      [37.895, 23.725], [37.905, 23.738]
+    ]
+  },
+  {
+    id: 'glyfada',
+    name: 'Glyfada',
+    nameEl: 'Γλυφάδα',
+    polygon: [
+      [37.895, 23.725], [37.885, 23.745], [37.895, 23.775], [37.885, 23.790],
+      [37.860, 23.790], [37.852, 23.765], [37.858, 23.745], [37.875, 23.728]
+    ]
+  },
+  {
+    id: 'vari-voula-vouliagmeni',
+    name: 'Vari-Voula-Vouliagmeni',
+    nameEl: 'Βάρη-Βούλα-Βουλιαγμένη',
+    polygon: [
+      [37.858, 23.745], [37.852, 23.765], [37.860, 23.790], [37.860, 23.820],
+      [37.840, 23.860], [37.800, 23.830], [37.805, 23.770], [37.835, 23.755]
+    ]
+  },
+  {
+    id: 'ilioupoli',
+    name: 'Ilioupoli',
+    nameEl: 'Ηλιούπολη',
+    polygon: [
+      [37.945, 23.745], [37.940, 23.780], [37.920, 23.790], [37.915, 23.770],
+      [37.922, 23.745]
+    ]
+  },
+  {
+    id: 'zografou',
+    name: 'Zografou',
+    nameEl: 'Ζωγράφου',
+    polygon: [
+      [37.985, 23.765], [37.985, 23.800], [37.965, 23.800], [37.965, 23.768]
+    ]
+  },
+  {
+    id: 'filothei-psychiko',
+    name: 'Filothei-Psychiko',
+    nameEl: 'Φιλοθέη-Ψυχικό',
+    polygon: [
+      [38.030, 23.765], [38.022, 23.785], [38.005, 23.790], [38.000, 23.770],
+      [38.015, 23.758]
+    ]
+  },
+  {
+    id: 'nea-ionia',
+    name: 'Nea Ionia',
+    nameEl: 'Νέα Ιωνία',
+    polygon: [
+      [38.055, 23.740], [38.050, 23.765], [38.030, 23.765], [38.025, 23.748],
+      [38.035, 23.735]
+    ]
+  },
+  {
+    id: 'chalandri',
+    name: 'Chalandri',
+    nameEl: 'Χαλάνδρι',
+    polygon: [
+      [38.035, 23.785], [38.040, 23.815], [38.030, 23.825], [38.015, 23.818],
+      [38.012, 23.795], [38.022, 23.785]
+    ]
+  },
+  {
+    id: 'agia-paraskevi',
+    name: 'Agia Paraskevi',
+    nameEl: 'Αγία Παρασκευή',
+    polygon: [
+      [38.015, 23.818], [38.030, 23.825], [38.030, 23.850], [38.010, 23.855],
+      [37.998, 23.830], [38.005, 23.815]
+    ]
+  },
+  {
+    id: 'marousi',
+    name: 'Marousi',
+    nameEl: 'Μαρούσι',
+    polygon: [
+      [38.070, 23.785], [38.068, 23.825], [38.045, 23.830], [38.035, 23.810],
+      [38.035, 23.785], [38.055, 23.778]
+    ]
+  },
+  {
+    id: 'kifisia',
+    name: 'Kifisia',
+    nameEl: 'Κηφισιά',
+    polygon: [
+      [38.115, 23.790], [38.112, 23.840], [38.085, 23.848], [38.068, 23.825],
+      [38.070, 23.790], [38.090, 23.782]
+    ]
+  },
+  {
+    id: 'peristeri',
+    name: 'Peristeri',
+    nameEl: 'Περιστέρι',
+    polygon: [
+      [38.030, 23.675], [38.028, 23.705], [38.010, 23.710], [38.000, 23.695],
+      [38.003, 23.675], [38.015, 23.668]
+    ]
+  }
+];
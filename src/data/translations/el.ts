@@ -0,0 +1,385 @@
+import { TranslationKey } from './en';
+
+/**
+ * Greek UI strings
+ * Every key in en.ts needs a Greek version here - the type makes a missing one a build error.
+ */
+
+const el: Record<TranslationKey, string> = {
+  'landing.defaultIntro.activity': 'Ψάχνετε {name} για παιδιά στην Αθήνα; Δείτε {places} που προτείνουμε για παιδιά.',
+  'landing.defaultIntro.area': 'Ψάχνετε τι να κάνετε με τα παιδιά στην περιοχή {name}; Βρήκαμε {places} για παιδιά στην περιοχή και γύρω από αυτή.',
+  'landing.placeCount.one': '1 μέρος',
+  'landing.placeCount.other': '{count} μέρη',
+  'landing.heading.area': 'Δραστηριότητες για παιδιά - {name}',
+  'landing.heading.activity': '{name} για παιδιά στην Αθήνα',
+  'landing.home': 'Αρχική',
+  'landing.empty': 'Δεν έχουμε ακόμη καταχωρίσει μέρη εδώ.',
+  'landing.exploreMap': 'Εξερευνήστε τον χάρτη',
+  'landing.showMore': 'Περισσότερα',
+  'landing.fromBlog': 'Από το blog',
+  'landing.moreAreas': 'Περισσότερες περιοχές',
+  'landing.relatedActivities': 'Σχετικές δραστηριότητες',
+
+  'header.searchPlaceholder': 'Αναζήτηση δραστηριοτήτων...',
+  'header.switchLanguage': 'Αλλαγή σε {language}',
+
+  'newsletter.button.label': 'Εγγραφή στο newsletter',
+  'newsletter.button.text': 'Εγγραφή',
+  'newsletter.title': 'Εγγραφείτε για να ανακαλύψετε περισσότερα',
+  'newsletter.intro': 'Εγγραφείτε για να ανακαλύπτετε τις καλύτερες δραστηριότητες, μαθήματα και εκδηλώσεις για παιδιά στην περιοχή σας!',
+  'newsletter.email': 'Διεύθυνση email *',
+  'newsletter.emailPlaceholder': 'to.email.sas@example.com',
+  'newsletter.name': 'Όνομα (προαιρετικό)',
+  'newsletter.namePlaceholder': 'Το όνομά σας',
+  'newsletter.postalCode': 'Ταχυδρομικός κώδικας (προαιρετικό)',
+  'newsletter.postalCodePlaceholder': 'Ο ταχυδρομικός σας κώδικας',
+  'newsletter.postalCodeHelp': 'Μας βοηθά να σας στέλνουμε δραστηριότητες κοντά σας',
+  'newsletter.ageRanges': 'Ηλικίες παιδιών *',
+  'newsletter.ageRange': '{range} ετών',
+  'newsletter.submitting': 'Υποβολή...',
+  'newsletter.subscribe': 'Εγγραφή',
+  'newsletter.privacyNote': 'Δεν θα μοιραστούμε ποτέ το email σας. Θα σας ζητήσουμε πρώτα να το επιβεβαιώσετε και κάθε newsletter έχει σύνδεσμο για αλλαγή προτιμήσεων ή διαγραφή.',
+  'newsletter.success': 'Σχεδόν έτοιμο! Σας στείλαμε ένα email - ανοίξτε τον σύνδεσμο για να επιβεβαιώσετε την εγγραφή σας.',
+  'newsletter.errors.emailRequired': 'Το email είναι υποχρεωτικό',
+  'newsletter.errors.emailInvalid': 'Συμπληρώστε μια έγκυρη διεύθυνση email',
+  'newsletter.errors.ageRanges': 'Επιλέξτε τουλάχιστον μία ηλικία',
+  'newsletter.errors.alreadySubscribed': 'Αυτό το email είναι ήδη εγγεγραμμένο στο newsletter μας.',
+  'newsletter.errors.failed': 'Η εγγραφή στο newsletter απέτυχε',
+
+  'suggest.button.label': 'Προτείνετε μια δραστηριότητα',
+  'suggest.button.text': 'Δραστηριότητα',
+  'suggest.title': 'Προτείνετε μια δραστηριότητα',
+  'suggest.intro': 'Θέλουμε να μάθουμε για τα αγαπημένα σας μέρη και δραστηριότητες και να τα προσθέσουμε στο PameKids!',
+  'suggest.name': 'Όνομα δραστηριότητας *',
+  'suggest.namePlaceholder': 'π.χ. Παιδική χαρά στο πάρκο της γειτονιάς',
+  'suggest.type': 'Είδος δραστηριότητας *',
+  'suggest.link': 'Σύνδεσμος Google Maps *',
+  'suggest.linkHelp': 'Κάντε δεξί κλικ σε ένα σημείο στο Google Maps και επιλέξτε «Κοινοποίηση» για να πάρετε τον σύνδεσμο',
+  'suggest.description': 'Πείτε μας τις συμβουλές σας και τι σας αρέσει σε αυτό το μέρος (προαιρετικό)',
+  'suggest.descriptionPlaceholder': 'Σύντομη περιγραφή της δραστηριότητας (έως 2000 χαρακτήρες)',
+  'suggest.characterCount': '{count}/2.000 χαρακτήρες',
+  'suggest.email': 'Το email σας (προαιρετικό)',
+  'suggest.emailHelp': 'Θα το χρησιμοποιήσουμε μόνο αν έχουμε ερωτήσεις για την πρότασή σας',
+  'suggest.submit': 'Υποβολή πρότασης',
+  'suggest.success': 'Ευχαριστούμε! Η ομάδα μας θα εξετάσει σύντομα την πρότασή σας!',
+  'suggest.errors.name': 'Το όνομα της δραστηριότητας είναι υποχρεωτικό',
+  'suggest.errors.linkRequired': 'Ο σύνδεσμος Google Maps είναι υποχρεωτικός',
+  'suggest.errors.linkInvalid': 'Συμπληρώστε έναν έγκυρο σύνδεσμο',
+  'suggest.errors.descriptionLength': 'Η περιγραφή πρέπει να έχει έως 2.000 χαρακτήρες',
+  'suggest.errors.failed': 'Η υποβολή της πρότασης απέτυχε',
+
+  'footer.copyright': '© 2025 PameKids. Με την επιφύλαξη παντός δικαιώματος.',
+  'footer.blog': 'Blog',
+  'footer.contact': 'Επικοινωνία',
+  'footer.privacy': 'Απόρρητο',
+  'footer.terms': 'Όροι',
+
+  'common.retry': 'Δοκιμάστε ξανά',
+  'common.scrollLeft': 'Κύλιση αριστερά',
+  'common.scrollRight': 'Κύλιση δεξιά',
+  'common.loading': 'Φόρτωση...',
+  'common.showOnMap': 'Στον χάρτη',
+  'common.done': 'Τέλος',
+  'common.apply': 'Εφαρμογή',
+  'common.close': 'Κλείσιμο',
+  'common.closeModal': 'Κλείσιμο παραθύρου',
+  'common.unexpectedError': 'Παρουσιάστηκε απρόσμενο σφάλμα. Δοκιμάστε ξανά.',
+  'common.returnHome': 'Επιστροφή στην Αρχική',
+
+  'home.heading': 'Ανακαλύψτε τις καλύτερες δραστηριότητες για παιδιά στην Ελλάδα',
+  'home.viewAll': 'Όλες οι Δραστηριότητες',
+  'home.featured': 'Προτεινόμενες Δραστηριότητες',
+  'home.freeNearYou': 'Δωρεάν Δραστηριότητες Κοντά σας',
+  'home.exploreByArea': 'Εξερευνήστε ανά Περιοχή',
+  'home.noLocations': 'Δεν υπάρχουν διαθέσιμα μέρη αυτή τη στιγμή.',
+  'home.loadError': 'Δεν ήταν δυνατή η φόρτωση των δραστηριοτήτων. Δοκιμάστε ξανά αργότερα.',
+
+  'location.ages': 'Ηλικίες {min}-{max}',
+  'location.viewDetails': 'Λεπτομέρειες →',
+  'location.loadingPhotos': 'Φόρτωση φωτογραφιών...',
+  'location.proTips': 'Συμβουλές',
+  'location.noProTips': 'Δεν υπάρχουν ακόμη συμβουλές για αυτό το μέρος. Μοιραστείτε πρώτοι ό,τι ξέρετε!',
+  'location.submitProTip': 'Προσθέστε μια Συμβουλή',
+  'location.firstProTip': 'Μοιραστείτε πρώτοι μια Συμβουλή!',
+  'location.agesLabel': 'Ηλικίες:',
+  'location.ageYears': '{min}-{max} ετών',
+  'location.priceLabel': 'Τιμή:',
+  'location.openingHours': 'Ωράριο',
+  'location.contactInfo': 'Στοιχεία Επικοινωνίας',
+  'location.phone': 'Τηλέφωνο:',
+  'location.email': 'Email:',
+  'location.website': 'Ιστοσελίδα:',
+  'location.address': 'Διεύθυνση:',
+  'location.reportIssue': 'Προτείνετε μια Αλλαγή ή Αναφέρετε ένα Πρόβλημα',
+  'location.directions': 'Οδηγίες',
+  'location.getDirections': 'Οδηγίες Μετάβασης',
+  'location.websiteButton': 'Ιστοσελίδα',
+  'location.call': 'Κλήση',
+
+  'place.backToMap': 'Πίσω στον χάρτη',
+
+  'hours.notAvailable': 'Δεν υπάρχει ωράριο',
+  'hours.closed': 'Κλειστό',
+  'hours.open24': 'Ανοιχτό 24 ώρες',
+  'hours.closedNow': 'Κλειστό τώρα',
+  'hours.closesIn': 'Ανοιχτό τώρα · κλείνει σε {minutes} λεπτά',
+  'hours.openUntil': 'Ανοιχτό τώρα · έως τις {time}',
+  'hours.specialHours': 'Ειδικό ωράριο',
+
+  'days.Monday': 'Δευτέρα',
+  'days.Tuesday': 'Τρίτη',
+  'days.Wednesday': 'Τετάρτη',
+  'days.Thursday': 'Πέμπτη',
+  'days.Friday': 'Παρασκευή',
+  'days.Saturday': 'Σάββατο',
+  'days.Sunday': 'Κυριακή',
+
+  'events.upcoming': 'Επερχόμενες Εκδηλώσεις',
+  'events.next': 'Επόμενη: {date}',
+  'events.bookNow': 'Κράτηση',
+  'events.weekly': '{days}, έως {until}',
+  'events.daily': '{dates}, καθημερινά',
+  'events.from': '{dates} · από {time}',
+
+  'monthsShort.1': 'Ιαν',
+  'monthsShort.2': 'Φεβ',
+  'monthsShort.3': 'Μαρ',
+  'monthsShort.4': 'Απρ',
+  'monthsShort.5': 'Μαΐ',
+  'monthsShort.6': 'Ιουν',
+  'monthsShort.7': 'Ιουλ',
+  'monthsShort.8': 'Αυγ',
+  'monthsShort.9': 'Σεπ',
+  'monthsShort.10': 'Οκτ',
+  'monthsShort.11': 'Νοε',
+  'monthsShort.12': 'Δεκ',
+
+  'daysShort.Monday': 'Δευ',
+  'daysShort.Tuesday': 'Τρι',
+  'daysShort.Wednesday': 'Τετ',
+  'daysShort.Thursday': 'Πεμ',
+  'daysShort.Friday': 'Παρ',
+  'daysShort.Saturday': 'Σαβ',
+  'daysShort.Sunday': 'Κυρ',
+
+  'rating.seeReviews': 'Δείτε τις κριτικές στο Google',
+  'rating.reviews': '{count} κριτικές',
+  'rating.poweredByGoogle': 'Από το Google',
+
+  'favorites.save': 'Αποθήκευση: {name}',
+  'favorites.editLists': 'Αποθηκευμένο - αλλαγή λιστών για {name}',
+  'favorites.saveToList': 'Αποθήκευση σε λίστα',
+  'favorites.newListPlaceholder': 'Νέα λίστα, π.χ. Βροχερή μέρα',
+  'favorites.createList': 'Δημιουργία λίστας',
+  'favorites.remove': 'Αφαίρεση',
+
+  'planner.inPlanOpen': 'Στο πρόγραμμά σας - άνοιγμα προγράμματος',
+  'planner.addNamed': 'Προσθήκη του {name} στο πρόγραμμα της ημέρας',
+  'planner.inPlan': 'Στο πρόγραμμά σας',
+  'planner.add': 'Προσθήκη στο πρόγραμμα',
+  'planner.title': 'Οργανώστε τη μέρα σας',
+  'planner.date': 'Ημερομηνία',
+  'planner.start': 'Έναρξη',
+  'planner.travelMode': 'Μετακίνηση',
+  'planner.mode.walking': 'Με τα πόδια',
+  'planner.mode.driving': 'Αυτοκίνητο',
+  'planner.mode.transit': 'Συγκοινωνία',
+  'planner.duration.minutes': '{minutes} λεπτά',
+  'planner.duration.hours': '{hours} ώρ.',
+  'planner.duration.hoursMinutes': '{hours} ώρ. {minutes} λεπτά',
+  'planner.hours.open': 'Ανοιχτό',
+  'planner.hours.closesAt': 'Κλείνει στις {time}',
+  'planner.hours.closesSoon': 'Κλείνει σύντομα',
+  'planner.hours.closed': 'Κλειστό αυτή την ώρα',
+  'planner.hours.unknown': 'Άγνωστο ωράριο',
+  'planner.empty': 'Προσθέστε μέρη με το κουμπί ημερολογίου σε οποιαδήποτε τοποθεσία για να οργανώσετε τη μέρα σας.',
+  'planner.timeAt': 'Χρόνος στο {name}',
+  'planner.stay': 'Παραμονή {duration}',
+  'planner.moveEarlier': 'Νωρίτερα',
+  'planner.moveLater': 'Αργότερα',
+  'planner.remove': 'Αφαίρεση: {name}',
+  'planner.problems': 'Κάποιες στάσεις δεν είναι ανοιχτές για όλη την επίσκεψη - αλλάξτε τη σειρά ή την ώρα έναρξης.',
+  'planner.routeLimit': 'Οι διαδρομές του Google Maps περιλαμβάνουν τις πρώτες {count} στάσεις και την τελευταία.',
+  'planner.openRoute': 'Διαδρομή στο Google Maps',
+  'planner.addToCalendar': 'Προσθήκη στο ημερολόγιο (.ics)',
+  'planner.clear': 'Καθαρισμός προγράμματος',
+
+  'photos.none': 'Δεν υπάρχουν φωτογραφίες',
+  'photos.loading': 'Φόρτωση φωτογραφίας...',
+  'photos.placeholder': 'Προσωρινές εικόνες',
+  'photos.more': 'Περισσότερες φωτογραφίες...',
+  'photos.viewOnGoogle': 'Προβολή στο Google Maps',
+  'photos.previous': 'Προηγούμενη φωτογραφία',
+  'photos.next': 'Επόμενη φωτογραφία',
+  'photos.unavailable': 'Η εικόνα δεν είναι διαθέσιμη',
+  'photos.previousImage': 'Προηγούμενη εικόνα',
+  'photos.nextImage': 'Επόμενη εικόνα',
+
+  'map.loadingLocations': 'Φόρτωση τοποθεσιών...',
+  'map.thisWeekend': 'Αυτό το Σαββατοκύριακο',
+  'map.clearAll': 'Καθαρισμός',
+  'map.findingLocation': 'Εντοπισμός της θέσης σας...',
+  'map.preparing': 'Ετοιμάζουμε τον χάρτη σας',
+  'map.yourLocation': 'Η τρέχουσα θέση σας',
+  'map.showLocations': 'Εμφάνιση τοποθεσιών',
+  'map.centerOnMe': 'Κεντράρισμα στη θέση μου',
+
+  'drawer.nearby': 'Κοντινές Δραστηριότητες',
+  'drawer.noneInView': 'Δεν υπάρχουν τοποθεσίες σε αυτή την περιοχή του χάρτη',
+  'drawer.zoomOut': 'Απομακρυνθείτε ή μετακινήστε τον χάρτη',
+  'drawer.processing': 'Επεξεργασία τοποθεσιών...',
+  'drawer.backToList': 'Πίσω στη λίστα',
+  'drawer.openFullPage': 'Άνοιγμα σε πλήρη σελίδα',
+
+  'travel.within': 'Έως {km} km',
+  'travel.minutes.walking': '{minutes} λεπτά με τα πόδια',
+  'travel.minutes.driving': '{minutes} λεπτά με το αυτοκίνητο',
+  'travel.minutes.transit': '{minutes} λεπτά με συγκοινωνία',
+
+  'reach.label': 'Απόσταση',
+  'reach.any': 'Οποιαδήποτε Απόσταση',
+  'reach.mode.distance': 'Απόσταση',
+  'reach.mode.walking': 'Με τα πόδια',
+  'reach.mode.driving': 'Αυτοκίνητο',
+  'reach.mode.transit': 'Συγκοινωνία',
+  'reach.minutes': '{minutes} λεπτά',
+  'reach.myLocation': 'Η θέση μου',
+  'reach.notShared': '(δεν έχει κοινοποιηθεί)',
+  'reach.anAddress': 'Μια διεύθυνση',
+  'reach.addressPlaceholder': 'π.χ. Κηφισίας 100, Μαρούσι',
+  'reach.estimate': 'Οι χρόνοι μετακίνησης είναι εκτιμήσεις με βάση την απόσταση.',
+  'reach.locating': 'Εύρεση διεύθυνσης...',
+  'reach.shareLocation': 'Κοινοποιήστε τη θέση σας ή ορίστε μια διεύθυνση',
+  'reach.enterAddress': 'Εισαγάγετε μια διεύθυνση αφετηρίας',
+  'reach.addressNotFound': 'Δεν βρήκαμε αυτή τη διεύθυνση',
+
+  'openAt.label': 'Ανοιχτό στις',
+  'openAt.selected': 'Ανοιχτό {window}',
+  'openAt.any': 'Οποιαδήποτε Ώρα',
+  'openAt.nextDay': 'Λήγει την επόμενη μέρα',
+  'openAt.wholeWindow': 'Δείχνει μέρη ανοιχτά για όλο το διάστημα',
+
+  'price.label': 'Τιμή',
+  'price.selected': 'Τιμή: {price}',
+  'price.any': 'Οποιαδήποτε Τιμή',
+  'price.free': 'Δωρεάν',
+
+  'age.label': 'Ηλικία',
+  'age.selected': 'Ηλικία {age}',
+  'age.any': 'Οποιαδήποτε Ηλικία',
+
+  'lists.label': 'Οι Λίστες μου',
+  'lists.all': 'Όλα τα Μέρη',
+  'lists.saveShared': 'Αποθήκευση στις λίστες μου',
+  'lists.empty': 'Πατήστε την καρδιά σε οποιοδήποτε μέρος για να ξεκινήσετε μια λίστα.',
+  'lists.copyLink': 'Αντιγραφή συνδέσμου',
+  'lists.copyLinkFor': 'Αντιγραφή συνδέσμου για {name}',
+  'lists.copied': 'Αντιγράφηκε',
+  'lists.delete': 'Διαγραφή λίστας',
+  'lists.deleteNamed': 'Διαγραφή: {name}',
+  'lists.confirmDelete': 'Διαγραφή της λίστας "{name}";',
+
+  'search.placeholder': 'Αναζήτηση με όνομα, δραστηριότητα, ηλικία...',
+  'search.nameMatch': 'Ταίριασμα ονόματος',
+  'search.activityMatch': 'Δραστηριότητα: {activity}',
+  'search.descriptionMatch': 'Ταίριασμα στην περιγραφή',
+  'search.addressMatch': 'Ταίριασμα στη διεύθυνση',
+  'search.collapse': 'Κλείσιμο αναζήτησης',
+  'search.expand': 'Άνοιγμα αναζήτησης',
+
+  'blog.intro': 'Άρθρα, οδηγοί και κριτικές για δραστηριότητες για παιδιά στην Αθήνα και όχι μόνο.',
+  'blog.allPosts': 'Όλα τα άρθρα',
+  'blog.noPosts': 'Δεν βρέθηκαν άρθρα σε αυτή την κατηγορία. Ελέγξτε ξανά αργότερα.',
+  'blog.viewAll': 'Όλα τα άρθρα',
+  'blog.readingTime': '{minutes} λεπτά ανάγνωσης',
+  'blog.readMore': 'Διαβάστε περισσότερα →',
+  'blog.title': 'PameKids Blog',
+  'blog.loadingTitle': 'Φόρτωση άρθρου...',
+  'blog.loadingDescription': 'Φόρτωση του περιεχομένου του άρθρου.',
+  'blog.backToAll': 'Πίσω σε όλα τα άρθρα',
+  'blog.updated': 'Ενημερώθηκε: {date}',
+  'blog.related': 'Σχετικά άρθρα',
+  'blog.anchorLink': 'Σύνδεσμος ενότητας',
+
+  'share.label': 'Κοινοποίηση:',
+  'share.on': 'Κοινοποίηση στο {platform}',
+  'share.email': 'Αποστολή με email',
+  'share.copyLink': 'Αντιγραφή συνδέσμου',
+  'share.copyLinkTitle': 'Αντιγραφή συνδέσμου στο πρόχειρο',
+
+  'legal.privacyTitle': 'Πολιτική Απορρήτου',
+  'legal.termsTitle': 'Όροι Χρήσης',
+
+  'welcome.title': 'Καλώς ήρθατε στο PameKids!',
+  'welcome.intro': 'Βοηθάμε τους γονείς να ανακαλύπτουν υπέροχες δραστηριότητες για παιδιά στην Ελλάδα και χρειαζόμαστε μόνο δύο πράγματα από εσάς για να ξεκινήσουμε.',
+  'welcome.locationTitle': 'Υπηρεσίες τοποθεσίας',
+  'welcome.locationText': 'Χρησιμοποιούμε την τοποθεσία σας για να σας δείχνουμε κοντινές δραστηριότητες και ακριβείς οδηγίες.',
+  'welcome.analyticsTitle': 'Στατιστικά χρήσης',
+  'welcome.analyticsText': 'Συλλέγουμε ανώνυμα δεδομένα χρήσης για να βελτιώνουμε την εφαρμογή και να την κάνουμε πιο χρήσιμη για τις οικογένειες.',
+  'welcome.acceptAll': 'Αποδοχή όλων',
+  'welcome.customize': 'Προσαρμογή',
+  'welcome.agreeBefore': 'Χρησιμοποιώντας το PameKids, αποδέχεστε την',
+  'welcome.agreeAnd': 'και τους',
+  'welcome.customizeTitle': 'Ρυθμίσεις απορρήτου',
+  'welcome.analytics': 'Στατιστικά',
+  'welcome.analyticsShort': 'Συλλογή ανώνυμων δεδομένων χρήσης για τη βελτίωση της εφαρμογής',
+  'welcome.location': 'Τοποθεσία',
+  'welcome.locationShort': 'Εμφάνιση κοντινών δραστηριοτήτων και ακριβών οδηγιών',
+  'welcome.save': 'Αποθήκευση προτιμήσεων',
+  'welcome.back': 'Πίσω',
+  'welcome.rejectAll': 'Απόρριψη όλων',
+
+  'prefs.title': 'Προτιμήσεις newsletter',
+  'prefs.invalidLink': 'Ο σύνδεσμος δεν είναι έγκυρος ή έχει λήξει. Χρησιμοποιήστε τον σύνδεσμο από το πιο πρόσφατο email του PameKids ή εγγραφείτε ξανά από τον χάρτη.',
+  'prefs.loading': 'Φόρτωση των προτιμήσεών σας...',
+  'prefs.confirmed': 'Η εγγραφή σας επιβεβαιώθηκε. Πείτε μας τι αρέσει στην οικογένειά σας για να σας στέλνουμε τις κατάλληλες δραστηριότητες.',
+  'prefs.isUnsubscribed': 'Το {email} έχει διαγραφεί από το newsletter του PameKids.',
+  'prefs.subscribeAgain': 'Εγγραφή ξανά',
+  'prefs.confirmUnsubscribe': 'Διαγραφή του {email} από το newsletter του PameKids;',
+  'prefs.yesUnsubscribe': 'Ναι, διαγράψτε με',
+  'prefs.sentTo': 'Τα newsletter στέλνονται στο {email}.',
+  'prefs.interests': 'Ενδιαφέροντα',
+  'prefs.interestsHelp': 'Αφήστε τα όλα ανεπίλεκτα για να μαθαίνετε για κάθε είδους δραστηριότητα.',
+  'prefs.saving': 'Αποθήκευση...',
+  'prefs.save': 'Αποθήκευση προτιμήσεων',
+  'prefs.unsubscribe': 'Διαγραφή',
+  'prefs.saved': 'Οι προτιμήσεις σας αποθηκεύτηκαν',
+  'prefs.unsubscribedMessage': 'Διαγραφήκατε και δεν θα λαμβάνετε άλλα newsletter',
+  'prefs.resubscribedMessage': 'Καλώς ήρθατε πίσω! Είστε ξανά εγγεγραμμένοι',
+
+  'report.title': 'Ενημέρωση / Αναφορά προβλήματος',
+  'report.introBefore': 'Βοηθήστε μας να βελτιώσουμε τις πληροφορίες για το',
+  'report.introAfter': 'με τα σχόλιά σας.',
+  'report.type': 'Είδος υποβολής *',
+  'report.types.proTips': 'Υποβολή συμβουλής',
+  'report.types.incorrectInfo': 'Ενημέρωση στοιχείων',
+  'report.types.closed': 'Έκλεισε / Μετακόμισε',
+  'report.types.inappropriate': 'Ακατάλληλο περιεχόμενο',
+  'report.types.other': 'Άλλο',
+  'report.description': 'Περιγραφή',
+  'report.optional': '(προαιρετικό)',
+  'report.descriptionPlaceholder': 'Περιγράψτε αναλυτικά την ενημέρωση ή το πρόβλημα',
+  'report.addTip': 'Πρόταση της συμβουλής για την ενότητα «Συμβουλές» της καταχώρισης',
+  'report.whatChanges': 'Τι πρέπει να αλλάξει;',
+  'report.fields.openingHours': 'Ωράριο',
+  'report.fields.ageRange': 'Ηλικίες',
+  'report.fields.priceRange': 'Τιμή',
+  'report.fields.proTips': 'Συμβουλές',
+  'report.hoursPlaceholder': 'π.χ. 09:00–17:00 ή Κλειστό',
+  'report.minAge': 'Ελάχιστη ηλικία',
+  'report.maxAge': 'Μέγιστη ηλικία',
+  'report.to': 'έως',
+  'report.years': 'ετών',
+  'report.notSure': 'Δεν είμαι σίγουρος/η',
+  'report.priceBudget': '€ (Οικονομικό)',
+  'report.priceModerate': '€€ (Μέτριο)',
+  'report.pricePremium': '€€€ (Ακριβό)',
+  'report.emailHelp': 'Θα το χρησιμοποιήσουμε μόνο αν έχουμε ερωτήσεις για την αναφορά σας',
+  'report.submit': 'Υποβολή αναφοράς',
+  'report.errors.description': 'Περιγράψτε την ενημέρωση ή το πρόβλημα',
+  'report.errors.ages': 'Οι ηλικίες πρέπει να είναι ακέραιοι από 0 έως 18',
+  'report.errors.ageOrder': 'Η μέγιστη ηλικία δεν μπορεί να είναι μικρότερη από την ελάχιστη',
+  'report.errors.failed': 'Η υποβολή της αναφοράς απέτυχε'
+};
+
+export default el;
@@ -0,0 +1,387 @@
+/**
+ * English UI strings
+ * Keys are grouped by the part of the site they appear on. "{name}" placeholders are
+ * filled in by translate() in src/utils/i18n.ts, and strings that depend on a count come
+ * in ".one" and ".other" forms for translatePlural().
+ */
+
+const en = {
+  'landing.defaultIntro.activity': 'Looking for {name} for kids in Athens? Here are {places} we recommend for children.',
+  'landing.defaultIntro.area': 'Looking for things to do with kids in {name}? We have found {places} for children in and around {name}.',
+  'landing.placeCount.one': '1 place',
+  'landing.placeCount.other': '{count} places',
+  'landing.heading.area': 'Kids\' activities in {name}',
+  'landing.heading.activity': '{name} for kids in Athens',
+  'landing.home': 'Home',
+  'landing.empty': 'We haven\'t listed any places here yet.',
+  'landing.exploreMap': 'Explore the map',
+  'landing.showMore': 'Show more',
+  'landing.fromBlog': 'From the blog',
+  'landing.moreAreas': 'More areas',
+  'landing.relatedActivities': 'Related activities',
+
+  'header.searchPlaceholder': 'Search activities...',
+  'header.switchLanguage': 'Switch to {language}',
+
+  'newsletter.button.label': 'Sign up for newsletter',
+  'newsletter.button.text': 'Subscribe',
+  'newsletter.title': 'Subscribe to discover more',
+  'newsletter.intro': 'Sign up to discover more of the best kids activities, classes, and events in your area!',
+  'newsletter.email': 'Email Address *',
+  'newsletter.emailPlaceholder': 'your.email@example.com',
+  'newsletter.name': 'Name (optional)',
+  'newsletter.namePlaceholder': 'Your name',
+  'newsletter.postalCode': 'Postal Code (optional)',
+  'newsletter.postalCodePlaceholder': 'Enter your postal code',
+  'newsletter.postalCodeHelp': 'Helps us send you location-specific activities',
+  'newsletter.ageRanges': 'Child Age Ranges *',
+  'newsletter.ageRange': '{range} years',
+  'newsletter.submitting': 'Submitting...',
+  'newsletter.subscribe': 'Subscribe',
+  'newsletter.privacyNote': 'We\'ll never share your email with anyone else. We\'ll ask you to confirm your email first, and every newsletter has a link to change your preferences or unsubscribe.',
+  'newsletter.success': 'Almost done! We\'ve sent you an email - please open the link in it to confirm your subscription.',
+  'newsletter.errors.emailRequired': 'Email is required',
+  'newsletter.errors.emailInvalid': 'Please enter a valid email address',
+  'newsletter.errors.ageRanges': 'Please select at least one age range',
+  'newsletter.errors.alreadySubscribed': 'This email is already subscribed to our newsletter.',
+  'newsletter.errors.failed': 'Failed to subscribe to newsletter',
+
+  'suggest.button.label': 'Suggest an activity',
+  'suggest.button.text': 'Activity',
+  'suggest.title': 'Suggest an Activity',
+  'suggest.intro': 'We want to learn about and add your favorite places and activities to PameKids!',
+  'suggest.name': 'Activity Name *',
+  'suggest.namePlaceholder': 'e.g. City Park Playground',
+  'suggest.type': 'Activity Type *',
+  'suggest.link': 'Google Maps Link *',
+  'suggest.linkHelp': 'Right-click on a location in Google Maps and select "Share" to get the link',
+  'suggest.description': 'Tell us your Pro Tips and what you love about this place (optional)',
+  'suggest.descriptionPlaceholder': 'Brief description of the activity (max 2000 characters)',
+  'suggest.characterCount': '{count}/2,000 characters',
+  'suggest.email': 'Your Email (optional)',
+  'suggest.emailHelp': 'We\'ll only use this to contact you if we have questions about your suggestion',
+  'suggest.submit': 'Submit Suggestion',
+  'suggest.success': 'Thank you! Our team will review your submission soon!',
+  'suggest.errors.name': 'Activity name is required',
+  'suggest.errors.linkRequired': 'Google Maps link is required',
+  'suggest.errors.linkInvalid': 'Please enter a valid URL',
+  'suggest.errors.descriptionLength': 'Description must be 2,000 characters or less',
+  'suggest.errors.failed': 'Failed to submit activity suggestion',
+
+  'footer.copyright': '© 2025 PameKids. All rights reserved.',
+  'footer.blog': 'Blog',
+  'footer.contact': 'Contact',
+  'footer.privacy': 'Privacy',
+  'footer.terms': 'Terms',
+
+  'common.retry': 'Retry',
+  'common.scrollLeft': 'Scroll left',
+  'common.scrollRight': 'Scroll right',
+  'common.loading': 'Loading...',
+  'common.showOnMap': 'Show on map',
+  'common.done': 'Done',
+  'common.apply': 'Apply',
+  'common.close': 'Close',
+  'common.closeModal': 'Close modal',
+  'common.unexpectedError': 'An unexpected error occurred. Please try again.',
+  'common.returnHome': 'Return to Home',
+
+  'home.heading': 'Discover the best kids\' activities in Greece',
+  'home.viewAll': 'View All Activities',
+  'home.featured': 'Featured Activities',
+  'home.freeNearYou': 'Free Activities Near You',
+  'home.exploreByArea': 'Explore by Area',
+  'home.noLocations': 'No locations available at this time.',
+  'home.loadError': 'Failed to load activities. Please try again later.',
+
+  'location.ages': 'Ages {min}-{max}',
+  'location.viewDetails': 'View Details →',
+  'location.loadingPhotos': 'Loading photos...',
+  'location.proTips': 'Pro Tips',
+  'location.noProTips': 'No pro tips yet for this location. Be the first to share your insider knowledge!',
+  'location.submitProTip': 'Submit a Pro Tip',
+  'location.firstProTip': 'Be the first to share a Pro Tip!',
+  'location.agesLabel': 'Ages:',
+  'location.ageYears': '{min}-{max} years',
+  'location.priceLabel': 'Price:',
+  'location.openingHours': 'Opening Hours',
+  'location.contactInfo': 'Contact Information',
+  'location.phone': 'Phone:',
+  'location.email': 'Email:',
+  'location.website': 'Website:',
+  'location.address': 'Address:',
+  'location.reportIssue': 'Submit an Update or Report an Issue',
+  'location.directions': 'Directions',
+  'location.getDirections': 'Get Directions',
+  'location.websiteButton': 'Website',
+  'location.call': 'Call',
+
+  'place.backToMap': 'Back to the map',
+
+  'hours.notAvailable': 'Hours not available',
+  'hours.closed': 'Closed',
+  'hours.open24': 'Open 24 hours',
+  'hours.closedNow': 'Closed now',
+  'hours.closesIn': 'Open now · closes in {minutes} min',
+  'hours.openUntil': 'Open now · until {time}',
+  'hours.specialHours': 'Special hours',
+
+  'days.Monday': 'Monday',
+  'days.Tuesday': 'Tuesday',
+  'days.Wednesday': 'Wednesday',
+  'days.Thursday': 'Thursday',
+  'days.Friday': 'Friday',
+  'days.Saturday': 'Saturday',
+  'days.Sunday': 'Sunday',
+
+  'events.upcoming': 'Upcoming Events',
+  'events.next': 'Next: {date}',
+  'events.bookNow': 'Book now',
+  'events.weekly': '{days}, until {until}',
+  'events.daily': '{dates}, daily',
+  'events.from': '{dates} · from {time}',
+
+  'monthsShort.1': 'Jan',
+  'monthsShort.2': 'Feb',
+  'monthsShort.3': 'Mar',
+  'monthsShort.4': 'Apr',
+  'monthsShort.5': 'May',
+  'monthsShort.6': 'Jun',
+  'monthsShort.7': 'Jul',
+  'monthsShort.8': 'Aug',
+  'monthsShort.9': 'Sep',
+  'monthsShort.10': 'Oct',
+  'monthsShort.11': 'Nov',
+  'monthsShort.12': 'Dec',
+
+  'daysShort.Monday': 'Mon',
+  'daysShort.Tuesday': 'Tue',
+  'daysShort.Wednesday': 'Wed',
+  'daysShort.Thursday': 'Thu',
+  'daysShort.Friday': 'Fri',
+  'daysShort.Saturday': 'Sat',
+  'daysShort.Sunday': 'Sun',
+
+  'rating.seeReviews': 'Click to see reviews on Google',
+  'rating.reviews': '{count} reviews',
+  'rating.poweredByGoogle': 'Powered by Google',
+
+  'favorites.save': 'Save {name}',
+  'favorites.editLists': 'Saved - edit lists for {name}',
+  'favorites.saveToList': 'Save to list',
+  'favorites.newListPlaceholder': 'New list, e.g. Rainy day',
+  'favorites.createList': 'Create list',
+  'favorites.remove': 'Remove',
+
+  'planner.inPlanOpen': 'In your day plan - open planner',
+  'planner.addNamed': 'Add {name} to your day plan',
+  'planner.inPlan': 'In your day plan',
+  'planner.add': 'Add to day plan',
+  'planner.title': 'Plan your day',
+  'planner.date': 'Date',
+  'planner.start': 'Start',
+  'planner.travelMode': 'Getting around',
+  'planner.mode.walking': 'Walking',
+  'planner.mode.driving': 'Car',
+  'planner.mode.transit': 'Public transport',
+  'planner.duration.minutes': '{minutes} min',
+  'planner.duration.hours': '{hours} h',
+  'planner.duration.hoursMinutes': '{hours} h {minutes} min',
+  'planner.hours.open': 'Open',
+  'planner.hours.closesAt': 'Closes at {time}',
+  'planner.hours.closesSoon': 'Closes soon',
+  'planner.hours.closed': 'Closed at this time',
+  'planner.hours.unknown': 'Hours unknown',
+  'planner.empty': 'Add places with the calendar button on any location to start planning your day.',
+  'planner.timeAt': 'Time at {name}',
+  'planner.stay': 'Stay {duration}',
+  'planner.moveEarlier': 'Move earlier',
+  'planner.moveLater': 'Move later',
+  'planner.remove': 'Remove {name}',
+  'planner.problems': 'Some stops aren\'t open for the whole visit - try reordering or changing the start time.',
+  'planner.routeLimit': 'Google Maps routes include the first {count} stops and the last one.',
+  'planner.openRoute': 'Open route in Google Maps',
+  'planner.addToCalendar': 'Add to calendar (.ics)',
+  'planner.clear': 'Clear plan',
+
+  'photos.none': 'No photos available',
+  'photos.loading': 'Loading photo...',
+  'photos.placeholder': 'Using placeholder images',
+  'photos.more': 'More photos...',
+  'photos.viewOnGoogle': 'View on Google Maps',
+  'photos.previous': 'Previous photo',
+  'photos.next': 'Next photo',
+  'photos.unavailable': 'Image not available',
+  'photos.previousImage': 'Previous image',
+  'photos.nextImage': 'Next image',
+
+  'map.loadingLocations': 'Loading locations...',
+  'map.thisWeekend': 'This weekend',
+  'map.clearAll': 'Clear All',
+  'map.findingLocation': 'Finding your location...',
+  'map.preparing': 'We\'re preparing your map experience',
+  'map.yourLocation': 'Your current location',
+  'map.showLocations': 'Show locations',
+  'map.centerOnMe': 'Center on my location',
+
+  'drawer.nearby': 'Nearby Activities',
+  'drawer.noneInView': 'No locations in current view',
+  'drawer.zoomOut': 'Try zooming out or panning the map',
+  'drawer.processing': 'Processing locations...',
+  'drawer.backToList': 'Back to list',
+  'drawer.openFullPage': 'Open full page',
+
+  'travel.within': 'Within {km} km',
+  'travel.minutes.walking': '{minutes} min walk',
+  'travel.minutes.driving': '{minutes} min by car',
+  'travel.minutes.transit': '{minutes} min by public transport',
+
+  'reach.label': 'Distance',
+  'reach.any': 'Any Distance',
+  'reach.mode.distance': 'Distance',
+  'reach.mode.walking': 'Walk',
+  'reach.mode.driving': 'Car',
+  'reach.mode.transit': 'Transit',
+  'reach.minutes': '{minutes} min',
+  'reach.myLocation': 'My location',
+  'reach.notShared': '(not shared)',
+  'reach.anAddress': 'An address',
+  'reach.addressPlaceholder': 'e.g. Kifisias 100, Marousi',
+  'reach.estimate': 'Travel times are estimates based on distance.',
+  'reach.locating': 'Finding address...',
+  'reach.shareLocation': 'Share your location or pin an address instead',
+  'reach.enterAddress': 'Enter an address to measure from',
+  'reach.addressNotFound': 'We couldn\'t find that address',
+
+  'openAt.label': 'Open at',
+  'openAt.selected': 'Open {window}',
+  'openAt.any': 'Any Time',
+  'openAt.nextDay': 'Ends the next day',
+  'openAt.wholeWindow': 'Shows places open for the whole window',
+
+  'price.label': 'Price',
+  'price.selected': 'Price: {price}',
+  'price.any': 'Any Price',
+  'price.free': 'Free',
+
+  'age.label': 'Age',
+  'age.selected': 'Age {age}',
+  'age.any': 'Any Age',
+
+  'lists.label': 'My Lists',
+  'lists.all': 'All Places',
+  'lists.saveShared': 'Save to my lists',
+  'lists.empty': 'Tap the heart on any place to start a list.',
+  'lists.copyLink': 'Copy share link',
+  'lists.copyLinkFor': 'Copy share link for {name}',
+  'lists.copied': 'Copied',
+  'lists.delete': 'Delete list',
+  'lists.deleteNamed': 'Delete {name}',
+  'lists.confirmDelete': 'Delete the list "{name}"?',
+
+  'search.placeholder': 'Search by name, activity, age...',
+  'search.nameMatch': 'Name match',
+  'search.activityMatch': 'Activity: {activity}',
+  'search.descriptionMatch': 'Matched description',
+  'search.addressMatch': 'Matched address',
+  'search.collapse': 'Collapse search',
+  'search.expand': 'Expand search',
+
+  'blog.intro': 'Discover articles, guides and reviews about children\'s activities in Athens and beyond.',
+  'blog.allPosts': 'All Posts',
+  'blog.noPosts': 'No blog posts found for this category. Please check back later.',
+  'blog.viewAll': 'View All Posts',
+  'blog.readingTime': '{minutes} min read',
+  'blog.readMore': 'Read More →',
+  'blog.title': 'PameKids Blog',
+  'blog.loadingTitle': 'Loading Blog Post...',
+  'blog.loadingDescription': 'Loading blog post content.',
+  'blog.backToAll': 'Back to all articles',
+  'blog.updated': 'Updated: {date}',
+  'blog.related': 'Related Articles',
+  'blog.anchorLink': 'Anchor link',
+
+  'share.label': 'Share:',
+  'share.on': 'Share on {platform}',
+  'share.email': 'Share via Email',
+  'share.copyLink': 'Copy link',
+  'share.copyLinkTitle': 'Copy link to clipboard',
+
+  'legal.privacyTitle': 'Privacy Policy',
+  'legal.termsTitle': 'Terms of Service',
+
+  'welcome.title': 'Welcome to PameKids!',
+  'welcome.intro': 'We help parents discover amazing activities for children in Greece, and we just need a couple things from you to get started.',
+  'welcome.locationTitle': 'Location Services',
+  'welcome.locationText': 'We use your location to show you nearby activities and provide accurate directions.',
+  'welcome.analyticsTitle': 'Usage Analytics',
+  'welcome.analyticsText': 'We collect anonymous usage data to improve our app and make it more useful for families.',
+  'welcome.acceptAll': 'Accept All',
+  'welcome.customize': 'Customize',
+  'welcome.agreeBefore': 'By using PameKids, you agree to our',
+  'welcome.agreeAnd': 'and',
+  'welcome.customizeTitle': 'Customize Privacy Settings',
+  'welcome.analytics': 'Analytics',
+  'welcome.analyticsShort': 'Collect anonymous usage data to improve our app',
+  'welcome.location': 'Location',
+  'welcome.locationShort': 'Show nearby activities and provide accurate directions',
+  'welcome.save': 'Save Preferences',
+  'welcome.back': 'Back',
+  'welcome.rejectAll': 'Reject All',
+
+  'prefs.title': 'Newsletter Preferences',
+  'prefs.invalidLink': 'This link is not valid or has expired. Please use the link from your latest PameKids email, or sign up again from the map.',
+  'prefs.loading': 'Loading your preferences...',
+  'prefs.confirmed': 'Your subscription is confirmed. Tell us what your family is into so we can send you the right activities.',
+  'prefs.isUnsubscribed': '{email} is unsubscribed from the PameKids newsletter.',
+  'prefs.subscribeAgain': 'Subscribe again',
+  'prefs.confirmUnsubscribe': 'Unsubscribe {email} from the PameKids newsletter?',
+  'prefs.yesUnsubscribe': 'Yes, unsubscribe me',
+  'prefs.sentTo': 'Newsletters go to {email}.',
+  'prefs.interests': 'Interests',
+  'prefs.interestsHelp': 'Leave everything unticked to hear about all kinds of activities.',
+  'prefs.saving': 'Saving...',
+  'prefs.save': 'Save preferences',
+  'prefs.unsubscribe': 'Unsubscribe',
+  'prefs.saved': 'Your preferences have been saved',
+  'prefs.unsubscribedMessage': 'You have been unsubscribed and will not get any more newsletters',
+  'prefs.resubscribedMessage': 'Welcome back! You are subscribed again',
+
+  'report.title': 'Submit Update / Report Issue',
+  'report.introBefore': 'Help us improve the information for',
+  'report.introAfter': 'by providing your feedback.',
+  'report.type': 'Submission Type *',
+  'report.types.proTips': 'Submit Pro Tip',
+  'report.types.incorrectInfo': 'Update Location Details',
+  'report.types.closed': 'Location Closed/Moved',
+  'report.types.inappropriate': 'Inappropriate Content',
+  'report.types.other': 'Other',
+  'report.description': 'Description',
+  'report.optional': '(optional)',
+  'report.descriptionPlaceholder': 'Please describe the update or issue in detail',
+  'report.addTip': 'Suggest this tip for the Pro Tips section of the listing',
+  'report.whatChanges': 'What should change?',
+  'report.fields.openingHours': 'Opening hours',
+  'report.fields.ageRange': 'Age range',
+  'report.fields.priceRange': 'Price range',
+  'report.fields.proTips': 'Pro tips',
+  'report.hoursPlaceholder': 'e.g. 09:00–17:00 or Closed',
+  'report.minAge': 'Minimum age',
+  'report.maxAge': 'Maximum age',
+  'report.to': 'to',
+  'report.years': 'years',
+  'report.notSure': 'Not sure',
+  'report.priceBudget': '€ (Budget)',
+  'report.priceModerate': '€€ (Moderate)',
+  'report.pricePremium': '€€€ (Premium)',
+  'report.emailHelp': 'We\'ll only use this to contact you if we have questions about your report',
+  'report.submit': 'Submit Report',
+  'report.errors.description': 'Please describe the update or issue',
+  'report.errors.ages': 'Ages must be whole numbers from 0 to 18',
+  'report.errors.ageOrder': 'The maximum age cannot be lower than the minimum age',
+  'report.errors.failed': 'Failed to submit report'
+};
+
+export type TranslationKey = keyof typeof en;
+
+export default en;
@@ -1,3 +1,5 @@
+import { Language } from '../utils/i18n';
+
 /**
  * Blog post data structure for PameKids blog
  */
@@ -20,6 +22,14 @@ export interface BlogImage {
   height?: number;
 }
 
+// Text of a post in another language - see src/utils/i18n.ts
+export interface BlogPostTranslation {
+  title?: string;
+  subtitle?: string;
+  summary?: string;
+  content?: string;
+}
+
 // Structure for individual blog posts
 export interface BlogPost {
   id: string;
@@ -37,4 +47,5 @@ export interface BlogPost {
   tags?: string[];
   categories?: string[];
   relatedPosts?: string[]; // IDs of related posts
+  translations?: Partial<Record<Language, BlogPostTranslation>>; // Stored as translations.el etc.
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { ActivityType, DayOfWeek } from './location';
+
+/**
+ * Time-bound activities (camps, shows, workshops) held at a Location
+ */
+
+// How often an event repeats between its start and end dates
+//  - once: a single run from startDate to endDate (usually the same day)
+//  - daily: every day in the range, e.g. an Easter camp
+//  - weekly: on the listed weekdays in the range, e.g. a theatre show on Sat & Sun
+export type EventFrequency = 'once' | 'daily' | 'weekly';
+
+export interface EventRecurrence {
+  frequency: EventFrequency;
+  days?: DayOfWeek[]; // Required for weekly events
+}
+
+export interface Event {
+  id: string;
+  locationId: string; // The venue - events are shown on its map pin and Drawer page
+  title: string;
+  description: string;
+  types: ActivityType[]; // e.g. ['easter-camp'] - defaults to the venue's types when empty
+  startDate: string; // YYYY-MM-DD (Athens)
+  endDate: string; // YYYY-MM-DD (Athens), inclusive
+  startTime?: string; // HH:MM - omitted for all-day events
+  endTime?: string; // HH:MM
+  recurrence: EventRecurrence;
+  ageRange: {
+    min: number;
+    max: number;
+  };
+  price?: string; // Free text, e.g. "€15 per child" or "Free"
+  bookingUrl?: string;
+  created_at?: {
+    seconds: number;
+    nanoseconds: number;
+  } | null;
+  updated_at?: {
+    seconds: number;
+    nanoseconds: number;
+  } | null;
+}
@@ -1,9 +1,58 @@
 // src/types/location.ts
 import { ACTIVITY_CATEGORIES } from '../utils/metadata';
+import { Language } from '../utils/i18n';
 
 // Derive the ActivityType from the keys of ACTIVITY_CATEGORIES
 export type ActivityType = keyof typeof ACTIVITY_CATEGORIES;
 
+export type DayOfWeek =
+  | 'Monday'
+  | 'Tuesday'
+  | 'Wednesday'
+  | 'Thursday'
+  | 'Friday'
+  | 'Saturday'
+  | 'Sunday';
+
+// A single opening interval in 24h "HH:MM" local (Europe/Athens) time.
+// A close time at or before the open time means the interval runs past midnight,
+// and "00:00"-"24:00" is a full day.
+export interface TimeInterval {
+  open: string;
+  close: string;
+}
+
+// Intervals per day - an empty array means closed, a missing day means unknown
+export type WeeklyHours = Partial<Record<DayOfWeek, TimeInterval[]>>;
+
+// Hours that replace the regular week between two dates, e.g. summer opening times.
+// Dates are "MM-DD" and the range may wrap around the new year.
+export interface SeasonalHours {
+  name: string;
+  startDate: string;
+  endDate: string;
+  hours: WeeklyHours;
+}
+
+// One-off change for a specific "YYYY-MM-DD" date (holidays, special events)
+export interface HoursException {
+  date: string;
+  label?: string;
+  intervals: TimeInterval[]; // Empty array means closed all day
+}
+
+export interface OpeningSchedule {
+  weekly: WeeklyHours;
+  seasons?: SeasonalHours[];
+  exceptions?: HoursException[];
+}
+
+// Text of a location in another language - see src/utils/i18n.ts
+export interface LocationTranslation {
+  description?: string;
+  proTips?: string;
+}
+
 export interface Location {
   id: string;
   name: string;
@@ -20,7 +69,8 @@ export interface Location {
     max: number;
   };
   priceRange?: string;
-  openingHours: Record<string, string>;
+  openingHours: Record<string, string>; // Display text per day, kept in sync with schedule
+  schedule?: OpeningSchedule; // Structured hours - derived from openingHours when missing
   contact: {
     phone?: string;
     email?: string;
@@ -44,6 +94,10 @@ export interface Location {
   featuredPosition?: number | null; // Position in the featured locations list (0-8), null when not featured
   // Pro Tips field - contains insider information for each location
   proTips?: string;
+  // Description and pro tips in other languages, stored as translations.el etc.
+  translations?: Partial<Record<Language, LocationTranslation>>;
+  suggestionId?: string; // The activity suggestion this location was imported from
+  slug?: string; // Place page slug, set by the locations function when the location is added
   // Optional timestamps - these won't interfere with existing location processing
   created_at?: {
     seconds: number;
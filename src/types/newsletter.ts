@@ -0,0 +1,69 @@
+/**
+ * Newsletter subscribers - stored by functions/newsletter.js
+ */
+
+// pending until the confirmation link is opened; subscribers from before
+// double opt-in have no status and count as confirmed
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed';
+
+// What a subscriber sees and changes on the preferences page
+export interface NewsletterPreferences {
+  email: string;
+  firstName: string;
+  ageRanges: string[];
+  interests: string[]; // Activity types from ACTIVITY_CATEGORIES
+  postalCode: string;
+  status: SubscriberStatus;
+}
+
+export type NewsletterPreferencesUpdate = Partial<Pick<NewsletterPreferences, 'firstName' | 'ageRanges' | 'interests' | 'postalCode'>> & {
+  subscribed?: boolean;
+};
+
+// A subscriber's digest as rendered by functions/newsletter-digest.js, for the admin preview
+export interface NewsletterDigestPreview {
+  email: string; // The subscriber it was built for
+  subject: string;
+  text: string;
+  html: string;
+  counts: {
+    locations: number;
+    blogPosts: number;
+    camps: number;
+  };
+  area: string; // Postal area the places are sorted from, empty when unknown
+}
+
+// A subscriber as listed in the admin dashboard
+export interface NewsletterSubscriber {
+  id: string;
+  email: string;
+  firstName: string;
+  ageRanges: string[];
+  postalCode: string;
+  subscribedAt: string;
+  status?: SubscriberStatus; // Missing for sign-ups from before double opt-in
+  interests?: string[];
+  source?: 'import'; // Added from a CSV rather than the sign-up form
+}
+
+// One subscriber from an imported CSV - only email is required
+export type SubscriberImportRow = Partial<Pick<NewsletterSubscriber, 'firstName' | 'ageRanges' | 'interests' | 'postalCode'>> & {
+  email: string;
+};
+
+export type SubscriberImportOutcome = 'new' | 'duplicate' | 'invalid';
+
+// What functions/newsletter.js decided for each imported row
+export interface SubscriberImportResult {
+  index: number; // Position in the rows that were sent
+  email: string;
+  outcome: SubscriberImportOutcome;
+  message?: string;
+}
+
+export interface SubscriberImportReport {
+  dryRun: boolean;
+  results: SubscriberImportResult[];
+  summary: Record<SubscriberImportOutcome | 'total' | 'imported', number>;
+}
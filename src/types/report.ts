@@ -0,0 +1,51 @@
+import { Location } from './location';
+
+/**
+ * Issue reports sent from a location's "Report an issue" form
+ */
+
+export type IssueType = 'pro-tips' | 'incorrect-info' | 'closed-location' | 'inappropriate-content' | 'other';
+
+// new -> in-progress -> resolved / rejected; closed reports can be reopened
+export type ReportStatus = 'new' | 'in-progress' | 'resolved' | 'rejected';
+
+// Location fields a visitor can propose new values for with their report
+export type SuggestedEditField = 'openingHours' | 'ageRange' | 'priceRange' | 'proTips';
+
+// A proposed change per field - "from" is what the location had when the report was sent
+export type SuggestedEdit = {
+  [K in SuggestedEditField]?: { from: Location[K] | null; to: NonNullable<Location[K]> };
+};
+
+export type SuggestedEditStatus = 'pending' | 'accepted' | 'rejected';
+
+// One line of a report's audit trail - written by the reports function, never edited
+export type ReportHistoryEntry =
+  | { type: 'status'; from: ReportStatus; to: ReportStatus; by: string; at: string }
+  | { type: 'assignment'; from: string | null; to: string | null; by: string; at: string }
+  | { type: 'note'; text: string; by: string; at: string }
+  | { type: 'suggested-edit'; to: Exclude<SuggestedEditStatus, 'pending'>; by: string; at: string };
+
+export interface Report {
+  id: string;
+  locationId: string;
+  locationName: string;
+  issueType: IssueType;
+  description: string;
+  email: string;
+  timestamp: string; // ISO string, when the visitor sent it
+  status: ReportStatus;
+  assignedTo?: string | null; // Admin email
+  history?: ReportHistoryEntry[]; // Oldest first
+  suggestedEdit?: SuggestedEdit; // Only on pro tip and incorrect details reports
+  suggestedEditStatus?: SuggestedEditStatus;
+  updated_at?: string;
+}
+
+// Changes an admin can make in one triage request
+export interface ReportTriageUpdate {
+  status?: ReportStatus;
+  assignedTo?: string | null;
+  note?: string;
+  suggestedEdit?: Exclude<SuggestedEditStatus, 'pending'>;
+}
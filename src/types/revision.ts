@@ -0,0 +1,34 @@
+/**
+ * Location change history - one entry per write, stored in locations/{id}/revisions
+ * by functions/location-revisions.js
+ */
+
+// admin: saved in the dashboard, places-update: photos and ratings from Google,
+// restore: an admin rolled the location back to an earlier revision,
+// delete: an admin deleted the location - every field goes to null,
+// suggestion: a moderator approved the activity suggestion the location was imported from
+export type RevisionSource = 'admin' | 'places-update' | 'restore' | 'delete' | 'suggestion';
+
+export interface RevisionChange {
+  field: string; // Top-level field, or "placeData.rating" style path for place data and contact details
+  from: unknown; // null when the field was not set
+  to: unknown;
+}
+
+export interface LocationRevision {
+  id: string;
+  author: string; // Admin email, or the automated job that made the change
+  source: RevisionSource;
+  at: string; // ISO string
+  changes: RevisionChange[];
+  restoredFrom?: string; // Revision ID, for restores
+}
+
+// A deleted location, listed in deleted-locations until it is restored or added again
+export interface DeletedLocation {
+  id: string; // The location's ID - its revisions are still at locations/{id}/revisions
+  name: string;
+  deletedAt: string; // ISO string
+  deletedBy: string;
+  revisionId: string | null; // The delete revision
+}
@@ -0,0 +1,21 @@
+/**
+ * Activity suggestions sent from the "Suggest an activity" form
+ */
+
+export type SuggestionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ActivitySuggestion {
+  id: string;
+  name: string;
+  type: string; // Suggested ActivityType - not checked when submitted
+  googleMapsLink: string;
+  description: string;
+  email: string;
+  timestamp: string;
+  status: SuggestionStatus;
+  locationId?: string; // The location it was imported as, once approved
+  rejectionReason?: string;
+  notificationQueued?: boolean; // The submitter was emailed the rejection reason
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
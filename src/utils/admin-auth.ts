@@ -0,0 +1,87 @@
+import { User, signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { getAdminAuth } from './firebase';
+
+/**
+ * Admin roles
+ * Admins sign in with Firebase Auth and their role is a custom claim set by the
+ * `admin` Netlify function. Mirrors functions/admin-auth.js - each role includes
+ * the ones before it.
+ */
+
+export type AdminRole = 'editor' | 'moderator' | 'owner';
+
+// Lowest to highest
+export const ADMIN_ROLES: AdminRole[] = ['editor', 'moderator', 'owner'];
+
+export const isAdminRole = (role: unknown): role is AdminRole => {
+  return typeof role === 'string' && (ADMIN_ROLES as string[]).includes(role);
+};
+
+/**
+ * Checks whether a role is at least the minimum required
+ */
+export const hasAdminRole = (role: AdminRole | null | undefined, minimumRole: AdminRole): boolean => {
+  return isAdminRole(role) && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minimumRole);
+};
+
+/**
+ * Reads a signed-in user's admin role from their ID token
+ * @param user The Firebase user
+ * @param forceRefresh Fetch a new token, e.g. right after an owner changed the role
+ */
+export const getUserRole = async (user: User, forceRefresh = false): Promise<AdminRole | null> => {
+  const { claims } = await user.getIdTokenResult(forceRefresh);
+  return isAdminRole(claims.role) ? claims.role : null;
+};
+
+/**
+ * Gets the signed-in admin's ID token to send as "Authorization: Bearer <token>"
+ * @param minimumRole Lowest role allowed to carry on
+ * @returns A fresh ID token (the SDK refreshes it before it expires)
+ */
+export const getAdminIdToken = async (minimumRole: AdminRole = 'editor'): Promise<string> => {
+  // On a page load the SDK restores the session asynchronously
+  const auth = getAdminAuth();
+  await auth.authStateReady();
+
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Admin authentication required. Please log in again.');
+  }
+
+  const { token, claims } = await user.getIdTokenResult();
+  if (!hasAdminRole(isAdminRole(claims.role) ? claims.role : null, minimumRole)) {
+    throw new Error(`This action needs the ${minimumRole} role.`);
+  }
+
+  return token;
+};
+
+/**
+ * Signs an admin in with email and password
+ * @returns The admin's role
+ * @throws If the credentials are wrong or the account has no admin role
+ */
+export const signInAdmin = async (email: string, password: string): Promise<AdminRole> => {
+  try {
+    const { user } = await signInWithEmailAndPassword(getAdminAuth(), email, password);
+    const role = await getUserRole(user, true);
+
+    if (!role) {
+      await signOut(getAdminAuth());
+      throw new Error('This account does not have admin access.');
+    }
+
+    return role;
+  } catch (error: any) {
+    if (error.code === 'auth/invalid-credential' || error.code === 'auth/wrong-password' || error.code === 'auth/user-not-found') {
+      throw new Error('Invalid email or password');
+    }
+    if (error.code === 'auth/too-many-requests') {
+      throw new Error('Too many attempts. Please try again later.');
+    }
+    throw error;
+  }
+};
+
+export const signOutAdmin = (): Promise<void> => signOut(getAdminAuth());
@@ -0,0 +1,39 @@
+import { parseCsv, toCsv } from './data-export';
+
+interface Row {
+  name: string;
+  tags?: string[];
+}
+
+const columns = [
+  { header: 'Name', value: (row: Row) => row.name },
+  { header: 'Tags', value: (row: Row) => row.tags }
+];
+
+describe('toCsv', () => {
+  test('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([
+      { name: 'Park, "big"', tags: ['a', 'b'] },
+      { name: 'Line\nbreak' }
+    ], columns)).toBe('Name,Tags\r\n"Park, ""big""",a; b\r\n"Line\nbreak",');
+  });
+
+  test('keeps spreadsheet formulas from running', () => {
+    expect(toCsv([{ name: '=HYPERLINK("x")' }], columns)).toBe('Name,Tags\r\n"\'=HYPERLINK(""x"")",');
+  });
+});
+
+describe('parseCsv', () => {
+  test('reads quoted fields, CRLF endings and a byte order mark', () => {
+    expect(parseCsv('\uFEFFemail,name\r\na@example.com,"Smith, ""Jo"""\r\n\r\nb@example.com,"Two\nlines"')).toEqual([
+      ['email', 'name'],
+      ['a@example.com', 'Smith, "Jo"'],
+      ['b@example.com', 'Two\nlines']
+    ]);
+  });
+
+  test('round-trips toCsv output', () => {
+    const rows = [{ name: 'Μαρία, "Athens"', tags: ['x'] }];
+    expect(parseCsv(toCsv(rows, columns))).toEqual([['Name', 'Tags'], ['Μαρία, "Athens"', 'x']]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Data export
+ * CSV and JSON downloads of the admin lists (subscribers, reports, suggestions) and the
+ * CSV parser behind the subscriber import. CSV follows RFC 4180: comma separated, fields
+ * with commas, quotes or line breaks in double quotes, quotes doubled.
+ */
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+// Spreadsheet apps run cells starting with these as formulas - visitors write some of
+// the exported text, so those cells get a leading apostrophe
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) ? value.join('; ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document with a header row
+ * @param rows Records to export
+ * @param columns Header and value of each column - lists are joined with "; "
+ * @returns CSV text with CRLF line endings
+ */
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]): string => {
+  const lines = [
+    columns.map(column => toCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => toCell(column.value(row))).join(','))
+  ];
+  return lines.join('\r\n');
+};
+
+/**
+ * Parses CSV text into rows of fields
+ * Handles quoted fields, doubled quotes, CRLF or LF line endings and a UTF-8 byte order mark;
+ * blank lines are skipped
+ * @param text The CSV document
+ * @returns One array of fields per line
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+/**
+ * Saves records as a CSV or JSON file in the browser
+ * @param rows Records to export - JSON keeps every field, CSV only the columns
+ * @param columns CSV columns
+ * @param filename File name without extension; today's date is appended
+ * @param format csv or json
+ */
+export const downloadExport = <T>(rows: T[], columns: ExportColumn<T>[], filename: string, format: ExportFormat): void => {
+  // The byte order mark makes Excel read Greek text as UTF-8
+  const content = format === 'csv' ? `\uFEFF${toCsv(rows, columns)}` : JSON.stringify(rows, null, 2);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,78 @@
+import { RawLocation, auditLocations } from './data-health';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+// A location with nothing to flag
+const makeLocation = (id: string, overrides: Partial<RawLocation> = {}): RawLocation => ({
+  id,
+  name: `Place ${id}`,
+  coordinates: { lat: 37.97, lng: 23.72 },
+  types: ['indoor-play'],
+  primaryType: 'indoor-play',
+  ageRange: { min: 3, max: 12 },
+  openingHours: { Monday: '10:00 AM – 8:00 PM' },
+  priceRange: '€',
+  proTips: 'Go early',
+  placeData: {
+    photoUrls: ['a', 'b'],
+    storedPhotoUrls: ['a', 'b'],
+    last_fetched: '2026-05-30T00:00:00Z'
+  },
+  ...overrides
+});
+
+const kindsFor = (location: RawLocation) => auditLocations([location], NOW).map(issue => issue.kind);
+
+describe('auditLocations', () => {
+  test('has nothing to say about a complete location', () => {
+    expect(auditLocations([makeLocation('ok')], NOW)).toEqual([]);
+  });
+
+  test('flags the fields getLocations fills with defaults', () => {
+    const location = makeLocation('gaps', { primaryType: undefined, ageRange: undefined });
+    delete location.coordinates;
+
+    expect(kindsFor(location)).toEqual(['missing-coordinates', 'missing-primary-type', 'missing-age-range']);
+    expect(kindsFor(makeLocation('zero', { coordinates: { lat: 0, lng: 0 } }))).toEqual(['missing-coordinates']);
+  });
+
+  test('flags coordinates outside Greece and a primary type missing from types', () => {
+    const issues = auditLocations([makeLocation('rome', { coordinates: { lat: 41.9, lng: 12.5 }, primaryType: 'cafe' })], NOW);
+
+    expect(issues.map(issue => issue.kind)).toEqual(['outside-greece', 'primary-type-not-in-types']);
+    expect(issues[1].message).toBe("Primary type Cafes isn't one of its types (indoor-play)");
+  });
+
+  test('flags missing hours, price, tips and unstored photos', () => {
+    const location = makeLocation('sparse', {
+      openingHours: {},
+      priceRange: undefined,
+      proTips: '  ',
+      placeData: { photoUrls: ['a', 'b', 'c'], storedPhotoUrls: ['a'], last_fetched: '2026-05-30T00:00:00Z' }
+    });
+
+    const issues = auditLocations([location], NOW);
+    expect(issues.map(issue => issue.kind)).toEqual(['missing-hours', 'missing-price', 'missing-pro-tips', 'photos-not-stored']);
+    expect(issues[3].message).toBe('Only 1 of 3 Google photos are stored');
+  });
+
+  test('flags stale Google data, including Firestore timestamps', () => {
+    const stale = makeLocation('stale', {
+      placeData: { storedPhotoUrls: ['a'], last_fetched: { seconds: Date.parse('2026-03-01T00:00:00Z') / 1000 } }
+    });
+
+    const issues = auditLocations([stale], NOW);
+    expect(issues.map(issue => issue.kind)).toEqual(['stale-place-data']);
+    expect(issues[0].message).toBe('Google data was last fetched 92 days ago');
+  });
+
+  test('flags likely duplicates by name and distance', () => {
+    const a = makeLocation('a', { name: 'Allou Fun Park' });
+    const b = makeLocation('b', { name: 'Allou! Fun Park Athens', coordinates: { lat: 37.9705, lng: 23.7202 } });
+    const farAway = makeLocation('c', { name: 'Allou Fun Park', coordinates: { lat: 38.1, lng: 23.72 } });
+
+    const duplicates = auditLocations([a, b, farAway], NOW).filter(issue => issue.kind === 'possible-duplicate');
+    expect(duplicates.map(issue => [issue.locationId, issue.relatedLocationId])).toEqual([['a', 'b'], ['b', 'a']]);
+    expect(duplicates[0].message).toMatch(/^Looks like a duplicate of "Allou! Fun Park Athens" \(\d+ m away\)$/);
+  });
+});
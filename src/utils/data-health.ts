@@ -0,0 +1,208 @@
+import { ACTIVITY_CATEGORIES } from './metadata';
+import { getDistanceKm } from './geo';
+import { getLocationSchedule, hasKnownHours } from './opening-hours';
+
+/**
+ * Data health
+ * Audits location documents for the gaps getLocations papers over with defaults -
+ * 0,0 coordinates, the "entertainment" type, the 0-16 age range - and for data that
+ * needs an editor's attention, like missing hours, unstored photos and likely duplicates.
+ */
+
+// A location document as stored, before getLocations fills in defaults
+export interface RawLocation {
+  id: string;
+  [field: string]: any;
+}
+
+export type DataHealthIssueKind =
+  | 'missing-coordinates'
+  | 'outside-greece'
+  | 'missing-primary-type'
+  | 'primary-type-not-in-types'
+  | 'missing-age-range'
+  | 'missing-hours'
+  | 'missing-price'
+  | 'missing-pro-tips'
+  | 'photos-not-stored'
+  | 'stale-place-data'
+  | 'possible-duplicate';
+
+export interface DataHealthIssue {
+  locationId: string;
+  locationName: string;
+  kind: DataHealthIssueKind;
+  message: string;
+  relatedLocationId?: string; // The other location of a possible duplicate
+}
+
+// Labels for the filters and summary, in the order issues are listed
+export const DATA_HEALTH_ISSUE_LABELS: Record<DataHealthIssueKind, string> = {
+  'missing-coordinates': 'Missing coordinates',
+  'outside-greece': 'Coordinates outside Greece',
+  'missing-primary-type': 'Missing primary type',
+  'primary-type-not-in-types': 'Primary type not in types',
+  'missing-age-range': 'Missing age range',
+  'missing-hours': 'Missing opening hours',
+  'missing-price': 'Missing price range',
+  'missing-pro-tips': 'Missing pro tips',
+  'photos-not-stored': 'Photos not stored',
+  'stale-place-data': 'Stale Google data',
+  'possible-duplicate': 'Possible duplicate'
+};
+
+// Rough bounding box around Greece, islands included
+const GREECE_BOUNDS = { south: 34.8, north: 41.8, west: 19.3, east: 29.7 };
+
+// The scheduled update refreshes Google data every 3 days, so a month means it keeps failing
+export const STALE_PLACE_DATA_DAYS = 30;
+
+// Places this close with matching names are probably the same place
+export const DUPLICATE_DISTANCE_METERS = 150;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// last_fetched is an ISO string from the admin forms and a Firestore Timestamp from the functions
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.seconds === 'number') return value.seconds * 1000;
+  return null;
+};
+
+// Lowercase, without accents or punctuation, so "Allou! Fun Park" matches "allou fun park"
+const normalizeName = (name: string): string => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9\u0370-\u03ff]+/g, ' ')
+  .trim();
+
+const hasCoordinates = (location: RawLocation): boolean => {
+  const { coordinates } = location;
+  return Boolean(coordinates) &&
+    typeof coordinates.lat === 'number' && typeof coordinates.lng === 'number' &&
+    !(coordinates.lat === 0 && coordinates.lng === 0);
+};
+
+const isInGreece = ({ lat, lng }: { lat: number; lng: number }): boolean =>
+  lat >= GREECE_BOUNDS.south && lat <= GREECE_BOUNDS.north && lng >= GREECE_BOUNDS.west && lng <= GREECE_BOUNDS.east;
+
+const typeName = (type: string): string => ACTIVITY_CATEGORIES[type]?.name || type;
+
+// Issues found by looking at one location on its own
+const auditLocation = (location: RawLocation, now: Date): Omit<DataHealthIssue, 'locationId' | 'locationName'>[] => {
+  const issues: Omit<DataHealthIssue, 'locationId' | 'locationName'>[] = [];
+  const types: string[] = Array.isArray(location.types) ? location.types : [];
+
+  if (!hasCoordinates(location)) {
+    issues.push({ kind: 'missing-coordinates', message: 'Coordinates are missing or 0,0, so the map shows it off the coast of Africa' });
+  } else if (!isInGreece(location.coordinates)) {
+    const { lat, lng } = location.coordinates;
+    issues.push({ kind: 'outside-greece', message: `Coordinates ${lat.toFixed(4)}, ${lng.toFixed(4)} are outside Greece` });
+  }
+
+  if (!location.primaryType) {
+    issues.push({ kind: 'missing-primary-type', message: 'No primary type - the site shows it as Entertainment' });
+  } else if (!types.includes(location.primaryType)) {
+    issues.push({
+      kind: 'primary-type-not-in-types',
+      message: `Primary type ${typeName(location.primaryType)} isn't one of its types (${types.join(', ') || 'none'})`
+    });
+  }
+
+  if (!location.ageRange || typeof location.ageRange.min !== 'number' || typeof location.ageRange.max !== 'number') {
+    issues.push({ kind: 'missing-age-range', message: 'No age range - the site shows 0-16' });
+  }
+
+  if (!hasKnownHours(getLocationSchedule({ openingHours: location.openingHours || {}, schedule: location.schedule }))) {
+    issues.push({ kind: 'missing-hours', message: 'No opening hours' });
+  }
+
+  if (!location.priceRange) {
+    issues.push({ kind: 'missing-price', message: 'No price range' });
+  }
+
+  if (!location.proTips || !String(location.proTips).trim()) {
+    issues.push({ kind: 'missing-pro-tips', message: 'No pro tips' });
+  }
+
+  const photoCount = location.placeData?.photoUrls?.length || 0;
+  const storedCount = location.placeData?.storedPhotoUrls?.length || 0;
+  if (storedCount === 0) {
+    issues.push({
+      kind: 'photos-not-stored',
+      message: photoCount > 0
+        ? `None of its ${photoCount} Google photos are stored, so they expire`
+        : 'No photos'
+    });
+  } else if (storedCount < photoCount) {
+    issues.push({ kind: 'photos-not-stored', message: `Only ${storedCount} of ${photoCount} Google photos are stored` });
+  }
+
+  const lastFetched = toMillis(location.placeData?.last_fetched);
+  if (lastFetched === null) {
+    issues.push({ kind: 'stale-place-data', message: 'Google data has never been fetched' });
+  } else {
+    const ageDays = Math.floor((now.getTime() - lastFetched) / DAY_MS);
+    if (ageDays > STALE_PLACE_DATA_DAYS) {
+      issues.push({ kind: 'stale-place-data', message: `Google data was last fetched ${ageDays} days ago` });
+    }
+  }
+
+  return issues;
+};
+
+// Pairs of locations with matching names within DUPLICATE_DISTANCE_METERS of each other
+const findPossibleDuplicates = (locations: RawLocation[]): DataHealthIssue[] => {
+  const candidates = locations
+    .filter(hasCoordinates)
+    .map(location => ({ location, name: normalizeName(location.name || '') }))
+    .filter(candidate => candidate.name.length > 0);
+
+  const issues: DataHealthIssue[] = [];
+  candidates.forEach((a, index) => {
+    candidates.slice(index + 1).forEach(b => {
+      const namesMatch = a.name === b.name ||
+        (Math.min(a.name.length, b.name.length) >= 4 && (a.name.includes(b.name) || b.name.includes(a.name)));
+      if (!namesMatch) return;
+
+      const meters = Math.round(getDistanceKm(a.location.coordinates, b.location.coordinates) * 1000);
+      if (meters > DUPLICATE_DISTANCE_METERS) return;
+
+      [[a.location, b.location], [b.location, a.location]].forEach(([location, other]) => {
+        issues.push({
+          locationId: location.id,
+          locationName: location.name || location.id,
+          kind: 'possible-duplicate',
+          message: `Looks like a duplicate of "${other.name}" (${meters} m away)`,
+          relatedLocationId: other.id
+        });
+      });
+    });
+  });
+  return issues;
+};
+
+/**
+ * Audits every location
+ * @param locations Location documents as stored
+ * @param now Reference time for stale Google data
+ * @returns Issues grouped by location, in the order of the locations given
+ */
+export const auditLocations = (locations: RawLocation[], now: Date = new Date()): DataHealthIssue[] => {
+  const duplicates = findPossibleDuplicates(locations);
+
+  return locations.flatMap(location => [
+    ...auditLocation(location, now).map(issue => ({
+      locationId: location.id,
+      locationName: location.name || location.id,
+      ...issue
+    })),
+    ...duplicates.filter(issue => issue.locationId === location.id)
+  ]);
+};
@@ -0,0 +1,93 @@
+import { buildItinerary, buildItineraryIcs, getDefaultStopMinutes } from './day-planner';
+import { getDirectionsUrl } from './directions';
+import { ActivityType, Location } from '../types/location';
+
+const makeLocation = (
+  id: string,
+  lat: number,
+  lng: number,
+  type: ActivityType = 'playground',
+  openingHours: Record<string, string> = {}
+): Location => ({
+  id,
+  name: id,
+  coordinates: { lat, lng },
+  types: [type],
+  primaryType: type,
+  description: '',
+  address: 'Athens, Greece',
+  ageRange: { min: 0, max: 12 },
+  openingHours,
+  contact: {}
+});
+
+// 17 October 2026 is a Saturday (Athens is UTC+3 until the end of October)
+const playground = makeLocation('playground', 37.9755, 23.7348, 'playground', { Saturday: '09:00–20:00' });
+const taverna = makeLocation('taverna', 37.9715, 23.7257, 'restaurant', { Saturday: '11:00–12:30' });
+const museum = makeLocation('museum', 37.9686, 23.7283, 'history', { Saturday: 'Closed' });
+const park = makeLocation('park', 37.9723, 23.7366);
+
+describe('buildItinerary', () => {
+  const plan = {
+    date: '2026-10-17',
+    startTime: '10:00',
+    travelMode: 'walking' as const,
+    stops: [playground, taverna, museum, park].map(location => ({
+      locationId: location.id,
+      durationMinutes: getDefaultStopMinutes(location)
+    }))
+  };
+  const itinerary = buildItinerary(plan, [playground, taverna, museum, park]);
+
+  test('chains visits with travel time between stops', () => {
+    expect(itinerary.map(stop => stop.location.id)).toEqual(['playground', 'taverna', 'museum', 'park']);
+    expect(itinerary[0].arrival.toISOString()).toBe('2026-10-17T07:00:00.000Z');
+    expect(itinerary[0].travelMinutes).toBe(0);
+    expect(itinerary[1].travelMinutes).toBeGreaterThan(0);
+    expect(itinerary[1].arrival.getTime()).toBe(
+      itinerary[0].departure.getTime() + itinerary[1].travelMinutes * 60000
+    );
+  });
+
+  test('checks each stop against its opening hours', () => {
+    expect(itinerary.map(stop => stop.hoursStatus)).toEqual(['open', 'closes-early', 'closed', 'unknown']);
+    expect(itinerary[1].closesAt?.toISOString()).toBe('2026-10-17T09:30:00.000Z');
+  });
+
+  test('skips stops that are no longer listed', () => {
+    expect(buildItinerary(plan, [playground, park])).toHaveLength(2);
+  });
+});
+
+describe('buildItineraryIcs', () => {
+  test('writes one event per stop with escaped text and CRLF lines', () => {
+    const itinerary = buildItinerary(
+      {
+        date: '2026-10-17',
+        startTime: '10:00',
+        travelMode: 'driving',
+        stops: [{ locationId: 'cafe', durationMinutes: 60 }]
+      },
+      [{ ...makeLocation('cafe', 37.97, 23.73, 'cafe'), name: 'Καφέ, Πλάκα; και παιδική χαρά με μεγάλο κήπο και παιχνίδια' }]
+    );
+    const ics = buildItineraryIcs(itinerary, new Date('2026-10-01T00:00:00Z'));
+
+    expect(ics).toContain('BEGIN:VEVENT\r\n');
+    expect(ics).toContain('DTSTART:20261017T070000Z\r\n');
+    expect(ics).toContain('DTEND:20261017T080000Z\r\n');
+    expect(ics.replace(/\r\n /g, '')).toContain('SUMMARY:Καφέ\\, Πλάκα\\; και');
+    // Folded lines stay within 75 bytes
+    ics.split('\r\n').forEach(line => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    });
+  });
+});
+
+describe('getDirectionsUrl', () => {
+  test('builds single and multi-stop links', () => {
+    expect(getDirectionsUrl([{ lat: 1, lng: 2 }])).toBe('https://www.google.com/maps/dir/?api=1&destination=1,2');
+    expect(getDirectionsUrl([{ lat: 1, lng: 2 }, { lat: 3, lng: 4 }, { lat: 5, lng: 6 }], { travelMode: 'walking' }))
+      .toBe('https://www.google.com/maps/dir/?api=1&destination=5,6&waypoints=1,2%7C3,4&travelmode=walking');
+    expect(getDirectionsUrl([])).toBe('');
+  });
+});
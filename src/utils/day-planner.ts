@@ -0,0 +1,196 @@
+import { ActivityType, Location } from '../types/location';
+import { APP_NAME, APP_URL } from './metadata';
+import { getDistanceKm } from './geo';
+import { TravelMode, estimateTravelMinutes } from './travel-time';
+import {
+  athensTimeToDate,
+  getLocationSchedule,
+  hasKnownHours,
+  minutesUntilClose,
+  timeToMinutes
+} from './opening-hours';
+
+/**
+ * Day planner
+ * Turns an ordered list of stops into a timed itinerary - travel estimates between
+ * stops, an opening-hours check for each visit - and exports it as an .ics calendar.
+ */
+
+export interface PlannedStop {
+  locationId: string;
+  durationMinutes: number; // Time spent at the stop
+}
+
+export interface DayPlan {
+  date: string; // Athens date, YYYY-MM-DD
+  startTime: string; // HH:MM - when the family sets off to the first stop
+  travelMode: TravelMode;
+  stops: PlannedStop[];
+}
+
+// How a visit lines up with the venue's hours
+export type StopHoursStatus = 'open' | 'closes-early' | 'closed' | 'unknown';
+
+export interface ItineraryStop {
+  location: Location;
+  arrival: Date;
+  departure: Date;
+  travelMinutes: number; // From the previous stop (0 for the first)
+  hoursStatus: StopHoursStatus;
+  closesAt: Date | null; // Set when the venue closes before the planned departure
+}
+
+// Meals are shorter than activities
+const MEAL_TYPES: ActivityType[] = ['restaurant', 'cafe', 'food-court'];
+const DEFAULT_ACTIVITY_MINUTES = 90;
+const DEFAULT_MEAL_MINUTES = 60;
+
+/**
+ * Suggests how long to spend at a location
+ * @param location The stop being added
+ * @returns Minutes - shorter for restaurants and cafes
+ */
+export const getDefaultStopMinutes = (location: Location): number => {
+  const primaryType = location.primaryType || location.types[0];
+  return MEAL_TYPES.includes(primaryType) ? DEFAULT_MEAL_MINUTES : DEFAULT_ACTIVITY_MINUTES;
+};
+
+/**
+ * Checks a visit against the venue's opening hours
+ */
+const getHoursStatus = (
+  location: Location,
+  arrival: Date,
+  departure: Date
+): { hoursStatus: StopHoursStatus; closesAt: Date | null } => {
+  const schedule = getLocationSchedule(location);
+  if (!hasKnownHours(schedule)) return { hoursStatus: 'unknown', closesAt: null };
+
+  const remaining = minutesUntilClose(schedule, arrival);
+  if (remaining === null) return { hoursStatus: 'closed', closesAt: null };
+
+  const closesAt = new Date(arrival.getTime() + remaining * 60000);
+  return closesAt.getTime() >= departure.getTime()
+    ? { hoursStatus: 'open', closesAt: null }
+    : { hoursStatus: 'closes-early', closesAt };
+};
+
+/**
+ * Builds a timed itinerary from a plan
+ * @param plan Date, start time, travel mode and ordered stops
+ * @param locations All known locations (stops that no longer exist are skipped)
+ * @returns One entry per stop, in order - empty if the start time is invalid
+ */
+export const buildItinerary = (plan: DayPlan, locations: Location[]): ItineraryStop[] => {
+  const startMinutes = timeToMinutes(plan.startTime);
+  if (startMinutes === null) return [];
+
+  const locationsById = new Map(locations.map(location => [location.id, location]));
+  const itinerary: ItineraryStop[] = [];
+  let clock = athensTimeToDate(plan.date, startMinutes);
+  let previous: Location | null = null;
+
+  plan.stops.forEach(stop => {
+    const location = locationsById.get(stop.locationId);
+    if (!location) return;
+
+    const travelMinutes = previous
+      ? estimateTravelMinutes(getDistanceKm(previous.coordinates, location.coordinates), plan.travelMode)
+      : 0;
+    const arrival = new Date(clock.getTime() + travelMinutes * 60000);
+    const departure = new Date(arrival.getTime() + stop.durationMinutes * 60000);
+
+    itinerary.push({
+      location,
+      arrival,
+      departure,
+      travelMinutes,
+      ...getHoursStatus(location, arrival, departure)
+    });
+
+    clock = departure;
+    previous = location;
+  });
+
+  return itinerary;
+};
+
+// UTC "basic" format, e.g. 20261018T073000Z
+const toIcsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape text values per RFC 5545
+const escapeIcsText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Fold lines longer than 75 octets onto continuation lines (Greek names are 2 bytes a letter)
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  Array.from(line).forEach(char => {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their limit
+    if (currentLength + length > 75) {
+      chunks.push(current);
+      current = ' ';
+      currentLength = 1;
+    }
+    current += char;
+    currentLength += length;
+  });
+  chunks.push(current);
+
+  return chunks.join('\r\n');
+};
+
+/**
+ * Exports an itinerary as an iCalendar file, one event per stop
+ * @param itinerary The timed stops
+ * @param createdAt Timestamp for DTSTAMP (defaults to now)
+ * @returns The .ics file contents
+ */
+export const buildItineraryIcs = (itinerary: ItineraryStop[], createdAt: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_NAME}//Day Planner//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  itinerary.forEach((stop, index) => {
+    const description = stop.travelMinutes > 0
+      ? `Stop ${index + 1} of ${itinerary.length} · about ${stop.travelMinutes} min from the previous stop`
+      : `Stop ${index + 1} of ${itinerary.length}`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${toIcsDate(stop.arrival)}-${stop.location.id}@${APP_URL.replace(/^https?:\/\/(www\.)?/, '')}`,
+      `DTSTAMP:${toIcsDate(createdAt)}`,
+      `DTSTART:${toIcsDate(stop.arrival)}`,
+      `DTEND:${toIcsDate(stop.departure)}`,
+      `SUMMARY:${escapeIcsText(stop.location.name)}`,
+      `LOCATION:${escapeIcsText(stop.location.address)}`,
+      `GEO:${stop.location.coordinates.lat};${stop.location.coordinates.lng}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `URL:${APP_URL}/map?locationId=${encodeURIComponent(stop.location.id)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
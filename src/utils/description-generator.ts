@@ -1,43 +1,53 @@
 // src/utils/description-generator.ts
 
 /**
- * Generates an AI description for a place using the Anthropic API
+ * Requests an AI description for a place from the generate-description function
+ * Unlike generatePlaceDescription this throws on failure, for callers that must not
+ * overwrite an existing description with the default text
  * @param placeData - The Google Place data
  * @returns Promise with the generated description
  */
-export async function generatePlaceDescription(placeData: any): Promise<string> {
-  try {
-    console.log('Generating description for:', placeData.name);
-    
-    // Log reviews for debugging
-    if (placeData.reviews && placeData.reviews.length > 0) {
-      console.log(`Sending ${placeData.reviews.length} reviews to description generator`);
-      console.log('First review sample:', placeData.reviews[0].text.substring(0, 100) + '...');
-    } else {
-      console.log('No reviews available for description generation');
-    }
-    
-    // Call the Netlify function
-    const response = await fetch('/api/generate-description', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ place: placeData }),
-    });
+export async function requestPlaceDescription(placeData: any): Promise<string> {
+  console.log('Generating description for:', placeData.name);
+  
+  // Log reviews for debugging
+  if (placeData.reviews && placeData.reviews.length > 0) {
+    console.log(`Sending ${placeData.reviews.length} reviews to description generator`);
+    console.log('First review sample:', placeData.reviews[0].text.substring(0, 100) + '...');
+  } else {
+    console.log('No reviews available for description generation');
+  }
+  
+  // Call the Netlify function
+  const response = await fetch('/api/generate-description', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ place: placeData }),
+  });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
 
-    const data = await response.json();
-    
-    if (data.description) {
-      return data.description;
-    } else {
-      throw new Error('No description returned from API');
-    }
+  const data = await response.json();
+  
+  if (data.description) {
+    return data.description;
+  }
+  throw new Error('No description returned from API');
+}
+
+/**
+ * Generates an AI description for a place using the Anthropic API
+ * @param placeData - The Google Place data
+ * @returns Promise with the generated description, or a default text when generation fails
+ */
+export async function generatePlaceDescription(placeData: any): Promise<string> {
+  try {
+    return await requestPlaceDescription(placeData);
   } catch (error) {
     console.error('Error generating description:', error);
     
@@ -0,0 +1,48 @@
+import { Coordinates } from './geo';
+import { TravelMode } from './travel-time';
+
+/**
+ * Google Maps directions links
+ * Builds "open in Google Maps" URLs for a single destination or a multi-stop route.
+ * Uses the public Maps URLs API, so no key is needed and the app opens on mobile.
+ */
+
+const DIRECTIONS_BASE_URL = 'https://www.google.com/maps/dir/';
+
+// Google Maps allows up to nine intermediate waypoints in a directions URL
+export const MAX_DIRECTIONS_WAYPOINTS = 9;
+
+const formatPoint = (point: Coordinates): string => `${point.lat},${point.lng}`;
+
+/**
+ * Builds a Google Maps directions URL
+ * @param stops Stops in visiting order - the last one is the destination
+ * @param options origin (defaults to the visitor's current location) and travel mode
+ * @returns The directions URL, or an empty string when there are no stops
+ */
+export const getDirectionsUrl = (
+  stops: Coordinates[],
+  options: { origin?: Coordinates; travelMode?: TravelMode } = {}
+): string => {
+  if (stops.length === 0) return '';
+
+  const destination = stops[stops.length - 1];
+  // Anything past the limit is dropped rather than producing a link Google rejects
+  const waypoints = stops.slice(0, -1).slice(0, MAX_DIRECTIONS_WAYPOINTS);
+
+  // Build by hand so the coordinate commas stay readable in shared links
+  let url = `${DIRECTIONS_BASE_URL}?api=1`;
+  if (options.origin) {
+    url += `&origin=${formatPoint(options.origin)}`;
+  }
+  url += `&destination=${formatPoint(destination)}`;
+  if (waypoints.length > 0) {
+    url += `&waypoints=${waypoints.map(formatPoint).join('%7C')}`;
+  }
+  if (options.travelMode) {
+    // Our travel modes share their names with the Maps URLs API
+    url += `&travelmode=${options.travelMode}`;
+  }
+
+  return url;
+};
@@ -0,0 +1,66 @@
+import {
+  formatEventSchedule,
+  getDayOfWeek,
+  getEventDates,
+  getNextEventDate,
+  getUpcomingEvents,
+  getWeekendRange,
+  isEventInRange
+} from './events';
+import { Event } from '../types/event';
+
+const makeEvent = (id: string, overrides: Partial<Event>): Event => ({
+  id,
+  locationId: 'venue',
+  title: id,
+  description: '',
+  types: [],
+  startDate: '2026-04-06',
+  endDate: '2026-04-06',
+  recurrence: { frequency: 'once' },
+  ageRange: { min: 4, max: 12 },
+  ...overrides
+});
+
+describe('getWeekendRange', () => {
+  test('looks ahead on weekdays and stays on the current weekend', () => {
+    // Athens time, so a late Friday UTC evening is already Saturday
+    expect(getWeekendRange(new Date('2026-10-14T10:00:00+03:00'))).toEqual({ start: '2026-10-17', end: '2026-10-18' });
+    expect(getWeekendRange(new Date('2026-10-16T22:30:00Z'))).toEqual({ start: '2026-10-17', end: '2026-10-18' });
+    expect(getWeekendRange(new Date('2026-10-18T20:00:00+03:00'))).toEqual({ start: '2026-10-17', end: '2026-10-18' });
+  });
+});
+
+describe('event dates', () => {
+  const easterCamp = makeEvent('easter-camp', {
+    startDate: '2026-04-06',
+    endDate: '2026-04-17',
+    recurrence: { frequency: 'daily' },
+    startTime: '08:30',
+    endTime: '14:30'
+  });
+  const show = makeEvent('show', {
+    startDate: '2026-03-01',
+    endDate: '2026-06-28',
+    recurrence: { frequency: 'weekly', days: ['Saturday', 'Sunday'] }
+  });
+
+  test('expands weekly events to their weekdays', () => {
+    expect(getDayOfWeek('2026-04-11')).toBe('Saturday');
+    expect(getEventDates(show, { start: '2026-04-06', end: '2026-04-12' })).toEqual(['2026-04-11', '2026-04-12']);
+    expect(isEventInRange(show, { start: '2026-04-06', end: '2026-04-10' })).toBe(false);
+    expect(isEventInRange(easterCamp, { start: '2026-04-11', end: '2026-04-12' })).toBe(true);
+  });
+
+  test('finds the next date and drops finished events', () => {
+    expect(getNextEventDate(show, '2026-04-13')).toBe('2026-04-18');
+    expect(getNextEventDate(easterCamp, '2026-04-18')).toBeNull();
+    expect(getUpcomingEvents([show, easterCamp], '2026-04-08').map(event => event.id)).toEqual(['easter-camp', 'show']);
+  });
+
+  test('summarises the schedule', () => {
+    expect(formatEventSchedule(easterCamp)).toBe('6 Apr – 17 Apr, daily · 08:30–14:30');
+    expect(formatEventSchedule(show)).toBe('Sat & Sun, until 28 Jun');
+    expect(formatEventSchedule(makeEvent('workshop', { startDate: '2026-04-18', endDate: '2026-04-18' }))).toBe('Sat 18 Apr');
+  });
+});
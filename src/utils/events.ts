@@ -0,0 +1,147 @@
+import { DayOfWeek } from '../types/location';
+import { Event } from '../types/event';
+import { DAYS_OF_WEEK, getAthensDateParts, shiftDateKey } from './opening-hours';
+import { DEFAULT_LANGUAGE, Language, TranslationKey, translate } from './i18n';
+
+/**
+ * Event dates
+ * Expands an event's date range and recurrence into the days it actually runs, so the
+ * map can answer "what's on this weekend" and the Drawer can list upcoming dates.
+ * Dates are YYYY-MM-DD keys in Athens time, like the opening hours engine.
+ */
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+// Stops runaway loops on malformed ranges
+const MAX_RANGE_DAYS = 366;
+
+// "Apr", "Sat" - from the translations, as Intl abbreviations differ between browsers
+const shortMonth = (month: number, language: Language): string =>
+  translate(language, `monthsShort.${month}` as TranslationKey);
+const shortDay = (day: DayOfWeek, language: Language): string =>
+  translate(language, `daysShort.${day}` as TranslationKey);
+
+/**
+ * Works out the weekday of a date key
+ */
+export const getDayOfWeek = (dateKey: string): DayOfWeek => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  // getUTCDay() counts from Sunday, DAYS_OF_WEEK from Monday
+  return DAYS_OF_WEEK[(new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7];
+};
+
+/**
+ * Returns the upcoming weekend in Athens - the current one on Saturdays and Sundays
+ * @param from The instant to measure from (defaults to now)
+ * @returns Saturday to Sunday as date keys
+ */
+export const getWeekendRange = (from: Date = new Date()): DateRange => {
+  const today = getAthensDateParts(from);
+  const offset = today.day === 'Sunday' ? -1 : DAYS_OF_WEEK.indexOf('Saturday') - DAYS_OF_WEEK.indexOf(today.day);
+  const saturday = shiftDateKey(today.date, offset);
+  return { start: saturday, end: shiftDateKey(saturday, 1) };
+};
+
+/**
+ * Checks whether an event runs on a given day
+ */
+export const isEventOnDate = (event: Event, dateKey: string): boolean => {
+  if (dateKey < event.startDate || dateKey > event.endDate) return false;
+
+  if (event.recurrence.frequency === 'weekly') {
+    return (event.recurrence.days || []).includes(getDayOfWeek(dateKey));
+  }
+  return true;
+};
+
+/**
+ * Lists the days an event runs within a range
+ * @param event The event to expand
+ * @param range Days to look at
+ * @returns Matching date keys in order
+ */
+export const getEventDates = (event: Event, range: DateRange): string[] => {
+  const start = range.start > event.startDate ? range.start : event.startDate;
+  const end = range.end < event.endDate ? range.end : event.endDate;
+  const dates: string[] = [];
+
+  for (let date = start, count = 0; date <= end && count < MAX_RANGE_DAYS; date = shiftDateKey(date, 1), count++) {
+    if (isEventOnDate(event, date)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Checks whether an event runs on any day in a range
+ */
+export const isEventInRange = (event: Event, range: DateRange): boolean => {
+  return getEventDates(event, range).length > 0;
+};
+
+/**
+ * Finds the next day an event runs
+ * @param event The event
+ * @param fromDate First day to consider (defaults to today in Athens)
+ * @returns The date key, or null once the event is over
+ */
+export const getNextEventDate = (event: Event, fromDate: string = getAthensDateParts(new Date()).date): string | null => {
+  if (fromDate > event.endDate) return null;
+  // A week ahead is always enough to find the next weekly date
+  const dates = getEventDates(event, { start: fromDate, end: shiftDateKey(fromDate, 7) });
+  return dates.length > 0 ? dates[0] : null;
+};
+
+/**
+ * Returns events that haven't finished, soonest first
+ * @param events Events to check
+ * @param fromDate First day to consider (defaults to today in Athens)
+ */
+export const getUpcomingEvents = (events: Event[], fromDate: string = getAthensDateParts(new Date()).date): Event[] => {
+  return events
+    .map(event => ({ event, next: getNextEventDate(event, fromDate) }))
+    .filter((entry): entry is { event: Event; next: string } => entry.next !== null)
+    .sort((a, b) => a.next.localeCompare(b.next) || a.event.title.localeCompare(b.event.title))
+    .map(entry => entry.event);
+};
+
+/**
+ * Formats a date key for display, e.g. "Sat 18 Apr"
+ */
+export const formatEventDate = (dateKey: string, language: Language = DEFAULT_LANGUAGE): string => {
+  const [, month, day] = dateKey.split('-').map(Number);
+  return `${shortDay(getDayOfWeek(dateKey), language)} ${day} ${shortMonth(month, language)}`;
+};
+
+/**
+ * Summarises when an event runs, e.g. "Sat 18 Apr", "6 Apr – 17 Apr, daily"
+ * or "Sat & Sun, until 28 Jun", with times appended when set
+ */
+export const formatEventSchedule = (event: Event, language: Language = DEFAULT_LANGUAGE): string => {
+  const [, endMonth, endDay] = event.endDate.split('-').map(Number);
+  const until = `${endDay} ${shortMonth(endMonth, language)}`;
+  let dates: string;
+
+  if (event.recurrence.frequency === 'weekly') {
+    const days = (event.recurrence.days || []).map(day => shortDay(day, language)).join(' & ');
+    dates = translate(language, 'events.weekly', { days, until });
+  } else if (event.startDate === event.endDate) {
+    dates = formatEventDate(event.startDate, language);
+  } else {
+    const [, startMonth, startDay] = event.startDate.split('-').map(Number);
+    dates = `${startDay} ${shortMonth(startMonth, language)} – ${until}`;
+    if (event.recurrence.frequency === 'daily') {
+      dates = translate(language, 'events.daily', { dates });
+    }
+  }
+
+  if (event.startTime && event.endTime) {
+    return `${dates} · ${event.startTime}–${event.endTime}`;
+  }
+  return event.startTime ? translate(language, 'events.from', { dates, time: event.startTime }) : dates;
+};
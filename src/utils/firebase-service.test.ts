@@ -0,0 +1,18 @@
+import { toLocation } from './firebase-service';
+import { findLocationBySlug, getPlaceSlug } from './place-pages';
+
+describe('toLocation', () => {
+  test('keeps the stored slug, so place pages open by it', () => {
+    const location = toLocation('ChIJ_ccc333', {
+      name: 'Allou Fun Park',
+      slug: 'allou-fun-park',
+      suggestionId: 'suggestion-1',
+      types: ['theme-park']
+    });
+
+    expect(location.slug).toBe('allou-fun-park');
+    expect(location.suggestionId).toBe('suggestion-1');
+    expect(getPlaceSlug(location)).toBe('allou-fun-park');
+    expect(findLocationBySlug([location], 'allou-fun-park')?.id).toBe('ChIJ_ccc333');
+  });
+});
@@ -1,6 +1,12 @@
 import { db } from './firebase';
 import { Location } from '../types/location';
 import { BlogPost } from '../types/blog';
+import { Event } from '../types/event';
+import { Report, ReportTriageUpdate } from '../types/report';
+import { ActivitySuggestion } from '../types/suggestion';
+import { DeletedLocation, LocationRevision } from '../types/revision';
+import { RawLocation } from './data-health';
+import { NewsletterDigestPreview, SubscriberImportReport, SubscriberImportRow } from '../types/newsletter';
 import { 
   collection, 
   addDoc, 
@@ -11,10 +17,14 @@ import {
   deleteDoc,
   query, 
   where,
+  orderBy,
+  limit,
   Timestamp, 
   DocumentData,
-  serverTimestamp
+  serverTimestamp,
+  deleteField
 } from 'firebase/firestore';
+import { AdminRole, getAdminIdToken } from './admin-auth';
 
 // Collection names
 const COLLECTIONS = {
@@ -22,16 +32,57 @@ const COLLECTIONS = {
   REPORTS: 'location-reports',
   ACTIVITIES: 'activity-suggestions',
   LOCATIONS: 'locations', // Ensure this matches exactly with Firebase rules
-  BLOG_POSTS: 'blog-posts' // Collection for blog posts
+  REVISIONS: 'revisions', // Subcollection of each location with its change history
+  DELETED_LOCATIONS: 'deleted-locations', // Deleted locations, so their history can still be found
+  BLOG_POSTS: 'blog-posts', // Collection for blog posts
+  EVENTS: 'events', // Time-bound activities linked to a location
+  LANDING_PAGES: 'landing-pages' // Editor-written intros of the activity and area landing pages
 };
 
-// Helper function to check if user is authenticated as admin
-const verifyAdminAuth = (): string => {
-  const adminToken = localStorage.getItem('adminToken');
-  if (!adminToken) {
-    throw new Error('Admin authentication required. Please log in again.');
+// Helper function to check if user is signed in as an admin
+// Returns their Firebase ID token for calls to the Netlify functions; the functions
+// and the role checks in firestore.rules enforce access server-side
+const verifyAdminAuth = (minimumRole: AdminRole = 'editor'): Promise<string> => {
+  return getAdminIdToken(minimumRole);
+};
+
+// Thrown when a server function rejects a payload - fieldErrors are keyed by
+// field path (e.g. "ageRange.min") so forms can show them next to the inputs
+export class FieldValidationError extends Error {
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, fieldErrors: Record<string, string>) {
+    super(message);
+    this.name = 'FieldValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Send an admin write to one of the Netlify functions with the admin's ID token
+const callAdminFunction = async (
+  path: string,
+  method: 'POST' | 'PUT' | 'DELETE',
+  body?: unknown,
+  minimumRole: AdminRole = 'editor'
+) => {
+  const token = await verifyAdminAuth(minimumRole);
+  const response = await fetch(path, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    if (data.fieldErrors) {
+      throw new FieldValidationError(data.error || 'Please fix the highlighted fields', data.fieldErrors);
+    }
+    throw new Error(data.error || `Request failed with status ${response.status}`);
   }
-  return adminToken;
+  return data;
 };
 
 // Helper to format Firestore errors with more user-friendly messages
@@ -54,23 +105,11 @@ const formatFirestoreError = (error: any): string => {
 };
 
 // Newsletter functions
-export const addNewsletterSubscriber = async (data: any) => {
-  try {
-    const docRef = await addDoc(collection(db, COLLECTIONS.NEWSLETTER), {
-      ...data,
-      subscribedAt: Timestamp.now()
-    });
-    return { success: true, id: docRef.id };
-  } catch (error) {
-    console.error('Error adding newsletter subscriber:', error);
-    throw new Error(formatFirestoreError(error));
-  }
-};
-
+// Sign-ups go through /api/newsletter for the double opt-in, so there is no client-side add
 export const getNewsletterSubscribers = async (): Promise<DocumentData[]> => {
   try {
     // Verify admin authentication for sensitive data
-    verifyAdminAuth();
+    await verifyAdminAuth('moderator');
     
     const q = query(collection(db, COLLECTIONS.NEWSLETTER));
     const querySnapshot = await getDocs(q);
@@ -84,6 +123,27 @@ export const getNewsletterSubscribers = async (): Promise<DocumentData[]> => {
   }
 };
 
+// Render a subscriber's personalised digest without sending it
+export const previewNewsletterDigest = async (subscriberId: string): Promise<NewsletterDigestPreview> => {
+  const result = await callAdminFunction('/api/newsletter-digest/preview', 'POST', { subscriberId }, 'moderator');
+  return result.preview;
+};
+
+// Email a subscriber's digest to an admin, defaulting to the signed-in admin's address
+export const sendTestNewsletterDigest = async (subscriberId: string, to?: string): Promise<string> => {
+  const result = await callAdminFunction('/api/newsletter-digest/test-send', 'POST', { subscriberId, to }, 'moderator');
+  return result.message;
+};
+
+// Check subscribers from a CSV against the list - with dryRun nothing is saved
+export const importNewsletterSubscribers = async (
+  subscribers: SubscriberImportRow[],
+  dryRun: boolean
+): Promise<SubscriberImportReport> => {
+  const result = await callAdminFunction('/api/newsletter/import', 'POST', { subscribers, dryRun }, 'moderator');
+  return { dryRun: result.dryRun, results: result.results, summary: result.summary };
+};
+
 // Report functions
 export const addReport = async (data: any) => {
   try {
@@ -102,7 +162,7 @@ export const addReport = async (data: any) => {
 export const getReports = async (): Promise<DocumentData[]> => {
   try {
     // Verify admin authentication for sensitive data
-    verifyAdminAuth();
+    await verifyAdminAuth('moderator');
     
     const q = query(collection(db, COLLECTIONS.REPORTS));
     const querySnapshot = await getDocs(q);
@@ -116,6 +176,18 @@ export const getReports = async (): Promise<DocumentData[]> => {
   }
 };
 
+// Change a report's status or assignee, or add an internal note (moderators only)
+// The reports function checks the status transition and records who made the change
+export const updateReport = async (id: string, update: ReportTriageUpdate): Promise<Report> => {
+  try {
+    const result = await callAdminFunction(`/api/reports/${encodeURIComponent(id)}`, 'PUT', update, 'moderator');
+    return result.report;
+  } catch (error) {
+    console.error(`Error updating report ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
 // Activity suggestions functions
 export const addActivitySuggestion = async (data: any) => {
   try {
@@ -134,7 +206,7 @@ export const addActivitySuggestion = async (data: any) => {
 export const getActivitySuggestions = async (): Promise<DocumentData[]> => {
   try {
     // Verify admin authentication for sensitive data
-    verifyAdminAuth();
+    await verifyAdminAuth('moderator');
     
     const q = query(collection(db, COLLECTIONS.ACTIVITIES));
     const querySnapshot = await getDocs(q);
@@ -148,6 +220,38 @@ export const getActivitySuggestions = async (): Promise<DocumentData[]> => {
   }
 };
 
+// Mark a suggestion approved once it has been imported as a location, linking the two
+export const approveActivitySuggestion = async (id: string, locationId: string): Promise<ActivitySuggestion> => {
+  try {
+    const result = await callAdminFunction(
+      `/api/activities/${encodeURIComponent(id)}`,
+      'PUT',
+      { action: 'approve', locationId },
+      'moderator'
+    );
+    return result.suggestion;
+  } catch (error) {
+    console.error(`Error approving activity suggestion ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Reject a suggestion - the submitter is emailed the reason if they left an address
+export const rejectActivitySuggestion = async (id: string, reason: string): Promise<ActivitySuggestion> => {
+  try {
+    const result = await callAdminFunction(
+      `/api/activities/${encodeURIComponent(id)}`,
+      'PUT',
+      { action: 'reject', reason },
+      'moderator'
+    );
+    return result.suggestion;
+  } catch (error) {
+    console.error(`Error rejecting activity suggestion ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
 // Location functions
 
 // Function to force photo and rating updates for all locations (admin only)
@@ -155,15 +259,11 @@ export const getActivitySuggestions = async (): Promise<DocumentData[]> => {
 export const forcePhotoUpdatesForAllLocations = async (): Promise<{success: number, failed: number}> => {
   try {
     // Verify admin authentication
-    verifyAdminAuth();
+    const token = await verifyAdminAuth();
     
     console.log('Triggering server-side photo and rating updates for all locations...');
     
     // Call the server-side function instead of processing in-browser
-    const token = localStorage.getItem('adminToken');
-    if (!token) {
-      throw new Error('Admin token not found in localStorage. Please log in again.');
-    }
     
     // Improved error handling for the fetch request
     try {
@@ -217,7 +317,7 @@ export const forcePhotoUpdatesForAllLocations = async (): Promise<{success: numb
 export const getUpdateStatus = async (): Promise<any> => {
   try {
     // Verify admin authentication
-    verifyAdminAuth();
+    await verifyAdminAuth();
     
     // Get the update status document from Firestore
     const statusRef = doc(db, 'system', 'update_status');
@@ -282,7 +382,7 @@ const CACHE_KEYS = {
   LOCATIONS_LIST: 'pamekids_locations_cache',
   CACHE_VERSION: 'pamekids_cache_version'
 };
-const CACHE_VERSION = '1.0'; // Increment when data structure changes
+const CACHE_VERSION = '1.2'; // Increment when data structure changes
 const CACHE_EXPIRATION_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 // In-memory cache for locations
@@ -296,6 +396,37 @@ let locationsCache: {
   pendingPromise: null
 };
 
+/**
+ * A location document as the app uses it, with defaults for missing fields
+ * so map initialization always gets a valid Location
+ * @param id The document ID (the Google Place ID)
+ * @param data The document data
+ */
+export const toLocation = (id: string, data: DocumentData): Location => ({
+  id,
+  name: data.name || '',
+  coordinates: data.coordinates || { lat: 0, lng: 0 },
+  types: data.types || [],
+  primaryType: data.primaryType || 'entertainment',
+  description: data.description || '',
+  address: data.address || '',
+  ageRange: data.ageRange || { min: 0, max: 16 },
+  priceRange: data.priceRange,
+  openingHours: data.openingHours || {},
+  schedule: data.schedule,
+  contact: data.contact || {},
+  placeData: data.placeData,
+  images: data.images,
+  featured: data.featured,
+  featuredPosition: data.featuredPosition,
+  proTips: data.proTips || '',
+  translations: data.translations || undefined,
+  suggestionId: data.suggestionId,
+  slug: data.slug,
+  created_at: data.created_at || null,
+  updated_at: data.updated_at || null
+});
+
 // Helper function to get cached locations from localStorage
 const getLocationsFromLocalStorage = (): {data: Location[] | null, timestamp: number} => {
   try {
@@ -343,9 +474,6 @@ const saveLocationsToLocalStorage = (locations: Location[]) => {
 // Create a new blog post
 export const createBlogPost = async (blogPost: Omit<BlogPost, 'id'>): Promise<{ id: string }> => {
   try {
-    // Verify admin authentication
-    verifyAdminAuth();
-    
     // Generate a slug from the title if not provided
     if (!blogPost.slug) {
       blogPost.slug = blogPost.title
@@ -354,18 +482,11 @@ export const createBlogPost = async (blogPost: Omit<BlogPost, 'id'>): Promise<{
         .replace(/\s+/g, '-');
     }
     
-    // Add timestamps
-    const blogPostWithTimestamps = {
-      ...blogPost,
-      created_at: serverTimestamp(),
-      updated_at: serverTimestamp()
-    };
-    
-    // Add to Firestore
-    const docRef = await addDoc(collection(db, COLLECTIONS.BLOG_POSTS), blogPostWithTimestamps);
-    console.log(`Blog post created with ID: ${docRef.id}`);
+    // The blog-posts function checks the slug is unique and adds the timestamps
+    const result = await callAdminFunction('/api/blog-posts', 'POST', blogPost);
+    console.log(`Blog post created with ID: ${result.id}`);
     
-    return { id: docRef.id };
+    return { id: result.id };
   } catch (error) {
     console.error('Error creating blog post:', error);
     throw new Error(formatFirestoreError(error));
@@ -395,7 +516,8 @@ export const getBlogPosts = async (): Promise<BlogPost[]> => {
         readingTime: data.readingTime,
         tags: data.tags || [],
         categories: data.categories || [],
-        relatedPosts: data.relatedPosts || []
+        relatedPosts: data.relatedPosts || [],
+        translations: data.translations || undefined
       };
     });
   } catch (error) {
@@ -407,25 +529,7 @@ export const getBlogPosts = async (): Promise<BlogPost[]> => {
 // Update an existing blog post
 export const updateBlogPost = async (id: string, data: Partial<BlogPost>): Promise<{ success: boolean }> => {
   try {
-    // Verify admin authentication
-    verifyAdminAuth();
-    
-    const docRef = doc(db, COLLECTIONS.BLOG_POSTS, id);
-    
-    // Check if post exists
-    const docSnap = await getDoc(docRef);
-    if (!docSnap.exists()) {
-      throw new Error(`Blog post with ID ${id} not found`);
-    }
-    
-    // Add updated timestamp
-    const updatedData = {
-      ...data,
-      updated_at: serverTimestamp()
-    };
-    
-    // Update the document
-    await setDoc(docRef, updatedData, { merge: true });
+    await callAdminFunction(`/api/blog-posts/${encodeURIComponent(id)}`, 'PUT', data);
     console.log(`Blog post ${id} updated successfully`);
     
     return { success: true };
@@ -438,19 +542,7 @@ export const updateBlogPost = async (id: string, data: Partial<BlogPost>): Promi
 // Delete a blog post
 export const deleteBlogPost = async (id: string): Promise<{ success: boolean }> => {
   try {
-    // Verify admin authentication
-    verifyAdminAuth();
-    
-    const docRef = doc(db, COLLECTIONS.BLOG_POSTS, id);
-    
-    // Check if post exists
-    const docSnap = await getDoc(docRef);
-    if (!docSnap.exists()) {
-      throw new Error(`Blog post with ID ${id} not found`);
-    }
-    
-    // Delete the document
-    await deleteDoc(docRef);
+    await callAdminFunction(`/api/blog-posts/${encodeURIComponent(id)}`, 'DELETE');
     console.log(`Blog post ${id} deleted successfully`);
     
     return { success: true };
@@ -486,7 +578,8 @@ export const getBlogPostById = async (id: string): Promise<BlogPost | null> => {
       readingTime: data.readingTime,
       tags: data.tags || [],
       categories: data.categories || [],
-      relatedPosts: data.relatedPosts || []
+      relatedPosts: data.relatedPosts || [],
+      translations: data.translations || undefined
     };
   } catch (error) {
     console.error(`Error getting blog post with ID ${id}:`, error);
@@ -526,7 +619,8 @@ export const getBlogPostBySlug = async (slug: string): Promise<BlogPost | null>
       readingTime: data.readingTime,
       tags: data.tags || [],
       categories: data.categories || [],
-      relatedPosts: data.relatedPosts || []
+      relatedPosts: data.relatedPosts || [],
+      translations: data.translations || undefined
     };
   } catch (error) {
     console.error(`Error getting blog post with slug ${slug}:`, error);
@@ -620,31 +714,7 @@ export const getLocations = async (forceRefresh = false): Promise<Location[]> =>
         const querySnapshot = await getDocs(q);
         
         // Process results - ensure clean data for map initialization
-        const locations = querySnapshot.docs.map(doc => {
-          const data = doc.data();
-          // Ensure we're returning a valid Location object
-          const location: Location = {
-            id: doc.id,
-            name: data.name || '',
-            coordinates: data.coordinates || { lat: 0, lng: 0 },
-            types: data.types || [],
-            primaryType: data.primaryType || 'entertainment',
-            description: data.description || '',
-            address: data.address || '',
-            ageRange: data.ageRange || { min: 0, max: 16 },
-            priceRange: data.priceRange,
-            openingHours: data.openingHours || {},
-            contact: data.contact || {},
-            placeData: data.placeData,
-            images: data.images,
-            featured: data.featured,
-            featuredPosition: data.featuredPosition, // Include featuredPosition from Firestore
-            proTips: data.proTips || '', // Add proTips field with empty string default
-            created_at: data.created_at || null,
-            updated_at: data.updated_at || null
-          };
-          return location;
-        });
+        const locations = querySnapshot.docs.map(doc => toLocation(doc.id, doc.data()));
         
         // Update memory cache
         locationsCache = {
@@ -674,6 +744,23 @@ export const getLocations = async (forceRefresh = false): Promise<Location[]> =>
   }
 };
 
+// Location documents exactly as stored, without the defaults getLocations fills in (admin use)
+// The Data Health view needs to see which fields are really missing
+export const getRawLocations = async (): Promise<RawLocation[]> => {
+  try {
+    await verifyAdminAuth();
+
+    const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.LOCATIONS)));
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
+  } catch (error) {
+    console.error('Error getting raw locations:', error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
 // Function to get a single location by ID
 export const getLocationById = async (id: string): Promise<Location | null> => {
   try {
@@ -681,28 +768,7 @@ export const getLocationById = async (id: string): Promise<Location | null> => {
     const docSnap = await getDoc(docRef);
     
     if (docSnap.exists()) {
-      const data = docSnap.data();
-      // Explicitly ensure all fields are mapped correctly
-      const location: Location = {
-        id: docSnap.id,
-        name: data.name || '',
-        coordinates: data.coordinates || { lat: 0, lng: 0 },
-        types: data.types || [],
-        primaryType: data.primaryType || 'entertainment',
-        description: data.description || '',
-        address: data.address || '',
-        ageRange: data.ageRange || { min: 0, max: 16 },
-        priceRange: data.priceRange,
-        openingHours: data.openingHours || {},
-        contact: data.contact || {},
-        placeData: data.placeData,
-        images: data.images,
-        featured: data.featured,
-        proTips: data.proTips || '', // Add proTips with default
-        created_at: data.created_at || null,
-        updated_at: data.updated_at || null
-      };
-      return location;
+      return toLocation(docSnap.id, docSnap.data());
     } else {
       return null;
     }
@@ -713,11 +779,9 @@ export const getLocationById = async (id: string): Promise<Location | null> => {
 };
 
 // Function to add a new location (for admin use)
+// The locations function validates the payload and uses the Google Place ID as the document ID
 export const addLocation = async (location: Location) => {
   try {
-    // Verify admin authentication
-    verifyAdminAuth();
-    
     console.log('Adding location:', location.name);
     
     // Ensure location ID is properly defined
@@ -725,100 +789,47 @@ export const addLocation = async (location: Location) => {
       throw new Error('A valid Google Place ID is required for adding locations');
     }
     
-    // Use the Google Place ID as the document ID
-    const placeId = location.id.trim();
-    console.log(`Using Google Place ID as document ID: ${placeId}`);
-    
-    // Add timestamps
-    const locationWithTimestamps = {
-      ...location,
-      id: placeId, // Ensure ID is consistent
-      created_at: serverTimestamp(),
-      updated_at: serverTimestamp()
-    };
-    
-    // Create a document reference with the Place ID
-    const docRef = doc(db, COLLECTIONS.LOCATIONS, placeId);
-    
-    // Remove id field to avoid duplication in the document
-    const { id: _, ...locationData } = locationWithTimestamps;
-    
-    // Fix undefined values in placeData if they exist
-    // This specifically addresses the undefined phone issue without touching timestamps
-    if (locationData.placeData) {
-      // Convert any undefined values to empty strings (TypeScript-safe and Firestore-compatible)
-      if (locationData.placeData.phone === undefined) {
-        locationData.placeData.phone = '';
-      }
-      if (locationData.placeData.website === undefined) {
-        locationData.placeData.website = '';
-      }
-      if (locationData.placeData.address === undefined) {
-        locationData.placeData.address = '';
-      }
-    }
-    
-    // Save to Firestore
-    await setDoc(docRef, locationData);
+    const result = await callAdminFunction('/api/locations', 'POST', location);
     
     // Clear cache to ensure admin UI is updated immediately
     clearLocationsCache();
     
-    return { success: true, id: placeId };
+    return { success: true, id: result.id as string };
   } catch (error) {
     console.error('Error adding location:', error);
+    if (error instanceof FieldValidationError) throw error;
     throw new Error(formatFirestoreError(error));
   }
 };
 
+// Start copying a location's Google photos to Firebase Storage
+// Resolves once the background function has accepted the job; force replaces photos
+// that are already stored instead of skipping the location
+export const storeLocationPhotosInBackground = async (locationId: string, force = false): Promise<void> => {
+  const adminToken = await verifyAdminAuth();
+
+  const response = await fetch('/api/store-location-photos-background', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${adminToken}`
+    },
+    body: JSON.stringify({ locationId, force })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+};
+
 // Function to update an existing location (for admin use)
+// Only the fields sent are changed; openingHours and schedule replace the stored hours
 export const updateLocation = async (id: string, data: Partial<Location>) => {
   try {
-    // Verify admin authentication
-    verifyAdminAuth();
-    
     console.log(`Updating location with ID ${id}`, data);
-    const docRef = doc(db, COLLECTIONS.LOCATIONS, id);
     
-    // Deep clean function to handle complex nested objects
-    const deepCleanUndefined = (obj: any): any => {
-      // Return non-objects as is (includes null, which is valid for Firestore)
-      if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
-        return obj;
-      }
-      
-      // Clean each property in the object
-      const result: Record<string, any> = {};
-      Object.entries(obj).forEach(([key, value]) => {
-        // Skip undefined values completely
-        if (value === undefined) return;
-        
-        // Recursively clean objects
-        if (value !== null && typeof value === 'object') {
-          const cleanedValue = deepCleanUndefined(value);
-          // Only add non-empty objects
-          if (Array.isArray(cleanedValue) || Object.keys(cleanedValue).length > 0) {
-            result[key] = cleanedValue;
-          }
-        } else {
-          // Add primitive values directly
-          result[key] = value;
-        }
-      });
-      
-      return result;
-    };
-    
-    // Clean up data to remove any undefined values to avoid Firestore errors
-    const cleanedData = deepCleanUndefined(data);
-    
-    // Add the updated_at timestamp
-    const dataWithTimestamp = {
-      ...cleanedData,
-      updated_at: serverTimestamp()
-    };
-    
-    await setDoc(docRef, dataWithTimestamp, { merge: true });
+    await callAdminFunction(`/api/locations/${encodeURIComponent(id)}`, 'PUT', data);
     
     // Clear locations cache to ensure immediate refresh in admin UI
     clearLocationsCache();
@@ -826,6 +837,7 @@ export const updateLocation = async (id: string, data: Partial<Location>) => {
     return { success: true, id };
   } catch (error) {
     console.error(`Error updating location with ID ${id}:`, error);
+    if (error instanceof FieldValidationError) throw error;
     throw new Error(formatFirestoreError(error));
   }
 };
@@ -833,6 +845,60 @@ export const updateLocation = async (id: string, data: Partial<Location>) => {
 // Function to update a location's Google Places data - DISABLED FOR REGULAR USERS
 // This function is retained only for backward compatibility, but all image management
 // is now handled through Firebase Storage directly
+// Get a location's change history, newest first (admin only)
+export const getLocationRevisions = async (id: string, maxRevisions = 50): Promise<LocationRevision[]> => {
+  try {
+    await verifyAdminAuth();
+
+    const q = query(
+      collection(db, COLLECTIONS.LOCATIONS, id, COLLECTIONS.REVISIONS),
+      orderBy('at', 'desc'),
+      limit(maxRevisions)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }) as LocationRevision);
+  } catch (error) {
+    console.error(`Error getting revisions for location ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Get the deleted locations, most recently deleted first (admin only)
+export const getDeletedLocations = async (): Promise<DeletedLocation[]> => {
+  try {
+    await verifyAdminAuth();
+
+    const q = query(collection(db, COLLECTIONS.DELETED_LOCATIONS), orderBy('deletedAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }) as DeletedLocation);
+  } catch (error) {
+    console.error('Error getting deleted locations:', error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Put a location back to how it was right after one of its revisions (admin only)
+// Works for deleted locations too, which come back as they were in that revision
+export const restoreLocationRevision = async (id: string, revisionId: string) => {
+  try {
+    await callAdminFunction(`/api/locations/${encodeURIComponent(id)}/restore`, 'POST', { revisionId });
+
+    // Clear locations cache to ensure immediate refresh in admin UI
+    clearLocationsCache();
+
+    return { success: true, id };
+  } catch (error) {
+    console.error(`Error restoring location ${id} to revision ${revisionId}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
 export const updateLocationPlaceData = async (id: string, placeData: any): Promise<boolean> => {
   try {
     // This function is kept for compatibility but no longer triggers updates from user interactions
@@ -849,18 +915,15 @@ export const updateLocationPlaceData = async (id: string, placeData: any): Promi
 // Function to delete a location (for admin use)
 export const deleteLocation = async (id: string) => {
   try {
-    // Verify admin authentication
-    const adminToken = verifyAdminAuth();
-    
     console.log(`Deleting location with ID ${id}`);
-    const docRef = doc(db, COLLECTIONS.LOCATIONS, id);
-    await deleteDoc(docRef);
+    await callAdminFunction(`/api/locations/${encodeURIComponent(id)}`, 'DELETE');
     
     // Clear locations cache to ensure immediate refresh in admin UI
     clearLocationsCache();
     
     // Trigger background deletion of location photos
     try {
+      const adminToken = await verifyAdminAuth();
       console.log(`Triggering background deletion of photos for location ${id}`);
       
       // Call the background function to delete photos
@@ -901,4 +964,180 @@ export const deleteLocation = async (id: string) => {
     console.error(`Error deleting location with ID ${id}:`, error);
     throw new Error(formatFirestoreError(error));
   }
-};
\ No newline at end of file
+};
+
+// Event functions
+
+// Optional event fields - cleared with deleteField() on update when left empty
+const OPTIONAL_EVENT_FIELDS = ['startTime', 'endTime', 'price', 'bookingUrl'] as const;
+
+// Map a Firestore document to an Event with safe defaults
+const toEvent = (id: string, data: DocumentData): Event => ({
+  id,
+  locationId: data.locationId || '',
+  title: data.title || '',
+  description: data.description || '',
+  types: data.types || [],
+  startDate: data.startDate || '',
+  endDate: data.endDate || data.startDate || '',
+  startTime: data.startTime || undefined,
+  endTime: data.endTime || undefined,
+  recurrence: data.recurrence || { frequency: 'once' },
+  ageRange: data.ageRange || { min: 0, max: 16 },
+  price: data.price || undefined,
+  bookingUrl: data.bookingUrl || undefined,
+  created_at: data.created_at || null,
+  updated_at: data.updated_at || null
+});
+
+// Get all events (public - used by the map and Drawer)
+export const getEvents = async (): Promise<Event[]> => {
+  try {
+    const q = query(collection(db, COLLECTIONS.EVENTS));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toEvent(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error getting events:', error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Get the events held at a single location
+export const getEventsForLocation = async (locationId: string): Promise<Event[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTIONS.EVENTS),
+      where('locationId', '==', locationId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toEvent(doc.id, doc.data()));
+  } catch (error) {
+    console.error(`Error getting events for location ${locationId}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Create a new event (for admin use)
+export const createEvent = async (event: Omit<Event, 'id' | 'created_at' | 'updated_at'>): Promise<{ id: string }> => {
+  try {
+    // Verify admin authentication
+    await verifyAdminAuth();
+    
+    // Firestore rejects undefined values, so leave unset optional fields out
+    const eventData: Record<string, any> = { ...event };
+    OPTIONAL_EVENT_FIELDS.forEach(field => {
+      if (!eventData[field]) {
+        delete eventData[field];
+      }
+    });
+    
+    const docRef = await addDoc(collection(db, COLLECTIONS.EVENTS), {
+      ...eventData,
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp()
+    });
+    console.log(`Event created with ID: ${docRef.id}`);
+    
+    return { id: docRef.id };
+  } catch (error) {
+    console.error('Error creating event:', error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Update an existing event (for admin use)
+export const updateEvent = async (id: string, data: Partial<Omit<Event, 'id'>>): Promise<{ success: boolean }> => {
+  try {
+    // Verify admin authentication
+    await verifyAdminAuth();
+    
+    const docRef = doc(db, COLLECTIONS.EVENTS, id);
+    
+    // Check if event exists
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists()) {
+      throw new Error(`Event with ID ${id} not found`);
+    }
+    
+    // Clear optional fields that were emptied in the editor
+    const updatedData: Record<string, any> = { ...data };
+    OPTIONAL_EVENT_FIELDS.forEach(field => {
+      if (field in updatedData && !updatedData[field]) {
+        updatedData[field] = deleteField();
+      }
+    });
+    
+    await setDoc(docRef, { ...updatedData, updated_at: serverTimestamp() }, { merge: true });
+    console.log(`Event ${id} updated successfully`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Error updating event ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Delete an event (for admin use)
+export const deleteEvent = async (id: string): Promise<{ success: boolean }> => {
+  try {
+    // Verify admin authentication
+    await verifyAdminAuth();
+    
+    await deleteDoc(doc(db, COLLECTIONS.EVENTS, id));
+    console.log(`Event ${id} deleted successfully`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting event ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Landing page intro functions
+
+// Get every landing page intro, keyed by landing page ID (for the admin editor)
+export const getLandingPageIntros = async (): Promise<Record<string, string>> => {
+  try {
+    const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.LANDING_PAGES)));
+    const intros: Record<string, string> = {};
+    querySnapshot.docs.forEach(doc => {
+      intros[doc.id] = doc.data().intro || '';
+    });
+    return intros;
+  } catch (error) {
+    console.error('Error getting landing page intros:', error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Get the intro of one landing page - empty when no editor has written one
+export const getLandingPageIntro = async (id: string): Promise<string> => {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTIONS.LANDING_PAGES, id));
+    return docSnap.exists() ? docSnap.data().intro || '' : '';
+  } catch (error) {
+    console.error(`Error getting landing page intro ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
+
+// Save a landing page intro (for admin use) - an empty intro brings back the default one
+export const saveLandingPageIntro = async (id: string, intro: string): Promise<{ success: boolean }> => {
+  try {
+    // Verify admin authentication
+    await verifyAdminAuth();
+
+    const docRef = doc(db, COLLECTIONS.LANDING_PAGES, id);
+    if (intro.trim()) {
+      await setDoc(docRef, { intro: intro.trim(), updated_at: serverTimestamp() });
+    } else {
+      await deleteDoc(docRef);
+    }
+    console.log(`Landing page intro ${id} saved successfully`);
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Error saving landing page intro ${id}:`, error);
+    throw new Error(formatFirestoreError(error));
+  }
+};
@@ -1,5 +1,6 @@
 import { initializeApp } from 'firebase/app';
 import { getFirestore } from 'firebase/firestore';
+import { Auth, connectAuthEmulator, getAuth } from 'firebase/auth';
 
 // Your Firebase configuration
 const firebaseConfig = {
@@ -14,5 +15,19 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
 const db = getFirestore(app);
+// Admin sign-in - only admins have accounts, so it starts on first use rather than on every page
+let auth: Auth | null = null;
 
-export { db };
\ No newline at end of file
+const getAdminAuth = (): Auth => {
+  if (!auth) {
+    auth = getAuth(app);
+
+    // Point admin sign-in at the Auth emulator for local development (e.g. localhost:9099)
+    if (process.env.REACT_APP_FIREBASE_AUTH_EMULATOR_HOST) {
+      connectAuthEmulator(auth, `http://${process.env.REACT_APP_FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+};
+
+export { db, getAdminAuth };
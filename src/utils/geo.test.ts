@@ -0,0 +1,43 @@
+import { formatDistance, getClosestLocations, getDistanceKm, isPointInPolygon } from './geo';
+
+const syntagma = { lat: 37.9755, lng: 23.7348 };
+const piraeus = { lat: 37.942, lng: 23.6465 };
+const kifisia = { lat: 38.0736, lng: 23.8114 };
+
+describe('getDistanceKm', () => {
+  test('computes great-circle distances', () => {
+    expect(getDistanceKm(syntagma, syntagma)).toBe(0);
+    expect(getDistanceKm(syntagma, piraeus)).toBeCloseTo(8.59, 1);
+    // Athens to Thessaloniki is roughly 300 km as the crow flies
+    expect(getDistanceKm(syntagma, { lat: 40.6401, lng: 22.9444 })).toBeCloseTo(303, -1);
+  });
+});
+
+describe('formatDistance', () => {
+  test('switches between metres and kilometres', () => {
+    expect(formatDistance(0.004)).toBe('10 m');
+    expect(formatDistance(0.347)).toBe('350 m');
+    expect(formatDistance(1.24)).toBe('1.2 km');
+    expect(formatDistance(14.6)).toBe('15 km');
+  });
+});
+
+describe('getClosestLocations', () => {
+  test('returns the nearest locations first without mutating the input', () => {
+    const locations = [{ id: 'kifisia', coordinates: kifisia }, { id: 'piraeus', coordinates: piraeus }];
+    expect(getClosestLocations(locations, syntagma, 1).map(location => location.id)).toEqual(['piraeus']);
+    expect(locations[0].id).toBe('kifisia');
+  });
+});
+
+describe('isPointInPolygon', () => {
+  // An L shape, so the notch checks concave corners
+  const lShape: Array<[number, number]> = [[0, 0], [0, 2], [1, 2], [1, 1], [2, 1], [2, 0]];
+
+  test('finds points inside and outside a polygon', () => {
+    expect(isPointInPolygon({ lat: 0.5, lng: 1.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lng: 0.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lng: 1.5 }, lShape)).toBe(false);
+    expect(isPointInPolygon({ lat: -0.5, lng: 0.5 }, lShape)).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Geo utilities
+ * Great-circle (haversine) distances between coordinates, distance formatting and
+ * "nearest first" sorting shared by the map, drawer, search and home page.
+ */
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Calculates the haversine distance between two points
+ * @param from Starting coordinates
+ * @param to Destination coordinates
+ * @returns Distance in kilometres
+ */
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Formats a distance for display, e.g. "350 m", "1.2 km" or "14 km"
+ * @param distanceKm Distance in kilometres
+ * @returns The formatted distance
+ */
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 1) {
+    // Round to the nearest 10 m, but never show "0 m"
+    return `${Math.max(10, Math.round(distanceKm * 100) * 10)} m`;
+  }
+  if (distanceKm < 10) {
+    return `${distanceKm.toFixed(1)} km`;
+  }
+  return `${Math.round(distanceKm)} km`;
+};
+
+/**
+ * Sorts items by distance from an origin (closest first) without mutating the input
+ * @param items Items to sort
+ * @param origin The point to measure from
+ * @param getCoordinates Reads an item's coordinates
+ * @returns A new, sorted array
+ */
+export const sortByDistance = <T>(
+  items: T[],
+  origin: Coordinates,
+  getCoordinates: (item: T) => Coordinates
+): T[] => {
+  return items
+    .map(item => ({ item, distance: getDistanceKm(origin, getCoordinates(item)) }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(entry => entry.item);
+};
+
+/**
+ * Returns the locations closest to a point
+ * @param locations Locations to rank
+ * @param origin The point to measure from
+ * @param limit Maximum number of locations to return
+ * @returns Up to `limit` locations, closest first
+ */
+export const getClosestLocations = <T extends { coordinates: Coordinates }>(
+  locations: T[],
+  origin: Coordinates,
+  limit: number
+): T[] => {
+  return sortByDistance(locations, origin, location => location.coordinates).slice(0, limit);
+};
+
+/**
+ * Calculates the bounding box of a circle, e.g. to fit a search radius on the map
+ * @param center Circle center
+ * @param radiusKm Circle radius in kilometres
+ * @returns The north/south/east/west edges in degrees
+ */
+export const getBoundsAroundPoint = (
+  center: Coordinates,
+  radiusKm: number
+): { north: number; south: number; east: number; west: number } => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+
+  return {
+    north: Math.min(center.lat + latDelta, 90),
+    south: Math.max(center.lat - latDelta, -90),
+    east: center.lng + lngDelta,
+    west: center.lng - lngDelta
+  };
+};
+
+/**
+ * Checks whether a point is inside a polygon (ray casting), e.g. to find a location's
+ * municipality. Fine for the small, simple outlines in src/data - it treats degrees as
+ * flat coordinates.
+ * @param point The point to check
+ * @param polygon [lat, lng] corners, in order; the last one joins back to the first
+ * @returns True if the point is inside
+ */
+export const isPointInPolygon = (point: Coordinates, polygon: Array<[number, number]>): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+
+    // Count the edges a ray running east from the point crosses
+    const crosses =
+      (latI > point.lat) !== (latJ > point.lat) &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
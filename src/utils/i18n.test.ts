@@ -0,0 +1,59 @@
+import { BlogPost } from '../types/blog';
+import en from '../data/translations/en';
+import el from '../data/translations/el';
+import {
+  TranslationKey,
+  detectLanguage,
+  getLanguageUrl,
+  getLocalizedActivityCategories,
+  getLocalizedField,
+  translate,
+  translatePlural
+} from './i18n';
+
+const post: Pick<BlogPost, 'title' | 'summary' | 'translations'> = {
+  title: 'Easter camps',
+  summary: 'Where to go over the holidays',
+  translations: { el: { title: 'Πασχαλινές κατασκηνώσεις', summary: '' } }
+};
+
+describe('i18n', () => {
+  test('picks the ?lang parameter, then the saved choice, then the browser language', () => {
+    expect(detectLanguage({ param: 'el', stored: 'en', browserLanguages: ['en-US'] })).toBe('el');
+    expect(detectLanguage({ param: 'fr', stored: 'el' })).toBe('el');
+    expect(detectLanguage({ browserLanguages: ['fr-FR', 'el-GR'] })).toBe('el');
+    expect(detectLanguage({ browserLanguages: ['fr-FR'] })).toBe('en');
+  });
+
+  test('only adds ?lang to Greek URLs and keeps the rest of the query', () => {
+    expect(getLanguageUrl('https://www.pamekids.com/map?filter=sports', 'el'))
+      .toBe('https://www.pamekids.com/map?filter=sports&lang=el');
+    expect(getLanguageUrl('/map?lang=el&filter=sports#list', 'en')).toBe('/map?filter=sports#list');
+    expect(getLanguageUrl('/blog', 'en')).toBe('/blog');
+  });
+
+  test('fills placeholders and picks plural forms', () => {
+    expect(translate('en', 'landing.heading.area', { name: 'Glyfada' })).toBe("Kids' activities in Glyfada");
+    expect(translatePlural('en', 'landing.placeCount', 1)).toBe('1 place');
+    expect(translatePlural('el', 'landing.placeCount', 3)).toBe('3 μέρη');
+  });
+
+  test('has a Greek string for every key, with the same placeholders', () => {
+    const placeholders = (text: string) => Array.from(new Set(text.match(/\{\w+\}/g) || [])).sort();
+    (Object.keys(en) as TranslationKey[]).forEach(key => {
+      expect(el[key]).toBeTruthy();
+      expect([key, placeholders(el[key])]).toEqual([key, placeholders(en[key])]);
+    });
+  });
+
+  test('falls back to the English text where there is no translation', () => {
+    expect(getLocalizedField(post, 'title', 'el')).toBe('Πασχαλινές κατασκηνώσεις');
+    expect(getLocalizedField(post, 'summary', 'el')).toBe('Where to go over the holidays');
+    expect(getLocalizedField(post, 'title', 'en')).toBe('Easter camps');
+  });
+
+  test('names activity categories in Greek without changing the English ones', () => {
+    expect(getLocalizedActivityCategories('el').playground.name).toBe('Παιδική Χαρά');
+    expect(getLocalizedActivityCategories('en').playground.name).toBe('Playground');
+  });
+});
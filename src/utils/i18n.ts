@@ -0,0 +1,173 @@
+import { ACTIVITY_CATEGORIES, ACTIVITY_GROUPS, ActivityCategory, ActivityGroup } from './metadata';
+import en, { TranslationKey } from '../data/translations/en';
+import el from '../data/translations/el';
+
+export type { TranslationKey };
+
+/**
+ * Internationalisation
+ * The site is in English and Greek. English is the default and lives in the top-level
+ * fields of locations and blog posts; Greek text is stored next to it in a
+ * translations.el map and falls back to English where it hasn't been written yet.
+ * A Greek page has its own URL with ?lang=el, so search engines can index both.
+ */
+
+export type Language = 'en' | 'el';
+
+export const LANGUAGES: Language[] = ['en', 'el'];
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Query parameter that selects the language, e.g. /map?lang=el
+export const LANGUAGE_PARAM = 'lang';
+export const LANGUAGE_STORAGE_KEY = 'pamekids_language';
+
+export interface LanguageConfig {
+  name: string; // In the language itself, for the switcher
+  shortName: string;
+  locale: string; // Open Graph locale
+  dateLocale: string; // For toLocaleDateString
+}
+
+export const LANGUAGE_CONFIG: Record<Language, LanguageConfig> = {
+  en: { name: 'English', shortName: 'EN', locale: 'en_US', dateLocale: 'en-US' },
+  el: { name: 'Ελληνικά', shortName: 'ΕΛ', locale: 'el_GR', dateLocale: 'el-GR' }
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (LANGUAGES as string[]).includes(value);
+
+/**
+ * Picks the language to show
+ * @param sources The ?lang parameter, the saved choice and the browser's languages
+ * @returns The first of them that is a supported language, or English
+ */
+export const detectLanguage = (sources: {
+  param?: string | null;
+  stored?: string | null;
+  browserLanguages?: readonly string[];
+}): Language => {
+  if (isLanguage(sources.param)) return sources.param;
+  if (isLanguage(sources.stored)) return sources.stored;
+
+  const browserLanguage = (sources.browserLanguages || [])
+    .map(tag => tag.toLowerCase().split('-')[0])
+    .find(isLanguage);
+  return browserLanguage || DEFAULT_LANGUAGE;
+};
+
+const TRANSLATIONS: Record<Language, Record<TranslationKey, string>> = { en, el };
+
+/**
+ * Looks up a UI string and fills in its placeholders
+ * @param language The language
+ * @param key The string's key in src/data/translations
+ * @param values Replacements for "{name}"-style placeholders
+ * @returns The translated string
+ */
+export const translate = (
+  language: Language,
+  key: TranslationKey,
+  values: Record<string, string | number> = {}
+): string => fillPlaceholders(TRANSLATIONS[language][key] ?? TRANSLATIONS.en[key] ?? key, values);
+
+/**
+ * Looks up the singular or plural form of a string, e.g. "1 place" or "{count} places"
+ * @param language The language
+ * @param key The key without its ".one"/".other" ending
+ * @param count The number the string is about, also available as "{count}"
+ * @param values Replacements for other placeholders
+ * @returns The translated string
+ */
+export const translatePlural = (
+  language: Language,
+  key: string,
+  count: number,
+  values: Record<string, string | number> = {}
+): string => translate(language, `${key}.${count === 1 ? 'one' : 'other'}` as TranslationKey, { count, ...values });
+
+// Fills "{name}"-style placeholders, leaving unknown ones as they are
+export const fillPlaceholders = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+
+/**
+ * The URL of a page in a language
+ * English pages have no ?lang parameter, so their URLs stay as they were.
+ * @param url Absolute or root-relative URL
+ * @param language The language
+ * @returns The URL with ?lang set or removed
+ */
+export const getLanguageUrl = (url: string, language: Language): string => {
+  const [withoutHash, hash] = url.split('#');
+  const [path, query = ''] = withoutHash.split('?');
+  const params = query.split('&').filter(param => param && !param.startsWith(`${LANGUAGE_PARAM}=`));
+  if (language !== DEFAULT_LANGUAGE) {
+    params.push(`${LANGUAGE_PARAM}=${language}`);
+  }
+  return `${path}${params.length > 0 ? `?${params.join('&')}` : ''}${hash !== undefined ? `#${hash}` : ''}`;
+};
+
+/**
+ * The query string of a URL without ?lang
+ * Switching language rewrites the URL, so pages that read their state from the query
+ * compare this instead of the whole search to tell a language switch from a new query.
+ * @param search The URL's search, e.g. "?filter=sports&lang=el"
+ * @returns The other parameters in a consistent encoding, e.g. "filter=sports"
+ */
+export const getSearchWithoutLanguage = (search: string): string => {
+  const params = new URLSearchParams(search);
+  params.delete(LANGUAGE_PARAM);
+  return params.toString();
+};
+
+// Items with text stored per language, like locations and blog posts
+type Translatable<T> = T & { translations?: Partial<Record<Language, Partial<T>>> };
+
+/**
+ * Reads a text field in a language, falling back to the English text
+ * @param item A location, blog post or anything with a translations map
+ * @param field The field to read
+ * @param language The language
+ * @returns The translated text when there is one, otherwise the English text
+ */
+export const getLocalizedField = <T, K extends keyof T>(
+  item: Translatable<T>,
+  field: K,
+  language: Language
+): T[K] => {
+  if (language !== DEFAULT_LANGUAGE) {
+    const translated = item.translations?.[language]?.[field];
+    if (translated) return translated as T[K];
+  }
+  return item[field];
+};
+
+// Copy of a name-keyed config with the Greek names in place of the English ones
+const withGreekNames = <T extends { name: string; nameEl: string }>(source: Record<string, T>): Record<string, T> => {
+  const localized: Record<string, T> = {};
+  Object.keys(source).forEach(key => {
+    localized[key] = { ...source[key], name: source[key].nameEl };
+  });
+  return localized;
+};
+
+const GREEK_ACTIVITY_CATEGORIES = withGreekNames(ACTIVITY_CATEGORIES);
+const GREEK_ACTIVITY_GROUPS = withGreekNames(ACTIVITY_GROUPS);
+
+/**
+ * ACTIVITY_CATEGORIES with the names in a language
+ * Components that take an activityConfig prop can be given this as it is.
+ * @param language The language
+ * @returns The categories, the same object on every call
+ */
+export const getLocalizedActivityCategories = (language: Language): Record<string, ActivityCategory> =>
+  language === 'el' ? GREEK_ACTIVITY_CATEGORIES : ACTIVITY_CATEGORIES;
+
+/**
+ * ACTIVITY_GROUPS with the names in a language
+ * @param language The language
+ * @returns The groups, the same object on every call
+ */
+export const getLocalizedActivityGroups = (language: Language): Record<string, ActivityGroup> =>
+  language === 'el' ? GREEK_ACTIVITY_GROUPS : ACTIVITY_GROUPS;
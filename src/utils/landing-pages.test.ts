@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { Location } from '../types/location';
+import { BlogPost } from '../types/blog';
+import {
+  ACTIVITY_LANDING_PAGES,
+  getLandingPage,
+  getLandingPageLocations,
+  getLandingPageSeo,
+  getMunicipalityForCoordinates,
+  getAllLandingPageSeo,
+  getRelatedBlogPosts
+} from './landing-pages';
+
+type LocationFields = Pick<Location, 'types' | 'priceRange' | 'coordinates' | 'placeData'> & { id: string };
+
+const makeLocation = (id: string, overrides: Partial<LocationFields> = {}): LocationFields => ({
+  id,
+  types: ['playground'],
+  coordinates: { lat: 37.9755, lng: 23.7348 },
+  ...overrides
+});
+
+const makePost = (id: string, overrides: Partial<BlogPost> = {}): BlogPost => ({
+  id,
+  slug: id,
+  title: 'A day out',
+  author: { name: 'PameKids' },
+  publishDate: '2025-01-01',
+  summary: '',
+  content: '',
+  ...overrides
+});
+
+describe('landing pages', () => {
+  test('have a page per group and per activity type, named after the type', () => {
+    expect(getLandingPage('activity', 'sports')?.types).toContain('swim');
+    expect(getLandingPage('activity', 'swimming')?.types).toEqual(['swim']);
+    expect(getLandingPage('activity', 'Swimming')?.mapUrl).toBe('/map?filter=sports');
+    expect(getLandingPage('area', 'glyfada')?.name).toBe('Glyfada');
+    expect(getLandingPage('area', 'atlantis')).toBeUndefined();
+
+    // Types named like a group don't get a second page
+    const slugs = ACTIVITY_LANDING_PAGES.map(page => page.slug);
+    expect(slugs.filter(slug => slug === 'sports')).toHaveLength(1);
+    expect(new Set(slugs).size).toBe(slugs.length);
+  });
+
+  test('fill the SEO templates, with per-page overrides', () => {
+    expect(getLandingPageSeo(getLandingPage('area', 'glyfada')!)).toMatchObject({
+      title: "Kids' Activities in Glyfada | PameKids",
+      canonicalUrl: 'https://www.pamekids.com/areas/glyfada'
+    });
+    expect(getLandingPageSeo(getLandingPage('activity', 'free-activities')!).title)
+      .toBe('Free Things to Do with Kids in Athens | PameKids');
+  });
+});
+
+describe('getMunicipalityForCoordinates', () => {
+  test('places points in the municipality outlines', () => {
+    expect(getMunicipalityForCoordinates({ lat: 37.865, lng: 23.755 })?.id).toBe('glyfada');
+    expect(getMunicipalityForCoordinates({ lat: 38.074, lng: 23.811 })?.id).toBe('kifisia');
+    expect(getMunicipalityForCoordinates({ lat: 37.9755, lng: 23.7348 })?.id).toBe('athens');
+    // Out at sea
+    expect(getMunicipalityForCoordinates({ lat: 37.8, lng: 23.6 })).toBeUndefined();
+  });
+});
+
+describe('getLandingPageLocations', () => {
+  test('matches types, price or area and puts well-reviewed places first', () => {
+    const locations = [
+      makeLocation('pool', { types: ['swim'], placeData: { rating: 4.2, userRatingsTotal: 800 } }),
+      makeLocation('new-pool', { types: ['swim'], placeData: { rating: 5, userRatingsTotal: 1 } }),
+      makeLocation('glyfada-park', { priceRange: 'Free', coordinates: { lat: 37.865, lng: 23.755 } })
+    ];
+
+    const ids = (page: string, kind: 'activity' | 'area' = 'activity') =>
+      getLandingPageLocations(getLandingPage(kind, page)!, locations).map(location => location.id);
+
+    expect(ids('swimming')).toEqual(['pool', 'new-pool']);
+    expect(ids('free-activities')).toEqual(['glyfada-park']);
+    expect(ids('glyfada', 'area')).toEqual(['glyfada-park']);
+  });
+});
+
+describe('getRelatedBlogPosts', () => {
+  test('ranks tagged posts above title matches, newest first', () => {
+    const posts = [
+      makePost('title-match', { title: 'Where to go swimming this summer', publishDate: '2025-06-01' }),
+      makePost('old-tagged', { tags: ['Swimming'], publishDate: '2024-05-01' }),
+      makePost('new-tagged', { categories: ['swimming'], publishDate: '2025-05-01' }),
+      makePost('unrelated', { title: 'Swimmingly good museums', tags: ['museums'] })
+    ];
+
+    expect(getRelatedBlogPosts(getLandingPage('activity', 'swimming')!, posts).map(post => post.id))
+      .toEqual(['new-tagged', 'old-tagged', 'title-match']);
+    expect(getRelatedBlogPosts(getLandingPage('activity', 'swimming')!, posts, 1)).toHaveLength(1);
+  });
+});
+
+describe('functions/landing-pages.json', () => {
+  // Rewritten with: UPDATE_LANDING_PAGES=true CI=true npx react-scripts test landing-pages
+  const file = path.join(__dirname, '../../functions/landing-pages.json');
+
+  test('has every landing page as the app shows it', () => {
+    const expected = getAllLandingPageSeo();
+    if (process.env.UPDATE_LANDING_PAGES === 'true') {
+      fs.writeFileSync(file, `${JSON.stringify(expected, null, 2)}\n`);
+    }
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(expected);
+  });
+});
@@ -0,0 +1,283 @@
+import { Location } from '../types/location';
+import { BlogPost } from '../types/blog';
+import { ACTIVITY_CATEGORIES, ACTIVITY_GROUPS, APP_URL, PAGE_SEO, PAGE_SEO_EL } from './metadata';
+import { ATHENS_MUNICIPALITIES, Municipality } from '../data/athens-municipalities';
+import { Coordinates, isPointInPolygon } from './geo';
+import { slugify } from './place-pages';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  Language,
+  fillPlaceholders,
+  getLanguageUrl,
+  translate,
+  translatePlural
+} from './i18n';
+
+/**
+ * Landing pages
+ * Generated pages for each activity (/activities/swimming) and neighbourhood
+ * (/areas/glyfada), listing the matching locations and blog posts. Activity pages come
+ * from ACTIVITY_GROUPS and ACTIVITY_CATEGORIES, area pages from the municipality outlines
+ * in src/data. Editors write each page's intro in the admin dashboard.
+ */
+
+export type LandingPageKind = 'activity' | 'area';
+
+export interface LandingPage {
+  id: string; // Document ID of the page's intro in the landing-pages collection
+  kind: LandingPageKind;
+  slug: string;
+  name: string;
+  nameEl: string; // Greek name
+  path: string;
+  mapUrl: string; // The same locations on the map, as far as the map's filters allow
+  color: string;
+  types?: string[]; // Activity pages: locations with any of these types
+  priceRange?: string; // Activity pages: locations with this price range
+  municipality?: Municipality; // Area pages
+  keywords: string[]; // Slugified words matched against blog posts
+}
+
+export interface LandingPageSeo {
+  title: string;
+  description: string;
+  keywords: string;
+  canonicalUrl: string;
+}
+
+// A landing page's <head> and heading as the prerender function serves them, in each language
+export interface PrerenderedLandingPage {
+  path: string;
+  seo: Record<Language, { heading: string; title: string; description: string }>;
+}
+
+const AREA_COLOR = '#3B82F6';
+const FREE_ACTIVITIES_COLOR = '#8BC34A';
+
+// The group an activity type belongs to, for map links - the map only filters by group
+const getGroupForType = (type: string): string | undefined =>
+  Object.keys(ACTIVITY_GROUPS).find(groupId => ACTIVITY_GROUPS[groupId].types.includes(type));
+
+const getLandingPageId = (kind: LandingPageKind, slug: string): string => `${kind}-${slug}`;
+
+const buildActivityPages = (): LandingPage[] => {
+  // One page per group, e.g. /activities/sports
+  const groupPages: LandingPage[] = Object.keys(ACTIVITY_GROUPS).map(groupId => {
+    const group = ACTIVITY_GROUPS[groupId];
+    return {
+      id: getLandingPageId('activity', groupId),
+      kind: 'activity',
+      slug: groupId,
+      name: group.name,
+      nameEl: group.nameEl,
+      path: `/activities/${groupId}`,
+      mapUrl: `/map?filter=${groupId}`,
+      color: group.color,
+      types: group.types,
+      keywords: [groupId, ...group.types.map(type => slugify(ACTIVITY_CATEGORIES[type]?.name || type))]
+    };
+  });
+
+  // The home page's free activities category
+  const freePage: LandingPage = {
+    id: getLandingPageId('activity', 'free-activities'),
+    kind: 'activity',
+    slug: 'free-activities',
+    name: 'Free Activities',
+    nameEl: 'Δωρεάν Δραστηριότητες',
+    path: '/activities/free-activities',
+    mapUrl: '/map?price=Free',
+    color: FREE_ACTIVITIES_COLOR,
+    priceRange: 'Free',
+    keywords: ['free']
+  };
+
+  // One page per activity type, named after it (/activities/swimming for "swim"),
+  // unless a group already has that name
+  const takenSlugs = new Set([...groupPages.map(page => page.slug), freePage.slug]);
+  const typePages: LandingPage[] = [];
+  Object.keys(ACTIVITY_CATEGORIES).forEach(type => {
+    const category = ACTIVITY_CATEGORIES[type];
+    const slug = slugify(category.name);
+    if (takenSlugs.has(slug)) return;
+    takenSlugs.add(slug);
+
+    const groupId = getGroupForType(type);
+    typePages.push({
+      id: getLandingPageId('activity', slug),
+      kind: 'activity',
+      slug,
+      name: category.name,
+      nameEl: category.nameEl,
+      path: `/activities/${slug}`,
+      mapUrl: groupId ? `/map?filter=${groupId}` : '/map',
+      color: category.color,
+      types: [type],
+      keywords: slug === type ? [slug] : [slug, type]
+    });
+  });
+
+  return [...groupPages, freePage, ...typePages];
+};
+
+const buildAreaPages = (): LandingPage[] => ATHENS_MUNICIPALITIES.map(municipality => ({
+  id: getLandingPageId('area', municipality.id),
+  kind: 'area',
+  slug: municipality.id,
+  name: municipality.name,
+  nameEl: municipality.nameEl,
+  path: `/areas/${municipality.id}`,
+  mapUrl: '/map',
+  color: AREA_COLOR,
+  municipality,
+  keywords: [municipality.id, ...municipality.id.split('-').filter(word => word.length > 3)]
+}));
+
+export const ACTIVITY_LANDING_PAGES: LandingPage[] = buildActivityPages();
+export const AREA_LANDING_PAGES: LandingPage[] = buildAreaPages();
+
+/**
+ * Finds the landing page for a URL
+ * @param kind 'activity' for /activities/:slug, 'area' for /areas/:slug
+ * @param slug Slug from the URL
+ * @returns The page, or undefined when there's no such page
+ */
+export const getLandingPage = (kind: LandingPageKind, slug: string): LandingPage | undefined => {
+  const pages = kind === 'activity' ? ACTIVITY_LANDING_PAGES : AREA_LANDING_PAGES;
+  const normalizedSlug = slug.toLowerCase();
+  return pages.find(page => page.slug === normalizedSlug);
+};
+
+/**
+ * Finds the municipality a point is in
+ * @param coordinates The point
+ * @returns The first municipality whose outline contains it, or undefined outside them all
+ */
+export const getMunicipalityForCoordinates = (coordinates: Coordinates): Municipality | undefined =>
+  ATHENS_MUNICIPALITIES.find(municipality => isPointInPolygon(coordinates, municipality.polygon));
+
+/**
+ * The locations a landing page lists
+ * @param page The landing page
+ * @param locations All locations
+ * @returns Matching locations, highest rated first
+ */
+export const getLandingPageLocations = <T extends Pick<Location, 'types' | 'priceRange' | 'coordinates' | 'placeData'>>(
+  page: LandingPage,
+  locations: T[]
+): T[] => {
+  const matches = locations.filter(location => {
+    if (page.kind === 'area') {
+      return getMunicipalityForCoordinates(location.coordinates)?.id === page.slug;
+    }
+    if (page.priceRange) {
+      return location.priceRange === page.priceRange;
+    }
+    return location.types.some(type => page.types?.includes(type));
+  });
+
+  // Rating weighted by review count, so a single 5-star review doesn't top the list
+  const getScore = (location: T): number =>
+    (location.placeData?.rating || 0) * Math.log10((location.placeData?.userRatingsTotal || 0) + 1);
+
+  return [...matches].sort((a, b) => getScore(b) - getScore(a));
+};
+
+// Whether slugified text contains a keyword as whole words
+const containsKeyword = (text: string, keyword: string): boolean =>
+  `-${slugify(text)}-`.includes(`-${keyword}-`);
+
+/**
+ * Picks the blog posts to show on a landing page
+ * Posts tagged or categorised with one of the page's keywords rank above posts that
+ * only mention one in the title; newer posts win ties.
+ * @param page The landing page
+ * @param posts All blog posts
+ * @param limit Maximum number of posts to return
+ * @returns Up to `limit` related posts
+ */
+export const getRelatedBlogPosts = (page: LandingPage, posts: BlogPost[], limit = 3): BlogPost[] => {
+  const getScore = (post: BlogPost): number => {
+    const labels = [...(post.tags || []), ...(post.categories || [])];
+    if (page.keywords.some(keyword => labels.some(label => containsKeyword(label, keyword)))) {
+      return 2;
+    }
+    if (page.keywords.some(keyword => containsKeyword(post.title, keyword))) {
+      return 1;
+    }
+    return 0;
+  };
+
+  return posts
+    .map(post => ({ post, score: getScore(post) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      new Date(b.post.publishDate).getTime() - new Date(a.post.publishDate).getTime()
+    )
+    .slice(0, limit)
+    .map(entry => entry.post);
+};
+
+/**
+ * A landing page's name in a language
+ * @param page The landing page
+ * @param language The language
+ * @returns The name
+ */
+export const getLandingPageName = (page: LandingPage, language: Language): string =>
+  language === 'el' ? page.nameEl : page.name;
+
+/**
+ * The intro shown until an editor writes one
+ * @param page The landing page
+ * @param locationCount Number of locations the page lists
+ * @param language The language to write it in
+ * @returns A one-sentence intro
+ */
+export const getDefaultIntro = (page: LandingPage, locationCount: number, language: Language = DEFAULT_LANGUAGE): string => {
+  const name = getLandingPageName(page, language);
+  const places = translatePlural(language, 'landing.placeCount', locationCount);
+  return page.kind === 'area'
+    ? translate(language, 'landing.defaultIntro.area', { name, places })
+    : translate(language, 'landing.defaultIntro.activity', { name: name.toLocaleLowerCase(), places });
+};
+
+/**
+ * Title, description and keywords for a landing page
+ * From the PAGE_SEO templates, with a page's own entry in PAGE_SEO taking precedence
+ * and the PAGE_SEO_EL text used for Greek.
+ * @param page The landing page
+ * @param language The language of the page
+ * @returns The page's SEO values
+ */
+export const getLandingPageSeo = (page: LandingPage, language: Language = DEFAULT_LANGUAGE): LandingPageSeo => {
+  const pageType = page.kind === 'area' ? 'areaLanding' : 'activityLanding';
+  const config = language === 'el' ? { ...PAGE_SEO[pageType], ...PAGE_SEO_EL[pageType] } : PAGE_SEO[pageType];
+  const overrides = config.pages[page.slug] || {};
+  const name = getLandingPageName(page, language);
+
+  return {
+    title: overrides.title || fillPlaceholders(config.titleTemplate, { name }),
+    description: overrides.description || fillPlaceholders(config.descriptionTemplate, { name }),
+    keywords: [name, config.keywords].join(', '),
+    canonicalUrl: getLanguageUrl(`${APP_URL}${page.path}`, language)
+  };
+};
+
+/**
+ * Every landing page's title and description in each language
+ * The sitemap and prerender functions can't import this file, so they read the same
+ * data from functions/landing-pages.json, which landing-pages.test.ts keeps up to date.
+ * @returns The pages, activities first
+ */
+export const getAllLandingPageSeo = (): PrerenderedLandingPage[] =>
+  [...ACTIVITY_LANDING_PAGES, ...AREA_LANDING_PAGES].map(page => ({
+    path: page.path,
+    seo: LANGUAGES.reduce((seo, language) => {
+      const { title, description } = getLandingPageSeo(page, language);
+      seo[language] = { heading: getLandingPageName(page, language), title, description };
+      return seo;
+    }, {} as PrerenderedLandingPage['seo'])
+  }));
@@ -0,0 +1,100 @@
+import { Location } from '../types/location';
+import { describeBulkEditAction, getRegeneratedDescriptionUpdate, planBulkEdit } from './location-bulk-edit';
+
+const makeLocation = (id: string, overrides: Partial<Location> = {}): Location => ({
+  id,
+  name: `Place ${id}`,
+  coordinates: { lat: 37.97, lng: 23.72 },
+  types: ['indoor-play'],
+  primaryType: 'indoor-play',
+  description: '',
+  address: '',
+  ageRange: { min: 3, max: 12 },
+  priceRange: '€',
+  openingHours: {},
+  contact: {},
+  ...overrides
+});
+
+describe('planBulkEdit', () => {
+  test('adds and removes types, keeping the primary type valid', () => {
+    const a = makeLocation('a', { types: ['indoor-play', 'cafe'] });
+    const b = makeLocation('b', { types: ['cafe'], primaryType: 'cafe' });
+
+    const added = planBulkEdit([a, b], { kind: 'add-type', type: 'indoor-play' }, [a, b]);
+    expect(added[0].skipReason).toBe('Already has Indoor Play');
+    expect(added[1].update).toEqual({ types: ['cafe', 'indoor-play'] });
+
+    const removed = planBulkEdit([a, b], { kind: 'remove-type', type: 'indoor-play' }, [a, b]);
+    expect(removed[0].update).toEqual({ types: ['cafe'], primaryType: 'cafe' });
+    expect(removed[0].summary).toBe('indoor-play, cafe → cafe');
+    expect(removed[1].skipReason).toBe("Doesn't have Indoor Play");
+
+    expect(planBulkEdit([b], { kind: 'remove-type', type: 'cafe' }, [b])[0].skipReason).toBe('Cafes is its only type');
+  });
+
+  test('sets the price and shifts ages within 0-18', () => {
+    const a = makeLocation('a');
+    const b = makeLocation('b', { ageRange: { min: 10, max: 18 }, priceRange: 'Free' });
+
+    const priced = planBulkEdit([a, b], { kind: 'set-price', priceRange: 'Free' }, [a, b]);
+    expect(priced[0]).toMatchObject({ summary: '€ → Free', update: { priceRange: 'Free' } });
+    expect(priced[1].skipReason).toBe('Price is already Free');
+
+    const shifted = planBulkEdit([a, b], { kind: 'shift-age', years: 2 }, [a, b]);
+    expect(shifted[0]).toMatchObject({ summary: '3-12 → 5-14', update: { ageRange: { min: 5, max: 14 } } });
+    expect(shifted[1].update).toEqual({ ageRange: { min: 12, max: 18 } });
+
+    const atLimit = makeLocation('c', { ageRange: { min: 18, max: 18 } });
+    expect(planBulkEdit([atLimit], { kind: 'shift-age', years: 1 }, [atLimit])[0].skipReason)
+      .toBe('Ages are already at the upper limit');
+  });
+
+  test('features locations in the free slots until they run out', () => {
+    const featured = Array.from({ length: 7 }, (_, slot) => makeLocation(`f${slot}`, { featured: true, featuredPosition: slot }));
+    const candidates = ['x', 'y', 'z'].map(id => makeLocation(id));
+    const all = [...featured, ...candidates];
+
+    const plan = planBulkEdit([...candidates, featured[0]], { kind: 'set-featured', featured: true }, all);
+    expect(plan.map(item => item.update)).toEqual([
+      { featured: true, featuredPosition: 7 },
+      { featured: true, featuredPosition: 8 },
+      undefined,
+      undefined
+    ]);
+    expect(plan[2].skipReason).toBe('All 9 featured slots are taken');
+    expect(plan[3].skipReason).toBe('Already featured');
+
+    const unfeature = planBulkEdit([featured[1], candidates[0]], { kind: 'set-featured', featured: false }, all);
+    expect(unfeature[0].update).toEqual({ featured: false, featuredPosition: null });
+    expect(unfeature[1].skipReason).toBe('Not featured');
+  });
+
+  test('leaves descriptions and photos to be fetched when the edit runs', () => {
+    const plan = planBulkEdit([makeLocation('a')], { kind: 'refresh-photos' }, []);
+    expect(plan[0].update).toBeUndefined();
+    expect(plan[0].skipReason).toBeUndefined();
+  });
+});
+
+describe('getRegeneratedDescriptionUpdate', () => {
+  test('clears the Greek description translated from the old one', () => {
+    const translated = makeLocation('a', { translations: { el: { description: 'Παλιά περιγραφή', proTips: 'Συμβουλές' } } });
+    expect(getRegeneratedDescriptionUpdate(translated, 'New')).toEqual({
+      description: 'New',
+      translations: { el: { description: '' } }
+    });
+    expect(planBulkEdit([translated], { kind: 'regenerate-description' }, [])[0].summary)
+      .toContain('clear the Greek description');
+
+    expect(getRegeneratedDescriptionUpdate(makeLocation('b'), 'New')).toEqual({ description: 'New' });
+  });
+});
+
+describe('describeBulkEditAction', () => {
+  test('names the action for the confirmation summary', () => {
+    expect(describeBulkEditAction({ kind: 'add-type', type: 'indoor-play' })).toBe('Add type Indoor Play');
+    expect(describeBulkEditAction({ kind: 'shift-age', years: -1 })).toBe('Lower age range by 1 year');
+    expect(describeBulkEditAction({ kind: 'set-featured', featured: false })).toBe('Remove from featured');
+  });
+});
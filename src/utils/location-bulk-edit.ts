@@ -0,0 +1,188 @@
+import { ActivityType, Location } from '../types/location';
+import { ACTIVITY_CATEGORIES } from './metadata';
+
+/**
+ * Location bulk edits
+ * Plans a change across the locations selected in the admin list, so the admin can
+ * confirm exactly what will be written before anything is saved.
+ */
+
+export type BulkEditAction =
+  | { kind: 'add-type'; type: ActivityType }
+  | { kind: 'remove-type'; type: ActivityType }
+  | { kind: 'set-price'; priceRange: string }
+  | { kind: 'shift-age'; years: number }
+  | { kind: 'set-featured'; featured: boolean }
+  | { kind: 'regenerate-description' }
+  | { kind: 'refresh-photos' };
+
+export type BulkEditActionKind = BulkEditAction['kind'];
+
+export interface BulkEditPlanItem {
+  location: Location;
+  summary: string; // What will change, e.g. "3-12 → 5-14"
+  // Fields to write - missing for descriptions and photos, which are fetched when the edit runs
+  update?: Partial<Location>;
+  skipReason?: string; // Set when this location is left as it is
+}
+
+// Featured locations fill the home page slots 0-8
+export const FEATURED_SLOTS = 9;
+
+const MIN_AGE = 0;
+const MAX_AGE = 18;
+
+const typeName = (type: string): string => ACTIVITY_CATEGORIES[type]?.name || type;
+
+const formatAgeRange = (ageRange: Location['ageRange']): string => `${ageRange.min}-${ageRange.max}`;
+
+/**
+ * Describes an action for the confirmation summary, e.g. "Add type Indoor Play"
+ */
+export const describeBulkEditAction = (action: BulkEditAction): string => {
+  switch (action.kind) {
+    case 'add-type':
+      return `Add type ${typeName(action.type)}`;
+    case 'remove-type':
+      return `Remove type ${typeName(action.type)}`;
+    case 'set-price':
+      return `Set price to ${action.priceRange}`;
+    case 'shift-age':
+      return `${action.years > 0 ? 'Raise' : 'Lower'} age range by ${Math.abs(action.years)} ${Math.abs(action.years) === 1 ? 'year' : 'years'}`;
+    case 'set-featured':
+      return action.featured ? 'Mark as featured' : 'Remove from featured';
+    case 'regenerate-description':
+      return 'Regenerate descriptions';
+    case 'refresh-photos':
+      return 'Refresh photos from Google';
+  }
+};
+
+// Slots not held by a featured location, lowest first
+const getFreeFeaturedSlots = (allLocations: Location[]): number[] => {
+  const taken = new Set(
+    allLocations
+      .filter(location => location.featured === true && typeof location.featuredPosition === 'number')
+      .map(location => location.featuredPosition)
+  );
+  return Array.from({ length: FEATURED_SLOTS }, (_, slot) => slot).filter(slot => !taken.has(slot));
+};
+
+const planItem = (location: Location, action: BulkEditAction, freeSlots: number[]): BulkEditPlanItem => {
+  switch (action.kind) {
+    case 'add-type': {
+      if (location.types.includes(action.type)) {
+        return { location, summary: '', skipReason: `Already has ${typeName(action.type)}` };
+      }
+      const types = [...location.types, action.type];
+      return {
+        location,
+        summary: `${location.types.join(', ')} → ${types.join(', ')}`,
+        update: { types }
+      };
+    }
+
+    case 'remove-type': {
+      if (!location.types.includes(action.type)) {
+        return { location, summary: '', skipReason: `Doesn't have ${typeName(action.type)}` };
+      }
+      const types = location.types.filter(type => type !== action.type);
+      if (types.length === 0) {
+        return { location, summary: '', skipReason: `${typeName(action.type)} is its only type` };
+      }
+      const update: Partial<Location> = { types };
+      // The primary type has to stay one of the location's types
+      if (location.primaryType === action.type) {
+        update.primaryType = types[0];
+      }
+      return {
+        location,
+        summary: `${location.types.join(', ')} → ${types.join(', ')}`,
+        update
+      };
+    }
+
+    case 'set-price': {
+      if (location.priceRange === action.priceRange) {
+        return { location, summary: '', skipReason: `Price is already ${action.priceRange}` };
+      }
+      return {
+        location,
+        summary: `${location.priceRange || 'Not specified'} → ${action.priceRange}`,
+        update: { priceRange: action.priceRange }
+      };
+    }
+
+    case 'shift-age': {
+      const ageRange = {
+        min: Math.min(Math.max(location.ageRange.min + action.years, MIN_AGE), MAX_AGE),
+        max: Math.min(Math.max(location.ageRange.max + action.years, MIN_AGE), MAX_AGE)
+      };
+      if (ageRange.min === location.ageRange.min && ageRange.max === location.ageRange.max) {
+        return { location, summary: '', skipReason: `Ages are already at the ${action.years > 0 ? 'upper' : 'lower'} limit` };
+      }
+      return {
+        location,
+        summary: `${formatAgeRange(location.ageRange)} → ${formatAgeRange(ageRange)}`,
+        update: { ageRange }
+      };
+    }
+
+    case 'set-featured': {
+      if (!action.featured) {
+        if (location.featured !== true) {
+          return { location, summary: '', skipReason: 'Not featured' };
+        }
+        return { location, summary: 'Remove from featured', update: { featured: false, featuredPosition: null } };
+      }
+      if (location.featured === true) {
+        return { location, summary: '', skipReason: 'Already featured' };
+      }
+      const slot = freeSlots.shift();
+      if (slot === undefined) {
+        return { location, summary: '', skipReason: `All ${FEATURED_SLOTS} featured slots are taken` };
+      }
+      return { location, summary: `Feature in slot ${slot + 1}`, update: { featured: true, featuredPosition: slot } };
+    }
+
+    case 'regenerate-description':
+      return {
+        location,
+        summary: location.translations?.el?.description
+          ? 'Replace the description with a new one generated from Google reviews, and clear the Greek description until it is translated again'
+          : 'Replace the description with a new one generated from Google reviews'
+      };
+
+    case 'refresh-photos':
+      return { location, summary: 'Fetch photos from Google again and replace the stored copies' };
+  }
+};
+
+/**
+ * The fields to write for a regenerated description. The Greek description was translated
+ * from the old one, so it is cleared and the Greek page shows the English text until it
+ * is translated again.
+ * @param location The location as it was before the edit
+ * @param description The new English description
+ */
+export const getRegeneratedDescriptionUpdate = (location: Location, description: string): Partial<Location> => {
+  if (!location.translations?.el?.description) {
+    return { description };
+  }
+  return { description, translations: { el: { description: '' } } };
+};
+
+/**
+ * Works out what an action changes on each selected location
+ * @param selected Locations the action applies to, in list order
+ * @param allLocations Every location - used to find free featured slots
+ * @returns One item per selected location, with a skip reason when nothing would change
+ */
+export const planBulkEdit = (
+  selected: Location[],
+  action: BulkEditAction,
+  allLocations: Location[]
+): BulkEditPlanItem[] => {
+  const freeSlots = getFreeFeaturedSlots(allLocations);
+  return selected.map(location => planItem(location, action, freeSlots));
+};
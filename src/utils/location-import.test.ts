@@ -0,0 +1,120 @@
+import {
+  buildLocationFromPlace,
+  getActivityTypeFromPlaceTypes,
+  getPlaceNameFromUrl,
+  parseLocationCsv,
+  parseLocationList
+} from './location-import';
+
+const PLACE_ID = 'ChIJN1t_tDeuEmsRUsoyG83frY4';
+
+const place = {
+  name: 'Allou Fun Park',
+  types: ['point_of_interest', 'amusement_park'],
+  formatted_address: 'Kifisou 115, Athens',
+  formatted_phone_number: '210 000 0000',
+  website: 'https://example.com',
+  price_level: 2,
+  rating: 4.3,
+  user_ratings_total: 120,
+  geometry: { location: { lat: () => 37.97, lng: () => 23.7 } },
+  opening_hours: { weekday_text: ['Monday: 10:00 AM – 8:00 PM', 'Tuesday: Closed'] }
+};
+
+describe('buildLocationFromPlace', () => {
+  test('maps Google place data to a new location', () => {
+    const location = buildLocationFromPlace(PLACE_ID, place);
+
+    expect(location).toMatchObject({
+      id: PLACE_ID,
+      name: 'Allou Fun Park',
+      coordinates: { lat: 37.97, lng: 23.7 },
+      types: ['entertainment'],
+      primaryType: 'entertainment',
+      ageRange: { min: 0, max: 16 },
+      priceRange: '€€',
+      openingHours: { Monday: '10:00 AM – 8:00 PM', Tuesday: 'Closed' },
+      contact: { phone: '210 000 0000', email: '', website: 'https://example.com' }
+    });
+    expect(location.schedule?.weekly.Monday).toEqual([{ open: '10:00', close: '20:00' }]);
+    expect(location.placeData.rating).toBe(4.3);
+  });
+
+  test('prefers the types, ages and price given for the row', () => {
+    const location = buildLocationFromPlace(PLACE_ID, place, {
+      types: ['indoor-play', 'entertainment'],
+      ageRange: { min: 2, max: 10 },
+      priceRange: 'Free'
+    });
+
+    expect(location.types).toEqual(['indoor-play', 'entertainment']);
+    expect(location.primaryType).toBe('indoor-play');
+    expect(location.ageRange).toEqual({ min: 2, max: 10 });
+    expect(location.priceRange).toBe('Free');
+  });
+
+  test('falls back to entertainment for unmapped place types', () => {
+    expect(getActivityTypeFromPlaceTypes(['point_of_interest'])).toBe('entertainment');
+    expect(getActivityTypeFromPlaceTypes(['museum', 'park'])).toBe('education');
+  });
+});
+
+describe('parseLocationList', () => {
+  test('reads Place IDs, Maps URLs and names, one per line', () => {
+    const rows = parseLocationList(
+      `${PLACE_ID}\n\n` +
+      `https://www.google.com/maps/search/?api=1&query_place_id=${PLACE_ID}\n` +
+      'https://www.google.com/maps/place/Allou+Fun+Park/@37.9,23.7\n' +
+      'Allou Fun Park\n'
+    );
+
+    expect(rows.map(row => row.rowNumber)).toEqual([1, 3, 4, 5]);
+    expect(rows[0].placeId).toBe(PLACE_ID);
+    expect(rows[1].placeId).toBe(PLACE_ID);
+    expect(rows[2].placeId).toBeUndefined();
+    expect(rows[2].mapsUrl).toBe('https://www.google.com/maps/place/Allou+Fun+Park/@37.9,23.7');
+    expect(rows[3].name).toBe('Allou Fun Park');
+    expect(rows[3].placeId).toBeUndefined();
+  });
+
+  test('reads the place name from share links', () => {
+    expect(getPlaceNameFromUrl('https://www.google.com/maps/place/Allou+Fun+Park/@37.9,23.7')).toBe('Allou Fun Park');
+    expect(getPlaceNameFromUrl(`https://www.google.com/maps/place/${PLACE_ID}`)).toBeNull();
+    expect(getPlaceNameFromUrl('not a url')).toBeNull();
+  });
+});
+
+describe('parseLocationCsv', () => {
+  test('maps columns to overrides', () => {
+    const parsed = parseLocationCsv(
+      'Name,Place ID,Types,Age Range,Price\n' +
+      `Allou Fun Park,${PLACE_ID},indoor-play; entertainment,3-12,€€\n` +
+      'Stavros Niarchos Park,,,,free\n'
+    );
+
+    expect(parsed.error).toBeNull();
+    expect(parsed.rows[0]).toMatchObject({
+      rowNumber: 2,
+      label: 'Allou Fun Park',
+      placeId: PLACE_ID,
+      overrides: { types: ['indoor-play', 'entertainment'], ageRange: { min: 3, max: 12 }, priceRange: '€€' }
+    });
+    expect(parsed.rows[1]).toMatchObject({ name: 'Stavros Niarchos Park', overrides: { priceRange: 'Free' } });
+    expect(parsed.rows[1].error).toBeUndefined();
+  });
+
+  test('flags rows it cannot import', () => {
+    const parsed = parseLocationCsv('name,type,min age,max age,price\nA,zoo-ride,2,40,cheap\n,,,,\n');
+
+    expect(parsed.rows[0].error).toBe(
+      'Unknown activity type: zoo-ride. Age range must look like "3-12", with ages from 0 to 18. Price must be one of Free, €, €€, €€€'
+    );
+    expect(parsed.rows[1].error).toBe('Needs a place ID, Maps URL or name');
+  });
+
+  test('needs a column to find the place by', () => {
+    expect(parseLocationCsv('types,price\nzoo,€').error).toBe('The file needs a "place id", "maps url" or "name" column');
+    expect(parseLocationCsv('name\n').error).toBe('The file has no places below the header row');
+    expect(parseLocationCsv('').error).toBe('The file is empty');
+  });
+});
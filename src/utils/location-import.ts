@@ -0,0 +1,358 @@
+import { ActivityType, Location } from '../types/location';
+import { ACTIVITY_CATEGORIES } from './metadata';
+import { parseOpeningHoursText } from './opening-hours';
+import { parseCsv } from './data-export';
+import { PLACE_ID_PATTERN, extractPlaceIdFromUrl } from './places-api';
+
+/**
+ * Location import
+ * Turns Google Places results into new locations (shared by the Add Location form and the
+ * bulk import) and reads the bulk import's input: a pasted list of Place IDs and Maps URLs,
+ * or a CSV with name, place ID, types, age range and price per row.
+ */
+
+// Map Google place types to our ActivityType
+const activityTypeMapping: Record<string, ActivityType> = {
+  // Entertainment venues
+  'amusement_park': 'entertainment',
+  'movie_theater': 'movies',
+  'bowling_alley': 'entertainment',
+  'casino': 'entertainment',
+  'theme_park': 'theme-park',
+
+  // Educational places
+  'aquarium': 'education',
+  'museum': 'education',
+  'library': 'education',
+  'school': 'education',
+  'university': 'education',
+  'science_museum': 'stem',
+  'history_museum': 'history',
+
+  // Arts and culture
+  'art_gallery': 'arts',
+  'theater': 'drama',
+  'dance_studio': 'dance',
+
+  // Outdoor activities
+  'zoo': 'outdoor-play',
+  'park': 'outdoor-play',
+  'playground': 'outdoor-play',
+  'campground': 'camp',
+  'beach': 'beach',
+  'hiking_area': 'hike',
+
+  // Sports facilities
+  'stadium': 'sports',
+  'gym': 'sports',
+  'sports_complex': 'sports',
+  'tennis_court': 'tennis',
+  'basketball_court': 'basketball',
+  'soccer_field': 'soccer',
+  'swimming_pool': 'swim',
+  'martial_arts_school': 'martial-arts',
+  'horse_riding': 'horseback-riding',
+
+  // Food establishments
+  'restaurant': 'restaurant',
+  'cafe': 'cafe',
+
+  // Event venues
+  'event_venue': 'event-space',
+
+  // Other relevant places
+  'language_school': 'language',
+  'yoga_studio': 'yoga'
+};
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Values the location form offers for the price range
+export const PRICE_RANGES = ['Free', '€', '€€', '€€€'];
+
+// A new location built from Google Places data, ready for the location form
+export type PlaceLocation = Pick<
+  Location,
+  'id' | 'name' | 'coordinates' | 'types' | 'address' | 'ageRange' | 'description' | 'openingHours' | 'schedule' | 'priceRange' | 'contact' | 'proTips'
+> & {
+  primaryType: ActivityType;
+  placeData: NonNullable<Location['placeData']>;
+};
+
+// Values from a bulk import row that beat our guesses from the Google data
+export interface PlaceLocationOverrides {
+  types?: ActivityType[];
+  ageRange?: { min: number; max: number };
+  priceRange?: string;
+}
+
+/**
+ * Picks our activity type for a place from its Google types
+ * @returns The first type we map, or "entertainment"
+ */
+export const getActivityTypeFromPlaceTypes = (placeTypes: string[] = []): ActivityType => {
+  const match = placeTypes.find(type => activityTypeMapping[type]);
+  return match ? activityTypeMapping[match] : 'entertainment';
+};
+
+// Handle both function and direct property patterns for coordinates
+const getPlaceCoordinates = (place: any): { lat: number; lng: number } => {
+  const location = place.geometry?.location;
+  if (!location) return { lat: 0, lng: 0 };
+
+  // First check if location has lat/lng functions (common in Google Maps API)
+  if (typeof location.lat === 'function' && typeof location.lng === 'function') {
+    return { lat: location.lat(), lng: location.lng() };
+  }
+
+  // Then check if lat/lng are direct properties
+  if (typeof location.lat === 'number' && typeof location.lng === 'number') {
+    return { lat: location.lat, lng: location.lng };
+  }
+
+  // Finally, see if we can access lat/lng from other properties
+  if (location.latitude !== undefined && location.longitude !== undefined) {
+    return { lat: Number(location.latitude), lng: Number(location.longitude) };
+  }
+
+  // Fallback to zeros
+  console.warn('Could not determine location coordinates, using default zeros');
+  return { lat: 0, lng: 0 };
+};
+
+// Opening hours text per day from Google's weekday_text ("Monday: 9:00 AM – 5:00 PM")
+const getPlaceOpeningHours = (place: any): Record<string, string> => {
+  const openingHours: Record<string, string> = {};
+
+  (place.opening_hours?.weekday_text || []).forEach((text: string) => {
+    const day = WEEKDAYS.find(weekday => text.startsWith(weekday));
+    if (day) {
+      openingHours[day] = text.substring(day.length + 2); // +2 to skip ": "
+    }
+  });
+
+  return openingHours;
+};
+
+// Photo URLs for up to 10 of the place's photos
+const getPlacePhotoUrls = (place: any): string[] => {
+  if (!place.photos || !place.photos.length) {
+    return [];
+  }
+
+  const apiKey = process.env.REACT_APP_GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    console.warn('Google Maps API key missing, cannot generate photo URLs');
+    return [];
+  }
+
+  return place.photos.slice(0, 10).map((photo: { photo_reference: string }) =>
+    `https://maps.googleapis.com/maps/api/place/photo?maxwidth=800&photoreference=${photo.photo_reference}&key=${apiKey}`
+  );
+};
+
+/**
+ * Builds a new location from a Google Places result
+ * @param placeId The Google Place ID, which becomes the location ID
+ * @param place Result of fetchPlaceDetailsFromGoogleApi
+ * @param overrides Types, ages and price given by the admin
+ * @returns The location with a placeholder description - generate the real one separately
+ */
+export const buildLocationFromPlace = (
+  placeId: string,
+  place: any,
+  overrides: PlaceLocationOverrides = {}
+): PlaceLocation => {
+  const primaryType = overrides.types?.[0] || getActivityTypeFromPlaceTypes(place.types);
+  const openingHours = getPlaceOpeningHours(place);
+
+  return {
+    id: placeId,
+    name: place.name,
+    coordinates: getPlaceCoordinates(place),
+    types: overrides.types && overrides.types.length > 0 ? overrides.types : [primaryType],
+    primaryType,
+    address: place.formatted_address || '',
+    ageRange: overrides.ageRange || {
+      min: primaryType === 'education' ? 3 : 0,
+      max: 16
+    },
+    description: `${place.name} is a great place for kids in Athens. Suitable for various age groups.`,
+    openingHours,
+    schedule: parseOpeningHoursText(openingHours),
+    priceRange: overrides.priceRange || (place.price_level ? '€'.repeat(Math.min(place.price_level, 3)) : '€'),
+    contact: {
+      phone: place.formatted_phone_number || '',
+      email: '',
+      website: place.website || ''
+    },
+    proTips: '',
+    placeData: {
+      rating: place.rating,
+      userRatingsTotal: place.user_ratings_total,
+      photoUrls: getPlacePhotoUrls(place),
+      phone: place.formatted_phone_number,
+      website: place.website,
+      address: place.formatted_address,
+      hours: openingHours,
+      last_fetched: new Date().toISOString()
+    }
+  };
+};
+
+// One place to import - at least one of placeId, mapsUrl and name is set
+export interface LocationImportRow {
+  rowNumber: number; // Line of the pasted list, or row of the CSV counting the header as 1
+  label: string; // What the admin gave us, for the review queue
+  placeId?: string;
+  mapsUrl?: string;
+  name?: string;
+  overrides: PlaceLocationOverrides;
+  error?: string; // Set when the row can't be imported as it is
+}
+
+/**
+ * Reads the place name from a Maps share link such as /maps/place/Allou+Fun+Park/@37.9,23.7
+ * @returns The name, or null when the link has none
+ */
+export const getPlaceNameFromUrl = (url: string): string | null => {
+  try {
+    const match = new URL(url).pathname.match(/\/place\/([^/@]+)/);
+    if (!match || PLACE_ID_PATTERN.test(match[1])) return null;
+    return decodeURIComponent(match[1].replace(/\+/g, ' ')).trim() || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Reads a pasted list with one Place ID or Google Maps URL per line
+ * Blank lines are skipped; anything else is looked up by name
+ */
+export const parseLocationList = (text: string): LocationImportRow[] => {
+  return text.split(/\r?\n/).reduce<LocationImportRow[]>((rows, line, index) => {
+    const value = line.trim();
+    if (!value) return rows;
+
+    const row: LocationImportRow = { rowNumber: index + 1, label: value, overrides: {} };
+    if (/^https?:\/\//i.test(value)) {
+      row.mapsUrl = value;
+      row.placeId = extractPlaceIdFromUrl(value) || undefined;
+    } else if (PLACE_ID_PATTERN.test(value)) {
+      row.placeId = value;
+    } else {
+      row.name = value;
+    }
+    rows.push(row);
+    return rows;
+  }, []);
+};
+
+type CsvField = 'name' | 'placeId' | 'mapsUrl' | 'types' | 'ageRange' | 'minAge' | 'maxAge' | 'priceRange';
+
+// Accepted column headers per field, compared lowercased without spaces, dashes or underscores
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  name: ['name'],
+  placeId: ['placeid', 'googleplaceid'],
+  mapsUrl: ['mapsurl', 'url', 'link', 'googlemapslink', 'mapslink'],
+  types: ['types', 'type', 'activitytypes'],
+  ageRange: ['agerange', 'ages'],
+  minAge: ['minage', 'agemin'],
+  maxAge: ['maxage', 'agemax'],
+  priceRange: ['price', 'pricerange']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]/g, '');
+
+const parseAge = (value: string): number | null => (/^\d{1,2}$/.test(value) ? Number(value) : null);
+
+// "Free", "€€" or "2" - returns null for anything the location form doesn't offer
+const parsePriceRange = (value: string): string | null => {
+  if (value.toLowerCase() === 'free') return 'Free';
+  if (/^[1-3]$/.test(value)) return '€'.repeat(Number(value));
+  return PRICE_RANGES.includes(value) ? value : null;
+};
+
+/**
+ * Reads a CSV of places to import
+ * Columns: name, place id, maps url, types (separated by ";"), age range ("3-12") or
+ * min age / max age, and price. Each row needs a place ID, a Maps URL or a name.
+ * @returns One row per CSV line, with an error on rows that can't be imported
+ */
+export const parseLocationCsv = (text: string): { rows: LocationImportRow[]; error: string | null } => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { rows: [], error: 'The file is empty' };
+  }
+
+  const columns = header.map(cell => {
+    const normalized = normalizeHeader(cell);
+    return (Object.keys(CSV_HEADER_ALIASES) as CsvField[]).find(field => CSV_HEADER_ALIASES[field].includes(normalized)) || null;
+  });
+  if (!columns.some(field => field === 'name' || field === 'placeId' || field === 'mapsUrl')) {
+    return { rows: [], error: 'The file needs a "place id", "maps url" or "name" column' };
+  }
+  if (lines.length === 0) {
+    return { rows: [], error: 'The file has no places below the header row' };
+  }
+
+  const rows = lines.map((cells, index) => {
+    const values: Partial<Record<CsvField, string>> = {};
+    columns.forEach((field, column) => {
+      const value = (cells[column] || '').trim();
+      if (field && value) values[field] = value;
+    });
+
+    const errors: string[] = [];
+    const overrides: PlaceLocationOverrides = {};
+
+    if (values.types) {
+      const types = values.types.split(/[;|]/).map(type => type.trim()).filter(Boolean);
+      const unknown = types.filter(type => !(type in ACTIVITY_CATEGORIES));
+      if (unknown.length > 0) {
+        errors.push(`Unknown activity type: ${unknown.join(', ')}`);
+      } else {
+        overrides.types = types as ActivityType[];
+      }
+    }
+
+    const [minText, maxText] = values.ageRange
+      ? values.ageRange.split(/\s*[-–]\s*/)
+      : [values.minAge, values.maxAge];
+    if (minText !== undefined || maxText !== undefined) {
+      const min = parseAge(minText || '');
+      const max = parseAge(maxText || '');
+      if (min === null || max === null || min > max || max > 18) {
+        errors.push('Age range must look like "3-12", with ages from 0 to 18');
+      } else {
+        overrides.ageRange = { min, max };
+      }
+    }
+
+    if (values.priceRange) {
+      const priceRange = parsePriceRange(values.priceRange);
+      if (priceRange) {
+        overrides.priceRange = priceRange;
+      } else {
+        errors.push(`Price must be one of ${PRICE_RANGES.join(', ')}`);
+      }
+    }
+
+    const placeId = values.placeId || (values.mapsUrl ? extractPlaceIdFromUrl(values.mapsUrl) : null) || undefined;
+    if (!placeId && !values.mapsUrl && !values.name) {
+      errors.push('Needs a place ID, Maps URL or name');
+    }
+
+    return {
+      rowNumber: index + 2,
+      label: values.name || values.placeId || values.mapsUrl || '(empty row)',
+      placeId,
+      mapsUrl: values.mapsUrl,
+      name: values.name,
+      overrides,
+      error: errors.length > 0 ? errors.join('. ') : undefined
+    };
+  });
+
+  return { rows, error: null };
+};
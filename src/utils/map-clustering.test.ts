@@ -0,0 +1,64 @@
+import { clusterLocations, getLocationsInBounds, isInBounds } from './map-clustering';
+import { ActivityType, Location } from '../types/location';
+
+const makeLocation = (id: string, lat: number, lng: number, type: ActivityType = 'playground'): Location => ({
+  id,
+  name: id,
+  coordinates: { lat, lng },
+  types: [type],
+  primaryType: type,
+  description: '',
+  address: '',
+  ageRange: { min: 0, max: 12 },
+  openingHours: {},
+  contact: {}
+});
+
+// Central Athens at roughly city-wide zoom
+const athensViewport = {
+  bounds: { north: 38.05, south: 37.9, east: 23.85, west: 23.6 },
+  zoom: 12
+};
+
+describe('isInBounds', () => {
+  test('handles bounds that cross the antimeridian', () => {
+    const bounds = { north: 10, south: -10, east: -170, west: 170 };
+    expect(isInBounds({ lat: 0, lng: 175 }, bounds)).toBe(true);
+    expect(isInBounds({ lat: 0, lng: -175 }, bounds)).toBe(true);
+    expect(isInBounds({ lat: 0, lng: 0 }, bounds)).toBe(false);
+  });
+});
+
+describe('clusterLocations', () => {
+  const syntagma = makeLocation('syntagma', 37.9755, 23.7348);
+  const nearby = makeLocation('nearby', 37.9757, 23.735, 'history');
+  const alsoNearby = makeLocation('also-nearby', 37.9759, 23.7352, 'history');
+  const piraeus = makeLocation('piraeus', 37.942, 23.6465);
+  const thessaloniki = makeLocation('thessaloniki', 40.6401, 22.9444);
+
+  test('only includes locations inside the viewport', () => {
+    expect(getLocationsInBounds([syntagma, thessaloniki], athensViewport.bounds)).toEqual([syntagma]);
+  });
+
+  test('groups nearby locations and colours the cluster by the most common category', () => {
+    const clusters = clusterLocations([syntagma, nearby, alsoNearby, piraeus, thessaloniki], athensViewport);
+    expect(clusters).toHaveLength(2);
+
+    const central = clusters.find(cluster => cluster.locations.length === 3);
+    expect(central?.dominantType).toBe('history');
+    expect(central?.bounds.north).toBeCloseTo(37.9759);
+    expect(clusters.find(cluster => cluster.locations.length === 1)?.id).toBe('location-piraeus');
+  });
+
+  test('splits clusters apart when zoomed in', () => {
+    const clusters = clusterLocations([syntagma, nearby, alsoNearby], { ...athensViewport, zoom: 17 });
+    expect(clusters).toHaveLength(3);
+  });
+
+  test('keeps requested locations out of clusters', () => {
+    const clusters = clusterLocations([syntagma, nearby, alsoNearby], athensViewport, {
+      keepSeparate: location => location.id === 'syntagma'
+    });
+    expect(clusters.map(cluster => cluster.locations.length).sort()).toEqual([1, 2]);
+  });
+});
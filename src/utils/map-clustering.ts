@@ -0,0 +1,185 @@
+import { ActivityType, Location } from '../types/location';
+import { Coordinates } from './geo';
+
+/**
+ * Map marker clustering
+ * Groups the locations inside the current viewport into screen-space grid cells, so
+ * nearby venues collapse into a single counted marker when zoomed out and split apart
+ * again as the map zooms in.
+ */
+
+export interface ViewportBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Snapshot of the visible map area, taken when the map goes idle
+export interface MapViewport {
+  bounds: ViewportBounds;
+  zoom: number;
+}
+
+export interface LocationCluster {
+  id: string;
+  center: Coordinates;
+  bounds: ViewportBounds;
+  locations: Location[];
+  dominantType: ActivityType;
+}
+
+export interface ClusterOptions {
+  gridSize?: number; // Cell size in screen pixels
+  maxClusterZoom?: number; // Above this zoom every location gets its own marker
+  padding?: number; // Extra fraction of the viewport to include, so markers don't pop in while panning
+  getDisplayType?: (location: Location) => ActivityType;
+  keepSeparate?: (location: Location) => boolean; // e.g. the selected location should never disappear into a cluster
+}
+
+const TILE_SIZE = 256;
+
+const defaultDisplayType = (location: Location): ActivityType => location.primaryType || location.types[0];
+
+/**
+ * Projects coordinates into Web Mercator world pixels at the given zoom level
+ * (the same projection Google Maps uses for its tiles)
+ */
+const projectToPixels = (coordinates: Coordinates, zoom: number): { x: number; y: number } => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.min(Math.max(Math.sin((coordinates.lat * Math.PI) / 180), -0.9999), 0.9999);
+
+  return {
+    x: ((coordinates.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  };
+};
+
+/**
+ * Grows viewport bounds by a fraction of their size on every side
+ */
+export const padBounds = (bounds: ViewportBounds, padding: number): ViewportBounds => {
+  const latPadding = (bounds.north - bounds.south) * padding;
+  // Bounds that cross the antimeridian have west > east
+  const lngSpan = bounds.east >= bounds.west ? bounds.east - bounds.west : bounds.east + 360 - bounds.west;
+  const lngPadding = lngSpan * padding;
+
+  return {
+    north: Math.min(bounds.north + latPadding, 90),
+    south: Math.max(bounds.south - latPadding, -90),
+    east: bounds.east + lngPadding,
+    west: bounds.west - lngPadding
+  };
+};
+
+/**
+ * Checks whether coordinates fall inside viewport bounds
+ */
+export const isInBounds = (coordinates: Coordinates, bounds: ViewportBounds): boolean => {
+  if (coordinates.lat < bounds.south || coordinates.lat > bounds.north) return false;
+
+  if (bounds.east >= bounds.west) {
+    return coordinates.lng >= bounds.west && coordinates.lng <= bounds.east;
+  }
+  return coordinates.lng >= bounds.west || coordinates.lng <= bounds.east;
+};
+
+/**
+ * Returns the locations inside the viewport (optionally padded)
+ * @param locations Locations to check
+ * @param bounds Current viewport bounds
+ * @param padding Fraction of the viewport to add on each side
+ */
+export const getLocationsInBounds = (locations: Location[], bounds: ViewportBounds, padding = 0): Location[] => {
+  const paddedBounds = padding > 0 ? padBounds(bounds, padding) : bounds;
+  return locations.filter(location => isInBounds(location.coordinates, paddedBounds));
+};
+
+/**
+ * Works out which category colour a cluster should use - the most common display type
+ */
+const getDominantType = (locations: Location[], getDisplayType: (location: Location) => ActivityType): ActivityType => {
+  const counts = new Map<ActivityType, number>();
+  let dominant = getDisplayType(locations[0]);
+
+  locations.forEach(location => {
+    const type = getDisplayType(location);
+    const count = (counts.get(type) || 0) + 1;
+    counts.set(type, count);
+    if (count > (counts.get(dominant) || 0)) {
+      dominant = type;
+    }
+  });
+
+  return dominant;
+};
+
+/**
+ * Clusters the locations visible in a viewport
+ * @param locations Locations that passed the active filters
+ * @param viewport Current map bounds and zoom
+ * @param options Grid size, zoom cut-off, padding and category lookup
+ * @returns One cluster per occupied grid cell; single-location clusters are plain markers
+ */
+export const clusterLocations = (
+  locations: Location[],
+  viewport: MapViewport,
+  options: ClusterOptions = {}
+): LocationCluster[] => {
+  const {
+    gridSize = 60,
+    maxClusterZoom = 16,
+    padding = 0.25,
+    getDisplayType = defaultDisplayType,
+    keepSeparate
+  } = options;
+
+  const inView = getLocationsInBounds(locations, viewport.bounds, padding);
+  const zoom = Math.round(viewport.zoom);
+  const cells = new Map<string, Location[]>();
+
+  const getCellKey = (location: Location): string => {
+    // Past the cut-off zoom (or when asked to) a location gets a cell of its own
+    if (zoom > maxClusterZoom || (keepSeparate && keepSeparate(location))) {
+      return `location-${location.id}`;
+    }
+    const { x, y } = projectToPixels(location.coordinates, zoom);
+    return `cell-${Math.floor(x / gridSize)}-${Math.floor(y / gridSize)}`;
+  };
+
+  inView.forEach(location => {
+    const key = getCellKey(location);
+
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(location);
+    } else {
+      cells.set(key, [location]);
+    }
+  });
+
+  const clusters: LocationCluster[] = [];
+  cells.forEach((cellLocations, key) => {
+    const lats = cellLocations.map(location => location.coordinates.lat);
+    const lngs = cellLocations.map(location => location.coordinates.lng);
+
+    clusters.push({
+      // Single markers keep a stable id so React can reuse them across zoom levels
+      id: cellLocations.length === 1 ? `location-${cellLocations[0].id}` : `${key}-z${zoom}`,
+      center: {
+        lat: lats.reduce((sum, lat) => sum + lat, 0) / lats.length,
+        lng: lngs.reduce((sum, lng) => sum + lng, 0) / lngs.length
+      },
+      bounds: {
+        north: Math.max(...lats),
+        south: Math.min(...lats),
+        east: Math.max(...lngs),
+        west: Math.min(...lngs)
+      },
+      locations: cellLocations,
+      dominantType: getDominantType(cellLocations, getDisplayType)
+    });
+  });
+
+  return clusters;
+};
@@ -113,6 +113,40 @@ export const PAGE_SEO = {
     type: "article"
   },
   
+  // Place pages - defaults used when the location doesn't provide values
+  place: {
+    titleSuffix: "PameKids", // Used as: "Location Name | PameKids"
+    fallbackImage: LOGOS.ogImage,
+    keywords: "children activities, Athens, Greece, kids",
+    type: "website"
+  },
+
+  // Activity landing pages (/activities/:slug) - "{name}" is replaced with the page name.
+  // Entries in pages replace the templates for a single page, keyed by slug.
+  activityLanding: {
+    titleTemplate: "{name} for Kids in Athens | PameKids", // e.g. "Swimming for Kids in Athens | PameKids"
+    descriptionTemplate: "{name} for children in Athens - the best places, with ages, opening hours and parents' tips.",
+    keywords: "children activities, Athens, Greece, kids",
+    image: LOGOS.ogImage,
+    type: "website",
+    pages: {
+      'free-activities': {
+        title: "Free Things to Do with Kids in Athens | PameKids",
+        description: "Parks, playgrounds, beaches and more free activities for children in Athens."
+      }
+    } as Record<string, { title?: string; description?: string }>
+  },
+
+  // Neighbourhood landing pages (/areas/:slug) - same templates as activityLanding
+  areaLanding: {
+    titleTemplate: "Kids' Activities in {name} | PameKids", // e.g. "Kids' Activities in Glyfada | PameKids"
+    descriptionTemplate: "Playgrounds, classes, indoor play and family-friendly places in {name}, Athens.",
+    keywords: "children activities, Athens, Greece, kids, neighbourhood",
+    image: LOGOS.ogImage,
+    type: "website",
+    pages: {} as Record<string, { title?: string; description?: string }>
+  },
+
   // Privacy Policy page
   privacy: {
     title: "Privacy Policy - PameKids",
@@ -135,6 +169,14 @@ export const PAGE_SEO = {
     type: "website"
   },
   
+  // Newsletter preferences - reached from personal email links only
+  newsletterPreferences: {
+    title: "Newsletter Preferences - PameKids",
+    description: "Choose which PameKids newsletter updates you receive, or unsubscribe",
+    noIndex: true,
+    type: "website"
+  },
+  
   // Admin pages - typically we'd set noIndex to true for admin pages
   admin: {
     title: "Admin - PameKids",
@@ -144,77 +186,149 @@ export const PAGE_SEO = {
   }
 };
 
+// Greek text for PAGE_SEO - anything left out here stays the same in both languages
+export const PAGE_SEO_EL: { [K in keyof typeof PAGE_SEO]?: Partial<(typeof PAGE_SEO)[K]> } = {
+  home: {
+    title: `${APP_NAME} - Δραστηριότητες για Παιδιά στην Ελλάδα`,
+    description: "Ανακαλύψτε τις καλύτερες δραστηριότητες για παιδιά στην Αθήνα: παιδότοποι, υπαίθριες δραστηριότητες, αθλήματα, τέχνες, μουσική, εκπαίδευση και ψυχαγωγία.",
+    keywords: "δραστηριότητες για παιδιά, Αθήνα, Ελλάδα, παιδιά, παιδότοποι, παιδικές χαρές",
+    imageAlt: "PameKids - Βρείτε δραστηριότητες για παιδιά στην Ελλάδα"
+  },
+
+  map: {
+    title: "Χάρτης Δραστηριοτήτων για Παιδιά - PameKids",
+    description: "Διαδραστικός χάρτης με δραστηριότητες για παιδιά στην Αθήνα. Βρείτε κοντινές παιδικές χαρές, παιδότοπους, αθλητικές εγκαταστάσεις και πολλά ακόμη.",
+    keywords: "χάρτης δραστηριοτήτων για παιδιά, χάρτης Αθήνας, μέρη για παιδιά",
+    imageAlt: "Διαδραστικός Χάρτης Δραστηριοτήτων για Παιδιά στην Ελλάδα"
+  },
+
+  blogIndex: {
+    description: "Άρθρα, οδηγοί και κριτικές για δραστηριότητες για παιδιά στην Ελλάδα.",
+    keywords: "blog για παιδιά, Αθήνα, συμβουλές για γονείς, οδηγοί δραστηριοτήτων",
+    imageAlt: "PameKids Blog - Άρθρα για Δραστηριότητες για Παιδιά"
+  },
+
+  blogPost: {
+    fallbackImageAlt: "PameKids Blog - Δραστηριότητες για Παιδιά στην Ελλάδα",
+    keywords: "δραστηριότητες για παιδιά, Αθήνα, Ελλάδα, παιδιά, blog, οδηγός"
+  },
+
+  place: {
+    keywords: "δραστηριότητες για παιδιά, Αθήνα, Ελλάδα, παιδιά"
+  },
+
+  activityLanding: {
+    titleTemplate: "{name} για Παιδιά στην Αθήνα | PameKids",
+    descriptionTemplate: "{name} για παιδιά στην Αθήνα - τα καλύτερα μέρη, με ηλικίες, ωράριο και συμβουλές από γονείς.",
+    keywords: "δραστηριότητες για παιδιά, Αθήνα, Ελλάδα, παιδιά",
+    pages: {
+      'free-activities': {
+        title: "Δωρεάν Δραστηριότητες για Παιδιά στην Αθήνα | PameKids",
+        description: "Πάρκα, παιδικές χαρές, παραλίες και άλλες δωρεάν δραστηριότητες για παιδιά στην Αθήνα."
+      }
+    }
+  },
+
+  areaLanding: {
+    // Names aren't declined, so the templates avoid "in {name}"
+    titleTemplate: "Δραστηριότητες για Παιδιά - {name} | PameKids",
+    descriptionTemplate: "{name}: παιδικές χαρές, μαθήματα, παιδότοποι και μέρη για οικογένειες με παιδιά.",
+    keywords: "δραστηριότητες για παιδιά, Αθήνα, Ελλάδα, παιδιά, γειτονιά",
+    pages: {}
+  },
+
+  privacy: {
+    title: "Πολιτική Απορρήτου - PameKids",
+    description: "Πολιτική απορρήτου του PameKids - Δραστηριότητες για Παιδιά στην Ελλάδα",
+    keywords: "πολιτική απορρήτου, PameKids, προστασία δεδομένων",
+    imageAlt: "PameKids - Πολιτική Απορρήτου"
+  },
+
+  terms: {
+    title: "Όροι Χρήσης - PameKids",
+    description: "Όροι χρήσης του PameKids - Δραστηριότητες για Παιδιά στην Ελλάδα",
+    keywords: "όροι χρήσης, PameKids, νομικά",
+    imageAlt: "PameKids - Όροι Χρήσης"
+  },
+
+  newsletterPreferences: {
+    title: "Προτιμήσεις Newsletter - PameKids",
+    description: "Επιλέξτε ποια ενημερωτικά email του PameKids θέλετε να λαμβάνετε ή καταργήστε την εγγραφή σας"
+  }
+};
+
 // Define type for activity category structure
 export interface ActivityCategory {
   name: string;
+  nameEl: string; // Greek name
   color: string;
 }
 
 // App activity categories with colors matching their group colors
 export const ACTIVITY_CATEGORIES: Record<string, ActivityCategory> = {
   // Learning group - Soft blue #6BAAD4
-  'music': { name: 'Music', color: '#6BAAD4' },
-  'language': { name: 'Language', color: '#6BAAD4' },
-  'arts': { name: 'Arts', color: '#6BAAD4' },
-  'drama': { name: 'Drama', color: '#6BAAD4' },
-  'history': { name: 'History', color: '#6BAAD4' },
-  'stem': { name: 'STEM', color: '#6BAAD4' },
-  'animals': { name: 'Animals', color: '#6BAAD4' },
-  'education': { name: 'Education', color: '#6BAAD4' },
-  'cooking': { name: 'Cooking', color: '#6BAAD4' },
+  'music': { name: 'Music', nameEl: 'Μουσική', color: '#6BAAD4' },
+  'language': { name: 'Language', nameEl: 'Γλώσσες', color: '#6BAAD4' },
+  'arts': { name: 'Arts', nameEl: 'Εικαστικά', color: '#6BAAD4' },
+  'drama': { name: 'Drama', nameEl: 'Θεατρικό Παιχνίδι', color: '#6BAAD4' },
+  'history': { name: 'History', nameEl: 'Ιστορία', color: '#6BAAD4' },
+  'stem': { name: 'STEM', nameEl: 'STEM', color: '#6BAAD4' },
+  'animals': { name: 'Animals', nameEl: 'Ζώα', color: '#6BAAD4' },
+  'education': { name: 'Education', nameEl: 'Εκπαίδευση', color: '#6BAAD4' },
+  'cooking': { name: 'Cooking', nameEl: 'Μαγειρική', color: '#6BAAD4' },
 
   // Sports group - Muted navy #4F6490
-  'sports': { name: 'Sports', color: '#4F6490' },
-  'martial-arts': { name: 'Martial Arts', color: '#4F6490' },
-  'soccer': { name: 'Soccer', color: '#4F6490' },
-  'basketball': { name: 'Basketball', color: '#4F6490' },
-  'tennis': { name: 'Tennis', color: '#4F6490' },
-  'horseback-riding': { name: 'Horseback Riding', color: '#4F6490' },
-  'dance': { name: 'Dance', color: '#4F6490' },
-  'gymnastics': { name: 'Gymnastics', color: '#4F6490' },
-  'yoga': { name: 'Yoga', color: '#4F6490' },
-  'swim': { name: 'Swimming', color: '#4F6490' },
+  'sports': { name: 'Sports', nameEl: 'Αθλήματα', color: '#4F6490' },
+  'martial-arts': { name: 'Martial Arts', nameEl: 'Πολεμικές Τέχνες', color: '#4F6490' },
+  'soccer': { name: 'Soccer', nameEl: 'Ποδόσφαιρο', color: '#4F6490' },
+  'basketball': { name: 'Basketball', nameEl: 'Μπάσκετ', color: '#4F6490' },
+  'tennis': { name: 'Tennis', nameEl: 'Τένις', color: '#4F6490' },
+  'horseback-riding': { name: 'Horseback Riding', nameEl: 'Ιππασία', color: '#4F6490' },
+  'dance': { name: 'Dance', nameEl: 'Χορός', color: '#4F6490' },
+  'gymnastics': { name: 'Gymnastics', nameEl: 'Γυμναστική', color: '#4F6490' },
+  'yoga': { name: 'Yoga', nameEl: 'Γιόγκα', color: '#4F6490' },
+  'swim': { name: 'Swimming', nameEl: 'Κολύμβηση', color: '#4F6490' },
 
   // Outdoor Play group - Soft green #8BC34A
-  'outdoor-play': { name: 'Outdoor Play', color: '#8BC34A' },
-  'playground': { name: 'Playground', color: '#8BC34A' },
-  'sports-field': { name: 'Sports Field', color: '#8BC34A' },
-  'park': { name: 'Park', color: '#8BC34A' },
+  'outdoor-play': { name: 'Outdoor Play', nameEl: 'Υπαίθριο Παιχνίδι', color: '#8BC34A' },
+  'playground': { name: 'Playground', nameEl: 'Παιδική Χαρά', color: '#8BC34A' },
+  'sports-field': { name: 'Sports Field', nameEl: 'Αθλητικό Γήπεδο', color: '#8BC34A' },
+  'park': { name: 'Park', nameEl: 'Πάρκο', color: '#8BC34A' },
 
   // Indoor Play group - Dusty rose #E893B2
-  'indoor-play': { name: 'Indoor Play', color: '#E893B2' },
-  'play-space': { name: 'Play Space', color: '#E893B2' },
-  'indoor-playground': { name: 'Indoor Playground', color: '#E893B2' },
-  'activity-center': { name: 'Activity Center', color: '#E893B2' },
+  'indoor-play': { name: 'Indoor Play', nameEl: 'Εσωτερικό Παιχνίδι', color: '#E893B2' },
+  'play-space': { name: 'Play Space', nameEl: 'Χώρος Παιχνιδιού', color: '#E893B2' },
+  'indoor-playground': { name: 'Indoor Playground', nameEl: 'Παιδότοπος', color: '#E893B2' },
+  'activity-center': { name: 'Activity Center', nameEl: 'Κέντρο Δραστηριοτήτων', color: '#E893B2' },
 
   // Entertainment group - Muted yellow #F9D056
-  'entertainment': { name: 'Entertainment', color: '#F9D056' },
-  'movies': { name: 'Movies', color: '#F9D056' },
-  'theme-park': { name: 'Theme Parks', color: '#F9D056' },
-  'event-space': { name: 'Event Spaces', color: '#F9D056' },
-  'theater': { name: 'Theater', color: '#F9D056' },
+  'entertainment': { name: 'Entertainment', nameEl: 'Ψυχαγωγία', color: '#F9D056' },
+  'movies': { name: 'Movies', nameEl: 'Σινεμά', color: '#F9D056' },
+  'theme-park': { name: 'Theme Parks', nameEl: 'Θεματικά Πάρκα', color: '#F9D056' },
+  'event-space': { name: 'Event Spaces', nameEl: 'Χώροι Εκδηλώσεων', color: '#F9D056' },
+  'theater': { name: 'Theater', nameEl: 'Θέατρο', color: '#F9D056' },
 
   // Camps group - Periwinkle blue #80A4ED
-  'camp': { name: 'Camps', color: '#80A4ED' },
-  'summer-camp': { name: 'Summer Camp', color: '#80A4ED' },
-  'easter-camp': { name: 'Easter Camp', color: '#80A4ED' },
-  'day-camp': { name: 'Day Camp', color: '#80A4ED' },
+  'camp': { name: 'Camps', nameEl: 'Κατασκηνώσεις', color: '#80A4ED' },
+  'summer-camp': { name: 'Summer Camp', nameEl: 'Καλοκαιρινή Κατασκήνωση', color: '#80A4ED' },
+  'easter-camp': { name: 'Easter Camp', nameEl: 'Πασχαλινή Κατασκήνωση', color: '#80A4ED' },
+  'day-camp': { name: 'Day Camp', nameEl: 'Ημερήσια Κατασκήνωση', color: '#80A4ED' },
 
   // Nature group - Forest green #7CB342
-  'nature': { name: 'Nature', color: '#7CB342' },
-  'beach': { name: 'Beaches', color: '#7CB342' },
-  'hike': { name: 'Hiking', color: '#7CB342' },
-  'garden': { name: 'Garden', color: '#7CB342' },
+  'nature': { name: 'Nature', nameEl: 'Φύση', color: '#7CB342' },
+  'beach': { name: 'Beaches', nameEl: 'Παραλίες', color: '#7CB342' },
+  'hike': { name: 'Hiking', nameEl: 'Πεζοπορία', color: '#7CB342' },
+  'garden': { name: 'Garden', nameEl: 'Κήπος', color: '#7CB342' },
 
   // Food group - Soft coral #E57373
-  'restaurant': { name: 'Restaurants', color: '#E57373' },
-  'cafe': { name: 'Cafes', color: '#E57373' },
-  'food-court': { name: 'Food Court', color: '#E57373' },
+  'restaurant': { name: 'Restaurants', nameEl: 'Εστιατόρια', color: '#E57373' },
+  'cafe': { name: 'Cafes', nameEl: 'Καφέ', color: '#E57373' },
+  'food-court': { name: 'Food Court', nameEl: 'Χώρος Εστίασης', color: '#E57373' },
 
   // Accommodation group - Muted purple #9575CD
-  'hotel': { name: 'Hotel', color: '#9575CD' },
-  'resort': { name: 'Resort', color: '#9575CD' },
-  'villa': { name: 'Villa', color: '#9575CD' }
+  'hotel': { name: 'Hotel', nameEl: 'Ξενοδοχείο', color: '#9575CD' },
+  'resort': { name: 'Resort', nameEl: 'Θέρετρο', color: '#9575CD' },
+  'villa': { name: 'Villa', nameEl: 'Βίλα', color: '#9575CD' }
 };
 
 // City information
@@ -233,6 +347,7 @@ export const ANALYTICS = {
 // Define interface for activity group structure
 export interface ActivityGroup {
   name: string;      // Display name for the group
+  nameEl: string;    // Greek display name
   color: string;     // Color for the group button
   types: string[];   // Array of activity type keys that belong to this group
 }
@@ -241,46 +356,55 @@ export interface ActivityGroup {
 export const ACTIVITY_GROUPS: Record<string, ActivityGroup> = {
   'learning': {
     name: 'Learning',
+    nameEl: 'Μάθηση',
     color: '#6BAAD4', // Soft blue
     types: ['music', 'language', 'arts', 'drama', 'history', 'stem', 'animals', 'education']
   },
   'sports': {
     name: 'Sports',
+    nameEl: 'Αθλητισμός',
     color: '#4F6490', // Muted navy
     types: ['sports', 'martial-arts', 'soccer', 'basketball', 'tennis', 'horseback-riding', 'dance', 'gymnastics', 'yoga', 'swim']
   },
   'outdoor-play': {
     name: 'Outdoor Play',
+    nameEl: 'Υπαίθριο Παιχνίδι',
     color: '#8BC34A', // Soft green
     types: ['outdoor-play', 'playground']
   },
   'indoor-play': {
     name: 'Indoor Play',
+    nameEl: 'Εσωτερικό Παιχνίδι',
     color: '#E893B2', // Dusty rose
     types: ['indoor-play', 'play-space']
   },
   'entertainment': {
     name: 'Entertainment',
+    nameEl: 'Ψυχαγωγία',
     color: '#F9D056', // Muted yellow
     types: ['movies', 'theme-park', 'event-space', 'entertainment']
   },
   'camps': {
     name: 'Camps',
+    nameEl: 'Κατασκηνώσεις',
     color: '#80A4ED', // Periwinkle blue
     types: ['camp', 'summer-camp', 'easter-camp']
   },
   'nature': {
     name: 'Nature',
+    nameEl: 'Φύση',
     color: '#7CB342', // Forest green
     types: ['nature', 'beach', 'hike']
   },
   'food': {
     name: 'Food',
+    nameEl: 'Φαγητό',
     color: '#E57373', // Soft coral
     types: ['restaurant', 'cafe']
   },
   'accommodation': {
     name: 'Accommodation',
+    nameEl: 'Διαμονή',
     color: '#9575CD', // Muted purple
     types: ['hotel', 'resort']
   }
@@ -0,0 +1,47 @@
+import { NewsletterPreferences, NewsletterPreferencesUpdate } from '../types/newsletter';
+import { DEFAULT_LANGUAGE, Language, translate } from './i18n';
+
+/**
+ * Newsletter preferences API
+ * Calls /api/newsletter with the signed "manage" token from the subscriber's email link.
+ * The function checks the token, so no sign-in is needed.
+ */
+
+// Keep in sync with NEWSLETTER_AGE_RANGES in functions/newsletter.js
+export const NEWSLETTER_AGE_RANGES = ['0-2 years', '3-5 years', '6-8 years', '9-12 years', '13+ years'];
+
+// The stored values are in English, e.g. "3-5 years" shows as "3-5 ετών" in Greek
+export const formatAgeRange = (range: string, language: Language = DEFAULT_LANGUAGE): string =>
+  translate(language, 'newsletter.ageRange', { range: range.replace(/ years$/, '') });
+
+const callNewsletterFunction = async (action: string, token: string, method: 'GET' | 'POST' | 'PUT', body?: unknown) => {
+  const response = await fetch(`/api/newsletter/${action}?token=${encodeURIComponent(token)}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const details = data.fieldErrors ? `: ${Object.values(data.fieldErrors).join('. ')}` : '';
+    throw new Error(`${data.error || 'Something went wrong, please try again'}${details}`);
+  }
+  return data;
+};
+
+export const getNewsletterPreferences = async (token: string): Promise<NewsletterPreferences> => {
+  const data = await callNewsletterFunction('preferences', token, 'GET');
+  return data.preferences;
+};
+
+export const updateNewsletterPreferences = async (
+  token: string,
+  update: NewsletterPreferencesUpdate
+): Promise<NewsletterPreferences> => {
+  const data = await callNewsletterFunction('preferences', token, 'PUT', update);
+  return data.preferences;
+};
+
+export const unsubscribeFromNewsletter = async (token: string): Promise<void> => {
+  await callNewsletterFunction('unsubscribe', token, 'POST');
+};
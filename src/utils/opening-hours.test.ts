@@ -0,0 +1,153 @@
+import {
+  athensTimeToDate,
+  closesWithin,
+  getAthensDateParts,
+  getNextWindowRange,
+  getOpenStatusText,
+  getUpcomingDayHours,
+  hasKnownHours,
+  isOpenAt,
+  isOpenThroughout,
+  minutesUntilClose,
+  parseOpenWindowParams,
+  parseDayHoursText,
+  parseOpeningHoursText,
+  scheduleToOpeningHoursText
+} from './opening-hours';
+import { OpeningSchedule } from '../types/location';
+
+// Athens is UTC+3 in summer (EEST) and UTC+2 in winter (EET)
+const summer = (isoLocal: string) => new Date(`${isoLocal}+03:00`);
+const winter = (isoLocal: string) => new Date(`${isoLocal}+02:00`);
+
+describe('parseDayHoursText', () => {
+  test('parses Google Places style hours with a shared period', () => {
+    expect(parseDayHoursText('9:00 AM – 1:00 PM, 5:00 – 9:00 PM')).toEqual([
+      { open: '09:00', close: '13:00' },
+      { open: '17:00', close: '21:00' }
+    ]);
+  });
+
+  test('handles narrow no-break spaces, 24h text and closed days', () => {
+    expect(parseDayHoursText('10:00\u202FAM\u2009–\u20096:00\u202FPM')).toEqual([{ open: '10:00', close: '18:00' }]);
+    expect(parseDayHoursText('18:00 - 02:00')).toEqual([{ open: '18:00', close: '02:00' }]);
+    expect(parseDayHoursText('Open 24 hours')).toEqual([{ open: '00:00', close: '24:00' }]);
+    expect(parseDayHoursText('Closed')).toEqual([]);
+    expect(parseDayHoursText('Hours not available')).toBeUndefined();
+    expect(parseDayHoursText('Call ahead')).toBeUndefined();
+  });
+
+  test('round-trips through the legacy text format', () => {
+    const schedule = parseOpeningHoursText({ Monday: '9:00 AM – 5:00 PM', Sunday: 'Closed' });
+    expect(scheduleToOpeningHoursText(schedule)).toEqual({ Monday: '09:00–17:00', Sunday: 'Closed' });
+  });
+});
+
+describe('isOpenAt', () => {
+  const schedule: OpeningSchedule = {
+    weekly: {
+      Friday: [{ open: '18:00', close: '02:00' }],
+      Saturday: [{ open: '10:00', close: '14:00' }, { open: '17:00', close: '21:00' }]
+    },
+    seasons: [
+      { name: 'Winter', startDate: '11-01', endDate: '03-31', hours: { Saturday: [{ open: '10:00', close: '16:00' }] } }
+    ],
+    exceptions: [{ date: '2025-08-15', label: 'Assumption Day', intervals: [] }]
+  };
+
+  test('uses Athens time regardless of the instant offset', () => {
+    expect(getAthensDateParts(new Date('2025-06-07T07:30:00Z'))).toEqual({
+      date: '2025-06-07',
+      day: 'Saturday',
+      minutes: 10 * 60 + 30
+    });
+  });
+
+  test('supports multiple intervals and overnight spans', () => {
+    expect(isOpenAt(schedule, summer('2025-06-07T10:30:00'))).toBe(true);
+    expect(isOpenAt(schedule, summer('2025-06-07T15:00:00'))).toBe(false);
+    // Friday 18:00-02:00 still open early on Saturday
+    expect(isOpenAt(schedule, summer('2025-06-07T01:30:00'))).toBe(true);
+    expect(isOpenAt(schedule, summer('2025-06-07T02:00:00'))).toBe(false);
+  });
+
+  test('applies seasonal hours and holiday exceptions', () => {
+    expect(isOpenAt(schedule, winter('2025-01-11T15:00:00'))).toBe(true);
+    expect(isOpenAt(schedule, summer('2025-08-15T20:00:00'))).toBe(false);
+  });
+
+  test('counts a schedule with only one-off dates as known, with a translated label', () => {
+    const eventOnly: OpeningSchedule = {
+      weekly: {},
+      exceptions: [{ date: '2025-06-07', intervals: [{ open: '10:00', close: '14:00' }] }]
+    };
+    expect(hasKnownHours(eventOnly)).toBe(true);
+    expect(hasKnownHours({ weekly: {} })).toBe(false);
+
+    const [day] = getUpcomingDayHours(eventOnly, summer('2025-06-07T09:00:00'), 1, 'el');
+    expect(day).toMatchObject({ intervals: [{ open: '10:00', close: '14:00' }], label: 'Ειδικό ωράριο' });
+  });
+});
+
+describe('minutesUntilClose', () => {
+  test('counts down to the end of the current interval', () => {
+    const schedule = parseOpeningHoursText({ Saturday: '10:00 AM – 2:00 PM' });
+    const at = summer('2025-06-07T13:15:00');
+    expect(minutesUntilClose(schedule, at)).toBe(45);
+    expect(closesWithin(schedule, 60, at)).toBe(true);
+    expect(getOpenStatusText(schedule, at)).toBe('Open now · closes in 45 min');
+    expect(minutesUntilClose(schedule, summer('2025-06-07T15:00:00'))).toBeNull();
+  });
+
+  test('chains adjacent days that are open around the clock', () => {
+    const allWeek = parseOpeningHoursText({
+      Monday: 'Open 24 hours',
+      Tuesday: 'Open 24 hours',
+      Wednesday: 'Open 24 hours',
+      Thursday: 'Open 24 hours',
+      Friday: 'Open 24 hours',
+      Saturday: 'Open 24 hours',
+      Sunday: 'Open 24 hours'
+    });
+    expect(minutesUntilClose(allWeek, summer('2025-06-07T12:00:00'))).toBe(Infinity);
+
+    const weekdays = parseOpeningHoursText({ Monday: 'Open 24 hours', Tuesday: '12:00 AM – 6:00 AM' });
+    expect(minutesUntilClose(weekdays, summer('2025-06-09T23:00:00'))).toBe(7 * 60);
+  });
+});
+
+describe('open at a chosen window', () => {
+  const schedule = parseOpeningHoursText({
+    Friday: '6:00 PM – 2:00 AM',
+    Saturday: '10:00 AM – 2:00 PM, 5:00 – 9:00 PM'
+  });
+
+  test('parses URL params and rejects incomplete ones', () => {
+    expect(parseOpenWindowParams('sat', '10:00', '13:00')).toEqual({ day: 'Saturday', from: '10:00', to: '13:00' });
+    expect(parseOpenWindowParams('SUNDAY', '9:30', '24:00')).toEqual({ day: 'Sunday', from: '09:30', to: '24:00' });
+    expect(parseOpenWindowParams('sa', '10:00', '13:00')).toBeNull();
+    expect(parseOpenWindowParams('sat', '10:00', null)).toBeNull();
+    expect(parseOpenWindowParams('sat', '25:00', '13:00')).toBeNull();
+  });
+
+  test('converts Athens wall-clock time across DST offsets', () => {
+    expect(athensTimeToDate('2025-06-07', 10 * 60).toISOString()).toBe('2025-06-07T07:00:00.000Z');
+    expect(athensTimeToDate('2025-01-11', 10 * 60).toISOString()).toBe('2025-01-11T08:00:00.000Z');
+  });
+
+  test('resolves the next occurrence of the chosen weekday', () => {
+    // Thursday 5 June 2025 -> Saturday 7 June
+    const range = getNextWindowRange({ day: 'Saturday', from: '10:00', to: '13:00' }, summer('2025-06-05T12:00:00'));
+    expect(range).toEqual({ start: summer('2025-06-07T10:00:00'), end: summer('2025-06-07T13:00:00') });
+
+    const overnight = getNextWindowRange({ day: 'Friday', from: '22:00', to: '01:00' }, summer('2025-06-05T12:00:00'));
+    expect(overnight).toEqual({ start: summer('2025-06-06T22:00:00'), end: summer('2025-06-07T01:00:00') });
+  });
+
+  test('requires the venue to be open for the whole window', () => {
+    expect(isOpenThroughout(schedule, { start: summer('2025-06-07T10:00:00'), end: summer('2025-06-07T13:00:00') })).toBe(true);
+    expect(isOpenThroughout(schedule, { start: summer('2025-06-07T12:00:00'), end: summer('2025-06-07T15:00:00') })).toBe(false);
+    expect(isOpenThroughout(schedule, { start: summer('2025-06-06T22:00:00'), end: summer('2025-06-07T01:00:00') })).toBe(true);
+    expect(isOpenThroughout(schedule, { start: summer('2025-06-07T09:00:00'), end: summer('2025-06-07T11:00:00') })).toBe(false);
+  });
+});
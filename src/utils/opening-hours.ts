@@ -0,0 +1,556 @@
+import {
+  DayOfWeek,
+  Location,
+  OpeningSchedule,
+  TimeInterval,
+  WeeklyHours
+} from '../types/location';
+import { DEFAULT_LANGUAGE, Language, TranslationKey, translate } from './i18n';
+
+/**
+ * Opening hours engine
+ * Answers "open now", "open at <datetime>" and "closes in N minutes" for a location's
+ * weekly schedule. All calculations use Europe/Athens wall-clock time, regardless of
+ * the visitor's own time zone.
+ */
+
+export const HOURS_TIME_ZONE = 'Europe/Athens';
+
+export const DAYS_OF_WEEK: DayOfWeek[] = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday'
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Wall-clock representation of an instant in Athens
+export interface AthensDateParts {
+  date: string; // YYYY-MM-DD
+  day: DayOfWeek;
+  minutes: number; // Minutes since local midnight
+}
+
+const athensFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: HOURS_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'long',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * Converts an instant into Athens local date, weekday and minutes since midnight
+ * @param date The instant to convert
+ * @returns The wall-clock parts in Europe/Athens
+ */
+export const getAthensDateParts = (date: Date): AthensDateParts => {
+  const parts: Record<string, string> = {};
+  athensFormatter.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  // Some engines report midnight as "24" even with hourCycle h23
+  const hour = parseInt(parts.hour, 10) % 24;
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: parts.weekday as DayOfWeek,
+    minutes: hour * 60 + parseInt(parts.minute, 10)
+  };
+};
+
+/**
+ * Shifts a YYYY-MM-DD date key by a number of days
+ */
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().slice(0, 10);
+};
+
+const shiftDay = (day: DayOfWeek, days: number): DayOfWeek => {
+  const index = DAYS_OF_WEEK.indexOf(day);
+  return DAYS_OF_WEEK[(((index + days) % 7) + 7) % 7];
+};
+
+/**
+ * Parses a "HH:MM" 24h string into minutes since midnight
+ * @returns Minutes, or null if the string is not a valid time ("24:00" is allowed)
+ */
+export const timeToMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes !== 0)) return null;
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Formats minutes since midnight as a "HH:MM" 24h string
+ */
+export const minutesToTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Parses a single free-text time such as "9:00 AM", "9 PM", "12:30 PM" or "21:00"
+ * @param text The time text
+ * @param fallbackPeriod AM/PM to use when the text has none (Google omits it on the
+ * opening time when both ends share a period, e.g. "5:00 – 9:00 PM")
+ * @returns Minutes since midnight, or null if the text can't be parsed
+ */
+export const parseTimeText = (text: string, fallbackPeriod?: 'AM' | 'PM'): number | null => {
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*([AaPp]\.?[Mm]\.?)?$/.exec(text.trim());
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const periodText = match[3] ? match[3].replace(/\./g, '').toUpperCase() : undefined;
+  const period = (periodText as 'AM' | 'PM' | undefined) || fallbackPeriod;
+
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+  } else if (hours > 24 || (hours === 24 && minutes !== 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Parses the free-text hours for one day, e.g. "9:00 AM – 1:00 PM, 5:00 – 9:00 PM"
+ * @param text Hours text as stored in Location.openingHours
+ * @returns The intervals (empty when closed), or undefined when the hours are unknown
+ */
+export const parseDayHoursText = (text: string | undefined): TimeInterval[] | undefined => {
+  if (!text) return undefined;
+
+  // Normalise the narrow/no-break spaces and dash variants Google Places returns
+  const normalised = text.replace(/[\u00A0\u2009\u202F]/g, ' ').trim();
+  const lower = normalised.toLowerCase();
+
+  if (lower === 'closed') return [];
+  if (lower === 'open 24 hours') return [{ open: '00:00', close: '24:00' }];
+  if (lower === 'hours not available') return undefined;
+
+  const intervals: TimeInterval[] = [];
+
+  for (const segment of normalised.split(',')) {
+    const timeParts = segment.split(/\s*[–—-]\s*/).map(t => t.trim());
+    if (timeParts.length !== 2) return undefined;
+
+    const [startText, endText] = timeParts;
+    const endPeriodMatch = /([AaPp])\.?[Mm]\.?$/.exec(endText);
+    const endPeriod = endPeriodMatch ? (endPeriodMatch[1].toUpperCase() === 'A' ? 'AM' : 'PM') : undefined;
+
+    const end = parseTimeText(endText);
+    const start = parseTimeText(startText, endPeriod);
+    if (start === null || end === null) return undefined;
+
+    intervals.push({
+      open: minutesToTime(start),
+      // "12:00 AM" as a closing time means midnight at the end of the day
+      close: end === 0 ? '24:00' : minutesToTime(end)
+    });
+  }
+
+  return intervals;
+};
+
+/**
+ * Builds a structured schedule from the legacy free-text opening hours map
+ * @param openingHours Record of day name to hours text
+ */
+export const parseOpeningHoursText = (openingHours: Record<string, string> | undefined): OpeningSchedule => {
+  const weekly: WeeklyHours = {};
+
+  if (openingHours) {
+    DAYS_OF_WEEK.forEach(day => {
+      const intervals = parseDayHoursText(openingHours[day]);
+      if (intervals) {
+        weekly[day] = intervals;
+      }
+    });
+  }
+
+  return { weekly };
+};
+
+/**
+ * Formats one day's intervals for display
+ * @returns "Closed", "Open 24 hours" or e.g. "09:00–13:00, 17:00–21:00"
+ */
+export const formatDayHours = (intervals: TimeInterval[] | undefined, language: Language = DEFAULT_LANGUAGE): string => {
+  if (!intervals) return translate(language, 'hours.notAvailable');
+  if (intervals.length === 0) return translate(language, 'hours.closed');
+  if (intervals.length === 1 && intervals[0].open === '00:00' && intervals[0].close === '24:00') {
+    return translate(language, 'hours.open24');
+  }
+
+  return intervals.map(interval => `${interval.open}–${interval.close}`).join(', ');
+};
+
+/**
+ * Converts a structured schedule back into the legacy text map stored in openingHours,
+ * so older clients and server functions keep working
+ */
+export const scheduleToOpeningHoursText = (schedule: OpeningSchedule): Record<string, string> => {
+  const openingHours: Record<string, string> = {};
+
+  DAYS_OF_WEEK.forEach(day => {
+    const intervals = schedule.weekly[day];
+    if (intervals) {
+      openingHours[day] = formatDayHours(intervals);
+    }
+  });
+
+  return openingHours;
+};
+
+// Cache derived schedules so filtering large lists doesn't re-parse text every render
+const derivedScheduleCache = new WeakMap<Location, OpeningSchedule>();
+
+/**
+ * Gets the structured schedule for a location, deriving it from the legacy
+ * openingHours text when no structured schedule has been saved yet
+ */
+export const getLocationSchedule = (location: Pick<Location, 'openingHours' | 'schedule'>): OpeningSchedule => {
+  if (location.schedule) return location.schedule;
+
+  const cached = derivedScheduleCache.get(location as Location);
+  if (cached) return cached;
+
+  const schedule = parseOpeningHoursText(location.openingHours);
+  derivedScheduleCache.set(location as Location, schedule);
+  return schedule;
+};
+
+/**
+ * Checks whether a "MM-DD" date key falls within a seasonal range (inclusive)
+ */
+const isInSeason = (monthDay: string, startDate: string, endDate: string): boolean => {
+  if (startDate <= endDate) {
+    return monthDay >= startDate && monthDay <= endDate;
+  }
+  // Range wraps around the new year, e.g. 11-01 to 03-31
+  return monthDay >= startDate || monthDay <= endDate;
+};
+
+/**
+ * Resolves the intervals that apply on a specific date, applying holiday
+ * exceptions first, then seasonal hours, then the regular week
+ * @param schedule The location schedule
+ * @param date Date key in YYYY-MM-DD format
+ * @param day The weekday of that date
+ * @returns The intervals for the day, or undefined if unknown
+ */
+export const getIntervalsForDate = (
+  schedule: OpeningSchedule,
+  date: string,
+  day: DayOfWeek
+): TimeInterval[] | undefined => {
+  const exception = schedule.exceptions?.find(e => e.date === date);
+  if (exception) return exception.intervals;
+
+  const monthDay = date.slice(5);
+  const season = schedule.seasons?.find(s => isInSeason(monthDay, s.startDate, s.endDate));
+  if (season && season.hours[day]) return season.hours[day];
+
+  return schedule.weekly[day];
+};
+
+// Resolved hours for one calendar day
+export interface DayHours {
+  date: string; // YYYY-MM-DD
+  day: DayOfWeek;
+  intervals: TimeInterval[] | undefined;
+  label?: string; // Holiday or season name when the regular week doesn't apply
+}
+
+/**
+ * Resolves the hours for a run of consecutive days starting at a given instant,
+ * with seasonal hours and exceptions applied
+ * @param schedule The location schedule
+ * @param from The first day to include (defaults to today in Athens)
+ * @param count Number of days to return
+ * @param language Language of the label for exceptions that have none
+ */
+export const getUpcomingDayHours = (
+  schedule: OpeningSchedule,
+  from: Date = new Date(),
+  count = 7,
+  language: Language = DEFAULT_LANGUAGE
+): DayHours[] => {
+  const start = getAthensDateParts(from);
+  const days: DayHours[] = [];
+
+  for (let offset = 0; offset < count; offset++) {
+    const date = shiftDateKey(start.date, offset);
+    const day = shiftDay(start.day, offset);
+    const exception = schedule.exceptions?.find(e => e.date === date);
+    const season = schedule.seasons?.find(s => isInSeason(date.slice(5), s.startDate, s.endDate) && s.hours[day]);
+
+    days.push({
+      date,
+      day,
+      intervals: getIntervalsForDate(schedule, date, day),
+      label: exception ? (exception.label || translate(language, 'hours.specialHours')) : season?.name
+    });
+  }
+
+  return days;
+};
+
+// Interval expressed in minutes relative to the start of its own day
+interface MinuteSpan {
+  start: number;
+  end: number; // May exceed MINUTES_PER_DAY for overnight intervals
+}
+
+const toMinuteSpans = (intervals: TimeInterval[] | undefined): MinuteSpan[] => {
+  if (!intervals) return [];
+
+  const spans: MinuteSpan[] = [];
+  intervals.forEach(interval => {
+    const start = timeToMinutes(interval.open);
+    const close = timeToMinutes(interval.close);
+    if (start === null || close === null) return;
+
+    // Close at or before open means the interval runs past midnight
+    const end = close <= start ? close + MINUTES_PER_DAY : close;
+    spans.push({ start, end });
+  });
+
+  return spans;
+};
+
+/**
+ * Lists the open spans that overlap a given day, in minutes relative to that
+ * day's midnight. Includes overnight spill-over from the previous day.
+ */
+const getSpansAroundDate = (schedule: OpeningSchedule, date: string, day: DayOfWeek): MinuteSpan[] => {
+  const previousSpans = toMinuteSpans(
+    getIntervalsForDate(schedule, shiftDateKey(date, -1), shiftDay(day, -1))
+  )
+    .filter(span => span.end > MINUTES_PER_DAY)
+    .map(span => ({ start: span.start - MINUTES_PER_DAY, end: span.end - MINUTES_PER_DAY }));
+
+  return previousSpans.concat(toMinuteSpans(getIntervalsForDate(schedule, date, day)));
+};
+
+/**
+ * Checks whether a schedule has any known hours at all, including one-off dates
+ */
+export const hasKnownHours = (schedule: OpeningSchedule): boolean => {
+  return DAYS_OF_WEEK.some(day => schedule.weekly[day] !== undefined) ||
+    (schedule.seasons?.length || 0) > 0 ||
+    (schedule.exceptions?.length || 0) > 0;
+};
+
+/**
+ * Checks whether a location is open at a given instant (Athens time)
+ * @param schedule The location schedule
+ * @param at The instant to check
+ * @returns true only if the schedule is known and open at that time
+ */
+export const isOpenAt = (schedule: OpeningSchedule, at: Date): boolean => {
+  const { date, day, minutes } = getAthensDateParts(at);
+  return getSpansAroundDate(schedule, date, day).some(span => minutes >= span.start && minutes < span.end);
+};
+
+/**
+ * Checks whether a location is open right now (Athens time)
+ */
+export const isOpenNow = (schedule: OpeningSchedule): boolean => isOpenAt(schedule, new Date());
+
+/**
+ * Calculates how many minutes remain until the location closes
+ * Adjacent intervals (e.g. 24-hour days in a row) are treated as one opening.
+ * @param schedule The location schedule
+ * @param at The instant to measure from (defaults to now)
+ * @returns Minutes until closing, null if currently closed, or Infinity if it
+ * stays open for the whole of the next week
+ */
+export const minutesUntilClose = (schedule: OpeningSchedule, at: Date = new Date()): number | null => {
+  const { date, day, minutes } = getAthensDateParts(at);
+
+  let current = getSpansAroundDate(schedule, date, day).find(
+    span => minutes >= span.start && minutes < span.end
+  );
+  if (!current) return null;
+
+  let closingAt = current.end;
+
+  // Follow on into the next days while openings chain without a gap
+  for (let offset = 1; offset <= 7; offset++) {
+    const dayStart = offset * MINUTES_PER_DAY;
+    if (closingAt < dayStart) break;
+
+    const nextSpans = toMinuteSpans(
+      getIntervalsForDate(schedule, shiftDateKey(date, offset), shiftDay(day, offset))
+    );
+    const previousClose = closingAt - dayStart;
+
+    current = nextSpans.find(span => span.start <= previousClose && span.end > previousClose);
+    if (!current) break;
+    closingAt = current.end + dayStart;
+
+    if (offset === 7) return Infinity;
+  }
+
+  return closingAt - minutes;
+};
+
+/**
+ * Checks whether the location closes within the given number of minutes
+ * @returns true when open now and closing within the window
+ */
+export const closesWithin = (schedule: OpeningSchedule, withinMinutes: number, at: Date = new Date()): boolean => {
+  const remaining = minutesUntilClose(schedule, at);
+  return remaining !== null && remaining <= withinMinutes;
+};
+
+/**
+ * Convenience check used by map filters
+ */
+export const isLocationOpenAt = (location: Pick<Location, 'openingHours' | 'schedule'>, at: Date): boolean => {
+  return isOpenAt(getLocationSchedule(location), at);
+};
+
+// A weekday and time window chosen in the map's "Open at" filter, e.g. Saturday 10:00-13:00
+export interface OpenWindow {
+  day: DayOfWeek;
+  from: string; // HH:MM
+  to: string; // HH:MM - at or before `from` means the window runs past midnight
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Converts an Athens wall-clock date and time into an instant
+ * @param dateKey The Athens date (YYYY-MM-DD)
+ * @param minutes Minutes since local midnight (may run into the next day)
+ * @returns The matching instant
+ */
+export const athensTimeToDate = (dateKey: string, minutes: number): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60000;
+
+  // Read the wall-clock time as UTC, then correct by the observed Athens offset.
+  // A second pass settles the offset when the first guess lands across a DST change.
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass++) {
+    const parts = getAthensDateParts(new Date(instant));
+    const [y, m, d] = parts.date.split('-').map(Number);
+    instant += wallClock - (Date.UTC(y, m - 1, d) + parts.minutes * 60000);
+  }
+
+  return new Date(instant);
+};
+
+/**
+ * Parses the "Open at" filter from URL parameters, e.g. ?day=sat&from=10:00&to=13:00
+ * @param day Day name or abbreviation (at least three letters, any case)
+ * @param from Window start (HH:MM)
+ * @param to Window end (HH:MM)
+ * @returns The window, or null if any part is missing or invalid
+ */
+export const parseOpenWindowParams = (day: string | null, from: string | null, to: string | null): OpenWindow | null => {
+  if (!day || !from || !to || day.length < 3) return null;
+
+  const matchedDay = DAYS_OF_WEEK.find(d => d.toLowerCase().startsWith(day.toLowerCase()));
+  const fromMinutes = timeToMinutes(from);
+  const toMinutes = timeToMinutes(to);
+  if (!matchedDay || fromMinutes === null || toMinutes === null || fromMinutes >= MINUTES_PER_DAY) return null;
+
+  return { day: matchedDay, from: minutesToTime(fromMinutes), to: minutesToTime(toMinutes) };
+};
+
+/**
+ * Formats a window for filter labels, e.g. "Sat 10:00–13:00"
+ */
+export const formatOpenWindow = (openWindow: OpenWindow, language: Language = DEFAULT_LANGUAGE): string => {
+  const day = translate(language, `daysShort.${openWindow.day}` as TranslationKey);
+  return `${day} ${openWindow.from}–${openWindow.to}`;
+};
+
+/**
+ * Resolves a window to its next occurrence in Athens, counting today if the day matches
+ * @param openWindow The chosen weekday and times
+ * @param from The instant to search from (defaults to now)
+ * @returns The start and end instants, or null if the times are invalid
+ */
+export const getNextWindowRange = (openWindow: OpenWindow, from: Date = new Date()): TimeRange | null => {
+  const startMinutes = timeToMinutes(openWindow.from);
+  const endMinutes = timeToMinutes(openWindow.to);
+  if (startMinutes === null || endMinutes === null || startMinutes >= MINUTES_PER_DAY) return null;
+
+  const today = getAthensDateParts(from);
+  const offset = (DAYS_OF_WEEK.indexOf(openWindow.day) - DAYS_OF_WEEK.indexOf(today.day) + 7) % 7;
+  const dateKey = shiftDateKey(today.date, offset);
+  const endOnNextDay = endMinutes <= startMinutes ? MINUTES_PER_DAY : 0;
+
+  return {
+    start: athensTimeToDate(dateKey, startMinutes),
+    end: athensTimeToDate(dateKey, endMinutes + endOnNextDay)
+  };
+};
+
+/**
+ * Checks whether a location stays open for the whole of a time range
+ * @param schedule The location schedule
+ * @param range The range to check
+ * @returns true only if open at the start and not closing before the end
+ */
+export const isOpenThroughout = (schedule: OpeningSchedule, range: TimeRange): boolean => {
+  const remaining = minutesUntilClose(schedule, range.start);
+  if (remaining === null) return false;
+  return range.start.getTime() + remaining * 60000 >= range.end.getTime();
+};
+
+/**
+ * Convenience check used by the map's "Open at" filter
+ */
+export const isLocationOpenThroughout = (location: Pick<Location, 'openingHours' | 'schedule'>, range: TimeRange): boolean => {
+  return isOpenThroughout(getLocationSchedule(location), range);
+};
+
+/**
+ * Builds a short status line for display, e.g. "Open now · closes in 45 min"
+ * @returns The status text, or null when the hours are unknown
+ */
+export const getOpenStatusText = (
+  schedule: OpeningSchedule,
+  at: Date = new Date(),
+  language: Language = DEFAULT_LANGUAGE
+): string | null => {
+  if (!hasKnownHours(schedule)) return null;
+
+  const remaining = minutesUntilClose(schedule, at);
+  if (remaining === null) return translate(language, 'hours.closedNow');
+  if (remaining === Infinity) return translate(language, 'hours.open24');
+  if (remaining <= 60) return translate(language, 'hours.closesIn', { minutes: remaining });
+
+  const closing = getAthensDateParts(new Date(at.getTime() + remaining * 60000));
+  return translate(language, 'hours.openUntil', { time: minutesToTime(closing.minutes) });
+};
@@ -0,0 +1,46 @@
+import { Location } from '../types/location';
+import { findLocationBySlug, getPlaceImage, getPlaceSlug, slugify } from './place-pages';
+
+describe('slugify', () => {
+  test('lowercases and hyphenates', () => {
+    expect(slugify('Allou! Fun Park')).toBe('allou-fun-park');
+    expect(slugify('  Café -- Kids & Co.  ')).toBe('cafe-kids-co');
+  });
+
+  test('transliterates Greek, accents included', () => {
+    expect(slugify('Πάρκο Τρίτση')).toBe('parko-tritsi');
+    expect(slugify('Μουσείο Φυσικής Ιστορίας')).toBe('mouseio-fysikis-istorias');
+  });
+});
+
+describe('getPlaceSlug', () => {
+  test('uses the stored slug, or the place ID until there is one', () => {
+    expect(getPlaceSlug({ id: 'ChIJ_ccc333', slug: 'allou-fun-park' })).toBe('allou-fun-park');
+    expect(getPlaceSlug({ id: 'ChIJ_ddd444' })).toBe('ChIJ_ddd444');
+  });
+});
+
+describe('findLocationBySlug', () => {
+  const locations = [
+    { id: 'ChIJ_aaa111', slug: 'lollipop' },
+    { id: 'ChIJ_ccc333', slug: 'allou-fun-park' },
+    { id: 'ChIJ_ddd444' }
+  ];
+
+  test('finds locations by slug, in any case, or by place ID', () => {
+    expect(findLocationBySlug(locations, 'allou-fun-park')?.id).toBe('ChIJ_ccc333');
+    expect(findLocationBySlug(locations, 'Allou-Fun-Park')?.id).toBe('ChIJ_ccc333');
+    expect(findLocationBySlug(locations, 'ChIJ_aaa111')?.slug).toBe('lollipop');
+    expect(findLocationBySlug(locations, 'ChIJ_ddd444')?.id).toBe('ChIJ_ddd444');
+    expect(findLocationBySlug(locations, 'nowhere')).toBeUndefined();
+  });
+});
+
+describe('getPlaceImage', () => {
+  test('uses stored photos only', () => {
+    const placeData: Location['placeData'] = { photoUrls: ['google.jpg'], storedPhotoUrls: ['stored.jpg'] };
+
+    expect(getPlaceImage({ placeData })).toBe('stored.jpg');
+    expect(getPlaceImage({ placeData: { photoUrls: ['google.jpg'] } })).toBeUndefined();
+  });
+});
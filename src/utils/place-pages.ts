@@ -0,0 +1,71 @@
+import { Location } from '../types/location';
+
+/**
+ * Place pages
+ * Every location has its own page at /places/:slug, with links like "/places/allou-fun-park".
+ * functions/place-slugs.js picks the slug when the location is added and stores it on the
+ * location, so the app only reads it.
+ */
+
+type SlugSource = Pick<Location, 'id' | 'slug'>;
+
+// Greek letters to Latin, letter by letter apart from "ου" - close enough to how Greek names are usually spelled
+const GREEK_TO_LATIN: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+  'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+  'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o'
+};
+
+/**
+ * Writes Greek letters in Latin ones, e.g. "γλυφαδα" as "glyfada"
+ * Search uses it too, so a place can be found however its name is typed.
+ * @param text Lowercase text without accents
+ * @returns The text with its Greek letters transliterated
+ */
+export const transliterateGreek = (text: string): string => text
+  .replace(/\u03bf\u03c5/g, 'ou')
+  .replace(/[\u03b1-\u03c9]/g, letter => GREEK_TO_LATIN[letter] || '');
+
+/**
+ * Turns any text into a URL slug, for the activity and area pages
+ * @param text Text in English or Greek
+ * @returns Lowercase Latin letters and digits separated by single hyphens
+ */
+export const slugify = (text: string): string => transliterateGreek(text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase())
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+/**
+ * The slug a location's page is at
+ * Locations stored before slugs were use their place ID until they are given one.
+ * @param location The location
+ * @returns The stored slug, or the place ID
+ */
+export const getPlaceSlug = (location: SlugSource): string => location.slug || location.id;
+
+/**
+ * Finds the location a /places/:slug URL is for
+ * A place ID works as well, for links made before the location had a slug.
+ * @param locations All locations
+ * @param slug Slug from the URL
+ * @returns The location, or undefined when no location has this slug
+ */
+export const findLocationBySlug = <T extends SlugSource>(locations: T[], slug: string): T | undefined => {
+  const normalizedSlug = slug.toLowerCase();
+  return locations.find(location => location.slug === normalizedSlug) ||
+    locations.find(location => location.id === slug);
+};
+
+export const getPlacePath = (slug: string): string => `/places/${slug}`;
+
+/**
+ * The photo to share a place page with
+ * Only stored photos are used - Google photo URLs expire, so link previews would break.
+ * @param location The location
+ * @returns The first stored photo, or undefined when none are stored
+ */
+export const getPlaceImage = (location: Pick<Location, 'placeData' | 'images'>): string | undefined =>
+  location.placeData?.storedPhotoUrls?.[0] || location.images?.[0];
@@ -0,0 +1,20 @@
+import { extractPlaceIdFromUrl } from './places-api';
+
+describe('extractPlaceIdFromUrl', () => {
+  const placeId = 'ChIJN1t_tDeuEmsRUsoyG83frY4';
+
+  test('reads the Place ID from query parameters', () => {
+    expect(extractPlaceIdFromUrl(`https://www.google.com/maps/place/?q=place_id:${placeId}`)).toBe(placeId);
+    expect(extractPlaceIdFromUrl(`https://maps.google.com/?place_id=${placeId}`)).toBe(placeId);
+    expect(extractPlaceIdFromUrl(
+      `https://www.google.com/maps/search/?api=1&query=Allou&query_place_id=${placeId}`
+    )).toBe(placeId);
+  });
+
+  test('ignores place names in share links and bad input', () => {
+    expect(extractPlaceIdFromUrl('https://www.google.com/maps/place/Allou+Fun+Park/@37.98,23.67,17z')).toBeNull();
+    expect(extractPlaceIdFromUrl(`https://www.google.com/maps/place/${placeId}`)).toBe(placeId);
+    expect(extractPlaceIdFromUrl('https://maps.app.goo.gl/abc123')).toBeNull();
+    expect(extractPlaceIdFromUrl('not a url')).toBeNull();
+  });
+});
@@ -154,8 +154,14 @@ export function shouldRefreshPhotos(placeId: string, placeData?: any): boolean {
   }
 }
 
+// Place IDs are long URL-safe base64 strings, e.g. "ChIJN1t_tDeuEmsRUsoyG83frY4"
+export const PLACE_ID_PATTERN = /^[A-Za-z0-9_-]{20,}$/;
+
 /**
  * Helper function to extract Place ID from a Google Maps URL
+ * Understands ?place_id=, ?query_place_id= (Maps URLs API) and ?q=place_id: links.
+ * Share links like /maps/place/Allou+Fun+Park/@37.9,23.7 only carry the name,
+ * so they return null - use findPlaceIdByQuery with the name instead.
  * @param url - Google Maps URL
  * @returns Place ID or null if not found
  */
@@ -166,13 +172,19 @@ export function extractPlaceIdFromUrl(url: string): string | null {
     
     // Extract from query parameter
     const searchParams = urlObj.searchParams;
-    if (searchParams.has('place_id')) {
-      return searchParams.get('place_id');
+    const fromParam = searchParams.get('place_id') || searchParams.get('query_place_id');
+    if (fromParam) {
+      return fromParam;
+    }
+    
+    const query = searchParams.get('q') || '';
+    if (query.startsWith('place_id:')) {
+      return query.substring('place_id:'.length) || null;
     }
     
-    // Extract from path format
+    // Extract from path format - only when the segment is an ID rather than a place name
     const pathMatch = urlObj.pathname.match(/\/place\/([^/]+)/);
-    if (pathMatch && pathMatch[1]) {
+    if (pathMatch && PLACE_ID_PATTERN.test(pathMatch[1])) {
       return pathMatch[1];
     }
     
@@ -183,6 +195,36 @@ export function extractPlaceIdFromUrl(url: string): string | null {
   }
 }
 
+/**
+ * Looks up the Place ID for a name or address (used when a Maps link has no Place ID)
+ * @param query - e.g. the place name from an activity suggestion
+ * @param maps - Google Maps API instance
+ * @returns The best match's Place ID, or null when nothing matches
+ */
+export async function findPlaceIdByQuery(
+  query: string,
+  maps: typeof google.maps
+): Promise<string | null> {
+  if (!query.trim() || !maps || !maps.places) {
+    return null;
+  }
+  
+  return new Promise((resolve) => {
+    const service = new maps.places.PlacesService(document.createElement('div'));
+    
+    service.findPlaceFromQuery(
+      { query: `${query}, Athens, Greece`, fields: ['place_id'] },
+      (results, status) => {
+        if (status === maps.places.PlacesServiceStatus.OK && results && results[0]?.place_id) {
+          resolve(results[0].place_id);
+        } else {
+          resolve(null);
+        }
+      }
+    );
+  });
+}
+
 /**
  * Fetches place details directly from Google Places API
  * This is used when a location doesn't exist in our database yet (for admin functions)
@@ -232,6 +274,7 @@ const placesApi = {
   fetchPlaceDetails,
   fetchPlaceDetailsFromGoogleApi,
   extractPlaceIdFromUrl,
+  findPlaceIdByQuery,
   shouldRefreshPhotos
 };
 
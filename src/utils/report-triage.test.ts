@@ -0,0 +1,57 @@
+import { canTransition, getReportQueue, isOpenReport } from './report-triage';
+import { Report } from '../types/report';
+
+const makeReport = (id: string, overrides: Partial<Report>): Report => ({
+  id,
+  locationId: 'place',
+  locationName: 'Place',
+  issueType: 'incorrect-info',
+  description: '',
+  email: '',
+  timestamp: '2026-10-01T10:00:00.000Z',
+  status: 'new',
+  ...overrides
+});
+
+describe('canTransition', () => {
+  test('lets open reports move forward and closed ones only reopen', () => {
+    expect(canTransition('new', 'in-progress')).toBe(true);
+    expect(canTransition('in-progress', 'resolved')).toBe(true);
+    expect(canTransition('resolved', 'in-progress')).toBe(true);
+    expect(canTransition('resolved', 'rejected')).toBe(false);
+    expect(canTransition('rejected', 'new')).toBe(false);
+    expect(canTransition('new', 'new')).toBe(false);
+  });
+});
+
+describe('getReportQueue', () => {
+  const reports = [
+    makeReport('closed-old', { status: 'resolved', timestamp: '2026-09-01T10:00:00.000Z' }),
+    makeReport('closed-new', { status: 'resolved', timestamp: '2026-10-05T10:00:00.000Z' }),
+    makeReport('working', { status: 'in-progress', issueType: 'pro-tips' }),
+    makeReport('new-late', { timestamp: '2026-10-03T10:00:00.000Z' }),
+    makeReport('new-early', { timestamp: '2026-10-02T10:00:00.000Z', issueType: 'closed-location' }),
+    makeReport('rejected', { status: 'rejected' })
+  ];
+  const ids = (queue: Report[]) => queue.map(report => report.id);
+
+  test('puts new reports first, oldest first, and closed reports last, newest first', () => {
+    expect(ids(getReportQueue(reports, { status: 'all', issueType: 'all' }))).toEqual([
+      'new-early', 'new-late', 'working', 'closed-new', 'closed-old', 'rejected'
+    ]);
+  });
+
+  test('filters by status and issue type', () => {
+    expect(ids(getReportQueue(reports, { status: 'open', issueType: 'all' }))).toEqual(['new-early', 'new-late', 'working']);
+    expect(ids(getReportQueue(reports, { status: 'resolved', issueType: 'all' }))).toEqual(['closed-new', 'closed-old']);
+    expect(ids(getReportQueue(reports, { status: 'open', issueType: 'pro-tips' }))).toEqual(['working']);
+    expect(getReportQueue(reports, { status: 'rejected', issueType: 'pro-tips' })).toEqual([]);
+  });
+
+  test('does not reorder the list it was given', () => {
+    const before = ids(reports);
+    getReportQueue(reports, { status: 'all', issueType: 'all' });
+    expect(ids(reports)).toEqual(before);
+    expect(isOpenReport(reports[2])).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { IssueType, Report, ReportStatus } from '../types/report';
+
+/**
+ * Issue report triage
+ * Which status changes are allowed and how the admin queue is filtered and ordered.
+ * functions/reports.js enforces the same transitions when a change is saved.
+ */
+
+export const REPORT_STATUSES: ReportStatus[] = ['new', 'in-progress', 'resolved', 'rejected'];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  'new': 'New',
+  'in-progress': 'In progress',
+  'resolved': 'Resolved',
+  'rejected': 'Rejected'
+};
+
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  'pro-tips': 'Pro tip',
+  'incorrect-info': 'Incorrect details',
+  'closed-location': 'Closed or moved',
+  'inappropriate-content': 'Inappropriate content',
+  'other': 'Other'
+};
+
+// Allowed next statuses - resolved and rejected reports can only be reopened
+export const REPORT_STATUS_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  'new': ['in-progress', 'resolved', 'rejected'],
+  'in-progress': ['new', 'resolved', 'rejected'],
+  'resolved': ['in-progress'],
+  'rejected': ['in-progress']
+};
+
+// "open" covers everything still waiting on an admin
+export type ReportStatusFilter = ReportStatus | 'open' | 'all';
+
+export interface ReportFilters {
+  status: ReportStatusFilter;
+  issueType: IssueType | 'all';
+}
+
+/**
+ * Checks whether a report can move from one status to another
+ */
+export const canTransition = (from: ReportStatus, to: ReportStatus): boolean =>
+  REPORT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+
+/**
+ * Whether a report still needs work
+ */
+export const isOpenReport = (report: Pick<Report, 'status'>): boolean =>
+  report.status === 'new' || report.status === 'in-progress';
+
+const toTime = (timestamp: string): number => {
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Filters reports by status and issue type, then orders them as a work queue:
+ * new first, then in progress, then closed - oldest first within open reports
+ * so nothing waits forever, newest first within closed ones
+ */
+export const getReportQueue = (reports: Report[], filters: ReportFilters): Report[] => {
+  const matches = reports.filter(report => {
+    if (filters.issueType !== 'all' && report.issueType !== filters.issueType) return false;
+    if (filters.status === 'all') return true;
+    if (filters.status === 'open') return isOpenReport(report);
+    return report.status === filters.status;
+  });
+
+  return matches.sort((a, b) => {
+    const statusOrder = REPORT_STATUSES.indexOf(a.status) - REPORT_STATUSES.indexOf(b.status);
+    if (statusOrder !== 0) return statusOrder;
+    const age = toTime(a.timestamp) - toTime(b.timestamp);
+    return isOpenReport(a) ? age : -age;
+  });
+};
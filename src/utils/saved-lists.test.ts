@@ -0,0 +1,34 @@
+import { SAVED_LISTS_STORAGE_KEY, buildListShareUrl, decodeListParam, encodeListParam, loadSavedLists } from './saved-lists';
+
+describe('list share links', () => {
+  test('round-trips ids through the list parameter', () => {
+    const ids = ['abc123', 'ChIJ_x-y', 'has,comma'];
+    const url = buildListShareUrl({ name: 'Rainy day', locationIds: ids }, 'https://pamekids.com');
+    const params = new URLSearchParams(url.split('?')[1]);
+
+    expect(url.startsWith('https://pamekids.com/map?list=')).toBe(true);
+    expect(params.get('listName')).toBe('Rainy day');
+    expect(decodeListParam(params.get('list'))).toEqual(ids);
+  });
+
+  test('drops duplicates, blanks and garbled ids', () => {
+    expect(encodeListParam(['a', 'b', 'a'])).toBe('a,b');
+    expect(decodeListParam('a,,b, a ,%E0%A4%A')).toEqual(['a', 'b']);
+    expect(decodeListParam(null)).toEqual([]);
+  });
+});
+
+describe('loadSavedLists', () => {
+  afterEach(() => localStorage.clear());
+
+  test('ignores malformed storage', () => {
+    localStorage.setItem(SAVED_LISTS_STORAGE_KEY, JSON.stringify([
+      { id: 'list-1', name: 'Rainy day', locationIds: ['a'], createdAt: 1 },
+      { id: 'list-2', name: 'Broken', locationIds: 'a' }
+    ]));
+    expect(loadSavedLists().map(list => list.id)).toEqual(['list-1']);
+
+    localStorage.setItem(SAVED_LISTS_STORAGE_KEY, 'not json');
+    expect(loadSavedLists()).toEqual([]);
+  });
+});
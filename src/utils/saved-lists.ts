@@ -0,0 +1,143 @@
+/**
+ * Saved lists
+ * Named lists of saved places ("Rainy day", "Birthday venues") kept in the browser,
+ * plus the helpers that read and write them from localStorage and turn a list into a
+ * shareable /map?list=... link.
+ */
+
+export interface SavedList {
+  id: string;
+  name: string;
+  locationIds: string[];
+  createdAt: number;
+}
+
+// A list opened from a shared link - it only lives in the URL until someone saves it
+export interface SharedList {
+  name: string;
+  locationIds: string[];
+}
+
+// The list the map is filtered to - one of the user's own, or one opened from a link
+export type ListSelection =
+  | { kind: 'saved'; listId: string }
+  | { kind: 'shared'; list: SharedList };
+
+export const SAVED_LISTS_STORAGE_KEY = 'pamekids_saved_lists';
+export const DEFAULT_LIST_NAME = 'Favourites';
+
+// Keeps shared URLs a sensible length
+const MAX_SHARED_IDS = 100;
+
+/**
+ * Generates a unique id for a new list
+ */
+export const createListId = (): string => {
+  return `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const isSavedList = (value: any): value is SavedList => {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    Array.isArray(value.locationIds) &&
+    value.locationIds.every((id: unknown) => typeof id === 'string')
+  );
+};
+
+/**
+ * Reads saved lists from localStorage, ignoring anything malformed
+ * @returns The stored lists, or an empty array
+ */
+export const loadSavedLists = (): SavedList[] => {
+  try {
+    const stored = localStorage.getItem(SAVED_LISTS_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter(isSavedList)
+      .map(list => ({ ...list, createdAt: typeof list.createdAt === 'number' ? list.createdAt : 0 }));
+  } catch (error) {
+    console.error('Error reading saved lists:', error);
+    return [];
+  }
+};
+
+/**
+ * Writes saved lists to localStorage
+ */
+export const storeSavedLists = (lists: SavedList[]): void => {
+  try {
+    localStorage.setItem(SAVED_LISTS_STORAGE_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.error('Error saving lists:', error);
+  }
+};
+
+/**
+ * Encodes location ids for the `list` URL parameter
+ * @param locationIds Ids of the places in the list
+ * @returns A comma-separated, URL-safe string
+ */
+export const encodeListParam = (locationIds: string[]): string => {
+  return Array.from(new Set(locationIds))
+    .slice(0, MAX_SHARED_IDS)
+    .map(id => encodeURIComponent(id))
+    .join(',');
+};
+
+/**
+ * Decodes the `list` URL parameter back into location ids
+ * @param param Raw parameter value (already URL-decoded once by URLSearchParams)
+ * @returns Unique, non-empty ids - empty if the parameter is missing or garbled
+ */
+export const decodeListParam = (param: string | null): string[] => {
+  if (!param) return [];
+
+  const ids = param.split(',').map(part => {
+    try {
+      return decodeURIComponent(part).trim();
+    } catch {
+      return '';
+    }
+  });
+
+  return Array.from(new Set(ids.filter(id => id.length > 0))).slice(0, MAX_SHARED_IDS);
+};
+
+/**
+ * Builds a shareable map link for a list, e.g. /map?list=abc,def&listName=Rainy%20day
+ * @param list The list to share
+ * @param origin Site origin, e.g. window.location.origin
+ * @returns The absolute share URL
+ */
+export const buildListShareUrl = (list: Pick<SavedList, 'name' | 'locationIds'>, origin: string): string => {
+  const params = new URLSearchParams();
+  params.set('list', encodeListParam(list.locationIds));
+  params.set('listName', list.name);
+  return `${origin}/map?${params.toString()}`;
+};
+
+/**
+ * Resolves the location ids behind a list selection
+ * @param selection The list the map is filtered to
+ * @param lists The user's saved lists
+ * @returns The ids in the list (empty if a saved list has since been deleted)
+ */
+export const getSelectionLocationIds = (selection: ListSelection, lists: SavedList[]): string[] => {
+  if (selection.kind === 'shared') return selection.list.locationIds;
+  return lists.find(list => list.id === selection.listId)?.locationIds || [];
+};
+
+/**
+ * Returns the display name of a list selection
+ */
+export const getSelectionName = (selection: ListSelection, lists: SavedList[]): string => {
+  if (selection.kind === 'shared') return selection.list.name;
+  return lists.find(list => list.id === selection.listId)?.name || 'Saved list';
+};
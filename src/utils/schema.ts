@@ -1,5 +1,8 @@
 import { APP_NAME, APP_URL, APP_DESCRIPTION, CITY } from './metadata';
 import { BlogPost } from '../types/blog';
+import { Location } from '../types/location';
+import { DAYS_OF_WEEK, getLocationSchedule } from './opening-hours';
+import { getPlaceImage, getPlacePath } from './place-pages';
 
 /**
  * Generates schema.org structured data for the PameKids web application
@@ -109,14 +112,73 @@ export const getBlogPostSchema = (post: BlogPost) => {
   };
 };
 
+// Activity types that are sights rather than businesses
+const TOURIST_ATTRACTION_TYPES = ['park', 'playground', 'outdoor-play', 'nature', 'beach', 'hike', 'garden', 'theme-park', 'history'];
+
+/**
+ * Generates schema.org structured data for a location's page
+ * Parks, beaches and other sights are TouristAttractions, everything else a LocalBusiness
+ *
+ * @param location The location shown on the page
+ * @param slug The slug of the location's page
+ * @returns The schema.org LocalBusiness or TouristAttraction object as a JavaScript object
+ */
+export const getLocationSchema = (location: Location, slug: string) => {
+  const url = `${APP_URL}${getPlacePath(slug)}`;
+  const primaryType = location.primaryType || location.types[0];
+  const image = getPlaceImage(location);
+
+  // Only the regular week - seasonal hours and holidays change too often to publish
+  const { weekly } = getLocationSchedule(location);
+  const openingHoursSpecification = DAYS_OF_WEEK.flatMap(day =>
+    (weekly[day] || []).map(interval => ({
+      "@type": "OpeningHoursSpecification",
+      "dayOfWeek": `https://schema.org/${day}`,
+      "opens": interval.open,
+      "closes": interval.close === '24:00' ? '23:59' : interval.close
+    }))
+  );
+
+  return {
+    "@context": "https://schema.org",
+    "@type": TOURIST_ATTRACTION_TYPES.includes(primaryType) ? "TouristAttraction" : "LocalBusiness",
+    "@id": url,
+    "url": url,
+    "name": location.name,
+    "description": location.description,
+    ...(image && { "image": image }),
+    "address": {
+      "@type": "PostalAddress",
+      "streetAddress": location.address,
+      "addressCountry": "GR"
+    },
+    "geo": {
+      "@type": "GeoCoordinates",
+      "latitude": location.coordinates.lat,
+      "longitude": location.coordinates.lng
+    },
+    ...(openingHoursSpecification.length > 0 && { "openingHoursSpecification": openingHoursSpecification }),
+    ...(location.contact.phone && { "telephone": location.contact.phone }),
+    ...(location.contact.website && { "sameAs": location.contact.website }),
+    ...(location.priceRange && { "priceRange": location.priceRange }),
+    ...(location.placeData?.rating && location.placeData.userRatingsTotal && {
+      "aggregateRating": {
+        "@type": "AggregateRating",
+        "ratingValue": location.placeData.rating,
+        "reviewCount": location.placeData.userRatingsTotal
+      }
+    })
+  };
+};
+
 /**
  * Helper function to inject schema.org structured data into the document head
  * Call this function in a useEffect to add the schema to the page
  *
- * @param type The type of schema to inject ('application', 'organization', or 'blog')
- * @param data Optional data needed for specific schema types (e.g., blog post data)
+ * @param type The type of schema to inject ('application', 'organization', 'blog' or 'place')
+ * @param data Optional data needed for specific schema types (e.g., blog post data, or { location, slug } for places)
  */
-export const injectSchemaOrgData = (type: 'application' | 'organization' | 'blog' = 'application', data?: any) => {
+export const injectSchemaOrgData = (type: 'application' | 'organization' | 'blog' | 'place' = 'application', data?: any) => {
   // Remove any existing schema.org scripts to prevent duplicates
   const existingScripts = document.querySelectorAll('script[type="application/ld+json"]');
   existingScripts.forEach(script => script.remove());
@@ -133,6 +195,14 @@ export const injectSchemaOrgData = (type: 'application' | 'organization' | 'blog
         return;
       }
       break;
+    case 'place':
+      if (data && data.location && data.slug) {
+        schemaData = getLocationSchema(data.location, data.slug);
+      } else {
+        console.error('Location data is required for place schema');
+        return;
+      }
+      break;
     case 'organization':
       schemaData = getOrganizationSchema();
       break;
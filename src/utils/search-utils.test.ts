@@ -0,0 +1,114 @@
+import { ActivityType, Location } from '../types/location';
+import { getLocalizedActivityCategories } from './i18n';
+import { buildSearchIndex, getEditDistance, normalizeSearchText, performEnhancedSearch } from './search-utils';
+
+const makeLocation = (id: string, overrides: Partial<Location> = {}): Location => ({
+  id,
+  name: id,
+  coordinates: { lat: 37.9755, lng: 23.7348 },
+  types: ['playground'],
+  description: '',
+  address: 'Athens, Greece',
+  ageRange: { min: 0, max: 12 },
+  openingHours: {},
+  contact: {},
+  ...overrides
+});
+
+const activityConfig = (language: 'en' | 'el') =>
+  getLocalizedActivityCategories(language) as Record<ActivityType, { name: string; color: string }>;
+
+const index = buildSearchIndex([
+  makeLocation('glyfada', { name: 'Πάρκο Γλυφάδας', address: 'Λεωφόρος Ποσειδώνος, Γλυφάδα' }),
+  makeLocation('halandri', { name: 'Chalandri Playground', address: 'Agias Paraskevis, Chalandri' }),
+  makeLocation('museum', {
+    name: 'Museum of Natural History',
+    types: ['history'],
+    address: 'Levidou 13, Kifisia',
+    description: 'Dinosaurs and fossils',
+    translations: { el: { description: 'Δεινόσαυροι και απολιθώματα' } }
+  }),
+  makeLocation('allou', { name: 'Allou Fun Park', types: ['theme-park'], ageRange: { min: 4, max: 14 } })
+]);
+
+const search = (query: string, language: 'en' | 'el' = 'en') =>
+  performEnhancedSearch(index, query, activityConfig(language));
+
+const ids = (query: string, language: 'en' | 'el' = 'en') => search(query, language).map(match => match.location.id);
+
+describe('normalizeSearchText', () => {
+  test('writes Greek and Latin spellings of a name the same way', () => {
+    expect(normalizeSearchText('Γλυφάδα')).toBe('glifada');
+    expect(normalizeSearchText('glyfada')).toBe('glifada');
+    expect(normalizeSearchText('GLIFADA')).toBe('glifada');
+    expect(normalizeSearchText('Χαλάνδρι')).toBe(normalizeSearchText('Chalandri'));
+    expect(normalizeSearchText('Κηφισιά')).toBe(normalizeSearchText('Kifissia'));
+  });
+
+  test('drops accents and punctuation', () => {
+    expect(normalizeSearchText('  Café -- Kids & Co. ')).toBe('cafe kids co');
+    expect(normalizeSearchText('Μουσείο')).toBe(normalizeSearchText('ΜΟΥΣΕΙΟ'));
+  });
+});
+
+describe('getEditDistance', () => {
+  test('counts a swap of neighbouring letters as one edit', () => {
+    expect(getEditDistance('glifada', 'gilfada', 2)).toBe(1);
+    expect(getEditDistance('park', 'pork', 2)).toBe(1);
+    expect(getEditDistance('park', 'museum', 2)).toBe(3);
+  });
+});
+
+describe('performEnhancedSearch', () => {
+  test('finds a Greek name typed in Latin letters and the other way round', () => {
+    expect(ids('glyfada')).toEqual(['glyfada']);
+    expect(ids('Glifada')).toEqual(['glyfada']);
+    expect(ids('παρκο γλυφαδας')).toEqual(['glyfada']);
+    expect(ids('Χαλάνδρι')).toEqual(['halandri']);
+  });
+
+  test('matches while a word is still being typed', () => {
+    expect(ids('glyf')).toEqual(['glyfada']);
+    expect(ids('natural hist')).toEqual(['museum']);
+  });
+
+  test('allows typos in longer words only', () => {
+    const [match] = search('musuem');
+    expect(match.location.id).toBe('museum');
+    expect(match.matchType).toBe('fuzzy');
+    expect(ids('gilfada')).toEqual(['glyfada']);
+    expect(ids('fum')).toEqual([]);
+  });
+
+  test('finds typos at the start of a word and in a word still being typed', () => {
+    expect(ids('lgyfada')).toEqual(['glyfada']);
+    expect(ids('playgorun')).toEqual(['halandri']);
+    expect(ids('dinosuars')).toEqual([]);
+  });
+
+  test('ranks the exact name first and typo matches after what was typed', () => {
+    const locations = [
+      makeLocation('typo', { name: 'Perk Up Cafe' }),
+      makeLocation('prefix', { name: 'Parkour Academy' }),
+      makeLocation('exact', { name: 'Park' })
+    ];
+    const matches = performEnhancedSearch(buildSearchIndex(locations), 'park', activityConfig('en'));
+    expect(matches.map(match => [match.location.id, match.matchType])).toEqual([
+      ['exact', 'exact'],
+      ['prefix', 'partial'],
+      ['typo', 'fuzzy']
+    ]);
+  });
+
+  test('searches addresses and both languages of the description', () => {
+    expect(search('Kifisia')[0].matchField).toBe('address');
+    expect(search('δεινοσαυροι')[0].matchField).toBe('description');
+    expect(ids('fossils')).toEqual(['museum']);
+  });
+
+  test('understands activity names in either language and ages', () => {
+    expect(search('θεματικα παρκα', 'el')).toMatchObject([{ matchField: 'activityType', matchText: 'Θεματικά Πάρκα' }]);
+    expect(ids('theme parks')).toEqual(['allou']);
+    expect(search('13 year old').map(match => match.location.id).sort()).toEqual(['allou']);
+  });
+});
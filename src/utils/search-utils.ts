@@ -1,4 +1,6 @@
 import { Location, ActivityType } from '../types/location';
+import { Coordinates, getDistanceKm } from './geo';
+import { transliterateGreek } from './place-pages';
 
 // Type for activity configuration
 type ActivityConfigType = Record<ActivityType, { name: string; color: string }>;
@@ -8,12 +10,291 @@ export interface SearchMatch {
   location: Location;
   matchField: string;
   matchText: string;
-  matchType: 'exact' | 'partial' | 'semantic';
+  matchType: 'exact' | 'partial' | 'fuzzy' | 'semantic'; // fuzzy - matched despite a typo
   priority: number; // 1 is highest priority, higher numbers = lower priority
   ageMatch?: boolean;
   activityMatch?: boolean;
+  distanceKm?: number; // Distance from the searcher, when their location is known
 }
 
+// Spellings of the same Greek sound, so "Γλυφάδα", "Glyfada" and "Glifada" all end up as "glifada"
+// and "Χαλάνδρι" and "Halandri" as "halandri". Applied in order, after transliteration.
+const SPELLING_VARIANTS: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/[ck]h/g, 'h'],
+  [/ks/g, 'x'],
+  [/ou/g, 'u'],
+  [/ai/g, 'e'],
+  [/ei|oi|y/g, 'i'],
+  [/b/g, 'v'],
+  [/([a-z])\1+/g, '$1']
+];
+
+/**
+ * Puts text in the form the search compares
+ * Lowercase, without accents, with Greek written in Latin letters and common
+ * spelling differences folded together, so a name matches however it was typed.
+ * @param text Text in English or Greek
+ * @returns Latin letters, digits and single spaces
+ */
+export const normalizeSearchText = (text: string): string => SPELLING_VARIANTS.reduce(
+  (normalized, [pattern, replacement]) => normalized.replace(pattern, replacement),
+  transliterateGreek(text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase())
+)
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const tokenize = (normalizedText: string): string[] => normalizedText.split(' ').filter(Boolean);
+
+/**
+ * Number of single-letter edits between two words, a swap of neighbouring letters counting as one
+ * @param a A word
+ * @param b Another word
+ * @param maxDistance Stop counting past this
+ * @returns The distance, or maxDistance + 1 when it is further than that
+ */
+export const getEditDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  // Rows of the edit distance table - the one before last is kept for swaps
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+};
+
+// Typos allowed in a search word - none in short words, where one letter changes the meaning
+const getMaxEdits = (length: number): number => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+// Most typos a search word compared with a whole indexed word of this length can have -
+// search words up to their allowance longer or shorter are compared with it
+const getMaxEditsForWord = (length: number): number => [-2, -1, 0, 1, 2].reduce((most, difference) => {
+  const allowed = getMaxEdits(length + difference);
+  return Math.abs(difference) <= allowed ? Math.max(most, allowed) : most;
+}, 0);
+
+// Shortest start of a word a search word with typos is compared with
+const MIN_TYPO_LENGTH = 4;
+
+// A word with up to maxDeletes letters left out, in every way, the word itself included.
+// Two words within maxDeletes typos of each other always have one of these in common.
+const getDeletes = (word: string, maxDeletes: number): string[] => {
+  const deletes = new Set<string>([word]);
+  let previous = [word];
+  for (let round = 0; round < maxDeletes; round++) {
+    const next: string[] = [];
+    previous.forEach(text => {
+      for (let i = 0; i < text.length; i++) {
+        const shorter = text.slice(0, i) + text.slice(i + 1);
+        if (!deletes.has(shorter)) {
+          deletes.add(shorter);
+          next.push(shorter);
+        }
+      }
+    });
+    previous = next;
+  }
+  return Array.from(deletes);
+};
+
+type IndexedField = 'name' | 'address' | 'description';
+
+// Descriptions are long and varied, so they only match words as typed
+const FUZZY_FIELDS: IndexedField[] = ['name', 'address'];
+
+/**
+ * Locations prepared for searching
+ * Built once per list of locations with buildSearchIndex, so typing a query only looks
+ * words up rather than normalising every location again.
+ */
+export interface SearchIndex {
+  locations: Location[];
+  normalizedNames: string[]; // By position in locations, for exact matches
+  words: string[]; // Every word in a name, address or description, sorted
+  postings: Record<string, Record<IndexedField, number[]>>; // Positions of the locations with each word
+  // Name and address words and their starts, under each of their getDeletes - a search word
+  // with typos is only compared with the ones filed under its own deletes
+  typoKeys: Map<string, string[]>;
+  wordStarts: Map<string, string[]>; // Longer name and address words by their starts
+}
+
+/**
+ * Builds the search index for a list of locations
+ * The Greek description is indexed alongside the English one.
+ * @param locations All searchable locations
+ * @returns The index to pass to performEnhancedSearch
+ */
+export function buildSearchIndex(locations: Location[]): SearchIndex {
+  const postings: SearchIndex['postings'] = {};
+
+  const addWords = (text: string, field: IndexedField, position: number) => {
+    tokenize(normalizeSearchText(text)).forEach(word => {
+      if (!postings[word]) {
+        postings[word] = { name: [], address: [], description: [] };
+      }
+      const positions = postings[word][field];
+      if (positions[positions.length - 1] !== position) {
+        positions.push(position);
+      }
+    });
+  };
+
+  locations.forEach((location, position) => {
+    addWords(location.name, 'name', position);
+    addWords(location.address || '', 'address', position);
+    addWords(`${location.description || ''} ${location.translations?.el?.description || ''}`, 'description', position);
+  });
+
+  const words = Object.keys(postings).sort();
+
+  // Every word and word start a search word with typos can be compared with, and the most
+  // typos it can be compared with - a start only with search words of its own length
+  const typoTerms = new Map<string, number>();
+  const wordStarts = new Map<string, string[]>();
+  const addTypoTerm = (term: string, maxEdits: number) => {
+    if (maxEdits > (typoTerms.get(term) || 0)) typoTerms.set(term, maxEdits);
+  };
+  const addToList = (lists: Map<string, string[]>, key: string, value: string) => {
+    const list = lists.get(key);
+    if (list) {
+      list.push(value);
+    } else {
+      lists.set(key, [value]);
+    }
+  };
+  words
+    .filter(word => FUZZY_FIELDS.some(field => postings[word][field].length > 0))
+    .forEach(word => {
+      addTypoTerm(word, getMaxEditsForWord(word.length));
+      for (let length = MIN_TYPO_LENGTH; length < word.length; length++) {
+        const start = word.slice(0, length);
+        addTypoTerm(start, getMaxEdits(length));
+        addToList(wordStarts, start, word);
+      }
+    });
+
+  const typoKeys = new Map<string, string[]>();
+  typoTerms.forEach((maxEdits, term) => {
+    getDeletes(term, maxEdits).forEach(key => addToList(typoKeys, key, term));
+  });
+
+  return {
+    locations,
+    normalizedNames: locations.map(location => normalizeSearchText(location.name)),
+    words,
+    postings,
+    typoKeys,
+    wordStarts
+  };
+}
+
+// First position in a sorted list that isn't before the value
+const lowerBound = (sorted: string[], value: string): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Finds the name and address words a query word matches despite typos
+ * Looks the query word's deletes up in the index, so only words that can be close are
+ * compared. A word still being typed also matches by its start, e.g. "glifda" "glifad(a)".
+ * @returns The words, apart from ones starting with the query word as typed
+ */
+const findTypoMatches = (index: SearchIndex, queryWord: string, maxEdits: number): string[] => {
+  const matches = new Set<string>();
+  const compared = new Set<string>();
+
+  getDeletes(queryWord, maxEdits).forEach(key => {
+    (index.typoKeys.get(key) || []).forEach(term => {
+      if (compared.has(term)) return;
+      compared.add(term);
+      if (getEditDistance(queryWord, term, maxEdits) > maxEdits) return;
+
+      if (Object.prototype.hasOwnProperty.call(index.postings, term)) {
+        matches.add(term);
+      }
+      if (term.length === queryWord.length) {
+        (index.wordStarts.get(term) || []).forEach(word => matches.add(word));
+      }
+    });
+  });
+
+  return Array.from(matches).filter(word => !word.startsWith(queryWord));
+};
+
+/**
+ * Finds the locations with every query word in a field
+ * A query word matches the start of an indexed word, so results show while a word is
+ * still being typed, and in names and addresses it also matches with a typo or two.
+ * @returns Whether each matching location needed a typo allowance, by position
+ */
+const findFieldMatches = (index: SearchIndex, queryWords: string[], field: IndexedField): Map<number, boolean> => {
+  let matches: Map<number, boolean> | null = null;
+
+  for (const queryWord of queryWords) {
+    const wordMatches = new Map<number, boolean>();
+    const addPositions = (word: string, isFuzzy: boolean) => {
+      index.postings[word][field].forEach(position => {
+        if (!wordMatches.has(position) || wordMatches.get(position)) {
+          wordMatches.set(position, isFuzzy);
+        }
+      });
+    };
+
+    // Words starting with the query word sit together in the sorted list
+    for (let i = lowerBound(index.words, queryWord); i < index.words.length && index.words[i].startsWith(queryWord); i++) {
+      addPositions(index.words[i], false);
+    }
+
+    const maxEdits = getMaxEdits(queryWord.length);
+    if (maxEdits > 0 && FUZZY_FIELDS.includes(field)) {
+      findTypoMatches(index, queryWord, maxEdits).forEach(word => addPositions(word, true));
+    }
+
+    // Keep the locations that matched every word so far
+    const previousMatches: Map<number, boolean> | null = matches;
+    if (previousMatches) {
+      const combined = new Map<number, boolean>();
+      wordMatches.forEach((isFuzzy, position) => {
+        if (previousMatches.has(position)) {
+          combined.set(position, isFuzzy || Boolean(previousMatches.get(position)));
+        }
+      });
+      matches = combined;
+    } else {
+      matches = wordMatches;
+    }
+    if (matches.size === 0) break;
+  }
+
+  return matches || new Map<number, boolean>();
+};
+
 // Keywords that might indicate a search for certain activity types
 const activityKeywords: Record<ActivityType, string[]> = {
   'indoor-play': ['indoor', 'inside', 'playroom', 'playspace', 'play area', 'play space', 'playground', 'soft play'],
@@ -49,6 +330,12 @@ const activityKeywords: Record<ActivityType, string[]> = {
   'cafe': ['cafe', 'coffee shop', 'bakery', 'patisserie', 'snack', 'brunch', 'breakfast']
 };
 
+// The keywords as the search compares them, worked out once
+const normalizedActivityKeywords = Object.keys(activityKeywords).map(type => ({
+  type: type as ActivityType,
+  keywords: activityKeywords[type as ActivityType].map(normalizeSearchText)
+}));
+
 /**
  * Extracts age references from a search query
  * @param query The search query
@@ -89,27 +376,20 @@ export function extractActivitiesFromQuery(
   query: string,
   activityConfig: ActivityConfigType
 ): ActivityType[] {
-  const queryLower = query.toLowerCase();
+  const normalizedQuery = ` ${normalizeSearchText(query)} `;
   const matchedTypes: ActivityType[] = [];
   
-  // Check if query contains activity display names (e.g., "Indoor Play")
+  // Check if query contains activity display names (e.g., "Indoor Play" or "Παιδική Χαρά")
   Object.entries(activityConfig).forEach(([type, config]) => {
-    if (queryLower.includes(config.name.toLowerCase())) {
+    if (normalizedQuery.includes(` ${normalizeSearchText(config.name)} `)) {
       matchedTypes.push(type as ActivityType);
     }
   });
   
-  // Check for activity keywords
-  Object.entries(activityKeywords).forEach(([type, keywords]) => {
-    if (!matchedTypes.includes(type as ActivityType)) {
-      for (const keyword of keywords) {
-        // Use word boundary for more precise matching
-        const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-        if (regex.test(queryLower)) {
-          matchedTypes.push(type as ActivityType);
-          break;
-        }
-      }
+  // Check for activity keywords - whole words only
+  normalizedActivityKeywords.forEach(({ type, keywords }) => {
+    if (!matchedTypes.includes(type) && keywords.some(keyword => normalizedQuery.includes(` ${keyword} `))) {
+      matchedTypes.push(type);
     }
   });
   
@@ -138,43 +418,51 @@ function checkActivityMatch(location: Location, activityTypes: ActivityType[]):
 
 /**
  * Performs a comprehensive search across location data
- * @param locations Array of locations to search
+ * Names, addresses and descriptions match however they are written: with or without
+ * accents, in Greek or Latin letters, and in names and addresses with a typo or two.
+ * @param index The locations to search, from buildSearchIndex
  * @param query The search query
  * @param activityConfig Configuration mapping activity types to display names
+ * @param origin The searcher's location - equally relevant matches are ordered nearest first
  * @returns An array of search matches, sorted by relevance
  */
 export function performEnhancedSearch(
-  locations: Location[],
+  index: SearchIndex,
   query: string,
-  activityConfig: ActivityConfigType
+  activityConfig: ActivityConfigType,
+  origin: Coordinates | null = null
 ): SearchMatch[] {
   if (!query.trim()) {
     return [];
   }
   
-  const queryLower = query.toLowerCase();
+  const normalizedQuery = normalizeSearchText(query);
+  const queryWords = tokenize(normalizedQuery);
   const matches: SearchMatch[] = [];
-  const processedIds = new Set<string>();
   
   // Extract ages and activities from query
   const ages = extractAgesFromQuery(query);
   const activityTypes = extractActivitiesFromQuery(query, activityConfig);
   
+  // Look up the query's words once for each field
+  const nameMatches = findFieldMatches(index, queryWords, 'name');
+  const addressMatches = findFieldMatches(index, queryWords, 'address');
+  const descriptionMatches = findFieldMatches(index, queryWords, 'description');
+  
   // Process each location to find matches
-  locations.forEach(location => {
-    // Skip if we already added this location
-    if (processedIds.has(location.id)) return;
-    
+  index.locations.forEach((location, position) => {
     // Create potential matches for this location - we'll pick the best one later
     const potentialMatches: SearchMatch[] = [];
     
     // Name match (highest priority)
-    if (location.name.toLowerCase().includes(queryLower)) {
+    if (nameMatches.has(position)) {
       potentialMatches.push({
         location,
         matchField: 'name',
         matchText: location.name,
-        matchType: location.name.toLowerCase() === queryLower ? 'exact' : 'partial',
+        matchType: index.normalizedNames[position] === normalizedQuery
+          ? 'exact'
+          : nameMatches.get(position) ? 'fuzzy' : 'partial',
         priority: 1,
         ageMatch: checkAgeMatch(location, ages),
         activityMatch: checkActivityMatch(location, activityTypes)
@@ -211,12 +499,12 @@ export function performEnhancedSearch(
     }
     
     // Address match
-    if (location.address.toLowerCase().includes(queryLower)) {
+    if (addressMatches.has(position)) {
       potentialMatches.push({
         location,
         matchField: 'address',
         matchText: location.address,
-        matchType: 'partial',
+        matchType: addressMatches.get(position) ? 'fuzzy' : 'partial',
         priority: 4,
         ageMatch: checkAgeMatch(location, ages),
         activityMatch: checkActivityMatch(location, activityTypes)
@@ -224,7 +512,7 @@ export function performEnhancedSearch(
     }
     
     // Description match
-    if (location.description.toLowerCase().includes(queryLower)) {
+    if (descriptionMatches.has(position)) {
       potentialMatches.push({
         location,
         matchField: 'description',
@@ -242,16 +530,21 @@ export function performEnhancedSearch(
       potentialMatches.sort((a, b) => a.priority - b.priority);
       
       // Add the best match to our results
-      matches.push(potentialMatches[0]);
-      processedIds.add(location.id);
+      const bestMatch = potentialMatches[0];
+      if (origin) {
+        bestMatch.distanceKm = getDistanceKm(origin, location.coordinates);
+      }
+      matches.push(bestMatch);
     }
   });
   
   // Sort final matches by:
   // 1. Exact matches first
   // 2. Then by priority
-  // 3. Then by age + activity matches
-  // 4. Then alphabetically by name
+  // 3. Then matches without typos
+  // 4. Then by age + activity matches
+  // 5. Then by distance from the searcher (when known)
+  // 6. Then alphabetically by name
   return matches.sort((a, b) => {
     // Exact matches first
     if (a.matchType === 'exact' && b.matchType !== 'exact') return -1;
@@ -260,11 +553,20 @@ export function performEnhancedSearch(
     // Then by priority
     if (a.priority !== b.priority) return a.priority - b.priority;
     
+    // Then what was typed over what was nearly typed
+    if (a.matchType !== 'fuzzy' && b.matchType === 'fuzzy') return -1;
+    if (a.matchType === 'fuzzy' && b.matchType !== 'fuzzy') return 1;
+    
     // Then by combined activity + age matches
     const aMatchScore = (a.ageMatch ? 1 : 0) + (a.activityMatch ? 2 : 0);
     const bMatchScore = (b.ageMatch ? 1 : 0) + (b.activityMatch ? 2 : 0);
     if (aMatchScore !== bMatchScore) return bMatchScore - aMatchScore;
     
+    // Then nearest first
+    if (a.distanceKm !== undefined && b.distanceKm !== undefined && a.distanceKm !== b.distanceKm) {
+      return a.distanceKm - b.distanceKm;
+    }
+    
     // Finally alphabetically
     return a.location.name.localeCompare(b.location.name);
   });
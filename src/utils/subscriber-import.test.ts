@@ -0,0 +1,31 @@
+import { parseSubscriberCsv } from './subscriber-import';
+
+describe('parseSubscriberCsv', () => {
+  test('maps common column names and splits lists', () => {
+    const parsed = parseSubscriberCsv(
+      'Email Address,First Name,Age Ranges,Zip,Tags\n' +
+      'a@example.com,Maria,0-2 years; 3-5 years,151 24,vip\n' +
+      'b@example.com,,,,\n'
+    );
+
+    expect(parsed.error).toBeNull();
+    expect(parsed.rows).toEqual([
+      { email: 'a@example.com', firstName: 'Maria', ageRanges: ['0-2 years', '3-5 years'], postalCode: '151 24' },
+      { email: 'b@example.com' }
+    ]);
+    expect(parsed.rowNumbers).toEqual([2, 3]);
+  });
+
+  test('reads our own subscriber export', () => {
+    const parsed = parseSubscriberCsv('Email,Status,Name,Age ranges,Interests,Postal code\nc@example.com,confirmed,Nikos,6-8 years,music; playground,');
+    expect(parsed.rows).toEqual([
+      { email: 'c@example.com', firstName: 'Nikos', ageRanges: ['6-8 years'], interests: ['music', 'playground'] }
+    ]);
+  });
+
+  test('needs an email column and at least one subscriber', () => {
+    expect(parseSubscriberCsv('name\nMaria').error).toBe('The file needs an "email" column');
+    expect(parseSubscriberCsv('email\n').error).toBe('The file has no subscribers below the header row');
+    expect(parseSubscriberCsv('').error).toBe('The file is empty');
+  });
+});
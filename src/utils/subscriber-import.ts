@@ -0,0 +1,68 @@
+import { SubscriberImportRow } from '../types/newsletter';
+import { parseCsv } from './data-export';
+
+/**
+ * Subscriber CSV import
+ * Maps the columns of a CSV exported from another mailing tool (or from our own
+ * subscriber export) onto subscriber fields. Values are checked by functions/newsletter.js.
+ */
+
+type ImportField = keyof SubscriberImportRow;
+
+// Accepted column headers per field, compared lowercased without spaces, dashes or underscores
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  email: ['email', 'emailaddress'],
+  firstName: ['firstname', 'name', 'fname'],
+  ageRanges: ['ageranges', 'ages'],
+  interests: ['interests'],
+  postalCode: ['postalcode', 'postcode', 'zip', 'zipcode']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]/g, '');
+
+export interface ParsedSubscriberCsv {
+  rows: SubscriberImportRow[];
+  rowNumbers: number[]; // Row of the CSV each subscriber came from, counting the header as 1
+  error: string | null;
+}
+
+/**
+ * Reads subscribers from CSV text
+ * Lists (age ranges, interests) are separated by ";" or "|"; empty cells are left out,
+ * and unknown columns are ignored
+ * @param text The CSV document, with a header row
+ */
+export const parseSubscriberCsv = (text: string): ParsedSubscriberCsv => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { rows: [], rowNumbers: [], error: 'The file is empty' };
+  }
+
+  const columns = header.map(cell => {
+    const normalized = normalizeHeader(cell);
+    return (Object.keys(HEADER_ALIASES) as ImportField[]).find(field => HEADER_ALIASES[field].includes(normalized)) || null;
+  });
+  if (!columns.includes('email')) {
+    return { rows: [], rowNumbers: [], error: 'The file needs an "email" column' };
+  }
+  if (lines.length === 0) {
+    return { rows: [], rowNumbers: [], error: 'The file has no subscribers below the header row' };
+  }
+
+  const rows = lines.map(cells => {
+    const row: SubscriberImportRow = { email: '' };
+    columns.forEach((field, index) => {
+      const value = (cells[index] || '').trim();
+      if (!field || (!value && field !== 'email')) return;
+
+      if (field === 'ageRanges' || field === 'interests') {
+        row[field] = value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+      } else {
+        row[field] = value;
+      }
+    });
+    return row;
+  });
+
+  return { rows, rowNumbers: lines.map((_, index) => index + 2), error: null };
+};
@@ -0,0 +1,87 @@
+import {
+  appendProTip,
+  buildSuggestedEdit,
+  formatSuggestedEditValue,
+  getSuggestedEditPatch,
+  hasLocationChangedSince
+} from './suggested-edits';
+import { Location } from '../types/location';
+
+const location: Location = {
+  id: 'playground',
+  name: 'Playground',
+  coordinates: { lat: 37.98, lng: 23.73 },
+  types: ['playground'],
+  description: '',
+  address: '',
+  ageRange: { min: 2, max: 10 },
+  priceRange: 'Free',
+  openingHours: { Monday: '09:00–13:00', Tuesday: '09:00–13:00' },
+  schedule: {
+    weekly: { Monday: [{ open: '09:00', close: '13:00' }], Tuesday: [{ open: '09:00', close: '13:00' }] },
+    exceptions: [{ date: '2026-12-25', intervals: [] }]
+  },
+  contact: {}
+};
+
+describe('buildSuggestedEdit', () => {
+  test('keeps only the fields that change, with the current value as "from"', () => {
+    expect(buildSuggestedEdit(location, {
+      ageRange: { min: 2, max: 12 },
+      priceRange: 'Free',
+      openingHours: { Tuesday: ' 09:00–13:00 ', Monday: '09:00–13:00', Wednesday: '' }
+    })).toEqual({
+      ageRange: { from: { min: 2, max: 10 }, to: { min: 2, max: 12 } }
+    });
+  });
+
+  test('records fields the location did not have yet as null', () => {
+    const edit = buildSuggestedEdit(location, { proTips: '• Bring a towel', openingHours: { Monday: 'Closed', Sunday: '10:00–14:00 ' } });
+    expect(edit.proTips).toEqual({ from: null, to: '• Bring a towel' });
+    expect(edit.openingHours?.to).toEqual({ Monday: 'Closed', Sunday: '10:00–14:00' });
+  });
+});
+
+describe('appendProTip', () => {
+  test('adds the tip as a new bullet point', () => {
+    expect(appendProTip(undefined, ' Bring a towel ')).toBe('• Bring a towel');
+    expect(appendProTip('• Shade until noon', 'Bring a towel')).toBe('• Shade until noon\n• Bring a towel');
+    expect(appendProTip('• Shade until noon', '- Bring a towel')).toBe('• Shade until noon\n- Bring a towel');
+  });
+});
+
+describe('getSuggestedEditPatch', () => {
+  test('rebuilds the weekly schedule from new hours and keeps exceptions', () => {
+    const edit = buildSuggestedEdit(location, { openingHours: { Monday: 'Closed', Tuesday: '10:00–14:00' }, priceRange: '€' });
+    const patch = getSuggestedEditPatch(location, edit);
+
+    expect(patch.priceRange).toBe('€');
+    expect(patch.openingHours).toEqual({ Monday: 'Closed', Tuesday: '10:00–14:00' });
+    expect(patch.schedule).toEqual({
+      weekly: { Monday: [], Tuesday: [{ open: '10:00', close: '14:00' }] },
+      exceptions: [{ date: '2026-12-25', intervals: [] }]
+    });
+    expect(patch).not.toHaveProperty('ageRange');
+  });
+});
+
+describe('hasLocationChangedSince', () => {
+  test('spots fields edited after the report was sent', () => {
+    const edit = buildSuggestedEdit(location, { ageRange: { min: 2, max: 12 } });
+    expect(hasLocationChangedSince(location, edit)).toBe(false);
+    expect(hasLocationChangedSince({ ...location, priceRange: '€€' }, edit)).toBe(false);
+    expect(hasLocationChangedSince({ ...location, ageRange: { min: 3, max: 10 } }, edit)).toBe(true);
+  });
+});
+
+describe('formatSuggestedEditValue', () => {
+  test('formats each field for display', () => {
+    expect(formatSuggestedEditValue('ageRange', { min: 2, max: 12 })).toEqual(['2–12 years']);
+    expect(formatSuggestedEditValue('openingHours', { Tuesday: '10:00–14:00', Monday: 'Closed' })).toEqual([
+      'Monday: Closed',
+      'Tuesday: 10:00–14:00'
+    ]);
+    expect(formatSuggestedEditValue('proTips', null)).toEqual(['Not set']);
+    expect(formatSuggestedEditValue('proTips', '• One\n• Two')).toEqual(['• One', '• Two']);
+  });
+});
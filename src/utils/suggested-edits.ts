@@ -0,0 +1,136 @@
+import { Location } from '../types/location';
+import { IssueType, SuggestedEdit, SuggestedEditField } from '../types/report';
+import { DAYS_OF_WEEK, getLocationSchedule, parseOpeningHoursText } from './opening-hours';
+
+/**
+ * Suggested edits
+ * Structured changes a visitor proposes with a pro tip or incorrect details report,
+ * stored on the report as a diff against the location and applied by an admin.
+ * functions/location-validation.js checks the proposed values when a report is sent.
+ */
+
+export const SUGGESTED_EDIT_FIELDS: SuggestedEditField[] = ['openingHours', 'ageRange', 'priceRange', 'proTips'];
+
+export const SUGGESTED_EDIT_LABELS: Record<SuggestedEditField, string> = {
+  openingHours: 'Opening hours',
+  ageRange: 'Age range',
+  priceRange: 'Price range',
+  proTips: 'Pro tips'
+};
+
+// Only these report types can carry a suggested edit
+export const SUGGESTED_EDIT_ISSUE_TYPES: IssueType[] = ['pro-tips', 'incorrect-info'];
+
+// The new values a visitor filled in, before they are compared with the location
+export type SuggestedEditValues = {
+  [K in SuggestedEditField]?: NonNullable<Location[K]>;
+};
+
+// Drops empty days and stray whitespace so reordered or untouched hours compare equal
+const normalizeOpeningHours = (openingHours: Record<string, string> | null | undefined): Record<string, string> => {
+  const normalized: Record<string, string> = {};
+  DAYS_OF_WEEK.forEach(day => {
+    const text = openingHours?.[day]?.trim();
+    if (text) {
+      normalized[day] = text;
+    }
+  });
+  return normalized;
+};
+
+const normalizeValue = (field: SuggestedEditField, value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (field === 'openingHours') return normalizeOpeningHours(value as Record<string, string>);
+  if (field === 'ageRange') {
+    const { min, max } = value as Location['ageRange'];
+    return { min, max };
+  }
+  return typeof value === 'string' ? value.trim() || null : value;
+};
+
+const isSameValue = (field: SuggestedEditField, a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalizeValue(field, a)) === JSON.stringify(normalizeValue(field, b));
+
+/**
+ * Builds the diff stored on a report - only the fields whose proposed value
+ * differs from what the location has now
+ */
+export const buildSuggestedEdit = (location: Location, proposed: SuggestedEditValues): SuggestedEdit => {
+  const edit: Record<string, { from: unknown; to: unknown }> = {};
+
+  SUGGESTED_EDIT_FIELDS.forEach(field => {
+    const to = proposed[field];
+    if (to === undefined || isSameValue(field, location[field], to)) return;
+    edit[field] = {
+      from: location[field] ?? null,
+      to: field === 'openingHours' ? normalizeOpeningHours(to as Record<string, string>) : to
+    };
+  });
+
+  return edit as SuggestedEdit;
+};
+
+/**
+ * Adds a visitor's tip to the end of a location's pro tips as a new bullet point
+ */
+export const appendProTip = (existing: string | undefined, tip: string): string => {
+  const trimmedTip = tip.trim();
+  const bullet = /^[•*-]\s/.test(trimmedTip) ? trimmedTip : `• ${trimmedTip}`;
+  const current = existing?.trim();
+  return current ? `${current}\n${bullet}` : bullet;
+};
+
+/**
+ * Whether any field the edit touches has changed on the location since the report
+ * was sent - the admin should double check before accepting
+ */
+export const hasLocationChangedSince = (location: Location, edit: SuggestedEdit): boolean =>
+  SUGGESTED_EDIT_FIELDS.some(field => {
+    const change = edit[field];
+    return change !== undefined && !isSameValue(field, location[field], change.from);
+  });
+
+/**
+ * Turns an accepted edit into the update sent to updateLocation. New opening hours
+ * replace the weekly schedule too, keeping any seasonal hours and exceptions.
+ */
+export const getSuggestedEditPatch = (location: Location, edit: SuggestedEdit): Partial<Location> => {
+  const patch: Partial<Location> = {};
+
+  if (edit.openingHours) {
+    patch.openingHours = edit.openingHours.to;
+    patch.schedule = {
+      ...getLocationSchedule(location),
+      weekly: parseOpeningHoursText(edit.openingHours.to).weekly
+    };
+  }
+  if (edit.ageRange) {
+    patch.ageRange = edit.ageRange.to;
+  }
+  if (edit.priceRange) {
+    patch.priceRange = edit.priceRange.to;
+  }
+  if (edit.proTips) {
+    patch.proTips = edit.proTips.to;
+  }
+
+  return patch;
+};
+
+/**
+ * Formats a field value for the side-by-side diff, one entry per line
+ */
+export const formatSuggestedEditValue = (field: SuggestedEditField, value: unknown): string[] => {
+  const normalized = normalizeValue(field, value);
+  if (normalized === null) return ['Not set'];
+
+  if (field === 'openingHours') {
+    const lines = Object.entries(normalized as Record<string, string>).map(([day, text]) => `${day}: ${text}`);
+    return lines.length > 0 ? lines : ['Not set'];
+  }
+  if (field === 'ageRange') {
+    const { min, max } = normalized as Location['ageRange'];
+    return [`${min}–${max} years`];
+  }
+  return String(normalized).split('\n');
+};
@@ -0,0 +1,30 @@
+import { estimateTravelMinutes, formatReachLimit, getReachRadiusKm, getTravelRadiusKm, isWithinReach } from './travel-time';
+
+describe('travel-time model', () => {
+  test('radius and travel time are inverses of each other', () => {
+    const radius = getTravelRadiusKm(20, 'driving');
+    expect(estimateTravelMinutes(radius, 'driving')).toBe(20);
+    expect(getTravelRadiusKm(30, 'walking')).toBeCloseTo((0.5 * 4.5) / 1.3);
+  });
+
+  test('fixed overheads leave no reach for very short budgets', () => {
+    expect(getTravelRadiusKm(5, 'transit')).toBe(0);
+    expect(getReachRadiusKm({ kind: 'distance', km: 5 })).toBe(5);
+  });
+
+  test('checks whether coordinates fall inside the area', () => {
+    const filter = {
+      origin: { lat: 37.9755, lng: 23.7348 }, // Syntagma
+      originType: 'address' as const,
+      originLabel: 'Syntagma',
+      limit: { kind: 'time' as const, mode: 'walking' as const, minutes: 30 }
+    };
+    expect(isWithinReach({ lat: 37.9715, lng: 23.7257 }, filter)).toBe(true); // Acropolis, ~0.9 km
+    expect(isWithinReach({ lat: 37.942, lng: 23.6465 }, filter)).toBe(false); // Piraeus, ~8.6 km
+  });
+
+  test('formats filter labels', () => {
+    expect(formatReachLimit({ kind: 'distance', km: 5 })).toBe('Within 5 km');
+    expect(formatReachLimit({ kind: 'time', mode: 'transit', minutes: 20 })).toBe('20 min by public transport');
+  });
+});
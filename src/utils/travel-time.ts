@@ -0,0 +1,83 @@
+import { Coordinates, getDistanceKm } from './geo';
+import { DEFAULT_LANGUAGE, Language, TranslationKey, translate } from './i18n';
+
+/**
+ * Travel-time estimates
+ * A local speed model that turns straight-line distance into an approximate journey
+ * time, so the map can offer "within 20 minutes" filters without a routing service.
+ * Because the estimate only grows with distance, every time band is a circle.
+ */
+
+export type TravelMode = 'walking' | 'driving' | 'transit';
+
+interface SpeedModel {
+  speedKmh: number; // Average moving speed along the route
+  detourFactor: number; // Route length compared with the straight line
+  overheadMinutes: number; // Fixed time before moving - parking, walking to the stop, waiting
+}
+
+// Tuned for central Athens, including typical traffic and service frequencies
+const SPEED_MODELS: Record<TravelMode, SpeedModel> = {
+  walking: { speedKmh: 4.5, detourFactor: 1.3, overheadMinutes: 0 },
+  driving: { speedKmh: 22, detourFactor: 1.4, overheadMinutes: 5 },
+  transit: { speedKmh: 16, detourFactor: 1.3, overheadMinutes: 10 }
+};
+
+// How far the filter reaches - a plain radius or a travel-time band
+export type ReachLimit =
+  | { kind: 'distance'; km: number }
+  | { kind: 'time'; mode: TravelMode; minutes: number };
+
+export interface ReachFilter {
+  origin: Coordinates;
+  originType: 'user' | 'address';
+  originLabel: string; // "My location" or the pinned address
+  limit: ReachLimit;
+}
+
+/**
+ * Estimates the travel time for a straight-line distance
+ * @param distanceKm Straight-line distance in kilometres
+ * @param mode How the family is travelling
+ * @returns Estimated minutes, rounded up
+ */
+export const estimateTravelMinutes = (distanceKm: number, mode: TravelMode): number => {
+  const { speedKmh, detourFactor, overheadMinutes } = SPEED_MODELS[mode];
+  return Math.ceil(overheadMinutes + ((distanceKm * detourFactor) / speedKmh) * 60);
+};
+
+/**
+ * Works out the straight-line radius reachable within a time budget
+ * @param minutes Time budget
+ * @param mode How the family is travelling
+ * @returns Radius in kilometres (0 if the budget doesn't cover the fixed overhead)
+ */
+export const getTravelRadiusKm = (minutes: number, mode: TravelMode): number => {
+  const { speedKmh, detourFactor, overheadMinutes } = SPEED_MODELS[mode];
+  const movingMinutes = Math.max(0, minutes - overheadMinutes);
+  return ((movingMinutes / 60) * speedKmh) / detourFactor;
+};
+
+/**
+ * Returns the radius of the area a reach filter covers
+ */
+export const getReachRadiusKm = (limit: ReachLimit): number => {
+  return limit.kind === 'distance' ? limit.km : getTravelRadiusKm(limit.minutes, limit.mode);
+};
+
+/**
+ * Checks whether coordinates fall inside a reach filter's area
+ */
+export const isWithinReach = (coordinates: Coordinates, filter: ReachFilter): boolean => {
+  return getDistanceKm(filter.origin, coordinates) <= getReachRadiusKm(filter.limit);
+};
+
+/**
+ * Formats a reach limit for filter labels, e.g. "Within 5 km" or "20 min walk"
+ */
+export const formatReachLimit = (limit: ReachLimit, language: Language = DEFAULT_LANGUAGE): string => {
+  if (limit.kind === 'distance') {
+    return translate(language, 'travel.within', { km: limit.km });
+  }
+  return translate(language, `travel.minutes.${limit.mode}` as TranslationKey, { minutes: limit.minutes });
+};